@@ -3,7 +3,7 @@ import { Tldraw, useEditor, TLShapeId, TLShape, TLParentId } from 'tldraw';
 import 'tldraw/tldraw.css';
 import './tldraw-glass-theme.css'; // Custom glass theme for tldraw
 import { GENERIC_COMPONENTS, useProvider } from './components';
-import { customShapeUtils, createComponentShape } from './shapes';
+import { customShapeUtils } from './shapes';
 import { BaseInfraShapeProps } from './shapes/base';
 import { ComponentRegistry } from './components/core/component-registry';
 import { Toolbar } from './toolbar';
@@ -11,252 +11,18 @@ import { EnhancedExportDialog } from './export';
 import { ConnectionGuide } from './connection-guide';
 import { useTldrawThemeSync } from '../lib/use-tldraw-theme-sync';
 import { useInitialUrlLoad } from './hooks/useInitialUrlLoad';
+import { getAttachedArrowIds, getCrossingArrowIds, rerouteArrows } from './tools/layout/edge-routing';
+import { DragDropManager } from './drag-drop-manager';
+import { LayersPanel } from './layers-panel';
+import { LAYER_DRAG_TYPE, getLayerVisibility } from './layer-tree';
+import { PatternImportWorkflow } from './ui/PatternImportWorkflow';
+import { PatternRegistry } from './patterns/core/pattern-registry';
+import { placeImportedCanvas } from './tools/core/canvas-placement';
+import { ImportedCanvas } from './import/import-model';
 
 // To test validation functionality, run this in browser console:
 // import { runAllTests } from './validation'; runAllTests();
 
-// Enhanced drag-and-drop system with smooth container transitions
-class DragDropManager {
-    private editor: ReturnType<typeof useEditor>;
-    private lastReparentTime: number = 0;
-    private readonly REPARENT_COOLDOWN = 500; // Minimum time between reparenting operations
-    private readonly HYSTERESIS_MARGIN = 50; // Buffer zone to prevent rapid switching
-    private lastReparentedShapes: Map<string, { parentId: string; timestamp: number }> = new Map();
-
-    constructor(editor: ReturnType<typeof useEditor>) {
-        this.editor = editor;
-    }
-
-    // Performance monitoring for debugging
-    private measurePerformance<T>(name: string, fn: () => T): T {
-        const start = performance.now();
-        const result = fn();
-        const duration = performance.now() - start;
-        if (duration > 10) { // Log operations taking more than 10ms
-            console.debug(`DragDropManager.${name} took ${duration.toFixed(2)}ms`);
-        }
-        return result;
-    }
-
-    // Check if a point is inside a container shape
-    private isPointInContainer(point: { x: number; y: number }, shape: TLShape): boolean {
-        const { x, y, props } = shape;
-        const shapeProps = props as BaseInfraShapeProps;
-        return point.x >= x &&
-            point.x <= x + shapeProps.w &&
-            point.y >= y &&
-            point.y <= y + shapeProps.h;
-    }
-
-    // Find the most appropriate container for a point with hysteresis
-    public findBestContainer(point: { x: number; y: number }, excludeShapeId?: TLShapeId, currentParentId?: TLShapeId): TLShapeId | null {
-        return this.measurePerformance('findBestContainer', () => {
-            const allShapes = this.editor.getCurrentPageShapes();
-            const containers = allShapes.filter((shape: TLShape) => {
-                const shapeProps = shape.props as BaseInfraShapeProps;
-                return shapeProps?.isBoundingBox &&
-                    shape.id !== excludeShapeId &&
-                    this.isPointInContainer(point, shape);
-            });
-
-            if (containers.length === 0) return null;
-
-            // Apply hysteresis: if already in a container, require more distance to switch
-            if (currentParentId) {
-                const currentParent = containers.find(c => c.id === currentParentId);
-                if (currentParent) {
-                    const currentProps = currentParent.props as BaseInfraShapeProps;
-                    // Check if point is still within hysteresis margin of current container
-                    const margin = this.HYSTERESIS_MARGIN;
-                    const withinHysteresis =
-                        point.x >= currentParent.x - margin &&
-                        point.x <= currentParent.x + currentProps.w + margin &&
-                        point.y >= currentParent.y - margin &&
-                        point.y <= currentParent.y + currentProps.h + margin;
-
-                    if (withinHysteresis) {
-                        return currentParentId;
-                    }
-                }
-            }
-
-            // Return the smallest container (most specific)
-            return containers.reduce((smallest: TLShape, current: TLShape) => {
-                const smallestProps = smallest.props as BaseInfraShapeProps;
-                const currentProps = current.props as BaseInfraShapeProps;
-                const smallestArea = smallestProps.w * smallestProps.h;
-                const currentArea = currentProps.w * currentProps.h;
-                return currentArea < smallestArea ? current : smallest;
-            }).id;
-        });
-    }
-
-    // Check if a container can hold another container (prevent invalid nesting)
-    private canContainContainer(parentContainer: TLShape, childContainer: TLShape): boolean {
-        const parentProps = parentContainer.props as BaseInfraShapeProps;
-        const childProps = childContainer.props as BaseInfraShapeProps;
-
-        // Define containment rules based on component types
-        const parentType = parentProps.componentId;
-        const childType = childProps.componentId;
-
-        // VPC can contain subnets and availability zones
-        if (parentType === 'vpc') {
-            return childType === 'subnet' || childType === 'availability-zone';
-        }
-
-        // Availability zones can contain subnets
-        if (parentType === 'availability-zone') {
-            return childType === 'subnet';
-        }
-
-        // Subnets can contain non-container components
-        if (parentType === 'subnet') {
-            return !childProps.isBoundingBox;
-        }
-
-        return true; // Default: allow containment
-    }
-
-    // Enhanced reparenting with validation and cooldown
-    public reparentShape(shapeId: TLShapeId, newParentId: TLParentId): boolean {
-        const now = Date.now();
-        const shape = this.editor.getShape(shapeId);
-        if (!shape) return false;
-
-        const currentParentId = shape.parentId;
-        const newParentIdStr = newParentId === this.editor.getCurrentPageId() ? 'page' : newParentId as string;
-        const currentParentIdStr = currentParentId === this.editor.getCurrentPageId() ? 'page' : currentParentId as string;
-
-        // Check if we're trying to reparent to the same parent
-        if (currentParentIdStr === newParentIdStr) {
-            return false;
-        }
-
-        // Apply global cooldown to prevent rapid reparenting
-        if (now - this.lastReparentTime < this.REPARENT_COOLDOWN) {
-            return false;
-        }
-
-        // Check per-shape cooldown to prevent oscillation
-        const lastReparent = this.lastReparentedShapes.get(shapeId);
-        if (lastReparent && now - lastReparent.timestamp < this.REPARENT_COOLDOWN * 2) {
-            // If this is the same transition we just did, apply extra cooldown
-            if (lastReparent.parentId === newParentIdStr) {
-                return false;
-            }
-        }
-
-        const newParent = newParentId !== this.editor.getCurrentPageId() ? this.editor.getShape(newParentId as TLShapeId) : null;
-
-        // If moving to a container, validate the containment
-        if (newParent) {
-            const shapeProps = shape.props as BaseInfraShapeProps;
-            const parentProps = newParent.props as BaseInfraShapeProps;
-
-            // Prevent containers from containing themselves or invalid nesting
-            if (shapeProps.isBoundingBox && !this.canContainContainer(newParent, shape)) {
-                return false;
-            }
-        }
-
-        // Debug logging
-        console.log(`🔄 Reparenting shape:`, {
-            shapeId,
-            currentParent: currentParentIdStr,
-            newParent: newParentIdStr
-        });
-
-        // Use tldraw's native reparenting - this preserves visual position automatically
-        // The shape will appear in exactly the same screen position after reparenting
-        this.editor.batch(() => {
-            this.editor.reparentShapes([shapeId], newParentId);
-            this.editor.bringToFront([shapeId]);
-        });
-
-        // Track this reparenting operation
-        this.lastReparentedShapes.set(shapeId, { parentId: currentParentIdStr, timestamp: now });
-        this.lastReparentTime = now;
-
-        // Clean up old entries (older than 2 seconds)
-        const cutoff = now - 2000;
-        for (const [key, value] of this.lastReparentedShapes.entries()) {
-            if (value.timestamp < cutoff) {
-                this.lastReparentedShapes.delete(key);
-            }
-        }
-
-        return true;
-    }
-
-    // Create a new shape with proper parent assignment
-    public createShapeWithParent(component: any, point: { x: number; y: number }, provider: string): TLShape | null {
-        // Validate input coordinates
-        if (!isFinite(point.x) || !isFinite(point.y)) {
-            console.error(`🚨 Invalid point coordinates for shape creation:`, point);
-            return null;
-        }
-
-        const parentId = this.findBestContainer(point);
-
-        // If creating inside a container, convert coordinates to be relative to the container
-        let shapeX = point.x;
-        let shapeY = point.y;
-
-        if (parentId) {
-            const parent = this.editor.getShape(parentId);
-            if (parent) {
-                // Validate parent coordinates
-                if (!isFinite(parent.x) || !isFinite(parent.y)) {
-                    console.error(`🚨 Invalid parent coordinates:`, { parentId, x: parent.x, y: parent.y });
-                    return null;
-                }
-
-                shapeX = point.x - parent.x;
-                shapeY = point.y - parent.y;
-
-                // Ensure shape is within container bounds with padding
-                const parentProps = parent.props as BaseInfraShapeProps;
-                const padding = 10;
-                const shapeW = component.isBoundingBox ? 300 : 120;
-                const shapeH = component.isBoundingBox ? 200 : 80;
-
-                shapeX = Math.max(padding, Math.min(shapeX, (parentProps.w || 400) - shapeW - padding));
-                shapeY = Math.max(padding, Math.min(shapeY, (parentProps.h || 300) - shapeH - padding));
-
-                // Final validation
-                if (!isFinite(shapeX) || !isFinite(shapeY)) {
-                    console.error(`🚨 Invalid calculated shape coordinates:`, { shapeX, shapeY });
-                    shapeX = padding;
-                    shapeY = padding;
-                }
-
-                console.log(`📦 Creating shape inside container:`, {
-                    componentId: component.id,
-                    pagePoint: point,
-                    containerPos: { x: parent.x, y: parent.y },
-                    relativePos: { x: shapeX, y: shapeY },
-                    containerId: parentId
-                });
-            }
-        }
-
-        // Final coordinate validation before shape creation
-        if (!isFinite(shapeX) || !isFinite(shapeY)) {
-            console.error(`🚨 Cannot create shape with invalid coordinates:`, { shapeX, shapeY });
-            return null;
-        }
-
-        const shape = createComponentShape(component, shapeX, shapeY, provider, parentId);
-
-        const createdShape = this.editor.createShape(shape);
-        if (createdShape) {
-            this.editor.bringToFront([createdShape.id as TLShapeId]);
-        }
-        return createdShape;
-    }
-}
-
 // Helper function to maintain backward compatibility
 function findContainingBoundingBox(editor: ReturnType<typeof useEditor>, point: { x: number; y: number }, excludeShapeId?: TLShapeId): TLShapeId | null {
     const manager = new DragDropManager(editor);
@@ -270,6 +36,8 @@ function findContainingBoundingBox(editor: ReturnType<typeof useEditor>, point:
 function ReparentingHandler() {
     const editor = useEditor();
     const isProcessingRef = React.useRef(false);
+    // Shapes moved since the last pass, whose routed arrows need a new route
+    const movedShapeIdsRef = React.useRef(new Set<TLShapeId>());
     const dragDropManager = React.useMemo(() => new DragDropManager(editor), [editor]);
 
     React.useEffect(() => {
@@ -287,7 +55,7 @@ function ReparentingHandler() {
                         ((from as TLShape).x !== (to as TLShape).x || (from as TLShape).y !== (to as TLShape).y)
                     ) {
                         wasDrag = true;
-                        break;
+                        if ((to as TLShape).type !== 'arrow') movedShapeIdsRef.current.add((to as TLShape).id);
                     }
                 }
 
@@ -306,6 +74,8 @@ function ReparentingHandler() {
                         if (isDragging) return; // Skip reparenting while actively dragging
 
                         isProcessingRef.current = true;
+                        const movedShapeIds = movedShapeIdsRef.current;
+                        movedShapeIdsRef.current = new Set();
 
                         try {
                             const selectedShapes = editor.getSelectedShapes();
@@ -366,6 +136,18 @@ function ReparentingHandler() {
                                     });
                                 });
                             }
+
+                            // Routed arrows attached to the moved shapes, or to anything inside them,
+                            // follow them around the new obstacles, and arrows they now cover go around them
+                            const touchedShapeIds = editor.getShapeAndDescendantIds([
+                                ...movedShapeIds,
+                                ...shapesToReparent.map(({ shapeId }) => shapeId),
+                            ]);
+                            const arrowIds = Array.from(new Set([
+                                ...getAttachedArrowIds(editor, touchedShapeIds),
+                                ...getCrossingArrowIds(editor, touchedShapeIds),
+                            ]));
+                            if (arrowIds.length > 0) rerouteArrows(editor, { arrowIds });
                         } finally {
                             // Reset the processing flag after a delay to ensure operations complete
                             setTimeout(() => {
@@ -401,12 +183,16 @@ function DropZone() {
 
     const [labelMode, setLabelMode] = React.useState(false);
     const [showExportDialog, setShowExportDialog] = React.useState(false);
+    const [showImportWorkflow, setShowImportWorkflow] = React.useState(false);
     const [showConnectionGuide, setShowConnectionGuide] = React.useState(false);
+    const [showLayersPanel, setShowLayersPanel] = React.useState(false);
 
 
     React.useEffect(() => {
         const handleDrop = (e: DragEvent) => {
             if (e.defaultPrevented) return;
+            // Rows dragged within the layers panel are handled by the panel itself
+            if (e.dataTransfer?.types.includes(LAYER_DRAG_TYPE)) return;
             e.preventDefault();
             e.stopPropagation();
 
@@ -478,21 +264,49 @@ function DropZone() {
         };
     }, [editor, provider, dragDropManager]);
 
+    // Imported diagrams land to the right of the current drawing; bring them into view
+    const handleCanvasImport = (canvas: ImportedCanvas) => {
+        const placement = placeImportedCanvas(editor, canvas, provider);
+        setShowImportWorkflow(false);
+        if (placement.shapeIds.length > 0) {
+            editor.select(...placement.shapeIds);
+            editor.zoomToSelection({ animation: { duration: 300 } });
+        }
+    };
+
     return (
         <>
             <Toolbar
                 labelMode={labelMode}
                 setLabelMode={setLabelMode}
                 onExport={() => setShowExportDialog(true)}
+                onImport={() => setShowImportWorkflow(true)}
                 onShowConnectionGuide={() => setShowConnectionGuide(true)}
+                layersPanelOpen={showLayersPanel}
+                onToggleLayersPanel={() => setShowLayersPanel(!showLayersPanel)}
             />
 
+            {showLayersPanel && (
+                <LayersPanel
+                    isVisible={showLayersPanel}
+                    onClose={() => setShowLayersPanel(false)}
+                />
+            )}
+
             {showExportDialog && (
                 <EnhancedExportDialog
                     isOpen={showExportDialog}
                     onClose={() => setShowExportDialog(false)}
                 />
             )}
+            {showImportWorkflow && (
+                <PatternImportWorkflow
+                    isVisible={showImportWorkflow}
+                    onClose={() => setShowImportWorkflow(false)}
+                    onImportComplete={patterns => patterns.forEach(pattern => PatternRegistry.getInstance().registerPattern(pattern))}
+                    onCanvasImport={handleCanvasImport}
+                />
+            )}
             {showConnectionGuide && (
                 <ConnectionGuide
                     isVisible={showConnectionGuide}
@@ -517,6 +331,7 @@ export function Canvas() {
                 shapeUtils={customShapeUtils}
                 inferDarkMode
                 persistenceKey="infra-builder"
+                getShapeVisibility={getLayerVisibility}
             >
                 <DropZone />
                 <ReparentingHandler />
@@ -210,6 +210,90 @@ export function getCoreComponents(): ComponentMetadata[] {
       updatedAt: '2024-01-01T00:00:00Z'
     },
 
+    {
+      id: 'generic-load-balancer',
+      name: 'Load Balancer',
+      description: 'Distributes incoming traffic across backends',
+      category: ComponentCategory.NETWORK,
+      subcategory: ComponentSubcategory.LOAD_BALANCER,
+      providerMappings: {
+        aws: {
+          name: 'Elastic Load Balancing',
+          description: 'AWS Elastic Load Balancing',
+          iconPath: '/assets/provider-icons/aws/network/Res_Elastic-Load-Balancing_Application-Load-Balancer_48.svg',
+          iconType: 'svg',
+          serviceUrl: 'https://aws.amazon.com/elasticloadbalancing/',
+          documentationUrl: 'https://docs.aws.amazon.com/elasticloadbalancing/',
+          tags: ['network', 'load-balancer', 'elb'],
+          metadata: {}
+        },
+        azure: {
+          name: 'Load Balancer',
+          description: 'Azure Load Balancer',
+          iconPath: '/assets/provider-icons/azure/networking/10062-icon-service-Load-Balancers.svg',
+          iconType: 'svg',
+          serviceUrl: 'https://azure.microsoft.com/en-us/services/load-balancer/',
+          documentationUrl: 'https://docs.microsoft.com/en-us/azure/load-balancer/',
+          tags: ['network', 'load-balancer'],
+          metadata: {}
+        },
+        gcp: {
+          name: 'Cloud Load Balancing',
+          description: 'Google Cloud Load Balancing',
+          iconPath: '/assets/provider-icons/gcp/Cloud-Load-Balancing.svg',
+          iconType: 'svg',
+          serviceUrl: 'https://cloud.google.com/load-balancing',
+          documentationUrl: 'https://cloud.google.com/load-balancing/docs',
+          tags: ['network', 'load-balancer'],
+          metadata: {}
+        },
+        generic: {
+          name: 'Load Balancer',
+          description: 'Generic load balancer',
+          iconPath: '/assets/provider-icons/generic/load-balancer.svg',
+          iconType: 'svg',
+          tags: ['network', 'load-balancer'],
+          metadata: {}
+        }
+      },
+      config: {
+        defaultSize: { width: 120, height: 80 },
+        minSize: { width: 80, height: 60 },
+        maxSize: { width: 200, height: 120 },
+        isContainer: false,
+        canContainTypes: [],
+        canBeContainedBy: [ComponentCategory.NETWORK],
+        connectionPoints: [
+          { id: 'frontend', name: 'Frontend', type: 'input', position: { x: 0.5, y: 0 } },
+          { id: 'backend', name: 'Backend', type: 'output', position: { x: 0.5, y: 1 } }
+        ],
+        allowedConnections: [ComponentCategory.COMPUTE, ComponentCategory.CONTAINERS, ComponentCategory.NETWORK, ComponentCategory.EXTERNAL],
+        validationRules: [],
+        customProperties: [
+          { id: 'type', name: 'Type', type: 'select', defaultValue: 'application', required: false, description: 'Layer the load balancer works at', options: [
+            { value: 'application', label: 'Application (HTTP)' },
+            { value: 'network', label: 'Network (TCP/UDP)' }
+          ]},
+          { id: 'scheme', name: 'Scheme', type: 'select', defaultValue: 'internet-facing', required: false, description: 'Load balancer scheme', options: [
+            { value: 'internet-facing', label: 'Internet-facing' },
+            { value: 'internal', label: 'Internal' }
+          ]},
+          { id: 'port', name: 'Port', type: 'number', defaultValue: 80, required: false, description: 'Listener port' },
+          { id: 'protocol', name: 'Protocol', type: 'select', defaultValue: 'http', required: false, description: 'Listener protocol', options: [
+            { value: 'http', label: 'HTTP' },
+            { value: 'https', label: 'HTTPS' },
+            { value: 'tcp', label: 'TCP' },
+            { value: 'udp', label: 'UDP' }
+          ]},
+          { id: 'sslTermination', name: 'SSL Termination', type: 'boolean', defaultValue: false, required: false, description: 'Terminate TLS at the load balancer' }
+        ]
+      },
+      version: '1.0.0',
+      tags: ['network', 'load-balancer', 'traffic'],
+      createdAt: '2024-01-01T00:00:00Z',
+      updatedAt: '2024-01-01T00:00:00Z'
+    },
+
     // Compute Resources
     {
       id: 'generic-compute',
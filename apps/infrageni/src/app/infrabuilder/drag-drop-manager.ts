@@ -0,0 +1,262 @@
+import { useEditor, TLShapeId, TLShape, TLParentId } from 'tldraw';
+import { createComponentShape } from './shapes';
+import { BaseInfraShapeProps } from './shapes/base';
+
+// Enhanced drag-and-drop system with smooth container transitions
+export class DragDropManager {
+    private editor: ReturnType<typeof useEditor>;
+    private lastReparentTime: number = 0;
+    private readonly REPARENT_COOLDOWN = 500; // Minimum time between reparenting operations
+    private readonly HYSTERESIS_MARGIN = 50; // Buffer zone to prevent rapid switching
+    private lastReparentedShapes: Map<string, { parentId: string; timestamp: number }> = new Map();
+
+    constructor(editor: ReturnType<typeof useEditor>) {
+        this.editor = editor;
+    }
+
+    // Performance monitoring for debugging
+    private measurePerformance<T>(name: string, fn: () => T): T {
+        const start = performance.now();
+        const result = fn();
+        const duration = performance.now() - start;
+        if (duration > 10) { // Log operations taking more than 10ms
+            console.debug(`DragDropManager.${name} took ${duration.toFixed(2)}ms`);
+        }
+        return result;
+    }
+
+    // Page-space bounds; nested containers store x/y relative to their parent
+    private getContainerBounds(shape: TLShape): { x: number; y: number; w: number; h: number } {
+        const bounds = this.editor.getShapePageBounds(shape.id);
+        if (bounds) return { x: bounds.x, y: bounds.y, w: bounds.w, h: bounds.h };
+        const shapeProps = shape.props as BaseInfraShapeProps;
+        return { x: shape.x, y: shape.y, w: shapeProps.w, h: shapeProps.h };
+    }
+
+    // Check if a point is inside a container shape
+    private isPointInContainer(point: { x: number; y: number }, shape: TLShape, margin = 0): boolean {
+        const { x, y, w, h } = this.getContainerBounds(shape);
+        return point.x >= x - margin &&
+            point.x <= x + w + margin &&
+            point.y >= y - margin &&
+            point.y <= y + h + margin;
+    }
+
+    // Find the most appropriate container for a point with hysteresis
+    public findBestContainer(point: { x: number; y: number }, excludeShapeId?: TLShapeId, currentParentId?: TLShapeId): TLShapeId | null {
+        return this.measurePerformance('findBestContainer', () => {
+            const allShapes = this.editor.getCurrentPageShapes();
+            const containers = allShapes.filter((shape: TLShape) => {
+                const shapeProps = shape.props as BaseInfraShapeProps;
+                return shapeProps?.isBoundingBox &&
+                    shape.id !== excludeShapeId &&
+                    // A container never lands inside its own contents
+                    !(excludeShapeId && this.editor.hasAncestor(shape, excludeShapeId)) &&
+                    this.isPointInContainer(point, shape);
+            });
+
+            if (containers.length === 0) return null;
+
+            // Apply hysteresis: if already in a container, require more distance to switch
+            if (currentParentId) {
+                const currentParent = containers.find(c => c.id === currentParentId);
+                if (currentParent) {
+                    // Check if point is still within hysteresis margin of current container
+                    const withinHysteresis = this.isPointInContainer(point, currentParent, this.HYSTERESIS_MARGIN);
+
+                    if (withinHysteresis) {
+                        return currentParentId;
+                    }
+                }
+            }
+
+            // Return the smallest container (most specific)
+            return containers.reduce((smallest: TLShape, current: TLShape) => {
+                const smallestProps = smallest.props as BaseInfraShapeProps;
+                const currentProps = current.props as BaseInfraShapeProps;
+                const smallestArea = smallestProps.w * smallestProps.h;
+                const currentArea = currentProps.w * currentProps.h;
+                return currentArea < smallestArea ? current : smallest;
+            }).id;
+        });
+    }
+
+    // Check if a container can hold another container (prevent invalid nesting)
+    private canContainContainer(parentContainer: TLShape, childContainer: TLShape): boolean {
+        const parentProps = parentContainer.props as BaseInfraShapeProps;
+        const childProps = childContainer.props as BaseInfraShapeProps;
+
+        // Define containment rules based on component types
+        const parentType = parentProps.componentId;
+        const childType = childProps.componentId;
+
+        // VPC can contain subnets and availability zones
+        if (parentType === 'vpc') {
+            return childType === 'subnet' || childType === 'availability-zone';
+        }
+
+        // Availability zones can contain subnets
+        if (parentType === 'availability-zone') {
+            return childType === 'subnet';
+        }
+
+        // Subnets can contain non-container components
+        if (parentType === 'subnet') {
+            return !childProps.isBoundingBox;
+        }
+
+        return true; // Default: allow containment
+    }
+
+    // Check whether a shape may be moved under a new parent: the page, or a container that is
+    // neither the shape itself nor one of its descendants and accepts it under the nesting rules
+    public canReparent(shapeId: TLShapeId, newParentId: TLParentId): boolean {
+        const shape = this.editor.getShape(shapeId);
+        if (!shape) return false;
+        if (newParentId === this.editor.getCurrentPageId()) return true;
+
+        const newParent = this.editor.getShape(newParentId as TLShapeId);
+        if (!newParent || !(newParent.props as BaseInfraShapeProps).isBoundingBox) return false;
+        if (newParent.id === shapeId || this.editor.hasAncestor(newParent, shapeId)) return false;
+
+        return !(shape.props as BaseInfraShapeProps).isBoundingBox || this.canContainContainer(newParent, shape);
+    }
+
+    // Enhanced reparenting with validation and cooldown
+    public reparentShape(shapeId: TLShapeId, newParentId: TLParentId): boolean {
+        const now = Date.now();
+        const shape = this.editor.getShape(shapeId);
+        if (!shape) return false;
+
+        const currentParentId = shape.parentId;
+        const newParentIdStr = newParentId === this.editor.getCurrentPageId() ? 'page' : newParentId as string;
+        const currentParentIdStr = currentParentId === this.editor.getCurrentPageId() ? 'page' : currentParentId as string;
+
+        // Check if we're trying to reparent to the same parent
+        if (currentParentIdStr === newParentIdStr) {
+            return false;
+        }
+
+        // Apply global cooldown to prevent rapid reparenting
+        if (now - this.lastReparentTime < this.REPARENT_COOLDOWN) {
+            return false;
+        }
+
+        // Check per-shape cooldown to prevent oscillation
+        const lastReparent = this.lastReparentedShapes.get(shapeId);
+        if (lastReparent && now - lastReparent.timestamp < this.REPARENT_COOLDOWN * 2) {
+            // If this is the same transition we just did, apply extra cooldown
+            if (lastReparent.parentId === newParentIdStr) {
+                return false;
+            }
+        }
+
+        const newParent = newParentId !== this.editor.getCurrentPageId() ? this.editor.getShape(newParentId as TLShapeId) : null;
+
+        // If moving to a container, validate the containment
+        if (newParent) {
+            const shapeProps = shape.props as BaseInfraShapeProps;
+            const parentProps = newParent.props as BaseInfraShapeProps;
+
+            // Prevent containers from containing themselves or invalid nesting
+            if (shapeProps.isBoundingBox && !this.canContainContainer(newParent, shape)) {
+                return false;
+            }
+        }
+
+        // Debug logging
+        console.log(`🔄 Reparenting shape:`, {
+            shapeId,
+            currentParent: currentParentIdStr,
+            newParent: newParentIdStr
+        });
+
+        // Use tldraw's native reparenting - this preserves visual position automatically
+        // The shape will appear in exactly the same screen position after reparenting
+        this.editor.batch(() => {
+            this.editor.reparentShapes([shapeId], newParentId);
+            this.editor.bringToFront([shapeId]);
+        });
+
+        // Track this reparenting operation
+        this.lastReparentedShapes.set(shapeId, { parentId: currentParentIdStr, timestamp: now });
+        this.lastReparentTime = now;
+
+        // Clean up old entries (older than 2 seconds)
+        const cutoff = now - 2000;
+        for (const [key, value] of this.lastReparentedShapes.entries()) {
+            if (value.timestamp < cutoff) {
+                this.lastReparentedShapes.delete(key);
+            }
+        }
+
+        return true;
+    }
+
+    // Create a new shape with proper parent assignment
+    public createShapeWithParent(component: any, point: { x: number; y: number }, provider: string): TLShape | null {
+        // Validate input coordinates
+        if (!isFinite(point.x) || !isFinite(point.y)) {
+            console.error(`🚨 Invalid point coordinates for shape creation:`, point);
+            return null;
+        }
+
+        const parentId = this.findBestContainer(point);
+
+        // If creating inside a container, convert coordinates to be relative to the container
+        let shapeX = point.x;
+        let shapeY = point.y;
+
+        if (parentId) {
+            const parent = this.editor.getShape(parentId);
+            if (parent) {
+                // Validate parent coordinates
+                if (!isFinite(parent.x) || !isFinite(parent.y)) {
+                    console.error(`🚨 Invalid parent coordinates:`, { parentId, x: parent.x, y: parent.y });
+                    return null;
+                }
+
+                shapeX = point.x - parent.x;
+                shapeY = point.y - parent.y;
+
+                // Ensure shape is within container bounds with padding
+                const parentProps = parent.props as BaseInfraShapeProps;
+                const padding = 10;
+                const shapeW = component.isBoundingBox ? 300 : 120;
+                const shapeH = component.isBoundingBox ? 200 : 80;
+
+                shapeX = Math.max(padding, Math.min(shapeX, (parentProps.w || 400) - shapeW - padding));
+                shapeY = Math.max(padding, Math.min(shapeY, (parentProps.h || 300) - shapeH - padding));
+
+                // Final validation
+                if (!isFinite(shapeX) || !isFinite(shapeY)) {
+                    console.error(`🚨 Invalid calculated shape coordinates:`, { shapeX, shapeY });
+                    shapeX = padding;
+                    shapeY = padding;
+                }
+
+                console.log(`📦 Creating shape inside container:`, {
+                    componentId: component.id,
+                    pagePoint: point,
+                    containerPos: { x: parent.x, y: parent.y },
+                    relativePos: { x: shapeX, y: shapeY },
+                    containerId: parentId
+                });
+            }
+        }
+
+        // Final coordinate validation before shape creation
+        if (!isFinite(shapeX) || !isFinite(shapeY)) {
+            console.error(`🚨 Cannot create shape with invalid coordinates:`, { shapeX, shapeY });
+            return null;
+        }
+
+        const shape = createComponentShape(component, shapeX, shapeY, provider, parentId);
+
+        const createdShape = this.editor.createShape(shape);
+        if (createdShape) {
+            this.editor.bringToFront([createdShape.id as TLShapeId]);
+        }
+        return createdShape;
+    }
+}
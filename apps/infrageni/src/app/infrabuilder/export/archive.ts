@@ -0,0 +1,17 @@
+import { strToU8, zipSync } from 'fflate';
+
+// Multi-file exports (Pulumi projects, Helm charts) download as one zip with the files under a root folder
+export function zipFiles(root: string, files: Record<string, string>): Uint8Array {
+  const entries: Record<string, Uint8Array> = {};
+  for (const [file, content] of Object.entries(files)) {
+    entries[`${root}/${file}`] = strToU8(content);
+  }
+  return zipSync(entries);
+}
+
+// Single-text view of a multi-file export, used for previews and copy to clipboard
+export function serializeFiles(files: Record<string, string>): string {
+  return Object.entries(files)
+    .map(([file, content]) => `# ---- ${file} ----\n${content}`)
+    .join('\n');
+}
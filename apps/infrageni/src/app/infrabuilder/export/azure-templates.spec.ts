@@ -0,0 +1,45 @@
+import { ComponentRegistry } from '../components/core/component-registry';
+import { CanvasItem } from '../types';
+import { buildAzureTemplate } from './azure-templates';
+import { canvasModel, item } from './test-canvas';
+
+interface ArmResource {
+  type: string;
+  name: string;
+  properties?: Record<string, unknown>;
+}
+
+function exportCanvas(items: CanvasItem[], format: 'arm' | 'bicep' = 'arm') {
+  return buildAzureTemplate(canvasModel(items), format);
+}
+
+const network = [
+  item('vnet', 'Main VNet', 'generic-vpc'),
+  item('pub', 'Public Subnet', 'generic-subnet', 'vnet'),
+  item('priv', 'App Subnet', 'generic-subnet', 'vnet'),
+  item('web', 'Web', 'generic-compute', 'pub'),
+  item('worker', 'Worker', 'generic-compute', 'priv')
+];
+
+describe('buildAzureTemplate', () => {
+  beforeAll(async () => {
+    await ComponentRegistry.getInstance().initialize();
+  });
+
+  it('gives virtual machines in a subnet named public a public IP', () => {
+    const template = JSON.parse(exportCanvas(network).content) as { resources: ArmResource[] };
+    const publicIps = template.resources.filter(resource => resource.type === 'Microsoft.Network/publicIPAddresses');
+    const nics = template.resources.filter(resource => resource.type === 'Microsoft.Network/networkInterfaces');
+    const hasPublicIp = (nic: ArmResource) => JSON.stringify(nic.properties).includes('publicIPAddress');
+
+    expect(publicIps.map(ip => ip.name)).toEqual(['web-ip']);
+    expect(nics.filter(hasPublicIp).map(nic => nic.name)).toEqual(['web-nic']);
+  });
+
+  it('renders the same deployment as Bicep', () => {
+    const bicep = exportCanvas(network, 'bicep').content;
+
+    expect(bicep).toContain("resource webPublicIp 'Microsoft.Network/publicIPAddresses@");
+    expect(bicep).not.toContain("'worker-ip'");
+  });
+});
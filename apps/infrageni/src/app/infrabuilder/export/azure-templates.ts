@@ -0,0 +1,1238 @@
+import { PatternParameter } from '../patterns/core/pattern-types';
+import { ModelResource, ResourceModel, getResourceAncestors, isPublicSubnet } from './resource-model';
+
+// Azure Resource Manager export for the Azure subset of a diagram.
+// Components are mapped once into a provider-specific resource graph whose values may
+// contain template expressions; that graph is then rendered either as an ARM JSON
+// template or as Bicep. Containment (VNet → subnet → resource) and canvas arrows both
+// become dependsOn entries, and pattern parameters become template parameters.
+
+export type AzureTemplateFormat = 'arm' | 'bicep';
+
+export interface AzureTemplateResult {
+  content: string;
+  warnings: string[];
+}
+
+// Generate an ARM JSON deployment template
+export function generateArmTemplate(model: ResourceModel): string {
+  return buildAzureTemplate(model, 'arm').content;
+}
+
+// Generate a Bicep file for the same deployment
+export function generateBicep(model: ResourceModel): string {
+  return buildAzureTemplate(model, 'bicep').content;
+}
+
+export function buildAzureTemplate(model: ResourceModel, format: AzureTemplateFormat): AzureTemplateResult {
+  const deployment = new AzureDeploymentBuilder(model).build();
+  return {
+    content: format === 'arm' ? renderArm(deployment) : renderBicep(deployment),
+    warnings: deployment.warnings
+  };
+}
+
+const API_VERSIONS: Record<string, string> = {
+  'Microsoft.Network/virtualNetworks': '2023-09-01',
+  'Microsoft.Network/virtualNetworks/subnets': '2023-09-01',
+  'Microsoft.Network/networkInterfaces': '2023-09-01',
+  'Microsoft.Network/publicIPAddresses': '2023-09-01',
+  'Microsoft.Network/applicationGateways': '2023-09-01',
+  'Microsoft.Compute/virtualMachines': '2023-09-01',
+  'Microsoft.Sql/servers': '2021-11-01',
+  'Microsoft.Sql/servers/databases': '2021-11-01',
+  'Microsoft.DBforMySQL/flexibleServers': '2023-06-30',
+  'Microsoft.DBforPostgreSQL/flexibleServers': '2022-12-01',
+  'Microsoft.Storage/storageAccounts': '2023-01-01',
+  'Microsoft.Storage/storageAccounts/blobServices': '2023-01-01',
+  'Microsoft.Web/serverfarms': '2023-01-01',
+  'Microsoft.Web/sites': '2023-01-01',
+  'Microsoft.ContainerInstance/containerGroups': '2023-05-01',
+  'Microsoft.DocumentDB/databaseAccounts': '2023-11-15',
+  'Microsoft.DocumentDB/databaseAccounts/sqlDatabases': '2023-11-15',
+  'Microsoft.Cache/redis': '2023-08-01',
+  'Microsoft.Cdn/profiles': '2023-05-01',
+  'Microsoft.Cdn/profiles/endpoints': '2023-05-01',
+  'Microsoft.KeyVault/vaults': '2023-07-01',
+  'Microsoft.OperationalInsights/workspaces': '2022-10-01'
+};
+
+const VM_IMAGES = {
+  linux: { publisher: 'Canonical', offer: '0001-com-ubuntu-server-jammy', sku: '22_04-lts-gen2', version: 'latest' },
+  windows: { publisher: 'MicrosoftWindowsServer', offer: 'WindowsServer', sku: '2022-datacenter-azure-edition', version: 'latest' }
+};
+
+const FUNCTION_STACKS: Record<string, { linuxFxVersion: string; workerRuntime: string }> = {
+  dotnet: { linuxFxVersion: 'DOTNET-ISOLATED|8.0', workerRuntime: 'dotnet-isolated' },
+  node: { linuxFxVersion: 'Node|20', workerRuntime: 'node' },
+  python: { linuxFxVersion: 'Python|3.11', workerRuntime: 'python' },
+  java: { linuxFxVersion: 'Java|17', workerRuntime: 'java' },
+  powershell: { linuxFxVersion: 'PowerShell|7.4', workerRuntime: 'powershell' }
+};
+
+const WEB_STACKS: Record<string, string> = {
+  dotnet: 'DOTNETCORE|8.0',
+  node: 'NODE|20-lts',
+  python: 'PYTHON|3.11',
+  java: 'JAVA|17-java17',
+  php: 'PHP|8.2',
+  ruby: 'RUBY|2.7'
+};
+
+const FUNCTION_PLANS: Record<string, { name: string; tier: string }> = {
+  consumption: { name: 'Y1', tier: 'Dynamic' },
+  premium: { name: 'EP1', tier: 'ElasticPremium' },
+  dedicated: { name: 'B1', tier: 'Basic' }
+};
+
+const WEB_PLANS: Record<string, { name: string; tier: string }> = {
+  F1: { name: 'F1', tier: 'Free' },
+  B1: { name: 'B1', tier: 'Basic' },
+  S1: { name: 'S1', tier: 'Standard' },
+  P1: { name: 'P1v3', tier: 'PremiumV3' }
+};
+
+const COSMOS_CAPABILITIES: Record<string, string> = {
+  mongodb: 'EnableMongo',
+  cassandra: 'EnableCassandra',
+  gremlin: 'EnableGremlin',
+  table: 'EnableTable'
+};
+
+const CONSISTENCY_LEVELS: Record<string, string> = {
+  strong: 'Strong',
+  'bounded-staleness': 'BoundedStaleness',
+  session: 'Session',
+  'consistent-prefix': 'ConsistentPrefix',
+  eventual: 'Eventual'
+};
+
+// Redis capacity is an index into the family's size table
+const REDIS_CAPACITY: Record<string, { C: number; P: number }> = {
+  '0.25': { C: 0, P: 1 },
+  '1': { C: 1, P: 1 },
+  '2.5': { C: 2, P: 1 },
+  '6': { C: 3, P: 1 },
+  '13': { C: 4, P: 2 }
+};
+
+const CDN_SKUS: Record<string, string> = {
+  microsoft: 'Standard_Microsoft',
+  akamai: 'Standard_Akamai',
+  verizon: 'Standard_Verizon'
+};
+
+const BICEP_KEYWORDS = new Set([
+  'resource', 'param', 'var', 'output', 'module', 'if', 'for', 'in', 'true', 'false', 'null',
+  'existing', 'targetScope', 'import', 'metadata', 'type', 'func'
+]);
+
+// An ARM/Bicep template expression, kept in both syntaxes plus the resources it references
+class Expression {
+  constructor(readonly arm: string, readonly bicep: string, readonly refs: string[] = []) {}
+}
+
+class AzureDeploymentBuilder {
+  private resources: AzureResource[] = [];
+  private parameters = new Map<string, AzureParameter>();
+  private outputs = new Map<string, { value: Expression }>();
+  private warnings: string[] = [];
+  private kinds = new Map<string, AzureKind>();
+  private primary = new Map<string, AzureResource>();
+  private delegations = new Map<string, string>();
+  private identifiers = new Set<string>();
+
+  constructor(private model: ResourceModel) {}
+
+  build(): AzureDeployment {
+    this.addParameter('location', {
+      type: 'string',
+      defaultValue: new Expression('resourceGroup().location', 'resourceGroup().location'),
+      description: 'Location for all resources'
+    });
+
+    for (const parameter of this.model.parameters) {
+      this.addPatternParameter(parameter);
+    }
+
+    this.classify();
+    this.planDelegations();
+
+    // Networks first, then services, then edge resources that point at other services
+    const ordered = [...this.model.resources].sort((a, b) => buildRank(this.kinds.get(a.id)) - buildRank(this.kinds.get(b.id)));
+    for (const resource of ordered) {
+      switch (this.kinds.get(resource.id)) {
+        case 'vnet':
+          this.addVirtualNetwork(resource);
+          break;
+        case 'subnet':
+          this.addSubnet(resource);
+          break;
+        case 'vm':
+          this.addVirtualMachine(resource);
+          break;
+        case 'sql':
+        case 'mysql':
+        case 'postgresql':
+          this.addDatabase(resource);
+          break;
+        case 'storage':
+          this.addStorageAccount(resource);
+          break;
+        case 'function':
+          this.addFunctionApp(resource);
+          break;
+        case 'webApp':
+          this.addWebApp(resource);
+          break;
+        case 'container':
+          this.addContainerGroup(resource);
+          break;
+        case 'cosmos':
+          this.addCosmosAccount(resource);
+          break;
+        case 'redis':
+          this.addRedisCache(resource);
+          break;
+        case 'appGateway':
+          this.addApplicationGateway(resource);
+          break;
+        case 'cdn':
+          this.addCdnProfile(resource);
+          break;
+        case 'keyVault':
+          this.addKeyVault(resource);
+          break;
+        case 'logAnalytics':
+          this.addLogAnalyticsWorkspace(resource);
+          break;
+      }
+    }
+
+    this.addContainmentDependencies();
+    this.addArrowDependencies();
+
+    return {
+      parameters: this.parameters,
+      resources: this.resources,
+      outputs: this.outputs,
+      warnings: this.warnings
+    };
+  }
+
+  private classify(): void {
+    for (const resource of this.model.resources) {
+      const kind = getAzureKind(resource);
+      if (kind) {
+        this.kinds.set(resource.id, kind);
+      } else if (resource.provider === 'aws' || resource.provider === 'gcp') {
+        this.warnings.push(`${resource.name} (${resource.componentId}) targets ${resource.provider === 'aws' ? 'AWS' : 'Google Cloud'} and was skipped`);
+      } else if (resource.componentId !== 'generic-user' && resource.componentId !== 'generic-external-system') {
+        this.warnings.push(`${resource.name} (${resource.componentId}) has no Azure mapping yet and was skipped`);
+      }
+    }
+
+    for (const resource of this.model.resources) {
+      if (this.kinds.get(resource.id) === 'subnet' && !this.findAncestor(resource, 'vnet')) {
+        this.kinds.delete(resource.id);
+        this.warnings.push(`Subnet ${resource.name} is not inside a virtual network and was skipped`);
+      }
+    }
+  }
+
+  // A subnet can be delegated to a single service; the first resource that needs it wins
+  private planDelegations(): void {
+    for (const resource of this.model.resources) {
+      const service = this.getDelegatedService(resource);
+      const subnet = service ? this.findAncestor(resource, 'subnet') : undefined;
+      if (!service || !subnet) continue;
+
+      const existing = this.delegations.get(subnet.id);
+      if (!existing) {
+        this.delegations.set(subnet.id, service);
+      } else if (existing !== service) {
+        this.warnings.push(`${resource.name} needs subnet ${subnet.name} delegated to ${service}, but it is already delegated to ${existing}`);
+      }
+    }
+  }
+
+  private getDelegatedService(resource: ModelResource): string | undefined {
+    switch (this.kinds.get(resource.id)) {
+      case 'container':
+        return 'Microsoft.ContainerInstance/containerGroups';
+      case 'webApp':
+        return resource.properties.pricingTier === 'F1' ? undefined : 'Microsoft.Web/serverFarms';
+      case 'function':
+        return String(resource.properties.hostingPlan || 'consumption') === 'consumption' ? undefined : 'Microsoft.Web/serverFarms';
+      default:
+        return undefined;
+    }
+  }
+
+  private addVirtualNetwork(resource: ModelResource): void {
+    const vnet = this.addResource(resource, 'Microsoft.Network/virtualNetworks', resourceName(resource.name, 'vnet'), {
+      properties: {
+        addressSpace: { addressPrefixes: [this.value(resource, 'cidrBlock', '10.0.0.0/16')] }
+      }
+    }, { primary: true });
+    this.addOutput(`${vnet.symbol}Id`, this.idOf(vnet));
+  }
+
+  private addSubnet(resource: ModelResource): void {
+    const vnetResource = this.findAncestor(resource, 'vnet') as ModelResource;
+    const vnet = this.primary.get(vnetResource.id) as AzureResource;
+    const siblings = this.getDescendants(vnetResource, 'subnet');
+    const delegation = this.delegations.get(resource.id);
+
+    // Subnets still on a shared default prefix get consecutive /24 blocks of the VNet range
+    const prefix = resource.properties.cidrBlock;
+    const isShared = siblings.some(other => other !== resource && other.properties.cidrBlock === prefix);
+    const vnetPrefix = toExpression(this.value(vnetResource, 'cidrBlock', '10.0.0.0/16'));
+    const addressPrefix = prefix && !isShared
+      ? this.value(resource, 'cidrBlock', String(prefix))
+      : call('cidrSubnet', vnetPrefix, toExpression(24), toExpression(siblings.indexOf(resource)));
+
+    const subnet = this.addResource(resource, 'Microsoft.Network/virtualNetworks/subnets', resourceName(resource.name, 'subnet'), {
+      properties: {
+        addressPrefix,
+        ...(delegation ? {
+          delegations: [{ name: 'delegation', properties: { serviceName: delegation } }]
+        } : {})
+      }
+    }, { primary: true, parent: vnet, location: false });
+
+    // Subnets of one VNet cannot be updated concurrently
+    const previous = siblings[siblings.indexOf(resource) - 1];
+    const previousSubnet = previous ? this.primary.get(previous.id) : undefined;
+    if (previousSubnet) subnet.dependsOn.push(previousSubnet.symbol);
+  }
+
+  private addVirtualMachine(resource: ModelResource): void {
+    // Virtual machines always need a subnet; patterns often leave them outside one
+    let subnetResource = this.findAncestor(resource, 'subnet');
+    if (!subnetResource) {
+      subnetResource = this.model.resources.find(candidate => this.kinds.get(candidate.id) === 'subnet');
+      if (!subnetResource) {
+        this.warnings.push(`${resource.name} is not inside a subnet; virtual machines need one and it was skipped`);
+        this.kinds.delete(resource.id);
+        return;
+      }
+      this.warnings.push(`${resource.name} is not inside a subnet and was placed in ${subnetResource.name}`);
+    }
+
+    const subnet = this.primary.get(subnetResource.id) as AzureResource;
+    const os = resource.properties.operatingSystem === 'windows' ? 'windows' : 'linux';
+    const zone = this.getZone(resource);
+    const name = resourceName(resource.name, 'vm');
+    const defaultSize = String(resource.metadata?.providerMappings.azure?.metadata?.defaultVmSize || 'Standard_B1s');
+    const instanceType = resource.properties.instanceType;
+    // AWS-style instance types from the generic component don't apply on Azure
+    const vmSize = typeof instanceType === 'string' && instanceType.startsWith('Standard_')
+      ? this.value(resource, 'instanceType', instanceType)
+      : defaultSize;
+
+    let publicIp: AzureResource | undefined;
+    if (isPublicSubnet(subnetResource)) {
+      publicIp = this.addResource(resource, 'Microsoft.Network/publicIPAddresses', `${name}-ip`, {
+        sku: { name: 'Standard' },
+        ...(zone ? { zones: [zone] } : {}),
+        properties: { publicIPAllocationMethod: 'Static' }
+      }, { suffix: 'PublicIp' });
+    }
+
+    const nic = this.addResource(resource, 'Microsoft.Network/networkInterfaces', `${name}-nic`, {
+      properties: {
+        ipConfigurations: [{
+          name: 'ipconfig1',
+          properties: {
+            privateIPAllocationMethod: 'Dynamic',
+            subnet: { id: this.idOf(subnet) },
+            ...(publicIp ? { publicIPAddress: { id: this.idOf(publicIp) } } : {})
+          }
+        }]
+      }
+    }, { suffix: 'Nic' });
+
+    if (resource.properties.operatingSystem === 'macos') {
+      this.warnings.push(`${resource.name} uses macOS, which Azure does not offer; an Ubuntu image was used instead`);
+    }
+
+    this.addResource(resource, 'Microsoft.Compute/virtualMachines', name, {
+      ...(zone ? { zones: [zone] } : {}),
+      properties: {
+        hardwareProfile: { vmSize },
+        osProfile: {
+          computerName: name.slice(0, 15),
+          adminUsername: this.adminParameter('adminUsername', 'azureuser', 'Administrator user name for virtual machines'),
+          adminPassword: this.secureParameter('adminPassword', 'Administrator password for virtual machines')
+        },
+        storageProfile: {
+          imageReference: VM_IMAGES[os],
+          osDisk: { createOption: 'FromImage', managedDisk: { storageAccountType: 'StandardSSD_LRS' } }
+        },
+        networkProfile: { networkInterfaces: [{ id: this.idOf(nic) }] }
+      }
+    }, { primary: true });
+  }
+
+  private addDatabase(resource: ModelResource): void {
+    const kind = this.kinds.get(resource.id);
+    const login = this.adminParameter('administratorLogin', 'dbadmin', 'Administrator login for database servers');
+    const password = this.secureParameter('administratorLoginPassword', 'Administrator password for database servers');
+    const name = globalName(resource.name, 'db', '-');
+    const highAvailability = toBoolean(resource.properties.multiAz, false) ? 'ZoneRedundant' : 'Disabled';
+
+    if (kind === 'sql') {
+      const server = this.addResource(resource, 'Microsoft.Sql/servers', name, {
+        properties: {
+          administratorLogin: login,
+          administratorLoginPassword: password,
+          version: '12.0',
+          minimalTlsVersion: '1.2'
+        }
+      }, { suffix: 'Server' });
+      this.addResource(resource, 'Microsoft.Sql/servers/databases', resourceName(resource.name, 'database'), {
+        sku: { name: 'Basic', tier: 'Basic' },
+        properties: {
+          zoneRedundant: toBoolean(resource.properties.multiAz, false)
+        }
+      }, { primary: true, parent: server });
+      this.addOutput(`${server.symbol}Fqdn`, this.propertyOf(server, 'fullyQualifiedDomainName'));
+      return;
+    }
+
+    const isMySql = kind === 'mysql';
+    const version = String(resource.properties.version || '');
+    const server = this.addResource(
+      resource,
+      isMySql ? 'Microsoft.DBforMySQL/flexibleServers' : 'Microsoft.DBforPostgreSQL/flexibleServers',
+      name,
+      {
+        sku: { name: 'Standard_B1ms', tier: 'Burstable' },
+        properties: {
+          administratorLogin: login,
+          administratorLoginPassword: password,
+          version: isMySql ? '8.0.21' : /^1[1-6]$/.test(version) ? version : '16',
+          storage: { storageSizeGB: isMySql ? 20 : 32 },
+          highAvailability: { mode: highAvailability }
+        }
+      },
+      { primary: true }
+    );
+    this.addOutput(`${server.symbol}Fqdn`, this.propertyOf(server, 'fullyQualifiedDomainName'));
+  }
+
+  private addStorageAccount(resource: ModelResource): void {
+    const props = resource.properties;
+    const accessTier = String(props.accessTier || (props.storageClass && props.storageClass !== 'standard' ? 'cool' : 'hot'));
+    if (props.storageClass === 'glacier' || props.storageClass === 'deep-archive') {
+      this.warnings.push(`${resource.name} uses an archive storage class; set the Archive tier per blob or with a lifecycle policy`);
+    }
+
+    const account = this.addResource(resource, 'Microsoft.Storage/storageAccounts', globalName(resource.name, 'st', ''), {
+      sku: { name: `Standard_${this.literal(resource, 'replication', 'LRS')}` },
+      kind: this.value(resource, 'kind', 'StorageV2'),
+      properties: {
+        accessTier: accessTier === 'cool' ? 'Cool' : 'Hot',
+        minimumTlsVersion: 'TLS1_2',
+        supportsHttpsTrafficOnly: true,
+        allowBlobPublicAccess: false
+      }
+    }, { primary: true });
+
+    if (toBoolean(props.versioning, false)) {
+      this.addResource(resource, 'Microsoft.Storage/storageAccounts/blobServices', 'default', {
+        properties: { isVersioningEnabled: true }
+      }, { suffix: 'BlobService', parent: account, location: false });
+    }
+
+    this.addOutput(`${account.symbol}Name`, this.nameOf(account));
+  }
+
+  private addFunctionApp(resource: ModelResource): void {
+    const runtime = String(resource.properties.runtime || 'dotnet').replace(/[0-9.x]+$/, '').replace(/^nodejs$/, 'node');
+    const stack = FUNCTION_STACKS[runtime] || FUNCTION_STACKS.dotnet;
+    const planKey = String(resource.properties.hostingPlan || 'consumption');
+    const name = globalName(resource.name, 'func', '-');
+
+    const storage = this.addResource(resource, 'Microsoft.Storage/storageAccounts', globalName(`st${resource.name}`, 'st', ''), {
+      sku: { name: 'Standard_LRS' },
+      kind: 'StorageV2',
+      properties: { minimumTlsVersion: 'TLS1_2', supportsHttpsTrafficOnly: true, allowBlobPublicAccess: false }
+    }, { suffix: 'Storage' });
+
+    const plan = this.addResource(resource, 'Microsoft.Web/serverfarms', `${resourceName(resource.name, 'func')}-plan`, {
+      sku: FUNCTION_PLANS[planKey] || FUNCTION_PLANS.consumption,
+      kind: 'functionapp',
+      properties: { reserved: true }
+    }, { suffix: 'Plan' });
+
+    const timeout = Number(resource.properties.timeout);
+    const site = this.addResource(resource, 'Microsoft.Web/sites', name, {
+      kind: 'functionapp,linux',
+      properties: {
+        serverFarmId: this.idOf(plan),
+        httpsOnly: true,
+        ...this.vnetIntegration(resource),
+        siteConfig: {
+          linuxFxVersion: stack.linuxFxVersion,
+          minTlsVersion: '1.2',
+          appSettings: [
+            { name: 'AzureWebJobsStorage', value: this.storageConnectionString(storage) },
+            { name: 'FUNCTIONS_EXTENSION_VERSION', value: '~4' },
+            { name: 'FUNCTIONS_WORKER_RUNTIME', value: stack.workerRuntime },
+            ...(timeout > 0 ? [{ name: 'AzureFunctionsJobHost__functionTimeout', value: formatTimeSpan(timeout) }] : [])
+          ]
+        }
+      }
+    }, { primary: true });
+
+    this.addOutput(`${site.symbol}HostName`, this.propertyOf(site, 'defaultHostName'));
+  }
+
+  private addWebApp(resource: ModelResource): void {
+    const tier = String(resource.properties.pricingTier || 'B1');
+    const runtime = String(resource.properties.runtime || 'dotnet');
+    const appName = String(resource.properties.appName || resource.name);
+
+    const plan = this.addResource(resource, 'Microsoft.Web/serverfarms', `${resourceName(appName, 'app')}-plan`, {
+      sku: WEB_PLANS[tier] || WEB_PLANS.B1,
+      kind: 'linux',
+      properties: { reserved: true }
+    }, { suffix: 'Plan' });
+
+    const site = this.addResource(resource, 'Microsoft.Web/sites', globalName(appName, 'app', '-'), {
+      kind: 'app,linux',
+      properties: {
+        serverFarmId: this.idOf(plan),
+        httpsOnly: true,
+        ...this.vnetIntegration(resource),
+        siteConfig: {
+          linuxFxVersion: WEB_STACKS[runtime] || WEB_STACKS.dotnet,
+          minTlsVersion: '1.2',
+          ftpsState: 'Disabled'
+        }
+      }
+    }, { primary: true });
+
+    this.addOutput(`${site.symbol}HostName`, this.propertyOf(site, 'defaultHostName'));
+  }
+
+  private addContainerGroup(resource: ModelResource): void {
+    const subnetResource = this.findAncestor(resource, 'subnet');
+    const subnet = subnetResource && this.delegations.get(subnetResource.id) === 'Microsoft.ContainerInstance/containerGroups'
+      ? this.primary.get(subnetResource.id)
+      : undefined;
+    const ports = [{ protocol: 'TCP', port: 80 }];
+
+    this.addResource(resource, 'Microsoft.ContainerInstance/containerGroups', resourceName(resource.name, 'aci'), {
+      properties: {
+        osType: 'Linux',
+        restartPolicy: this.value(resource, 'restartPolicy', 'Always'),
+        containers: [{
+          name: resourceName(resource.name, 'app'),
+          properties: {
+            image: this.value(resource, 'image', 'nginx:latest'),
+            ports: [{ port: 80 }],
+            resources: {
+              requests: {
+                cpu: this.value(resource, 'cpu', 1),
+                memoryInGB: this.value(resource, 'memory', 1)
+              }
+            }
+          }
+        }],
+        ipAddress: { type: subnet ? 'Private' : 'Public', ports },
+        ...(subnet ? { subnetIds: [{ id: this.idOf(subnet) }] } : {})
+      }
+    }, { primary: true });
+  }
+
+  private addCosmosAccount(resource: ModelResource): void {
+    const api = String(resource.properties.api || 'sql');
+    const consistency = CONSISTENCY_LEVELS[String(resource.properties.consistencyLevel || 'session')] || 'Session';
+    const capability = COSMOS_CAPABILITIES[api];
+
+    const account = this.addResource(resource, 'Microsoft.DocumentDB/databaseAccounts', globalName(resource.name, 'cosmos', '-'), {
+      kind: api === 'mongodb' ? 'MongoDB' : 'GlobalDocumentDB',
+      properties: {
+        databaseAccountOfferType: 'Standard',
+        locations: [{ locationName: this.location(), failoverPriority: 0, isZoneRedundant: false }],
+        consistencyPolicy: {
+          defaultConsistencyLevel: consistency,
+          ...(consistency === 'BoundedStaleness' ? { maxStalenessPrefix: 100000, maxIntervalInSeconds: 300 } : {})
+        },
+        ...(capability ? { capabilities: [{ name: capability }] } : {})
+      }
+    }, { primary: true });
+
+    if (api === 'sql') {
+      const databaseName = resourceName(resource.name, 'db');
+      this.addResource(resource, 'Microsoft.DocumentDB/databaseAccounts/sqlDatabases', databaseName, {
+        properties: {
+          resource: { id: databaseName },
+          options: { throughput: this.value(resource, 'throughput', 400) }
+        }
+      }, { suffix: 'Database', parent: account, location: false });
+    } else {
+      this.warnings.push(`${resource.name} uses the ${api} API; provisioned throughput is only generated for SQL databases`);
+    }
+  }
+
+  private addRedisCache(resource: ModelResource): void {
+    const tier = String(resource.properties.tier || 'standard');
+    const family = tier === 'premium' ? 'P' : 'C';
+    const capacity = REDIS_CAPACITY[String(resource.properties.capacity || '1')] || REDIS_CAPACITY['1'];
+
+    this.addResource(resource, 'Microsoft.Cache/redis', globalName(resource.name, 'redis', '-'), {
+      properties: {
+        sku: { name: tier[0].toUpperCase() + tier.slice(1), family, capacity: capacity[family] },
+        enableNonSslPort: toBoolean(resource.properties.enableNonSslPort, false),
+        minimumTlsVersion: '1.2'
+      }
+    }, { primary: true });
+  }
+
+  private addApplicationGateway(resource: ModelResource): void {
+    const subnetResource = this.findAncestor(resource, 'subnet');
+    if (!subnetResource) {
+      this.warnings.push(`${resource.name} is not inside a subnet; application gateways need a dedicated one and it was skipped`);
+      this.kinds.delete(resource.id);
+      return;
+    }
+
+    const subnet = this.primary.get(subnetResource.id) as AzureResource;
+    const name = resourceName(resource.name, 'agw');
+    const waf = toBoolean(resource.properties.wafEnabled, false) || String(resource.properties.tier || '').startsWith('WAF');
+    const sku = waf ? 'WAF_v2' : 'Standard_v2';
+    if (resource.properties.tier === 'Standard' || resource.properties.tier === 'WAF') {
+      this.warnings.push(`${resource.name} uses a retired v1 tier; ${sku} was used instead`);
+    }
+
+    const publicIp = this.addResource(resource, 'Microsoft.Network/publicIPAddresses', `${name}-ip`, {
+      sku: { name: 'Standard' },
+      properties: { publicIPAllocationMethod: 'Static' }
+    }, { suffix: 'PublicIp' });
+
+    // Sub-resources of the gateway are addressed by ID from within the gateway itself
+    const part = (type: string, partName: string) => ({
+      id: call(
+        'resourceId',
+        toExpression(`Microsoft.Network/applicationGateways/${type}`),
+        toExpression(name),
+        toExpression(partName)
+      )
+    });
+
+    const backends = this.getArrowTargets(resource)
+      .map(target => this.primary.get(target.id))
+      .filter((target): target is AzureResource => target?.type === 'Microsoft.Web/sites')
+      .map(site => ({ fqdn: this.propertyOf(site, 'defaultHostName') }));
+
+    this.addResource(resource, 'Microsoft.Network/applicationGateways', name, {
+      properties: {
+        sku: { name: sku, tier: sku, capacity: this.value(resource, 'capacity', 2) },
+        gatewayIPConfigurations: [{ name: 'gatewayIpConfig', properties: { subnet: { id: this.idOf(subnet) } } }],
+        frontendIPConfigurations: [{ name: 'frontendIp', properties: { publicIPAddress: { id: this.idOf(publicIp) } } }],
+        frontendPorts: [{ name: 'http', properties: { port: 80 } }],
+        backendAddressPools: [{ name: 'backendPool', properties: { backendAddresses: backends } }],
+        backendHttpSettingsCollection: [{
+          name: 'httpSettings',
+          properties: {
+            port: backends.length > 0 ? 443 : 80,
+            protocol: backends.length > 0 ? 'Https' : 'Http',
+            cookieBasedAffinity: 'Disabled',
+            pickHostNameFromBackendAddress: backends.length > 0
+          }
+        }],
+        httpListeners: [{
+          name: 'httpListener',
+          properties: {
+            frontendIPConfiguration: part('frontendIPConfigurations', 'frontendIp'),
+            frontendPort: part('frontendPorts', 'http'),
+            protocol: 'Http'
+          }
+        }],
+        requestRoutingRules: [{
+          name: 'defaultRule',
+          properties: {
+            ruleType: 'Basic',
+            priority: 100,
+            httpListener: part('httpListeners', 'httpListener'),
+            backendAddressPool: part('backendAddressPools', 'backendPool'),
+            backendHttpSettings: part('backendHttpSettingsCollection', 'httpSettings')
+          }
+        }],
+        ...(waf ? {
+          webApplicationFirewallConfiguration: {
+            enabled: true,
+            firewallMode: 'Prevention',
+            ruleSetType: 'OWASP',
+            ruleSetVersion: '3.2'
+          }
+        } : {})
+      }
+    }, { primary: true });
+  }
+
+  private addCdnProfile(resource: ModelResource): void {
+    const profile = this.addResource(resource, 'Microsoft.Cdn/profiles', resourceName(resource.name, 'cdn'), {
+      sku: { name: CDN_SKUS[String(resource.properties.provider || 'microsoft')] || CDN_SKUS.microsoft }
+    }, { primary: true, location: 'global' });
+
+    // The first web app or storage account the CDN points at becomes its origin
+    const origin = this.getArrowTargets(resource)
+      .map(target => this.primary.get(target.id))
+      .find(target => target?.type === 'Microsoft.Web/sites' || target?.type === 'Microsoft.Storage/storageAccounts');
+
+    if (!origin) {
+      this.warnings.push(`${resource.name} has no arrow to a web app or storage account, so no CDN endpoint was generated`);
+      return;
+    }
+
+    const hostName = origin.type === 'Microsoft.Web/sites'
+      ? this.propertyOf(origin, 'defaultHostName')
+      : call(
+        'replace',
+        call('replace', this.propertyOf(origin, 'primaryEndpoints.blob'), toExpression('https://'), toExpression('')),
+        toExpression('/'),
+        toExpression('')
+      );
+    const httpsOnly = toBoolean(resource.properties.httpsOnly, false);
+
+    this.addResource(resource, 'Microsoft.Cdn/profiles/endpoints', globalName(resource.name, 'cdn', '-'), {
+      properties: {
+        originHostHeader: hostName,
+        isHttpAllowed: !httpsOnly,
+        isHttpsAllowed: true,
+        origins: [{ name: 'origin', properties: { hostName } }]
+      }
+    }, { suffix: 'Endpoint', parent: profile, location: 'global' });
+  }
+
+  private addKeyVault(resource: ModelResource): void {
+    const name = String(resource.properties.vaultName || resource.name);
+    this.addResource(resource, 'Microsoft.KeyVault/vaults', globalName(name, 'kv', ''), {
+      properties: {
+        tenantId: new Expression('subscription().tenantId', 'subscription().tenantId'),
+        sku: { family: 'A', name: this.value(resource, 'tier', 'standard') },
+        enableRbacAuthorization: true,
+        enableSoftDelete: toBoolean(resource.properties.softDeleteEnabled, true),
+        softDeleteRetentionInDays: 90,
+        // Purge protection can only be switched on, so it is omitted rather than set to false
+        ...(toBoolean(resource.properties.purgeProtection, false) ? { enablePurgeProtection: true } : {})
+      }
+    }, { primary: true });
+  }
+
+  private addLogAnalyticsWorkspace(resource: ModelResource): void {
+    const name = String(resource.properties.workspaceName || resource.name);
+    this.addResource(resource, 'Microsoft.OperationalInsights/workspaces', resourceName(name, 'log'), {
+      properties: {
+        sku: { name: 'PerGB2018' },
+        retentionInDays: this.value(resource, 'retentionDays', 30)
+      }
+    }, { primary: true });
+  }
+
+  // App Service regional VNet integration needs a subnet delegated to Microsoft.Web/serverFarms
+  private vnetIntegration(resource: ModelResource): Record<string, AzureValue> {
+    const subnetResource = this.findAncestor(resource, 'subnet');
+    if (!subnetResource || this.delegations.get(subnetResource.id) !== 'Microsoft.Web/serverFarms') {
+      return {};
+    }
+    const subnet = this.primary.get(subnetResource.id) as AzureResource;
+    return { virtualNetworkSubnetId: this.idOf(subnet), vnetRouteAllEnabled: true };
+  }
+
+  // Resources depend on the nearest subnet or VNet they are drawn in
+  private addContainmentDependencies(): void {
+    for (const resource of this.model.resources) {
+      const target = this.primary.get(resource.id);
+      if (!target || target.parent) continue;
+
+      const container = getResourceAncestors(this.model, resource)
+        .map(ancestor => this.primary.get(ancestor.id))
+        .find(ancestor => ancestor?.type === 'Microsoft.Network/virtualNetworks/subnets' ||
+          ancestor?.type === 'Microsoft.Network/virtualNetworks');
+
+      if (container && !target.dependsOn.includes(container.symbol)) {
+        target.dependsOn.push(container.symbol);
+      }
+    }
+  }
+
+  // An arrow from A to B means A needs B deployed first; edges that would close a cycle are dropped
+  private addArrowDependencies(): void {
+    for (const link of this.model.links) {
+      const from = this.primary.get(link.from);
+      const to = this.primary.get(link.to);
+      if (!from || !to || from === to || from.dependsOn.includes(to.symbol)) continue;
+
+      if (this.dependsOnTransitively(to, from.symbol)) {
+        this.warnings.push(`Skipped dependsOn from ${from.symbol} to ${to.symbol} because it would create a cycle`);
+        continue;
+      }
+      from.dependsOn.push(to.symbol);
+    }
+  }
+
+  private dependsOnTransitively(resource: AzureResource, symbol: string, visited = new Set<string>()): boolean {
+    if (visited.has(resource.symbol)) return false;
+    visited.add(resource.symbol);
+
+    const direct = [...resource.dependsOn, ...collectRefs(resource.body), ...(resource.parent ? [resource.parent.symbol] : [])];
+    if (direct.includes(symbol)) return true;
+
+    return direct.some(dependency => {
+      const next = this.resources.find(r => r.symbol === dependency);
+      return next ? this.dependsOnTransitively(next, symbol, visited) : false;
+    });
+  }
+
+  private addResource(
+    source: ModelResource,
+    type: string,
+    name: AzureValue,
+    body: Record<string, AzureValue>,
+    options: { primary?: boolean; suffix?: string; parent?: AzureResource; location?: false | string } = {}
+  ): AzureResource {
+    const resource: AzureResource = {
+      symbol: this.identifier(`${toCamelCase(source.logicalName)}${options.suffix || ''}`),
+      type,
+      apiVersion: API_VERSIONS[type],
+      name,
+      parent: options.parent,
+      location: options.location === false ? undefined : options.location ?? this.location(),
+      body,
+      dependsOn: []
+    };
+
+    this.resources.push(resource);
+    if (options.primary) this.primary.set(source.id, resource);
+    return resource;
+  }
+
+  private addOutput(name: string, value: Expression): void {
+    this.outputs.set(this.identifier(name), { value });
+  }
+
+  private addParameter(name: string, parameter: AzureParameter): string {
+    if (!this.parameters.has(name)) {
+      this.identifiers.add(name);
+      this.parameters.set(name, parameter);
+    }
+    return name;
+  }
+
+  private adminParameter(name: string, defaultValue: string, description: string): Expression {
+    this.addParameter(name, { type: 'string', defaultValue, description });
+    return parameterRef(name);
+  }
+
+  private secureParameter(name: string, description: string): Expression {
+    this.addParameter(name, { type: 'securestring', description });
+    return parameterRef(name);
+  }
+
+  private addPatternParameter(parameter: PatternParameter): void {
+    const type = parameter.type === 'number' ? 'int'
+      : parameter.type === 'boolean' ? 'bool'
+        : parameter.type === 'multiselect' ? 'array'
+          : 'string';
+    const options = type === 'array' ? undefined : parameter.options?.map(option => option.value as AzureValue);
+
+    this.addParameter(toCamelCase(parameter.id), {
+      type,
+      ...(parameter.defaultValue !== undefined ? { defaultValue: parameter.defaultValue as AzureValue } : {}),
+      ...(options && options.length > 0 ? { allowedValues: options } : {}),
+      description: parameter.description || parameter.name,
+      ...(parameter.validation?.min !== undefined && type === 'int' ? { minValue: parameter.validation.min } : {}),
+      ...(parameter.validation?.max !== undefined && type === 'int' ? { maxValue: parameter.validation.max } : {})
+    });
+  }
+
+  // Property values, with ${parameter_id} references in pattern configuration resolved to parameters
+  private value(resource: ModelResource, propertyId: string, fallback: AzureValue): AzureValue {
+    const value = resource.properties[propertyId] ?? fallback;
+    if (typeof value === 'string') {
+      const match = value.match(/^\$\{([^}]+)\}$/);
+      if (match && this.model.parameters.some(p => p.id === match[1])) {
+        return parameterRef(toCamelCase(match[1]));
+      }
+      return value;
+    }
+    return typeof value === 'number' || typeof value === 'boolean' ? value : fallback;
+  }
+
+  private literal(resource: ModelResource, propertyId: string, fallback: string): string {
+    const value = this.value(resource, propertyId, fallback);
+    return typeof value === 'string' ? value : fallback;
+  }
+
+  private location(): Expression {
+    return parameterRef('location');
+  }
+
+  private idOf(resource: AzureResource): Expression {
+    return new Expression(armResourceId(resource), `${resource.symbol}.id`, [resource.symbol]);
+  }
+
+  private nameOf(resource: AzureResource): Expression {
+    return new Expression(toExpression(resource.name).arm, `${resource.symbol}.name`, [resource.symbol]);
+  }
+
+  private propertyOf(resource: AzureResource, path: string): Expression {
+    return new Expression(
+      `reference(${armResourceId(resource)}, '${resource.apiVersion}').${path}`,
+      `${resource.symbol}.properties.${path}`,
+      [resource.symbol]
+    );
+  }
+
+  private storageConnectionString(storage: AzureResource): Expression {
+    const name = toExpression(storage.name);
+    return new Expression(
+      `format('DefaultEndpointsProtocol=https;AccountName={0};EndpointSuffix={1};AccountKey={2}', ${name.arm}, environment().suffixes.storage, listKeys(${armResourceId(storage)}, '${storage.apiVersion}').keys[0].value)`,
+      `'DefaultEndpointsProtocol=https;AccountName=\${${storage.symbol}.name};EndpointSuffix=\${environment().suffixes.storage};AccountKey=\${${storage.symbol}.listKeys().keys[0].value}'`,
+      [storage.symbol]
+    );
+  }
+
+  private identifier(base: string): string {
+    let name = BICEP_KEYWORDS.has(base) ? `${base}Resource` : base;
+    for (let i = 2; this.identifiers.has(name); i++) {
+      name = `${base}${i}`;
+    }
+    this.identifiers.add(name);
+    return name;
+  }
+
+  private findAncestor(resource: ModelResource, kind: AzureKind): ModelResource | undefined {
+    return getResourceAncestors(this.model, resource).find(ancestor => this.kinds.get(ancestor.id) === kind);
+  }
+
+  private getDescendants(resource: ModelResource, kind: AzureKind): ModelResource[] {
+    return this.model.resources.filter(candidate =>
+      this.kinds.get(candidate.id) === kind &&
+      getResourceAncestors(this.model, candidate).includes(resource)
+    );
+  }
+
+  private getArrowTargets(resource: ModelResource): ModelResource[] {
+    return this.model.links
+      .filter(link => link.from === resource.id)
+      .map(link => this.model.resources.find(r => r.id === link.to))
+      .filter((target): target is ModelResource => !!target);
+  }
+
+  // Availability zones are numbered in the order they are drawn within their VNet
+  private getZone(resource: ModelResource): string | undefined {
+    const zone = this.findAncestor(resource, 'zone');
+    const vnet = this.findAncestor(resource, 'vnet');
+    if (!zone || !vnet) return undefined;
+    return String((this.getDescendants(vnet, 'zone').indexOf(zone) % 3) + 1);
+  }
+}
+
+function buildRank(kind?: AzureKind): number {
+  if (kind === 'vnet') return 0;
+  if (kind === 'subnet') return 1;
+  if (kind === 'cdn' || kind === 'appGateway') return 3;
+  return 2;
+}
+
+function getAzureKind(resource: ModelResource): AzureKind | undefined {
+  const { componentId, properties } = resource;
+  const type = String(properties.type || '');
+
+  switch (componentId) {
+    case 'generic-vpc':
+      return 'vnet';
+    case 'generic-subnet':
+      return 'subnet';
+    case 'generic-availability-zone':
+      return 'zone';
+    case 'generic-compute':
+      if (/serverless|function/.test(type)) return 'function';
+      if (/container/.test(type)) return 'container';
+      return 'vm';
+    case 'generic-database': {
+      const engine = String(properties.engine || 'mysql');
+      if (engine === 'sqlserver') return 'sql';
+      if (engine === 'mysql') return 'mysql';
+      if (engine === 'postgresql' || engine === 'postgres') return 'postgresql';
+      return undefined;
+    }
+    case 'generic-storage':
+    case 'azure-storage-account':
+      return 'storage';
+    case 'azure-functions':
+      return 'function';
+    case 'azure-app-service':
+      return 'webApp';
+    case 'azure-container-instances':
+      return 'container';
+    case 'azure-cosmos-db':
+      return 'cosmos';
+    case 'azure-cache-redis':
+      return 'redis';
+    case 'azure-application-gateway':
+      return 'appGateway';
+    case 'azure-cdn':
+      return 'cdn';
+    case 'azure-key-vault':
+      return 'keyVault';
+    case 'azure-monitor':
+      return 'logAnalytics';
+    default:
+      return undefined;
+  }
+}
+
+// ARM rendering
+
+function renderArm(deployment: AzureDeployment): string {
+  const template = {
+    $schema: 'https://schema.management.azure.com/schemas/2019-04-01/deploymentTemplate.json#',
+    contentVersion: '1.0.0.0',
+    ...(deployment.warnings.length > 0 ? { metadata: { infrageni: { warnings: deployment.warnings } } } : {}),
+    parameters: Object.fromEntries(Array.from(deployment.parameters, ([name, parameter]) => [name, {
+      type: parameter.type,
+      ...(parameter.defaultValue !== undefined ? { defaultValue: toArm(parameter.defaultValue) } : {}),
+      ...(parameter.allowedValues ? { allowedValues: parameter.allowedValues.map(toArm) } : {}),
+      ...(parameter.minValue !== undefined ? { minValue: parameter.minValue } : {}),
+      ...(parameter.maxValue !== undefined ? { maxValue: parameter.maxValue } : {}),
+      ...(parameter.description ? { metadata: { description: parameter.description } } : {})
+    }])),
+    resources: deployment.resources.map(resource => {
+      const dependsOn = unique([
+        ...(resource.parent ? [resource.parent.symbol] : []),
+        ...resource.dependsOn,
+        ...collectRefs(resource.body)
+      ]).map(symbol => deployment.resources.find(r => r.symbol === symbol))
+        .filter((dependency): dependency is AzureResource => !!dependency && dependency !== resource)
+        .map(dependency => `[${armResourceId(dependency)}]`);
+
+      return {
+        type: resource.type,
+        apiVersion: resource.apiVersion,
+        name: toArm(armName(resource)),
+        ...(resource.location ? { location: toArm(resource.location) } : {}),
+        ...Object.fromEntries(Object.entries(resource.body).map(([key, value]) => [key, toArm(value)])),
+        ...(dependsOn.length > 0 ? { dependsOn } : {})
+      };
+    }),
+    outputs: Object.fromEntries(Array.from(deployment.outputs, ([name, output]) => [name, {
+      type: 'string',
+      value: toArm(output.value)
+    }]))
+  };
+
+  return JSON.stringify(template, null, 2);
+}
+
+function toArm(value: AzureValue): unknown {
+  if (value instanceof Expression) return `[${value.arm}]`;
+  // A leading bracket would be read as an expression, so ARM escapes it by doubling
+  if (typeof value === 'string') return value.startsWith('[') ? `[${value}` : value;
+  if (Array.isArray(value)) return value.map(toArm);
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, toArm(item)]));
+  }
+  return value;
+}
+
+// Child resources are named parent/child in ARM
+function armName(resource: AzureResource): AzureValue {
+  if (!resource.parent) return resource.name;
+  const parentName = armName(resource.parent);
+  if (typeof parentName === 'string' && typeof resource.name === 'string') {
+    return `${parentName}/${resource.name}`;
+  }
+  const parent = toExpression(parentName);
+  const child = toExpression(resource.name);
+  return new Expression(`format('{0}/{1}', ${parent.arm}, ${child.arm})`, '');
+}
+
+function armResourceId(resource: AzureResource): string {
+  const segments: string[] = [];
+  for (let current: AzureResource | undefined = resource; current; current = current.parent) {
+    segments.unshift(toExpression(current.name).arm);
+  }
+  return `resourceId('${resource.type}', ${segments.join(', ')})`;
+}
+
+// Bicep rendering
+
+function renderBicep(deployment: AzureDeployment): string {
+  const lines: string[] = [];
+
+  if (deployment.warnings.length > 0) {
+    lines.push('// Export warnings:');
+    deployment.warnings.forEach(warning => lines.push(`// - ${warning}`));
+    lines.push('');
+  }
+
+  for (const [name, parameter] of deployment.parameters) {
+    if (parameter.description) lines.push(`@description(${bicepString(parameter.description)})`);
+    if (parameter.allowedValues) lines.push(`@allowed(${bicepValue(parameter.allowedValues, 0)})`);
+    if (parameter.minValue !== undefined) lines.push(`@minValue(${parameter.minValue})`);
+    if (parameter.maxValue !== undefined) lines.push(`@maxValue(${parameter.maxValue})`);
+    if (parameter.type === 'securestring') lines.push('@secure()');
+    const type = parameter.type === 'securestring' ? 'string' : parameter.type;
+    const defaultValue = parameter.defaultValue !== undefined ? ` = ${bicepValue(parameter.defaultValue, 0)}` : '';
+    lines.push(`param ${name} ${type}${defaultValue}`, '');
+  }
+
+  for (const resource of deployment.resources) {
+    const referenced = new Set(collectRefs(resource.body));
+    const dependsOn = unique(resource.dependsOn).filter(symbol => !referenced.has(symbol) && symbol !== resource.parent?.symbol);
+
+    const body: Record<string, AzureValue> = {
+      ...(resource.parent ? { parent: new Expression('', resource.parent.symbol) } : {}),
+      name: resource.name,
+      ...(resource.location ? { location: resource.location } : {}),
+      ...resource.body,
+      ...(dependsOn.length > 0 ? { dependsOn: dependsOn.map(symbol => new Expression('', symbol)) } : {})
+    };
+
+    lines.push(`resource ${resource.symbol} '${resource.type}@${resource.apiVersion}' = ${bicepValue(body, 0)}`, '');
+  }
+
+  for (const [name, output] of deployment.outputs) {
+    lines.push(`output ${name} string = ${output.value.bicep}`);
+  }
+
+  return `${lines.join('\n').trimEnd()}\n`;
+}
+
+function bicepValue(value: AzureValue, indent: number): string {
+  const pad = '  '.repeat(indent + 1);
+  const closing = '  '.repeat(indent);
+
+  if (value instanceof Expression) return value.bicep;
+  if (typeof value === 'string') return bicepString(value);
+  if (value === null) return 'null';
+  if (Array.isArray(value)) {
+    if (value.length === 0) return '[]';
+    return `[\n${value.map(item => `${pad}${bicepValue(item, indent + 1)}`).join('\n')}\n${closing}]`;
+  }
+  if (typeof value === 'object') {
+    const entries = Object.entries(value);
+    if (entries.length === 0) return '{}';
+    const body = entries.map(([key, item]) => `${pad}${bicepKey(key)}: ${bicepValue(item, indent + 1)}`);
+    return `{\n${body.join('\n')}\n${closing}}`;
+  }
+  return String(value);
+}
+
+function bicepKey(key: string): string {
+  return /^[a-zA-Z_][a-zA-Z0-9_]*$/.test(key) ? key : bicepString(key);
+}
+
+function bicepString(value: string): string {
+  return `'${value.replace(/\\/g, '\\\\').replace(/'/g, "\\'").replace(/\n/g, '\\n').replace(/\$\{/g, '\\${')}'`;
+}
+
+// Expression helpers
+
+function parameterRef(name: string): Expression {
+  return new Expression(`parameters('${name}')`, name);
+}
+
+function toExpression(value: AzureValue): Expression {
+  if (value instanceof Expression) return value;
+  if (typeof value === 'string') return new Expression(`'${value.replace(/'/g, "''")}'`, bicepString(value));
+  return new Expression(String(value), String(value));
+}
+
+function call(name: string, ...args: Expression[]): Expression {
+  return new Expression(
+    `${name}(${args.map(arg => arg.arm).join(', ')})`,
+    `${name}(${args.map(arg => arg.bicep).join(', ')})`,
+    unique(args.flatMap(arg => arg.refs))
+  );
+}
+
+function collectRefs(value: AzureValue | Record<string, AzureValue>): string[] {
+  if (value instanceof Expression) return value.refs;
+  if (Array.isArray(value)) return unique(value.flatMap(collectRefs));
+  if (value && typeof value === 'object') return unique(Object.values(value).flatMap(collectRefs));
+  return [];
+}
+
+// Names
+
+// Lowercase, hyphenated names valid for networks, VMs, plans and workspaces
+function resourceName(label: string, fallback: string): string {
+  const name = label.toLowerCase().replace(/\{\{[^}]*\}\}/g, '').replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '');
+  return (name || fallback).slice(0, 60);
+}
+
+// Globally unique names: a readable prefix plus a resource-group-scoped hash
+function globalName(label: string, fallback: string, separator: '' | '-'): Expression {
+  let prefix = resourceName(label, fallback).replace(/-/g, separator);
+  if (!/^[a-z]/.test(prefix)) prefix = `${fallback}${prefix}`;
+  prefix = prefix.slice(0, separator ? 30 : 11);
+  return new Expression(
+    `format('${prefix}${separator}{0}', uniqueString(resourceGroup().id))`,
+    `'${prefix}${separator}\${uniqueString(resourceGroup().id)}'`
+  );
+}
+
+function toCamelCase(value: string): string {
+  const words = value.split(/[^a-zA-Z0-9]+/).filter(Boolean);
+  const name = words
+    .map((word, i) => (i === 0 ? word[0].toLowerCase() : word[0].toUpperCase()) + word.slice(1))
+    .join('');
+  return /^[a-zA-Z]/.test(name) ? name : `r${name}`;
+}
+
+function formatTimeSpan(seconds: number): string {
+  const pad = (n: number) => String(Math.floor(n)).padStart(2, '0');
+  return `${pad(seconds / 3600)}:${pad((seconds % 3600) / 60)}:${pad(seconds % 60)}`;
+}
+
+function toBoolean(value: unknown, fallback: boolean): boolean {
+  if (value === undefined || value === null || value === '') return fallback;
+  return value === true || value === 'true';
+}
+
+function unique<T>(values: T[]): T[] {
+  return Array.from(new Set(values));
+}
+
+// Helper types
+type AzureKind =
+  | 'vnet' | 'subnet' | 'zone' | 'vm' | 'sql' | 'mysql' | 'postgresql' | 'storage' | 'function'
+  | 'webApp' | 'container' | 'cosmos' | 'redis' | 'appGateway' | 'cdn' | 'keyVault' | 'logAnalytics';
+
+type AzureValue = string | number | boolean | null | Expression | AzureValue[] | { [key: string]: AzureValue };
+
+interface AzureParameter {
+  type: 'string' | 'int' | 'bool' | 'array' | 'securestring';
+  defaultValue?: AzureValue;
+  allowedValues?: AzureValue[];
+  minValue?: number;
+  maxValue?: number;
+  description?: string;
+}
+
+interface AzureResource {
+  symbol: string;
+  type: string;
+  apiVersion: string;
+  name: AzureValue;
+  parent?: AzureResource;
+  location?: AzureValue;
+  body: Record<string, AzureValue>;
+  dependsOn: string[];
+}
+
+interface AzureDeployment {
+  parameters: Map<string, AzureParameter>;
+  resources: AzureResource[];
+  outputs: Map<string, { value: Expression }>;
+  warnings: string[];
+}
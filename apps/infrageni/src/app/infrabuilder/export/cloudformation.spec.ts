@@ -0,0 +1,62 @@
+import { ComponentRegistry } from '../components/core/component-registry';
+import { CanvasItem } from '../types';
+import { buildCloudFormationTemplate } from './cloudformation';
+import { canvasModel, item } from './test-canvas';
+
+function exportCanvas(items: CanvasItem[]) {
+  return buildCloudFormationTemplate(canvasModel(items)).template;
+}
+
+describe('buildCloudFormationTemplate', () => {
+  beforeAll(async () => {
+    await ComponentRegistry.getInstance().initialize();
+  });
+
+  it('treats a subnet named public as public when isPublic is left at its default', () => {
+    const template = exportCanvas([
+      item('vpc', 'Main VPC', 'generic-vpc'),
+      item('pub', 'Public Subnet', 'generic-subnet', 'vpc'),
+      item('priv', 'App Subnet', 'generic-subnet', 'vpc')
+    ]);
+
+    expect(template.Resources.MainVPCInternetGateway?.Type).toBe('AWS::EC2::InternetGateway');
+    expect(template.Resources.MainVPCPublicRoute?.Properties?.GatewayId).toEqual({ Ref: 'MainVPCInternetGateway' });
+    expect(template.Resources.PublicSubnet.Properties?.MapPublicIpOnLaunch).toBe(true);
+    expect(template.Resources.PublicSubnetRouteTableAssociation).toBeDefined();
+    expect(template.Resources.AppSubnet.Properties?.MapPublicIpOnLaunch).toBe(false);
+    expect(template.Resources.AppSubnetRouteTableAssociation).toBeUndefined();
+  });
+
+  it('honours an explicit isPublic flag on a subnet with any name', () => {
+    const template = exportCanvas([
+      item('vpc', 'Main VPC', 'generic-vpc'),
+      item('edge', 'Edge', 'generic-subnet', 'vpc', { isPublic: true })
+    ]);
+
+    expect(template.Resources.Edge.Properties?.MapPublicIpOnLaunch).toBe(true);
+    expect(template.Resources.MainVPCInternetGateway).toBeDefined();
+  });
+
+  it('leaves a VPC with only private subnets without an internet gateway', () => {
+    const template = exportCanvas([
+      item('vpc', 'Main VPC', 'generic-vpc'),
+      item('a', 'Data A', 'generic-subnet', 'vpc'),
+      item('b', 'Data B', 'generic-subnet', 'vpc')
+    ]);
+
+    expect(template.Resources.MainVPCInternetGateway).toBeUndefined();
+  });
+
+  it('keeps the database subnet group out of public subnets', () => {
+    const template = exportCanvas([
+      item('vpc', 'Main VPC', 'generic-vpc'),
+      item('pub', 'Public Subnet', 'generic-subnet', 'vpc'),
+      item('a', 'Private A', 'generic-subnet', 'vpc'),
+      item('b', 'Private B', 'generic-subnet', 'vpc'),
+      item('db', 'Orders DB', 'generic-database', 'a')
+    ]);
+
+    const group = Object.values(template.Resources).find(resource => resource.Type === 'AWS::RDS::DBSubnetGroup');
+    expect(group?.Properties?.SubnetIds).toEqual([{ Ref: 'PrivateA' }, { Ref: 'PrivateB' }]);
+  });
+});
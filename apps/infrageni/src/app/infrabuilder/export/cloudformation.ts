@@ -0,0 +1,712 @@
+import { stringify } from 'yaml';
+import {
+  ModelResource,
+  ResourceModel,
+  getLinkedResources,
+  getPropertyDefinition,
+  getResourceAncestors,
+  isPublicSubnet
+} from './resource-model';
+
+// CloudFormation template generation for the AWS subset of a diagram.
+// VPCs, subnets, instances, databases, buckets, Lambda functions and ECS services are
+// mapped to resources; containment becomes Ref/GetAtt wiring and arrows become
+// environment variables, while component properties are surfaced as template Parameters.
+
+export type CloudFormationFormat = 'yaml' | 'json';
+
+export interface CloudFormationParameter {
+  Type: string;
+  Default?: string | number;
+  AllowedValues?: (string | number)[];
+  Description?: string;
+}
+
+export interface CloudFormationResource {
+  Type: string;
+  DependsOn?: string[];
+  DeletionPolicy?: string;
+  UpdateReplacePolicy?: string;
+  Properties: Record<string, unknown>;
+}
+
+export interface CloudFormationOutput {
+  Description: string;
+  Value: unknown;
+}
+
+export interface CloudFormationTemplate {
+  AWSTemplateFormatVersion: '2010-09-09';
+  Description: string;
+  Metadata?: Record<string, unknown>;
+  Parameters?: Record<string, CloudFormationParameter>;
+  Resources: Record<string, CloudFormationResource>;
+  Outputs?: Record<string, CloudFormationOutput>;
+}
+
+export interface CloudFormationResult {
+  template: CloudFormationTemplate;
+  warnings: string[];
+}
+
+// Build the template object for a resource model
+export function buildCloudFormationTemplate(model: ResourceModel): CloudFormationResult {
+  return new TemplateBuilder(model).build();
+}
+
+export function serializeCloudFormation(template: CloudFormationTemplate, format: CloudFormationFormat = 'yaml'): string {
+  if (format === 'json') {
+    return JSON.stringify(template, null, 2);
+  }
+  // CloudFormation reads YAML 1.1, where unquoted dates and yes/no are not strings
+  return stringify(template, { version: '1.1', lineWidth: 0, aliasDuplicateObjects: false });
+}
+
+// Generate a serialized CloudFormation template for a resource model
+export function generateCloudFormation(model: ResourceModel, format: CloudFormationFormat = 'yaml'): string {
+  return serializeCloudFormation(buildCloudFormationTemplate(model).template, format);
+}
+
+const RDS_ENGINES: Record<string, string> = {
+  mysql: 'mysql',
+  postgresql: 'postgres',
+  postgres: 'postgres',
+  mariadb: 'mariadb',
+  oracle: 'oracle-se2',
+  sqlserver: 'sqlserver-ex'
+};
+
+const LIFECYCLE_TRANSITIONS: Record<string, { StorageClass: string; TransitionInDays: number }> = {
+  ia: { StorageClass: 'STANDARD_IA', TransitionInDays: 30 },
+  'intelligent-tiering': { StorageClass: 'INTELLIGENT_TIERING', TransitionInDays: 0 },
+  glacier: { StorageClass: 'GLACIER', TransitionInDays: 0 },
+  'deep-archive': { StorageClass: 'DEEP_ARCHIVE', TransitionInDays: 0 }
+};
+
+const AMI_PARAMETERS = {
+  linux: { name: 'LinuxAmiId', path: '/aws/service/ami-amazon-linux-latest/al2023-ami-kernel-default-x86_64' },
+  windows: { name: 'WindowsAmiId', path: '/aws/service/ami-windows-latest/Windows_Server-2022-English-Full-Base' }
+};
+
+const INLINE_CODE: Record<string, string> = {
+  nodejs: 'exports.handler = async (event) => ({ statusCode: 200, body: JSON.stringify(event) });\n',
+  python: 'def handler(event, context):\n    return {"statusCode": 200}\n'
+};
+
+const LATEST_RUNTIMES: Record<string, string> = {
+  nodejs: 'nodejs20.x',
+  python: 'python3.11',
+  java: 'java17',
+  ruby: 'ruby3.2'
+};
+
+const PROVIDER_NAMES: Record<string, string> = { azure: 'Azure', gcp: 'Google Cloud' };
+
+const DEFAULT_CONTAINER_IMAGE = 'public.ecr.aws/nginx/nginx:latest';
+
+class TemplateBuilder {
+  private resources: Record<string, CloudFormationResource> = {};
+  private parameters: Record<string, CloudFormationParameter> = {};
+  private outputs: Record<string, CloudFormationOutput> = {};
+  private warnings: string[] = [];
+  private kinds = new Map<string, CloudFormationKind>();
+
+  constructor(private model: ResourceModel) {}
+
+  build(): CloudFormationResult {
+    for (const resource of this.model.resources) {
+      const kind = getCloudFormationKind(resource);
+      if (kind) {
+        this.kinds.set(resource.id, kind);
+      } else if (resource.provider !== 'generic' && resource.provider !== 'aws') {
+        this.warnings.push(`${resource.name} (${resource.componentId}) targets ${PROVIDER_NAMES[resource.provider]} and was skipped`);
+      } else if (!isUnbilled(resource)) {
+        this.warnings.push(`${resource.name} (${resource.componentId}) has no CloudFormation mapping yet and was skipped`);
+      }
+    }
+
+    // Subnets can only be created inside a VPC; anything placed in them falls back to the default VPC
+    for (const resource of this.model.resources) {
+      if (this.kinds.get(resource.id) === 'subnet' && !this.findAncestor(resource, 'vpc')) {
+        this.kinds.delete(resource.id);
+        this.warnings.push(`Subnet ${resource.name} is not inside a VPC and was skipped`);
+      }
+    }
+
+    for (const resource of this.model.resources) {
+      switch (this.kinds.get(resource.id)) {
+        case 'vpc':
+          this.addVpc(resource);
+          break;
+        case 'subnet':
+          this.addSubnet(resource);
+          break;
+        case 'instance':
+          this.addInstance(resource);
+          break;
+        case 'database':
+          this.addDatabase(resource);
+          break;
+        case 'bucket':
+          this.addBucket(resource);
+          break;
+        case 'function':
+          this.addFunction(resource);
+          break;
+        case 'container':
+          this.addContainerService(resource);
+          break;
+      }
+    }
+
+    this.addDependencies();
+
+    const template: CloudFormationTemplate = {
+      AWSTemplateFormatVersion: '2010-09-09',
+      Description: this.model.description || `${this.model.name} infrastructure`,
+      ...(this.warnings.length > 0 ? { Metadata: { 'InfraGeni::Export': { Skipped: this.warnings } } } : {}),
+      ...(Object.keys(this.parameters).length > 0 ? { Parameters: this.parameters } : {}),
+      Resources: this.resources,
+      ...(Object.keys(this.outputs).length > 0 ? { Outputs: this.outputs } : {})
+    };
+
+    return { template, warnings: this.warnings };
+  }
+
+  private addVpc(resource: ModelResource): void {
+    const name = resource.logicalName;
+    this.addResource(name, 'AWS::EC2::VPC', {
+      CidrBlock: this.parameter(resource, 'cidrBlock', '10.0.0.0/16'),
+      EnableDnsHostnames: toBoolean(resource.properties.enableDnsHostnames, true),
+      EnableDnsSupport: true,
+      Tags: nameTag(resource)
+    });
+    this.addOutput(`${name}Id`, `${resource.name} (VPC ID)`, ref(name));
+
+    // Public subnets need a route to an internet gateway to be reachable
+    const hasPublicSubnet = this.getDescendants(resource, 'subnet').some(isPublicSubnet);
+    if (hasPublicSubnet) {
+      this.addResource(`${name}InternetGateway`, 'AWS::EC2::InternetGateway', { Tags: nameTag(resource) });
+      this.addResource(`${name}GatewayAttachment`, 'AWS::EC2::VPCGatewayAttachment', {
+        VpcId: ref(name),
+        InternetGatewayId: ref(`${name}InternetGateway`)
+      });
+      this.addResource(`${name}PublicRouteTable`, 'AWS::EC2::RouteTable', {
+        VpcId: ref(name),
+        Tags: nameTag(resource, 'public')
+      });
+      this.addResource(`${name}PublicRoute`, 'AWS::EC2::Route', {
+        RouteTableId: ref(`${name}PublicRouteTable`),
+        DestinationCidrBlock: '0.0.0.0/0',
+        GatewayId: ref(`${name}InternetGateway`)
+      }, [`${name}GatewayAttachment`]);
+    }
+  }
+
+  private addSubnet(resource: ModelResource): void {
+    const name = resource.logicalName;
+    const vpc = this.findAncestor(resource, 'vpc');
+    if (!vpc) return;
+
+    this.addResource(name, 'AWS::EC2::Subnet', {
+      VpcId: ref(vpc.logicalName),
+      CidrBlock: this.getSubnetCidr(resource, vpc),
+      AvailabilityZone: { 'Fn::Select': [this.getZoneIndex(resource, vpc), { 'Fn::GetAZs': '' }] },
+      MapPublicIpOnLaunch: isPublicSubnet(resource),
+      Tags: nameTag(resource)
+    });
+
+    if (isPublicSubnet(resource)) {
+      this.addResource(`${name}RouteTableAssociation`, 'AWS::EC2::SubnetRouteTableAssociation', {
+        SubnetId: ref(name),
+        RouteTableId: ref(`${vpc.logicalName}PublicRouteTable`)
+      });
+    }
+  }
+
+  private addInstance(resource: ModelResource): void {
+    const name = resource.logicalName;
+    const subnet = this.findAncestor(resource, 'subnet');
+    const os = resource.properties.operatingSystem === 'windows' ? 'windows' : 'linux';
+    if (resource.properties.operatingSystem === 'macos') {
+      this.warnings.push(`${resource.name} uses macOS, which needs dedicated hosts; a Linux AMI was used instead`);
+    }
+
+    this.addResource(name, 'AWS::EC2::Instance', {
+      ImageId: ref(this.amiParameter(os)),
+      InstanceType: this.parameter(resource, 'instanceType', 't3.micro'),
+      ...(subnet ? { SubnetId: ref(subnet.logicalName) } : {}),
+      Tags: nameTag(resource)
+    });
+    this.addOutput(`${name}Id`, `${resource.name} (instance ID)`, ref(name));
+  }
+
+  private addDatabase(resource: ModelResource): void {
+    const name = resource.logicalName;
+    const engine = RDS_ENGINES[String(resource.properties.engine || 'mysql')];
+    const vpc = this.findAncestor(resource, 'vpc');
+    const version = resource.properties.version;
+    // The registry's default version is a MySQL version, so only carry it over when it applies
+    const defaultVersion = getPropertyDefinition(resource, 'version')?.defaultValue;
+    const includeVersion = version !== undefined && version !== '' && (engine === 'mysql' || version !== defaultVersion);
+
+    const properties: Record<string, unknown> = {
+      Engine: engine,
+      ...(includeVersion ? { EngineVersion: this.parameter(resource, 'version', version) } : {}),
+      DBInstanceClass: this.parameter(resource, 'instanceClass', 'db.t3.micro'),
+      AllocatedStorage: '20',
+      StorageEncrypted: true,
+      MultiAZ: toBoolean(resource.properties.multiAz, false),
+      MasterUsername: 'dbadmin',
+      ManageMasterUserPassword: true,
+      Tags: nameTag(resource)
+    };
+
+    if (vpc) {
+      const subnets = this.getDatabaseSubnets(vpc);
+      if (subnets.length < 2) {
+        this.warnings.push(`${resource.name} needs subnets in at least two availability zones for its DB subnet group`);
+      }
+      this.addResource(`${name}SubnetGroup`, 'AWS::RDS::DBSubnetGroup', {
+        DBSubnetGroupDescription: `Subnets for ${resource.name}`,
+        SubnetIds: subnets.map(subnet => ref(subnet.logicalName))
+      });
+      properties.DBSubnetGroupName = ref(`${name}SubnetGroup`);
+      properties.VPCSecurityGroups = [getAtt(vpc.logicalName, 'DefaultSecurityGroup')];
+    }
+
+    this.addResource(name, 'AWS::RDS::DBInstance', properties);
+    this.resources[name].DeletionPolicy = 'Snapshot';
+    this.resources[name].UpdateReplacePolicy = 'Snapshot';
+    this.addOutput(`${name}Endpoint`, `${resource.name} (endpoint address)`, getAtt(name, 'Endpoint.Address'));
+  }
+
+  private addBucket(resource: ModelResource): void {
+    const name = resource.logicalName;
+    const transition = LIFECYCLE_TRANSITIONS[String(resource.properties.storageClass || 'standard')];
+
+    // Bucket names are global, so the name is left to CloudFormation and exposed as an output
+    this.addResource(name, 'AWS::S3::Bucket', {
+      ...(toBoolean(resource.properties.encryption, true) ? {
+        BucketEncryption: {
+          ServerSideEncryptionConfiguration: [{ ServerSideEncryptionByDefault: { SSEAlgorithm: 'AES256' } }]
+        }
+      } : {}),
+      ...(toBoolean(resource.properties.versioning, false) ? { VersioningConfiguration: { Status: 'Enabled' } } : {}),
+      ...(transition ? {
+        LifecycleConfiguration: {
+          Rules: [{ Id: 'StorageClassTransition', Status: 'Enabled', Transitions: [transition] }]
+        }
+      } : {}),
+      PublicAccessBlockConfiguration: {
+        BlockPublicAcls: true,
+        BlockPublicPolicy: true,
+        IgnorePublicAcls: true,
+        RestrictPublicBuckets: true
+      },
+      Tags: nameTag(resource)
+    });
+    this.addOutput(`${name}Name`, `${resource.name} (bucket name)`, ref(name));
+  }
+
+  private addFunction(resource: ModelResource): void {
+    const name = resource.logicalName;
+    const subnet = this.findAncestor(resource, 'subnet');
+    const vpc = this.findAncestor(resource, 'vpc');
+    const runtime = normalizeRuntime(String(resource.properties.runtime || 'nodejs18.x'));
+    const inlineCode = INLINE_CODE[runtime.replace(/[0-9.x]+$/, '')];
+
+    this.addResource(`${name}Role`, 'AWS::IAM::Role', {
+      AssumeRolePolicyDocument: assumeRolePolicy('lambda.amazonaws.com'),
+      ManagedPolicyArns: [
+        subnet
+          ? 'arn:aws:iam::aws:policy/service-role/AWSLambdaVPCAccessExecutionRole'
+          : 'arn:aws:iam::aws:policy/service-role/AWSLambdaBasicExecutionRole'
+      ],
+      ...this.linkedResourcePolicies(resource)
+    });
+
+    if (!inlineCode) {
+      this.parameters[`${name}CodeBucket`] = { Type: 'String', Description: `S3 bucket holding the ${resource.name} deployment package` };
+      this.parameters[`${name}CodeKey`] = { Type: 'String', Description: `S3 key of the ${resource.name} deployment package` };
+    }
+
+    this.addResource(name, 'AWS::Lambda::Function', {
+      Runtime: this.parameterValue(resource, 'runtime', runtime),
+      Handler: 'index.handler',
+      Role: getAtt(`${name}Role`, 'Arn'),
+      Code: inlineCode
+        ? { ZipFile: inlineCode }
+        : { S3Bucket: ref(`${name}CodeBucket`), S3Key: ref(`${name}CodeKey`) },
+      MemorySize: this.parameter(resource, 'memorySize', 128),
+      Timeout: this.parameter(resource, 'timeout', 30),
+      ...this.environment(resource, variables => ({ Environment: { Variables: variables } })),
+      ...(subnet && vpc ? {
+        VpcConfig: {
+          SubnetIds: [ref(subnet.logicalName)],
+          SecurityGroupIds: [getAtt(vpc.logicalName, 'DefaultSecurityGroup')]
+        }
+      } : {}),
+      Tags: nameTag(resource)
+    });
+    this.addOutput(`${name}Arn`, `${resource.name} (function ARN)`, getAtt(name, 'Arn'));
+  }
+
+  private addContainerService(resource: ModelResource): void {
+    const name = resource.logicalName;
+    const subnet = this.findAncestor(resource, 'subnet');
+    const vpc = this.findAncestor(resource, 'vpc');
+    const launchType = this.parameter(resource, 'launchType', 'FARGATE');
+
+    this.addResource(`${name}Cluster`, 'AWS::ECS::Cluster', { Tags: nameTag(resource) });
+    this.addResource(`${name}ExecutionRole`, 'AWS::IAM::Role', {
+      AssumeRolePolicyDocument: assumeRolePolicy('ecs-tasks.amazonaws.com'),
+      ManagedPolicyArns: ['arn:aws:iam::aws:policy/service-role/AmazonECSTaskExecutionRolePolicy']
+    });
+
+    const taskPolicies = this.linkedResourcePolicies(resource);
+    if (taskPolicies.Policies) {
+      this.addResource(`${name}TaskRole`, 'AWS::IAM::Role', {
+        AssumeRolePolicyDocument: assumeRolePolicy('ecs-tasks.amazonaws.com'),
+        ...taskPolicies
+      });
+    }
+
+    this.parameters[`${name}Image`] = {
+      Type: 'String',
+      Default: DEFAULT_CONTAINER_IMAGE,
+      Description: `Container image for ${resource.name}`
+    };
+
+    this.addResource(`${name}TaskDefinition`, 'AWS::ECS::TaskDefinition', {
+      Family: this.parameterValue(
+        resource,
+        'taskDefinition',
+        resource.properties.taskDefinition || resource.logicalName.toLowerCase(),
+        `${name}TaskFamily`
+      ),
+      RequiresCompatibilities: [launchType],
+      NetworkMode: 'awsvpc',
+      Cpu: this.parameter(resource, 'cpu', 256),
+      Memory: this.parameter(resource, 'memory', 512),
+      ExecutionRoleArn: getAtt(`${name}ExecutionRole`, 'Arn'),
+      ...(taskPolicies.Policies ? { TaskRoleArn: getAtt(`${name}TaskRole`, 'Arn') } : {}),
+      ContainerDefinitions: [{
+        Name: 'app',
+        Image: ref(`${name}Image`),
+        Essential: true,
+        PortMappings: [{ ContainerPort: 80 }],
+        ...this.environment(resource, variables => ({
+          Environment: Object.entries(variables).map(([key, value]) => ({ Name: key, Value: value }))
+        }))
+      }]
+    });
+
+    if (!subnet || !vpc) {
+      this.warnings.push(`${resource.name} is not inside a subnet, so only its cluster and task definition were generated`);
+      return;
+    }
+    if (resource.properties.launchType === 'EC2') {
+      this.warnings.push(`${resource.name} uses the EC2 launch type; register container instances with ${name}Cluster before deploying`);
+    }
+
+    this.addResource(`${name}Service`, 'AWS::ECS::Service', {
+      Cluster: ref(`${name}Cluster`),
+      TaskDefinition: ref(`${name}TaskDefinition`),
+      DesiredCount: this.parameter(resource, 'desiredCount', 1),
+      LaunchType: launchType,
+      NetworkConfiguration: {
+        AwsvpcConfiguration: {
+          Subnets: [ref(subnet.logicalName)],
+          SecurityGroups: [getAtt(vpc.logicalName, 'DefaultSecurityGroup')],
+          AssignPublicIp: isPublicSubnet(subnet) ? 'ENABLED' : 'DISABLED'
+        }
+      }
+    });
+    this.addOutput(`${name}ServiceName`, `${resource.name} (ECS service name)`, getAtt(`${name}Service`, 'Name'));
+  }
+
+  // Arrows to data stores surface their endpoints to the code that talks to them
+  private environment(
+    resource: ModelResource,
+    wrap: (variables: Record<string, unknown>) => Record<string, unknown>
+  ): Record<string, unknown> {
+    const variables: Record<string, unknown> = {};
+
+    const configured = resource.properties.environment;
+    if (configured && typeof configured === 'object' && !Array.isArray(configured)) {
+      for (const [key, value] of Object.entries(configured)) {
+        variables[key] = String(value);
+      }
+    }
+
+    for (const linked of getLinkedResources(this.model, resource)) {
+      const prefix = toEnvironmentName(linked.logicalName);
+      switch (this.kinds.get(linked.id)) {
+        case 'database':
+          variables[`${prefix}_HOST`] = getAtt(linked.logicalName, 'Endpoint.Address');
+          variables[`${prefix}_PORT`] = getAtt(linked.logicalName, 'Endpoint.Port');
+          break;
+        case 'bucket':
+          variables[`${prefix}_BUCKET_NAME`] = ref(linked.logicalName);
+          break;
+        case 'function':
+          variables[`${prefix}_FUNCTION_NAME`] = ref(linked.logicalName);
+          break;
+        case 'instance':
+          variables[`${prefix}_PRIVATE_IP`] = getAtt(linked.logicalName, 'PrivateIp');
+          break;
+      }
+    }
+
+    return Object.keys(variables).length > 0 ? wrap(variables) : {};
+  }
+
+  // Grant read/write on buckets the resource is connected to
+  private linkedResourcePolicies(resource: ModelResource): { Policies?: unknown[] } {
+    const buckets = getLinkedResources(this.model, resource).filter(linked => this.kinds.get(linked.id) === 'bucket');
+    if (buckets.length === 0) return {};
+
+    return {
+      Policies: [{
+        PolicyName: `${resource.logicalName}BucketAccess`,
+        PolicyDocument: {
+          Version: '2012-10-17',
+          Statement: [
+            {
+              Effect: 'Allow',
+              Action: ['s3:ListBucket'],
+              Resource: buckets.map(bucket => getAtt(bucket.logicalName, 'Arn'))
+            },
+            {
+              Effect: 'Allow',
+              Action: ['s3:GetObject', 's3:PutObject', 's3:DeleteObject'],
+              Resource: buckets.map(bucket => ({ 'Fn::Sub': `\${${bucket.logicalName}.Arn}/*` }))
+            }
+          ]
+        }
+      }]
+    };
+  }
+
+  // Pattern component dependencies become explicit DependsOn entries
+  private addDependencies(): void {
+    for (const resource of this.model.resources) {
+      const entry = this.resources[resource.logicalName];
+      if (!entry || !this.kinds.has(resource.id)) continue;
+
+      const dependsOn = resource.dependsOn
+        .map(id => this.model.resources.find(r => r.id === id))
+        .filter((dependency): dependency is ModelResource => !!dependency)
+        .map(dependency => this.primaryLogicalName(dependency))
+        .filter((logicalName): logicalName is string => !!logicalName && !!this.resources[logicalName]);
+
+      if (dependsOn.length > 0) {
+        entry.DependsOn = Array.from(new Set([...(entry.DependsOn || []), ...dependsOn]));
+      }
+    }
+  }
+
+  private primaryLogicalName(resource: ModelResource): string | undefined {
+    return this.kinds.get(resource.id) === 'container' ? `${resource.logicalName}Service` : resource.logicalName;
+  }
+
+  // Turn a component property into a template parameter, keeping its value as the default
+  private parameter(resource: ModelResource, propertyId: string, fallback: unknown): unknown {
+    return this.parameterValue(resource, propertyId, resource.properties[propertyId] ?? fallback);
+  }
+
+  private parameterValue(
+    resource: ModelResource,
+    propertyId: string,
+    value: unknown,
+    name = `${resource.logicalName}${toPascalCase(propertyId)}`
+  ): unknown {
+    const patternParameter = this.patternParameter(value);
+    if (patternParameter) return ref(patternParameter);
+
+    if (typeof value !== 'string' && typeof value !== 'number') {
+      return value;
+    }
+
+    const definition = getPropertyDefinition(resource, propertyId);
+    const allowedValues = definition?.options?.map(option => option.value as string | number);
+
+    this.parameters[name] = {
+      Type: typeof value === 'number' || definition?.type === 'number' ? 'Number' : 'String',
+      Default: value,
+      ...(allowedValues && allowedValues.length > 0
+        ? { AllowedValues: allowedValues.includes(value) ? allowedValues : [...allowedValues, value] }
+        : {}),
+      Description: `${resource.name}: ${definition?.description || definition?.name || propertyId}`
+    };
+
+    return ref(name);
+  }
+
+  // Pattern configuration can reference pattern parameters as ${parameter_id}
+  private patternParameter(value: unknown): string | undefined {
+    if (typeof value !== 'string') return undefined;
+    const match = value.match(/^\$\{([^}]+)\}$/);
+    const parameter = match ? this.model.parameters.find(p => p.id === match[1]) : undefined;
+    if (!parameter) return undefined;
+
+    const name = toPascalCase(parameter.id);
+    const isBoolean = parameter.type === 'boolean';
+    const options = isBoolean ? ['true', 'false'] : parameter.options?.map(option => option.value);
+
+    this.parameters[name] = {
+      Type: parameter.type === 'number' ? 'Number' : 'String',
+      ...(parameter.defaultValue !== undefined
+        ? { Default: isBoolean ? String(parameter.defaultValue) : parameter.defaultValue }
+        : {}),
+      ...(options && options.length > 0 ? { AllowedValues: options } : {}),
+      Description: parameter.description || parameter.name
+    };
+
+    return name;
+  }
+
+  private amiParameter(os: keyof typeof AMI_PARAMETERS): string {
+    const { name, path } = AMI_PARAMETERS[os];
+    this.parameters[name] = {
+      Type: 'AWS::SSM::Parameter::Value<AWS::EC2::Image::Id>',
+      Default: path,
+      Description: `Latest ${os === 'windows' ? 'Windows Server' : 'Amazon Linux'} AMI`
+    };
+    return name;
+  }
+
+  private addResource(name: string, type: string, properties: Record<string, unknown>, dependsOn?: string[]): void {
+    this.resources[name] = {
+      Type: type,
+      ...(dependsOn ? { DependsOn: dependsOn } : {}),
+      Properties: properties
+    };
+  }
+
+  private addOutput(name: string, description: string, value: unknown): void {
+    this.outputs[name] = { Description: description, Value: value };
+  }
+
+  private findAncestor(resource: ModelResource, kind: CloudFormationKind): ModelResource | undefined {
+    return getResourceAncestors(this.model, resource).find(ancestor => this.kinds.get(ancestor.id) === kind);
+  }
+
+  private getDescendants(resource: ModelResource, kind: CloudFormationKind): ModelResource[] {
+    return this.model.resources.filter(candidate =>
+      this.kinds.get(candidate.id) === kind &&
+      getResourceAncestors(this.model, candidate).includes(resource)
+    );
+  }
+
+  // Zones keep their drawn order; subnets without a zone alternate between the first two
+  private getZoneIndex(subnet: ModelResource, vpc: ModelResource): number {
+    const zone = this.findAncestor(subnet, 'zone');
+    if (zone) {
+      return this.getDescendants(vpc, 'zone').indexOf(zone);
+    }
+    return this.getDescendants(vpc, 'subnet').indexOf(subnet) % 2;
+  }
+
+  // Subnets left on the same (default) CIDR get consecutive blocks carved out of the VPC range
+  private getSubnetCidr(subnet: ModelResource, vpc: ModelResource): unknown {
+    const subnets = this.getDescendants(vpc, 'subnet');
+    const cidr = subnet.properties.cidrBlock;
+    const isShared = subnets.some(other => other !== subnet && other.properties.cidrBlock === cidr);
+    if (cidr && !isShared) {
+      return this.parameter(subnet, 'cidrBlock', cidr);
+    }
+
+    return {
+      'Fn::Select': [
+        subnets.indexOf(subnet),
+        { 'Fn::Cidr': [getAtt(vpc.logicalName, 'CidrBlock'), Math.max(subnets.length, 2), 8] }
+      ]
+    };
+  }
+
+  // Prefer private subnets for databases, falling back to every subnet in the VPC
+  private getDatabaseSubnets(vpc: ModelResource): ModelResource[] {
+    const subnets = this.getDescendants(vpc, 'subnet');
+    const privateSubnets = subnets.filter(subnet => !isPublicSubnet(subnet));
+    return privateSubnets.length >= 2 ? privateSubnets : subnets;
+  }
+}
+
+function getCloudFormationKind(resource: ModelResource): CloudFormationKind | undefined {
+  const { componentId, properties } = resource;
+  const type = String(properties.type || '');
+
+  switch (componentId) {
+    case 'generic-vpc':
+      return 'vpc';
+    case 'generic-subnet':
+      return 'subnet';
+    case 'generic-availability-zone':
+      return 'zone';
+    case 'generic-compute':
+      if (/serverless|function|lambda/.test(type)) return 'function';
+      if (/container|ecs|fargate/.test(type)) return 'container';
+      return 'instance';
+    case 'generic-database':
+      return RDS_ENGINES[String(properties.engine || 'mysql')] ? 'database' : undefined;
+    case 'generic-storage':
+      return 'bucket';
+    case 'aws-lambda':
+      return 'function';
+    case 'aws-ecs':
+      return 'container';
+    default:
+      return undefined;
+  }
+}
+
+// Users and external systems are part of the picture but not of the stack
+function isUnbilled(resource: ModelResource): boolean {
+  return resource.componentId === 'generic-user' || resource.componentId === 'generic-external-system';
+}
+
+// Patterns often name just the language; pick a current runtime for it
+function normalizeRuntime(runtime: string): string {
+  return LATEST_RUNTIMES[runtime] || runtime;
+}
+
+function toBoolean(value: unknown, fallback: boolean): boolean {
+  if (value === undefined || value === null || value === '') return fallback;
+  return value === true || value === 'true';
+}
+
+function ref(name: string): { Ref: string } {
+  return { Ref: name };
+}
+
+function getAtt(name: string, attribute: string): { 'Fn::GetAtt': [string, string] } {
+  return { 'Fn::GetAtt': [name, attribute] };
+}
+
+function nameTag(resource: ModelResource, suffix?: string): { Key: string; Value: string }[] {
+  return [{ Key: 'Name', Value: suffix ? `${resource.name} ${suffix}` : resource.name }];
+}
+
+function assumeRolePolicy(service: string): Record<string, unknown> {
+  return {
+    Version: '2012-10-17',
+    Statement: [{ Effect: 'Allow', Principal: { Service: service }, Action: 'sts:AssumeRole' }]
+  };
+}
+
+function toPascalCase(value: string): string {
+  return value
+    .split(/[^a-zA-Z0-9]+/)
+    .filter(Boolean)
+    .map(word => word[0].toUpperCase() + word.slice(1))
+    .join('');
+}
+
+function toEnvironmentName(logicalName: string): string {
+  return logicalName.replace(/([a-z0-9])([A-Z])/g, '$1_$2').toUpperCase();
+}
+
+// Helper types
+type CloudFormationKind = 'vpc' | 'subnet' | 'zone' | 'instance' | 'database' | 'bucket' | 'function' | 'container';
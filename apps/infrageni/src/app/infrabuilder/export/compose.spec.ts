@@ -0,0 +1,55 @@
+import { parse } from 'yaml';
+import { ComponentRegistry } from '../components/core/component-registry';
+import { CanvasItem, Connection } from '../types';
+import { generateComposeFile } from './compose';
+import { canvasModel, item } from './test-canvas';
+
+interface ComposeFile {
+  name?: string;
+  services: Record<string, { ports?: string[]; environment?: Record<string, string>; depends_on?: string[] }>;
+}
+
+function exportCanvas(items: CanvasItem[], connections: Connection[] = []): ComposeFile {
+  return parse(generateComposeFile(canvasModel(items, connections)));
+}
+
+describe('generateComposeFile', () => {
+  beforeAll(async () => {
+    await ComponentRegistry.getInstance().initialize();
+  });
+
+  it('publishes the default port of the runtime a workload comes from', () => {
+    const compose = exportCanvas(
+      [
+        item('web', 'Web', 'generic-compute', undefined, { containerized: true, image: 'shop/web' }),
+        item('api', 'Api', 'gcp-cloud-run', undefined, { image: 'shop/api' })
+      ],
+      [{ id: 'c1', from: 'web', to: 'api' }]
+    );
+
+    // Web took host port 8080 first
+    expect(compose.services.api.ports).toEqual(['8081:8080']);
+    expect(compose.services.web.environment?.API_URL).toBe('http://api:8080');
+    expect(compose.services.web.depends_on).toEqual(['api']);
+  });
+
+  it('prefers the port set on the shape', () => {
+    const compose = exportCanvas([item('api', 'Api', 'gcp-cloud-run', undefined, { image: 'shop/api', containerPort: 3000 })]);
+
+    expect(compose.services.api.ports).toEqual(['3000:3000']);
+  });
+
+  it('leaves non-container resources out and points workloads at them by host name', () => {
+    const compose = exportCanvas(
+      [
+        item('web', 'Web', 'generic-compute', undefined, { containerized: true }),
+        item('db', 'Orders DB', 'generic-database')
+      ],
+      [{ id: 'c1', from: 'web', to: 'db' }]
+    );
+
+    expect(Object.keys(compose.services)).toEqual(['web']);
+    expect(compose.services.web.environment?.ORDERS_DB_HOST).toBe('orders-db');
+    expect(compose.name).toBe('shop');
+  });
+});
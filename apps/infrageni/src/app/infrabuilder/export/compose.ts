@@ -0,0 +1,276 @@
+import { stringify } from 'yaml';
+import { ComponentCategory, ComponentSubcategory } from '../components/core/component-types';
+import { containerPort, isWorkload } from './kubernetes';
+import { ModelResource, ResourceModel } from './resource-model';
+import { constantCase, kebabCase } from './naming';
+
+// docker-compose export of the container workloads of a diagram, for running them locally.
+// Workloads become services with their image, ports, environment and limits; arrows between
+// workloads become depends_on and URL variables, arrows to block or file storage become named
+// volumes mounted at the arrow label, and the containers around workloads become networks.
+// Pattern parameters stay as ${VARIABLE:-default} so compose reads them from the environment.
+
+const DEFAULT_PORT = 80;
+
+// Storage that can be a local named volume; object stores stay external
+const VOLUME_SUBCATEGORIES = [ComponentSubcategory.BLOCK_STORAGE, ComponentSubcategory.FILE_STORAGE];
+
+// The compose file, with export warnings as a leading comment
+export function generateComposeFile(model: ResourceModel): string {
+  const result = new ComposeBuilder(model).build();
+
+  const header = result.warnings.length > 0
+    ? ['# Export warnings:', ...result.warnings.map(warning => `# - ${warning}`), ''].join('\n')
+    : '';
+
+  return header + stringify(result.compose, { lineWidth: 0, aliasDuplicateObjects: false });
+}
+
+class ComposeBuilder {
+  private services = new Map<string, ComposeService>();
+  private names = new Set<string>();
+  private hostPorts = new Set<number>();
+  private networks: Record<string, Record<string, unknown>> = {};
+  private volumes: Record<string, Record<string, unknown>> = {};
+  private warnings: string[] = [];
+  private externalTargets: string[] = [];
+
+  constructor(private model: ResourceModel) {}
+
+  build(): { compose: Record<string, unknown>; warnings: string[] } {
+    for (const resource of this.model.resources) {
+      if (isWorkload(resource)) {
+        this.services.set(resource.id, {
+          resource,
+          name: this.uniqueName(kebabCase(resource.name) || kebabCase(resource.logicalName) || 'app'),
+          port: containerPort(resource),
+          network: resource.properties.networkMode ? undefined : this.network(resource)
+        });
+      }
+    }
+
+    if (this.services.size === 0) {
+      this.warnings.push('The diagram has no container workloads (ECS, Cloud Run, container instances or containerized compute)');
+    }
+
+    const services: Record<string, unknown> = {};
+    for (const service of this.services.values()) {
+      services[service.name] = this.service(service);
+    }
+
+    if (this.externalTargets.length > 0) {
+      this.warnings.push(`Environment entries for ${this.externalTargets.join(', ')} hold placeholder hosts; those resources are not part of the compose file`);
+    }
+
+    return {
+      compose: compact({
+        name: kebabCase(this.model.name) || undefined,
+        services,
+        networks: Object.keys(this.networks).length > 0 ? this.networks : undefined,
+        volumes: Object.keys(this.volumes).length > 0 ? this.volumes : undefined
+      }),
+      warnings: this.warnings
+    };
+  }
+
+  private service(service: ComposeService): Record<string, unknown> {
+    const { resource, port } = service;
+    const dependsOn: string[] = [];
+    const aliases: string[] = [];
+    const networks = new Set<string>(service.network ? [service.network] : []);
+    const mounts: string[] = [];
+    const environment = { ...this.environmentProperty(resource) };
+
+    for (const link of this.model.links) {
+      if (link.from !== resource.id) continue;
+      const target = this.model.resources.find(candidate => candidate.id === link.to);
+      if (!target || target.metadata?.subcategory === ComponentSubcategory.REGISTRY) continue;
+
+      // Workloads reach each other by service name (or the arrow label as a link alias), so they need a network in common
+      const targetService = this.services.get(target.id);
+      if (targetService) {
+        if (!dependsOn.includes(targetService.name)) dependsOn.push(targetService.name);
+        if (targetService.network) networks.add(targetService.network);
+        const host = link.label && /^[a-z0-9][a-z0-9_.-]*$/i.test(link.label) ? link.label : targetService.name;
+        if (host !== targetService.name) aliases.push(`${targetService.name}:${host}`);
+        if (targetService.port) {
+          environment[`${constantCase(target.logicalName)}_URL`] ??= `http://${host}:${targetService.port}`;
+        }
+        continue;
+      }
+
+      if (isVolume(target)) {
+        const volume = kebabCase(target.name) || kebabCase(target.logicalName);
+        this.volumes[volume] = compact({ driver: target.properties.driver, external: target.properties.external === true || undefined });
+        mounts.push(`${volume}:${link.label?.startsWith('/') ? link.label : `/data/${volume}`}`);
+        continue;
+      }
+
+      if (!target.isContainer) {
+        if (!this.externalTargets.includes(target.name)) this.externalTargets.push(target.name);
+        environment[`${constantCase(target.logicalName)}_HOST`] ??= kebabCase(target.name) || kebabCase(target.logicalName);
+      }
+    }
+
+    // Joining any network leaves the default one, so services outside containers list it explicitly
+    if (networks.size > 0 && !service.network) networks.add('default');
+
+    const image = this.image(resource);
+    const build = resource.properties.build;
+    const command = resource.properties.command;
+    const restart = resource.properties.restart;
+    const networkMode = resource.properties.networkMode;
+
+    return compact({
+      image: image ?? (build ? undefined : 'nginx:latest'),
+      build: typeof build === 'string' && build ? build : undefined,
+      command: typeof command === 'string' && command ? command : undefined,
+      ports: this.ports(resource, port ?? DEFAULT_PORT),
+      environment: Object.keys(environment).length > 0 ? environment : undefined,
+      depends_on: dependsOn.length > 0 ? dependsOn : undefined,
+      links: aliases.length > 0 ? aliases : undefined,
+      volumes: mounts.length > 0 ? mounts : undefined,
+      networks: networks.size > 0 && !networkMode ? Array.from(networks) : undefined,
+      network_mode: typeof networkMode === 'string' && networkMode ? networkMode : undefined,
+      restart: typeof restart === 'string' && restart ? restart : undefined,
+      deploy: this.deploy(resource)
+    });
+  }
+
+  // Port mappings from the shape (an empty list publishes nothing), otherwise the container port on a free host port
+  private ports(resource: ModelResource, port: number): unknown[] | undefined {
+    const ports = resource.properties.ports;
+    if (Array.isArray(ports)) {
+      if (ports.length === 0) return undefined;
+      return ports.map(mapping => {
+        const published = Number(String(mapping).split(':').slice(-2, -1)[0]);
+        if (published) this.hostPorts.add(published);
+        return String(mapping);
+      });
+    }
+
+    // Privileged ports move up to the 8000s so the file runs without root
+    let hostPort = port < 1024 ? port + 8000 : port;
+    while (this.hostPorts.has(hostPort)) hostPort++;
+    this.hostPorts.add(hostPort);
+    return [`${hostPort}:${port}`];
+  }
+
+  private deploy(resource: ModelResource): Record<string, unknown> | undefined {
+    const replicas = ['desiredCount', 'minInstances', 'replicas']
+      .map(propertyId => this.resolve(resource.properties[propertyId]))
+      .find(value => value !== undefined && value !== '');
+    // Only container limits; the VM sizes of plain compute shapes are not meant for a local run
+    const limits = composeLimits(resource, this.resolve(resource.properties.cpu), this.resolve(resource.properties.memory));
+
+    const deploy = compact({
+      replicas: replicas !== undefined && Number(replicas) !== 1 ? replicas : undefined,
+      resources: limits ? { limits } : undefined
+    });
+    return Object.keys(deploy).length > 0 ? deploy : undefined;
+  }
+
+  // Image from the shape, or from the registry it has an arrow to
+  private image(resource: ModelResource): unknown {
+    const image = this.resolve(resource.properties.image);
+    if (image) return image;
+
+    for (const link of this.model.links) {
+      const target = link.from === resource.id ? this.model.resources.find(r => r.id === link.to) : undefined;
+      if (target?.metadata?.subcategory === ComponentSubcategory.REGISTRY) {
+        return `${String(target.properties.repositoryName || kebabCase(target.name))}:latest`;
+      }
+    }
+    return undefined;
+  }
+
+  // Environment kept on the shape as a mapping or as KEY=value entries
+  private environmentProperty(resource: ModelResource): Record<string, unknown> {
+    const environment = resource.properties.environment;
+    if (Array.isArray(environment)) {
+      return Object.fromEntries(environment.map(String).map(entry => {
+        const separator = entry.indexOf('=');
+        return separator < 0 ? [entry, ''] : [entry.slice(0, separator), entry.slice(separator + 1)];
+      }));
+    }
+    if (typeof environment === 'object' && environment !== null) {
+      return Object.fromEntries(Object.entries(environment).map(([key, value]) => [key, this.resolve(value) ?? '']));
+    }
+    return {};
+  }
+
+  // Networks are the nearest container around the workload
+  private network(resource: ModelResource): string | undefined {
+    const container = this.model.resources.find(candidate => candidate.id === resource.parentId && candidate.isContainer);
+    if (!container) return undefined;
+
+    const name = kebabCase(container.name) || kebabCase(container.logicalName);
+    if (name !== 'default') {
+      this.networks[name] = compact({ driver: container.properties.driver, external: container.properties.external === true || undefined });
+    }
+    return name;
+  }
+
+  // ${parameter_id} references become compose variables defaulting to the parameter value
+  private resolve(value: unknown): unknown {
+    const match = typeof value === 'string' ? value.match(/^\$\{([^}]+)\}$/) : null;
+    if (!match) return value;
+
+    const parameter = this.model.parameters.find(p => p.id === match[1]);
+    if (!parameter) return value;
+    const fallback = parameter.defaultValue === undefined ? '' : `:-${String(parameter.defaultValue)}`;
+    return `\${${constantCase(parameter.id)}${fallback}}`;
+  }
+
+  private uniqueName(base: string): string {
+    let name = base;
+    for (let i = 2; this.names.has(name); i++) {
+      name = `${base}-${i}`;
+    }
+    this.names.add(name);
+    return name;
+  }
+}
+
+function isVolume(resource: ModelResource): boolean {
+  if (resource.metadata?.category !== ComponentCategory.STORAGE) return false;
+  return resource.componentId === 'generic-storage' ||
+    (!!resource.metadata.subcategory && VOLUME_SUBCATEGORIES.includes(resource.metadata.subcategory));
+}
+
+// Compose limits take fractional CPUs ("0.5") and byte sizes ("512M")
+function composeLimits(resource: ModelResource, cpu: unknown, memory: unknown): Record<string, string> | undefined {
+  const limits: Record<string, string> = {};
+
+  if (typeof cpu === 'string' && /^\d+m$/.test(cpu)) {
+    limits.cpus = String(parseInt(cpu, 10) / 1000);
+  } else if (typeof cpu === 'string' && cpu) {
+    limits.cpus = cpu;
+  } else if (typeof cpu === 'number' && cpu > 0) {
+    // ECS counts CPU units, 1024 to a vCPU
+    limits.cpus = String(resource.componentId === 'aws-ecs' || cpu > 64 ? Math.round((cpu * 100) / 1024) / 100 : cpu);
+  }
+
+  if (typeof memory === 'string' && /^\d+(\.\d+)?[KMGT]i$/.test(memory)) {
+    limits.memory = memory.slice(0, -1);
+  } else if (typeof memory === 'string' && memory) {
+    limits.memory = memory;
+  } else if (typeof memory === 'number' && memory > 0) {
+    // ECS counts memory in MiB, the other services in GB
+    limits.memory = resource.componentId === 'aws-ecs' || memory > 64 ? `${memory}M` : `${memory}G`;
+  }
+
+  return Object.keys(limits).length > 0 ? limits : undefined;
+}
+
+function compact(object: Record<string, unknown>): Record<string, unknown> {
+  return Object.fromEntries(Object.entries(object).filter(([, value]) => value !== undefined));
+}
+
+// Helper types
+interface ComposeService {
+  resource: ModelResource;
+  name: string;
+  port?: number;
+  network?: string;
+}
@@ -29,7 +29,7 @@ export function EnhancedExportDialog({ isOpen, onClose }: EnhancedExportDialogPr
     // Get format icon based on type
     const getFormatIcon = (format: string) => {
         if (isMermaidFormat(format)) return Image;
-        if (format.includes('terraform') || format.includes('yaml')) return Code;
+        if (format.includes('terraform') || format.includes('yaml') || format.includes('cloudformation') || format === 'arm' || format === 'bicep' || format === 'pulumi' || format === 'kubernetes' || format === 'helm' || format === 'docker-compose' || format === 'structurizr') return Code;
         return FileText;
     };
 
@@ -85,23 +85,29 @@ export const EXPORT_EXAMPLES: Record<
   },
   terraform: {
     description:
-      'Basic Infrastructure as Code template for AWS resources (requires customization)',
-    sampleOutput: `resource "aws_vpc" "main_vpc" {
-  cidr_block = "10.0.0.0/16"
-  
-  tags = {
-    Name = "Main VPC"
-  }
+      'Terraform project for AWS, Azure or Google Cloud with a module per VPC',
+    sampleOutput: `# main.tf
+module "app_vpc" {
+  source = "./modules/app_vpc"
 }
 
-resource "aws_instance" "web_server" {
-  ami           = data.aws_ami.ubuntu.id
-  instance_type = "t3.micro"
+# modules/app_vpc/main.tf
+resource "aws_subnet" "public_a" {
+  vpc_id            = aws_vpc.app_vpc.id
+  cidr_block        = "10.0.0.0/24"
+  availability_zone = data.aws_availability_zones.available.names[0]
 }
 
-# Note: Connections become security groups and routing rules`,
+# Allow Web to reach Orders DB on port 5432
+resource "aws_vpc_security_group_ingress_rule" "orders_db_from_web" {
+  security_group_id            = aws_security_group.orders_db.id
+  referenced_security_group_id = aws_security_group.web.id
+  from_port                    = 5432
+  to_port                      = 5432
+  ip_protocol                  = "tcp"
+}`,
     useCase:
-      'Starting point for Infrastructure as Code - customize for your specific needs',
+      'Deploying the design with terraform apply; names stay stable so re-exports produce small diffs',
   },
 };
 
@@ -1,7 +1,21 @@
 import { TLShape, useEditor, TLArrowBinding } from 'tldraw';
+import { useAtomValue } from 'jotai';
+import { Provider, providerAtom } from '../../lib/provider-atom';
 import { BaseInfraShapeProps } from '../shapes/base';
 import { CanvasItem, Connection } from '../types';
 import { EXPORT_FORMATS } from './formats';
+import { generateCloudFormation } from './cloudformation';
+import { generateArmTemplate, generateBicep } from './azure-templates';
+import { generatePulumiProject, serializePulumiProject, zipPulumiProject } from './pulumi';
+import { generateTerraformProject, serializeTerraformProject, zipTerraformProject } from './terraform';
+import { generateHelmChart, generateKubernetesManifests } from './kubernetes';
+import { generateComposeFile } from './compose';
+import { generateStructurizrWorkspace } from './structurizr';
+import { serializeFiles, zipFiles } from './archive';
+import { buildModelFromCanvas, resolveComponentId } from './resource-model';
+import { ComponentRegistry } from '../components/core/component-registry';
+import { ComponentCategory, ComponentSubcategory } from '../components/core/component-types';
+import { SWIMLANE_META_KEY } from '../tools/layout/swimlane-layout';
 
 export interface ExportData {
   items: CanvasItem[];
@@ -51,6 +65,11 @@ export function extractConnectionsFromArrows(
             dash: arrowProps.dash || 'solid',
           },
         };
+
+        // Page-space waypoints written by the edge-routing tool
+        if (Array.isArray(shape.meta?.route)) {
+          connection.properties = { ...connection.properties, route: shape.meta.route };
+        }
         connections.push(connection);
       }
     }
@@ -62,10 +81,19 @@ export function extractConnectionsFromArrows(
 export function convertShapesToCanvasItems(shapes: TLShape[]): CanvasItem[] {
   const items: CanvasItem[] = [];
 
+  // Containers that shapes are explicitly parented to in tldraw
+  const isContainerShape = (id: string) => {
+    const parent = shapes.find((s) => s.id === id);
+    return !!(parent?.props as BaseInfraShapeProps | undefined)?.isBoundingBox;
+  };
+
   for (const shape of shapes) {
     // Skip arrow shapes as they are handled separately as connections
     if (shape.type === 'arrow') continue;
 
+    // Swimlane backgrounds are decoration, not resources
+    if (shape.meta?.[SWIMLANE_META_KEY]) continue;
+
     const props = shape.props as BaseInfraShapeProps;
     if (!props) continue;
 
@@ -79,12 +107,19 @@ export function convertShapesToCanvasItems(shapes: TLShape[]): CanvasItem[] {
       key: `${componentType}-${shape.id}`,
       isBoundingBox: props.isBoundingBox,
       properties: {
+        // Component property values (instanceType, engine, ...) live in shape meta
+        ...(shape.meta as Record<string, unknown>),
         // Extract any custom properties from the shape's props
         // eslint-disable-next-line @typescript-eslint/no-explicit-any
         ...(props as any), // Cast to any to access potential custom properties
       },
     };
 
+    // Shapes nested with tldraw reparenting keep their real parent
+    if (isContainerShape(shape.parentId)) {
+      item.parentId = shape.parentId;
+    }
+
     // For bounding boxes, find their children
     if (props.isBoundingBox) {
       const children: string[] = [];
@@ -96,10 +131,16 @@ export function convertShapesToCanvasItems(shapes: TLShape[]): CanvasItem[] {
       };
 
       for (const otherShape of shapes) {
-        if (otherShape.id === shape.id) continue;
+        if (otherShape.id === shape.id || otherShape.type === 'arrow' || otherShape.meta?.[SWIMLANE_META_KEY]) continue;
+
+        if (otherShape.parentId === shape.id) {
+          children.push(otherShape.id);
+          continue;
+        }
 
         const otherProps = otherShape.props as BaseInfraShapeProps;
         if (otherProps?.isBoundingBox) continue; // Skip other containers
+        if (isContainerShape(otherShape.parentId)) continue; // Already nested elsewhere
 
         // Check if the other shape is contained within this bounding box
         const otherCenterX = otherShape.x + (otherProps?.w || 0) / 2;
@@ -120,7 +161,7 @@ export function convertShapesToCanvasItems(shapes: TLShape[]): CanvasItem[] {
     }
 
     // For non-bounding boxes, find their parent
-    if (!props.isBoundingBox) {
+    if (!props.isBoundingBox && !item.parentId) {
       const shapeCenterX = shape.x + (props.w || 0) / 2;
       const shapeCenterY = shape.y + (props.h || 0) / 2;
 
@@ -333,10 +374,17 @@ export function generateMermaidArchitecture(data: ExportData): string {
   // Add services grouped by containers
   const containers = items.filter((item) => item.isBoundingBox);
   const resources = items.filter((item) => !item.isBoundingBox);
-  // Add groups for containers
-  for (const container of containers) {
-    const cleanId = container.id.replace(/[^a-zA-Z0-9_]/g, '_');
-    mermaid += `    group ${cleanId}(cloud)[${container.label}]\n`;
+  const containerIds = new Set(containers.map((container) => container.id));
+  const groupSpec = (item: CanvasItem) =>
+    item.parentId && containerIds.has(item.parentId) ? ` in ${mermaidId(item.parentId)}` : '';
+
+  // Add groups for containers, outer groups first so nested ones can refer to them
+  const depth = (item: CanvasItem): number => {
+    const parent = containers.find((container) => container.id === item.parentId);
+    return parent ? 1 + depth(parent) : 0;
+  };
+  for (const container of [...containers].sort((a, b) => depth(a) - depth(b))) {
+    mermaid += `    group ${mermaidId(container.id)}(cloud)[${container.label}]${groupSpec(container)}\n`;
   }
 
   if (containers.length > 0) {
@@ -345,49 +393,26 @@ export function generateMermaidArchitecture(data: ExportData): string {
 
   // Add services
   for (const resource of resources) {
-    const resourceType = resource.key.split('-')[0];
-    let icon = 'server';
-
-    // Map resource types to icons
-    switch (resourceType) {
-      case 'compute':
-        icon = 'server';
-        break;
-      case 'database':
-        icon = 'database';
-        break;
-      case 'storage':
-        icon = 'disk';
-        break;
-      case 'user':
-        icon = 'server'; // architecture doesn't have user icon, fallback to server
-        break;
-      case 'external-system':
-        icon = 'cloud';
-        break;
-      default:
-        icon = 'server';
-    }
+    const icon = MERMAID_ARCHITECTURE_ICONS[mermaidKind(mermaidComponentId(resource))];
+    mermaid += `    service ${mermaidId(resource.id)}(${icon})[${resource.label}]${groupSpec(resource)}\n`;
+  }
 
-    const cleanId = resource.id.replace(/[^a-zA-Z0-9_]/g, '_');
-    const cleanParentId = resource.parentId
-      ? resource.parentId.replace(/[^a-zA-Z0-9_]/g, '_')
-      : '';
-    const groupSpec = cleanParentId ? ` in ${cleanParentId}` : '';
-    mermaid += `    service ${cleanId}(${icon})[${resource.label}]${groupSpec}\n`;
+  // Architecture diagrams have no classes and only a few icons, so comments name the component
+  // of every group and service for importMermaid
+  if (items.length > 0) {
+    mermaid += '\n';
+    for (const item of [...containers, ...resources]) {
+      mermaid += `    %% component ${mermaidId(item.id)} ${mermaidComponentId(item)}\n`;
+    }
   }
 
   // Add connections using proper architecture syntax
   if (connections.length > 0) {
     mermaid += '\n';
     for (const connection of connections) {
-      // Clean connection IDs for valid syntax
-      const cleanFrom = connection.from.replace(/[^a-zA-Z0-9_]/g, '_');
-      const cleanTo = connection.to.replace(/[^a-zA-Z0-9_]/g, '_');
-
       // Architecture diagrams use specific directional syntax
       // For simplicity, we'll use Right to Left connections
-      mermaid += `    ${cleanFrom}:R --> L:${cleanTo}\n`;
+      mermaid += `    ${mermaidId(connection.from)}:R --> L:${mermaidId(connection.to)}\n`;
     }
   }
 
@@ -399,127 +424,9 @@ export function generateJSON(data: ExportData): string {
   return JSON.stringify(data, null, 2);
 }
 
-// Generate basic Terraform configuration
-export function generateTerraform(data: ExportData): string {
-  const { items } = data;
-
-  let terraform = `# Generated Terraform configuration
-# This is a basic template - you'll need to customize it for your specific needs
-
-terraform {
-  required_providers {
-    aws = {
-      source  = "hashicorp/aws"
-      version = "~> 5.0"
-    }
-  }
-}
-
-provider "aws" {
-  region = var.region
-}
-
-variable "region" {
-  description = "AWS region"
-  type        = string
-  default     = "us-west-2"
-}
-
-`;
-
-  // Generate resources based on the canvas items
-  for (const item of items) {
-    const resourceType = item.key.split('-')[0];
-
-    switch (resourceType) {
-      case 'vpc':
-        terraform += `
-resource "aws_vpc" "${item.id.replace('-', '_')}" {
-  cidr_block           = "${item.properties?.cidrBlock || '10.0.0.0/16'}"
-  enable_dns_hostnames = true
-  enable_dns_support   = true
-  
-  tags = {
-    Name = "${item.label}"
-  }
-}
-`;
-        break;
-
-      case 'subnet':
-        terraform += `
-resource "aws_subnet" "${item.id.replace('-', '_')}" {
-  vpc_id     = aws_vpc.${item.parentId?.replace('-', '_') || 'main_vpc'}.id
-  cidr_block = "${item.properties?.cidrBlock || '10.0.1.0/24'}"
-  
-  tags = {
-    Name = "${item.label}"
-  }
-}
-`;
-        break;
-
-      case 'compute':
-        terraform += `
-resource "aws_instance" "${item.id.replace('-', '_')}" {
-  ami           = data.aws_ami.ubuntu.id
-  instance_type = "${item.properties?.instanceType || 't3.micro'}"
-  ${
-    item.parentId
-      ? `subnet_id     = aws_subnet.${item.parentId.replace('-', '_')}.id`
-      : ''
-  }
-  
-  tags = {
-    Name = "${item.label}"
-  }
-}
-`;
-        break;
-
-      case 'database':
-        terraform += `
-resource "aws_db_instance" "${item.id.replace('-', '_')}" {
-  identifier     = "${item.label.toLowerCase().replace(/[^a-z0-9-]/g, '-')}"
-  engine         = "${item.properties?.engine || 'mysql'}"
-  engine_version = "8.0"
-  instance_class = "db.t3.micro"
-  allocated_storage = 20
-  
-  db_name  = "database"
-  username = "admin"
-  password = "changeme123!"
-  
-  skip_final_snapshot = true
-  
-  tags = {
-    Name = "${item.label}"
-  }
-}
-`;
-        break;
-    }
-  }
-
-  terraform += `
-# Data source for Ubuntu AMI
-data "aws_ami" "ubuntu" {
-  most_recent = true
-  owners      = ["099720109477"] # Canonical
-  
-  filter {
-    name   = "name"
-    values = ["ubuntu/images/hvm-ssd/ubuntu-jammy-22.04-amd64-server-*"]
-  }
-  
-  filter {
-    name   = "virtualization-type"
-    values = ["hvm"]
-  }
-}
-`;
-
-  return terraform;
+// Generate the Terraform project as one text preview; the download is a zip of the same files
+export function generateTerraform(data: ExportData, provider: Provider = 'generic'): string {
+  return serializeTerraformProject(generateTerraformProject(buildModelFromCanvas(data), provider));
 }
 
 // Generate simple Mermaid flowchart as fallback
@@ -529,45 +436,139 @@ export function generateMermaidFlowchart(data: ExportData): string {
   let mermaid = `flowchart TD
 `;
 
-  // Add nodes
-  for (const item of items) {
-    const cleanId = item.id.replace(/[^a-zA-Z0-9_]/g, '_');
-    const shape = item.isBoundingBox ? '[]' : '()';
-    mermaid += `    ${cleanId}${shape[0]}"${item.label}"${shape[1]}\n`;
-  }
+  // Add nodes, with containers as subgraphs around their children
+  const containerIds = new Set(items.filter((item) => item.isBoundingBox).map((item) => item.id));
+  const addNodes = (parentId: string | undefined, indent: string) => {
+    for (const item of items) {
+      const itemParent = item.parentId && containerIds.has(item.parentId) ? item.parentId : undefined;
+      if (itemParent !== parentId) continue;
+
+      const label = item.label.replace(/"/g, '#quot;');
+      if (item.isBoundingBox) {
+        mermaid += `${indent}subgraph ${mermaidId(item.id)}["${label}"]\n`;
+        addNodes(item.id, `${indent}    `);
+        mermaid += `${indent}end\n`;
+      } else {
+        const [open, close] = MERMAID_FLOWCHART_SHAPES[mermaidKind(mermaidComponentId(item))];
+        mermaid += `${indent}${mermaidId(item.id)}${open}"${label}"${close}\n`;
+      }
+    }
+  };
+  addNodes(undefined, '    ');
 
   // Add connections
   if (connections.length > 0) {
     mermaid += '\n';
     for (const connection of connections) {
-      const cleanFrom = connection.from.replace(/[^a-zA-Z0-9_]/g, '_');
-      const cleanTo = connection.to.replace(/[^a-zA-Z0-9_]/g, '_');
-      const label = connection.label ? `|${connection.label}|` : '';
-      mermaid += `    ${cleanFrom} --> ${label} ${cleanTo}\n`;
+      const label = connection.label ? `|${connection.label.replace(/\|/g, '#124;')}|` : '';
+      mermaid += `    ${mermaidId(connection.from)} -->${label} ${mermaidId(connection.to)}\n`;
+    }
+  }
+
+  // Classes name the component so importMermaid can restore it exactly
+  const classes = new Map<string, string[]>();
+  for (const item of items) {
+    const className = mermaidComponentId(item).replace(/-/g, '_');
+    classes.set(className, [...(classes.get(className) ?? []), mermaidId(item.id)]);
+  }
+  if (classes.size > 0) {
+    mermaid += '\n';
+    for (const [className, ids] of classes) {
+      mermaid += `    class ${ids.join(',')} ${className}\n`;
     }
   }
 
   return mermaid;
 }
 
+// Mermaid node shapes and architecture icons for each kind of component; importMermaid reads them back
+type MermaidKind = 'compute' | 'database' | 'storage' | 'user' | 'external-system' | 'load-balancer';
+
+const MERMAID_FLOWCHART_SHAPES: Record<MermaidKind, [string, string]> = {
+  compute: ['(', ')'],
+  database: ['[(', ')]'],
+  storage: ['[/', '/]'],
+  user: ['((', '))'],
+  'external-system': ['{{', '}}'],
+  'load-balancer': ['{', '}'],
+};
+
+// Architecture diagrams only have a few built-in icons; internet stands in for users
+const MERMAID_ARCHITECTURE_ICONS: Record<MermaidKind, string> = {
+  compute: 'server',
+  database: 'database',
+  storage: 'disk',
+  user: 'internet',
+  'external-system': 'cloud',
+  'load-balancer': 'server',
+};
+
+function mermaidId(id: string): string {
+  return id.replace(/[^a-zA-Z0-9_]/g, '_');
+}
+
+function mermaidComponentId(item: CanvasItem): string {
+  return resolveComponentId(String(item.properties?.componentId || item.key.split('-shape:')[0]));
+}
+
+function mermaidKind(componentId: string): MermaidKind {
+  const base = componentId.replace(/^generic-/, '');
+  if (base in MERMAID_FLOWCHART_SHAPES) return base as MermaidKind;
+
+  const metadata = ComponentRegistry.getInstance().getComponent(componentId);
+  if (metadata?.subcategory === ComponentSubcategory.LOAD_BALANCER) return 'load-balancer';
+  if (metadata?.category === ComponentCategory.DATABASE) return 'database';
+  if (metadata?.category === ComponentCategory.STORAGE) return 'storage';
+  return 'compute';
+}
+
 // Main export function
-export function exportCanvas(
+function collectExportData(
   format: string,
   editor: ReturnType<typeof useEditor>,
   shapes: TLShape[]
-): string {
-  const items = convertShapesToCanvasItems(shapes);
-  const connections = extractConnectionsFromArrows(editor, shapes);
-
-  const data: ExportData = {
-    items,
-    connections,
+): ExportData {
+  return {
+    items: convertShapesToCanvasItems(shapes),
+    connections: extractConnectionsFromArrows(editor, shapes),
     metadata: {
       exportedAt: new Date().toISOString(),
       format,
       version: '1.0.0',
     },
   };
+}
+
+// Formats with a zip extension are multi-file projects; exportCanvas returns their text preview
+export function exportCanvasArchive(
+  format: string,
+  editor: ReturnType<typeof useEditor>,
+  shapes: TLShape[],
+  provider: Provider = 'generic'
+): Uint8Array {
+  const model = buildModelFromCanvas(collectExportData(format, editor, shapes));
+
+  switch (format) {
+    case 'terraform':
+      return zipTerraformProject(generateTerraformProject(model, provider));
+    case 'pulumi':
+      return zipPulumiProject(generatePulumiProject(model, provider));
+    case 'helm': {
+      const chart = generateHelmChart(model);
+      return zipFiles(chart.name, chart.files);
+    }
+    default:
+      throw new Error(`Unsupported archive format: ${format}`);
+  }
+}
+
+export function exportCanvas(
+  format: string,
+  editor: ReturnType<typeof useEditor>,
+  shapes: TLShape[],
+  provider: Provider = 'generic'
+): string {
+  const data = collectExportData(format, editor, shapes);
 
   switch (format) {
     case 'mermaid-c4':
@@ -579,7 +580,25 @@ export function exportCanvas(
     case 'json':
       return generateJSON(data);
     case 'terraform':
-      return generateTerraform(data);
+      return generateTerraform(data, provider);
+    case 'cloudformation-yaml':
+      return generateCloudFormation(buildModelFromCanvas(data), 'yaml');
+    case 'cloudformation-json':
+      return generateCloudFormation(buildModelFromCanvas(data), 'json');
+    case 'arm':
+      return generateArmTemplate(buildModelFromCanvas(data));
+    case 'bicep':
+      return generateBicep(buildModelFromCanvas(data));
+    case 'pulumi':
+      return serializePulumiProject(generatePulumiProject(buildModelFromCanvas(data), provider));
+    case 'kubernetes':
+      return generateKubernetesManifests(buildModelFromCanvas(data));
+    case 'helm':
+      return serializeFiles(generateHelmChart(buildModelFromCanvas(data)).files);
+    case 'docker-compose':
+      return generateComposeFile(buildModelFromCanvas(data));
+    case 'structurizr':
+      return generateStructurizrWorkspace(buildModelFromCanvas(data));
     default:
       throw new Error(`Unsupported export format: ${format}`);
   }
@@ -588,18 +607,23 @@ export function exportCanvas(
 // Hook to get canvas data from tldraw editor
 export function useCanvasExport() {
   const editor = useEditor();
+  const provider = useAtomValue(providerAtom);
   const exportToFormat = (format: string) => {
     const shapes = editor.getCurrentPageShapes();
-    return exportCanvas(format, editor, shapes);
+    return exportCanvas(format, editor, shapes, provider);
   };
 
   const downloadExport = (format: string, filename?: string) => {
-    const content = exportToFormat(format);
     const exportFormat = EXPORT_FORMATS.find((f) => f.id === format);
     const extension = exportFormat?.extension || 'txt';
     const defaultFilename = `infrastructure-diagram.${extension}`;
 
-    const blob = new Blob([content], { type: 'text/plain' });
+    const blob =
+      extension === 'zip'
+        ? new Blob([exportCanvasArchive(format, editor, editor.getCurrentPageShapes(), provider)], {
+            type: 'application/zip',
+          })
+        : new Blob([exportToFormat(format)], { type: 'text/plain' });
     const url = URL.createObjectURL(blob);
     const a = document.createElement('a');
     a.href = url;
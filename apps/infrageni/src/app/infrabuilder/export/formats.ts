@@ -32,8 +32,62 @@ export const EXPORT_FORMATS: ExportFormat[] = [
   },
   {
     id: 'terraform',
-    name: 'Terraform (Basic)',
-    extension: 'tf',
-    description: 'Basic Terraform configuration (experimental)',
+    name: 'Terraform',
+    extension: 'zip',
+    description: 'Terraform configuration with providers, variables, outputs and a module per VPC',
+  },
+  {
+    id: 'cloudformation-yaml',
+    name: 'CloudFormation (YAML)',
+    extension: 'yaml',
+    description: 'AWS CloudFormation template with parameters and outputs',
+  },
+  {
+    id: 'cloudformation-json',
+    name: 'CloudFormation (JSON)',
+    extension: 'json',
+    description: 'AWS CloudFormation template in JSON syntax',
+  },
+  {
+    id: 'arm',
+    name: 'Azure Resource Manager (ARM)',
+    extension: 'json',
+    description: 'ARM JSON deployment template for the Azure resources',
+  },
+  {
+    id: 'bicep',
+    name: 'Bicep',
+    extension: 'bicep',
+    description: 'Bicep file for the Azure resources',
+  },
+  {
+    id: 'pulumi',
+    name: 'Pulumi (TypeScript)',
+    extension: 'zip',
+    description: 'Pulumi project with index.ts, Pulumi.yaml and stack config for the selected provider',
+  },
+  {
+    id: 'kubernetes',
+    name: 'Kubernetes Manifests',
+    extension: 'yaml',
+    description: 'Deployments, Services, ConfigMaps and Ingresses for the container workloads',
+  },
+  {
+    id: 'helm',
+    name: 'Helm Chart',
+    extension: 'zip',
+    description: 'Helm chart for the container workloads with values.yaml from the pattern parameters',
+  },
+  {
+    id: 'docker-compose',
+    name: 'Docker Compose',
+    extension: 'yml',
+    description: 'docker-compose file running the container workloads locally, with networks and volumes',
+  },
+  {
+    id: 'structurizr',
+    name: 'Structurizr DSL',
+    extension: 'dsl',
+    description: 'C4 model workspace with system context, container and deployment views',
   },
 ];
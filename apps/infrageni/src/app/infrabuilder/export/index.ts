@@ -1,5 +1,13 @@
 export * from './export-utils';
 export * from './formats';
+export * from './resource-model';
+export * from './cloudformation';
+export * from './azure-templates';
+export * from './terraform';
+export * from './pulumi';
+export * from './kubernetes';
+export * from './structurizr';
+export * from './archive';
 export * from './export-dialog';
 export * from './enhanced-export-dialog';
 export * from './export-examples';
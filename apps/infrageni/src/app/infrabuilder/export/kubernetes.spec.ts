@@ -0,0 +1,123 @@
+import { parse, parseAllDocuments } from 'yaml';
+import { ComponentRegistry } from '../components/core/component-registry';
+import { generateHelmChart, generateKubernetesManifests } from './kubernetes';
+import { ResourceModel } from './resource-model';
+import { canvasModel, item } from './test-canvas';
+
+interface Manifest {
+  kind: string;
+  metadata: { name: string; namespace?: string };
+  spec?: Record<string, unknown>;
+  data?: Record<string, string>;
+}
+
+function manifests(text: string): Manifest[] {
+  return parseAllDocuments(text).map(document => document.toJS() as Manifest);
+}
+
+// Built once the registry is initialized, so resources carry their component metadata
+function shopModel(): ResourceModel {
+  return canvasModel(
+    [
+      item('lb', 'Public LB', 'generic-load-balancer'),
+      item('web', 'Web', 'generic-compute', undefined, { containerized: true, image: 'shop/web:1', replicas: 2, maxInstances: 5 }),
+      item('api', 'Api', 'gcp-cloud-run', undefined, { image: 'shop/api:1' }),
+      item('db', 'Orders DB', 'generic-database')
+    ],
+    [
+      { id: 'c1', from: 'lb', to: 'web' },
+      { id: 'c2', from: 'lb', to: 'api', label: '/api' },
+      { id: 'c3', from: 'web', to: 'api' },
+      { id: 'c4', from: 'web', to: 'db' }
+    ]
+  );
+}
+
+describe('generateKubernetesManifests', () => {
+  let shop: ResourceModel;
+
+  beforeAll(async () => {
+    await ComponentRegistry.getInstance().initialize();
+    shop = shopModel();
+  });
+
+  it('writes a Deployment and Service per workload and an autoscaler for scale-out limits', () => {
+    const documents = manifests(generateKubernetesManifests(shop, { namespace: 'shop' }));
+
+    expect(documents.map(document => `${document.kind}/${document.metadata.name}`)).toEqual([
+      'ConfigMap/web-config',
+      'Deployment/web',
+      'Service/web',
+      'HorizontalPodAutoscaler/web',
+      'Deployment/api',
+      'Service/api',
+      // Cloud Run scales out to 100 instances by default
+      'HorizontalPodAutoscaler/api',
+      'Ingress/public-lb'
+    ]);
+    expect(documents.every(document => document.metadata.namespace === 'shop')).toBe(true);
+    expect(documents[1].spec).toMatchObject({ replicas: 2 });
+    expect(documents[3].spec).toMatchObject({ minReplicas: 2, maxReplicas: 5 });
+  });
+
+  it('points workloads at each other by in-cluster URL and at everything else by placeholder host', () => {
+    const text = generateKubernetesManifests(shop, { namespace: 'shop' });
+    const config = manifests(text).find(document => document.kind === 'ConfigMap');
+
+    expect(config?.data).toEqual({ API_URL: 'http://api.shop.svc:80', ORDERS_DB_HOST: 'orders-db' });
+    expect(text).toContain('# - ConfigMap entries for Orders DB hold placeholder hosts; those resources run outside the cluster');
+  });
+
+  it('routes ingress paths from arrow labels, with a path per backend otherwise', () => {
+    const ingress = manifests(generateKubernetesManifests(shop)).find(document => document.kind === 'Ingress');
+    const rules = ingress?.spec?.rules as { http: { paths: { path: string; backend: { service: { name: string } } }[] } }[];
+
+    expect(rules[0].http.paths.map(path => [path.path, path.backend.service.name])).toEqual([['/web', 'web'], ['/api', 'api']]);
+  });
+
+  it('warns when the diagram has no container workloads', () => {
+    expect(generateKubernetesManifests(canvasModel([item('db', 'Orders DB', 'generic-database')]))).toContain(
+      '# - The diagram has no container workloads (ECS, Cloud Run, container instances or containerized compute)'
+    );
+  });
+});
+
+describe('generateHelmChart', () => {
+  let shop: ResourceModel;
+
+  beforeAll(async () => {
+    await ComponentRegistry.getInstance().initialize();
+    shop = shopModel();
+  });
+
+  it('moves replicas, images and endpoints into values.yaml', () => {
+    const chart = generateHelmChart(shop);
+    const values = parse(chart.files['values.yaml']);
+
+    expect(chart.name).toBe('shop');
+    expect(Object.keys(chart.files)).toEqual(['Chart.yaml', 'values.yaml', 'templates/web.yaml', 'templates/api.yaml', 'templates/public-lb-ingress.yaml']);
+    expect(values).toMatchObject({
+      endpoints: { ordersDB: 'orders-db' },
+      workloads: {
+        web: { replicaCount: 2, image: 'shop/web:1', maxReplicas: 5 },
+        api: { replicaCount: 1, image: 'shop/api:1', maxReplicas: 100 }
+      }
+    });
+    expect(chart.files['templates/web.yaml']).toContain('replicas: {{ .Values.workloads.web.replicaCount }}');
+    expect(chart.files['templates/web.yaml']).toMatch(/resources:\n\s+\{\{- toYaml \.Values\.workloads\.web\.resources \| nindent \d+ \}\}/);
+    expect(chart.files['templates/web.yaml']).toContain('ORDERS_DB_HOST: {{ .Values.endpoints.ordersDB | quote }}');
+  });
+
+  it('reads values that come from pattern parameters from the parameter', () => {
+    const chart = generateHelmChart({
+      ...canvasModel([item('web', 'Web', 'generic-compute', undefined, { containerized: true, replicas: `\${web_replicas}` })]),
+      parameters: [{ id: 'web_replicas', name: 'Web replicas', description: '', type: 'number', required: false, defaultValue: 3, affects: ['web'] }]
+    });
+
+    const values = parse(chart.files['values.yaml']);
+
+    expect(values.webReplicas).toBe(3);
+    expect(values.workloads.web).not.toHaveProperty('replicaCount');
+    expect(chart.files['templates/web.yaml']).toContain('replicas: {{ .Values.webReplicas }}');
+  });
+});
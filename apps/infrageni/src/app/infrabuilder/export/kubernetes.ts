@@ -0,0 +1,510 @@
+import { stringify } from 'yaml';
+import { ComponentCategory, ComponentSubcategory } from '../components/core/component-types';
+import { PatternParameter } from '../patterns/core/pattern-types';
+import { ModelResource, ResourceModel } from './resource-model';
+import { constantCase, kebabCase } from './naming';
+
+// Kubernetes export for the container workloads of a diagram.
+// Each workload becomes a Deployment and a ClusterIP Service, arrows between workloads become
+// ConfigMap entries with the target's in-cluster URL, and load balancer or API gateway shapes
+// with arrows to workloads become Ingresses. The Helm variant moves replicas, images, resources,
+// endpoints and pattern parameters into values.yaml.
+
+export interface KubernetesExportOptions {
+  namespace?: string;
+}
+
+export interface HelmChart {
+  name: string;
+  files: Record<string, string>;
+  warnings: string[];
+}
+
+const SERVICE_PORT = 80;
+
+// Components fronting HTTP traffic that turn into Ingress resources
+const INGRESS_COMPONENTS = [
+  'aws-alb',
+  'aws-api-gateway',
+  'azure-application-gateway',
+  'gcp-cloud-load-balancing',
+  'generic-load-balancer',
+  'generic-api-gateway'
+];
+
+// Default container ports of the runtimes the workloads come from
+const CONTAINER_PORTS: Record<string, number> = {
+  'gcp-cloud-run': 8080
+};
+
+// Multi-document manifest YAML, namespaced when options.namespace is set
+export function generateKubernetesManifests(model: ResourceModel, options: KubernetesExportOptions = {}): string {
+  const builder = new KubernetesManifestBuilder(model, 'manifest', options.namespace);
+  const result = builder.build();
+
+  const header = result.warnings.length > 0
+    ? ['# Export warnings:', ...result.warnings.map(warning => `# - ${warning}`), ''].join('\n')
+    : '';
+
+  return header + result.documents.map(document => builder.render([document.manifest])).join('---\n');
+}
+
+// Helm chart with one template file per workload and ingress, and values.yaml driven by pattern parameters
+export function generateHelmChart(model: ResourceModel): HelmChart {
+  const builder = new KubernetesManifestBuilder(model, 'helm');
+  const result = builder.build();
+  const name = kebabCase(model.name) || 'infrastructure';
+
+  const files: Record<string, string> = {
+    'Chart.yaml': stringify({
+      apiVersion: 'v2',
+      name,
+      description: model.description || `Helm chart for ${model.name}`,
+      type: 'application',
+      version: '0.1.0',
+      appVersion: '1.0.0'
+    })
+  };
+
+  const header = [
+    `# Default values for ${name}.`,
+    ...(result.warnings.length > 0 ? ['#', '# Export warnings:', ...result.warnings.map(warning => `# - ${warning}`)] : []),
+    ''
+  ].join('\n');
+  files['values.yaml'] = header + stringify(result.values);
+
+  const byFile = new Map<string, KubernetesManifest[]>();
+  for (const document of result.documents) {
+    const file = `templates/${document.file}.yaml`;
+    byFile.set(file, [...(byFile.get(file) || []), document.manifest]);
+  }
+  for (const [file, manifests] of byFile) {
+    files[file] = builder.render(manifests);
+  }
+
+  return { name, files, warnings: result.warnings };
+}
+
+class KubernetesManifestBuilder {
+  private documents: KubernetesDocument[] = [];
+  private values: Record<string, unknown> = {};
+  private warnings: string[] = [];
+  private workloads = new Map<string, KubernetesWorkload>();
+  private names = new Set<string>();
+  private valueKeys = new Set<string>();
+  private templates: string[] = [];
+  private externalTargets: string[] = [];
+  private chartName: string;
+
+  constructor(private model: ResourceModel, private mode: 'manifest' | 'helm', private namespace?: string) {
+    this.chartName = kebabCase(model.name) || 'infrastructure';
+  }
+
+  build(): { documents: KubernetesDocument[]; values: Record<string, unknown>; warnings: string[] } {
+    if (this.mode === 'helm') {
+      for (const parameter of this.model.parameters) {
+        this.values[toCamelCase(parameter.id)] = parameter.defaultValue ?? null;
+      }
+    }
+
+    for (const resource of this.model.resources) {
+      if (isWorkload(resource)) {
+        const name = this.uniqueName(kebabCase(resource.name) || kebabCase(resource.logicalName) || 'app');
+        this.workloads.set(resource.id, {
+          resource,
+          name,
+          valuesKey: this.uniqueValuesKey(toCamelCase(name)),
+          port: containerPort(resource) ?? SERVICE_PORT
+        });
+      }
+    }
+
+    if (this.workloads.size === 0) {
+      this.warnings.push('The diagram has no container workloads (ECS, Cloud Run, container instances or containerized compute)');
+    }
+
+    for (const workload of this.workloads.values()) {
+      this.addWorkload(workload);
+    }
+
+    for (const resource of this.model.resources) {
+      if (INGRESS_COMPONENTS.includes(resource.componentId)) {
+        this.addIngress(resource);
+      }
+    }
+
+    if (this.externalTargets.length > 0) {
+      this.warnings.push(this.mode === 'helm'
+        ? `Set the endpoints in values.yaml for ${this.externalTargets.join(', ')}, which run outside the cluster`
+        : `ConfigMap entries for ${this.externalTargets.join(', ')} hold placeholder hosts; those resources run outside the cluster`);
+    }
+
+    return { documents: this.documents, values: this.values, warnings: this.warnings };
+  }
+
+  // YAML documents with Helm template placeholders swapped in
+  render(manifests: KubernetesManifest[]): string {
+    return manifests
+      .map(manifest => stringify(manifest, { lineWidth: 0, aliasDuplicateObjects: false }))
+      .join('---\n')
+      .replace(/^( *)([\w.-]+): __block_(\d+)__$/gm, (_match, indent: string, key: string, index: string) =>
+        `${indent}${key}:\n${indent}  {{- ${this.templates[Number(index)]} | nindent ${indent.length + 2} }}`
+      )
+      .replace(/__template_(\d+)__/g, (_match, index: string) => `{{ ${this.templates[Number(index)]} }}`);
+  }
+
+  private addWorkload(workload: KubernetesWorkload): void {
+    const { resource, name, valuesKey, port } = workload;
+    const labels = this.labels(name);
+    const environment = this.environment(workload);
+    const workloadValues: Record<string, unknown> = {};
+
+    const replicas = this.replicaCount(resource);
+    const image = this.image(resource);
+    const resources = kubernetesResources(resource);
+
+    if (environment) {
+      this.documents.push({
+        file: name,
+        manifest: {
+          apiVersion: 'v1',
+          kind: 'ConfigMap',
+          metadata: this.metadata(`${name}-config`, labels),
+          data: environment
+        }
+      });
+    }
+
+    let replicasValue: unknown = replicas.value;
+    let imageValue: unknown = image.value;
+    let resourcesValue: unknown = resources;
+    if (this.mode === 'helm') {
+      // Values that came from a pattern parameter already point at it
+      if (replicas.parameter) {
+        replicasValue = this.template(`.Values.${replicas.parameter}`);
+      } else {
+        workloadValues.replicaCount = replicas.value;
+        replicasValue = this.template(`.Values.workloads.${valuesKey}.replicaCount`);
+      }
+      if (image.parameter) {
+        imageValue = this.template(`.Values.${image.parameter} | quote`);
+      } else {
+        workloadValues.image = image.value;
+        imageValue = this.template(`.Values.workloads.${valuesKey}.image | quote`);
+      }
+      if (resources) {
+        workloadValues.resources = resources;
+        resourcesValue = this.block(`toYaml .Values.workloads.${valuesKey}.resources`);
+      }
+    }
+
+    this.documents.push({
+      file: name,
+      manifest: {
+        apiVersion: 'apps/v1',
+        kind: 'Deployment',
+        metadata: this.metadata(name, labels),
+        spec: {
+          replicas: replicasValue,
+          selector: { matchLabels: { 'app.kubernetes.io/name': name } },
+          template: {
+            metadata: { labels },
+            spec: {
+              containers: [compact({
+                name,
+                image: imageValue,
+                ports: [{ name: 'http', containerPort: port }],
+                envFrom: environment ? [{ configMapRef: { name: `${name}-config` } }] : undefined,
+                resources: resourcesValue
+              })]
+            }
+          }
+        }
+      }
+    });
+
+    this.documents.push({
+      file: name,
+      manifest: {
+        apiVersion: 'v1',
+        kind: 'Service',
+        metadata: this.metadata(name, labels),
+        spec: {
+          type: 'ClusterIP',
+          selector: { 'app.kubernetes.io/name': name },
+          ports: [{ name: 'http', port: SERVICE_PORT, targetPort: 'http' }]
+        }
+      }
+    });
+
+    // Scale-out limits become an autoscaler on top of the base replica count
+    const maxReplicas = Number(this.resolve(resource, 'maxInstances').value);
+    if (maxReplicas > 0 && typeof replicas.value === 'number' && maxReplicas > replicas.value) {
+      let maxValue: unknown = maxReplicas;
+      if (this.mode === 'helm') {
+        workloadValues.maxReplicas = maxReplicas;
+        maxValue = this.template(`.Values.workloads.${valuesKey}.maxReplicas`);
+      }
+      this.documents.push({
+        file: name,
+        manifest: {
+          apiVersion: 'autoscaling/v2',
+          kind: 'HorizontalPodAutoscaler',
+          metadata: this.metadata(name, labels),
+          spec: {
+            scaleTargetRef: { apiVersion: 'apps/v1', kind: 'Deployment', name },
+            minReplicas: replicasValue,
+            maxReplicas: maxValue,
+            metrics: [{ type: 'Resource', resource: { name: 'cpu', target: { type: 'Utilization', averageUtilization: 70 } } }]
+          }
+        }
+      });
+    }
+
+    if (this.mode === 'helm' && Object.keys(workloadValues).length > 0) {
+      const workloadsValues = (this.values.workloads || {}) as Record<string, unknown>;
+      workloadsValues[valuesKey] = workloadValues;
+      this.values.workloads = workloadsValues;
+    }
+  }
+
+  private addIngress(resource: ModelResource): void {
+    const backends: { workload: KubernetesWorkload; path?: string }[] = [];
+    for (const link of this.model.links) {
+      const otherId = link.from === resource.id ? link.to : link.to === resource.id ? link.from : undefined;
+      const workload = otherId ? this.workloads.get(otherId) : undefined;
+      if (workload && !backends.some(backend => backend.workload === workload)) {
+        backends.push({ workload, path: link.label?.startsWith('/') ? link.label : undefined });
+      }
+    }
+    if (backends.length === 0) {
+      this.warnings.push(`${resource.name} has no arrow to a container workload, so no Ingress was generated`);
+      return;
+    }
+
+    // A single backend takes all traffic, otherwise each gets a path named after it
+    const paths = backends.map(({ workload, path }) => ({
+      path: path || (backends.length === 1 ? '/' : `/${workload.name}`),
+      pathType: 'Prefix',
+      backend: { service: { name: workload.name, port: { name: 'http' } } }
+    }));
+
+    const name = this.uniqueName(kebabCase(resource.name) || 'ingress');
+    this.documents.push({
+      file: `${name}-ingress`,
+      manifest: {
+        apiVersion: 'networking.k8s.io/v1',
+        kind: 'Ingress',
+        metadata: this.metadata(name, this.labels(name)),
+        spec: { rules: [{ http: { paths } }] }
+      }
+    });
+  }
+
+  // ConfigMap data for arrows leaving the workload: in-cluster URLs for workloads, hosts for the rest
+  private environment(workload: KubernetesWorkload): Record<string, unknown> | undefined {
+    const data: Record<string, unknown> = {};
+
+    for (const link of this.model.links) {
+      if (link.from !== workload.resource.id) continue;
+      const target = this.model.resources.find(resource => resource.id === link.to);
+      // Registries only supply the image
+      if (!target || INGRESS_COMPONENTS.includes(target.componentId) || target.metadata?.subcategory === ComponentSubcategory.REGISTRY) {
+        continue;
+      }
+
+      const prefix = constantCase(target.logicalName);
+      const targetWorkload = this.workloads.get(target.id);
+      if (targetWorkload) {
+        const host = this.namespace ? `${targetWorkload.name}.${this.namespace}.svc` : targetWorkload.name;
+        data[`${prefix}_URL`] = `http://${host}:${SERVICE_PORT}`;
+        continue;
+      }
+
+      const placeholder = kebabCase(target.name) || kebabCase(target.logicalName);
+      if (!this.externalTargets.includes(target.name)) this.externalTargets.push(target.name);
+      if (this.mode === 'helm') {
+        const key = toCamelCase(target.logicalName);
+        const endpoints = (this.values.endpoints || {}) as Record<string, unknown>;
+        endpoints[key] = placeholder;
+        this.values.endpoints = endpoints;
+        data[`${prefix}_HOST`] = this.template(`.Values.endpoints.${key} | quote`);
+      } else {
+        data[`${prefix}_HOST`] = placeholder;
+      }
+    }
+
+    return Object.keys(data).length > 0 ? data : undefined;
+  }
+
+  private replicaCount(resource: ModelResource): ResolvedValue {
+    for (const propertyId of ['desiredCount', 'minInstances', 'replicas']) {
+      const resolved = this.resolve(resource, propertyId);
+      if (resolved.value !== undefined && resolved.value !== '') {
+        const count = Number(resolved.value);
+        return { value: Number.isFinite(count) && count >= 0 ? count : 1, parameter: resolved.parameter };
+      }
+    }
+    return { value: 1 };
+  }
+
+  // Image from the shape, or from the registry it has an arrow to
+  private image(resource: ModelResource): ResolvedValue {
+    const resolved = this.resolve(resource, 'image');
+    if (resolved.value) return { value: String(resolved.value), parameter: resolved.parameter };
+
+    for (const link of this.model.links) {
+      const target = link.from === resource.id ? this.model.resources.find(r => r.id === link.to) : undefined;
+      if (target?.metadata?.subcategory === ComponentSubcategory.REGISTRY) {
+        const repository = String(target.properties.repositoryName || kebabCase(target.name));
+        return { value: `${repository}:latest` };
+      }
+    }
+
+    return { value: 'nginx:latest' };
+  }
+
+  // Property value with ${parameter_id} references resolved to the parameter default
+  private resolve(resource: ModelResource, propertyId: string): ResolvedValue {
+    const value = resource.properties[propertyId];
+    const match = typeof value === 'string' ? value.match(/^\$\{([^}]+)\}$/) : null;
+    if (!match) return { value };
+
+    const parameter = this.model.parameters.find(p => p.id === match[1]);
+    if (!parameter) return { value };
+    if (parameter.defaultValue === undefined) {
+      this.warnings.push(`Parameter ${parameter.id} used by ${resource.name} has no default value`);
+    }
+    return { value: parameterValue(parameter), parameter: toCamelCase(parameter.id) };
+  }
+
+  private metadata(name: string, labels: Record<string, unknown>): Record<string, unknown> {
+    return compact({ name, namespace: this.mode === 'manifest' ? this.namespace : undefined, labels });
+  }
+
+  private labels(name: string): Record<string, unknown> {
+    const labels: Record<string, unknown> = {
+      'app.kubernetes.io/name': name,
+      'app.kubernetes.io/part-of': this.chartName
+    };
+    if (this.mode === 'helm') {
+      labels['app.kubernetes.io/instance'] = this.template('.Release.Name');
+      labels['app.kubernetes.io/managed-by'] = this.template('.Release.Service');
+    }
+    return labels;
+  }
+
+  // Placeholder for an inline {{ ... }} action, swapped in after YAML serialization
+  private template(action: string): string {
+    this.templates.push(action);
+    return `__template_${this.templates.length - 1}__`;
+  }
+
+  // Placeholder for a block rendered with nindent under its key
+  private block(action: string): string {
+    this.templates.push(action);
+    return `__block_${this.templates.length - 1}__`;
+  }
+
+  private uniqueName(base: string): string {
+    const trimmed = base.slice(0, 50).replace(/-+$/, '');
+    let name = trimmed;
+    for (let i = 2; this.names.has(name); i++) {
+      name = `${trimmed}-${i}`;
+    }
+    this.names.add(name);
+    return name;
+  }
+
+  private uniqueValuesKey(base: string): string {
+    let key = base;
+    for (let i = 2; this.valueKeys.has(key) || key in this.values; i++) {
+      key = `${base}${i}`;
+    }
+    this.valueKeys.add(key);
+    return key;
+  }
+}
+
+// Port the shape says the container listens on, or the default of the runtime it comes from
+export function containerPort(resource: ModelResource): number | undefined {
+  const port = Number(resource.properties.containerPort ?? resource.properties.port);
+  return port > 0 ? port : CONTAINER_PORTS[resource.componentId];
+}
+
+// Container services, clusters, and compute marked as containerized
+export function isWorkload(resource: ModelResource): boolean {
+  const metadata = resource.metadata;
+  if (metadata?.category === ComponentCategory.CONTAINERS) {
+    return metadata.subcategory !== ComponentSubcategory.REGISTRY;
+  }
+  if (/(^|-)(kubernetes|aks|gke|eks)(-|$)/.test(resource.componentId)) {
+    return true;
+  }
+  if (resource.componentId === 'generic-compute') {
+    const { containerized, type } = resource.properties;
+    return containerized === true || containerized === 'true' || /container/.test(String(type || ''));
+  }
+  return false;
+}
+
+// Requests and limits from the cpu/memory units each container service uses
+function kubernetesResources(resource: ModelResource): Record<string, Record<string, string>> | undefined {
+  const cpu = resource.properties.cpu ?? resource.properties.vCpus;
+  const memory = resource.properties.memory ?? resource.properties.memoryGb;
+  const requests: Record<string, string> = {};
+  const limits: Record<string, string> = {};
+
+  if (typeof cpu === 'string' && cpu && !cpu.includes('${')) {
+    requests.cpu = cpu;
+  } else if (typeof cpu === 'number' && cpu > 0) {
+    // ECS counts CPU units, 1024 to a vCPU
+    requests.cpu = resource.componentId === 'aws-ecs' || cpu > 64 ? `${Math.round((cpu * 1000) / 1024)}m` : String(cpu);
+  }
+
+  if (typeof memory === 'string' && /^\d+(\.\d+)?[KMGT]i?$/.test(memory)) {
+    requests.memory = limits.memory = memory;
+  } else if (typeof memory === 'number' && memory > 0) {
+    // ECS counts memory in MiB, the other services in GB
+    requests.memory = limits.memory = resource.componentId === 'aws-ecs' || memory > 64 ? `${memory}Mi` : `${memory}Gi`;
+  }
+
+  if (Object.keys(requests).length === 0) return undefined;
+  return Object.keys(limits).length > 0 ? { requests, limits } : { requests };
+}
+
+function parameterValue(parameter: PatternParameter): unknown {
+  return parameter.defaultValue ?? (parameter.type === 'number' ? 1 : '');
+}
+
+function compact(object: Record<string, unknown>): Record<string, unknown> {
+  return Object.fromEntries(Object.entries(object).filter(([, value]) => value !== undefined));
+}
+
+function toCamelCase(value: string): string {
+  const words = value.split(/[^a-zA-Z0-9]+/).filter(Boolean);
+  const name = words
+    .map((word, i) => (i === 0 ? word[0].toLowerCase() : word[0].toUpperCase()) + word.slice(1))
+    .join('');
+  return /^[a-zA-Z]/.test(name) ? name : `v${name}`;
+}
+
+// Helper types
+type KubernetesManifest = Record<string, unknown>;
+
+interface KubernetesDocument {
+  file: string;
+  manifest: KubernetesManifest;
+}
+
+interface KubernetesWorkload {
+  resource: ModelResource;
+  name: string;
+  valuesKey: string;
+  port: number;
+}
+
+interface ResolvedValue {
+  value: unknown;
+  parameter?: string;
+}
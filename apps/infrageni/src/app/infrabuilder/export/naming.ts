@@ -0,0 +1,15 @@
+// Name cases shared by the exporters and importers. Template placeholders such as {{region}}
+// are dropped, camelCase words are split and any other run of characters becomes one separator.
+
+export function kebabCase(value: string): string {
+  return value.replace(/\{\{[^}]*\}\}/g, '').replace(/([a-z0-9])([A-Z])/g, '$1-$2').toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '');
+}
+
+export function snakeCase(value: string): string {
+  return kebabCase(value).replace(/-/g, '_');
+}
+
+export function constantCase(value: string): string {
+  return snakeCase(value).toUpperCase();
+}
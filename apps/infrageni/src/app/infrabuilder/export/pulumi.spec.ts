@@ -0,0 +1,35 @@
+import { ComponentRegistry } from '../components/core/component-registry';
+import { CanvasItem } from '../types';
+import { generatePulumiProject } from './pulumi';
+import { canvasModel, item } from './test-canvas';
+
+function exportCanvas(items: CanvasItem[]) {
+  return generatePulumiProject(canvasModel(items), 'aws');
+}
+
+describe('generatePulumiProject', () => {
+  beforeAll(async () => {
+    await ComponentRegistry.getInstance().initialize();
+  });
+
+  it('gives a subnet named public an internet route when isPublic is left at its default', () => {
+    const index = exportCanvas([
+      item('vpc', 'Main VPC', 'generic-vpc'),
+      item('pub', 'Public Subnet', 'generic-subnet', 'vpc'),
+      item('priv', 'App Subnet', 'generic-subnet', 'vpc')
+    ]).files['index.ts'];
+    const declaration = (name: string) => index.slice(index.indexOf(`const ${name} = `), index.indexOf('});', index.indexOf(`const ${name} = `)));
+
+    expect(index).toContain('new aws.ec2.InternetGateway(');
+    expect(declaration('publicSubnet')).toContain('mapPublicIpOnLaunch: true');
+    expect(declaration('appSubnet')).toContain('mapPublicIpOnLaunch: false');
+    expect(index.match(/new aws\.ec2\.RouteTableAssociation\(/g)).toHaveLength(1);
+  });
+
+  it('writes a runnable project around index.ts', () => {
+    const project = exportCanvas([item('vpc', 'Main VPC', 'generic-vpc')]);
+
+    expect(Object.keys(project.files)).toEqual(expect.arrayContaining(['Pulumi.yaml', 'package.json', 'tsconfig.json', 'index.ts']));
+    expect(JSON.parse(project.files['package.json']).dependencies).toHaveProperty('@pulumi/aws');
+  });
+});
@@ -0,0 +1,1760 @@
+import { stringify } from 'yaml';
+import { Provider } from '../../lib/provider-atom';
+import { PatternParameter } from '../patterns/core/pattern-types';
+import { ModelResource, ResourceModel, getDominantProvider, getResourceAncestors, isPublicSubnet } from './resource-model';
+import { serializeFiles, zipFiles } from './archive';
+import { constantCase, kebabCase } from './naming';
+
+// Pulumi TypeScript project export for one cloud provider.
+// Resources are declared in dependency order (containers first, then arrow targets) so
+// every reference in index.ts points at a variable that already exists. Arrows become
+// environment variables, origins or targets where the resource has a slot for them and
+// a dependsOn option otherwise; pattern parameters become pulumi.Config lookups.
+
+export type PulumiCloud = Exclude<Provider, 'generic'>;
+
+export interface PulumiProject {
+  name: string;
+  cloud: PulumiCloud;
+  files: Record<string, string>;
+  warnings: string[];
+}
+
+const CLOUD_NAMES: Record<PulumiCloud, string> = {
+  aws: 'AWS',
+  azure: 'Azure',
+  gcp: 'Google Cloud'
+};
+
+const CLOUD_PACKAGES: Record<PulumiCloud, { module: string; alias: string; version: string }> = {
+  aws: { module: '@pulumi/aws', alias: 'aws', version: '^6.0.0' },
+  azure: { module: '@pulumi/azure-native', alias: 'azure', version: '^2.0.0' },
+  gcp: { module: '@pulumi/gcp', alias: 'gcp', version: '^7.0.0' }
+};
+
+const CLOUD_CONFIG: Record<PulumiCloud, Record<string, string>> = {
+  aws: { 'aws:region': 'us-east-1' },
+  azure: { 'azure-native:location': 'eastus' },
+  gcp: { 'gcp:project': 'my-project', 'gcp:region': 'us-central1', 'gcp:zone': 'us-central1-a' }
+};
+
+const TSCONFIG = {
+  compilerOptions: {
+    strict: true,
+    outDir: 'bin',
+    target: 'es2020',
+    module: 'commonjs',
+    moduleResolution: 'node',
+    sourceMap: true,
+    experimentalDecorators: true,
+    pretty: true,
+    noFallthroughCasesInSwitch: true,
+    noImplicitReturns: true,
+    forceConsistentCasingInFileNames: true
+  },
+  files: ['index.ts']
+};
+
+const RDS_ENGINES: Record<string, string> = {
+  mysql: 'mysql',
+  postgresql: 'postgres',
+  mariadb: 'mariadb',
+  oracle: 'oracle-se2',
+  sqlserver: 'sqlserver-ex'
+};
+
+const CLOUD_SQL_VERSIONS: Record<string, string> = {
+  mysql: 'MYSQL_8_0',
+  postgresql: 'POSTGRES_16',
+  sqlserver: 'SQLSERVER_2019_EXPRESS'
+};
+
+const LAMBDA_RUNTIMES: Record<string, string> = {
+  nodejs: 'nodejs20.x',
+  python: 'python3.12',
+  java: 'java21',
+  dotnet: 'dotnet8',
+  go: 'provided.al2023',
+  ruby: 'ruby3.3'
+};
+
+const GCF_RUNTIMES: Record<string, string> = {
+  nodejs: 'nodejs20',
+  python: 'python312',
+  java: 'java17',
+  go: 'go122',
+  dotnet: 'dotnet8',
+  ruby: 'ruby32'
+};
+
+const AZURE_FUNCTION_STACKS: Record<string, { linuxFxVersion: string; workerRuntime: string }> = {
+  dotnet: { linuxFxVersion: 'DOTNET-ISOLATED|8.0', workerRuntime: 'dotnet-isolated' },
+  node: { linuxFxVersion: 'Node|20', workerRuntime: 'node' },
+  python: { linuxFxVersion: 'Python|3.11', workerRuntime: 'python' },
+  java: { linuxFxVersion: 'Java|17', workerRuntime: 'java' },
+  powershell: { linuxFxVersion: 'PowerShell|7.4', workerRuntime: 'powershell' }
+};
+
+const AZURE_WEB_STACKS: Record<string, string> = {
+  dotnet: 'DOTNETCORE|8.0',
+  node: 'NODE|20-lts',
+  python: 'PYTHON|3.11',
+  java: 'JAVA|17-java17',
+  php: 'PHP|8.2',
+  ruby: 'RUBY|2.7'
+};
+
+const AZURE_WEB_PLANS: Record<string, { name: string; tier: string }> = {
+  F1: { name: 'F1', tier: 'Free' },
+  B1: { name: 'B1', tier: 'Basic' },
+  S1: { name: 'S1', tier: 'Standard' },
+  P1: { name: 'P1v3', tier: 'PremiumV3' }
+};
+
+const AZURE_CONSISTENCY_LEVELS: Record<string, string> = {
+  strong: 'Strong',
+  'bounded-staleness': 'BoundedStaleness',
+  session: 'Session',
+  'consistent-prefix': 'ConsistentPrefix',
+  eventual: 'Eventual'
+};
+
+const GCS_STORAGE_CLASSES: Record<string, string> = {
+  standard: 'STANDARD',
+  ia: 'NEARLINE',
+  nearline: 'NEARLINE',
+  coldline: 'COLDLINE',
+  glacier: 'COLDLINE',
+  archive: 'ARCHIVE',
+  'deep-archive': 'ARCHIVE'
+};
+
+// Placeholder handlers so a fresh `pulumi up` deploys something runnable
+const INLINE_HANDLERS: Record<string, { file: string; code: string }> = {
+  nodejs: {
+    file: 'index.js',
+    code: "exports.handler = async () => ({ statusCode: 200, body: 'Hello from InfraGeni' });\n"
+  },
+  python: {
+    file: 'index.py',
+    code: "def handler(event, context):\n    return {'statusCode': 200, 'body': 'Hello from InfraGeni'}\n"
+  }
+};
+
+// Cloud Functions handlers are HTTP handlers, and Python sources must be main.py
+const GCF_INLINE_HANDLERS: Record<string, { file: string; code: string }> = {
+  nodejs: {
+    file: 'index.js',
+    code: "exports.handler = (req, res) => res.send('Hello from InfraGeni');\n"
+  },
+  python: {
+    file: 'main.py',
+    code: "def handler(request):\n    return 'Hello from InfraGeni'\n"
+  }
+};
+
+const RESERVED_WORDS = [
+  'break', 'case', 'catch', 'class', 'const', 'continue', 'debugger', 'default', 'delete', 'do', 'else',
+  'enum', 'export', 'extends', 'false', 'finally', 'for', 'function', 'if', 'import', 'in', 'instanceof',
+  'new', 'null', 'return', 'super', 'switch', 'this', 'throw', 'true', 'try', 'typeof', 'var', 'void',
+  'while', 'with', 'let', 'static', 'yield', 'await', 'interface', 'package', 'private', 'protected',
+  'public', 'pulumi', 'aws', 'azure', 'gcp', 'config'
+];
+
+// Generate the Pulumi project for the active provider; 'generic' picks the cloud the diagram uses most
+export function generatePulumiProject(model: ResourceModel, provider: Provider = 'generic'): PulumiProject {
+  const warnings: string[] = [];
+  let cloud: PulumiCloud;
+
+  if (provider === 'generic') {
+    cloud = getDominantProvider(model);
+    warnings.push(`No cloud provider is selected; the program targets ${CLOUD_NAMES[cloud]}`);
+  } else {
+    cloud = provider;
+  }
+
+  const builder = new PulumiProgramBuilder(model, cloud);
+  const program = builder.build();
+  warnings.push(...program.warnings);
+
+  const name = kebabCase(model.name) || 'infrastructure';
+  const pkg = CLOUD_PACKAGES[cloud];
+
+  const stackConfig: Record<string, unknown> = { ...CLOUD_CONFIG[cloud] };
+  for (const [key, value] of Object.entries(program.config)) {
+    stackConfig[`${name}:${key}`] = value;
+  }
+  const secretNotes = program.secrets.map(key => `# Set before deploying: pulumi config set --secret ${key} <value>\n`).join('');
+
+  return {
+    name,
+    cloud,
+    warnings,
+    files: {
+      'Pulumi.yaml': stringify({ name, description: model.description, runtime: 'nodejs' }),
+      'Pulumi.dev.yaml': secretNotes + stringify({ config: stackConfig }),
+      'index.ts': renderProgram(program, pkg, warnings),
+      'package.json': `${JSON.stringify({
+        name,
+        main: 'index.ts',
+        devDependencies: { '@types/node': '^20.0.0', typescript: '^5.0.0' },
+        dependencies: { '@pulumi/pulumi': '^3.100.0', [pkg.module]: pkg.version }
+      }, null, 2)}\n`,
+      'tsconfig.json': `${JSON.stringify(TSCONFIG, null, 2)}\n`
+    }
+  };
+}
+
+// Single-text view of the project, used for previews and pattern exports
+export function serializePulumiProject(project: PulumiProject): string {
+  return serializeFiles(project.files);
+}
+
+// Zip archive with the project files inside a folder named after the project
+export function zipPulumiProject(project: PulumiProject): Uint8Array {
+  return zipFiles(project.name, project.files);
+}
+
+// Raw TypeScript emitted as-is inside generated values
+class Code {
+  constructor(readonly text: string) {}
+}
+
+function code(text: string): Code {
+  return new Code(text);
+}
+
+class PulumiProgramBuilder {
+  private preamble = new Map<string, string>();
+  private groups: string[][] = [];
+  private current: string[] = [];
+  private outputs: string[] = [];
+  private configLines: string[] = [];
+  private config: Record<string, unknown> = {};
+  private secrets: string[] = [];
+  private warnings: string[] = [];
+  private kinds = new Map<string, PulumiKind>();
+  private refs = new Map<string, PulumiRef>();
+  private wired = new Set<string>();
+  private routeTables = new Map<string, string>();
+  private identifiers = new Set<string>(RESERVED_WORDS);
+  private logicalNames = new Set<string>();
+  private parameterVariables = new Map<string, string>();
+
+  constructor(private model: ResourceModel, private cloud: PulumiCloud) {}
+
+  build(): PulumiProgram {
+    for (const parameter of this.model.parameters) {
+      this.addParameter(parameter);
+    }
+
+    this.classify();
+
+    if (this.cloud === 'azure' && this.kinds.size > 0) {
+      this.preamble.set('resourceGroup', `const resourceGroup = new azure.resources.ResourceGroup('${this.logicalName('resource-group')}');`);
+    }
+
+    for (const resource of this.orderResources()) {
+      const kind = this.kinds.get(resource.id) as PulumiKind;
+      this.current = [];
+
+      if (this.cloud === 'aws') this.addAws(resource, kind);
+      else if (this.cloud === 'azure') this.addAzure(resource, kind);
+      else this.addGcp(resource, kind);
+
+      if (this.current.length > 0) {
+        this.groups.push([`// ${resource.name}`, ...this.current]);
+      }
+    }
+
+    return {
+      preamble: Array.from(this.preamble.values()),
+      configLines: this.configLines,
+      groups: this.groups,
+      outputs: this.outputs,
+      config: this.config,
+      secrets: this.secrets,
+      warnings: this.warnings
+    };
+  }
+
+  private classify(): void {
+    for (const resource of this.model.resources) {
+      const kind = getPulumiKind(resource);
+      const provider = resource.provider;
+
+      if (provider !== 'generic' && provider !== this.cloud) {
+        this.warnings.push(`${resource.name} (${resource.componentId}) targets ${CLOUD_NAMES[provider]} and was skipped`);
+      } else if (kind) {
+        this.kinds.set(resource.id, kind);
+      } else if (resource.componentId !== 'generic-user' && resource.componentId !== 'generic-external-system') {
+        this.warnings.push(`${resource.name} (${resource.componentId}) has no Pulumi mapping yet and was skipped`);
+      }
+    }
+  }
+
+  // Containers before contents and arrow targets before sources, networks and data stores first
+  private orderResources(): ModelResource[] {
+    const mapped = this.model.resources.filter(resource => {
+      const kind = this.kinds.get(resource.id);
+      return kind !== undefined && kind !== 'zone';
+    });
+    const dependencies = new Map<string, Set<string>>();
+
+    for (const resource of mapped) {
+      const set = new Set(getResourceAncestors(this.model, resource).map(ancestor => ancestor.id));
+      for (const link of this.model.links) {
+        if (link.from === resource.id) set.add(link.to);
+      }
+      dependencies.set(resource.id, set);
+    }
+
+    const ordered: ModelResource[] = [];
+    const remaining = [...mapped];
+    const done = new Set<string>();
+    const sortKey = (resource: ModelResource) => buildRank(this.kinds.get(resource.id)) * 10000 + mapped.indexOf(resource);
+
+    while (remaining.length > 0) {
+      const ready = remaining.filter(resource =>
+        Array.from(dependencies.get(resource.id) || []).every(id => done.has(id) || !remaining.some(r => r.id === id))
+      );
+      // Arrow cycles are broken at the resource that would normally come first
+      const candidates = ready.length > 0 ? ready : remaining;
+      const next = candidates.reduce((best, resource) => (sortKey(resource) < sortKey(best) ? resource : best));
+
+      ordered.push(next);
+      done.add(next.id);
+      remaining.splice(remaining.indexOf(next), 1);
+    }
+
+    return ordered;
+  }
+
+  // AWS
+
+  private addAws(resource: ModelResource, kind: PulumiKind): void {
+    switch (kind) {
+      case 'network':
+        return this.awsVpc(resource);
+      case 'subnet':
+        return this.awsSubnet(resource);
+      case 'vm':
+        return this.awsInstance(resource);
+      case 'database':
+        return this.awsDatabase(resource);
+      case 'bucket':
+        return this.awsBucket(resource);
+      case 'function':
+        return this.awsFunction(resource);
+      case 'container':
+        return this.awsContainerService(resource);
+      case 'table':
+        return this.awsTable(resource);
+      case 'cache':
+        return this.awsCache(resource);
+      case 'loadBalancer':
+        return this.awsLoadBalancer(resource);
+      case 'cdn':
+        return this.awsDistribution(resource);
+      case 'apiGateway':
+        return this.awsApi(resource);
+      case 'registry':
+        return this.awsRepository(resource);
+      case 'volume':
+        return this.awsVolume(resource);
+      case 'fileSystem':
+        return this.awsFileSystem(resource);
+      default:
+        this.unsupported(resource);
+    }
+  }
+
+  private awsVpc(resource: ModelResource): void {
+    const vpc = this.declare(resource, '', 'aws.ec2.Vpc', {
+      cidrBlock: this.value(resource, 'cidrBlock', '10.0.0.0/16'),
+      enableDnsHostnames: this.value(resource, 'enableDnsHostnames', true),
+      enableDnsSupport: true,
+      tags: { Name: resource.name }
+    }, { primary: true });
+
+    if (this.subnetsIn(resource).some(isPublicSubnet)) {
+      const gateway = this.declare(resource, 'gateway', 'aws.ec2.InternetGateway', {
+        vpcId: code(`${vpc}.id`),
+        tags: { Name: `${resource.name} gateway` }
+      });
+      const routes = this.declare(resource, 'public routes', 'aws.ec2.RouteTable', {
+        vpcId: code(`${vpc}.id`),
+        routes: [{ cidrBlock: '0.0.0.0/0', gatewayId: code(`${gateway}.id`) }],
+        tags: { Name: `${resource.name} public` }
+      });
+      this.routeTables.set(resource.id, routes);
+    }
+
+    this.output(`${vpc}Id`, `${vpc}.id`);
+  }
+
+  private awsSubnet(resource: ModelResource): void {
+    const vpcResource = this.containing(resource, 'network');
+    if (!vpcResource) {
+      this.warnings.push(`Subnet ${resource.name} is not inside a VPC and was skipped`);
+      return;
+    }
+
+    const vpc = this.variable(vpcResource);
+    const isPublic = isPublicSubnet(resource);
+    const subnet = this.declare(resource, '', 'aws.ec2.Subnet', {
+      vpcId: code(`${vpc}.id`),
+      cidrBlock: this.subnetCidr(resource, vpcResource),
+      availabilityZone: this.awsZone(this.zoneIndex(resource, vpcResource)),
+      mapPublicIpOnLaunch: isPublic,
+      tags: { Name: resource.name }
+    }, { primary: true });
+
+    const routes = this.routeTables.get(vpcResource.id);
+    if (isPublic && routes) {
+      this.declare(resource, 'routes', 'aws.ec2.RouteTableAssociation', {
+        subnetId: code(`${subnet}.id`),
+        routeTableId: code(`${routes}.id`)
+      });
+    }
+  }
+
+  private awsInstance(resource: ModelResource): void {
+    const windows = resource.properties.operatingSystem === 'windows';
+    const ami = windows ? 'windowsAmi' : 'amazonLinuxAmi';
+    this.preamble.set(ami, `const ${ami} = aws.ec2.getAmiOutput(${renderTs({
+      mostRecent: true,
+      owners: ['amazon'],
+      filters: [{ name: 'name', values: [windows ? 'Windows_Server-2022-English-Full-Base-*' : 'al2023-ami-2023.*-x86_64'] }]
+    }, 0)});`);
+
+    const subnet = this.containing(resource, 'subnet');
+    if (!subnet) {
+      this.warnings.push(`${resource.name} is not inside a subnet and launches in the default VPC`);
+    }
+    const volumes = this.targets(resource).filter(target => target.kind === 'volume');
+    volumes.forEach(target => this.wire(resource, target.resource));
+    const instanceType = String(resource.properties.instanceType || '');
+    const instance = this.declare(resource, '', 'aws.ec2.Instance', {
+      ami: code(`${ami}.id`),
+      // Types from other clouds don't apply on EC2
+      instanceType: instanceType.includes('.') ? this.value(resource, 'instanceType', instanceType) : 't3.micro',
+      subnetId: subnet ? code(`${this.variable(subnet)}.id`) : undefined,
+      tags: { Name: resource.name }
+    }, { primary: true, endpoint: { code: 'privateIp', env: 'PRIVATE_IP' } });
+
+    // Arrows to EBS volumes attach them
+    volumes.forEach((target, i) => {
+      this.declare(resource, `${target.resource.name} attachment`, 'aws.ec2.VolumeAttachment', {
+        instanceId: code(`${instance}.id`),
+        volumeId: code(`${target.variable}.id`),
+        deviceName: `/dev/sd${String.fromCharCode(102 + i)}`
+      });
+    });
+  }
+
+  private awsDatabase(resource: ModelResource): void {
+    const engine = String(resource.properties.engine || 'mysql');
+    const subnetGroup = this.awsSubnetGroup(resource, 'aws.rds.SubnetGroup');
+    const version = String(resource.properties.version || '');
+    const instanceClass = String(resource.properties.instanceClass || '');
+
+    this.declare(resource, '', 'aws.rds.Instance', {
+      engine: RDS_ENGINES[engine] || 'mysql',
+      // The registry default version is a MySQL one
+      engineVersion: engine === 'mysql' || version !== '8.0' ? this.value(resource, 'version', version) : undefined,
+      instanceClass: instanceClass.startsWith('db.') ? this.value(resource, 'instanceClass', instanceClass) : 'db.t3.micro',
+      allocatedStorage: 20,
+      dbSubnetGroupName: subnetGroup ? code(`${subnetGroup}.name`) : undefined,
+      username: 'dbadmin',
+      manageMasterUserPassword: true,
+      multiAz: this.value(resource, 'multiAz', false),
+      skipFinalSnapshot: true,
+      tags: { Name: resource.name }
+    }, { primary: true, endpoint: { code: 'address', env: 'HOST' } });
+  }
+
+  // Subnet group over the subnets of the VPC the resource sits in, preferring private ones
+  private awsSubnetGroup(resource: ModelResource, type: string): string | undefined {
+    const vpc = this.containing(resource, 'network') || this.model.resources.find(r => this.kinds.get(r.id) === 'network');
+    if (!vpc) return undefined;
+
+    const subnets = this.subnetsIn(vpc).filter(subnet => this.refs.has(subnet.id));
+    const privateSubnets = subnets.filter(subnet => !isPublicSubnet(subnet));
+    const chosen = privateSubnets.length >= 2 ? privateSubnets : subnets;
+    if (chosen.length === 0) return undefined;
+
+    return this.declare(resource, 'subnets', type, {
+      subnetIds: chosen.map(subnet => code(`${this.variable(subnet)}.id`))
+    });
+  }
+
+  private awsBucket(resource: ModelResource): void {
+    const bucketName = resource.properties.bucketName;
+    const bucket = this.declare(resource, '', 'aws.s3.BucketV2', {
+      // Auto-naming avoids collisions unless a real bucket name was set
+      bucket: bucketName && bucketName !== 'my-bucket' ? this.value(resource, 'bucketName', String(bucketName)) : undefined,
+      tags: { Name: resource.name }
+    }, { primary: true, endpoint: { code: 'bucket', env: 'BUCKET_NAME' } });
+
+    if (this.isEnabled(resource, 'versioning', false)) {
+      this.declare(resource, 'versioning', 'aws.s3.BucketVersioningV2', {
+        bucket: code(`${bucket}.id`),
+        versioningConfiguration: { status: 'Enabled' }
+      });
+    }
+    if (this.isEnabled(resource, 'encryption', true)) {
+      this.declare(resource, 'encryption', 'aws.s3.BucketServerSideEncryptionConfigurationV2', {
+        bucket: code(`${bucket}.id`),
+        rules: [{ applyServerSideEncryptionByDefault: { sseAlgorithm: 'AES256' } }]
+      });
+    }
+
+    const storageClass = String(resource.properties.storageClass || 'standard');
+    const transition = { ia: 'STANDARD_IA', glacier: 'GLACIER', 'deep-archive': 'DEEP_ARCHIVE' }[storageClass];
+    if (transition) {
+      this.declare(resource, 'lifecycle', 'aws.s3.BucketLifecycleConfigurationV2', {
+        bucket: code(`${bucket}.id`),
+        rules: [{ id: 'transition', status: 'Enabled', transitions: [{ days: 30, storageClass: transition }] }]
+      });
+    }
+
+    this.declare(resource, 'public access', 'aws.s3.BucketPublicAccessBlock', {
+      bucket: code(`${bucket}.id`),
+      blockPublicAcls: true,
+      blockPublicPolicy: true,
+      ignorePublicAcls: true,
+      restrictPublicBuckets: true
+    });
+  }
+
+  private awsFunction(resource: ModelResource): void {
+    const family = runtimeFamily(resource.properties.runtime);
+    const runtime = /\d/.test(String(resource.properties.runtime)) ? String(resource.properties.runtime) : LAMBDA_RUNTIMES[family] || LAMBDA_RUNTIMES.nodejs;
+    const subnet = this.containing(resource, 'subnet');
+    const vpc = this.containing(resource, 'network');
+
+    const role = this.declare(resource, 'role', 'aws.iam.Role', {
+      assumeRolePolicy: code("aws.iam.assumeRolePolicyForPrincipal({ Service: 'lambda.amazonaws.com' })")
+    });
+    this.declare(resource, 'execution policy', 'aws.iam.RolePolicyAttachment', {
+      role: code(`${role}.name`),
+      policyArn: code(`aws.iam.ManagedPolicy.${subnet ? 'AWSLambdaVPCAccessExecutionRole' : 'AWSLambdaBasicExecutionRole'}`)
+    });
+
+    const environment = this.environment(resource);
+    this.declare(resource, '', 'aws.lambda.Function', {
+      runtime,
+      handler: 'index.handler',
+      role: code(`${role}.arn`),
+      code: this.handlerArchive(resource, family),
+      memorySize: this.value(resource, 'memorySize', 128),
+      timeout: this.value(resource, 'timeout', 30),
+      environment: Object.keys(environment).length > 0 ? { variables: environment } : undefined,
+      vpcConfig: subnet && vpc ? {
+        subnetIds: [code(`${this.variable(subnet)}.id`)],
+        securityGroupIds: [code(`${this.variable(vpc)}.defaultSecurityGroupId`)]
+      } : undefined
+    }, { primary: true, endpoint: { code: 'name', env: 'FUNCTION_NAME' } });
+  }
+
+  private awsContainerService(resource: ModelResource): void {
+    const subnet = this.containing(resource, 'subnet');
+    const cluster = this.declare(resource, 'cluster', 'aws.ecs.Cluster', {});
+    const role = this.declare(resource, 'execution role', 'aws.iam.Role', {
+      assumeRolePolicy: code("aws.iam.assumeRolePolicyForPrincipal({ Service: 'ecs-tasks.amazonaws.com' })")
+    });
+    this.declare(resource, 'execution policy', 'aws.iam.RolePolicyAttachment', {
+      role: code(`${role}.name`),
+      policyArn: code('aws.iam.ManagedPolicy.AmazonECSTaskExecutionRolePolicy')
+    });
+
+    const environment = Object.entries(this.environment(resource)).map(([name, value]) => ({ name, value }));
+    const task = this.declare(resource, 'task', 'aws.ecs.TaskDefinition', {
+      family: this.value(resource, 'taskDefinition', kebabCase(resource.name) || 'task'),
+      cpu: String(resource.properties.cpu ?? 256),
+      memory: String(resource.properties.memory ?? 512),
+      networkMode: 'awsvpc',
+      requiresCompatibilities: ['FARGATE'],
+      executionRoleArn: code(`${role}.arn`),
+      containerDefinitions: code(`pulumi.jsonStringify(${renderTs([{
+        name: kebabCase(resource.name) || 'app',
+        image: this.value(resource, 'image', 'nginx:latest'),
+        essential: true,
+        portMappings: [{ containerPort: 80 }],
+        environment: environment.length > 0 ? environment : undefined
+      }], 1)})`)
+    }, { primary: !subnet });
+
+    if (subnet) {
+      this.declare(resource, '', 'aws.ecs.Service', {
+        cluster: code(`${cluster}.arn`),
+        taskDefinition: code(`${task}.arn`),
+        desiredCount: this.value(resource, 'desiredCount', 1),
+        launchType: this.value(resource, 'launchType', 'FARGATE'),
+        networkConfiguration: {
+          subnets: [code(`${this.variable(subnet)}.id`)],
+          assignPublicIp: isPublicSubnet(subnet)
+        }
+      }, { primary: true });
+    }
+  }
+
+  private awsTable(resource: ModelResource): void {
+    const partitionKey = String(resource.properties.partitionKey || 'id');
+    const sortKey = String(resource.properties.sortKey || '');
+    const provisioned = resource.properties.billingMode === 'PROVISIONED';
+
+    this.declare(resource, '', 'aws.dynamodb.Table', {
+      attributes: [{ name: partitionKey, type: 'S' }, ...(sortKey ? [{ name: sortKey, type: 'S' }] : [])],
+      hashKey: partitionKey,
+      rangeKey: sortKey || undefined,
+      billingMode: this.value(resource, 'billingMode', 'PAY_PER_REQUEST'),
+      readCapacity: provisioned ? 5 : undefined,
+      writeCapacity: provisioned ? 5 : undefined,
+      pointInTimeRecovery: { enabled: this.value(resource, 'pointInTimeRecovery', false) },
+      tags: { Name: resource.name }
+    }, { primary: true, endpoint: { code: 'name', env: 'TABLE_NAME' } });
+  }
+
+  private awsCache(resource: ModelResource): void {
+    const engine = String(resource.properties.engine || 'redis');
+    const subnetGroup = this.awsSubnetGroup(resource, 'aws.elasticache.SubnetGroup');
+
+    this.declare(resource, '', 'aws.elasticache.Cluster', {
+      engine,
+      nodeType: this.value(resource, 'nodeType', 'cache.t3.micro'),
+      // Redis clusters without replication groups have exactly one node
+      numCacheNodes: engine === 'redis' ? 1 : this.value(resource, 'numCacheNodes', 1),
+      port: this.value(resource, 'port', engine === 'redis' ? 6379 : 11211),
+      subnetGroupName: subnetGroup ? code(`${subnetGroup}.name`) : undefined
+    }, { primary: true, endpoint: { code: 'cacheNodes[0].address', env: 'HOST' } });
+  }
+
+  private awsLoadBalancer(resource: ModelResource): void {
+    const vpc = this.containing(resource, 'network') || this.model.resources.find(r => this.kinds.get(r.id) === 'network');
+    const subnets = vpc ? this.subnetsIn(vpc).filter(subnet => this.refs.has(subnet.id)) : [];
+    if (!vpc || subnets.length < 2) {
+      this.warnings.push(`${resource.name} needs a VPC with at least two subnets and was skipped`);
+      return;
+    }
+
+    const instances = this.targets(resource).filter(target => target.kind === 'vm');
+    instances.forEach(target => this.wire(resource, target.resource));
+
+    const internal = resource.properties.scheme === 'internal';
+    const chosen = subnets.filter(subnet => isPublicSubnet(subnet) !== internal);
+    const loadBalancer = this.declare(resource, '', 'aws.lb.LoadBalancer', {
+      loadBalancerType: 'application',
+      internal,
+      ipAddressType: this.value(resource, 'ipAddressType', 'ipv4'),
+      subnets: (chosen.length >= 2 ? chosen : subnets).map(subnet => code(`${this.variable(subnet)}.id`)),
+      enableDeletionProtection: this.value(resource, 'enableDeletionProtection', false)
+    }, { primary: true, endpoint: { code: 'dnsName', env: 'DNS_NAME' } });
+
+    const targetGroup = this.declare(resource, 'targets', 'aws.lb.TargetGroup', {
+      port: 80,
+      protocol: 'HTTP',
+      targetType: 'instance',
+      vpcId: code(`${this.variable(vpc)}.id`)
+    });
+    this.declare(resource, 'http', 'aws.lb.Listener', {
+      loadBalancerArn: code(`${loadBalancer}.arn`),
+      port: 80,
+      defaultActions: [{ type: 'forward', targetGroupArn: code(`${targetGroup}.arn`) }]
+    });
+
+    // Arrows to instances register them as targets
+    for (const target of instances) {
+      this.declare(resource, `${target.resource.name} target`, 'aws.lb.TargetGroupAttachment', {
+        targetGroupArn: code(`${targetGroup}.arn`),
+        targetId: code(`${target.variable}.id`),
+        port: 80
+      });
+    }
+  }
+
+  private awsDistribution(resource: ModelResource): void {
+    const origin = this.targets(resource).find(target => target.kind === 'bucket' || target.kind === 'loadBalancer');
+    if (origin) this.wire(resource, origin.resource);
+
+    const domainName = origin?.kind === 'bucket'
+      ? code(`${origin.variable}.bucketRegionalDomainName`)
+      : origin ? code(`${origin.variable}.dnsName`) : this.value(resource, 'origin', 'example.com');
+
+    this.declare(resource, '', 'aws.cloudfront.Distribution', {
+      enabled: this.value(resource, 'enabled', true),
+      priceClass: this.value(resource, 'priceClass', 'PriceClass_All'),
+      origins: [{
+        originId: 'origin',
+        domainName,
+        customOriginConfig: origin?.kind === 'bucket' ? undefined : {
+          httpPort: 80,
+          httpsPort: 443,
+          originProtocolPolicy: origin ? 'http-only' : 'https-only',
+          originSslProtocols: ['TLSv1.2']
+        }
+      }],
+      defaultCacheBehavior: {
+        targetOriginId: 'origin',
+        viewerProtocolPolicy: 'redirect-to-https',
+        allowedMethods: ['GET', 'HEAD'],
+        cachedMethods: ['GET', 'HEAD'],
+        compress: this.value(resource, 'compress', true),
+        // Managed CachingOptimized policy
+        cachePolicyId: '658327ea-f89d-4fab-a63d-7e88639e58f6'
+      },
+      restrictions: { geoRestriction: { restrictionType: 'none' } },
+      viewerCertificate: { cloudfrontDefaultCertificate: true }
+    }, { primary: true, endpoint: { code: 'domainName', env: 'DOMAIN' } });
+  }
+
+  private awsApi(resource: ModelResource): void {
+    const apiType = String(resource.properties.apiType || 'REST');
+    if (apiType === 'REST') {
+      this.warnings.push(`${resource.name} is generated as an HTTP API, the lighter API Gateway v2 equivalent of REST`);
+    }
+
+    // Quick-create wires the API straight to the function an arrow points at
+    const fn = apiType === 'WEBSOCKET' ? undefined : this.targets(resource).find(target => target.kind === 'function');
+    if (fn) this.wire(resource, fn.resource);
+
+    const api = this.declare(resource, '', 'aws.apigatewayv2.Api', {
+      name: this.value(resource, 'name', kebabCase(resource.name) || 'api'),
+      protocolType: apiType === 'WEBSOCKET' ? 'WEBSOCKET' : 'HTTP',
+      routeSelectionExpression: apiType === 'WEBSOCKET' ? '$request.body.action' : undefined,
+      target: fn ? code(`${fn.variable}.arn`) : undefined
+    }, { primary: true, endpoint: { code: 'apiEndpoint', env: 'URL' } });
+
+    if (fn) {
+      this.declare(resource, `${fn.resource.name} invoke`, 'aws.lambda.Permission', {
+        action: 'lambda:InvokeFunction',
+        function: code(`${fn.variable}.name`),
+        principal: 'apigateway.amazonaws.com',
+        sourceArn: code(`pulumi.interpolate\`\${${api}.executionArn}/*/*\``)
+      });
+    } else {
+      this.declare(resource, 'stage', 'aws.apigatewayv2.Stage', {
+        apiId: code(`${api}.id`),
+        name: this.value(resource, 'stage', '$default'),
+        autoDeploy: true
+      });
+    }
+  }
+
+  private awsRepository(resource: ModelResource): void {
+    this.declare(resource, '', 'aws.ecr.Repository', {
+      name: this.value(resource, 'repositoryName', kebabCase(resource.name)),
+      imageTagMutability: this.value(resource, 'imageTagMutability', 'MUTABLE'),
+      imageScanningConfiguration: { scanOnPush: this.value(resource, 'scanOnPush', true) }
+    }, { primary: true, endpoint: { code: 'repositoryUrl', env: 'REPOSITORY_URL' } });
+  }
+
+  private awsVolume(resource: ModelResource): void {
+    // A volume has to live in the zone of the instance that attaches it
+    const instance = this.model.links
+      .filter(link => link.to === resource.id)
+      .map(link => this.model.resources.find(r => r.id === link.from))
+      .find(source => source && this.kinds.get(source.id) === 'vm');
+    const subnet = instance ? this.containing(instance, 'subnet') : undefined;
+    const vpc = subnet ? this.containing(subnet, 'network') : undefined;
+    const volumeType = String(resource.properties.volumeType || 'gp3');
+
+    this.declare(resource, '', 'aws.ebs.Volume', {
+      availabilityZone: this.awsZone(subnet && vpc ? this.zoneIndex(subnet, vpc) : 0),
+      size: this.value(resource, 'size', 8),
+      type: this.value(resource, 'volumeType', 'gp3'),
+      encrypted: this.value(resource, 'encrypted', true),
+      iops: ['gp3', 'io1', 'io2'].includes(volumeType) ? this.value(resource, 'iops', 3000) : undefined,
+      tags: { Name: resource.name }
+    }, { primary: true });
+  }
+
+  private awsFileSystem(resource: ModelResource): void {
+    const lifecycle = String(resource.properties.lifecyclePolicy || 'NONE');
+    const fileSystem = this.declare(resource, '', 'aws.efs.FileSystem', {
+      performanceMode: this.value(resource, 'performanceMode', 'generalPurpose'),
+      throughputMode: this.value(resource, 'throughputMode', 'bursting'),
+      encrypted: this.value(resource, 'encrypted', true),
+      lifecyclePolicies: lifecycle !== 'NONE' ? [{ transitionToIa: lifecycle }] : undefined,
+      tags: { Name: resource.name }
+    }, { primary: true, endpoint: { code: 'dnsName', env: 'DNS_NAME' } });
+
+    const vpc = this.containing(resource, 'network');
+    for (const subnet of vpc ? this.subnetsIn(vpc).filter(s => this.refs.has(s.id)) : []) {
+      this.declare(resource, `${subnet.name} mount`, 'aws.efs.MountTarget', {
+        fileSystemId: code(`${fileSystem}.id`),
+        subnetId: code(`${this.variable(subnet)}.id`)
+      });
+    }
+  }
+
+  private awsZone(index: number): Code {
+    this.preamble.set('availabilityZones', "const availabilityZones = aws.getAvailabilityZonesOutput({ state: 'available' });");
+    return code(`availabilityZones.names[${index}]`);
+  }
+
+  // Azure
+
+  private addAzure(resource: ModelResource, kind: PulumiKind): void {
+    switch (kind) {
+      case 'network':
+        return this.azureVirtualNetwork(resource);
+      case 'subnet':
+        return this.azureSubnet(resource);
+      case 'vm':
+        return this.azureVirtualMachine(resource);
+      case 'database':
+        return this.azureDatabase(resource);
+      case 'bucket':
+        return this.azureStorageAccount(resource);
+      case 'function':
+        return this.azureFunctionApp(resource);
+      case 'webApp':
+        return this.azureWebApp(resource);
+      case 'container':
+        return this.azureContainerGroup(resource);
+      case 'cosmos':
+        return this.azureCosmosAccount(resource);
+      case 'cache':
+        return this.azureRedis(resource);
+      case 'cdn':
+        return this.azureCdn(resource);
+      case 'keyVault':
+        return this.azureKeyVault(resource);
+      case 'logs':
+        return this.azureWorkspace(resource);
+      default:
+        this.unsupported(resource);
+    }
+  }
+
+  private azureVirtualNetwork(resource: ModelResource): void {
+    const vnet = this.declare(resource, '', 'azure.network.VirtualNetwork', {
+      resourceGroupName: code('resourceGroup.name'),
+      addressSpace: { addressPrefixes: [this.value(resource, 'cidrBlock', '10.0.0.0/16')] }
+    }, { primary: true });
+    this.output(`${vnet}Id`, `${vnet}.id`);
+  }
+
+  private azureSubnet(resource: ModelResource): void {
+    const vnetResource = this.containing(resource, 'network');
+    if (!vnetResource) {
+      this.warnings.push(`Subnet ${resource.name} is not inside a virtual network and was skipped`);
+      return;
+    }
+
+    // Subnets of one VNet cannot be created concurrently
+    const siblings = this.subnetsIn(vnetResource).filter(subnet => this.refs.has(subnet.id));
+    const previous = siblings[siblings.length - 1];
+
+    this.declare(resource, '', 'azure.network.Subnet', {
+      resourceGroupName: code('resourceGroup.name'),
+      virtualNetworkName: code(`${this.variable(vnetResource)}.name`),
+      addressPrefix: this.subnetCidr(resource, vnetResource)
+    }, { primary: true, dependsOn: previous ? [this.variable(previous)] : [] });
+  }
+
+  private azureVirtualMachine(resource: ModelResource): void {
+    const container = this.containing(resource, 'subnet');
+    const subnet = container || this.model.resources.find(r => this.refs.get(r.id)?.kind === 'subnet');
+    if (!subnet) {
+      this.warnings.push(`${resource.name} needs a subnet for its network interface and was skipped`);
+      return;
+    }
+    if (!container) {
+      this.warnings.push(`${resource.name} is not inside a subnet and was placed in ${subnet.name}`);
+    }
+
+    const windows = resource.properties.operatingSystem === 'windows';
+    const name = kebabCase(resource.name) || 'vm';
+    const nic = this.declare(resource, 'nic', 'azure.network.NetworkInterface', {
+      resourceGroupName: code('resourceGroup.name'),
+      ipConfigurations: [{
+        name: 'ipconfig1',
+        privateIPAllocationMethod: 'Dynamic',
+        subnet: { id: code(`${this.variable(subnet)}.id`) }
+      }]
+    });
+
+    const instanceType = String(resource.properties.instanceType || '');
+    const defaultSize = String(resource.metadata?.providerMappings.azure?.metadata?.defaultVmSize || 'Standard_B1s');
+    this.declare(resource, '', 'azure.compute.VirtualMachine', {
+      resourceGroupName: code('resourceGroup.name'),
+      hardwareProfile: { vmSize: instanceType.startsWith('Standard_') ? instanceType : defaultSize },
+      osProfile: {
+        computerName: name.slice(0, 15),
+        adminUsername: 'azureuser',
+        adminPassword: code(this.secret('adminPassword'))
+      },
+      storageProfile: {
+        imageReference: windows
+          ? { publisher: 'MicrosoftWindowsServer', offer: 'WindowsServer', sku: '2022-datacenter-azure-edition', version: 'latest' }
+          : { publisher: 'Canonical', offer: '0001-com-ubuntu-server-jammy', sku: '22_04-lts-gen2', version: 'latest' },
+        osDisk: { createOption: 'FromImage', managedDisk: { storageAccountType: 'StandardSSD_LRS' } }
+      },
+      networkProfile: { networkInterfaces: [{ id: code(`${nic}.id`) }] }
+    }, {
+      primary: true,
+      endpoint: { code: `${nic}.ipConfigurations.apply(configs => configs?.[0]?.privateIPAddress ?? '')`, env: 'PRIVATE_IP', absolute: true }
+    });
+  }
+
+  private azureDatabase(resource: ModelResource): void {
+    const engine = String(resource.properties.engine || 'mysql');
+    const password = code(this.secret('dbPassword'));
+
+    if (engine === 'sqlserver') {
+      const server = this.declare(resource, 'server', 'azure.sql.Server', {
+        resourceGroupName: code('resourceGroup.name'),
+        administratorLogin: 'dbadmin',
+        administratorLoginPassword: password,
+        version: '12.0',
+        minimalTlsVersion: '1.2'
+      });
+      this.declare(resource, '', 'azure.sql.Database', {
+        resourceGroupName: code('resourceGroup.name'),
+        serverName: code(`${server}.name`),
+        sku: { name: 'Basic' }
+      }, { primary: true, endpoint: { code: `${server}.fullyQualifiedDomainName`, env: 'HOST', absolute: true } });
+      return;
+    }
+
+    if (engine !== 'mysql' && engine !== 'postgresql') {
+      this.warnings.push(`${resource.name} uses ${engine}, which has no Azure managed server; PostgreSQL was used instead`);
+    }
+
+    const isMySql = engine === 'mysql';
+    const version = String(resource.properties.version || '');
+    this.declare(resource, '', isMySql ? 'azure.dbformysql.Server' : 'azure.dbforpostgresql.Server', {
+      resourceGroupName: code('resourceGroup.name'),
+      sku: { name: 'Standard_B1ms', tier: 'Burstable' },
+      version: isMySql ? '8.0.21' : /^1[1-6]$/.test(version) ? version : '16',
+      administratorLogin: 'dbadmin',
+      administratorLoginPassword: password,
+      storage: { storageSizeGB: isMySql ? 20 : 32 },
+      highAvailability: { mode: this.isEnabled(resource, 'multiAz', false) ? 'ZoneRedundant' : 'Disabled' }
+    }, { primary: true, endpoint: { code: 'fullyQualifiedDomainName', env: 'HOST' } });
+  }
+
+  private azureStorageAccount(resource: ModelResource): void {
+    const props = resource.properties;
+    const accessTier = String(props.accessTier || (props.storageClass && props.storageClass !== 'standard' ? 'cool' : 'hot'));
+
+    const account = this.declare(resource, '', 'azure.storage.StorageAccount', {
+      resourceGroupName: code('resourceGroup.name'),
+      sku: { name: `Standard_${String(props.replication || 'LRS')}` },
+      kind: this.value(resource, 'kind', 'StorageV2'),
+      accessTier: accessTier === 'cool' ? 'Cool' : 'Hot',
+      minimumTlsVersion: 'TLS1_2',
+      enableHttpsTrafficOnly: true,
+      allowBlobPublicAccess: false
+    }, { primary: true, endpoint: { code: 'name', env: 'ACCOUNT_NAME' } });
+
+    if (this.isEnabled(resource, 'versioning', false)) {
+      this.declare(resource, 'blob service', 'azure.storage.BlobServiceProperties', {
+        resourceGroupName: code('resourceGroup.name'),
+        accountName: code(`${account}.name`),
+        blobServicesName: 'default',
+        isVersioningEnabled: true
+      });
+    }
+  }
+
+  private azureFunctionApp(resource: ModelResource): void {
+    const family = runtimeFamily(resource.properties.runtime);
+    const stack = AZURE_FUNCTION_STACKS[family === 'nodejs' ? 'node' : family] || AZURE_FUNCTION_STACKS.dotnet;
+    const plan = String(resource.properties.hostingPlan || 'consumption');
+
+    const storage = this.declare(resource, 'storage', 'azure.storage.StorageAccount', {
+      resourceGroupName: code('resourceGroup.name'),
+      sku: { name: 'Standard_LRS' },
+      kind: 'StorageV2',
+      minimumTlsVersion: 'TLS1_2'
+    });
+    const keys = this.identifier(`${storage}Keys`);
+    this.current.push(`const ${keys} = azure.storage.listStorageAccountKeysOutput(${renderTs({
+      resourceGroupName: code('resourceGroup.name'),
+      accountName: code(`${storage}.name`)
+    }, 0)});`);
+
+    const servicePlan = this.declare(resource, 'plan', 'azure.web.AppServicePlan', {
+      resourceGroupName: code('resourceGroup.name'),
+      kind: 'Linux',
+      reserved: true,
+      sku: plan === 'premium' ? { name: 'EP1', tier: 'ElasticPremium' }
+        : plan === 'dedicated' ? { name: 'B1', tier: 'Basic' }
+          : { name: 'Y1', tier: 'Dynamic' }
+    });
+
+    const timeout = Number(resource.properties.timeout);
+    this.declare(resource, '', 'azure.web.WebApp', {
+      resourceGroupName: code('resourceGroup.name'),
+      kind: 'functionapp,linux',
+      serverFarmId: code(`${servicePlan}.id`),
+      httpsOnly: true,
+      siteConfig: {
+        linuxFxVersion: stack.linuxFxVersion,
+        appSettings: [
+          {
+            name: 'AzureWebJobsStorage',
+            value: code(`pulumi.interpolate\`DefaultEndpointsProtocol=https;AccountName=\${${storage}.name};AccountKey=\${${keys}.keys[0].value};EndpointSuffix=core.windows.net\``)
+          },
+          { name: 'FUNCTIONS_EXTENSION_VERSION', value: '~4' },
+          { name: 'FUNCTIONS_WORKER_RUNTIME', value: stack.workerRuntime },
+          ...(timeout > 0 ? [{ name: 'AzureFunctionsJobHost__functionTimeout', value: formatTimeSpan(timeout) }] : []),
+          ...Object.entries(this.environment(resource)).map(([name, value]) => ({ name, value }))
+        ]
+      }
+    }, { primary: true, endpoint: { code: 'defaultHostName', env: 'HOST' } });
+  }
+
+  private azureWebApp(resource: ModelResource): void {
+    const tier = String(resource.properties.pricingTier || 'B1');
+    const servicePlan = this.declare(resource, 'plan', 'azure.web.AppServicePlan', {
+      resourceGroupName: code('resourceGroup.name'),
+      kind: 'Linux',
+      reserved: true,
+      sku: AZURE_WEB_PLANS[tier] || AZURE_WEB_PLANS.B1
+    });
+
+    const settings = Object.entries(this.environment(resource)).map(([name, value]) => ({ name, value }));
+    this.declare(resource, '', 'azure.web.WebApp', {
+      resourceGroupName: code('resourceGroup.name'),
+      kind: 'app,linux',
+      serverFarmId: code(`${servicePlan}.id`),
+      httpsOnly: true,
+      siteConfig: {
+        linuxFxVersion: AZURE_WEB_STACKS[String(resource.properties.runtime || 'dotnet')] || AZURE_WEB_STACKS.dotnet,
+        ftpsState: 'Disabled',
+        appSettings: settings.length > 0 ? settings : undefined
+      }
+    }, { primary: true, endpoint: { code: 'defaultHostName', env: 'HOST' } });
+  }
+
+  private azureContainerGroup(resource: ModelResource): void {
+    const environment = Object.entries(this.environment(resource)).map(([name, value]) => ({ name, value }));
+    this.declare(resource, '', 'azure.containerinstance.ContainerGroup', {
+      resourceGroupName: code('resourceGroup.name'),
+      osType: 'Linux',
+      restartPolicy: this.value(resource, 'restartPolicy', 'Always'),
+      containers: [{
+        name: kebabCase(resource.name) || 'app',
+        image: this.value(resource, 'image', 'nginx:latest'),
+        ports: [{ port: 80 }],
+        resources: {
+          requests: { cpu: this.value(resource, 'cpu', 1), memoryInGB: this.value(resource, 'memory', 1) }
+        },
+        environmentVariables: environment.length > 0 ? environment : undefined
+      }],
+      ipAddress: { type: 'Public', ports: [{ port: 80, protocol: 'TCP' }] }
+    }, { primary: true, endpoint: { code: "ipAddress.apply(address => address?.ip ?? '')", env: 'IP' } });
+  }
+
+  private azureCosmosAccount(resource: ModelResource): void {
+    const api = String(resource.properties.api || 'sql');
+    const capability = { mongodb: 'EnableMongo', cassandra: 'EnableCassandra', gremlin: 'EnableGremlin', table: 'EnableTable' }[api];
+
+    const account = this.declare(resource, '', 'azure.documentdb.DatabaseAccount', {
+      resourceGroupName: code('resourceGroup.name'),
+      kind: api === 'mongodb' ? 'MongoDB' : 'GlobalDocumentDB',
+      databaseAccountOfferType: 'Standard',
+      locations: [{ locationName: code('resourceGroup.location'), failoverPriority: 0 }],
+      consistencyPolicy: {
+        defaultConsistencyLevel: AZURE_CONSISTENCY_LEVELS[String(resource.properties.consistencyLevel || 'session')] || 'Session'
+      },
+      capabilities: capability ? [{ name: capability }] : undefined
+    }, { primary: true, endpoint: { code: 'documentEndpoint', env: 'ENDPOINT' } });
+
+    if (api === 'sql') {
+      const databaseName = kebabCase(resource.name) || 'db';
+      this.declare(resource, 'database', 'azure.documentdb.SqlResourceSqlDatabase', {
+        resourceGroupName: code('resourceGroup.name'),
+        accountName: code(`${account}.name`),
+        resource: { id: databaseName },
+        options: { throughput: this.value(resource, 'throughput', 400) }
+      });
+    }
+  }
+
+  private azureRedis(resource: ModelResource): void {
+    const tier = String(resource.properties.tier || 'standard');
+    const family = tier === 'premium' ? 'P' : 'C';
+    const sizes: Record<string, { C: number; P: number }> = {
+      '0.25': { C: 0, P: 1 }, '1': { C: 1, P: 1 }, '2.5': { C: 2, P: 1 }, '6': { C: 3, P: 1 }, '13': { C: 4, P: 2 }
+    };
+    const capacity = sizes[String(resource.properties.capacity || '1')] || sizes['1'];
+
+    this.declare(resource, '', 'azure.cache.Redis', {
+      resourceGroupName: code('resourceGroup.name'),
+      sku: { name: tier[0].toUpperCase() + tier.slice(1), family, capacity: capacity[family] },
+      enableNonSslPort: this.value(resource, 'enableNonSslPort', false),
+      minimumTlsVersion: '1.2'
+    }, { primary: true, endpoint: { code: 'hostName', env: 'HOST' } });
+  }
+
+  private azureCdn(resource: ModelResource): void {
+    const skus: Record<string, string> = { microsoft: 'Standard_Microsoft', akamai: 'Standard_Akamai', verizon: 'Standard_Verizon' };
+    const origin = this.targets(resource).find(target => target.kind === 'webApp' || target.kind === 'bucket');
+    if (origin) this.wire(resource, origin.resource);
+
+    const profile = this.declare(resource, '', 'azure.cdn.Profile', {
+      resourceGroupName: code('resourceGroup.name'),
+      location: 'global',
+      sku: { name: skus[String(resource.properties.provider || 'microsoft')] || skus.microsoft }
+    }, { primary: true });
+
+    if (!origin) {
+      this.warnings.push(`${resource.name} has no arrow to a web app or storage account, so no CDN endpoint was generated`);
+      return;
+    }
+
+    const host = origin.kind === 'webApp'
+      ? code(`${origin.variable}.defaultHostName`)
+      : code(`${origin.variable}.primaryEndpoints.apply(endpoints => new URL(endpoints.blob).host)`);
+
+    this.declare(resource, 'endpoint', 'azure.cdn.Endpoint', {
+      resourceGroupName: code('resourceGroup.name'),
+      profileName: code(`${profile}.name`),
+      location: 'global',
+      isHttpAllowed: !this.isEnabled(resource, 'httpsOnly', false),
+      isHttpsAllowed: true,
+      originHostHeader: host,
+      origins: [{ name: 'origin', hostName: host }]
+    });
+  }
+
+  private azureKeyVault(resource: ModelResource): void {
+    this.preamble.set('clientConfig', 'const clientConfig = azure.authorization.getClientConfigOutput();');
+    this.declare(resource, '', 'azure.keyvault.Vault', {
+      resourceGroupName: code('resourceGroup.name'),
+      properties: {
+        tenantId: code('clientConfig.tenantId'),
+        sku: { family: 'A', name: this.value(resource, 'tier', 'standard') },
+        enableRbacAuthorization: true,
+        enableSoftDelete: this.value(resource, 'softDeleteEnabled', true),
+        // Purge protection can only be switched on, so false is left out
+        enablePurgeProtection: this.isEnabled(resource, 'purgeProtection', false) ? true : undefined
+      }
+    }, { primary: true, endpoint: { code: "properties.apply(properties => properties.vaultUri ?? '')", env: 'URI' } });
+  }
+
+  private azureWorkspace(resource: ModelResource): void {
+    this.declare(resource, '', 'azure.operationalinsights.Workspace', {
+      resourceGroupName: code('resourceGroup.name'),
+      sku: { name: 'PerGB2018' },
+      retentionInDays: this.value(resource, 'retentionDays', 30)
+    }, { primary: true, endpoint: { code: 'customerId', env: 'WORKSPACE_ID' } });
+  }
+
+  // Google Cloud
+
+  private addGcp(resource: ModelResource, kind: PulumiKind): void {
+    switch (kind) {
+      case 'network':
+        return this.gcpNetwork(resource);
+      case 'subnet':
+        return this.gcpSubnetwork(resource);
+      case 'vm':
+        return this.gcpInstance(resource);
+      case 'database':
+        return this.gcpSqlInstance(resource);
+      case 'bucket':
+        return this.gcpBucket(resource);
+      case 'function':
+        return this.gcpFunction(resource);
+      case 'container':
+        return this.gcpCloudRun(resource);
+      case 'cache':
+        return this.gcpRedis(resource);
+      case 'topic':
+        return this.gcpTopic(resource);
+      case 'secret':
+        return this.gcpSecret(resource);
+      case 'firestore':
+        return this.gcpFirestore(resource);
+      case 'spanner':
+        return this.gcpSpanner(resource);
+      default:
+        this.unsupported(resource);
+    }
+  }
+
+  private gcpNetwork(resource: ModelResource): void {
+    const network = this.declare(resource, '', 'gcp.compute.Network', {
+      autoCreateSubnetworks: false
+    }, { primary: true });
+    this.output(`${network}Id`, `${network}.id`);
+  }
+
+  private gcpSubnetwork(resource: ModelResource): void {
+    const network = this.containing(resource, 'network');
+    if (!network) {
+      this.warnings.push(`Subnet ${resource.name} is not inside a VPC network and was skipped`);
+      return;
+    }
+
+    this.declare(resource, '', 'gcp.compute.Subnetwork', {
+      network: code(`${this.variable(network)}.id`),
+      ipCidrRange: this.subnetCidr(resource, network),
+      privateIpGoogleAccess: true
+    }, { primary: true });
+  }
+
+  private gcpInstance(resource: ModelResource): void {
+    const subnet = this.containing(resource, 'subnet');
+    const machineType = String(resource.properties.instanceType || '');
+    const defaultType = String(resource.metadata?.providerMappings.gcp?.metadata?.defaultMachineType || 'e2-micro');
+
+    this.declare(resource, '', 'gcp.compute.Instance', {
+      machineType: /^[a-z][0-9a-z]*-/.test(machineType) ? machineType : defaultType,
+      bootDisk: {
+        initializeParams: {
+          image: resource.properties.operatingSystem === 'windows' ? 'windows-cloud/windows-2022' : 'debian-cloud/debian-12'
+        }
+      },
+      networkInterfaces: [{
+        ...(subnet ? { subnetwork: code(`${this.variable(subnet)}.id`) } : { network: 'default' }),
+        accessConfigs: subnet && isPublicSubnet(subnet) ? [{}] : undefined
+      }]
+    }, { primary: true, endpoint: { code: 'networkInterfaces[0].networkIp', env: 'PRIVATE_IP' } });
+  }
+
+  private gcpSqlInstance(resource: ModelResource): void {
+    const engine = String(resource.properties.engine || 'mysql');
+    if (!CLOUD_SQL_VERSIONS[engine]) {
+      this.warnings.push(`${resource.name} uses ${engine}, which Cloud SQL does not offer; PostgreSQL was used instead`);
+    }
+
+    this.declare(resource, '', 'gcp.sql.DatabaseInstance', {
+      databaseVersion: CLOUD_SQL_VERSIONS[engine] || CLOUD_SQL_VERSIONS.postgresql,
+      settings: {
+        tier: engine === 'sqlserver' ? 'db-custom-2-3840' : 'db-f1-micro',
+        availabilityType: this.isEnabled(resource, 'multiAz', false) ? 'REGIONAL' : 'ZONAL'
+      },
+      deletionProtection: false
+    }, { primary: true, endpoint: { code: 'connectionName', env: 'CONNECTION_NAME' } });
+  }
+
+  private gcpBucket(resource: ModelResource): void {
+    this.declare(resource, '', 'gcp.storage.Bucket', {
+      location: String(resource.properties.location || 'US').toUpperCase(),
+      storageClass: GCS_STORAGE_CLASSES[String(resource.properties.storageClass || 'standard')] || 'STANDARD',
+      uniformBucketLevelAccess: true,
+      versioning: this.isEnabled(resource, 'versioning', false) ? { enabled: true } : undefined
+    }, { primary: true, endpoint: { code: 'name', env: 'BUCKET_NAME' } });
+  }
+
+  private gcpFunction(resource: ModelResource): void {
+    const family = runtimeFamily(resource.properties.runtime);
+    const runtime = /\d/.test(String(resource.properties.runtime)) ? String(resource.properties.runtime) : GCF_RUNTIMES[family] || GCF_RUNTIMES.nodejs;
+    const region = this.gcpRegion();
+
+    const sourceBucket = this.declare(resource, 'source', 'gcp.storage.Bucket', {
+      location: 'US',
+      uniformBucketLevelAccess: true
+    });
+    const sourceObject = this.declare(resource, 'source archive', 'gcp.storage.BucketObject', {
+      bucket: code(`${sourceBucket}.name`),
+      source: this.handlerArchive(resource, family, GCF_INLINE_HANDLERS)
+    });
+
+    const environment = this.environment(resource);
+    this.declare(resource, '', 'gcp.cloudfunctionsv2.Function', {
+      location: code(region),
+      buildConfig: {
+        runtime,
+        entryPoint: 'handler',
+        source: { storageSource: { bucket: code(`${sourceBucket}.name`), object: code(`${sourceObject}.name`) } }
+      },
+      serviceConfig: {
+        availableMemory: `${resource.properties.memory ?? 256}M`,
+        timeoutSeconds: this.value(resource, 'timeout', 60),
+        environmentVariables: Object.keys(environment).length > 0 ? environment : undefined
+      }
+    }, { primary: true, endpoint: { code: 'url', env: 'URL' } });
+  }
+
+  private gcpCloudRun(resource: ModelResource): void {
+    const environment = Object.entries(this.environment(resource)).map(([name, value]) => ({ name, value }));
+    this.declare(resource, '', 'gcp.cloudrunv2.Service', {
+      location: code(this.gcpRegion()),
+      template: {
+        containers: [{
+          image: this.value(resource, 'image', 'us-docker.pkg.dev/cloudrun/container/hello'),
+          resources: {
+            limits: { cpu: String(resource.properties.cpu ?? '1'), memory: String(resource.properties.memory ?? '512Mi') }
+          },
+          envs: environment.length > 0 ? environment : undefined
+        }],
+        scaling: { maxInstanceCount: this.value(resource, 'maxInstances', 100) }
+      }
+    }, { primary: true, endpoint: { code: 'uri', env: 'URL' } });
+  }
+
+  private gcpRedis(resource: ModelResource): void {
+    if (resource.properties.engine === 'memcached') {
+      this.warnings.push(`${resource.name} uses Memcached; a Redis instance was generated instead`);
+    }
+    const network = this.containing(resource, 'network');
+    const version = String(resource.properties.version || '6.x').replace(/\.x$/, '').replace('.', '_');
+
+    this.declare(resource, '', 'gcp.redis.Instance', {
+      tier: resource.properties.tier === 'basic' ? 'BASIC' : 'STANDARD_HA',
+      memorySizeGb: this.value(resource, 'memorySizeGb', 1),
+      redisVersion: `REDIS_${version}${version.includes('_') ? '' : '_X'}`,
+      authorizedNetwork: network ? code(`${this.variable(network)}.id`) : undefined
+    }, { primary: true, endpoint: { code: 'host', env: 'HOST' } });
+  }
+
+  private gcpTopic(resource: ModelResource): void {
+    const days = Number(resource.properties.messageRetentionDuration ?? 7);
+    const topic = this.declare(resource, '', 'gcp.pubsub.Topic', {
+      name: this.value(resource, 'topicName', kebabCase(resource.name)),
+      messageRetentionDuration: `${days * 86400}s`
+    }, { primary: true, endpoint: { code: 'name', env: 'TOPIC' } });
+
+    // Delivery guarantees belong to subscriptions in Pub/Sub
+    const exactlyOnce = this.isEnabled(resource, 'exactlyOnceDelivery', false);
+    const ordering = this.isEnabled(resource, 'messageOrdering', false);
+    if (exactlyOnce || ordering) {
+      this.declare(resource, 'subscription', 'gcp.pubsub.Subscription', {
+        topic: code(`${topic}.id`),
+        enableExactlyOnceDelivery: exactlyOnce || undefined,
+        enableMessageOrdering: ordering || undefined
+      });
+    }
+  }
+
+  private gcpSecret(resource: ModelResource): void {
+    const days = Number(resource.properties.ttl ?? 0);
+    if (this.isEnabled(resource, 'rotation', false)) {
+      this.warnings.push(`${resource.name} enables rotation, which needs a Pub/Sub topic; rotation was left out`);
+    }
+
+    this.declare(resource, '', 'gcp.secretmanager.Secret', {
+      secretId: this.value(resource, 'secretName', kebabCase(resource.name)),
+      replication: { auto: {} },
+      ttl: days > 0 ? `${days * 86400}s` : undefined
+    }, { primary: true, endpoint: { code: 'secretId', env: 'SECRET_ID' } });
+  }
+
+  private gcpFirestore(resource: ModelResource): void {
+    this.declare(resource, '', 'gcp.firestore.Database', {
+      name: this.value(resource, 'databaseId', '(default)'),
+      locationId: this.isEnabled(resource, 'multiRegion', false) ? 'nam5' : this.value(resource, 'location', 'us-central1'),
+      type: resource.properties.mode === 'datastore' ? 'DATASTORE_MODE' : 'FIRESTORE_NATIVE'
+    }, { primary: true, endpoint: { code: 'name', env: 'DATABASE' } });
+  }
+
+  private gcpSpanner(resource: ModelResource): void {
+    const processingUnits = Number(resource.properties.processingUnits ?? 0);
+    this.declare(resource, '', 'gcp.spanner.Instance', {
+      name: this.value(resource, 'instanceId', kebabCase(resource.name)),
+      config: this.value(resource, 'config', 'regional-us-central1'),
+      displayName: resource.name.slice(0, 30),
+      // Spanner accepts either nodes or processing units, not both
+      processingUnits: processingUnits > 0 ? processingUnits : undefined,
+      numNodes: processingUnits > 0 ? undefined : this.value(resource, 'nodes', 1)
+    }, { primary: true, endpoint: { code: 'name', env: 'INSTANCE' } });
+  }
+
+  private gcpRegion(): string {
+    this.preamble.set('region', "const region = gcp.config.region ?? 'us-central1';");
+    return 'region';
+  }
+
+  // Shared helpers
+
+  private unsupported(resource: ModelResource): void {
+    this.warnings.push(`${resource.name} (${resource.componentId}) has no ${CLOUD_NAMES[this.cloud]} mapping in the Pulumi export and was skipped`);
+  }
+
+  // Declare a resource; the primary one is what arrows and other resources refer to
+  private declare(
+    source: ModelResource,
+    suffix: string,
+    type: string,
+    args: Record<string, TsValue>,
+    options: { primary?: boolean; endpoint?: PulumiEndpoint; dependsOn?: string[] } = {}
+  ): string {
+    const variable = this.identifier(`${toCamelCase(source.logicalName)}${suffix ? toPascalCase(suffix) : ''}`);
+    const name = this.logicalName([kebabCase(source.name) || kebabCase(source.logicalName), kebabCase(suffix)].filter(Boolean).join('-'));
+    const dependsOn = [...(options.dependsOn || [])];
+
+    if (options.primary) {
+      // Arrows that didn't turn into a reference still order the deployment
+      for (const target of this.targets(source)) {
+        if (!this.wired.has(`${source.id}->${target.resource.id}`) && !dependsOn.includes(target.variable)) {
+          dependsOn.push(target.variable);
+        }
+      }
+    }
+
+    const resourceOptions = dependsOn.length > 0 ? `, { dependsOn: [${dependsOn.join(', ')}] }` : '';
+    this.current.push(`const ${variable} = new ${type}('${name}', ${renderTs(args, 0)}${resourceOptions});`);
+
+    if (options.primary) {
+      const kind = this.kinds.get(source.id) as PulumiKind;
+      const endpoint = options.endpoint
+        ? { ...options.endpoint, code: options.endpoint.absolute ? options.endpoint.code : `${variable}.${options.endpoint.code}` }
+        : undefined;
+      this.refs.set(source.id, { variable, kind, endpoint });
+      if (endpoint) this.output(`${variable}${toPascalCase(endpoint.env.toLowerCase())}`, endpoint.code);
+    }
+
+    return variable;
+  }
+
+  // Environment variables pointing at the resources this one has arrows to
+  private environment(resource: ModelResource): Record<string, Code> {
+    const environment: Record<string, Code> = {};
+    for (const target of this.targets(resource)) {
+      if (!target.endpoint) continue;
+      environment[`${constantCase(target.resource.logicalName)}_${target.endpoint.env}`] = code(target.endpoint.code);
+      this.wire(resource, target.resource);
+    }
+    return environment;
+  }
+
+  // Already declared resources this one has arrows to
+  private targets(resource: ModelResource): PulumiTarget[] {
+    const targets: PulumiTarget[] = [];
+    for (const link of this.model.links) {
+      const ref = link.from === resource.id ? this.refs.get(link.to) : undefined;
+      const target = ref ? this.model.resources.find(r => r.id === link.to) : undefined;
+      if (ref && target && !targets.some(t => t.resource === target)) {
+        targets.push({ resource: target, ...ref });
+      }
+    }
+    return targets;
+  }
+
+  private wire(source: ModelResource, target: ModelResource): void {
+    this.wired.add(`${source.id}->${target.id}`);
+  }
+
+  private handlerArchive(resource: ModelResource, family: string, handlers = INLINE_HANDLERS): Code {
+    const handler = handlers[family];
+    if (!handler) {
+      const folder = `./functions/${kebabCase(resource.name) || 'function'}`;
+      this.warnings.push(`${resource.name} uses a ${family} runtime; put its build output in ${folder}`);
+      return code(`new pulumi.asset.FileArchive('${folder}')`);
+    }
+    return code(`new pulumi.asset.AssetArchive({\n  '${handler.file}': new pulumi.asset.StringAsset(${JSON.stringify(handler.code)}),\n})`);
+  }
+
+  private addParameter(parameter: PatternParameter): void {
+    const key = toCamelCase(parameter.id);
+    const variable = this.identifier(key);
+    const getter = parameter.type === 'number' ? 'Number'
+      : parameter.type === 'boolean' ? 'Boolean'
+        : parameter.type === 'multiselect' ? 'Object<string[]>'
+          : '';
+
+    let expression: string;
+    if (parameter.defaultValue !== undefined) {
+      expression = `config.get${getter}('${key}') ?? ${renderTs(parameter.defaultValue as TsValue, 0)}`;
+      this.config[key] = parameter.defaultValue;
+    } else if (parameter.required) {
+      expression = `config.require${getter}('${key}')`;
+    } else {
+      expression = `config.get${getter}('${key}')`;
+    }
+
+    this.configLines.push(`// ${parameter.description || parameter.name}`, `const ${variable} = ${expression};`);
+    this.parameterVariables.set(parameter.id, variable);
+  }
+
+  private secret(key: string): string {
+    if (!this.secrets.includes(key)) {
+      this.secrets.push(key);
+      this.identifiers.add(key);
+      this.configLines.push(`const ${key} = config.requireSecret('${key}');`);
+    }
+    return key;
+  }
+
+  // Property values; ${parameter_id} references in pattern configuration read the stack config
+  private value(resource: ModelResource, propertyId: string, fallback: TsValue): TsValue {
+    const value = resource.properties[propertyId] ?? fallback;
+    if (typeof value === 'string' && value.includes('${')) {
+      const whole = value.match(/^\$\{([^}]+)\}$/);
+      if (whole && this.parameterVariables.has(whole[1])) {
+        return code(this.parameterVariables.get(whole[1]) as string);
+      }
+      const interpolated = value.replace(/\$\{([^}]+)\}/g, (match, id: string) =>
+        this.parameterVariables.has(id) ? `\${${this.parameterVariables.get(id)}}` : match.replace('$', '\\$')
+      );
+      return code(`\`${interpolated.replace(/`/g, '\\`')}\``);
+    }
+    if (typeof value === 'string' || typeof value === 'number' || typeof value === 'boolean') return value;
+    return fallback;
+  }
+
+  private isEnabled(resource: ModelResource, propertyId: string, fallback: boolean): boolean {
+    const value = resource.properties[propertyId];
+    if (value === undefined || value === null || value === '') return fallback;
+    return value === true || value === 'true';
+  }
+
+  private output(name: string, expression: string): void {
+    this.outputs.push(`export const ${this.identifier(name)} = ${expression};`);
+  }
+
+  private identifier(base: string): string {
+    let name = base;
+    for (let i = 2; this.identifiers.has(name); i++) {
+      name = `${base}${i}`;
+    }
+    this.identifiers.add(name);
+    return name;
+  }
+
+  private logicalName(base: string): string {
+    let name = base || 'resource';
+    for (let i = 2; this.logicalNames.has(name); i++) {
+      name = `${base}-${i}`;
+    }
+    this.logicalNames.add(name);
+    return name;
+  }
+
+  private variable(resource: ModelResource): string {
+    return (this.refs.get(resource.id) as PulumiRef).variable;
+  }
+
+  private containing(resource: ModelResource, kind: PulumiKind): ModelResource | undefined {
+    return getResourceAncestors(this.model, resource).find(ancestor =>
+      this.kinds.get(ancestor.id) === kind && (kind === 'zone' || this.refs.has(ancestor.id))
+    );
+  }
+
+  private subnetsIn(network: ModelResource): ModelResource[] {
+    return this.model.resources.filter(resource =>
+      this.kinds.get(resource.id) === 'subnet' && getResourceAncestors(this.model, resource).includes(network)
+    );
+  }
+
+  // Availability zones are numbered in the order they are drawn, otherwise subnets alternate
+  private zoneIndex(subnet: ModelResource, network: ModelResource): number {
+    const zone = this.containing(subnet, 'zone');
+    if (zone) {
+      const zones = this.model.resources.filter(resource =>
+        this.kinds.get(resource.id) === 'zone' && getResourceAncestors(this.model, resource).includes(network)
+      );
+      return Math.max(zones.indexOf(zone), 0);
+    }
+    return this.subnetsIn(network).indexOf(subnet) % 2;
+  }
+
+  // Subnets still sharing the default CIDR get consecutive blocks of the network range
+  private subnetCidr(subnet: ModelResource, network: ModelResource): TsValue {
+    const cidr = subnet.properties.cidrBlock;
+    const siblings = this.subnetsIn(network);
+    const isShared = siblings.some(other => other !== subnet && other.properties.cidrBlock === cidr);
+    if (typeof cidr === 'string' && cidr && !isShared) {
+      return this.value(subnet, 'cidrBlock', cidr);
+    }
+    return deriveSubnetCidr(String(network.properties.cidrBlock || '10.0.0.0/16'), siblings.indexOf(subnet));
+  }
+}
+
+function getPulumiKind(resource: ModelResource): PulumiKind | undefined {
+  const { componentId, properties } = resource;
+
+  switch (componentId) {
+    case 'generic-vpc':
+      return 'network';
+    case 'generic-subnet':
+      return 'subnet';
+    case 'generic-availability-zone':
+      return 'zone';
+    case 'generic-compute': {
+      const type = String(properties.type || '');
+      if (/serverless|function/.test(type)) return 'function';
+      if (/container/.test(type)) return 'container';
+      return 'vm';
+    }
+    case 'generic-database':
+      return 'database';
+    case 'generic-storage':
+    case 'azure-storage-account':
+    case 'gcp-cloud-storage':
+      return 'bucket';
+    case 'aws-lambda':
+    case 'azure-functions':
+    case 'gcp-cloud-functions':
+      return 'function';
+    case 'aws-ecs':
+    case 'azure-container-instances':
+    case 'gcp-cloud-run':
+      return 'container';
+    case 'aws-elasticache':
+    case 'azure-cache-redis':
+    case 'gcp-memorystore':
+      return 'cache';
+    case 'aws-cloudfront':
+    case 'azure-cdn':
+      return 'cdn';
+    case 'aws-dynamodb':
+      return 'table';
+    case 'aws-alb':
+      return 'loadBalancer';
+    case 'aws-api-gateway':
+      return 'apiGateway';
+    case 'aws-ecr':
+      return 'registry';
+    case 'aws-ebs':
+      return 'volume';
+    case 'aws-efs':
+      return 'fileSystem';
+    case 'azure-app-service':
+      return 'webApp';
+    case 'azure-cosmos-db':
+      return 'cosmos';
+    case 'azure-key-vault':
+      return 'keyVault';
+    case 'azure-monitor':
+      return 'logs';
+    case 'gcp-pub-sub':
+      return 'topic';
+    case 'gcp-secret-manager':
+      return 'secret';
+    case 'gcp-cloud-firestore':
+      return 'firestore';
+    case 'gcp-cloud-spanner':
+      return 'spanner';
+    default:
+      return undefined;
+  }
+}
+
+function buildRank(kind?: PulumiKind): number {
+  switch (kind) {
+    case 'network':
+      return 0;
+    case 'subnet':
+      return 1;
+    case 'vm':
+    case 'function':
+    case 'container':
+    case 'webApp':
+      return 3;
+    case 'loadBalancer':
+    case 'cdn':
+    case 'apiGateway':
+      return 4;
+    default:
+      return 2;
+  }
+}
+
+function renderProgram(program: PulumiProgram, pkg: { module: string; alias: string }, warnings: string[]): string {
+  const sections: string[] = [];
+
+  if (warnings.length > 0) {
+    sections.push(['// Export warnings:', ...warnings.map(warning => `// - ${warning}`)].join('\n'));
+  }
+  sections.push(`import * as pulumi from '@pulumi/pulumi';\nimport * as ${pkg.alias} from '${pkg.module}';`);
+  sections.push(['const config = new pulumi.Config();', ...program.configLines].join('\n'));
+  if (program.preamble.length > 0) sections.push(program.preamble.join('\n'));
+  sections.push(...program.groups.map(group => group.join('\n')));
+  if (program.outputs.length > 0) sections.push(program.outputs.join('\n'));
+
+  return `${sections.join('\n\n')}\n`;
+}
+
+function renderTs(value: TsValue, indent: number): string {
+  const pad = '  '.repeat(indent + 1);
+  const closing = '  '.repeat(indent);
+
+  if (value instanceof Code) return value.text.replace(/\n/g, `\n${closing}`);
+  if (typeof value === 'string') return `'${value.replace(/\\/g, '\\\\').replace(/'/g, "\\'").replace(/\n/g, '\\n')}'`;
+  if (value === null || value === undefined) return String(value);
+  if (Array.isArray(value)) {
+    if (value.length === 0) return '[]';
+    const items = value.map(item => renderTs(item, indent + 1));
+    const inline = `[${items.join(', ')}]`;
+    if (value.every(item => typeof item !== 'object' || item instanceof Code) && inline.length <= 80 && !inline.includes('\n')) {
+      return inline;
+    }
+    return `[\n${items.map(item => `${pad}${item},`).join('\n')}\n${closing}]`;
+  }
+  if (typeof value === 'object') {
+    const entries = Object.entries(value).filter(([, item]) => item !== undefined);
+    if (entries.length === 0) return '{}';
+    const body = entries.map(([key, item]) => `${pad}${/^[a-zA-Z_$][a-zA-Z0-9_$]*$/.test(key) ? key : `'${key}'`}: ${renderTs(item, indent + 1)},`);
+    return `{\n${body.join('\n')}\n${closing}}`;
+  }
+  return String(value);
+}
+
+// Names
+
+function toCamelCase(value: string): string {
+  const words = value.replace(/\{\{[^}]*\}\}/g, '').split(/[^a-zA-Z0-9]+/).filter(Boolean);
+  const name = words
+    .map((word, i) => (i === 0 ? word[0].toLowerCase() : word[0].toUpperCase()) + word.slice(1))
+    .join('');
+  return /^[a-zA-Z]/.test(name) ? name : `r${name}`;
+}
+
+function toPascalCase(value: string): string {
+  const name = toCamelCase(value);
+  return name[0].toUpperCase() + name.slice(1);
+}
+
+function runtimeFamily(runtime: unknown): string {
+  const family = String(runtime || 'nodejs').replace(/[0-9.x]+$/, '').replace(/^node$/, 'nodejs');
+  return family.startsWith('python') ? 'python' : family.startsWith('java') ? 'java' : family;
+}
+
+function deriveSubnetCidr(networkCidr: string, index: number): string {
+  const [address, bits] = networkCidr.split('/');
+  const prefix = Number(bits) || 16;
+  const newPrefix = prefix < 24 ? 24 : Math.min(prefix + 2, 28);
+  const base = address.split('.').reduce((total, octet) => total * 256 + (Number(octet) || 0), 0);
+  const start = base + Math.max(index, 0) * 2 ** (32 - newPrefix);
+  const octets = [24, 16, 8, 0].map(shift => Math.floor(start / 2 ** shift) % 256);
+  return `${octets.join('.')}/${newPrefix}`;
+}
+
+function formatTimeSpan(seconds: number): string {
+  const pad = (n: number) => String(Math.floor(n)).padStart(2, '0');
+  return `${pad(seconds / 3600)}:${pad((seconds % 3600) / 60)}:${pad(seconds % 60)}`;
+}
+
+// Helper types
+type PulumiKind =
+  | 'network' | 'subnet' | 'zone' | 'vm' | 'database' | 'bucket' | 'function' | 'container' | 'webApp'
+  | 'cache' | 'table' | 'loadBalancer' | 'cdn' | 'apiGateway' | 'registry' | 'volume' | 'fileSystem'
+  | 'cosmos' | 'keyVault' | 'logs' | 'topic' | 'secret' | 'firestore' | 'spanner';
+
+type TsValue = string | number | boolean | null | undefined | Code | TsValue[] | { [key: string]: TsValue };
+
+interface PulumiEndpoint {
+  code: string;
+  env: string;
+  absolute?: boolean;
+}
+
+interface PulumiRef {
+  variable: string;
+  kind: PulumiKind;
+  endpoint?: PulumiEndpoint;
+}
+
+interface PulumiTarget extends PulumiRef {
+  resource: ModelResource;
+}
+
+interface PulumiProgram {
+  preamble: string[];
+  configLines: string[];
+  groups: string[][];
+  outputs: string[];
+  config: Record<string, unknown>;
+  secrets: string[];
+  warnings: string[];
+}
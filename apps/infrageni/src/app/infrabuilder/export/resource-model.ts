@@ -0,0 +1,255 @@
+import { ComponentRegistry } from '../components/core/component-registry';
+import { ComponentMetadata, ComponentProperty } from '../components/core/component-types';
+import { InfrastructurePattern, PatternParameter, RelationshipType } from '../patterns/core/pattern-types';
+import { ExportData } from './export-utils';
+
+// Provider-neutral resource model shared by the infrastructure-as-code exporters.
+// Canvas exports and pattern exports are both normalized into this shape first, so
+// each exporter only has to map resources, containment and links to its own syntax.
+
+export type ResourceProvider = 'aws' | 'azure' | 'gcp' | 'generic';
+
+export interface ModelResource {
+  id: string;
+  name: string;
+  logicalName: string;
+  componentId: string;
+  provider: ResourceProvider;
+  metadata?: ComponentMetadata;
+  properties: Record<string, unknown>;
+  isContainer: boolean;
+  parentId?: string;
+  children: string[];
+  dependsOn: string[];
+}
+
+export interface ModelLink {
+  id: string;
+  from: string;
+  to: string;
+  label?: string;
+  type?: string;
+}
+
+export interface ResourceModel {
+  name: string;
+  description: string;
+  resources: ModelResource[];
+  links: ModelLink[];
+  parameters: PatternParameter[];
+}
+
+// Shape presentation props that end up in canvas item properties but are not configuration
+const PRESENTATION_PROPS = new Set(['w', 'h', 'color', 'label', 'componentId', 'isBoundingBox', 'opacity', 'planChange', 'pinned', 'hidden']);
+
+// Build the resource model from canvas export data
+export function buildModelFromCanvas(data: ExportData, name = 'Infrastructure Diagram'): ResourceModel {
+  const naming = new LogicalNames();
+  const resources: ModelResource[] = [];
+
+  for (const item of data.items) {
+    const rawProperties = item.properties || {};
+    const componentId = resolveComponentId(String(rawProperties.componentId || item.key.split('-shape:')[0]));
+    const metadata = ComponentRegistry.getInstance().getComponent(componentId);
+
+    const overrides: Record<string, unknown> = {};
+    for (const [key, value] of Object.entries(rawProperties)) {
+      if (!PRESENTATION_PROPS.has(key) && value !== undefined) {
+        overrides[key] = value;
+      }
+    }
+
+    resources.push({
+      id: item.id,
+      name: item.label,
+      logicalName: naming.next(item.label || componentId),
+      componentId,
+      provider: getProvider(componentId),
+      metadata,
+      properties: { ...getDefaultProperties(metadata), ...overrides },
+      isContainer: !!item.isBoundingBox,
+      parentId: item.parentId,
+      children: item.children ? [...item.children] : [],
+      dependsOn: []
+    });
+  }
+
+  linkChildren(resources);
+
+  return {
+    name,
+    description: `Generated from ${name}`,
+    resources,
+    links: data.connections.map(connection => ({
+      id: connection.id,
+      from: connection.from,
+      to: connection.to,
+      label: connection.label
+    })),
+    parameters: []
+  };
+}
+
+// Build the resource model from a pattern; containment relationships become parents
+export function buildModelFromPattern(pattern: InfrastructurePattern): ResourceModel {
+  const naming = new LogicalNames();
+  const parents = new Map<string, string>();
+  const links: ModelLink[] = [];
+
+  for (const relationship of pattern.relationships) {
+    if (relationship.relationshipType === RelationshipType.CONTAINMENT) {
+      parents.set(relationship.toInstanceId, relationship.fromInstanceId);
+    } else {
+      links.push({
+        id: relationship.id,
+        from: relationship.fromInstanceId,
+        to: relationship.toInstanceId,
+        label: relationship.metadata.description,
+        type: relationship.relationshipType
+      });
+    }
+  }
+
+  const resources: ModelResource[] = pattern.components.map(component => {
+    const componentId = resolveComponentId(component.componentId);
+    const metadata = ComponentRegistry.getInstance().getComponent(componentId);
+
+    return {
+      id: component.instanceId,
+      name: component.displayName,
+      logicalName: naming.next(component.displayName || component.instanceId),
+      componentId,
+      provider: getProvider(componentId),
+      metadata,
+      properties: { ...getDefaultProperties(metadata), ...component.configuration },
+      isContainer: !!metadata?.config.isContainer,
+      parentId: parents.get(component.instanceId),
+      children: [],
+      dependsOn: [...component.dependencies]
+    };
+  });
+
+  linkChildren(resources);
+
+  return {
+    name: pattern.name,
+    description: pattern.description,
+    resources,
+    links,
+    parameters: pattern.parameters
+  };
+}
+
+// Ancestors from the direct parent outwards
+export function getResourceAncestors(model: ResourceModel, resource: ModelResource): ModelResource[] {
+  const byId = new Map(model.resources.map(r => [r.id, r]));
+  const ancestors: ModelResource[] = [];
+  const visited = new Set<string>([resource.id]);
+  let parentId = resource.parentId;
+
+  while (parentId && !visited.has(parentId)) {
+    visited.add(parentId);
+    const parent = byId.get(parentId);
+    if (!parent) break;
+    ancestors.push(parent);
+    parentId = parent.parentId;
+  }
+
+  return ancestors;
+}
+
+// Resources an arrow or relationship connects to, in either direction
+export function getLinkedResources(model: ResourceModel, resource: ModelResource): ModelResource[] {
+  const linked: ModelResource[] = [];
+  for (const link of model.links) {
+    const otherId = link.from === resource.id ? link.to : link.to === resource.id ? link.from : undefined;
+    const other = otherId ? model.resources.find(r => r.id === otherId) : undefined;
+    if (other && !linked.includes(other)) {
+      linked.push(other);
+    }
+  }
+  return linked;
+}
+
+// The cloud most provider-specific resources belong to, AWS when the diagram is all generic
+export function getDominantProvider(model: ResourceModel): Exclude<ResourceProvider, 'generic'> {
+  const counts = { aws: 0, azure: 0, gcp: 0 };
+  for (const resource of model.resources) {
+    if (resource.provider !== 'generic') counts[resource.provider]++;
+  }
+  return (Object.keys(counts) as (keyof typeof counts)[]).reduce((best, cloud) => (counts[cloud] > counts[best] ? cloud : best), 'aws');
+}
+
+// Every subnet carries the registry default isPublic: false, so a false flag cannot tell an
+// unticked box from an untouched one. A true flag wins; otherwise the subnet's name decides.
+export function isPublicSubnet(subnet: Pick<ModelResource, 'name' | 'properties'>): boolean {
+  const flag = subnet.properties.isPublic;
+  return flag === true || flag === 'true' || /public/i.test(subnet.name);
+}
+
+// Look up the registry definition of a property, used for parameter types and allowed values
+export function getPropertyDefinition(resource: ModelResource, propertyId: string): ComponentProperty | undefined {
+  return resource.metadata?.config.customProperties.find(p => p.id === propertyId);
+}
+
+// Legacy palette IDs ('vpc', 'compute', ...) map onto the generic components
+export function resolveComponentId(componentId: string): string {
+  const registry = ComponentRegistry.getInstance();
+  if (registry.getComponent(componentId)) return componentId;
+  if (registry.getComponent(`generic-${componentId}`)) return `generic-${componentId}`;
+  return /^(aws|azure|gcp|generic)-/.test(componentId) ? componentId : `generic-${componentId}`;
+}
+
+function getProvider(componentId: string): ResourceProvider {
+  const prefix = componentId.split('-')[0];
+  return prefix === 'aws' || prefix === 'azure' || prefix === 'gcp' ? prefix : 'generic';
+}
+
+function getDefaultProperties(metadata?: ComponentMetadata): Record<string, unknown> {
+  const defaults: Record<string, unknown> = {};
+  for (const property of metadata?.config.customProperties || []) {
+    if (property.defaultValue !== undefined) {
+      defaults[property.id] = property.defaultValue;
+    }
+  }
+  return defaults;
+}
+
+// Keep parent and children lists consistent whichever side the source filled in
+function linkChildren(resources: ModelResource[]): void {
+  const byId = new Map(resources.map(resource => [resource.id, resource]));
+
+  for (const resource of resources) {
+    for (const childId of resource.children) {
+      const child = byId.get(childId);
+      if (child && !child.parentId) child.parentId = resource.id;
+    }
+  }
+
+  for (const resource of resources) {
+    const parent = resource.parentId ? byId.get(resource.parentId) : undefined;
+    if (!parent) {
+      resource.parentId = undefined;
+    } else if (!parent.children.includes(resource.id)) {
+      parent.children.push(resource.id);
+    }
+  }
+}
+
+// PascalCase identifiers that are unique within one model
+class LogicalNames {
+  private used = new Set<string>();
+
+  next(source: string): string {
+    const words = source.replace(/\{\{[^}]*\}\}/g, '').split(/[^a-zA-Z0-9]+/).filter(Boolean);
+    let base = words.map(word => word[0].toUpperCase() + word.slice(1)).join('') || 'Resource';
+    if (/^[0-9]/.test(base)) base = `R${base}`;
+
+    let name = base;
+    for (let i = 2; this.used.has(name); i++) {
+      name = `${base}${i}`;
+    }
+    this.used.add(name);
+    return name;
+  }
+}
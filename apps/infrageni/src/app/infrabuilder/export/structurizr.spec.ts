@@ -0,0 +1,81 @@
+import { ComponentRegistry } from '../components/core/component-registry';
+import { CanvasItem, Connection } from '../types';
+import { generateStructurizrWorkspace } from './structurizr';
+import { canvasModel, item } from './test-canvas';
+
+function exportCanvas(items: CanvasItem[], connections: Connection[] = [], environment?: string): string {
+  return generateStructurizrWorkspace(canvasModel(items, connections), { environment });
+}
+
+describe('generateStructurizrWorkspace', () => {
+  beforeAll(async () => {
+    await ComponentRegistry.getInstance().initialize();
+  });
+
+  const shop = () => exportCanvas(
+    [
+      item('user', 'Customer', 'generic-user'),
+      item('vpc', 'Shop VPC', 'generic-vpc'),
+      item('subnet', 'App Subnet', 'generic-subnet', 'vpc'),
+      item('lb', 'Public LB', 'generic-load-balancer', 'subnet'),
+      item('web', 'Web', 'generic-compute', 'subnet', { instanceType: 't3.small' }),
+      item('db', 'Orders DB', 'generic-database', 'subnet'),
+      item('pay', 'Payments', 'generic-external-system')
+    ],
+    [
+      { id: 'c1', from: 'user', to: 'lb', label: 'HTTPS' },
+      { id: 'c2', from: 'lb', to: 'web' },
+      { id: 'c3', from: 'web', to: 'db', label: 'reads' },
+      { id: 'c4', from: 'web', to: 'pay' }
+    ]
+  );
+
+  it('models people, external systems and the containers of one software system', () => {
+    const workspace = shop();
+
+    expect(workspace).toContain('customer = person "Customer" ""');
+    expect(workspace).toContain('payments = softwareSystem "Payments" "" "External"');
+    expect(workspace).toContain('shop = softwareSystem "Shop" "Generated from Shop" {');
+    expect(workspace).toContain('web = container "Web" "" "Compute Instance" {');
+    expect(workspace).toContain('"instanceType" "t3.small"');
+    expect(workspace).toContain('ordersDB = container "Orders DB" "" "Database, mysql" "Database"');
+  });
+
+  it('carries relationships through infrastructure on to the containers behind it', () => {
+    const workspace = shop();
+
+    expect(workspace).toContain('web -> ordersDB "reads"');
+    expect(workspace).toContain('web -> payments');
+    expect(workspace).toContain('customer -> web "HTTPS"');
+    expect(workspace).not.toMatch(/^\s+customer -> publicLB/m);
+  });
+
+  it('nests deployment nodes like the canvas containers, with network shapes as infrastructure nodes', () => {
+    const workspace = shop();
+    const deployment = workspace.slice(workspace.indexOf('deploymentEnvironment'), workspace.indexOf('views {'));
+
+    expect(deployment).toContain('deploymentEnvironment "Production" {');
+    expect(deployment.indexOf('deploymentNode "Shop VPC"')).toBeLessThan(deployment.indexOf('deploymentNode "App Subnet"'));
+    expect(deployment).toContain('publicLB = infrastructureNode "Public LB" "" "Load Balancer"');
+    expect(deployment).toContain('webInstance = containerInstance web');
+    expect(deployment).toContain('publicLB -> webInstance');
+    expect(workspace).toContain('deployment shop "Production" "Deployment" "Where the containers run" {');
+  });
+
+  it('leaves layout and view flags kept in shape meta out of element properties', () => {
+    const workspace = exportCanvas([item('web', 'Web', 'generic-compute', undefined, { instanceType: 't3.small', pinned: true, hidden: false })]);
+
+    expect(workspace).toContain('"instanceType" "t3.small"');
+    expect(workspace).not.toContain('"pinned"');
+    expect(workspace).not.toContain('"hidden"');
+  });
+
+  it('names the environment and warns about what the views leave out', () => {
+    const workspace = exportCanvas([item('vpc', 'Shop VPC', 'generic-vpc'), item('user', 'User', 'generic-user', 'vpc')], [], 'Staging');
+
+    expect(workspace).toContain('deploymentEnvironment "Staging" {');
+    expect(workspace).toContain('deployment shop "Staging" "Deployment"');
+    expect(workspace).toContain('# - The diagram has no workloads, databases or storage, so the software system has no containers');
+    expect(workspace).toContain('# - User is drawn inside Shop VPC; people are left out of the deployment view');
+  });
+});
@@ -0,0 +1,391 @@
+import { ComponentCategory, ComponentSubcategory } from '../components/core/component-types';
+import { getPropertyDefinition, ModelResource, ResourceModel, ResourceProvider } from './resource-model';
+import { constantCase } from './naming';
+
+// Structurizr DSL export: one workspace holding a C4 model of the diagram, with system context,
+// container and deployment views of it. Users become people, external systems become software
+// systems of their own, and workloads, databases and storage become the containers of one
+// software system named after the diagram. Network and security shapes are not part of the
+// static model; they become infrastructure nodes in the deployment view, whose deployment
+// nodes nest the way VPCs, availability zones and subnets nest on the canvas.
+
+export interface StructurizrExportOptions {
+  // Name of the deployment environment; "Production" by default
+  environment?: string;
+}
+
+type ElementKind = 'person' | 'system' | 'container' | 'infrastructure';
+
+// Categories drawn as infrastructure nodes of the deployment view rather than containers
+const INFRASTRUCTURE_CATEGORIES = [
+  ComponentCategory.NETWORK,
+  ComponentCategory.SECURITY,
+  ComponentCategory.IDENTITY,
+  ComponentCategory.COMPLIANCE,
+  ComponentCategory.DEVOPS,
+  ComponentCategory.MONITORING,
+  ComponentCategory.LOGGING,
+  ComponentCategory.MANAGEMENT,
+  ComponentCategory.GOVERNANCE
+];
+
+// Deployment node around resources that are not inside a network container
+const PROVIDER_NODES: Record<ResourceProvider, string> = {
+  aws: 'Amazon Web Services',
+  azure: 'Microsoft Azure',
+  gcp: 'Google Cloud Platform',
+  generic: 'Infrastructure'
+};
+
+// Styles for the tags the exporter sets, after the Structurizr defaults for C4 diagrams
+const STYLES: [string, Record<string, string>][] = [
+  ['Person', { shape: 'Person', background: '#08427b', color: '#ffffff' }],
+  ['Software System', { background: '#1168bd', color: '#ffffff' }],
+  ['Container', { background: '#438dd5', color: '#ffffff' }],
+  ['External', { background: '#999999', color: '#ffffff' }],
+  ['Database', { shape: 'Cylinder' }],
+  ['Storage', { shape: 'Folder' }],
+  ['Queue', { shape: 'Pipe' }],
+  ['Infrastructure Node', { shape: 'RoundedBox' }]
+];
+
+// The workspace DSL, with export warnings as leading comments
+export function generateStructurizrWorkspace(model: ResourceModel, options: StructurizrExportOptions = {}): string {
+  const result = new StructurizrBuilder(model, options.environment || 'Production').build();
+
+  const header = result.warnings.length > 0
+    ? ['# Export warnings:', ...result.warnings.map(warning => `# - ${warning}`), ''].join('\n')
+    : '';
+
+  return header + result.workspace;
+}
+
+class StructurizrBuilder {
+  private lines: string[] = [];
+  private identifiers = new Map<string, string>();
+  private instances = new Map<string, string>();
+  private used = new Set<string>();
+  private constants = new Map<string, string>();
+  private warnings: string[] = [];
+  private systemId: string;
+
+  constructor(private model: ResourceModel, private environment: string) {
+    this.systemId = this.uniqueIdentifier(camelCase(model.name) || 'softwareSystem');
+    for (const resource of model.resources) {
+      this.identifiers.set(resource.id, this.uniqueIdentifier(camelCase(resource.logicalName) || 'element'));
+    }
+  }
+
+  build(): { workspace: string; warnings: string[] } {
+    const resources = this.model.resources;
+    const people = resources.filter(resource => this.kind(resource) === 'person');
+    const systems = resources.filter(resource => this.kind(resource) === 'system');
+    const containers = resources.filter(resource => this.kind(resource) === 'container');
+
+    if (containers.length === 0) {
+      this.warnings.push('The diagram has no workloads, databases or storage, so the software system has no containers');
+    }
+
+    this.write(1, 'model {');
+    for (const resource of people) {
+      this.element(2, `person ${quote(resource.name)} ${quote(this.description(resource))}`, resource);
+    }
+    for (const resource of systems) {
+      this.element(2, `softwareSystem ${quote(resource.name)} ${quote(this.description(resource))} "External"`, resource);
+    }
+
+    this.write(2, `${this.systemId} = softwareSystem ${quote(this.model.name)} ${quote(this.model.description || '')} {`);
+    for (const resource of containers) {
+      this.element(3, `container ${quote(resource.name)} ${quote(this.description(resource))} ${quote(this.technology(resource))}${this.tags(resource)}`, resource);
+    }
+    this.write(2, '}');
+
+    const relationships = this.relationships();
+    if (relationships.length > 0) {
+      this.write(0, '');
+      relationships.forEach(relationship => this.write(2, relationship));
+    }
+
+    this.write(0, '');
+    this.deployment();
+    this.write(1, '}');
+
+    this.write(0, '');
+    this.views();
+
+    const constants = Array.from(this.constants).map(([name, value]) => `    !const ${name} ${quote(value)}`);
+    const workspace = [
+      `workspace ${quote(this.model.name)} ${quote(this.model.description || '')} {`,
+      ...(constants.length > 0 ? [...constants, ''] : []),
+      ...this.lines,
+      '}',
+      ''
+    ].join('\n');
+
+    return { workspace, warnings: this.warnings };
+  }
+
+  // Arrows between people, systems and containers; arrows through load balancers, gateways and
+  // other infrastructure connect the elements on either side, labelled like the arrow in
+  private relationships(): string[] {
+    const relationships: string[] = [];
+    const written = new Set<string>();
+    const add = (from: ModelResource, to: ModelResource, label?: string) => {
+      const key = `${from.id}->${to.id}`;
+      if (from.id === to.id || written.has(key)) return;
+      written.add(key);
+      relationships.push(`${this.identifiers.get(from.id)} -> ${this.identifiers.get(to.id)}${label ? ` ${quote(this.text(label))}` : ''}`);
+    };
+
+    const byId = new Map(this.model.resources.map(resource => [resource.id, resource]));
+    const isStatic = (resource?: ModelResource): resource is ModelResource => {
+      const kind = resource ? this.kind(resource) : undefined;
+      return kind === 'person' || kind === 'system' || kind === 'container';
+    };
+
+    for (const link of this.model.links) {
+      const from = byId.get(link.from);
+      const to = byId.get(link.to);
+      if (isStatic(from) && isStatic(to)) add(from, to, link.label);
+    }
+
+    // Direct arrows come first, so their labels win over the ones derived through infrastructure
+    for (const link of this.model.links) {
+      const from = byId.get(link.from);
+      const to = byId.get(link.to);
+      if (!isStatic(from) || !to || this.kind(to) !== 'infrastructure') continue;
+
+      const reached = this.throughInfrastructure(to, byId).filter(isStatic);
+      if (reached.length === 0 && this.kind(from) === 'person') {
+        this.warnings.push(`The arrow from ${from.name} to ${to.name} does not lead on to a container, so ${from.name} has no relationship to the system`);
+      }
+      reached.forEach(target => add(from, target, link.label));
+    }
+
+    return relationships;
+  }
+
+  // Resources reached by following arrows onward from an infrastructure node
+  private throughInfrastructure(start: ModelResource, byId: Map<string, ModelResource>): ModelResource[] {
+    const reached: ModelResource[] = [];
+    const visited = new Set([start.id]);
+    const queue = [start];
+
+    while (queue.length > 0) {
+      const current = queue.shift() as ModelResource;
+      for (const link of this.model.links) {
+        const next = link.from === current.id ? byId.get(link.to) : undefined;
+        if (!next || visited.has(next.id)) continue;
+        visited.add(next.id);
+        if (this.kind(next) === 'infrastructure') {
+          queue.push(next);
+        } else if (!next.isContainer) {
+          reached.push(next);
+        }
+      }
+    }
+    return reached;
+  }
+
+  // Deployment nodes for the containers on the canvas, holding container and software system
+  // instances and infrastructure nodes; shapes outside any container share a provider node, except
+  // external systems, which only have an instance when drawn inside the network
+  private deployment(): void {
+    this.write(2, `deploymentEnvironment ${quote(this.environment)} {`);
+
+    const roots = this.model.resources.filter(resource => !resource.parentId || !this.model.resources.some(r => r.id === resource.parentId));
+    for (const resource of roots.filter(r => r.isContainer)) {
+      this.deploymentNode(3, resource);
+    }
+
+    const unplaced = roots.filter(resource => !resource.isContainer && this.deployable(resource) && this.kind(resource) !== 'system');
+    if (unplaced.length > 0) {
+      const providers = Array.from(new Set(this.model.resources.map(resource => resource.provider).filter(provider => provider !== 'generic')));
+      const name = providers.length === 1 ? PROVIDER_NODES[providers[0]] : PROVIDER_NODES.generic;
+      this.write(3, `deploymentNode ${quote(name)} {`);
+      unplaced.forEach(resource => this.deployed(4, resource));
+      this.write(3, '}');
+    }
+
+    for (const resource of this.model.resources) {
+      if (this.kind(resource) === 'person' && resource.parentId) {
+        const parent = this.model.resources.find(r => r.id === resource.parentId);
+        this.warnings.push(`${resource.name} is drawn inside ${parent?.name ?? 'a container'}; people are left out of the deployment view`);
+      }
+    }
+
+    // Arrows to and from infrastructure only exist between deployed instances
+    const written = new Set<string>();
+    for (const link of this.model.links) {
+      const from = this.model.resources.find(resource => resource.id === link.from);
+      const to = this.model.resources.find(resource => resource.id === link.to);
+      if (!from || !to || (this.kind(from) !== 'infrastructure' && this.kind(to) !== 'infrastructure')) continue;
+
+      const fromId = this.instances.get(from.id);
+      const toId = this.instances.get(to.id);
+      if (!fromId || !toId || fromId === toId || written.has(`${fromId}->${toId}`)) continue;
+      written.add(`${fromId}->${toId}`);
+      this.write(3, `${fromId} -> ${toId}${link.label ? ` ${quote(this.text(link.label))}` : ''}`);
+    }
+
+    this.write(2, '}');
+  }
+
+  private deploymentNode(depth: number, resource: ModelResource): void {
+    this.write(depth, `deploymentNode ${quote(resource.name)} ${quote(this.description(resource))} ${quote(this.technology(resource))} {`);
+    this.properties(depth + 1, resource);
+
+    for (const child of this.model.resources.filter(r => r.parentId === resource.id)) {
+      if (child.isContainer) {
+        this.deploymentNode(depth + 1, child);
+      } else if (this.deployable(child)) {
+        this.deployed(depth + 1, child);
+      }
+    }
+    this.write(depth, '}');
+  }
+
+  private deployed(depth: number, resource: ModelResource): void {
+    const kind = this.kind(resource);
+    const identifier = this.identifiers.get(resource.id) as string;
+    if (kind === 'infrastructure') {
+      this.instances.set(resource.id, identifier);
+      this.element(depth, `infrastructureNode ${quote(resource.name)} ${quote(this.description(resource))} ${quote(this.technology(resource))}`, resource);
+      return;
+    }
+
+    const instance = this.uniqueIdentifier(`${identifier}Instance`);
+    this.instances.set(resource.id, instance);
+    this.write(depth, `${instance} = ${kind === 'system' ? 'softwareSystemInstance' : 'containerInstance'} ${identifier}`);
+  }
+
+  private views(): void {
+    this.write(1, 'views {');
+    const views: [string, string][] = [
+      [`systemContext ${this.systemId} "SystemContext"`, 'The system and the people and systems around it'],
+      [`container ${this.systemId} "Containers"`, 'The containers of the system'],
+      [`deployment ${this.systemId} ${quote(this.environment)} "Deployment"`, 'Where the containers run']
+    ];
+    for (const [view, description] of views) {
+      this.write(2, `${view} ${quote(description)} {`);
+      this.write(3, 'include *');
+      this.write(3, 'autoLayout lr');
+      this.write(2, '}');
+      this.write(0, '');
+    }
+
+    this.write(2, 'styles {');
+    for (const [tag, style] of STYLES) {
+      this.write(3, `element ${quote(tag)} {`);
+      Object.entries(style).forEach(([property, value]) => this.write(4, `${property} ${value}`));
+      this.write(3, '}');
+    }
+    this.write(2, '}');
+    this.write(1, '}');
+  }
+
+  // An element statement, with a block for the properties set on the shape
+  private element(depth: number, statement: string, resource: ModelResource): void {
+    const identifier = this.identifiers.get(resource.id);
+    const start = this.lines.length;
+    this.properties(depth + 1, resource);
+
+    if (this.lines.length === start) {
+      this.write(depth, `${identifier} = ${statement}`);
+    } else {
+      this.lines.splice(start, 0, `${indent(depth)}${identifier} = ${statement} {`);
+      this.write(depth, '}');
+    }
+  }
+
+  // Properties that differ from the registry defaults, as a properties block
+  private properties(depth: number, resource: ModelResource): void {
+    const entries = Object.entries(resource.properties).filter(([key, value]) =>
+      key !== 'description' &&
+      (typeof value === 'string' || typeof value === 'number' || typeof value === 'boolean') &&
+      value !== '' &&
+      getPropertyDefinition(resource, key)?.defaultValue !== value
+    );
+    if (entries.length === 0) return;
+
+    this.write(depth, 'properties {');
+    entries.forEach(([key, value]) => this.write(depth + 1, `${quote(key)} ${quote(this.text(value))}`));
+    this.write(depth, '}');
+  }
+
+  private kind(resource: ModelResource): ElementKind | undefined {
+    if (resource.isContainer) return undefined;
+    if (resource.componentId === 'generic-user') return 'person';
+
+    const category = resource.metadata?.category;
+    if (category === ComponentCategory.EXTERNAL) return 'system';
+    if ((category && INFRASTRUCTURE_CATEGORIES.includes(category)) || resource.metadata?.subcategory === ComponentSubcategory.REGISTRY) {
+      return 'infrastructure';
+    }
+    return 'container';
+  }
+
+  private deployable(resource: ModelResource): boolean {
+    const kind = this.kind(resource);
+    return kind === 'container' || kind === 'infrastructure' || kind === 'system';
+  }
+
+  private description(resource: ModelResource): string {
+    const description = resource.properties.description;
+    return typeof description === 'string' ? this.text(description) : '';
+  }
+
+  // The service name, with the engine or runtime when the shape sets one
+  private technology(resource: ModelResource): string {
+    const service = resource.metadata?.providerMappings[resource.provider]?.name ?? resource.metadata?.name ?? resource.componentId;
+    const detail = [resource.properties.engine, resource.properties.runtime].find(value => typeof value === 'string' && value);
+    return this.text([service, detail].filter(Boolean).join(', '));
+  }
+
+  private tags(resource: ModelResource): string {
+    const category = resource.metadata?.category;
+    if (category === ComponentCategory.DATABASE) return ' "Database"';
+    if (category === ComponentCategory.STORAGE) return ' "Storage"';
+    if (category === ComponentCategory.MESSAGING || category === ComponentCategory.STREAMING) return ' "Queue"';
+    return '';
+  }
+
+  // ${parameter_id} references become workspace constants holding the parameter default
+  private text(value: unknown): string {
+    return String(value).replace(/\$\{([^}]+)\}/g, (reference, id: string) => {
+      const parameter = this.model.parameters.find(p => p.id === id);
+      if (!parameter) return reference;
+      const name = constantCase(parameter.id);
+      this.constants.set(name, parameter.defaultValue === undefined ? '' : String(parameter.defaultValue));
+      return `\${${name}}`;
+    });
+  }
+
+  private uniqueIdentifier(base: string): string {
+    let identifier = base;
+    for (let i = 2; this.used.has(identifier); i++) {
+      identifier = `${base}${i}`;
+    }
+    this.used.add(identifier);
+    return identifier;
+  }
+
+  private write(depth: number, line: string): void {
+    this.lines.push(line ? `${indent(depth)}${line}` : '');
+  }
+}
+
+function indent(depth: number): string {
+  return '    '.repeat(depth);
+}
+
+// DSL strings are double quoted on one line
+function quote(value: string): string {
+  return `"${value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\s*\n\s*/g, ' ')}"`;
+}
+
+function camelCase(value: string): string {
+  const words = value.split(/[^a-zA-Z0-9]+/).filter(Boolean);
+  const identifier = words.map((word, index) => index === 0 ? word[0].toLowerCase() + word.slice(1) : word[0].toUpperCase() + word.slice(1)).join('');
+  return /^[0-9]/.test(identifier) ? `e${identifier}` : identifier;
+}
@@ -0,0 +1,66 @@
+import { ComponentRegistry } from '../components/core/component-registry';
+import { CanvasItem } from '../types';
+import { generateTerraformProject, serializeTerraformProject } from './terraform';
+import { canvasModel, item } from './test-canvas';
+
+function exportCanvas(items: CanvasItem[]) {
+  return generateTerraformProject(canvasModel(items), 'aws');
+}
+
+function block(hcl: string, type: string, name: string): string {
+  const start = hcl.indexOf(`resource "${type}" "${name}" {`);
+  expect(start).toBeGreaterThanOrEqual(0);
+  return hcl.slice(start, hcl.indexOf('\n}\n', start));
+}
+
+describe('generateTerraformProject', () => {
+  beforeAll(async () => {
+    await ComponentRegistry.getInstance().initialize();
+  });
+
+  it('gives a subnet named public an internet route when isPublic is left at its default', () => {
+    const project = exportCanvas([
+      item('vpc', 'Main VPC', 'generic-vpc'),
+      item('pub', 'Public Subnet', 'generic-subnet', 'vpc'),
+      item('priv', 'App Subnet', 'generic-subnet', 'vpc')
+    ]);
+    const hcl = project.files['modules/main_vpc/main.tf'];
+
+    expect(hcl).toContain('resource "aws_internet_gateway" "main_vpc"');
+    expect(block(hcl, 'aws_subnet', 'public_subnet')).toMatch(/map_public_ip_on_launch = true/);
+    expect(block(hcl, 'aws_subnet', 'app_subnet')).toMatch(/map_public_ip_on_launch = false/);
+    expect(hcl).toContain('resource "aws_route_table_association" "public_subnet"');
+    expect(hcl).not.toContain('resource "aws_route_table_association" "app_subnet"');
+  });
+
+  it('puts an internet-facing load balancer in the public subnets', () => {
+    const project = exportCanvas([
+      item('vpc', 'Main VPC', 'generic-vpc'),
+      item('a', 'Public Subnet A', 'generic-subnet', 'vpc'),
+      item('b', 'Public Subnet B', 'generic-subnet', 'vpc'),
+      item('c', 'App Subnet', 'generic-subnet', 'vpc'),
+      item('lb', 'Web LB', 'aws-alb', 'a')
+    ]);
+    const lb = block(project.files['modules/main_vpc/main.tf'], 'aws_lb', 'web_lb');
+
+    expect(lb).toMatch(/internal\s+= false/);
+    expect(lb).toMatch(/subnets\s+= \[aws_subnet\.public_subnet_a\.id, aws_subnet\.public_subnet_b\.id\]/);
+  });
+
+  it('writes one module per VPC next to the root configuration', () => {
+    const project = exportCanvas([
+      item('vpc', 'Main VPC', 'generic-vpc'),
+      item('pub', 'Public Subnet', 'generic-subnet', 'vpc')
+    ]);
+
+    expect(Object.keys(project.files)).toEqual(expect.arrayContaining([
+      'providers.tf',
+      'main.tf',
+      'variables.tf',
+      'outputs.tf',
+      'modules/main_vpc/main.tf'
+    ]));
+    expect(project.files['main.tf']).toContain('source = "./modules/main_vpc"');
+    expect(serializeTerraformProject(project)).toContain('modules/main_vpc/main.tf');
+  });
+});
@@ -0,0 +1,2305 @@
+import { Provider } from '../../lib/provider-atom';
+import { PatternParameter } from '../patterns/core/pattern-types';
+import { ModelResource, ResourceModel, getDominantProvider, getResourceAncestors, isPublicSubnet } from './resource-model';
+import { serializeFiles, zipFiles } from './archive';
+import { constantCase, kebabCase, snakeCase } from './naming';
+
+// Multi-file Terraform export for one cloud provider.
+// Every top-level container (usually a VPC) becomes a module under modules/, everything else
+// lives in the root module. References that cross a module boundary are threaded through
+// generated variables and outputs, and arrows between network-attached resources become
+// security group, NSG or firewall rules. Resource names come from shape labels only, and
+// blocks are ordered by dependencies and name rather than canvas order, so re-exporting an
+// edited diagram only changes the blocks that were edited.
+
+export type TerraformCloud = Exclude<Provider, 'generic'>;
+
+export interface TerraformProject {
+  name: string;
+  cloud: TerraformCloud;
+  files: Record<string, string>;
+  warnings: string[];
+}
+
+const CLOUD_NAMES: Record<TerraformCloud, string> = {
+  aws: 'AWS',
+  azure: 'Azure',
+  gcp: 'Google Cloud'
+};
+
+const REQUIRED_PROVIDERS: Record<string, { source: string; version: string }> = {
+  aws: { source: 'hashicorp/aws', version: '~> 5.0' },
+  azurerm: { source: 'hashicorp/azurerm', version: '~> 3.100' },
+  google: { source: 'hashicorp/google', version: '~> 5.0' },
+  archive: { source: 'hashicorp/archive', version: '~> 2.4' },
+  random: { source: 'hashicorp/random', version: '~> 3.6' }
+};
+
+const RDS_ENGINES: Record<string, string> = {
+  mysql: 'mysql',
+  postgresql: 'postgres',
+  mariadb: 'mariadb',
+  oracle: 'oracle-se2',
+  sqlserver: 'sqlserver-ex'
+};
+
+const CLOUD_SQL_VERSIONS: Record<string, string> = {
+  mysql: 'MYSQL_8_0',
+  postgresql: 'POSTGRES_16',
+  sqlserver: 'SQLSERVER_2019_EXPRESS'
+};
+
+const DATABASE_PORTS: Record<string, number> = {
+  mysql: 3306,
+  mariadb: 3306,
+  postgresql: 5432,
+  sqlserver: 1433,
+  oracle: 1521
+};
+
+const LAMBDA_RUNTIMES: Record<string, string> = {
+  nodejs: 'nodejs20.x',
+  python: 'python3.12',
+  java: 'java21',
+  dotnet: 'dotnet8',
+  go: 'provided.al2023',
+  ruby: 'ruby3.3'
+};
+
+const GCF_RUNTIMES: Record<string, string> = {
+  nodejs: 'nodejs20',
+  python: 'python312',
+  java: 'java17',
+  go: 'go122',
+  dotnet: 'dotnet8',
+  ruby: 'ruby32'
+};
+
+const AZURE_WEB_SKUS: Record<string, string> = {
+  F1: 'F1',
+  B1: 'B1',
+  S1: 'S1',
+  P1: 'P1v3'
+};
+
+const AZURE_CONSISTENCY_LEVELS: Record<string, string> = {
+  strong: 'Strong',
+  'bounded-staleness': 'BoundedStaleness',
+  session: 'Session',
+  'consistent-prefix': 'ConsistentPrefix',
+  eventual: 'Eventual'
+};
+
+const GCS_STORAGE_CLASSES: Record<string, string> = {
+  standard: 'STANDARD',
+  ia: 'NEARLINE',
+  nearline: 'NEARLINE',
+  coldline: 'COLDLINE',
+  glacier: 'COLDLINE',
+  archive: 'ARCHIVE',
+  'deep-archive': 'ARCHIVE'
+};
+
+// Placeholder handlers so a fresh `terraform apply` deploys something runnable
+const INLINE_HANDLERS: Record<string, { file: string; code: string }> = {
+  nodejs: {
+    file: 'index.js',
+    code: "exports.handler = async () => ({ statusCode: 200, body: 'Hello from InfraGeni' });\n"
+  },
+  python: {
+    file: 'index.py',
+    code: "def handler(event, context):\n    return {'statusCode': 200, 'body': 'Hello from InfraGeni'}\n"
+  }
+};
+
+const GCF_INLINE_HANDLERS: Record<string, { file: string; code: string }> = {
+  nodejs: {
+    file: 'index.js',
+    code: "exports.handler = (req, res) => res.send('Hello from InfraGeni');\n"
+  },
+  python: {
+    file: 'main.py',
+    code: "def handler(request):\n    return 'Hello from InfraGeni'\n"
+  }
+};
+
+// Generate the Terraform project for the active provider; 'generic' picks the cloud the diagram uses most
+export function generateTerraformProject(model: ResourceModel, provider: Provider = 'generic'): TerraformProject {
+  const warnings: string[] = [];
+  let cloud: TerraformCloud;
+
+  if (provider === 'generic') {
+    cloud = getDominantProvider(model);
+    warnings.push(`No cloud provider is selected; the configuration targets ${CLOUD_NAMES[cloud]}`);
+  } else {
+    cloud = provider;
+  }
+
+  const builder = new TerraformProjectBuilder(model, cloud);
+  const files = builder.build(warnings);
+
+  return {
+    name: kebabCase(model.name) || 'infrastructure',
+    cloud,
+    files,
+    warnings
+  };
+}
+
+// Single text document with every file, for previews and copying
+export function serializeTerraformProject(project: TerraformProject): string {
+  return serializeFiles(project.files);
+}
+
+// Zip archive with the project files inside a folder named after the project
+export function zipTerraformProject(project: TerraformProject): Uint8Array {
+  return zipFiles(project.name, project.files);
+}
+
+// Raw HCL expression emitted as-is
+class Raw {
+  constructor(readonly text: string) {}
+}
+
+// Nested block such as `ingress { ... }`, as opposed to an object attribute
+class Nested {
+  constructor(readonly body: HclBody) {}
+}
+
+// Function call with HCL-rendered arguments, e.g. jsonencode({ ... })
+class Call {
+  constructor(readonly fn: string, readonly args: HclValue[]) {}
+}
+
+function raw(text: string): Raw {
+  return new Raw(text);
+}
+
+function nested(body: HclBody): Nested {
+  return new Nested(body);
+}
+
+class TerraformProjectBuilder {
+  private scopes = new Map<string, TerraformScope>();
+  private kinds = new Map<string, TerraformKind>();
+  private names = new Map<string, string>();
+  private moduleOf = new Map<string, string>();
+  private refs = new Map<string, TerraformRef>();
+  private wired = new Set<string>();
+  private securityGroups = new Map<string, string>();
+  private networkSecurityGroups = new Map<string, { address: string; priority: number }>();
+  private routeTables = new Map<string, string>();
+  private parameters = new Map<string, TerraformSymbol>();
+  private providers = new Set<string>();
+  private warnings: string[] = [];
+  private pendingComment?: string;
+
+  constructor(private model: ResourceModel, private cloud: TerraformCloud) {
+    this.scopes.set('', createScope(''));
+  }
+
+  build(warnings: string[]): Record<string, string> {
+    this.providers.add(this.cloud === 'aws' ? 'aws' : this.cloud === 'azure' ? 'azurerm' : 'google');
+    this.addProviderVariables();
+    for (const parameter of this.model.parameters) {
+      this.addParameter(parameter);
+    }
+
+    this.classify();
+    this.assignNames();
+    this.assignModules();
+
+    if (this.cloud === 'azure' && this.kinds.size > 0) {
+      this.pendingComment = 'Resource group holding every resource';
+      this.block('', 'resource', 'azurerm_resource_group', 'main', {
+        name: raw(`"rg-\${var.name_prefix}"`),
+        location: raw('var.location')
+      });
+    }
+
+    for (const resource of this.orderResources()) {
+      this.pendingComment = resource.name;
+      const kind = this.kinds.get(resource.id) as TerraformKind;
+
+      if (this.cloud === 'aws') this.addAws(resource, kind);
+      else if (this.cloud === 'azure') this.addAzure(resource, kind);
+      else this.addGcp(resource, kind);
+    }
+
+    this.addSecurityRules();
+    this.addOutputs();
+
+    warnings.push(...this.warnings);
+    return this.render(warnings);
+  }
+
+  private classify(): void {
+    for (const resource of this.model.resources) {
+      const kind = getTerraformKind(resource);
+      const provider = resource.provider;
+
+      if (provider !== 'generic' && provider !== this.cloud) {
+        this.warnings.push(`${resource.name} (${resource.componentId}) targets ${CLOUD_NAMES[provider]} and was skipped`);
+      } else if (kind) {
+        this.kinds.set(resource.id, kind);
+      } else if (resource.componentId !== 'generic-user' && resource.componentId !== 'generic-external-system') {
+        this.warnings.push(`${resource.name} (${resource.componentId}) has no Terraform mapping yet and was skipped`);
+      }
+    }
+  }
+
+  // Names depend only on labels; duplicate labels are told apart by a hash of the shape id
+  private assignNames(): void {
+    const groups = new Map<string, ModelResource[]>();
+    for (const resource of this.model.resources) {
+      const base = identifier(resource.name) || identifier(resource.componentId);
+      groups.set(base, [...(groups.get(base) || []), resource]);
+    }
+
+    for (const [base, group] of groups) {
+      group.sort((a, b) => a.id.localeCompare(b.id));
+      group.forEach((resource, i) => this.names.set(resource.id, i === 0 ? base : `${base}_${shortHash(resource.id)}`));
+    }
+  }
+
+  // Top-level containers with something to deploy inside become modules
+  private assignModules(): void {
+    for (const resource of this.model.resources) {
+      if (!this.kinds.has(resource.id) || this.kinds.get(resource.id) === 'zone') continue;
+
+      const ancestors = getResourceAncestors(this.model, resource);
+      const top = ancestors.length > 0 ? ancestors[ancestors.length - 1] : resource;
+      if (!top.isContainer) continue;
+
+      const moduleName = this.names.get(top.id) as string;
+      this.moduleOf.set(resource.id, moduleName);
+      if (!this.scopes.has(moduleName)) {
+        this.scopes.set(moduleName, createScope(moduleName, top.name));
+      }
+    }
+  }
+
+  // Containers before contents and arrow targets before sources, networks and data stores first
+  private orderResources(): ModelResource[] {
+    const mapped = this.model.resources.filter(resource => {
+      const kind = this.kinds.get(resource.id);
+      return kind !== undefined && kind !== 'zone';
+    });
+    const dependencies = new Map<string, Set<string>>();
+
+    for (const resource of mapped) {
+      const set = new Set(getResourceAncestors(this.model, resource).map(ancestor => ancestor.id));
+      for (const link of this.model.links) {
+        if (link.from === resource.id) set.add(link.to);
+      }
+      dependencies.set(resource.id, set);
+    }
+
+    const ordered: ModelResource[] = [];
+    const remaining = [...mapped];
+    const sortKey = (resource: ModelResource) => `${buildRank(this.kinds.get(resource.id))}:${this.names.get(resource.id)}`;
+
+    while (remaining.length > 0) {
+      const ready = remaining.filter(resource =>
+        Array.from(dependencies.get(resource.id) || []).every(id => !remaining.some(r => r.id === id))
+      );
+      // Arrow cycles are broken at the resource that would normally come first
+      const candidates = ready.length > 0 ? ready : remaining;
+      const next = candidates.reduce((best, resource) => (sortKey(resource) < sortKey(best) ? resource : best));
+
+      ordered.push(next);
+      remaining.splice(remaining.indexOf(next), 1);
+    }
+
+    return ordered;
+  }
+
+  // AWS
+
+  private addAws(resource: ModelResource, kind: TerraformKind): void {
+    switch (kind) {
+      case 'network':
+        return this.awsVpc(resource);
+      case 'subnet':
+        return this.awsSubnet(resource);
+      case 'vm':
+        return this.awsInstance(resource);
+      case 'database':
+        return this.awsDatabase(resource);
+      case 'bucket':
+        return this.awsBucket(resource);
+      case 'function':
+        return this.awsFunction(resource);
+      case 'container':
+        return this.awsContainerService(resource);
+      case 'table':
+        return this.awsTable(resource);
+      case 'cache':
+        return this.awsCache(resource);
+      case 'loadBalancer':
+        return this.awsLoadBalancer(resource);
+      case 'cdn':
+        return this.awsDistribution(resource);
+      case 'apiGateway':
+        return this.awsApi(resource);
+      case 'registry':
+        return this.awsRepository(resource);
+      case 'volume':
+        return this.awsVolume(resource);
+      case 'fileSystem':
+        return this.awsFileSystem(resource);
+      default:
+        this.unsupported(resource);
+    }
+  }
+
+  private awsVpc(resource: ModelResource): void {
+    const vpc = this.declare(resource, 'aws_vpc', {
+      cidr_block: this.value(resource, 'cidrBlock', '10.0.0.0/16'),
+      enable_dns_hostnames: this.value(resource, 'enableDnsHostnames', true),
+      enable_dns_support: true,
+      tags: { Name: resource.name }
+    }, { primary: true });
+
+    if (this.subnetsIn(resource).some(isPublicSubnet)) {
+      const gateway = this.declare(resource, 'aws_internet_gateway', {
+        vpc_id: raw(`${vpc}.id`),
+        tags: { Name: `${resource.name} gateway` }
+      });
+      const routes = this.declare(resource, 'aws_route_table', {
+        vpc_id: raw(`${vpc}.id`),
+        route: nested({ cidr_block: '0.0.0.0/0', gateway_id: raw(`${gateway}.id`) }),
+        tags: { Name: `${resource.name} public` }
+      }, { suffix: 'public' });
+      this.routeTables.set(resource.id, routes);
+    }
+  }
+
+  private awsSubnet(resource: ModelResource): void {
+    const vpcResource = this.containing(resource, 'network');
+    if (!vpcResource) {
+      this.warnings.push(`Subnet ${resource.name} is not inside a VPC and was skipped`);
+      return;
+    }
+
+    const scope = this.scopeOf(resource);
+    const isPublic = isPublicSubnet(resource);
+    const subnet = this.declare(resource, 'aws_subnet', {
+      vpc_id: raw(this.attr(scope, vpcResource, 'id')),
+      cidr_block: this.subnetCidr(resource, vpcResource),
+      availability_zone: raw(`${this.awsZones(scope)}.names[${this.zoneIndex(resource, vpcResource)}]`),
+      map_public_ip_on_launch: isPublic,
+      tags: { Name: resource.name }
+    }, { primary: true });
+
+    const routes = this.routeTables.get(vpcResource.id);
+    if (isPublic && routes) {
+      this.declare(resource, 'aws_route_table_association', {
+        subnet_id: raw(`${subnet}.id`),
+        route_table_id: raw(this.route(scope, this.scopeOf(vpcResource), `${routes}.id`, `${this.names.get(vpcResource.id)}_public_route_table_id`, `${vpcResource.name} public route table id`))
+      });
+    }
+  }
+
+  private awsInstance(resource: ModelResource): void {
+    const scope = this.scopeOf(resource);
+    const windows = resource.properties.operatingSystem === 'windows';
+    const ami = this.data(scope, 'aws_ami', windows ? 'windows' : 'amazon_linux', {
+      most_recent: true,
+      owners: ['amazon'],
+      filter: nested({ name: 'name', values: [windows ? 'Windows_Server-2022-English-Full-Base-*' : 'al2023-ami-2023.*-x86_64'] })
+    });
+
+    const subnet = this.containing(resource, 'subnet');
+    if (!subnet) {
+      this.warnings.push(`${resource.name} is not inside a subnet and launches in the default VPC`);
+    }
+    const securityGroup = this.awsSecurityGroup(resource);
+    const instanceType = String(resource.properties.instanceType || '');
+
+    const instance = this.declare(resource, 'aws_instance', {
+      ami: raw(`${ami}.id`),
+      // Types from other clouds don't apply on EC2
+      instance_type: instanceType.includes('.') ? this.value(resource, 'instanceType', instanceType) : 't3.micro',
+      subnet_id: subnet ? raw(this.attr(scope, subnet, 'id')) : undefined,
+      vpc_security_group_ids: securityGroup ? [raw(`${securityGroup}.id`)] : undefined,
+      tags: { Name: resource.name }
+    }, { primary: true, endpoint: { attribute: 'private_ip', env: 'PRIVATE_IP' } });
+
+    // Arrows to EBS volumes attach them
+    this.targets(resource).filter(target => target.kind === 'volume').forEach((target, i) => {
+      this.wire(resource, target.resource);
+      this.declare(resource, 'aws_volume_attachment', {
+        device_name: `/dev/sd${String.fromCharCode(102 + i)}`,
+        instance_id: raw(`${instance}.id`),
+        volume_id: raw(this.attr(scope, target.resource, 'id'))
+      }, { suffix: this.names.get(target.resource.id) });
+    });
+  }
+
+  private awsDatabase(resource: ModelResource): void {
+    const engine = String(resource.properties.engine || 'mysql');
+    const version = String(resource.properties.version || '');
+    const instanceClass = String(resource.properties.instanceClass || '');
+    const subnetGroup = this.awsSubnetGroup(resource, 'aws_db_subnet_group');
+    const securityGroup = this.awsSecurityGroup(resource);
+
+    this.declare(resource, 'aws_db_instance', {
+      identifier: kebabCase(resource.name) || undefined,
+      engine: RDS_ENGINES[engine] || 'mysql',
+      // The registry default version is a MySQL one
+      engine_version: engine === 'mysql' || version !== '8.0' ? this.value(resource, 'version', version) : undefined,
+      instance_class: instanceClass.startsWith('db.') ? this.value(resource, 'instanceClass', instanceClass) : 'db.t3.micro',
+      allocated_storage: 20,
+      db_subnet_group_name: subnetGroup ? raw(`${subnetGroup}.name`) : undefined,
+      vpc_security_group_ids: securityGroup ? [raw(`${securityGroup}.id`)] : undefined,
+      username: 'dbadmin',
+      manage_master_user_password: true,
+      multi_az: this.value(resource, 'multiAz', false),
+      skip_final_snapshot: true,
+      tags: { Name: resource.name }
+    }, { primary: true, endpoint: { attribute: 'address', env: 'HOST' } });
+  }
+
+  // Subnet group over the subnets of the VPC the resource sits in, preferring private ones
+  private awsSubnetGroup(resource: ModelResource, type: string): string | undefined {
+    const vpc = this.containing(resource, 'network');
+    if (!vpc) return undefined;
+
+    const subnets = this.subnetsIn(vpc).filter(subnet => this.refs.has(subnet.id));
+    const privateSubnets = subnets.filter(subnet => !isPublicSubnet(subnet));
+    const chosen = privateSubnets.length >= 2 ? privateSubnets : subnets;
+    if (chosen.length < 2) return undefined;
+
+    const scope = this.scopeOf(resource);
+    return this.declare(resource, type, {
+      name: kebabCase(resource.name) || this.names.get(resource.id),
+      subnet_ids: chosen.map(subnet => raw(this.attr(scope, subnet, 'id')))
+    });
+  }
+
+  // Security group for a resource inside a VPC; arrows add ingress rules to it later
+  private awsSecurityGroup(resource: ModelResource): string | undefined {
+    const vpc = this.containing(resource, 'network');
+    if (!vpc) return undefined;
+
+    const scope = this.scopeOf(resource);
+    const securityGroup = this.declare(resource, 'aws_security_group', {
+      name: kebabCase(resource.name) || this.names.get(resource.id),
+      description: `Traffic to ${resource.name}`,
+      vpc_id: raw(this.attr(scope, vpc, 'id')),
+      tags: { Name: resource.name }
+    });
+    this.declare(resource, 'aws_vpc_security_group_egress_rule', {
+      security_group_id: raw(`${securityGroup}.id`),
+      cidr_ipv4: '0.0.0.0/0',
+      ip_protocol: '-1'
+    }, { suffix: 'all_outbound' });
+
+    this.securityGroups.set(resource.id, securityGroup);
+    return securityGroup;
+  }
+
+  private awsBucket(resource: ModelResource): void {
+    const bucketName = resource.properties.bucketName;
+    const bucket = this.declare(resource, 'aws_s3_bucket', {
+      // Prefix naming avoids collisions unless a real bucket name was set
+      bucket: bucketName && bucketName !== 'my-bucket' ? this.value(resource, 'bucketName', String(bucketName)) : undefined,
+      bucket_prefix: bucketName && bucketName !== 'my-bucket' ? undefined : `${kebabCase(resource.name).slice(0, 30) || 'bucket'}-`,
+      tags: { Name: resource.name }
+    }, { primary: true, endpoint: { attribute: 'bucket', env: 'BUCKET_NAME' } });
+
+    if (this.isEnabled(resource, 'versioning', false)) {
+      this.declare(resource, 'aws_s3_bucket_versioning', {
+        bucket: raw(`${bucket}.id`),
+        versioning_configuration: nested({ status: 'Enabled' })
+      });
+    }
+    if (this.isEnabled(resource, 'encryption', true)) {
+      this.declare(resource, 'aws_s3_bucket_server_side_encryption_configuration', {
+        bucket: raw(`${bucket}.id`),
+        rule: nested({ apply_server_side_encryption_by_default: nested({ sse_algorithm: 'AES256' }) })
+      });
+    }
+
+    const storageClass = String(resource.properties.storageClass || 'standard');
+    const transition = { ia: 'STANDARD_IA', glacier: 'GLACIER', 'deep-archive': 'DEEP_ARCHIVE' }[storageClass];
+    if (transition) {
+      this.declare(resource, 'aws_s3_bucket_lifecycle_configuration', {
+        bucket: raw(`${bucket}.id`),
+        rule: nested({
+          id: 'transition',
+          status: 'Enabled',
+          filter: nested({}),
+          transition: nested({ days: 30, storage_class: transition })
+        })
+      });
+    }
+
+    this.declare(resource, 'aws_s3_bucket_public_access_block', {
+      bucket: raw(`${bucket}.id`),
+      block_public_acls: true,
+      block_public_policy: true,
+      ignore_public_acls: true,
+      restrict_public_buckets: true
+    });
+  }
+
+  private awsFunction(resource: ModelResource): void {
+    const scope = this.scopeOf(resource);
+    const family = runtimeFamily(resource.properties.runtime);
+    const runtime = /\d/.test(String(resource.properties.runtime)) ? String(resource.properties.runtime) : LAMBDA_RUNTIMES[family] || LAMBDA_RUNTIMES.nodejs;
+    const subnet = this.containing(resource, 'subnet');
+    const securityGroup = subnet ? this.awsSecurityGroup(resource) : undefined;
+
+    const role = this.declare(resource, 'aws_iam_role', {
+      name_prefix: `${kebabCase(resource.name).slice(0, 30) || 'function'}-`,
+      assume_role_policy: assumeRolePolicy('lambda.amazonaws.com')
+    });
+    this.declare(resource, 'aws_iam_role_policy_attachment', {
+      role: raw(`${role}.name`),
+      policy_arn: `arn:aws:iam::aws:policy/service-role/${subnet ? 'AWSLambdaVPCAccessExecutionRole' : 'AWSLambdaBasicExecutionRole'}`
+    });
+    const archive = this.handlerArchive(resource, family, INLINE_HANDLERS);
+
+    const environment = this.environment(resource);
+    this.declare(resource, 'aws_lambda_function', {
+      function_name: kebabCase(resource.name) || this.names.get(resource.id),
+      role: raw(`${role}.arn`),
+      runtime,
+      handler: 'index.handler',
+      filename: raw(`${archive}.output_path`),
+      source_code_hash: raw(`${archive}.output_base64sha256`),
+      memory_size: this.value(resource, 'memorySize', 128),
+      timeout: this.value(resource, 'timeout', 30),
+      environment: Object.keys(environment).length > 0 ? nested({ variables: environment }) : undefined,
+      vpc_config: subnet && securityGroup ? nested({
+        subnet_ids: [raw(this.attr(scope, subnet, 'id'))],
+        security_group_ids: [raw(`${securityGroup}.id`)]
+      }) : undefined
+    }, { primary: true, endpoint: { attribute: 'function_name', env: 'FUNCTION_NAME' } });
+  }
+
+  private awsContainerService(resource: ModelResource): void {
+    const scope = this.scopeOf(resource);
+    const subnet = this.containing(resource, 'subnet');
+    const name = kebabCase(resource.name) || 'app';
+
+    const cluster = this.declare(resource, 'aws_ecs_cluster', { name });
+    const role = this.declare(resource, 'aws_iam_role', {
+      name_prefix: `${name.slice(0, 30)}-`,
+      assume_role_policy: assumeRolePolicy('ecs-tasks.amazonaws.com')
+    }, { suffix: 'execution' });
+    this.declare(resource, 'aws_iam_role_policy_attachment', {
+      role: raw(`${role}.name`),
+      policy_arn: 'arn:aws:iam::aws:policy/service-role/AmazonECSTaskExecutionRolePolicy'
+    }, { suffix: 'execution' });
+
+    const environment = Object.entries(this.environment(resource)).map(([envName, value]) => ({ name: envName, value }));
+    const task = this.declare(resource, 'aws_ecs_task_definition', {
+      family: this.value(resource, 'taskDefinition', name),
+      cpu: String(resource.properties.cpu ?? 256),
+      memory: String(resource.properties.memory ?? 512),
+      network_mode: 'awsvpc',
+      requires_compatibilities: ['FARGATE'],
+      execution_role_arn: raw(`${role}.arn`),
+      container_definitions: new Call('jsonencode', [[{
+        name,
+        image: this.value(resource, 'image', 'nginx:latest'),
+        essential: true,
+        portMappings: [{ containerPort: 80 }],
+        environment: environment.length > 0 ? environment : undefined
+      }]])
+    }, { primary: !subnet });
+
+    if (subnet) {
+      const securityGroup = this.awsSecurityGroup(resource);
+      this.declare(resource, 'aws_ecs_service', {
+        name,
+        cluster: raw(`${cluster}.id`),
+        task_definition: raw(`${task}.arn`),
+        desired_count: this.value(resource, 'desiredCount', 1),
+        launch_type: this.value(resource, 'launchType', 'FARGATE'),
+        network_configuration: nested({
+          subnets: [raw(this.attr(scope, subnet, 'id'))],
+          security_groups: securityGroup ? [raw(`${securityGroup}.id`)] : undefined,
+          assign_public_ip: isPublicSubnet(subnet)
+        })
+      }, { primary: true });
+    }
+  }
+
+  private awsTable(resource: ModelResource): void {
+    const partitionKey = String(resource.properties.partitionKey || 'id');
+    const sortKey = String(resource.properties.sortKey || '');
+    const provisioned = resource.properties.billingMode === 'PROVISIONED';
+
+    this.declare(resource, 'aws_dynamodb_table', {
+      name: this.value(resource, 'tableName', kebabCase(resource.name)),
+      billing_mode: this.value(resource, 'billingMode', 'PAY_PER_REQUEST'),
+      hash_key: partitionKey,
+      range_key: sortKey || undefined,
+      read_capacity: provisioned ? 5 : undefined,
+      write_capacity: provisioned ? 5 : undefined,
+      attribute: [
+        nested({ name: partitionKey, type: 'S' }),
+        ...(sortKey ? [nested({ name: sortKey, type: 'S' })] : [])
+      ],
+      point_in_time_recovery: nested({ enabled: this.value(resource, 'pointInTimeRecovery', false) }),
+      tags: { Name: resource.name }
+    }, { primary: true, endpoint: { attribute: 'name', env: 'TABLE_NAME' } });
+  }
+
+  private awsCache(resource: ModelResource): void {
+    const engine = String(resource.properties.engine || 'redis');
+    const subnetGroup = this.awsSubnetGroup(resource, 'aws_elasticache_subnet_group');
+    const securityGroup = this.awsSecurityGroup(resource);
+
+    this.declare(resource, 'aws_elasticache_cluster', {
+      cluster_id: (kebabCase(resource.name) || 'cache').slice(0, 40),
+      engine,
+      node_type: this.value(resource, 'nodeType', 'cache.t3.micro'),
+      // Redis clusters without replication groups have exactly one node
+      num_cache_nodes: engine === 'redis' ? 1 : this.value(resource, 'numCacheNodes', 1),
+      port: this.value(resource, 'port', engine === 'redis' ? 6379 : 11211),
+      subnet_group_name: subnetGroup ? raw(`${subnetGroup}.name`) : undefined,
+      security_group_ids: securityGroup ? [raw(`${securityGroup}.id`)] : undefined
+    }, { primary: true, endpoint: { attribute: 'cache_nodes[0].address', env: 'HOST' } });
+  }
+
+  private awsLoadBalancer(resource: ModelResource): void {
+    const vpc = this.containing(resource, 'network');
+    const subnets = vpc ? this.subnetsIn(vpc).filter(subnet => this.refs.has(subnet.id)) : [];
+    if (!vpc || subnets.length < 2) {
+      this.warnings.push(`${resource.name} needs to be inside a VPC with at least two subnets and was skipped`);
+      return;
+    }
+
+    const scope = this.scopeOf(resource);
+    const instances = this.targets(resource).filter(target => target.kind === 'vm');
+    instances.forEach(target => this.wire(resource, target.resource));
+
+    const internal = resource.properties.scheme === 'internal';
+    const chosen = subnets.filter(subnet => isPublicSubnet(subnet) !== internal);
+    const securityGroup = this.awsSecurityGroup(resource) as string;
+    if (!internal) {
+      this.declare(resource, 'aws_vpc_security_group_ingress_rule', {
+        security_group_id: raw(`${securityGroup}.id`),
+        cidr_ipv4: '0.0.0.0/0',
+        from_port: 80,
+        to_port: 80,
+        ip_protocol: 'tcp'
+      }, { suffix: 'http' });
+    }
+
+    const loadBalancer = this.declare(resource, 'aws_lb', {
+      name: (kebabCase(resource.name) || 'alb').slice(0, 32),
+      load_balancer_type: 'application',
+      internal,
+      ip_address_type: this.value(resource, 'ipAddressType', 'ipv4'),
+      security_groups: [raw(`${securityGroup}.id`)],
+      subnets: (chosen.length >= 2 ? chosen : subnets).map(subnet => raw(this.attr(scope, subnet, 'id'))),
+      enable_deletion_protection: this.value(resource, 'enableDeletionProtection', false)
+    }, { primary: true, endpoint: { attribute: 'dns_name', env: 'DNS_NAME' } });
+
+    const targetGroup = this.declare(resource, 'aws_lb_target_group', {
+      name_prefix: 'tg-',
+      port: 80,
+      protocol: 'HTTP',
+      target_type: 'instance',
+      vpc_id: raw(this.attr(scope, vpc, 'id'))
+    });
+    this.declare(resource, 'aws_lb_listener', {
+      load_balancer_arn: raw(`${loadBalancer}.arn`),
+      port: 80,
+      protocol: 'HTTP',
+      default_action: nested({ type: 'forward', target_group_arn: raw(`${targetGroup}.arn`) })
+    }, { suffix: 'http' });
+
+    // Arrows to instances register them as targets
+    for (const target of instances) {
+      this.declare(resource, 'aws_lb_target_group_attachment', {
+        target_group_arn: raw(`${targetGroup}.arn`),
+        target_id: raw(this.attr(scope, target.resource, 'id')),
+        port: 80
+      }, { suffix: this.names.get(target.resource.id) });
+    }
+  }
+
+  private awsDistribution(resource: ModelResource): void {
+    const scope = this.scopeOf(resource);
+    const origin = this.targets(resource).find(target => target.kind === 'bucket' || target.kind === 'loadBalancer');
+    if (origin) this.wire(resource, origin.resource);
+
+    let originBody: HclBody;
+    if (origin?.kind === 'bucket') {
+      const accessControl = this.declare(resource, 'aws_cloudfront_origin_access_control', {
+        name: kebabCase(resource.name) || 'origin',
+        origin_access_control_origin_type: 's3',
+        signing_behavior: 'always',
+        signing_protocol: 'sigv4'
+      });
+      originBody = {
+        origin_id: 'origin',
+        domain_name: raw(this.attr(scope, origin.resource, 'bucket_regional_domain_name')),
+        origin_access_control_id: raw(`${accessControl}.id`)
+      };
+      this.warnings.push(`${resource.name} reads from ${origin.resource.name}; grant the distribution s3:GetObject in the bucket policy`);
+    } else {
+      originBody = {
+        origin_id: 'origin',
+        domain_name: origin ? raw(this.attr(scope, origin.resource, 'dns_name')) : this.value(resource, 'origin', 'example.com'),
+        custom_origin_config: nested({
+          http_port: 80,
+          https_port: 443,
+          origin_protocol_policy: origin ? 'http-only' : 'https-only',
+          origin_ssl_protocols: ['TLSv1.2']
+        })
+      };
+    }
+
+    this.declare(resource, 'aws_cloudfront_distribution', {
+      enabled: this.value(resource, 'enabled', true),
+      price_class: this.value(resource, 'priceClass', 'PriceClass_All'),
+      origin: nested(originBody),
+      default_cache_behavior: nested({
+        target_origin_id: 'origin',
+        viewer_protocol_policy: 'redirect-to-https',
+        allowed_methods: ['GET', 'HEAD'],
+        cached_methods: ['GET', 'HEAD'],
+        compress: this.value(resource, 'compress', true),
+        // Managed CachingOptimized policy
+        cache_policy_id: '658327ea-f89d-4fab-a63d-7e88639e58f6'
+      }),
+      restrictions: nested({ geo_restriction: nested({ restriction_type: 'none' }) }),
+      viewer_certificate: nested({ cloudfront_default_certificate: true })
+    }, { primary: true, endpoint: { attribute: 'domain_name', env: 'DOMAIN' } });
+  }
+
+  private awsApi(resource: ModelResource): void {
+    const scope = this.scopeOf(resource);
+    const apiType = String(resource.properties.apiType || 'REST');
+    if (apiType === 'REST') {
+      this.warnings.push(`${resource.name} is generated as an HTTP API, the lighter API Gateway v2 equivalent of REST`);
+    }
+
+    // Quick-create wires the API straight to the function an arrow points at
+    const fn = apiType === 'WEBSOCKET' ? undefined : this.targets(resource).find(target => target.kind === 'function');
+    if (fn) this.wire(resource, fn.resource);
+
+    const api = this.declare(resource, 'aws_apigatewayv2_api', {
+      name: this.value(resource, 'name', kebabCase(resource.name) || 'api'),
+      protocol_type: apiType === 'WEBSOCKET' ? 'WEBSOCKET' : 'HTTP',
+      route_selection_expression: apiType === 'WEBSOCKET' ? '$request.body.action' : undefined,
+      target: fn ? raw(this.attr(scope, fn.resource, 'arn')) : undefined
+    }, { primary: true, endpoint: { attribute: 'api_endpoint', env: 'URL' } });
+
+    if (fn) {
+      this.declare(resource, 'aws_lambda_permission', {
+        action: 'lambda:InvokeFunction',
+        function_name: raw(this.attr(scope, fn.resource, 'function_name')),
+        principal: 'apigateway.amazonaws.com',
+        source_arn: raw(`"\${${api}.execution_arn}/*/*"`)
+      }, { suffix: this.names.get(fn.resource.id) });
+    } else {
+      this.declare(resource, 'aws_apigatewayv2_stage', {
+        api_id: raw(`${api}.id`),
+        name: this.value(resource, 'stage', '$default'),
+        auto_deploy: true
+      });
+    }
+  }
+
+  private awsRepository(resource: ModelResource): void {
+    this.declare(resource, 'aws_ecr_repository', {
+      name: this.value(resource, 'repositoryName', kebabCase(resource.name)),
+      image_tag_mutability: this.value(resource, 'imageTagMutability', 'MUTABLE'),
+      image_scanning_configuration: nested({ scan_on_push: this.value(resource, 'scanOnPush', true) })
+    }, { primary: true, endpoint: { attribute: 'repository_url', env: 'REPOSITORY_URL' } });
+  }
+
+  private awsVolume(resource: ModelResource): void {
+    const scope = this.scopeOf(resource);
+    // A volume has to live in the zone of the instance that attaches it
+    const instance = this.model.links
+      .filter(link => link.to === resource.id)
+      .map(link => this.model.resources.find(r => r.id === link.from))
+      .find(source => source && this.kinds.get(source.id) === 'vm');
+    const subnet = instance ? this.containing(instance, 'subnet') : undefined;
+    const vpc = subnet ? this.containing(subnet, 'network') : undefined;
+    const volumeType = String(resource.properties.volumeType || 'gp3');
+
+    this.declare(resource, 'aws_ebs_volume', {
+      availability_zone: subnet
+        ? raw(this.attr(scope, subnet, 'availability_zone'))
+        : raw(`${this.awsZones(scope)}.names[${subnet && vpc ? this.zoneIndex(subnet, vpc) : 0}]`),
+      size: this.value(resource, 'size', 8),
+      type: this.value(resource, 'volumeType', 'gp3'),
+      encrypted: this.value(resource, 'encrypted', true),
+      iops: ['gp3', 'io1', 'io2'].includes(volumeType) ? this.value(resource, 'iops', 3000) : undefined,
+      tags: { Name: resource.name }
+    }, { primary: true });
+  }
+
+  private awsFileSystem(resource: ModelResource): void {
+    const scope = this.scopeOf(resource);
+    const lifecycle = String(resource.properties.lifecyclePolicy || 'NONE');
+    const fileSystem = this.declare(resource, 'aws_efs_file_system', {
+      performance_mode: this.value(resource, 'performanceMode', 'generalPurpose'),
+      throughput_mode: this.value(resource, 'throughputMode', 'bursting'),
+      encrypted: this.value(resource, 'encrypted', true),
+      lifecycle_policy: lifecycle !== 'NONE' ? nested({ transition_to_ia: lifecycle }) : undefined,
+      tags: { Name: resource.name }
+    }, { primary: true, endpoint: { attribute: 'dns_name', env: 'DNS_NAME' } });
+
+    const vpc = this.containing(resource, 'network');
+    const securityGroup = this.awsSecurityGroup(resource);
+    for (const subnet of vpc ? this.subnetsIn(vpc).filter(s => this.refs.has(s.id)) : []) {
+      this.declare(resource, 'aws_efs_mount_target', {
+        file_system_id: raw(`${fileSystem}.id`),
+        subnet_id: raw(this.attr(scope, subnet, 'id')),
+        security_groups: securityGroup ? [raw(`${securityGroup}.id`)] : undefined
+      }, { suffix: this.names.get(subnet.id) });
+    }
+  }
+
+  private awsZones(scope: string): string {
+    return this.data(scope, 'aws_availability_zones', 'available', { state: 'available' });
+  }
+
+  // Azure
+
+  private addAzure(resource: ModelResource, kind: TerraformKind): void {
+    switch (kind) {
+      case 'network':
+        return this.azureVirtualNetwork(resource);
+      case 'subnet':
+        return this.azureSubnet(resource);
+      case 'vm':
+        return this.azureVirtualMachine(resource);
+      case 'database':
+        return this.azureDatabase(resource);
+      case 'bucket':
+        return this.azureStorageAccount(resource);
+      case 'function':
+        return this.azureFunctionApp(resource);
+      case 'webApp':
+        return this.azureWebApp(resource);
+      case 'container':
+        return this.azureContainerGroup(resource);
+      case 'cosmos':
+        return this.azureCosmosAccount(resource);
+      case 'cache':
+        return this.azureRedis(resource);
+      case 'cdn':
+        return this.azureCdn(resource);
+      case 'keyVault':
+        return this.azureKeyVault(resource);
+      case 'logs':
+        return this.azureWorkspace(resource);
+      default:
+        this.unsupported(resource);
+    }
+  }
+
+  // Resource group name and location every Azure resource starts with
+  private azurePlacement(scope: string): HclBody {
+    return {
+      resource_group_name: raw(this.route(scope, '', 'azurerm_resource_group.main.name', 'resource_group_name', 'Resource group name')),
+      location: raw(this.route(scope, '', 'azurerm_resource_group.main.location', 'location', 'Azure region'))
+    };
+  }
+
+  private azureVirtualNetwork(resource: ModelResource): void {
+    this.declare(resource, 'azurerm_virtual_network', {
+      name: `vnet-${kebabCase(resource.name)}`,
+      ...this.azurePlacement(this.scopeOf(resource)),
+      address_space: [this.value(resource, 'cidrBlock', '10.0.0.0/16')]
+    }, { primary: true });
+  }
+
+  private azureSubnet(resource: ModelResource): void {
+    const vnet = this.containing(resource, 'network');
+    if (!vnet) {
+      this.warnings.push(`Subnet ${resource.name} is not inside a virtual network and was skipped`);
+      return;
+    }
+
+    const scope = this.scopeOf(resource);
+    this.declare(resource, 'azurerm_subnet', {
+      name: `snet-${kebabCase(resource.name)}`,
+      resource_group_name: this.azurePlacement(scope).resource_group_name,
+      virtual_network_name: raw(this.attr(scope, vnet, 'name')),
+      address_prefixes: [this.subnetCidr(resource, vnet)]
+    }, { primary: true });
+  }
+
+  private azureVirtualMachine(resource: ModelResource): void {
+    const container = this.containing(resource, 'subnet');
+    const subnet = container || this.model.resources.find(r => this.refs.get(r.id)?.kind === 'subnet');
+    if (!subnet) {
+      this.warnings.push(`${resource.name} needs a subnet for its network interface and was skipped`);
+      return;
+    }
+    if (!container) {
+      this.warnings.push(`${resource.name} is not inside a subnet and was placed in ${subnet.name}`);
+    }
+
+    const scope = this.scopeOf(resource);
+    const windows = resource.properties.operatingSystem === 'windows';
+    const nic = this.declare(resource, 'azurerm_network_interface', {
+      name: `nic-${kebabCase(resource.name)}`,
+      ...this.azurePlacement(scope),
+      ip_configuration: nested({
+        name: 'internal',
+        subnet_id: raw(this.attr(scope, subnet, 'id')),
+        private_ip_address_allocation: 'Dynamic'
+      })
+    });
+
+    const instanceType = String(resource.properties.instanceType || '');
+    const defaultSize = String(resource.metadata?.providerMappings.azure?.metadata?.defaultVmSize || 'Standard_B1s');
+    this.declare(resource, windows ? 'azurerm_windows_virtual_machine' : 'azurerm_linux_virtual_machine', {
+      name: (kebabCase(resource.name) || 'vm').slice(0, windows ? 15 : 64),
+      ...this.azurePlacement(scope),
+      size: instanceType.startsWith('Standard_') ? instanceType : defaultSize,
+      admin_username: 'azureuser',
+      admin_password: raw(this.secret(scope, 'admin_password', 'Administrator password for virtual machines')),
+      disable_password_authentication: windows ? undefined : false,
+      network_interface_ids: [raw(`${nic}.id`)],
+      os_disk: nested({ caching: 'ReadWrite', storage_account_type: 'StandardSSD_LRS' }),
+      source_image_reference: nested(windows
+        ? { publisher: 'MicrosoftWindowsServer', offer: 'WindowsServer', sku: '2022-datacenter-azure-edition', version: 'latest' }
+        : { publisher: 'Canonical', offer: '0001-com-ubuntu-server-jammy', sku: '22_04-lts-gen2', version: 'latest' })
+    }, { primary: true, endpoint: { address: nic, attribute: 'private_ip_address', env: 'PRIVATE_IP' } });
+  }
+
+  private azureDatabase(resource: ModelResource): void {
+    const scope = this.scopeOf(resource);
+    const engine = String(resource.properties.engine || 'mysql');
+    const password = raw(this.secret(scope, 'db_password', 'Administrator password for database servers'));
+    const name = `${kebabCase(resource.name) || 'db'}-${this.nameSuffix(scope)}`;
+
+    if (engine === 'sqlserver') {
+      const server = this.declare(resource, 'azurerm_mssql_server', {
+        name: raw(`"${name}"`),
+        ...this.azurePlacement(scope),
+        version: '12.0',
+        administrator_login: 'dbadmin',
+        administrator_login_password: password,
+        minimum_tls_version: '1.2'
+      });
+      this.declare(resource, 'azurerm_mssql_database', {
+        name: kebabCase(resource.name) || 'db',
+        server_id: raw(`${server}.id`),
+        sku_name: 'Basic'
+      }, { primary: true, endpoint: { address: server, attribute: 'fully_qualified_domain_name', env: 'HOST' } });
+      return;
+    }
+
+    if (engine !== 'mysql' && engine !== 'postgresql') {
+      this.warnings.push(`${resource.name} uses ${engine}, which has no Azure managed server; PostgreSQL was used instead`);
+    }
+
+    const isMySql = engine === 'mysql';
+    const version = String(resource.properties.version || '');
+    this.declare(resource, isMySql ? 'azurerm_mysql_flexible_server' : 'azurerm_postgresql_flexible_server', {
+      name: raw(`"${name}"`),
+      ...this.azurePlacement(scope),
+      version: isMySql ? '8.0.21' : /^1[1-6]$/.test(version) ? version : '16',
+      sku_name: 'B_Standard_B1ms',
+      administrator_login: 'dbadmin',
+      administrator_password: password,
+      storage: nested({ size_gb: isMySql ? 20 : undefined, storage_mb: isMySql ? undefined : 32768 }),
+      high_availability: this.isEnabled(resource, 'multiAz', false) ? nested({ mode: 'ZoneRedundant' }) : undefined
+    }, { primary: true, endpoint: { attribute: 'fqdn', env: 'HOST' } });
+  }
+
+  private azureStorageAccount(resource: ModelResource): void {
+    const scope = this.scopeOf(resource);
+    const props = resource.properties;
+    const accessTier = String(props.accessTier || (props.storageClass && props.storageClass !== 'standard' ? 'cool' : 'hot'));
+
+    this.declare(resource, 'azurerm_storage_account', {
+      name: raw(`"${storageAccountName(resource.name)}${this.nameSuffix(scope)}"`),
+      ...this.azurePlacement(scope),
+      account_kind: this.value(resource, 'kind', 'StorageV2'),
+      account_tier: 'Standard',
+      account_replication_type: String(props.replication || 'LRS'),
+      access_tier: accessTier === 'cool' ? 'Cool' : 'Hot',
+      min_tls_version: 'TLS1_2',
+      allow_nested_items_to_be_public: false,
+      blob_properties: this.isEnabled(resource, 'versioning', false) ? nested({ versioning_enabled: true }) : undefined
+    }, { primary: true, endpoint: { attribute: 'name', env: 'ACCOUNT_NAME' } });
+  }
+
+  private azureFunctionApp(resource: ModelResource): void {
+    const scope = this.scopeOf(resource);
+    const family = runtimeFamily(resource.properties.runtime);
+    const plan = String(resource.properties.hostingPlan || 'consumption');
+    const name = kebabCase(resource.name) || 'functions';
+
+    const storage = this.declare(resource, 'azurerm_storage_account', {
+      name: raw(`"${storageAccountName(resource.name)}${this.nameSuffix(scope)}"`),
+      ...this.azurePlacement(scope),
+      account_tier: 'Standard',
+      account_replication_type: 'LRS',
+      min_tls_version: 'TLS1_2'
+    });
+    const servicePlan = this.declare(resource, 'azurerm_service_plan', {
+      name: `plan-${name}`,
+      ...this.azurePlacement(scope),
+      os_type: 'Linux',
+      sku_name: plan === 'premium' ? 'EP1' : plan === 'dedicated' ? 'B1' : 'Y1'
+    });
+
+    const timeout = Number(resource.properties.timeout);
+    const settings: HclBody = { ...this.environment(resource) };
+    if (timeout > 0) settings.AzureFunctionsJobHost__functionTimeout = formatTimeSpan(timeout);
+
+    this.declare(resource, 'azurerm_linux_function_app', {
+      name: raw(`"${name}-${this.nameSuffix(scope)}"`),
+      ...this.azurePlacement(scope),
+      service_plan_id: raw(`${servicePlan}.id`),
+      storage_account_name: raw(`${storage}.name`),
+      storage_account_access_key: raw(`${storage}.primary_access_key`),
+      https_only: true,
+      site_config: nested({ application_stack: nested(azureFunctionStack(family)) }),
+      app_settings: Object.keys(settings).length > 0 ? settings : undefined
+    }, { primary: true, endpoint: { attribute: 'default_hostname', env: 'HOST' } });
+  }
+
+  private azureWebApp(resource: ModelResource): void {
+    const scope = this.scopeOf(resource);
+    const tier = String(resource.properties.pricingTier || 'B1');
+    const name = kebabCase(resource.name) || 'web';
+
+    const servicePlan = this.declare(resource, 'azurerm_service_plan', {
+      name: `plan-${name}`,
+      ...this.azurePlacement(scope),
+      os_type: 'Linux',
+      sku_name: AZURE_WEB_SKUS[tier] || 'B1'
+    });
+
+    const settings = this.environment(resource);
+    this.declare(resource, 'azurerm_linux_web_app', {
+      name: raw(`"${name}-${this.nameSuffix(scope)}"`),
+      ...this.azurePlacement(scope),
+      service_plan_id: raw(`${servicePlan}.id`),
+      https_only: true,
+      site_config: nested({
+        ftps_state: 'Disabled',
+        application_stack: nested(azureWebStack(String(resource.properties.runtime || 'dotnet')))
+      }),
+      app_settings: Object.keys(settings).length > 0 ? settings : undefined
+    }, { primary: true, endpoint: { attribute: 'default_hostname', env: 'HOST' } });
+  }
+
+  private azureContainerGroup(resource: ModelResource): void {
+    const scope = this.scopeOf(resource);
+    const environment = this.environment(resource);
+    this.declare(resource, 'azurerm_container_group', {
+      name: `ci-${kebabCase(resource.name)}`,
+      ...this.azurePlacement(scope),
+      os_type: 'Linux',
+      ip_address_type: 'Public',
+      restart_policy: this.value(resource, 'restartPolicy', 'Always'),
+      container: nested({
+        name: kebabCase(resource.name) || 'app',
+        image: this.value(resource, 'image', 'nginx:latest'),
+        cpu: this.value(resource, 'cpu', 1),
+        memory: this.value(resource, 'memory', 1),
+        ports: nested({ port: 80, protocol: 'TCP' }),
+        environment_variables: Object.keys(environment).length > 0 ? environment : undefined
+      })
+    }, { primary: true, endpoint: { attribute: 'ip_address', env: 'IP' } });
+  }
+
+  private azureCosmosAccount(resource: ModelResource): void {
+    const scope = this.scopeOf(resource);
+    const api = String(resource.properties.api || 'sql');
+    const capability = { mongodb: 'EnableMongo', cassandra: 'EnableCassandra', gremlin: 'EnableGremlin', table: 'EnableTable' }[api];
+    const placement = this.azurePlacement(scope);
+
+    const account = this.declare(resource, 'azurerm_cosmosdb_account', {
+      name: raw(`"${kebabCase(resource.name) || 'cosmos'}-${this.nameSuffix(scope)}"`),
+      ...placement,
+      offer_type: 'Standard',
+      kind: api === 'mongodb' ? 'MongoDB' : 'GlobalDocumentDB',
+      consistency_policy: nested({
+        consistency_level: AZURE_CONSISTENCY_LEVELS[String(resource.properties.consistencyLevel || 'session')] || 'Session'
+      }),
+      geo_location: nested({ location: placement.location, failover_priority: 0 }),
+      capabilities: capability ? nested({ name: capability }) : undefined
+    }, { primary: true, endpoint: { attribute: 'endpoint', env: 'ENDPOINT' } });
+
+    if (api === 'sql') {
+      this.declare(resource, 'azurerm_cosmosdb_sql_database', {
+        name: kebabCase(resource.name) || 'db',
+        resource_group_name: placement.resource_group_name,
+        account_name: raw(`${account}.name`),
+        throughput: this.value(resource, 'throughput', 400)
+      });
+    }
+  }
+
+  private azureRedis(resource: ModelResource): void {
+    const scope = this.scopeOf(resource);
+    const tier = String(resource.properties.tier || 'standard');
+    const family = tier === 'premium' ? 'P' : 'C';
+    const sizes: Record<string, { C: number; P: number }> = {
+      '0.25': { C: 0, P: 1 }, '1': { C: 1, P: 1 }, '2.5': { C: 2, P: 1 }, '6': { C: 3, P: 1 }, '13': { C: 4, P: 2 }
+    };
+    const capacity = sizes[String(resource.properties.capacity || '1')] || sizes['1'];
+
+    this.declare(resource, 'azurerm_redis_cache', {
+      name: raw(`"${kebabCase(resource.name) || 'redis'}-${this.nameSuffix(scope)}"`),
+      ...this.azurePlacement(scope),
+      capacity: capacity[family],
+      family,
+      sku_name: tier[0].toUpperCase() + tier.slice(1),
+      enable_non_ssl_port: this.value(resource, 'enableNonSslPort', false),
+      minimum_tls_version: '1.2'
+    }, { primary: true, endpoint: { attribute: 'hostname', env: 'HOST' } });
+  }
+
+  private azureCdn(resource: ModelResource): void {
+    const scope = this.scopeOf(resource);
+    const skus: Record<string, string> = { microsoft: 'Standard_Microsoft', akamai: 'Standard_Akamai', verizon: 'Standard_Verizon' };
+    const origin = this.targets(resource).find(target => target.kind === 'webApp' || target.kind === 'bucket');
+    if (origin) this.wire(resource, origin.resource);
+    const placement = this.azurePlacement(scope);
+
+    const profile = this.declare(resource, 'azurerm_cdn_profile', {
+      name: `cdn-${kebabCase(resource.name)}`,
+      resource_group_name: placement.resource_group_name,
+      location: 'global',
+      sku: skus[String(resource.properties.provider || 'microsoft')] || skus.microsoft
+    }, { primary: true });
+
+    if (!origin) {
+      this.warnings.push(`${resource.name} has no arrow to a web app or storage account, so no CDN endpoint was generated`);
+      return;
+    }
+
+    const host = origin.kind === 'webApp'
+      ? raw(this.attr(scope, origin.resource, 'default_hostname'))
+      : raw(this.attr(scope, origin.resource, 'primary_blob_host'));
+    this.declare(resource, 'azurerm_cdn_endpoint', {
+      name: raw(`"${kebabCase(resource.name) || 'cdn'}-${this.nameSuffix(scope)}"`),
+      profile_name: raw(`${profile}.name`),
+      resource_group_name: placement.resource_group_name,
+      location: 'global',
+      is_http_allowed: !this.isEnabled(resource, 'httpsOnly', false),
+      is_https_allowed: true,
+      origin_host_header: host,
+      origin: nested({ name: 'origin', host_name: host })
+    });
+  }
+
+  private azureKeyVault(resource: ModelResource): void {
+    const scope = this.scopeOf(resource);
+    const client = this.data(scope, 'azurerm_client_config', 'current', {});
+    this.declare(resource, 'azurerm_key_vault', {
+      name: raw(`"kv-${kebabCase(resource.name).slice(0, 14)}-${this.nameSuffix(scope)}"`),
+      ...this.azurePlacement(scope),
+      tenant_id: raw(`${client}.tenant_id`),
+      sku_name: this.value(resource, 'tier', 'standard'),
+      enable_rbac_authorization: true,
+      soft_delete_retention_days: 90,
+      purge_protection_enabled: this.isEnabled(resource, 'purgeProtection', false)
+    }, { primary: true, endpoint: { attribute: 'vault_uri', env: 'URI' } });
+  }
+
+  private azureWorkspace(resource: ModelResource): void {
+    this.declare(resource, 'azurerm_log_analytics_workspace', {
+      name: `log-${kebabCase(resource.name)}`,
+      ...this.azurePlacement(this.scopeOf(resource)),
+      sku: 'PerGB2018',
+      retention_in_days: this.value(resource, 'retentionDays', 30)
+    }, { primary: true, endpoint: { attribute: 'workspace_id', env: 'WORKSPACE_ID' } });
+  }
+
+  // Network security group of a subnet, created the first time an arrow needs a rule there
+  private azureSecurityGroup(subnet: ModelResource): { address: string; priority: number } {
+    const existing = this.networkSecurityGroups.get(subnet.id);
+    if (existing) return existing;
+
+    const scope = this.scopeOf(subnet);
+    this.pendingComment = `${subnet.name} network security group`;
+    const address = this.declare(subnet, 'azurerm_network_security_group', {
+      name: `nsg-${kebabCase(subnet.name)}`,
+      ...this.azurePlacement(scope)
+    });
+    this.declare(subnet, 'azurerm_subnet_network_security_group_association', {
+      subnet_id: raw(this.attr(scope, subnet, 'id')),
+      network_security_group_id: raw(`${address}.id`)
+    });
+
+    const group = { address, priority: 100 };
+    this.networkSecurityGroups.set(subnet.id, group);
+    return group;
+  }
+
+  // Google Cloud
+
+  private addGcp(resource: ModelResource, kind: TerraformKind): void {
+    switch (kind) {
+      case 'network':
+        return this.gcpNetwork(resource);
+      case 'subnet':
+        return this.gcpSubnetwork(resource);
+      case 'vm':
+        return this.gcpInstance(resource);
+      case 'database':
+        return this.gcpSqlInstance(resource);
+      case 'bucket':
+        return this.gcpBucket(resource);
+      case 'function':
+        return this.gcpFunction(resource);
+      case 'container':
+        return this.gcpCloudRun(resource);
+      case 'cache':
+        return this.gcpRedis(resource);
+      case 'topic':
+        return this.gcpTopic(resource);
+      case 'secret':
+        return this.gcpSecret(resource);
+      case 'firestore':
+        return this.gcpFirestore(resource);
+      case 'spanner':
+        return this.gcpSpanner(resource);
+      default:
+        this.unsupported(resource);
+    }
+  }
+
+  private gcpNetwork(resource: ModelResource): void {
+    this.declare(resource, 'google_compute_network', {
+      name: kebabCase(resource.name) || 'network',
+      auto_create_subnetworks: false
+    }, { primary: true });
+  }
+
+  private gcpSubnetwork(resource: ModelResource): void {
+    const network = this.containing(resource, 'network');
+    if (!network) {
+      this.warnings.push(`Subnet ${resource.name} is not inside a VPC network and was skipped`);
+      return;
+    }
+
+    const scope = this.scopeOf(resource);
+    this.declare(resource, 'google_compute_subnetwork', {
+      name: kebabCase(resource.name) || 'subnet',
+      network: raw(this.attr(scope, network, 'id')),
+      region: raw(this.route(scope, '', 'var.region', 'region', 'Google Cloud region')),
+      ip_cidr_range: this.subnetCidr(resource, network),
+      private_ip_google_access: true
+    }, { primary: true });
+  }
+
+  private gcpInstance(resource: ModelResource): void {
+    const scope = this.scopeOf(resource);
+    const subnet = this.containing(resource, 'subnet');
+    const machineType = String(resource.properties.instanceType || '');
+    const defaultType = String(resource.metadata?.providerMappings.gcp?.metadata?.defaultMachineType || 'e2-micro');
+
+    this.declare(resource, 'google_compute_instance', {
+      name: kebabCase(resource.name) || 'instance',
+      machine_type: /^[a-z][0-9a-z]*-/.test(machineType) ? machineType : defaultType,
+      zone: raw(this.route(scope, '', 'var.zone', 'zone', 'Google Cloud zone')),
+      // Firewall rules from arrows target instances by this tag
+      tags: [kebabCase(resource.name) || 'instance'],
+      boot_disk: nested({
+        initialize_params: nested({
+          image: resource.properties.operatingSystem === 'windows' ? 'windows-cloud/windows-2022' : 'debian-cloud/debian-12'
+        })
+      }),
+      network_interface: nested({
+        network: subnet ? undefined : 'default',
+        subnetwork: subnet ? raw(this.attr(scope, subnet, 'id')) : undefined,
+        access_config: subnet && isPublicSubnet(subnet) ? nested({}) : undefined
+      })
+    }, { primary: true, endpoint: { attribute: 'network_interface[0].network_ip', env: 'PRIVATE_IP' } });
+  }
+
+  private gcpSqlInstance(resource: ModelResource): void {
+    const scope = this.scopeOf(resource);
+    const engine = String(resource.properties.engine || 'mysql');
+    if (!CLOUD_SQL_VERSIONS[engine]) {
+      this.warnings.push(`${resource.name} uses ${engine}, which Cloud SQL does not offer; PostgreSQL was used instead`);
+    }
+
+    this.declare(resource, 'google_sql_database_instance', {
+      name: raw(`"${kebabCase(resource.name) || 'db'}-${this.nameSuffix(scope)}"`),
+      database_version: CLOUD_SQL_VERSIONS[engine] || CLOUD_SQL_VERSIONS.postgresql,
+      region: raw(this.route(scope, '', 'var.region', 'region', 'Google Cloud region')),
+      deletion_protection: false,
+      settings: nested({
+        tier: engine === 'sqlserver' ? 'db-custom-2-3840' : 'db-f1-micro',
+        availability_type: this.isEnabled(resource, 'multiAz', false) ? 'REGIONAL' : 'ZONAL'
+      })
+    }, { primary: true, endpoint: { attribute: 'connection_name', env: 'CONNECTION_NAME' } });
+  }
+
+  private gcpBucket(resource: ModelResource): void {
+    const scope = this.scopeOf(resource);
+    this.declare(resource, 'google_storage_bucket', {
+      name: raw(`"\${${this.route(scope, '', 'var.project_id', 'project_id', 'Google Cloud project id')}}-${kebabCase(resource.name) || 'bucket'}"`),
+      location: String(resource.properties.location || 'US').toUpperCase(),
+      storage_class: GCS_STORAGE_CLASSES[String(resource.properties.storageClass || 'standard')] || 'STANDARD',
+      uniform_bucket_level_access: true,
+      versioning: this.isEnabled(resource, 'versioning', false) ? nested({ enabled: true }) : undefined
+    }, { primary: true, endpoint: { attribute: 'name', env: 'BUCKET_NAME' } });
+  }
+
+  private gcpFunction(resource: ModelResource): void {
+    const scope = this.scopeOf(resource);
+    const family = runtimeFamily(resource.properties.runtime);
+    const runtime = /\d/.test(String(resource.properties.runtime)) ? String(resource.properties.runtime) : GCF_RUNTIMES[family] || GCF_RUNTIMES.nodejs;
+    const name = kebabCase(resource.name) || 'function';
+    const projectId = this.route(scope, '', 'var.project_id', 'project_id', 'Google Cloud project id');
+
+    const sourceBucket = this.declare(resource, 'google_storage_bucket', {
+      name: raw(`"\${${projectId}}-${name}-source"`),
+      location: 'US',
+      uniform_bucket_level_access: true
+    }, { suffix: 'source' });
+    const archive = this.handlerArchive(resource, family, GCF_INLINE_HANDLERS);
+    const sourceObject = this.declare(resource, 'google_storage_bucket_object', {
+      name: raw(`"${name}-\${${archive}.output_md5}.zip"`),
+      bucket: raw(`${sourceBucket}.name`),
+      source: raw(`${archive}.output_path`)
+    }, { suffix: 'source' });
+
+    const environment = this.environment(resource);
+    this.declare(resource, 'google_cloudfunctions2_function', {
+      name,
+      location: raw(this.route(scope, '', 'var.region', 'region', 'Google Cloud region')),
+      build_config: nested({
+        runtime,
+        entry_point: 'handler',
+        source: nested({
+          storage_source: nested({ bucket: raw(`${sourceBucket}.name`), object: raw(`${sourceObject}.name`) })
+        })
+      }),
+      service_config: nested({
+        available_memory: `${resource.properties.memory ?? 256}M`,
+        timeout_seconds: this.value(resource, 'timeout', 60),
+        environment_variables: Object.keys(environment).length > 0 ? environment : undefined
+      })
+    }, { primary: true, endpoint: { attribute: 'url', env: 'URL' } });
+  }
+
+  private gcpCloudRun(resource: ModelResource): void {
+    const scope = this.scopeOf(resource);
+    const environment = Object.entries(this.environment(resource)).map(([name, value]) => nested({ name, value }));
+    this.declare(resource, 'google_cloud_run_v2_service', {
+      name: kebabCase(resource.name) || 'service',
+      location: raw(this.route(scope, '', 'var.region', 'region', 'Google Cloud region')),
+      template: nested({
+        containers: nested({
+          image: this.value(resource, 'image', 'us-docker.pkg.dev/cloudrun/container/hello'),
+          resources: nested({
+            limits: { cpu: String(resource.properties.cpu ?? '1'), memory: String(resource.properties.memory ?? '512Mi') }
+          }),
+          env: environment.length > 0 ? environment : undefined
+        }),
+        scaling: nested({ max_instance_count: this.value(resource, 'maxInstances', 100) })
+      })
+    }, { primary: true, endpoint: { attribute: 'uri', env: 'URL' } });
+  }
+
+  private gcpRedis(resource: ModelResource): void {
+    const scope = this.scopeOf(resource);
+    if (resource.properties.engine === 'memcached') {
+      this.warnings.push(`${resource.name} uses Memcached; a Redis instance was generated instead`);
+    }
+    const network = this.containing(resource, 'network');
+    const version = String(resource.properties.version || '6.x').replace(/\.x$/, '').replace('.', '_');
+
+    this.declare(resource, 'google_redis_instance', {
+      name: kebabCase(resource.name) || 'cache',
+      tier: resource.properties.tier === 'basic' ? 'BASIC' : 'STANDARD_HA',
+      memory_size_gb: this.value(resource, 'memorySizeGb', 1),
+      redis_version: `REDIS_${version}${version.includes('_') ? '' : '_X'}`,
+      authorized_network: network ? raw(this.attr(scope, network, 'id')) : undefined
+    }, { primary: true, endpoint: { attribute: 'host', env: 'HOST' } });
+  }
+
+  private gcpTopic(resource: ModelResource): void {
+    const days = Number(resource.properties.messageRetentionDuration ?? 7);
+    const topic = this.declare(resource, 'google_pubsub_topic', {
+      name: this.value(resource, 'topicName', kebabCase(resource.name)),
+      message_retention_duration: `${days * 86400}s`
+    }, { primary: true, endpoint: { attribute: 'name', env: 'TOPIC' } });
+
+    // Delivery guarantees belong to subscriptions in Pub/Sub
+    const exactlyOnce = this.isEnabled(resource, 'exactlyOnceDelivery', false);
+    const ordering = this.isEnabled(resource, 'messageOrdering', false);
+    if (exactlyOnce || ordering) {
+      this.declare(resource, 'google_pubsub_subscription', {
+        name: `${kebabCase(resource.name) || 'topic'}-subscription`,
+        topic: raw(`${topic}.id`),
+        enable_exactly_once_delivery: exactlyOnce || undefined,
+        enable_message_ordering: ordering || undefined
+      });
+    }
+  }
+
+  private gcpSecret(resource: ModelResource): void {
+    const days = Number(resource.properties.ttl ?? 0);
+    if (this.isEnabled(resource, 'rotation', false)) {
+      this.warnings.push(`${resource.name} enables rotation, which needs a Pub/Sub topic; rotation was left out`);
+    }
+
+    this.declare(resource, 'google_secret_manager_secret', {
+      secret_id: this.value(resource, 'secretName', kebabCase(resource.name)),
+      ttl: days > 0 ? `${days * 86400}s` : undefined,
+      replication: nested({ auto: nested({}) })
+    }, { primary: true, endpoint: { attribute: 'secret_id', env: 'SECRET_ID' } });
+  }
+
+  private gcpFirestore(resource: ModelResource): void {
+    this.declare(resource, 'google_firestore_database', {
+      name: this.value(resource, 'databaseId', '(default)'),
+      location_id: this.isEnabled(resource, 'multiRegion', false) ? 'nam5' : this.value(resource, 'location', 'us-central1'),
+      type: resource.properties.mode === 'datastore' ? 'DATASTORE_MODE' : 'FIRESTORE_NATIVE'
+    }, { primary: true, endpoint: { attribute: 'name', env: 'DATABASE' } });
+  }
+
+  private gcpSpanner(resource: ModelResource): void {
+    const processingUnits = Number(resource.properties.processingUnits ?? 0);
+    this.declare(resource, 'google_spanner_instance', {
+      name: this.value(resource, 'instanceId', kebabCase(resource.name)),
+      config: this.value(resource, 'config', 'regional-us-central1'),
+      display_name: resource.name.slice(0, 30),
+      // Spanner accepts either nodes or processing units, not both
+      processing_units: processingUnits > 0 ? processingUnits : undefined,
+      num_nodes: processingUnits > 0 ? undefined : this.value(resource, 'nodes', 1)
+    }, { primary: true, endpoint: { attribute: 'name', env: 'INSTANCE' } });
+  }
+
+  // Security rules
+
+  // Arrows between network-attached resources open the target's port to the source
+  private addSecurityRules(): void {
+    const links = [...this.model.links].sort((a, b) =>
+      `${this.names.get(a.to)}:${this.names.get(a.from)}`.localeCompare(`${this.names.get(b.to)}:${this.names.get(b.from)}`)
+    );
+
+    for (const link of links) {
+      const source = this.model.resources.find(resource => resource.id === link.from);
+      const target = this.model.resources.find(resource => resource.id === link.to);
+      if (!source || !target || !this.refs.has(source.id) || !this.refs.has(target.id)) continue;
+
+      const port = this.servicePort(target, link.label);
+      this.pendingComment = `Allow ${source.name} to reach ${target.name} on port ${port}`;
+
+      if (this.cloud === 'aws') this.awsIngressRule(source, target, port);
+      else if (this.cloud === 'azure') this.azureInboundRule(source, target, port);
+      else this.gcpFirewallRule(source, target, port);
+    }
+  }
+
+  private awsIngressRule(source: ModelResource, target: ModelResource, port: number): void {
+    const sourceGroup = this.securityGroups.get(source.id);
+    const targetGroup = this.securityGroups.get(target.id);
+    if (!sourceGroup || !targetGroup) return;
+
+    const scope = this.scopeOf(target);
+    this.declare(target, 'aws_vpc_security_group_ingress_rule', {
+      security_group_id: raw(`${targetGroup}.id`),
+      referenced_security_group_id: raw(this.route(scope, this.scopeOf(source), `${sourceGroup}.id`, `${this.names.get(source.id)}_security_group_id`, `${source.name} security group id`)),
+      from_port: port,
+      to_port: port,
+      ip_protocol: 'tcp'
+    }, { suffix: `from_${this.names.get(source.id)}` });
+  }
+
+  private azureInboundRule(source: ModelResource, target: ModelResource, port: number): void {
+    const targetSubnet = this.containing(target, 'subnet');
+    if (!targetSubnet || this.kinds.get(target.id) !== 'vm') return;
+
+    const scope = this.scopeOf(targetSubnet);
+    const sourceSubnet = this.containing(source, 'subnet');
+    const group = this.azureSecurityGroup(targetSubnet);
+
+    this.declare(targetSubnet, 'azurerm_network_security_rule', {
+      name: `allow-${kebabCase(source.name)}-to-${kebabCase(target.name)}`,
+      priority: group.priority,
+      direction: 'Inbound',
+      access: 'Allow',
+      protocol: 'Tcp',
+      source_port_range: '*',
+      destination_port_range: String(port),
+      source_address_prefix: sourceSubnet ? raw(`${this.attr(scope, sourceSubnet, 'address_prefixes')}[0]`) : 'VirtualNetwork',
+      destination_address_prefix: raw(`${this.attr(scope, targetSubnet, 'address_prefixes')}[0]`),
+      resource_group_name: this.azurePlacement(scope).resource_group_name,
+      network_security_group_name: raw(`${group.address}.name`)
+    }, { suffix: `${this.names.get(source.id)}_to_${this.names.get(target.id)}` });
+    group.priority += 10;
+  }
+
+  private gcpFirewallRule(source: ModelResource, target: ModelResource, port: number): void {
+    const network = this.containing(target, 'network');
+    if (!network || this.kinds.get(target.id) !== 'vm') return;
+
+    const scope = this.scopeOf(target);
+    const sourceSubnet = this.containing(source, 'subnet');
+    const fromInstance = this.kinds.get(source.id) === 'vm';
+    if (!fromInstance && !sourceSubnet) return;
+
+    this.declare(target, 'google_compute_firewall', {
+      name: `allow-${kebabCase(source.name)}-to-${kebabCase(target.name)}`.slice(0, 63),
+      network: raw(this.attr(scope, network, 'id')),
+      allow: nested({ protocol: 'tcp', ports: [String(port)] }),
+      source_tags: fromInstance ? [kebabCase(source.name) || 'instance'] : undefined,
+      source_ranges: fromInstance || !sourceSubnet ? undefined : [raw(this.attr(scope, sourceSubnet, 'ip_cidr_range'))],
+      target_tags: [kebabCase(target.name) || 'instance']
+    }, { suffix: `from_${this.names.get(source.id)}` });
+  }
+
+  // Port the target listens on; a number in the arrow label wins
+  private servicePort(target: ModelResource, label?: string): number {
+    const fromLabel = label?.match(/\b(\d{2,5})\b/);
+    if (fromLabel) return Number(fromLabel[1]);
+
+    switch (this.kinds.get(target.id)) {
+      case 'database':
+        return DATABASE_PORTS[String(target.properties.engine || 'mysql')] || 3306;
+      case 'cache':
+        return Number(target.properties.port) || (target.properties.engine === 'memcached' ? 11211 : 6379);
+      case 'fileSystem':
+        return 2049;
+      default:
+        return 80;
+    }
+  }
+
+  // Shared helpers
+
+  private unsupported(resource: ModelResource): void {
+    this.warnings.push(`${resource.name} (${resource.componentId}) has no ${CLOUD_NAMES[this.cloud]} mapping in the Terraform export and was skipped`);
+  }
+
+  // Declare a resource in the module of the shape; the primary one is what arrows and other resources refer to
+  private declare(
+    source: ModelResource,
+    type: string,
+    body: HclBody,
+    options: { suffix?: string; primary?: boolean; endpoint?: TerraformEndpoint } = {}
+  ): string {
+    const scope = this.scopeOf(source);
+    const baseName = `${this.names.get(source.id)}${options.suffix ? `_${options.suffix}` : ''}`;
+
+    if (options.primary) {
+      // Arrows that didn't turn into a reference still order the deployment within a module
+      const dependsOn = this.targets(source)
+        .filter(target => !this.wired.has(`${source.id}->${target.resource.id}`) && target.scope === scope)
+        .map(target => raw(target.address));
+      if (dependsOn.length > 0) body = { ...body, depends_on: dependsOn };
+    }
+
+    const address = this.block(scope, 'resource', type, baseName, body);
+
+    if (options.primary) {
+      const kind = this.kinds.get(source.id) as TerraformKind;
+      this.refs.set(source.id, { scope, address, name: this.names.get(source.id) as string, label: source.name, kind, endpoint: options.endpoint });
+    }
+
+    return address;
+  }
+
+  // Data source shared by everything in a module
+  private data(scope: string, type: string, name: string, body: HclBody): string {
+    const address = `data.${type}.${name}`;
+    const target = this.scopes.get(scope) as TerraformScope;
+    if (!target.addresses.has(address)) {
+      const comment = this.pendingComment;
+      this.pendingComment = undefined;
+      this.block(scope, 'data', type, name, body);
+      this.pendingComment = comment;
+    }
+    return address;
+  }
+
+  private block(scope: string, kind: 'resource' | 'data', type: string, baseName: string, body: HclBody): string {
+    const target = this.scopes.get(scope) as TerraformScope;
+    const prefix = kind === 'data' ? 'data.' : '';
+    let name = baseName;
+    for (let i = 2; target.addresses.has(`${prefix}${type}.${name}`); i++) {
+      name = `${baseName}_${i}`;
+    }
+
+    const address = `${prefix}${type}.${name}`;
+    target.addresses.add(address);
+    target.blocks.push({ kind, type, name, body, comment: this.pendingComment });
+    this.pendingComment = undefined;
+    return address;
+  }
+
+  // Attribute of another resource, routed through module variables and outputs when needed
+  private attr(scope: string, resource: ModelResource, attribute: string): string {
+    const ref = this.refs.get(resource.id) as TerraformRef;
+    return this.route(
+      scope,
+      ref.scope,
+      `${ref.address}.${attribute}`,
+      `${ref.name}_${attribute.replace(/[^a-z0-9]+/g, '_').replace(/_+$/, '')}`,
+      `${ref.label} ${attribute.replace(/[^a-z0-9]+/g, ' ').trim()}`
+    );
+  }
+
+  // An expression valid in `from` made available in `scope`
+  private route(scope: string, from: string, expression: string, name: string, description: string, options: { type?: string; sensitive?: boolean } = {}): string {
+    if (scope === from) return expression;
+
+    let source = expression;
+    if (from !== '') {
+      const module = this.scopes.get(from) as TerraformScope;
+      module.outputs.set(name, { value: expression, description, sensitive: options.sensitive });
+      source = `module.${from}.${name}`;
+    }
+    if (scope === '') return source;
+
+    const module = this.scopes.get(scope) as TerraformScope;
+    module.variables.set(name, { type: options.type || 'string', description, sensitive: options.sensitive });
+    module.inputs.set(name, source);
+    return `var.${name}`;
+  }
+
+  // Environment variables pointing at the resources this one has arrows to
+  private environment(resource: ModelResource): HclBody {
+    const scope = this.scopeOf(resource);
+    const environment: HclBody = {};
+    for (const target of this.targets(resource)) {
+      if (!target.endpoint) continue;
+      const ref = this.refs.get(target.resource.id) as TerraformRef;
+      const key = `${constantCase(target.resource.name) || ref.name.toUpperCase()}_${target.endpoint.env}`;
+      environment[key] = raw(this.endpoint(scope, ref));
+      this.wire(resource, target.resource);
+    }
+    return environment;
+  }
+
+  // Already declared resources this one has arrows to
+  private targets(resource: ModelResource): TerraformTarget[] {
+    const targets: TerraformTarget[] = [];
+    for (const link of this.model.links) {
+      const ref = link.from === resource.id ? this.refs.get(link.to) : undefined;
+      const target = ref ? this.model.resources.find(r => r.id === link.to) : undefined;
+      if (ref && target && !targets.some(t => t.resource === target)) {
+        targets.push({ resource: target, ...ref });
+      }
+    }
+    return targets;
+  }
+
+  private wire(source: ModelResource, target: ModelResource): void {
+    this.wired.add(`${source.id}->${target.id}`);
+  }
+
+  // Zip of an inline placeholder handler, or of a functions/<name> folder for other runtimes
+  private handlerArchive(resource: ModelResource, family: string, handlers: Record<string, { file: string; code: string }>): string {
+    this.providers.add('archive');
+    const name = kebabCase(resource.name) || 'function';
+    const handler = handlers[family];
+    if (!handler) {
+      this.warnings.push(`${resource.name} uses a ${family} runtime; put its source in functions/${name}`);
+    }
+
+    const scope = this.scopeOf(resource);
+    const comment = this.pendingComment;
+    this.pendingComment = undefined;
+    const address = this.block(scope, 'data', 'archive_file', this.names.get(resource.id) as string, {
+      type: 'zip',
+      output_path: raw(`"\${path.module}/build/${name}.zip"`),
+      source_dir: handler ? undefined : raw(`"\${path.root}/functions/${name}"`),
+      source: handler ? nested({ content: handler.code, filename: handler.file }) : undefined
+    });
+    this.pendingComment = comment;
+    return address;
+  }
+
+  // Suffix for globally unique names, from one random_string shared by the whole configuration
+  private nameSuffix(scope: string): string {
+    this.providers.add('random');
+    const root = this.scopes.get('') as TerraformScope;
+    if (!root.addresses.has('random_string.suffix')) {
+      const comment = this.pendingComment;
+      this.pendingComment = 'Suffix for names that must be globally unique';
+      this.block('', 'resource', 'random_string', 'suffix', { length: 6, special: false, upper: false });
+      this.pendingComment = comment;
+    }
+    return `\${${this.route(scope, '', 'random_string.suffix.result', 'name_suffix', 'Suffix for globally unique names')}}`;
+  }
+
+  private addProviderVariables(): void {
+    const root = this.scopes.get('') as TerraformScope;
+    if (this.cloud === 'aws') {
+      root.variables.set('region', { type: 'string', description: 'AWS region to deploy into', default: 'us-east-1' });
+    } else if (this.cloud === 'azure') {
+      root.variables.set('location', { type: 'string', description: 'Azure region to deploy into', default: 'eastus' });
+      root.variables.set('name_prefix', { type: 'string', description: 'Prefix for resource names', default: kebabCase(this.model.name).slice(0, 20) || 'infrageni' });
+    } else {
+      root.variables.set('project_id', { type: 'string', description: 'Google Cloud project to deploy into' });
+      root.variables.set('region', { type: 'string', description: 'Google Cloud region to deploy into', default: 'us-central1' });
+      root.variables.set('zone', { type: 'string', description: 'Google Cloud zone for zonal resources', default: 'us-central1-a' });
+    }
+  }
+
+  private addParameter(parameter: PatternParameter): void {
+    const root = this.scopes.get('') as TerraformScope;
+    const name = identifier(parameter.id);
+    const type = parameter.type === 'number' ? 'number'
+      : parameter.type === 'boolean' ? 'bool'
+        : parameter.type === 'multiselect' ? 'list(string)'
+          : 'string';
+
+    const options = parameter.type === 'select' ? parameter.options?.map(option => option.value) : undefined;
+    root.variables.set(name, {
+      type,
+      description: parameter.description || parameter.name,
+      default: parameter.defaultValue,
+      validation: options && options.length > 0
+        ? { condition: `contains(${renderValue(options as HclValue, 0)}, var.${name})`, message: `${parameter.name} must be one of ${options.join(', ')}.` }
+        : undefined
+    });
+    this.parameters.set(parameter.id, { name, type, description: parameter.description || parameter.name });
+  }
+
+  private secret(scope: string, name: string, description: string): string {
+    const root = this.scopes.get('') as TerraformScope;
+    if (!root.variables.has(name)) {
+      root.variables.set(name, { type: 'string', description, sensitive: true });
+    }
+    return this.route(scope, '', `var.${name}`, name, description, { sensitive: true });
+  }
+
+  // Property values; ${parameter_id} references in pattern configuration read the variables
+  private value(resource: ModelResource, propertyId: string, fallback: HclValue): HclValue {
+    const value = resource.properties[propertyId] ?? fallback;
+    if (typeof value === 'string' && value.includes('${')) {
+      const scope = this.scopeOf(resource);
+      const parameterRef = (id: string) => {
+        const parameter = this.parameters.get(id) as TerraformSymbol;
+        return this.route(scope, '', `var.${parameter.name}`, parameter.name, parameter.description, { type: parameter.type });
+      };
+
+      const whole = value.match(/^\$\{([^}]+)\}$/);
+      if (whole && this.parameters.has(whole[1])) {
+        return raw(parameterRef(whole[1]));
+      }
+      const interpolated = value.replace(/\$\{([^}]+)\}/g, (match, id: string) =>
+        this.parameters.has(id) ? `\${${parameterRef(id)}}` : `$${match}`
+      );
+      return raw(`"${interpolated.replace(/\\/g, '\\\\').replace(/"/g, '\\"')}"`);
+    }
+    if (typeof value === 'string' || typeof value === 'number' || typeof value === 'boolean') return value;
+    return fallback;
+  }
+
+  private isEnabled(resource: ModelResource, propertyId: string, fallback: boolean): boolean {
+    const value = resource.properties[propertyId];
+    if (value === undefined || value === null || value === '') return fallback;
+    return value === true || value === 'true';
+  }
+
+  private scopeOf(resource: ModelResource): string {
+    return this.moduleOf.get(resource.id) || '';
+  }
+
+  private containing(resource: ModelResource, kind: TerraformKind): ModelResource | undefined {
+    return getResourceAncestors(this.model, resource).find(ancestor =>
+      this.kinds.get(ancestor.id) === kind && (kind === 'zone' || this.refs.has(ancestor.id))
+    );
+  }
+
+  private subnetsIn(network: ModelResource): ModelResource[] {
+    return this.model.resources.filter(resource =>
+      this.kinds.get(resource.id) === 'subnet' && getResourceAncestors(this.model, resource).includes(network)
+    );
+  }
+
+  // Availability zones are numbered in the order they are drawn, otherwise subnets alternate
+  private zoneIndex(subnet: ModelResource, network: ModelResource): number {
+    const zone = this.containing(subnet, 'zone');
+    if (zone) {
+      const zones = this.model.resources.filter(resource =>
+        this.kinds.get(resource.id) === 'zone' && getResourceAncestors(this.model, resource).includes(network)
+      );
+      return Math.max(zones.indexOf(zone), 0);
+    }
+    return this.subnetsIn(network).indexOf(subnet) % 2;
+  }
+
+  // Subnets still sharing the default CIDR get consecutive blocks of the network range
+  private subnetCidr(subnet: ModelResource, network: ModelResource): HclValue {
+    const cidr = subnet.properties.cidrBlock;
+    const siblings = this.subnetsIn(network);
+    const isShared = siblings.some(other => other !== subnet && other.properties.cidrBlock === cidr);
+    if (typeof cidr === 'string' && cidr && !isShared) {
+      return this.value(subnet, 'cidrBlock', cidr);
+    }
+    return deriveSubnetCidr(String(network.properties.cidrBlock || '10.0.0.0/16'), siblings.indexOf(subnet));
+  }
+
+  // Network ids and every endpoint, routed out of their modules
+  private addOutputs(): void {
+    const root = this.scopes.get('') as TerraformScope;
+    const refs = Array.from(this.refs.values()).sort((a, b) => a.name.localeCompare(b.name));
+
+    for (const ref of refs) {
+      if (ref.kind === 'network') {
+        const name = `${ref.name}_id`;
+        root.outputs.set(name, { value: this.route('', ref.scope, `${ref.address}.id`, name, `${ref.label} id`), description: `${ref.label} id` });
+      }
+      if (ref.endpoint) {
+        const name = `${ref.name}_${ref.endpoint.env.toLowerCase()}`;
+        root.outputs.set(name, { value: this.endpoint('', ref), description: `${ref.label} ${ref.endpoint.env.toLowerCase().replace(/_/g, ' ')}` });
+      }
+    }
+  }
+
+  // Endpoint of a resource, e.g. a database host, under a name shared by environment wiring and outputs
+  private endpoint(scope: string, ref: TerraformRef): string {
+    const endpoint = ref.endpoint as TerraformEndpoint;
+    const env = endpoint.env.toLowerCase();
+    return this.route(
+      scope,
+      ref.scope,
+      `${endpoint.address || ref.address}.${endpoint.attribute}`,
+      `${ref.name}_${env}`,
+      `${ref.label} ${env.replace(/_/g, ' ')}`
+    );
+  }
+
+  private render(warnings: string[]): Record<string, string> {
+    const root = this.scopes.get('') as TerraformScope;
+    const files: Record<string, string> = {};
+
+    const header = warnings.length > 0
+      ? `# Export warnings:\n${warnings.map(warning => `# - ${warning}`).join('\n')}\n\n`
+      : '';
+    const modules = Array.from(this.scopes.values())
+      .filter(scope => scope.name !== '')
+      .sort((a, b) => a.name.localeCompare(b.name));
+
+    const moduleBlocks = modules.map(scope => {
+      const inputs = Array.from(scope.inputs.entries()).sort(([a], [b]) => a.localeCompare(b));
+      const body: HclBody = { source: `./modules/${scope.name}` };
+      for (const [name, value] of inputs) body[name] = raw(value);
+      return `# ${scope.comment}\nmodule "${scope.name}" ${renderBody(body, 0)}`;
+    });
+
+    files['providers.tf'] = this.renderProviders();
+    files['main.tf'] = header + joinBlocks([...root.blocks.map(renderBlock), ...moduleBlocks]);
+    files['variables.tf'] = joinBlocks(renderVariables(root.variables));
+    files['outputs.tf'] = joinBlocks(renderOutputs(root.outputs));
+
+    for (const scope of modules) {
+      files[`modules/${scope.name}/main.tf`] = joinBlocks(scope.blocks.map(renderBlock));
+      // Module inputs are sorted so the order doesn't depend on which resource needed them first
+      const variables = new Map(Array.from(scope.variables.entries()).sort(([a], [b]) => a.localeCompare(b)));
+      if (variables.size > 0) files[`modules/${scope.name}/variables.tf`] = joinBlocks(renderVariables(variables));
+      if (scope.outputs.size > 0) files[`modules/${scope.name}/outputs.tf`] = joinBlocks(renderOutputs(scope.outputs));
+    }
+
+    return files;
+  }
+
+  private renderProviders(): string {
+    const required: HclBody = {};
+    for (const provider of Object.keys(REQUIRED_PROVIDERS).filter(name => this.providers.has(name))) {
+      required[provider] = REQUIRED_PROVIDERS[provider];
+    }
+
+    const terraform = `terraform ${renderBody({ required_version: '>= 1.5', required_providers: nested(required) }, 0)}`;
+    const provider = this.cloud === 'aws'
+      ? `provider "aws" ${renderBody({ region: raw('var.region'), default_tags: nested({ tags: { ManagedBy: 'terraform' } }) }, 0)}`
+      : this.cloud === 'azure'
+        ? `provider "azurerm" ${renderBody({ features: nested({}) }, 0)}`
+        : `provider "google" ${renderBody({ project: raw('var.project_id'), region: raw('var.region'), zone: raw('var.zone') }, 0)}`;
+
+    return joinBlocks([terraform, provider]);
+  }
+}
+
+function createScope(name: string, comment?: string): TerraformScope {
+  return {
+    name,
+    comment,
+    blocks: [],
+    variables: new Map(),
+    outputs: new Map(),
+    inputs: new Map(),
+    addresses: new Set()
+  };
+}
+
+function getTerraformKind(resource: ModelResource): TerraformKind | undefined {
+  const { componentId, properties } = resource;
+
+  switch (componentId) {
+    case 'generic-vpc':
+      return 'network';
+    case 'generic-subnet':
+      return 'subnet';
+    case 'generic-availability-zone':
+      return 'zone';
+    case 'generic-compute': {
+      const type = String(properties.type || '');
+      if (/serverless|function/.test(type)) return 'function';
+      if (/container/.test(type)) return 'container';
+      return 'vm';
+    }
+    case 'generic-database':
+      return 'database';
+    case 'generic-storage':
+    case 'azure-storage-account':
+    case 'gcp-cloud-storage':
+      return 'bucket';
+    case 'aws-lambda':
+    case 'azure-functions':
+    case 'gcp-cloud-functions':
+      return 'function';
+    case 'aws-ecs':
+    case 'azure-container-instances':
+    case 'gcp-cloud-run':
+      return 'container';
+    case 'aws-elasticache':
+    case 'azure-cache-redis':
+    case 'gcp-memorystore':
+      return 'cache';
+    case 'aws-cloudfront':
+    case 'azure-cdn':
+      return 'cdn';
+    case 'aws-dynamodb':
+      return 'table';
+    case 'aws-alb':
+      return 'loadBalancer';
+    case 'aws-api-gateway':
+      return 'apiGateway';
+    case 'aws-ecr':
+      return 'registry';
+    case 'aws-ebs':
+      return 'volume';
+    case 'aws-efs':
+      return 'fileSystem';
+    case 'azure-app-service':
+      return 'webApp';
+    case 'azure-cosmos-db':
+      return 'cosmos';
+    case 'azure-key-vault':
+      return 'keyVault';
+    case 'azure-monitor':
+      return 'logs';
+    case 'gcp-pub-sub':
+      return 'topic';
+    case 'gcp-secret-manager':
+      return 'secret';
+    case 'gcp-cloud-firestore':
+      return 'firestore';
+    case 'gcp-cloud-spanner':
+      return 'spanner';
+    default:
+      return undefined;
+  }
+}
+
+function buildRank(kind?: TerraformKind): number {
+  switch (kind) {
+    case 'network':
+      return 0;
+    case 'subnet':
+      return 1;
+    case 'vm':
+    case 'function':
+    case 'container':
+    case 'webApp':
+      return 3;
+    case 'loadBalancer':
+    case 'cdn':
+    case 'apiGateway':
+      return 4;
+    default:
+      return 2;
+  }
+}
+
+function assumeRolePolicy(service: string): Call {
+  return new Call('jsonencode', [{
+    Version: '2012-10-17',
+    Statement: [{ Action: 'sts:AssumeRole', Effect: 'Allow', Principal: { Service: service } }]
+  }]);
+}
+
+function azureFunctionStack(family: string): HclBody {
+  switch (family) {
+    case 'nodejs':
+    case 'node':
+      return { node_version: '20' };
+    case 'python':
+      return { python_version: '3.11' };
+    case 'java':
+      return { java_version: '17' };
+    case 'powershell':
+      return { powershell_core_version: '7.4' };
+    default:
+      return { dotnet_version: '8.0', use_dotnet_isolated_runtime: true };
+  }
+}
+
+function azureWebStack(runtime: string): HclBody {
+  switch (runtime) {
+    case 'node':
+      return { node_version: '20-lts' };
+    case 'python':
+      return { python_version: '3.11' };
+    case 'java':
+      return { java_version: '17', java_server: 'JAVA', java_server_version: '17' };
+    case 'php':
+      return { php_version: '8.2' };
+    case 'ruby':
+      return { ruby_version: '2.7' };
+    default:
+      return { dotnet_version: '8.0' };
+  }
+}
+
+// Rendering
+
+function renderBlock(block: HclBlock): string {
+  const comment = block.comment ? `# ${block.comment}\n` : '';
+  return `${comment}${block.kind} "${block.type}" "${block.name}" ${renderBody(block.body, 0)}`;
+}
+
+function renderVariables(variables: Map<string, TerraformVariable>): string[] {
+  return Array.from(variables.entries()).map(([name, variable]) => {
+    const body: HclBody = {
+      description: variable.description,
+      type: raw(variable.type),
+      default: variable.default as HclValue,
+      sensitive: variable.sensitive || undefined,
+      validation: variable.validation
+        ? nested({ condition: raw(variable.validation.condition), error_message: variable.validation.message })
+        : undefined
+    };
+    return `variable "${name}" ${renderBody(body, 0)}`;
+  });
+}
+
+function renderOutputs(outputs: Map<string, TerraformOutput>): string[] {
+  return Array.from(outputs.entries())
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([name, output]) => `output "${name}" ${renderBody({
+      description: output.description,
+      value: raw(output.value),
+      sensitive: output.sensitive || undefined
+    }, 0)}`);
+}
+
+function joinBlocks(blocks: string[]): string {
+  return blocks.length > 0 ? `${blocks.join('\n\n')}\n` : '';
+}
+
+// Body of a block with `=` aligned across consecutive attributes, as terraform fmt does
+function renderBody(body: HclBody, indent: number): string {
+  const pad = '  '.repeat(indent + 1);
+  const lines: string[] = [];
+  let run: [string, HclValue][] = [];
+  let afterBlock = false;
+
+  const flush = () => {
+    if (run.length === 0) return;
+    if (afterBlock) lines.push('');
+    // A multi-line value closes its alignment group
+    const rendered = run.map(([key, value]) => [key, renderValue(value, indent + 1)]);
+    let group: string[][] = [];
+    for (const [i, entry] of rendered.entries()) {
+      group.push(entry);
+      if (entry[1].includes('\n') || i === rendered.length - 1) {
+        const width = Math.max(...group.map(([key]) => key.length));
+        lines.push(...group.map(([key, text]) => `${pad}${key.padEnd(width)} = ${text}`));
+        group = [];
+      }
+    }
+    run = [];
+  };
+
+  for (const [key, value] of Object.entries(body)) {
+    if (value === undefined) continue;
+    const blocks = value instanceof Nested
+      ? [value]
+      : Array.isArray(value) && value.length > 0 && value.every(item => item instanceof Nested) ? (value as Nested[]) : undefined;
+
+    if (blocks) {
+      flush();
+      for (const block of blocks) {
+        if (lines.length > 0) lines.push('');
+        lines.push(`${pad}${formatKey(key)} ${renderBody(block.body, indent + 1)}`);
+      }
+      afterBlock = true;
+    } else {
+      run.push([formatKey(key), value]);
+    }
+  }
+  flush();
+
+  return lines.length > 0 ? `{\n${lines.join('\n')}\n${'  '.repeat(indent)}}` : '{}';
+}
+
+function renderValue(value: HclValue, indent: number): string {
+  const pad = '  '.repeat(indent + 1);
+  const closing = '  '.repeat(indent);
+
+  if (value instanceof Raw) return value.text;
+  if (value instanceof Call) return `${value.fn}(${value.args.map(arg => renderValue(arg, indent)).join(', ')})`;
+  if (value instanceof Nested) return renderBody(value.body, indent);
+  if (typeof value === 'string') return quote(value);
+  if (value === null || value === undefined) return 'null';
+  if (Array.isArray(value)) {
+    const items = value.filter(item => item !== undefined);
+    if (items.length === 0) return '[]';
+    const rendered = items.map(item => renderValue(item, indent + 1));
+    const inline = `[${rendered.join(', ')}]`;
+    if (items.every(item => typeof item !== 'object' || item instanceof Raw) && inline.length <= 80 && !inline.includes('\n')) {
+      return inline;
+    }
+    return `[\n${rendered.map(item => `${pad}${item},`).join('\n')}\n${closing}]`;
+  }
+  if (typeof value === 'object') {
+    const entries = Object.entries(value).filter(([, item]) => item !== undefined);
+    if (entries.length === 0) return '{}';
+    const keys = entries.map(([key]) => formatKey(key));
+    const width = Math.max(...keys.map(key => key.length));
+    const body = entries.map(([, item], i) => `${pad}${keys[i].padEnd(width)} = ${renderValue(item, indent + 1)}`);
+    return `{\n${body.join('\n')}\n${closing}}`;
+  }
+  return String(value);
+}
+
+function formatKey(key: string): string {
+  return /^[A-Za-z_][A-Za-z0-9_-]*$/.test(key) ? key : quote(key);
+}
+
+function quote(value: string): string {
+  const escaped = value
+    .replace(/\\/g, '\\\\')
+    .replace(/"/g, '\\"')
+    .replace(/\n/g, '\\n')
+    .replace(/\$\{/g, '$${')
+    .replace(/%\{/g, '%%{');
+  return `"${escaped}"`;
+}
+
+// Names
+
+// Terraform identifiers start with a letter or underscore
+function identifier(value: string): string {
+  const name = snakeCase(value);
+  return /^[0-9]/.test(name) ? `r_${name}` : name;
+}
+
+// Storage account names are 3-24 lowercase letters and digits; six characters are left for the suffix
+function storageAccountName(label: string): string {
+  return (label.toLowerCase().replace(/[^a-z0-9]/g, '') || 'storage').slice(0, 18).padEnd(3, '0');
+}
+
+// FNV-1a hash of a shape id, four hex characters
+function shortHash(value: string): string {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193) >>> 0;
+  }
+  return hash.toString(16).padStart(8, '0').slice(0, 4);
+}
+
+function runtimeFamily(runtime: unknown): string {
+  const family = String(runtime || 'nodejs').replace(/[0-9.x]+$/, '').replace(/^node$/, 'nodejs');
+  return family.startsWith('python') ? 'python' : family.startsWith('java') ? 'java' : family;
+}
+
+function deriveSubnetCidr(networkCidr: string, index: number): string {
+  const [address, bits] = networkCidr.split('/');
+  const prefix = Number(bits) || 16;
+  const newPrefix = prefix < 24 ? 24 : Math.min(prefix + 2, 28);
+  const base = address.split('.').reduce((total, octet) => total * 256 + (Number(octet) || 0), 0);
+  const start = base + Math.max(index, 0) * 2 ** (32 - newPrefix);
+  const octets = [24, 16, 8, 0].map(shift => Math.floor(start / 2 ** shift) % 256);
+  return `${octets.join('.')}/${newPrefix}`;
+}
+
+function formatTimeSpan(seconds: number): string {
+  const pad = (n: number) => String(Math.floor(n)).padStart(2, '0');
+  return `${pad(seconds / 3600)}:${pad((seconds % 3600) / 60)}:${pad(seconds % 60)}`;
+}
+
+// Helper types
+type TerraformKind =
+  | 'network' | 'subnet' | 'zone' | 'vm' | 'database' | 'bucket' | 'function' | 'container' | 'webApp'
+  | 'cache' | 'table' | 'loadBalancer' | 'cdn' | 'apiGateway' | 'registry' | 'volume' | 'fileSystem'
+  | 'cosmos' | 'keyVault' | 'logs' | 'topic' | 'secret' | 'firestore' | 'spanner';
+
+type HclValue = string | number | boolean | null | undefined | Raw | Nested | Call | HclValue[] | { [key: string]: HclValue };
+
+type HclBody = Record<string, HclValue>;
+
+interface HclBlock {
+  kind: 'resource' | 'data';
+  type: string;
+  name: string;
+  body: HclBody;
+  comment?: string;
+}
+
+interface TerraformVariable {
+  type: string;
+  description: string;
+  default?: unknown;
+  sensitive?: boolean;
+  validation?: { condition: string; message: string };
+}
+
+interface TerraformOutput {
+  value: string;
+  description: string;
+  sensitive?: boolean;
+}
+
+interface TerraformScope {
+  name: string;
+  comment?: string;
+  blocks: HclBlock[];
+  variables: Map<string, TerraformVariable>;
+  outputs: Map<string, TerraformOutput>;
+  inputs: Map<string, string>;
+  addresses: Set<string>;
+}
+
+interface TerraformSymbol {
+  name: string;
+  type: string;
+  description: string;
+}
+
+interface TerraformEndpoint {
+  attribute: string;
+  env: string;
+  address?: string;
+}
+
+interface TerraformRef {
+  scope: string;
+  address: string;
+  name: string;
+  label: string;
+  kind: TerraformKind;
+  endpoint?: TerraformEndpoint;
+}
+
+interface TerraformTarget extends TerraformRef {
+  resource: ModelResource;
+}
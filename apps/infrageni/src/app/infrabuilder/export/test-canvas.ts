@@ -0,0 +1,23 @@
+import { CanvasItem, Connection } from '../types';
+import { ResourceModel, buildModelFromCanvas } from './resource-model';
+
+// Canvas fixtures for the exporter specs. Items are keyed like shapes of their component, and
+// networks are bounding boxes, as convertShapesToCanvasItems produces them from the editor.
+
+export function item(id: string, label: string, componentId: string, parentId?: string, properties: Record<string, unknown> = {}): CanvasItem {
+  return {
+    id,
+    label,
+    x: 0,
+    y: 0,
+    key: `${componentId}-shape:${id}`,
+    parentId,
+    isBoundingBox: /vpc|subnet|availability-zone/.test(componentId),
+    properties: { componentId, ...properties }
+  };
+}
+
+// The resource model the exporters receive for these items, for a diagram named Shop
+export function canvasModel(items: CanvasItem[], connections: Connection[] = []): ResourceModel {
+  return buildModelFromCanvas({ items, connections, metadata: { exportedAt: '', format: 'test', version: '1' } }, 'Shop');
+}
@@ -9,6 +9,7 @@ import { InfrastructurePattern } from '../patterns/core/pattern-types';
 import { workspaceIntegration, PatternDeploymentOptions, DeploymentResult } from '../patterns/integration/workspace-integration';
 import { createComponentShape } from '../shapes';
 import { ComponentRegistry } from '../components/core/component-registry';
+import { placeShapesIncrementally } from '../tools/layout/force-directed-layout';
 
 export interface PatternDeploymentHookOptions {
   onDeploymentSuccess?: (pattern: InfrastructurePattern, result: DeploymentResult) => void;
@@ -221,6 +222,20 @@ export const usePatternDeployment = (options: PatternDeploymentHookOptions = {})
         }
       }
 
+      // Make room for the pattern next to what is already on the canvas instead of
+      // dropping it on top; existing shapes only move as far as they have to
+      if (finalOptions.preserveExisting && workspaceState.components.length > 0 && deployedShapeIds.length > 0) {
+        setDeploymentStatus(prev => ({
+          ...prev,
+          progress: 90,
+          currentStep: 'Placing pattern...'
+        }));
+
+        placeShapesIncrementally(editor, editor.getCurrentPageShapes(), {
+          newShapeIds: deployedShapeIds
+        });
+      }
+
       setDeploymentStatus(prev => ({
         ...prev,
         progress: 100,
@@ -0,0 +1,79 @@
+import { ComponentRegistry } from '../components/core/component-registry';
+import { importCloudFormation } from './cloudformation-import';
+
+const template = `
+AWSTemplateFormatVersion: '2010-09-09'
+Description: Orders service
+Parameters:
+  InstanceType:
+    Type: String
+    Default: t3.small
+    AllowedValues: [t3.small, t3.large]
+Resources:
+  Vpc:
+    Type: AWS::EC2::VPC
+    Properties:
+      CidrBlock: 10.0.0.0/16
+      Tags:
+        - Key: Name
+          Value: Orders VPC
+  AppSubnet:
+    Type: AWS::EC2::Subnet
+    Properties:
+      VpcId: !Ref Vpc
+      CidrBlock: 10.0.1.0/24
+  Server:
+    Type: AWS::EC2::Instance
+    Properties:
+      InstanceType: !Ref InstanceType
+      SubnetId: !Ref AppSubnet
+  Database:
+    Type: AWS::RDS::DBInstance
+    DependsOn: Server
+    Properties:
+      Engine: postgres
+  Seed:
+    Type: Custom::DatabaseSeed
+    Properties:
+      ServiceToken: !GetAtt SeedFunction.Arn
+  SeedFunction:
+    Type: AWS::Lambda::Function
+    Properties:
+      Runtime: nodejs20.x
+`;
+
+describe('importCloudFormation', () => {
+  beforeAll(async () => {
+    await ComponentRegistry.getInstance().initialize();
+  });
+
+  it('nests resources by their references and keeps the template line they come from', () => {
+    const diagram = importCloudFormation(template, { file: 'orders.yaml' });
+    const byId = new Map(diagram.resources.map(resource => [resource.id, resource]));
+
+    expect(byId.get('Vpc')?.name).toBe('Orders VPC');
+    expect(byId.get('AppSubnet')?.parentId).toBe('Vpc');
+    expect(byId.get('Server')?.parentId).toBe('AppSubnet');
+    expect(byId.get('Server')?.source).toBe('orders.yaml:22');
+    expect(diagram.description).toBe('Orders service');
+  });
+
+  it('turns template parameters into pattern parameters of the resources that use them', () => {
+    const [parameter] = importCloudFormation(template).parameters;
+
+    expect(parameter).toMatchObject({ id: 'InstanceType', name: 'Instance Type', type: 'select', defaultValue: 't3.small', affects: ['Server'] });
+    expect(parameter.options?.map(option => option.value)).toEqual(['t3.small', 't3.large']);
+  });
+
+  it('warns about custom resources instead of dropping them silently', () => {
+    const diagram = importCloudFormation(template);
+
+    expect(diagram.resources.some(resource => resource.id === 'Seed')).toBe(false);
+    expect(diagram.warnings).toContain('Custom resources are not drawn: Seed (Custom::DatabaseSeed)');
+  });
+
+  it('reports YAML errors with their position and rejects files without Resources', () => {
+    expect(() => importCloudFormation('Resources: [', { file: 'bad.yaml' })).toThrow(/^bad\.yaml:1:/);
+    expect(() => importCloudFormation('Description: none')).toThrow(/expected a Resources section/);
+  });
+});
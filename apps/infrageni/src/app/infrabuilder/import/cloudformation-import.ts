@@ -0,0 +1,523 @@
+import { LineCounter, Pair, Scalar, ScalarTag, CollectionTag, YAMLMap, isMap, isScalar, parseDocument } from 'yaml';
+import { PatternParameter } from '../patterns/core/pattern-types';
+import { ImportedDiagram } from './import-model';
+import {
+  GraphEntity,
+  GraphRules,
+  NETWORK,
+  ResourceMapping,
+  SUBNET,
+  analyzeResources,
+  databaseEngine,
+  humanize,
+  optional
+} from './resource-graph';
+
+// Reverse-engineers a diagram from a CloudFormation template, YAML or JSON.
+// Short-form intrinsics (!Ref, !GetAtt, !Sub, ...) are read as their long form. Ref, GetAtt,
+// Sub and DependsOn between resources become containment or arrows, and template Parameters
+// become pattern parameters. Templates using the SAM transform get their Globals applied and
+// their implicit APIs and event sources drawn, the way SAM expands them on deploy.
+
+export interface CloudFormationImportOptions {
+  name?: string;
+  // File name used in error messages and resource sources
+  file?: string;
+}
+
+type Template = Record<string, unknown>;
+
+interface TemplateEntity extends GraphEntity {
+  properties: Record<string, unknown>;
+}
+
+const SAM_TRANSFORM = 'AWS::Serverless-2016-10-31';
+
+const INTRINSICS = [
+  'Base64', 'Cidr', 'FindInMap', 'GetAZs', 'ImportValue', 'Join', 'Select', 'Split', 'Sub', 'Transform',
+  'And', 'Equals', 'If', 'Not', 'Or', 'Length', 'ToJsonString'
+];
+
+// Short forms are one tag per node kind; each reads as the long form, e.g. !Ref X -> { Ref: X }
+const INTRINSIC_TAGS: (ScalarTag | CollectionTag)[] = [
+  ...[['Ref', 'Ref'], ['Condition', 'Condition'], ['GetAtt', 'Fn::GetAtt'], ...INTRINSICS.map(name => [name, `Fn::${name}`])].flatMap(
+    ([tag, key]) => [
+      {
+        tag: `!${tag}`,
+        resolve: (value: string) => ({ [key]: key === 'Fn::GetAtt' ? splitGetAtt(value) : value })
+      } as ScalarTag,
+      ...(['seq', 'map'] as const).map(collection => ({
+        tag: `!${tag}`,
+        collection,
+        resolve: (node: unknown) => wrap(key, node)
+      }) as CollectionTag)
+    ]
+  )
+];
+
+const PSEUDO_PARAMETERS = /^AWS::/;
+
+const RESOURCE_MAPPINGS: Record<string, ResourceMapping> = {
+  'AWS::EC2::VPC': { componentId: NETWORK, properties: { cidrBlock: 'CidrBlock', enableDnsHostnames: 'EnableDnsHostnames' } },
+  'AWS::EC2::Subnet': { componentId: SUBNET, properties: { cidrBlock: 'CidrBlock', isPublic: 'MapPublicIpOnLaunch' } },
+  'AWS::EC2::Instance': { componentId: 'generic-compute', properties: { instanceType: 'InstanceType' } },
+  'AWS::AutoScaling::AutoScalingGroup': { componentId: 'generic-compute' },
+  'AWS::RDS::DBInstance': {
+    componentId: 'generic-database',
+    properties: {
+      engine: read => databaseEngine(read('Engine')),
+      version: 'EngineVersion',
+      instanceClass: 'DBInstanceClass',
+      multiAz: 'MultiAZ'
+    }
+  },
+  'AWS::RDS::DBCluster': {
+    componentId: 'generic-database',
+    properties: { engine: read => databaseEngine(read('Engine')), version: 'EngineVersion' }
+  },
+  'AWS::S3::Bucket': { componentId: 'generic-storage', properties: { bucketName: 'BucketName' } },
+  'AWS::Lambda::Function': {
+    componentId: 'aws-lambda',
+    properties: { runtime: 'Runtime', memorySize: 'MemorySize', timeout: 'Timeout', environment: 'Environment.Variables' }
+  },
+  'AWS::Serverless::Function': {
+    componentId: 'aws-lambda',
+    properties: { runtime: 'Runtime', memorySize: 'MemorySize', timeout: 'Timeout', environment: 'Environment.Variables' }
+  },
+  'AWS::ECS::Service': { componentId: 'aws-ecs', properties: { launchType: 'LaunchType', desiredCount: 'DesiredCount' } },
+  'AWS::ECR::Repository': {
+    componentId: 'aws-ecr',
+    properties: { repositoryName: 'RepositoryName', imageTagMutability: 'ImageTagMutability', scanOnPush: 'ImageScanningConfiguration.ScanOnPush' }
+  },
+  'AWS::DynamoDB::Table': {
+    componentId: 'aws-dynamodb',
+    properties: {
+      tableName: 'TableName',
+      partitionKey: read => keyAttribute(read('KeySchema'), 'HASH'),
+      sortKey: read => keyAttribute(read('KeySchema'), 'RANGE'),
+      billingMode: 'BillingMode',
+      pointInTimeRecovery: 'PointInTimeRecoverySpecification.PointInTimeRecoveryEnabled'
+    }
+  },
+  'AWS::Serverless::SimpleTable': { componentId: 'aws-dynamodb', properties: { tableName: 'TableName', partitionKey: 'PrimaryKey.Name' } },
+  'AWS::ElastiCache::CacheCluster': {
+    componentId: 'aws-elasticache',
+    properties: { engine: 'Engine', nodeType: 'CacheNodeType', numCacheNodes: 'NumCacheNodes', port: 'Port' }
+  },
+  'AWS::ElastiCache::ReplicationGroup': {
+    componentId: 'aws-elasticache',
+    properties: { engine: 'Engine', nodeType: 'CacheNodeType', numCacheNodes: 'NumCacheClusters', port: 'Port' }
+  },
+  'AWS::ElasticLoadBalancingV2::LoadBalancer': {
+    componentId: 'aws-alb',
+    properties: { name: 'Name', scheme: 'Scheme', ipAddressType: 'IpAddressType' }
+  },
+  'AWS::CloudFront::Distribution': {
+    componentId: 'aws-cloudfront',
+    properties: { origin: 'DistributionConfig.Origins.DomainName', priceClass: 'DistributionConfig.PriceClass', enabled: 'DistributionConfig.Enabled' }
+  },
+  'AWS::ApiGateway::RestApi': { componentId: 'aws-api-gateway', properties: { name: 'Name', apiType: () => 'REST' } },
+  'AWS::ApiGatewayV2::Api': { componentId: 'aws-api-gateway', properties: { name: 'Name', apiType: 'ProtocolType' } },
+  'AWS::Serverless::Api': { componentId: 'aws-api-gateway', properties: { name: 'Name', apiType: () => 'REST', stage: 'StageName' } },
+  'AWS::Serverless::HttpApi': { componentId: 'aws-api-gateway', properties: { apiType: () => 'HTTP', stage: 'StageName' } },
+  'AWS::EC2::Volume': { componentId: 'aws-ebs', properties: { size: 'Size', volumeType: 'VolumeType', encrypted: 'Encrypted', iops: 'Iops' } },
+  'AWS::EFS::FileSystem': {
+    componentId: 'aws-efs',
+    properties: { performanceMode: 'PerformanceMode', throughputMode: 'ThroughputMode', encrypted: 'Encrypted' }
+  },
+  'AWS::ElasticBeanstalk::Environment': { componentId: 'aws-elastic-beanstalk' }
+};
+
+// Services whose resources only configure or secure the mapped ones
+const SUPPORTING_SERVICES = new Set(['IAM', 'Logs', 'KMS', 'SSM', 'CloudWatch', 'SecretsManager', 'CertificateManager', 'Route53']);
+
+// Associations, attachments, routing and deployment plumbing glue other resources together
+const SUPPORTING_SUFFIX = /(Association|Attachment|Gateway|EIP|Route|RouteTable|SecurityGroup|SecurityGroupIngress|SecurityGroupEgress|SubnetGroup|ParameterGroup|TargetGroup|Listener|ListenerRule|Cluster|TaskDefinition|LaunchTemplate|LaunchConfiguration|InstanceProfile|Permission|EventSourceMapping|Integration|Deployment|Stage|Method|Resource|Authorizer|Model|Account|Policy|Version|LayerVersion|MountTarget|OriginAccessControl|CloudFrontOriginAccessIdentity|BucketPolicy|WaitCondition|WaitConditionHandle|CustomResource)$/;
+
+// Supporting resources that stand for an arrow between two components: [from property, to property]
+const EDGE_RULES: Record<string, [string, string]> = {
+  'AWS::EC2::VolumeAttachment': ['InstanceId', 'VolumeId'],
+  'AWS::Lambda::Permission': ['SourceArn', 'FunctionName'],
+  'AWS::Lambda::EventSourceMapping': ['EventSourceArn', 'FunctionName'],
+  'AWS::ApiGatewayV2::Integration': ['ApiId', 'IntegrationUri'],
+  'AWS::ApiGateway::Method': ['RestApiId', 'Uri'],
+  'AWS::EC2::SecurityGroupIngress': ['SourceSecurityGroupId', 'GroupId']
+};
+
+const CLOUDFORMATION_RULES: GraphRules = {
+  mappings: RESOURCE_MAPPINGS,
+  isSupporting: type =>
+    isCustomResource(type) || SUPPORTING_SERVICES.has(type.split('::')[1]) || SUPPORTING_SUFFIX.test(type.split('::')[2] || ''),
+  edges: EDGE_RULES,
+  provider: type => (type.startsWith('AWS::') ? 'aws' : undefined),
+  label: read => nameTag(read('Tags'))
+};
+
+// Import a CloudFormation or SAM template
+export function importCloudFormation(source: string, options: CloudFormationImportOptions = {}): ImportedDiagram {
+  return new CloudFormationImporter(source, options).run();
+}
+
+class CloudFormationImporter {
+  private file: string;
+  private template: Template = {};
+  private lines = new Map<string, number>();
+  private entities = new Map<string, TemplateEntity>();
+  private parameters: Record<string, Record<string, unknown>> = {};
+  private warnings: string[] = [];
+
+  constructor(private source: string, private options: CloudFormationImportOptions) {
+    this.file = options.file || 'template.yaml';
+  }
+
+  run(): ImportedDiagram {
+    this.parse();
+
+    const resources = this.template.Resources;
+    if (!isObject(resources) || Object.keys(resources).length === 0) {
+      throw new Error(`${this.file}: Not a CloudFormation template: expected a Resources section`);
+    }
+    this.parameters = isObject(this.template.Parameters) ? (this.template.Parameters as Record<string, Record<string, unknown>>) : {};
+
+    const isSam = ([] as unknown[]).concat(this.template.Transform ?? []).includes(SAM_TRANSFORM);
+    for (const [logicalId, definition] of Object.entries(resources)) {
+      if (!isObject(definition) || typeof definition.Type !== 'string') {
+        this.warnings.push(`Resource ${logicalId} has no Type and was skipped`);
+        continue;
+      }
+      const properties = isObject(definition.Properties) ? definition.Properties : {};
+      this.addEntity(logicalId, definition.Type, isSam ? this.applyGlobals(definition.Type, properties) : properties, definition.DependsOn);
+    }
+
+    for (const entity of this.entities.values()) {
+      this.collectReferences(entity, entity.type === 'AWS::Serverless::Function' ? omit(entity.properties, 'Events') : entity.properties);
+    }
+    if (isSam) this.expandEvents();
+
+    // Custom resources are backed by a function whose effect the template does not describe
+    const custom = Array.from(this.entities.values()).filter(entity => isCustomResource(entity.type));
+    if (custom.length > 0) {
+      this.warnings.push(`Custom resources are not drawn: ${custom.map(entity => `${entity.address} (${entity.type})`).join(', ')}`);
+    }
+
+    const graph = analyzeResources(Array.from(this.entities.values()), CLOUDFORMATION_RULES);
+    const description = typeof this.template.Description === 'string' ? this.template.Description.trim() : '';
+
+    // SAM projects keep template.yaml at their root, so the folder names the stack better
+    const [base, folder] = this.file.replace(/\.(ya?ml|json|template)$/i, '').split('/').reverse();
+    return {
+      name: this.options.name || humanize(base === 'template' && folder ? folder : base) || 'Imported CloudFormation',
+      description: description || `Imported from ${isSam ? 'SAM' : 'CloudFormation'} template ${this.file}`,
+      resources: graph.resources,
+      links: graph.links,
+      parameters: this.buildParameters(graph.resources.map(resource => resource.id)),
+      warnings: [...this.warnings, ...graph.warnings]
+    };
+  }
+
+  private parse(): void {
+    const lineCounter = new LineCounter();
+    const document = parseDocument(this.source, { customTags: INTRINSIC_TAGS, lineCounter, uniqueKeys: false });
+
+    const [error] = document.errors;
+    if (error) {
+      const position = error.linePos?.[0];
+      const message = error.message.split('\n')[0].replace(/ at line \d+, column \d+:?$/, '');
+      throw new Error(`${this.file}${position ? `:${position.line}:${position.col}` : ''}: ${message}`);
+    }
+
+    const template = document.toJS({ maxAliasCount: -1 });
+    if (!isObject(template)) {
+      throw new Error(`${this.file}: Not a CloudFormation template: expected a mapping at the top level`);
+    }
+    this.template = template;
+
+    // Remember where each resource is declared so imported components can point back at it
+    const resources = document.get('Resources', true);
+    if (isMap(resources)) {
+      for (const pair of resources.items) {
+        if (isScalar(pair.key) && pair.key.range) {
+          this.lines.set(String(pair.key.value), lineCounter.linePos(pair.key.range[0]).line);
+        }
+      }
+    }
+  }
+
+  private addEntity(logicalId: string, type: string, properties: Record<string, unknown>, dependsOn?: unknown, source?: string): TemplateEntity {
+    const entity: TemplateEntity = {
+      address: logicalId,
+      mode: 'resource',
+      type,
+      name: logicalId,
+      source: source || `${this.file}:${this.lines.get(logicalId) ?? 1}`,
+      read: path => this.read(entity, path),
+      references: new Map(),
+      all: new Set(),
+      properties
+    };
+
+    for (const target of ([] as unknown[]).concat(dependsOn ?? [])) {
+      if (typeof target === 'string') this.addReference(entity, 'DependsOn', target);
+    }
+    this.entities.set(logicalId, entity);
+    return entity;
+  }
+
+  private addReference(entity: TemplateEntity, key: string, target: string): void {
+    if (target === entity.address || !this.isResource(target)) return;
+    const set = entity.references.get(key) || new Set<string>();
+    set.add(target);
+    entity.references.set(key, set);
+    entity.all.add(target);
+  }
+
+  // Resource ids are not all known while entities are created, so check the template itself
+  private isResource(logicalId: string): boolean {
+    return this.entities.has(logicalId) || (isObject(this.template.Resources) && logicalId in this.template.Resources);
+  }
+
+  // Every Ref, GetAtt and Sub reference under a value, keyed by the property that holds it
+  private collectReferences(entity: TemplateEntity, value: unknown, key = ''): void {
+    if (Array.isArray(value)) {
+      value.forEach(item => this.collectReferences(entity, item, key));
+      return;
+    }
+    if (!isObject(value)) return;
+
+    for (const target of directReferences(value)) this.addReference(entity, key, target);
+    for (const [name, child] of Object.entries(value)) {
+      this.collectReferences(entity, child, name === 'Ref' || name.startsWith('Fn::') ? key : name);
+    }
+  }
+
+  // SAM Globals fill in properties a function, API or table leaves out
+  private applyGlobals(type: string, properties: Record<string, unknown>): Record<string, unknown> {
+    const section = type.startsWith('AWS::Serverless::') ? type.slice('AWS::Serverless::'.length) : undefined;
+    const globals = isObject(this.template.Globals) && section ? this.template.Globals[section] : undefined;
+    return isObject(globals) ? (mergeGlobals(globals, properties) as Record<string, unknown>) : properties;
+  }
+
+  // Function events are drawn from their source to the function; Api events without an explicit
+  // API end up on the implicit one SAM creates
+  private expandEvents(): void {
+    const functions = Array.from(this.entities.values()).filter(entity => entity.type === 'AWS::Serverless::Function');
+
+    for (const fn of functions) {
+      const events = fn.properties.Events;
+      if (!isObject(events)) continue;
+
+      for (const event of Object.values(events)) {
+        if (!isObject(event)) continue;
+        const properties = isObject(event.Properties) ? event.Properties : {};
+        const sources = new Set<string>();
+        this.collectTargets(properties, sources);
+
+        if ((event.Type === 'Api' && !properties.RestApiId) || (event.Type === 'HttpApi' && !properties.ApiId)) {
+          sources.add(this.implicitApi(event.Type, fn));
+        }
+        for (const source of sources) {
+          const entity = this.entities.get(source);
+          if (entity) this.addReference(entity, 'Events', fn.address);
+        }
+      }
+    }
+  }
+
+  private collectTargets(value: unknown, targets: Set<string>): void {
+    if (Array.isArray(value)) {
+      value.forEach(item => this.collectTargets(item, targets));
+    } else if (isObject(value)) {
+      directReferences(value).filter(target => this.isResource(target)).forEach(target => targets.add(target));
+      Object.values(value).forEach(child => this.collectTargets(child, targets));
+    }
+  }
+
+  private implicitApi(type: 'Api' | 'HttpApi', fn: TemplateEntity): string {
+    const logicalId = type === 'Api' ? 'ServerlessRestApi' : 'ServerlessHttpApi';
+    if (!this.entities.has(logicalId)) {
+      const properties = this.applyGlobals(`AWS::Serverless::${type}`, { StageName: type === 'Api' ? 'Prod' : '$default' });
+      this.addEntity(logicalId, `AWS::Serverless::${type}`, properties, undefined, `${fn.source} (implicit API)`);
+    }
+    return logicalId;
+  }
+
+  // Value at a dotted path through properties, lists and objects
+  private read(entity: TemplateEntity, path: string): unknown {
+    let value: unknown = entity.properties;
+    for (const step of path.split('.')) {
+      value = this.evaluate(value);
+      if (Array.isArray(value)) value = /^\d+$/.test(step) ? value[Number(step)] : value[0];
+      if (Array.isArray(value)) value = value[0];
+      if (!isObject(value)) return undefined;
+      value = value[step];
+    }
+    return this.evaluate(value, true);
+  }
+
+  // Literal values, with parameters kept as ${name} placeholders for pattern parameters.
+  // Anything only known once deployed (resource attributes, pseudo parameters) is undefined.
+  private evaluate(value: unknown, deep = false, level = 0): unknown {
+    if (level > 20) return undefined;
+    if (Array.isArray(value)) return deep ? value.map(item => this.evaluate(item, true, level + 1)) : value;
+    if (!isObject(value)) return value;
+
+    if (isIntrinsic(value)) {
+      const [name] = Object.keys(value);
+      return this.intrinsic(name, value[name], level);
+    }
+    if (!deep) return value;
+
+    const result: Record<string, unknown> = {};
+    for (const [key, child] of Object.entries(value)) {
+      const evaluated = this.evaluate(child, true, level + 1);
+      if (evaluated !== undefined) result[key] = evaluated;
+    }
+    // An object made only of deploy-time values is not known either
+    return Object.keys(result).length > 0 || Object.keys(value).length === 0 ? result : undefined;
+  }
+
+  private intrinsic(name: string, args: unknown, level: number): unknown {
+    const evaluate = (value: unknown) => this.evaluate(value, true, level + 1);
+
+    switch (name) {
+      case 'Ref':
+        return typeof args === 'string' && args in this.parameters && !PSEUDO_PARAMETERS.test(args) ? `\${${args}}` : undefined;
+      case 'Fn::Sub': {
+        const [text, variables] = Array.isArray(args) ? args : [args, {}];
+        if (typeof text !== 'string') return undefined;
+        const names = Array.from(text.matchAll(/\$\{([^!}][^}]*)\}/g), match => match[1]);
+        // Only strings built from parameters survive; ${Param} is already the placeholder syntax
+        return names.every(variable => variable in this.parameters && !(isObject(variables) && variable in variables)) ? text : undefined;
+      }
+      case 'Fn::Join': {
+        const [separator, parts] = Array.isArray(args) ? args : [];
+        const values = evaluate(parts);
+        return typeof separator === 'string' && Array.isArray(values) && values.every(isLiteral) ? values.join(separator) : undefined;
+      }
+      case 'Fn::Select': {
+        const [index, list] = Array.isArray(args) ? args : [];
+        const values = evaluate(list);
+        return Array.isArray(values) ? values[Number(evaluate(index))] : undefined;
+      }
+      case 'Fn::FindInMap': {
+        const [map, first, second] = (Array.isArray(args) ? args : []).map(evaluate);
+        const mappings = this.template.Mappings;
+        const table = isObject(mappings) && typeof map === 'string' ? mappings[map] : undefined;
+        const row = isObject(table) && typeof first === 'string' ? table[first] : undefined;
+        return isObject(row) && typeof second === 'string' ? evaluate(row[second]) : undefined;
+      }
+      case 'Fn::Base64':
+        return evaluate(args);
+      default:
+        return undefined;
+    }
+  }
+
+  private buildParameters(resourceIds: string[]): PatternParameter[] {
+    return Object.entries(this.parameters).map(([name, definition]) => {
+      const placeholder = `\${${name}}`;
+      const allowed = Array.isArray(definition.AllowedValues) ? definition.AllowedValues : undefined;
+      const isNumber = definition.Type === 'Number';
+      const isBoolean = !!allowed && allowed.length === 2 && allowed.every(value => value === 'true' || value === 'false');
+      const convert = (value: unknown) => (isNumber && value !== '' && !isNaN(Number(value)) ? Number(value) : value);
+      const validation = {
+        min: optional(definition.MinValue ?? definition.MinLength, Number),
+        max: optional(definition.MaxValue ?? definition.MaxLength, Number),
+        pattern: optional(definition.AllowedPattern, String)
+      };
+
+      return {
+        id: name,
+        name: humanize(name.replace(/([a-z0-9])([A-Z])/g, '$1 $2')),
+        description: typeof definition.Description === 'string' ? definition.Description : '',
+        type: isBoolean ? 'boolean' : allowed ? 'select' : isNumber ? 'number' : 'string',
+        required: definition.Default === undefined,
+        defaultValue: definition.Default === undefined ? undefined : isBoolean ? definition.Default === 'true' : convert(definition.Default),
+        validation: Object.values(validation).some(value => value !== undefined) ? validation : undefined,
+        options: allowed && !isBoolean ? allowed.map(value => ({ value: convert(value), label: String(value) })) : undefined,
+        affects: resourceIds.filter(id => JSON.stringify(this.entities.get(id)?.properties ?? {}).includes(placeholder) || this.refersTo(id, name))
+      };
+    });
+  }
+
+  private refersTo(resourceId: string, parameter: string): boolean {
+    const search = (value: unknown): boolean =>
+      Array.isArray(value) ? value.some(search)
+        : isObject(value) ? value.Ref === parameter || Object.values(value).some(search)
+          : false;
+    return search(this.entities.get(resourceId)?.properties);
+  }
+}
+
+// Logical ids a single intrinsic refers to directly (not those nested inside it)
+function directReferences(value: Record<string, unknown>): string[] {
+  if (typeof value.Ref === 'string') return [value.Ref];
+
+  const getAtt = value['Fn::GetAtt'];
+  if (Array.isArray(getAtt) && typeof getAtt[0] === 'string') return [getAtt[0]];
+  if (typeof getAtt === 'string') return [getAtt.split('.')[0]];
+
+  const sub = value['Fn::Sub'];
+  const text = Array.isArray(sub) ? sub[0] : sub;
+  if (typeof text === 'string') {
+    const variables = Array.isArray(sub) && isObject(sub[1]) ? sub[1] : {};
+    return Array.from(text.matchAll(/\$\{([^!}][^}]*)\}/g), match => match[1].split('.')[0]).filter(name => !(name in variables));
+  }
+  return [];
+}
+
+// SAM merges maps key by key, appends lists and lets the resource win for plain values
+function mergeGlobals(globals: unknown, local: unknown): unknown {
+  if (local === undefined) return globals;
+  if (Array.isArray(globals) && Array.isArray(local)) return [...globals, ...local];
+  if (isObject(globals) && isObject(local) && !isIntrinsic(local)) {
+    const merged: Record<string, unknown> = { ...globals };
+    for (const [key, value] of Object.entries(local)) merged[key] = mergeGlobals(globals[key], value);
+    return merged;
+  }
+  return local;
+}
+
+function wrap(key: string, node: unknown): YAMLMap<Scalar, unknown> {
+  const map = new YAMLMap<Scalar, unknown>();
+  map.items.push(new Pair(new Scalar(key), node));
+  return map;
+}
+
+function splitGetAtt(value: string): string[] {
+  const dot = value.indexOf('.');
+  return dot < 0 ? [value] : [value.slice(0, dot), value.slice(dot + 1)];
+}
+
+function keyAttribute(schema: unknown, keyType: string): unknown {
+  return Array.isArray(schema) ? schema.find(key => isObject(key) && key.KeyType === keyType)?.AttributeName : undefined;
+}
+
+// Tags are a list of Key/Value pairs in CloudFormation and a plain map in SAM
+function nameTag(tags: unknown): unknown {
+  if (Array.isArray(tags)) return tags.find(tag => isObject(tag) && tag.Key === 'Name')?.Value;
+  return isObject(tags) ? tags.Name : undefined;
+}
+
+function omit(value: Record<string, unknown>, key: string): Record<string, unknown> {
+  const rest = { ...value };
+  delete rest[key];
+  return rest;
+}
+
+function isCustomResource(type: string): boolean {
+  return type.startsWith('Custom::') || type === 'AWS::CloudFormation::CustomResource';
+}
+
+function isIntrinsic(value: Record<string, unknown>): boolean {
+  const keys = Object.keys(value);
+  return keys.length === 1 && (keys[0] === 'Ref' || keys[0].startsWith('Fn::'));
+}
+
+function isLiteral(value: unknown): boolean {
+  return typeof value === 'string' || typeof value === 'number' || typeof value === 'boolean';
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
@@ -0,0 +1,104 @@
+import { ComponentRegistry } from '../components/core/component-registry';
+import { importCompose } from './compose-import';
+
+const compose = `x-env: &env
+  LOG_LEVEL: info
+
+services:
+  web:
+    build: ./web
+    ports:
+      - "8080:3000"
+    environment:
+      <<: *env
+      API_URL: http://api:8080
+    depends_on: [api]
+    networks: [front]
+  api:
+    image: shop/api:2
+    ports:
+      - target: 8080
+        published: 9090
+    environment:
+      - DB_HOST=db
+    deploy:
+      replicas: 2
+      resources:
+        limits:
+          cpus: 0.5
+    depends_on:
+      db:
+        condition: service_healthy
+      cache:
+        condition: service_started
+    links: ["db:database"]
+    networks: [front, back]
+  db:
+    image: postgres:16
+    volumes:
+      - pgdata:/var/lib/postgresql/data
+      - ./init.sql:/docker-entrypoint-initdb.d/init.sql
+    networks: [back]
+
+networks:
+  front: {}
+  back:
+    driver: bridge
+
+volumes:
+  pgdata: {}
+`;
+
+describe('importCompose', () => {
+  beforeAll(async () => {
+    await ComponentRegistry.getInstance().initialize();
+  });
+
+  it('draws services in their first network and named volumes as storage', () => {
+    const diagram = importCompose(compose, { file: 'shop/docker-compose.yml' });
+    const components = Object.fromEntries(diagram.resources.map(resource => [resource.id, [resource.componentId, resource.parentId]]));
+
+    expect(diagram.name).toBe('Shop');
+    expect(diagram.description).toBe('Imported from a docker-compose file with 3 services');
+    expect(components).toEqual({
+      'network/front': ['generic-vpc', undefined],
+      'service/web': ['generic-compute', 'network/front'],
+      'service/api': ['generic-compute', 'network/front'],
+      'network/back': ['generic-vpc', undefined],
+      'service/db': ['generic-compute', 'network/back'],
+      'volume/pgdata': ['generic-storage', undefined]
+    });
+  });
+
+  it('keeps image, ports, environment and limits as properties', () => {
+    const byId = new Map(importCompose(compose).resources.map(resource => [resource.id, resource]));
+
+    expect(byId.get('service/web')).toMatchObject({
+      properties: { build: './web', containerPort: 3000, ports: ['8080:3000'], environment: { LOG_LEVEL: 'info', API_URL: 'http://api:8080' } },
+      source: 'docker-compose.yml:6'
+    });
+    expect(byId.get('service/api')?.properties).toMatchObject({
+      image: 'shop/api:2', containerPort: 8080, ports: ['9090:8080'], environment: { DB_HOST: 'db' }, replicas: 2, cpu: '0.5'
+    });
+    expect(byId.get('network/back')?.properties).toEqual({ driver: 'bridge' });
+  });
+
+  it('links depends_on, links and volume mounts, and warns about what it cannot draw', () => {
+    const diagram = importCompose(compose);
+
+    expect(diagram.links.map(link => [link.from, link.to, link.label])).toEqual([
+      ['service/web', 'service/api', undefined],
+      ['service/api', 'service/db', 'database'],
+      ['service/db', 'volume/pgdata', '/var/lib/postgresql/data']
+    ]);
+    expect(diagram.warnings).toEqual([
+      'Service api is attached to networks front, back; it is drawn in front',
+      'Service api depends on cache, which is not in the file'
+    ]);
+  });
+
+  it('rejects files without services', () => {
+    expect(() => importCompose('version: "3"\n', { file: 'compose.yaml' })).toThrow('compose.yaml: No services found; is this a docker-compose file?');
+    expect(() => importCompose('services: [', { file: 'compose.yaml' })).toThrow(/^compose\.yaml:1:\d+: /);
+  });
+});
@@ -0,0 +1,253 @@
+import { LineCounter, isNode, parseDocument } from 'yaml';
+import { RelationshipType } from '../patterns/core/pattern-types';
+import { ImportedDiagram, ImportedLink, ImportedResource } from './import-model';
+import { humanize } from './resource-graph';
+
+// Reverse-engineers a diagram from a docker-compose file. Services become containerized
+// compute keeping their image, ports and environment, networks become containers around the
+// services attached to them and named volumes become storage. Arrows come from depends_on,
+// links and the named volumes each service mounts (labelled with the mount path).
+
+export interface ComposeImportOptions {
+  name?: string;
+  // File name used in error messages and resource sources
+  file?: string;
+}
+
+// Compose file names that say nothing about the application
+const GENERIC_FILE_NAMES = ['docker-compose', 'compose', 'docker-compose.override', 'compose.override'];
+
+// Import one compose file
+export function importCompose(source: string, options: ComposeImportOptions = {}): ImportedDiagram {
+  return new ComposeImporter(source, options).run();
+}
+
+class ComposeImporter {
+  private file: string;
+  private lines = new LineCounter();
+  private resources = new Map<string, ImportedResource>();
+  private links: ImportedLink[] = [];
+  private warnings: string[] = [];
+
+  constructor(private source: string, private options: ComposeImportOptions) {
+    this.file = options.file || 'docker-compose.yml';
+  }
+
+  run(): ImportedDiagram {
+    const document = parseDocument(this.source, { lineCounter: this.lines, merge: true });
+    const [error] = document.errors;
+    if (error) {
+      const position = error.linePos?.[0];
+      const message = error.message.split('\n')[0].replace(/ at line \d+, column \d+:?$/, '');
+      throw new Error(`${this.file}${position ? `:${position.line}:${position.col}` : ''}: ${message}`);
+    }
+
+    const compose = document.toJS({ maxAliasCount: -1 });
+    if (!isObject(compose) || !isObject(compose.services) || Object.keys(compose.services).length === 0) {
+      throw new Error(`${this.file}: No services found; is this a docker-compose file?`);
+    }
+
+    const services = Object.entries(compose.services).filter((entry): entry is [string, Record<string, unknown>] => isObject(entry[1]));
+    const networks = isObject(compose.networks) ? compose.networks : {};
+    const volumes = isObject(compose.volumes) ? compose.volumes : {};
+
+    // Services without networks join the project's default network; only draw it next to others
+    const usesNetworks = services.some(([, service]) => serviceNetworks(service).length > 0);
+
+    for (const [name, service] of services) {
+      const attached = serviceNetworks(service);
+      const network = attached[0] ?? (usesNetworks && !service.network_mode ? 'default' : undefined);
+      if (network) this.addNetwork(network, networks[network], document.getIn(['networks', network], true));
+      if (attached.length > 1) {
+        this.warnings.push(`Service ${name} is attached to networks ${attached.join(', ')}; it is drawn in ${network}`);
+      }
+      this.addService(name, service, network, document.getIn(['services', name], true));
+    }
+
+    for (const [name, service] of services) {
+      for (const dependency of dependsOn(service.depends_on)) {
+        if (!this.addLink(serviceId(name), serviceId(dependency))) {
+          this.warnings.push(`Service ${name} depends on ${dependency}, which is not in the file`);
+        }
+      }
+
+      // links: [db, "cache:redis"] name the service and the alias it is reached by
+      for (const link of Array.isArray(service.links) ? service.links.map(String) : []) {
+        const [target, alias] = link.split(':');
+        this.addLink(serviceId(name), serviceId(target), alias && alias !== target ? alias : undefined);
+      }
+
+      for (const mount of Array.isArray(service.volumes) ? service.volumes : []) {
+        const { volume, target } = namedVolume(mount);
+        if (!volume) continue;
+        if (!(volume in volumes)) {
+          this.warnings.push(`Service ${name} mounts volume ${volume}, which is not declared under volumes`);
+        }
+        this.addVolume(volume, volumes[volume], document.getIn(['volumes', volume], true));
+        this.addLink(serviceId(name), volumeId(volume), target);
+      }
+
+      if (isObject(service.extends) && service.extends.file) {
+        this.warnings.push(`Service ${name} extends ${service.extends.file}; only the keys in this file were read`);
+      }
+    }
+
+    const [base, folder] = this.file.replace(/\.ya?ml$/i, '').split('/').reverse();
+    return {
+      name: this.options.name || (typeof compose.name === 'string' ? humanize(compose.name) : '') ||
+        humanize(GENERIC_FILE_NAMES.includes(base) ? folder ?? '' : base) || 'Imported Compose Project',
+      description: `Imported from a docker-compose file with ${services.length} service${services.length === 1 ? '' : 's'}`,
+      resources: Array.from(this.resources.values()),
+      links: this.links,
+      parameters: [],
+      warnings: this.warnings
+    };
+  }
+
+  private addService(name: string, service: Record<string, unknown>, network: string | undefined, node: unknown): void {
+    const ports = Array.isArray(service.ports) ? service.ports.map(portMapping).filter((port): port is PortMapping => !!port) : [];
+    const deploy = isObject(service.deploy) ? service.deploy : {};
+    const limits = isObject(deploy.resources) && isObject(deploy.resources.limits) ? deploy.resources.limits : {};
+    const build = isObject(service.build) ? service.build.context : service.build;
+
+    this.addResource(serviceId(name), name, 'generic-compute', {
+      containerized: true,
+      kind: 'Service',
+      image: service.image,
+      build,
+      command: Array.isArray(service.command) ? service.command.join(' ') : service.command,
+      containerPort: ports[0]?.target,
+      ports: ports.map(port => port.mapping),
+      environment: environment(service.environment),
+      replicas: deploy.replicas ?? service.scale,
+      cpu: limits.cpus === undefined ? undefined : String(limits.cpus),
+      memory: limits.memory,
+      restart: service.restart,
+      networkMode: service.network_mode
+    }, node, network ? networkId(network) : undefined);
+  }
+
+  private addNetwork(name: string, definition: unknown, node: unknown): void {
+    if (this.resources.has(networkId(name))) return;
+    const network = isObject(definition) ? definition : {};
+    this.addResource(networkId(name), name, 'generic-vpc', {
+      driver: network.driver,
+      external: network.external ? true : undefined
+    }, node);
+  }
+
+  private addVolume(name: string, definition: unknown, node: unknown): void {
+    if (this.resources.has(volumeId(name))) return;
+    const volume = isObject(definition) ? definition : {};
+    this.addResource(volumeId(name), name, 'generic-storage', {
+      driver: volume.driver,
+      external: volume.external ? true : undefined
+    }, node);
+  }
+
+  private addResource(
+    id: string,
+    name: string,
+    componentId: string,
+    properties: Record<string, unknown>,
+    node: unknown,
+    parentId?: string
+  ): void {
+    const offset = isNode(node) ? node.range?.[0] : undefined;
+    this.resources.set(id, {
+      id,
+      name,
+      componentId,
+      properties: Object.fromEntries(Object.entries(properties).filter(([, value]) => value !== undefined)),
+      parentId,
+      source: offset === undefined ? this.file : `${this.file}:${this.lines.linePos(offset).line}`
+    });
+  }
+
+  private addLink(from: string, to: string, label?: string): boolean {
+    if (!this.resources.has(from) || !this.resources.has(to)) return false;
+    // depends_on and links often name the same service; keep the link alias as the label
+    const existing = this.links.find(link => link.from === from && link.to === to);
+    if (existing) {
+      existing.label ??= label;
+    } else {
+      this.links.push({ from, to, label, type: RelationshipType.DEPENDENCY });
+    }
+    return true;
+  }
+}
+
+interface PortMapping {
+  target: number;
+  mapping: string;
+}
+
+// Short ("8080:80", "127.0.0.1:8080:80/udp", 3000) and long ({ target, published }) port syntax
+function portMapping(port: unknown): PortMapping | undefined {
+  if (isObject(port)) {
+    const target = Number(port.target);
+    if (!target) return undefined;
+    const protocol = port.protocol && port.protocol !== 'tcp' ? `/${port.protocol}` : '';
+    const published = [port.host_ip, port.published].filter(part => part !== undefined && part !== '').join(':');
+    return { target, mapping: `${published ? `${published}:` : ''}${target}${protocol}` };
+  }
+  if (typeof port !== 'string' && typeof port !== 'number') return undefined;
+
+  const mapping = String(port);
+  const target = Number(mapping.replace(/\/\w+$/, '').split(':').pop()?.split('-')[0]);
+  return target ? { target, mapping } : undefined;
+}
+
+// List ("KEY=value", "KEY") and mapping syntax, as a mapping of strings
+function environment(value: unknown): Record<string, string> | undefined {
+  const entries: [string, string][] = Array.isArray(value)
+    ? value.map(String).map(entry => {
+      const separator = entry.indexOf('=');
+      return separator < 0 ? [entry, ''] : [entry.slice(0, separator), entry.slice(separator + 1)];
+    })
+    : isObject(value)
+      ? Object.entries(value).map(([key, entry]) => [key, entry === null || entry === undefined ? '' : String(entry)])
+      : [];
+  return entries.length > 0 ? Object.fromEntries(entries) : undefined;
+}
+
+// depends_on is a list of services or a mapping of services to conditions
+function dependsOn(value: unknown): string[] {
+  if (Array.isArray(value)) return value.map(String);
+  return isObject(value) ? Object.keys(value) : [];
+}
+
+function serviceNetworks(service: Record<string, unknown>): string[] {
+  if (Array.isArray(service.networks)) return service.networks.map(String);
+  return isObject(service.networks) ? Object.keys(service.networks) : [];
+}
+
+// "data:/var/lib/postgresql/data:ro" or { type: volume, source, target }; bind mounts have no volume
+function namedVolume(mount: unknown): { volume?: string; target?: string } {
+  if (isObject(mount)) {
+    return mount.type === 'volume' && typeof mount.source === 'string'
+      ? { volume: mount.source, target: typeof mount.target === 'string' ? mount.target : undefined }
+      : {};
+  }
+  if (typeof mount !== 'string') return {};
+
+  const [source, target] = mount.split(':');
+  if (target === undefined || /^[./~$]/.test(source) || /^[A-Za-z]:[\\/]/.test(mount)) return {};
+  return { volume: source, target };
+}
+
+function serviceId(name: string): string {
+  return `service/${name}`;
+}
+
+function networkId(name: string): string {
+  return `network/${name}`;
+}
+
+function volumeId(name: string): string {
+  return `volume/${name}`;
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
@@ -0,0 +1,67 @@
+import { ComponentRegistry } from '../components/core/component-registry';
+import { importDot } from './dot-import';
+
+const graph = `digraph shop {
+  compound=true;
+  node [shape=box];
+
+  subgraph cluster_vpc {
+    label="Shop VPC";
+    subgraph cluster_public {
+      label="Public Subnet";
+      style=filled; fillcolor=lightgreen;
+      lb [label="Load Balancer", shape=diamond];
+      web [label="Web", instanceType="t3.small"];
+    }
+  }
+
+  users [label="Users", shape=ellipse];
+  db [label="Orders", shape=cylinder];
+  hidden [style=invis];
+
+  users -> lb [label="HTTPS"];
+  lb -> web;
+  web -> db [label=<<b>reads</b>>];
+  users -> web [lhead=cluster_public];
+  web -> hidden;
+}
+`;
+
+describe('importDot', () => {
+  beforeAll(async () => {
+    await ComponentRegistry.getInstance().initialize();
+  });
+
+  it('turns clusters into nested containers and node shapes into components', () => {
+    const diagram = importDot(graph, { file: 'shop.dot' });
+    const components = Object.fromEntries(diagram.resources.map(resource => [resource.id, [resource.componentId, resource.parentId]]));
+
+    expect(components).toEqual({
+      cluster_vpc: ['generic-vpc', undefined],
+      cluster_public: ['generic-subnet', 'cluster_vpc'],
+      lb: ['generic-load-balancer', 'cluster_public'],
+      web: ['generic-compute', 'cluster_public'],
+      users: ['generic-user', undefined],
+      db: ['generic-database', undefined]
+    });
+    expect(diagram.resources.find(resource => resource.id === 'web')).toMatchObject({ name: 'Web', properties: { instanceType: 't3.small' }, source: 'shop.dot:11' });
+    expect(diagram.name).toBe('Shop');
+    expect(diagram.description).toBe('Imported from a Graphviz graph with 5 nodes in 2 clusters');
+  });
+
+  it('keeps edge labels, clips edges at lhead clusters and drops invisible ones', () => {
+    const { links } = importDot(graph);
+
+    expect(links.map(link => [link.from, link.to, link.label])).toEqual([
+      ['users', 'lb', 'HTTPS'],
+      ['lb', 'web', undefined],
+      ['web', 'db', 'reads'],
+      ['users', 'cluster_public', undefined]
+    ]);
+  });
+
+  it('reports syntax errors with their position', () => {
+    expect(() => importDot('digraph {\n  a -> [', { file: 'bad.dot' })).toThrow(/^bad\.dot:2:/);
+    expect(() => importDot('flowchart LR')).toThrow(/^graph\.dot:1:1: Expected graph or digraph/);
+  });
+});
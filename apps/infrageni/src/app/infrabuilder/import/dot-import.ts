@@ -0,0 +1,491 @@
+import { RelationshipType } from '../patterns/core/pattern-types';
+import { ImportedDiagram, ImportedLink, ImportedResource } from './import-model';
+import { humanize } from './resource-graph';
+
+// Reads Graphviz DOT (graph, digraph, strict) into a diagram. `subgraph cluster_*` blocks
+// become containers, nested as written; other subgraphs only scope node and edge defaults.
+// Node shapes pick the component the way GraphvizExportTool writes them, node attributes
+// other than styling become properties, and edge labels become arrow labels. Edges to a
+// subgraph connect every node in it, unless lhead/ltail name a cluster (compound=true).
+
+export interface DotImportOptions {
+  name?: string;
+  // File name used in error messages and resource sources
+  file?: string;
+}
+
+type Attributes = Record<string, string>;
+
+interface Token {
+  type: 'id' | 'html' | 'punct' | 'edge' | 'eof';
+  value: string;
+  line: number;
+  col: number;
+}
+
+interface DotNode {
+  id: string;
+  attributes: Attributes;
+  parentId?: string;
+  // The shape set on the node itself rather than by a node [shape=...] default
+  shape?: string;
+  line: number;
+}
+
+interface DotCluster {
+  id: string;
+  attributes: Attributes;
+  parentId?: string;
+  line: number;
+}
+
+interface DotEdge {
+  from: string;
+  to: string;
+  attributes: Attributes;
+}
+
+interface Scope {
+  nodeDefaults: Attributes;
+  edgeDefaults: Attributes;
+  clusterId?: string;
+  nodes: Set<string>;
+}
+
+// Node shapes GraphvizExportTool writes for each kind of component; ellipse is only a user
+// when set on the node, as it is also Graphviz's default shape
+const SHAPE_COMPONENTS: Record<string, string> = {
+  cylinder: 'generic-database',
+  folder: 'generic-storage',
+  tab: 'generic-storage',
+  note: 'generic-storage',
+  diamond: 'generic-load-balancer',
+  trapezium: 'generic-load-balancer',
+  invtrapezium: 'generic-load-balancer',
+  hexagon: 'generic-external-system',
+  octagon: 'generic-external-system',
+  doubleoctagon: 'generic-external-system'
+};
+
+const PERSON_SHAPES = new Set(['ellipse', 'oval']);
+
+// Cluster fill colors GraphvizExportTool uses for subnets and availability zones
+const CLUSTER_COLORS: Record<string, string> = {
+  lightgreen: 'generic-subnet',
+  lightyellow: 'generic-availability-zone'
+};
+
+const CONTAINER_KEYWORDS: [RegExp, string][] = [
+  [/subnet/, 'generic-subnet'],
+  [/availability[\s_-]*zone|(^|[\s_-])az($|[\s_-\d])|zone/, 'generic-availability-zone']
+];
+
+// Styling and layout attributes; everything else on a node is kept as a property
+const PRESENTATION_ATTRIBUTES = new Set([
+  'label', 'xlabel', 'shape', 'style', 'color', 'fillcolor', 'fontcolor', 'fontname', 'fontsize', 'width', 'height',
+  'fixedsize', 'margin', 'penwidth', 'pos', 'rank', 'group', 'peripheries', 'sides', 'skew', 'distortion',
+  'orientation', 'regular', 'image', 'imagescale', 'imagepos', 'labelloc', 'labeljust', 'nojustify', 'gradientangle',
+  'weight', 'tooltip', 'URL', 'href', 'target', 'id', 'class', 'layer', 'z', 'area', 'ordering', 'sortv',
+  'showboxes', 'xlp', 'lp', 'bb', 'bgcolor', 'pencolor', 'componentId'
+]);
+
+const KEYWORDS = new Set(['strict', 'graph', 'digraph', 'subgraph', 'node', 'edge']);
+
+// Import one DOT graph
+export function importDot(source: string, options: DotImportOptions = {}): ImportedDiagram {
+  return new DotImporter(source, options).run();
+}
+
+class DotImporter {
+  private file: string;
+  private tokens: Token[] = [];
+  private position = 0;
+  private graphId = '';
+  private graphAttributes: Attributes = {};
+  private nodes = new Map<string, DotNode>();
+  private clusters = new Map<string, DotCluster>();
+  private edges: DotEdge[] = [];
+  private warnings: string[] = [];
+
+  constructor(private source: string, private options: DotImportOptions) {
+    this.file = options.file || 'graph.dot';
+  }
+
+  run(): ImportedDiagram {
+    this.tokens = this.tokenize();
+    this.parseGraph();
+    if (this.peek().type !== 'eof') {
+      this.warnings.push(`${this.file}:${this.peek().line}: Only the first graph in the file was imported`);
+    }
+
+    const hidden = new Set(Array.from(this.nodes.values()).filter(node => /\binvis\b/.test(node.attributes.style ?? '')).map(node => node.id));
+    const resources: ImportedResource[] = [
+      ...Array.from(this.clusters.values()).map(cluster => ({
+        id: cluster.id,
+        name: this.label(cluster.attributes, cluster.id.replace(/^cluster_?/, '')),
+        componentId: this.clusterComponent(cluster),
+        properties: properties(cluster.attributes),
+        parentId: cluster.parentId,
+        source: `${this.file}:${cluster.line}`
+      })),
+      ...Array.from(this.nodes.values()).filter(node => !hidden.has(node.id)).map(node => ({
+        id: node.id,
+        name: this.label(node.attributes, node.id),
+        componentId: this.nodeComponent(node),
+        properties: properties(node.attributes),
+        parentId: node.parentId,
+        source: `${this.file}:${node.line}`
+      }))
+    ];
+
+    const links: ImportedLink[] = [];
+    for (const edge of this.edges) {
+      if (/\binvis\b/.test(edge.attributes.style ?? '') || hidden.has(edge.from) || hidden.has(edge.to)) continue;
+
+      // With compound=true, lhead/ltail clip the edge at a cluster; connect to the container
+      const from = edge.attributes.ltail && this.clusters.has(edge.attributes.ltail) ? edge.attributes.ltail : edge.from;
+      const to = edge.attributes.lhead && this.clusters.has(edge.attributes.lhead) ? edge.attributes.lhead : edge.to;
+      const label = cleanLabel(edge.attributes.label ?? edge.attributes.xlabel ?? '', edge.attributes.label?.startsWith('<') ?? false) || undefined;
+      if (from === to || links.some(link => link.from === from && link.to === to && link.label === label)) continue;
+      links.push({ from, to, label, type: RelationshipType.DEPENDENCY });
+    }
+
+    const base = this.file.split('/').pop()?.replace(/\.(dot|gv)$/i, '') ?? '';
+    return {
+      name: this.options.name || cleanLabel(this.graphAttributes.label ?? '', false) ||
+        (this.graphId.length > 1 ? humanize(this.graphId) : '') || humanize(base) || 'Imported Graphviz Diagram',
+      description: `Imported from a Graphviz graph with ${this.nodes.size} node${this.nodes.size === 1 ? '' : 's'}` +
+        (this.clusters.size > 0 ? ` in ${this.clusters.size} cluster${this.clusters.size === 1 ? '' : 's'}` : ''),
+      resources,
+      links,
+      parameters: [],
+      warnings: this.warnings
+    };
+  }
+
+  // graph : [strict] (graph | digraph) [ID] '{' stmt_list '}'
+  private parseGraph(): void {
+    if (this.isKeyword('strict')) this.next();
+    if (!this.isKeyword('graph') && !this.isKeyword('digraph')) {
+      this.fail('Expected graph or digraph');
+    }
+    this.next();
+    if (this.peek().type === 'id' || this.peek().type === 'html') this.graphId = this.next().value;
+
+    this.expect('{');
+    this.parseStatements({ nodeDefaults: {}, edgeDefaults: {}, nodes: new Set() });
+    this.expect('}');
+  }
+
+  private parseStatements(scope: Scope): void {
+    while (this.peek().value !== '}' || this.peek().type !== 'punct') {
+      if (this.peek().type === 'eof') this.fail('Expected }');
+      this.parseStatement(scope);
+      if (this.isPunct(';')) this.next();
+    }
+  }
+
+  private parseStatement(scope: Scope): void {
+    // graph / node / edge [attributes]
+    if ((this.isKeyword('graph') || this.isKeyword('node') || this.isKeyword('edge')) && this.peek(1).value === '[') {
+      const kind = this.next().value.toLowerCase();
+      const attributes = this.parseAttributes();
+      if (kind === 'node') scope.nodeDefaults = { ...scope.nodeDefaults, ...attributes };
+      else if (kind === 'edge') scope.edgeDefaults = { ...scope.edgeDefaults, ...attributes };
+      else Object.assign(this.graphAttributesOf(scope), attributes);
+      return;
+    }
+
+    if (this.isKeyword('subgraph') || this.isPunct('{')) {
+      const nodes = this.parseSubgraph(scope);
+      if (this.peek().type === 'edge') this.parseEdges(scope, Array.from(nodes));
+      return;
+    }
+
+    const token = this.peek();
+    if (token.type !== 'id' && token.type !== 'html') this.fail('Expected a statement');
+
+    // ID = ID sets a graph attribute
+    if (this.peek(1).value === '=' && this.peek(1).type === 'punct') {
+      const key = this.next().value;
+      this.next();
+      this.graphAttributesOf(scope)[key] = this.parseId();
+      return;
+    }
+
+    const id = this.parseNodeId();
+    if (this.peek().type === 'edge') {
+      this.mentionNode(id, scope, {}, token.line);
+      this.parseEdges(scope, [id]);
+      return;
+    }
+    this.mentionNode(id, scope, this.isPunct('[') ? this.parseAttributes() : {}, token.line);
+  }
+
+  // subgraph : [subgraph [ID]] '{' stmt_list '}'
+  private parseSubgraph(parent: Scope): Set<string> {
+    let id = '';
+    const line = this.peek().line;
+    if (this.isKeyword('subgraph')) {
+      this.next();
+      if (this.peek().type === 'id') id = this.next().value;
+    }
+
+    const scope: Scope = { nodeDefaults: { ...parent.nodeDefaults }, edgeDefaults: { ...parent.edgeDefaults }, clusterId: parent.clusterId, nodes: new Set() };
+    if (/^cluster/i.test(id)) {
+      // A cluster written again (or first written at the top) nests where it is first placed inside another
+      const cluster = this.clusters.get(id) ?? { id, attributes: {}, line };
+      if (!cluster.parentId && parent.clusterId && parent.clusterId !== id) cluster.parentId = parent.clusterId;
+      this.clusters.set(id, cluster);
+      scope.clusterId = id;
+    }
+
+    this.expect('{');
+    this.parseStatements(scope);
+    this.expect('}');
+
+    scope.nodes.forEach(node => parent.nodes.add(node));
+    return scope.nodes;
+  }
+
+  // edge_stmt : (node_id | subgraph) edgeop (node_id | subgraph) [edgeop ...] [attributes]
+  private parseEdges(scope: Scope, first: string[]): void {
+    const operands = [first];
+    while (this.peek().type === 'edge') {
+      this.next();
+      if (this.isKeyword('subgraph') || this.isPunct('{')) {
+        operands.push(Array.from(this.parseSubgraph(scope)));
+      } else {
+        const line = this.peek().line;
+        const id = this.parseNodeId();
+        this.mentionNode(id, scope, {}, line);
+        operands.push([id]);
+      }
+    }
+
+    const attributes = { ...scope.edgeDefaults, ...(this.isPunct('[') ? this.parseAttributes() : {}) };
+    for (let i = 1; i < operands.length; i++) {
+      for (const from of operands[i - 1]) {
+        for (const to of operands[i]) {
+          this.edges.push({ from, to, attributes });
+        }
+      }
+    }
+  }
+
+  // Nodes take the defaults in force where they are first mentioned
+  private mentionNode(id: string, scope: Scope, attributes: Attributes, line: number): void {
+    let node = this.nodes.get(id);
+    if (!node) {
+      node = { id, attributes: { ...scope.nodeDefaults }, line };
+      this.nodes.set(id, node);
+    }
+    Object.assign(node.attributes, attributes);
+    if (attributes.shape) node.shape = attributes.shape;
+    if (!node.parentId && scope.clusterId) node.parentId = scope.clusterId;
+    scope.nodes.add(id);
+  }
+
+  // node_id : ID [':' ID [':' ID]]; ports and compass points are dropped
+  private parseNodeId(): string {
+    const id = this.parseId();
+    while (this.isPunct(':')) {
+      this.next();
+      this.parseId();
+    }
+    return id;
+  }
+
+  // attr_list : '[' [a_list] ']' [attr_list]
+  private parseAttributes(): Attributes {
+    const attributes: Attributes = {};
+    while (this.isPunct('[')) {
+      this.next();
+      while (!this.isPunct(']')) {
+        const key = this.parseId();
+        if (this.isPunct('=')) {
+          this.next();
+          attributes[key] = this.parseId();
+        } else {
+          attributes[key] = 'true';
+        }
+        if (this.isPunct(',') || this.isPunct(';')) this.next();
+      }
+      this.next();
+    }
+    return attributes;
+  }
+
+  // An ID, joining "quoted" + "strings"; HTML strings keep their <> to tell them apart
+  private parseId(): string {
+    const token = this.peek();
+    if (token.type === 'html') return `<${this.next().value}>`;
+    if (token.type !== 'id') this.fail('Expected an identifier');
+    let value = this.next().value;
+    while (this.isPunct('+') && this.peek(1).type === 'id') {
+      this.next();
+      value += this.next().value;
+    }
+    return value;
+  }
+
+  private graphAttributesOf(scope: Scope): Attributes {
+    return scope.clusterId ? (this.clusters.get(scope.clusterId) as DotCluster).attributes : this.graphAttributes;
+  }
+
+  private nodeComponent(node: DotNode): string {
+    const { componentId } = node.attributes;
+    const named = [componentId, node.attributes.class].find(value => value && /^(aws|azure|gcp|generic)-[a-z0-9-]+$/.test(value));
+    if (named) return named;
+
+    const shape = (node.attributes.shape ?? '').toLowerCase();
+    if (PERSON_SHAPES.has(shape) && PERSON_SHAPES.has((node.shape ?? '').toLowerCase())) return 'generic-user';
+    return SHAPE_COMPONENTS[shape] ?? 'generic-compute';
+  }
+
+  private clusterComponent(cluster: DotCluster): string {
+    const { componentId, fillcolor, label } = cluster.attributes;
+    if (componentId && /^(aws|azure|gcp|generic)-[a-z0-9-]+$/.test(componentId)) return componentId;
+
+    const names = `${cluster.id} ${label ?? ''}`.toLowerCase();
+    return CONTAINER_KEYWORDS.find(([pattern]) => pattern.test(names))?.[1] ??
+      CLUSTER_COLORS[(fillcolor ?? '').toLowerCase()] ?? 'generic-vpc';
+  }
+
+  // The label, or the full text a compact export kept in the tooltip
+  private label(attributes: Attributes, id: string): string {
+    const label = (attributes.label ?? '\\N').replace(/\\N/g, id).replace(/\\G/g, this.graphId);
+    const text = cleanLabel(label, label.startsWith('<'), attributes.shape?.toLowerCase().endsWith('record'));
+    const tooltip = attributes.tooltip;
+    if (tooltip && text.endsWith('...') && tooltip.startsWith(text.slice(0, -3))) return tooltip;
+    return text || id;
+  }
+
+  private tokenize(): Token[] {
+    const tokens: Token[] = [];
+    const source = this.source;
+    let line = 1;
+    let lineStart = 0;
+    let i = 0;
+
+    const advance = (to: number) => {
+      for (; i < to; i++) {
+        if (source[i] === '\n') {
+          line++;
+          lineStart = i + 1;
+        }
+      }
+    };
+
+    while (i < source.length) {
+      const char = source[i];
+      const col = i - lineStart + 1;
+      const start = { line, col };
+
+      if (/\s/.test(char)) {
+        advance(i + 1);
+      } else if (source.startsWith('//', i)) {
+        advance(source.indexOf('\n', i) < 0 ? source.length : source.indexOf('\n', i));
+      } else if (source.startsWith('/*', i)) {
+        const end = source.indexOf('*/', i + 2);
+        advance(end < 0 ? source.length : end + 2);
+      } else if (char === '#' && source.slice(lineStart, i).trim() === '') {
+        // C preprocessor output lines
+        advance(source.indexOf('\n', i) < 0 ? source.length : source.indexOf('\n', i));
+      } else if (char === '"') {
+        let value = '';
+        let j = i + 1;
+        for (; j < source.length && source[j] !== '"'; j++) {
+          if (source[j] === '\\' && source[j + 1] === '"') {
+            value += '"';
+            j++;
+          } else if (source[j] === '\\' && source[j + 1] === '\n') {
+            j++;
+          } else {
+            value += source[j];
+          }
+        }
+        if (j >= source.length) this.fail('Unterminated string', start);
+        advance(j + 1);
+        tokens.push({ type: 'id', value, ...start });
+      } else if (char === '<') {
+        let depth = 0;
+        let j = i;
+        for (; j < source.length; j++) {
+          if (source[j] === '<') depth++;
+          if (source[j] === '>' && --depth === 0) break;
+        }
+        if (j >= source.length) this.fail('Unterminated HTML string', start);
+        tokens.push({ type: 'html', value: source.slice(i + 1, j), ...start });
+        advance(j + 1);
+      } else if (source.startsWith('->', i) || source.startsWith('--', i)) {
+        tokens.push({ type: 'edge', value: source.slice(i, i + 2), ...start });
+        advance(i + 2);
+      } else if ('{}[];,=:+'.includes(char)) {
+        tokens.push({ type: 'punct', value: char, ...start });
+        advance(i + 1);
+      } else {
+        const match = source.slice(i).match(/^(-?(\.\d+|\d+(\.\d*)?)|[A-Za-z_\u0080-\uffff][\w\u0080-\uffff]*)/);
+        if (!match) this.fail(`Unexpected character ${char}`, start);
+        tokens.push({ type: 'id', value: match[0], ...start });
+        advance(i + match[0].length);
+      }
+    }
+
+    tokens.push({ type: 'eof', value: '', line, col: i - lineStart + 1 });
+    return tokens;
+  }
+
+  private peek(offset = 0): Token {
+    return this.tokens[Math.min(this.position + offset, this.tokens.length - 1)];
+  }
+
+  private next(): Token {
+    return this.tokens[this.position++];
+  }
+
+  private isPunct(value: string): boolean {
+    return this.peek().type === 'punct' && this.peek().value === value;
+  }
+
+  private isKeyword(keyword: string): boolean {
+    const token = this.peek();
+    return token.type === 'id' && token.value.toLowerCase() === keyword && KEYWORDS.has(keyword);
+  }
+
+  private expect(value: string): void {
+    if (!this.isPunct(value)) this.fail(`Expected ${value}`);
+    this.next();
+  }
+
+  private fail(message: string, at: { line: number; col: number } = this.peek()): never {
+    const found = 'type' in at && (at as Token).type !== 'eof' ? ` but found ${(at as Token).value}` : '';
+    throw new Error(`${this.file}:${at.line}:${at.col}: ${message}${found}`);
+  }
+}
+
+function properties(attributes: Attributes): Record<string, unknown> {
+  return Object.fromEntries(Object.entries(attributes).filter(([key]) => !PRESENTATION_ATTRIBUTES.has(key)));
+}
+
+// Plain text of a label: escape sequences, HTML-like labels and record fields
+function cleanLabel(label: string, html: boolean, record = false): string {
+  let text = label;
+  if (html) {
+    text = text
+      .replace(/^<|>$/g, '')
+      .replace(/<br\s*\/?>/gi, ' ')
+      .replace(/<[^>]*>/g, '')
+      .replace(/&lt;/g, '<')
+      .replace(/&gt;/g, '>')
+      .replace(/&quot;/g, '"')
+      .replace(/&#(\d+);/g, (_, code: string) => String.fromCharCode(Number(code)))
+      .replace(/&amp;/g, '&');
+  } else {
+    text = text.replace(/\\[nlr]/g, ' ').replace(/\\(.)/g, '$1');
+  }
+  if (record) {
+    text = text.replace(/<[^>]*>/g, '').replace(/[{}|]/g, ' ');
+  }
+  return text.replace(/\s+/g, ' ').trim();
+}
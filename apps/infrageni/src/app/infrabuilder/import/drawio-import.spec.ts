@@ -0,0 +1,73 @@
+import { deflateSync, strToU8 } from 'fflate';
+import { ComponentRegistry } from '../components/core/component-registry';
+import { importDrawio } from './drawio-import';
+
+const model = `<mxGraphModel><root>
+  <mxCell id="0"/>
+  <mxCell id="1" parent="0"/>
+  <mxCell id="vpc" value="Shop VPC" style="swimlane;" vertex="1" parent="1"><mxGeometry x="40" y="40" width="400" height="300" as="geometry"/></mxCell>
+  <mxCell id="subnet" value="Private Subnet" style="group;" vertex="1" parent="vpc"><mxGeometry x="20" y="40" width="200" height="200" as="geometry"/></mxCell>
+  <object id="fn" label="Checkout" runtime="nodejs20.x"><mxCell style="shape=mxgraph.aws4.resourceIcon;resIcon=mxgraph.aws4.lambda;" vertex="1" parent="subnet"><mxGeometry x="20" y="40" width="60" height="60" as="geometry"/></mxCell></object>
+  <mxCell id="db" value="&lt;b&gt;Orders&lt;/b&gt;" style="shape=cylinder3;html=1;" vertex="1" parent="subnet"><mxGeometry x="120" y="40" width="60" height="80" as="geometry"/></mxCell>
+  <mxCell id="odd" value="Queue" style="shape=mxgraph.aws4.resourceIcon;resIcon=mxgraph.aws4.sqs;" vertex="1" parent="1"><mxGeometry x="500" y="40" width="60" height="60" as="geometry"/></mxCell>
+  <mxCell id="note" value="Draft" style="text;" vertex="1" parent="1"><mxGeometry x="0" y="0" width="60" height="20" as="geometry"/></mxCell>
+  <mxCell id="e1" value="writes" style="edgeStyle=orthogonalEdgeStyle;" edge="1" parent="1" source="fn" target="db"><mxGeometry relative="1" as="geometry"/></mxCell>
+  <mxCell id="e1-label" value="SQL" style="edgeLabel;" vertex="1" connectable="0" parent="e1"><mxGeometry relative="1" as="geometry"/></mxCell>
+  <mxCell id="e2" edge="1" parent="1" source="fn"><mxGeometry relative="1" as="geometry"/></mxCell>
+</root></mxGraphModel>`;
+
+function mxfile(...pages: string[]): string {
+  return `<mxfile host="app.diagrams.net">${pages.join('')}</mxfile>`;
+}
+
+describe('importDrawio', () => {
+  beforeAll(async () => {
+    await ComponentRegistry.getInstance().initialize();
+  });
+
+  it('maps stencils to components and nests shapes in their containers', () => {
+    const diagram = importDrawio(mxfile(`<diagram name="Checkout">${model}</diagram>`), { file: 'shop.drawio' });
+    const components = Object.fromEntries(diagram.resources.map(resource => [resource.id, [resource.componentId, resource.parentId]]));
+
+    expect(diagram.name).toBe('Checkout');
+    expect(components).toEqual({
+      vpc: ['generic-vpc', undefined],
+      subnet: ['generic-subnet', 'vpc'],
+      fn: ['aws-lambda', 'subnet'],
+      db: ['generic-database', 'subnet'],
+      odd: ['generic-compute', undefined]
+    });
+    expect(diagram.resources.find(resource => resource.id === 'fn')).toMatchObject({
+      name: 'Checkout',
+      properties: { runtime: 'nodejs20.x' },
+      source: 'shop.drawio#fn',
+      bounds: { x: 20, y: 40, w: 60, h: 60 }
+    });
+    expect(diagram.resources.find(resource => resource.id === 'db')?.name).toBe('Orders');
+  });
+
+  it('joins edge labels and warns about what it could not draw', () => {
+    const diagram = importDrawio(mxfile(`<diagram name="Page-1">${model}</diagram>`, '<diagram name="Staging"></diagram>'), { file: 'shop.drawio' });
+
+    expect(diagram.name).toBe('Shop');
+    expect(diagram.links.map(link => [link.from, link.to, link.label])).toEqual([['fn', 'db', 'writes SQL']]);
+    expect(diagram.warnings).toEqual([
+      'Only the first page was imported; Staging was skipped',
+      'Stencil sqs is not recognized; its shape was imported as generic compute',
+      '1 text label was not imported',
+      '1 edge is not connected to two shapes and was skipped'
+    ]);
+  });
+
+  it('reads compressed pages', () => {
+    const compressed = btoa(String.fromCharCode(...deflateSync(strToU8(encodeURIComponent(model)))));
+    const diagram = importDrawio(mxfile(`<diagram name="Checkout">${compressed}</diagram>`));
+
+    expect(diagram.resources.map(resource => resource.id)).toEqual(['vpc', 'subnet', 'fn', 'db', 'odd']);
+  });
+
+  it('rejects documents that are not draw.io diagrams', () => {
+    expect(() => importDrawio('<svg xmlns="http://www.w3.org/2000/svg"/>', { file: 'logo.svg' })).toThrow('logo.svg: Not a draw.io document (found <svg>)');
+    expect(() => importDrawio(mxfile())).toThrow('diagram.drawio: The document has no pages');
+  });
+});
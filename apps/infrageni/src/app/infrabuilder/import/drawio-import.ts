@@ -0,0 +1,462 @@
+import { inflateSync, strFromU8 } from 'fflate';
+import { RelationshipType } from '../patterns/core/pattern-types';
+import { ImportedDiagram, ImportedLink, ImportedResource } from './import-model';
+import { humanize } from './resource-graph';
+
+// Reads draw.io / diagrams.net documents: plain or compressed mxfile pages, a bare mxGraphModel,
+// or the drawing embedded in a .drawio.svg. AWS, Azure and GCP stencils (including the ones
+// DrawIOExportTool writes) map to infra components, swimlanes and groups become containers and
+// edges become links. Shapes keep the position and size they were drawn with.
+
+export interface DrawioImportOptions {
+  name?: string;
+  // File name used in error messages and resource sources
+  file?: string;
+}
+
+interface DrawioCell {
+  id: string;
+  parent?: string;
+  label: string;
+  style: Record<string, string>;
+  // Style entries without a value, e.g. swimlane or the stencil name DrawIOExportTool writes first
+  styleNames: string[];
+  vertex: boolean;
+  edge: boolean;
+  source?: string;
+  target?: string;
+  geometry: { x: number; y: number; w: number; h: number };
+  // Custom data of <object>/<UserObject> wrappers
+  attributes: Record<string, string>;
+}
+
+// Stencils of one provider library, by normalized stencil name
+const PROVIDER_STENCILS: Record<string, Record<string, string>> = {
+  aws: {
+    lambda: 'aws-lambda',
+    lambda_function: 'aws-lambda',
+    ecs: 'aws-ecs',
+    ecs_service: 'aws-ecs',
+    ecs_task: 'aws-ecs',
+    elastic_container_service: 'aws-ecs',
+    fargate: 'aws-ecs',
+    ecr: 'aws-ecr',
+    ecr_registry: 'aws-ecr',
+    elastic_container_registry: 'aws-ecr',
+    elastic_beanstalk: 'aws-elastic-beanstalk',
+    elastic_beanstalk_application: 'aws-elastic-beanstalk',
+    dynamodb: 'aws-dynamodb',
+    dynamodb_table: 'aws-dynamodb',
+    elasticache: 'aws-elasticache',
+    elasticache_for_redis: 'aws-elasticache',
+    elasticache_for_memcached: 'aws-elasticache',
+    ebs: 'aws-ebs',
+    elastic_block_store: 'aws-ebs',
+    volume: 'aws-ebs',
+    efs: 'aws-efs',
+    elastic_file_system: 'aws-efs',
+    alb: 'aws-alb',
+    application_load_balancer: 'aws-alb',
+    api_gateway: 'aws-api-gateway',
+    cloudfront: 'aws-cloudfront',
+    elastic_load_balancing: 'generic-load-balancer',
+    network_load_balancer: 'generic-load-balancer',
+    classic_load_balancer: 'generic-load-balancer'
+  },
+  azure: {
+    function_app: 'azure-functions',
+    function_apps: 'azure-functions',
+    functions: 'azure-functions',
+    azure_functions: 'azure-functions',
+    app_service: 'azure-app-service',
+    app_services: 'azure-app-service',
+    app_service_plans: 'azure-app-service',
+    container_instances: 'azure-container-instances',
+    cosmos_db: 'azure-cosmos-db',
+    azure_cosmos_db: 'azure-cosmos-db',
+    cache_redis: 'azure-cache-redis',
+    cache_for_redis: 'azure-cache-redis',
+    redis_cache: 'azure-cache-redis',
+    storage_account: 'azure-storage-account',
+    storage_accounts: 'azure-storage-account',
+    key_vault: 'azure-key-vault',
+    key_vaults: 'azure-key-vault',
+    application_gateway: 'azure-application-gateway',
+    application_gateways: 'azure-application-gateway',
+    cdn: 'azure-cdn',
+    cdn_profiles: 'azure-cdn',
+    front_doors: 'azure-cdn',
+    monitor: 'azure-monitor',
+    application_insights: 'azure-monitor',
+    log_analytics_workspaces: 'azure-monitor'
+  },
+  gcp: {
+    cloud_functions: 'gcp-cloud-functions',
+    functions: 'gcp-cloud-functions',
+    app_engine: 'gcp-app-engine',
+    cloud_run: 'gcp-cloud-run',
+    cloud_firestore: 'gcp-cloud-firestore',
+    firestore: 'gcp-cloud-firestore',
+    cloud_spanner: 'gcp-cloud-spanner',
+    spanner: 'gcp-cloud-spanner',
+    memorystore: 'gcp-memorystore',
+    cloud_memorystore: 'gcp-memorystore',
+    cloud_load_balancing: 'gcp-cloud-load-balancing',
+    load_balancing: 'gcp-cloud-load-balancing',
+    cloud_cdn: 'gcp-cloud-cdn',
+    cdn: 'gcp-cloud-cdn',
+    cloud_storage: 'gcp-cloud-storage',
+    pub_sub: 'gcp-pub-sub',
+    cloud_pub_sub: 'gcp-pub-sub',
+    pubsub: 'gcp-pub-sub',
+    secret_manager: 'gcp-secret-manager'
+  }
+};
+
+// Names shared across libraries, plus the basic shapes people draw architecture with
+const GENERIC_STENCILS: Record<string, string> = {
+  ec2: 'generic-compute',
+  ec2_instance: 'generic-compute',
+  instance: 'generic-compute',
+  instances: 'generic-compute',
+  virtual_machine: 'generic-compute',
+  virtual_machines: 'generic-compute',
+  vm: 'generic-compute',
+  compute_engine: 'generic-compute',
+  server: 'generic-compute',
+  rds: 'generic-database',
+  rds_instance: 'generic-database',
+  aurora: 'generic-database',
+  database: 'generic-database',
+  sql_database: 'generic-database',
+  sql_databases: 'generic-database',
+  cloud_sql: 'generic-database',
+  cylinder: 'generic-database',
+  cylinder3: 'generic-database',
+  datastore: 'generic-database',
+  s3: 'generic-storage',
+  simple_storage_service: 'generic-storage',
+  bucket: 'generic-storage',
+  storage: 'generic-storage',
+  blob_storage: 'generic-storage',
+  elastic_load_balancing: 'generic-load-balancer',
+  load_balancer: 'generic-load-balancer',
+  load_balancers: 'generic-load-balancer',
+  user: 'generic-user',
+  users: 'generic-user',
+  actor: 'generic-user',
+  umlactor: 'generic-user',
+  client: 'generic-user',
+  external_system: 'generic-external-system',
+  internet: 'generic-external-system',
+  cloud: 'generic-external-system'
+};
+
+// Container stencils and swimlane titles by keyword; other groups become VPC-style boxes
+const CONTAINER_KEYWORDS: [RegExp, string][] = [
+  [/subnet/, 'generic-subnet'],
+  [/availability_zone|(^|_)az($|_)|zone/, 'generic-availability-zone']
+];
+
+const LIBRARY_PROVIDERS: Record<string, string> = {
+  aws: 'aws',
+  aws3: 'aws',
+  aws4: 'aws',
+  azure: 'azure',
+  azure2: 'azure',
+  gcp: 'gcp',
+  gcp2: 'gcp'
+};
+
+// Styles that only decorate the drawing
+const ANNOTATION_STYLES = new Set(['text', 'edgeLabel', 'label', 'note', 'callout']);
+
+// Import the first page of a draw.io document
+export function importDrawio(source: string, options: DrawioImportOptions = {}): ImportedDiagram {
+  return new DrawioImporter(source, options).run();
+}
+
+class DrawioImporter {
+  private file: string;
+  private page = '';
+  private cells = new Map<string, DrawioCell>();
+  private resources: ImportedResource[] = [];
+  private links: ImportedLink[] = [];
+  private warnings: string[] = [];
+
+  constructor(private source: string, private options: DrawioImportOptions) {
+    this.file = options.file || 'diagram.drawio';
+  }
+
+  run(): ImportedDiagram {
+    this.readCells(this.graphModel());
+
+    const layers = new Set(
+      Array.from(this.cells.values()).filter(cell => !cell.vertex && !cell.edge).map(cell => cell.id)
+    );
+    const edgeLabels = new Map<string, string[]>();
+    const children = new Map<string, DrawioCell[]>();
+    for (const cell of this.cells.values()) {
+      const parent = cell.parent ? this.cells.get(cell.parent) : undefined;
+      if (!cell.vertex || !parent) continue;
+      if (parent.edge) {
+        edgeLabels.set(parent.id, [...(edgeLabels.get(parent.id) || []), cell.label]);
+      } else if (parent.vertex) {
+        children.set(parent.id, [...(children.get(parent.id) || []), cell]);
+      }
+    }
+
+    const unknownStencils = new Map<string, number>();
+    let annotations = 0;
+    for (const cell of this.cells.values()) {
+      const parent = cell.parent ? this.cells.get(cell.parent) : undefined;
+      if (!cell.vertex || parent?.edge) continue;
+
+      const isContainer = this.isContainer(cell) || children.has(cell.id);
+      if (!isContainer && this.isAnnotation(cell)) {
+        annotations++;
+        continue;
+      }
+
+      const stencil = this.stencilNames(cell);
+      const componentId = isContainer ? this.containerComponent(cell, stencil) : this.component(stencil);
+      // Basic shapes are expected to become generic ones; only library stencils are worth a warning
+      const library = stencil.find(candidate => candidate.provider);
+      if (!componentId && library) {
+        unknownStencils.set(library.name, (unknownStencils.get(library.name) || 0) + 1);
+      }
+
+      this.resources.push({
+        id: cell.id,
+        name: cell.label || humanize(stencil[0]?.name ?? '') || 'Shape',
+        componentId: componentId || 'generic-compute',
+        properties: { ...cell.attributes },
+        parentId: parent && !layers.has(parent.id) ? parent.id : undefined,
+        source: `${this.file}#${cell.id}`,
+        bounds: cell.geometry
+      });
+    }
+
+    const drawn = new Set(this.resources.map(resource => resource.id));
+    let dangling = 0;
+    for (const cell of this.cells.values()) {
+      if (!cell.edge) continue;
+      if (!cell.source || !cell.target || !drawn.has(cell.source) || !drawn.has(cell.target)) {
+        dangling++;
+        continue;
+      }
+      const label = [cell.label, ...(edgeLabels.get(cell.id) || [])].filter(Boolean).join(' ');
+      this.links.push({ from: cell.source, to: cell.target, label: label || undefined, type: RelationshipType.DEPENDENCY });
+    }
+
+    for (const [name, count] of unknownStencils) {
+      this.warnings.push(`Stencil ${name} is not recognized; ${count === 1 ? 'its shape was' : `${count} shapes were`} imported as generic compute`);
+    }
+    if (annotations > 0) {
+      this.warnings.push(`${annotations} text label${annotations === 1 ? ' was' : 's were'} not imported`);
+    }
+    if (dangling > 0) {
+      this.warnings.push(`${dangling} edge${dangling === 1 ? ' is' : 's are'} not connected to two shapes and ${dangling === 1 ? 'was' : 'were'} skipped`);
+    }
+
+    const base = this.file.split('/').pop()?.replace(/(\.drawio)?\.(drawio|xml|svg)$/i, '') ?? '';
+    const shapeCount = this.resources.length;
+    return {
+      name: this.options.name || (this.page && !/^Page-\d+$/.test(this.page) ? this.page : humanize(base)) || 'Imported Drawing',
+      description: `Imported from a draw.io diagram with ${shapeCount} shape${shapeCount === 1 ? '' : 's'} and ` +
+        `${this.links.length} connector${this.links.length === 1 ? '' : 's'}`,
+      resources: this.resources,
+      links: this.links,
+      parameters: [],
+      warnings: this.warnings
+    };
+  }
+
+  // The mxGraphModel of the first page, decompressing it when the page is stored compressed
+  private graphModel(): Element {
+    let document = this.parseXml(this.source);
+
+    // .drawio.svg files carry the whole mxfile in the content attribute
+    const embedded = document.documentElement.nodeName === 'svg' ? document.documentElement.getAttribute('content') : null;
+    if (embedded) document = this.parseXml(embedded);
+
+    const root = document.documentElement;
+    if (root.nodeName === 'mxGraphModel') return root;
+    if (root.nodeName !== 'mxfile') {
+      throw new Error(`${this.file}: Not a draw.io document (found <${root.nodeName}>)`);
+    }
+
+    const pages = Array.from(root.getElementsByTagName('diagram'));
+    if (pages.length === 0) throw new Error(`${this.file}: The document has no pages`);
+    if (pages.length > 1) {
+      const others = pages.slice(1).map(page => page.getAttribute('name') || 'untitled');
+      this.warnings.push(`Only the first page was imported; ${others.join(', ')} ${others.length === 1 ? 'was' : 'were'} skipped`);
+    }
+
+    const [page] = pages;
+    this.page = page.getAttribute('name') || '';
+    const model = page.getElementsByTagName('mxGraphModel')[0];
+    if (model) return model;
+
+    const compressed = (page.textContent || '').trim();
+    if (!compressed) throw new Error(`${this.file}: The first page is empty`);
+    const decompressed = this.decompress(compressed);
+    const inner = this.parseXml(decompressed).documentElement;
+    if (inner.nodeName !== 'mxGraphModel') {
+      throw new Error(`${this.file}: The first page does not contain a diagram`);
+    }
+    return inner;
+  }
+
+  // Compressed pages are base64 of raw deflate over the URI-encoded XML
+  private decompress(text: string): string {
+    try {
+      const bytes = Uint8Array.from(atob(text), char => char.charCodeAt(0));
+      return decodeURIComponent(strFromU8(inflateSync(bytes), true));
+    } catch {
+      throw new Error(`${this.file}: The first page is compressed in a format that could not be read`);
+    }
+  }
+
+  private parseXml(text: string): Document {
+    const document = new DOMParser().parseFromString(text, 'application/xml');
+    const error = document.getElementsByTagName('parsererror')[0];
+    if (error) {
+      const message = (error.textContent || 'Invalid XML').trim().split('\n')[0];
+      throw new Error(`${this.file}: ${message}`);
+    }
+    return document;
+  }
+
+  private readCells(model: Element): void {
+    const root = model.getElementsByTagName('root')[0];
+    if (!root) throw new Error(`${this.file}: The diagram has no root cell`);
+
+    for (const element of Array.from(root.children)) {
+      // <object> and <UserObject> wrap a cell and hold its id, label and custom data
+      const wrapped = element.nodeName === 'mxCell' ? undefined : element;
+      const cell = wrapped ? wrapped.getElementsByTagName('mxCell')[0] : element;
+      if (!cell) continue;
+
+      const id = wrapped?.getAttribute('id') ?? cell.getAttribute('id');
+      if (!id) continue;
+
+      const attributes: Record<string, string> = {};
+      for (const attribute of Array.from(wrapped?.attributes ?? [])) {
+        if (!['id', 'label', 'placeholders', 'tooltip', 'link'].includes(attribute.name)) {
+          attributes[attribute.name] = attribute.value;
+        }
+      }
+
+      const geometry = Array.from(cell.children).find(child => child.nodeName === 'mxGeometry');
+      const number = (name: string) => Number(geometry?.getAttribute(name) ?? 0) || 0;
+      const { style, styleNames } = parseStyle(cell.getAttribute('style') || '');
+
+      this.cells.set(id, {
+        id,
+        parent: cell.getAttribute('parent') ?? undefined,
+        label: plainText(wrapped?.getAttribute('label') ?? cell.getAttribute('value') ?? ''),
+        style,
+        styleNames,
+        vertex: cell.getAttribute('vertex') === '1',
+        edge: cell.getAttribute('edge') === '1',
+        source: cell.getAttribute('source') ?? undefined,
+        target: cell.getAttribute('target') ?? undefined,
+        geometry: { x: number('x'), y: number('y'), w: number('width') || 120, h: number('height') || 80 },
+        attributes
+      });
+    }
+  }
+
+  private isContainer(cell: DrawioCell): boolean {
+    return cell.styleNames.includes('swimlane') ||
+      cell.styleNames.includes('group') ||
+      cell.style.container === '1' ||
+      cell.style.shape === 'swimlane' ||
+      !!cell.style.grIcon ||
+      /(^|\.)group/.test(cell.style.shape || '');
+  }
+
+  private isAnnotation(cell: DrawioCell): boolean {
+    return cell.styleNames.some(name => ANNOTATION_STYLES.has(name)) || ANNOTATION_STYLES.has(cell.style.shape || '');
+  }
+
+  // Candidate stencil names with their provider library, most specific first
+  private stencilNames(cell: DrawioCell): { name: string; provider?: string }[] {
+    const candidates = [
+      cell.style.resIcon,
+      cell.style.prIcon,
+      cell.style.grIcon,
+      cell.style.shape,
+      cell.style.image,
+      ...cell.styleNames
+    ].filter((value): value is string => !!value);
+
+    return candidates.flatMap(value => {
+      // mxgraph.aws4.lambda_function, img/lib/azure2/compute/Function_Apps.svg
+      const library = value.match(/mxgraph\.([a-z0-9]+)\./i)?.[1] ?? value.match(/img\/lib\/([a-z0-9]+)\//i)?.[1];
+      const name = value
+        .replace(/\.(svg|png)$/i, '')
+        .split(/[./]/)
+        .pop()
+        ?.replace(/^\d+-icon-service-/i, '')
+        .replace(/[\s-]+/g, '_')
+        .toLowerCase();
+      if (!name || ['mxgraph', 'resourceicon', 'producticon', 'hexicon', 'image', 'html', 'rounded', 'whitespace', 'ellipse', 'rectangle'].includes(name)) {
+        return [];
+      }
+      return [{ name, provider: library ? LIBRARY_PROVIDERS[library.toLowerCase()] : undefined }];
+    });
+  }
+
+  private component(stencil: { name: string; provider?: string }[]): string | undefined {
+    for (const { name, provider } of stencil) {
+      const match = (provider ? PROVIDER_STENCILS[provider]?.[name] : undefined) ?? GENERIC_STENCILS[name];
+      if (match) return match;
+    }
+    // DrawIOExportTool writes the library's stencil names without the provider mapping
+    for (const { name } of stencil) {
+      const match = Object.values(PROVIDER_STENCILS).map(stencils => stencils[name]).find(Boolean);
+      if (match) return match;
+    }
+    return undefined;
+  }
+
+  private containerComponent(cell: DrawioCell, stencil: { name: string; provider?: string }[]): string {
+    const names = [...stencil.map(candidate => candidate.name), cell.label.toLowerCase().replace(/[\s-]+/g, '_')];
+    for (const [pattern, componentId] of CONTAINER_KEYWORDS) {
+      if (names.some(name => pattern.test(name))) return componentId;
+    }
+    return 'generic-vpc';
+  }
+}
+
+function parseStyle(text: string): { style: Record<string, string>; styleNames: string[] } {
+  const style: Record<string, string> = {};
+  const styleNames: string[] = [];
+  for (const entry of text.split(';')) {
+    const separator = entry.indexOf('=');
+    if (separator > 0) {
+      style[entry.slice(0, separator).trim()] = entry.slice(separator + 1).trim();
+    } else if (entry.trim()) {
+      styleNames.push(entry.trim());
+    }
+  }
+  return { style, styleNames };
+}
+
+// Labels with html=1 hold markup; keep the text on one line
+function plainText(value: string): string {
+  return value
+    .replace(/<br\s*\/?>|<\/(div|p|li)>/gi, ' ')
+    .replace(/<[^>]*>/g, '')
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;/g, "'")
+    .replace(/&#(\d+);/g, (_, code: string) => String.fromCharCode(Number(code)))
+    .replace(/&amp;/g, '&')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
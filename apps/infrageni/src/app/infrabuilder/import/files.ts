@@ -0,0 +1,26 @@
+import { strFromU8, unzipSync } from 'fflate';
+
+// Reads an upload (loose files, a picked folder or zip archives) into path -> text, keeping only
+// files with one of the given extensions. Paths keep the folder structure so importers can
+// resolve relative references such as local Terraform modules. Hidden folders such as
+// .terraform or .git are skipped.
+export async function readImportFiles(files: File[], extensions: string[]): Promise<Record<string, string>> {
+  const result: Record<string, string> = {};
+  const wanted = (path: string) =>
+    extensions.some(extension => path.toLowerCase().endsWith(extension)) && !path.split('/').some(part => part.startsWith('.'));
+
+  for (const file of files) {
+    const path = file.webkitRelativePath || file.name;
+
+    if (path.toLowerCase().endsWith('.zip')) {
+      const entries = unzipSync(new Uint8Array(await file.arrayBuffer()));
+      for (const [entry, content] of Object.entries(entries)) {
+        if (!entry.endsWith('/') && wanted(entry)) result[entry] = strFromU8(content);
+      }
+    } else if (wanted(path)) {
+      result[path] = await file.text();
+    }
+  }
+
+  return result;
+}
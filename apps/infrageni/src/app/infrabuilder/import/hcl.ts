@@ -0,0 +1,614 @@
+// Parser for the HashiCorp configuration language (HCL2) as written in .tf files.
+// It keeps enough structure for reverse-engineering diagrams: blocks with their labels,
+// attributes with their literal value when it can be known without evaluation, and every
+// reference (var.x, aws_subnet.a.id, module.vpc.vpc_id, ...) an expression makes.
+
+export interface HclBody {
+  attributes: Record<string, HclAttribute>;
+  blocks: HclBlock[];
+}
+
+export interface HclBlock extends HclBody {
+  type: string;
+  labels: string[];
+  line: number;
+}
+
+export interface HclAttribute {
+  expression: HclExpression;
+  line: number;
+}
+
+export type HclExpression =
+  | { kind: 'literal'; value: string | number | boolean | null }
+  | { kind: 'template'; parts: (string | HclExpression)[] }
+  | { kind: 'tuple'; items: HclExpression[] }
+  | { kind: 'object'; entries: { key: HclExpression; value: HclExpression }[] }
+  | { kind: 'traversal'; root: string; path: (string | HclExpression)[] }
+  | { kind: 'call'; name: string; args: HclExpression[] }
+  | { kind: 'operation'; operands: HclExpression[] }
+  | { kind: 'for'; variables: string[]; operands: HclExpression[] };
+
+// Parse one file; errors carry the file name, line and column
+export function parseHcl(source: string, fileName = 'main.tf'): HclBody {
+  const parser = new HclParser(tokenize(source, fileName, 1), fileName);
+  return parser.parseFile();
+}
+
+// Literal value of an expression, or undefined when it depends on anything else
+export function evaluateHcl(expression: HclExpression): unknown {
+  switch (expression.kind) {
+    case 'literal':
+      return expression.value;
+    case 'template': {
+      if (expression.parts.some(part => typeof part !== 'string')) return undefined;
+      return expression.parts.join('');
+    }
+    case 'tuple': {
+      const items = expression.items.map(evaluateHcl);
+      return items.some(item => item === undefined) ? undefined : items;
+    }
+    case 'object': {
+      const result: Record<string, unknown> = {};
+      for (const entry of expression.entries) {
+        const key = objectKey(entry.key);
+        const value = evaluateHcl(entry.value);
+        if (key === undefined || value === undefined) return undefined;
+        result[key] = value;
+      }
+      return result;
+    }
+    default:
+      return undefined;
+  }
+}
+
+// Every traversal in an expression, as dotted addresses without index steps (aws_instance.web.id)
+export function getHclReferences(expression: HclExpression, bound: Set<string> = new Set()): string[] {
+  const references: string[] = [];
+
+  const visit = (node: HclExpression, locals: Set<string>) => {
+    switch (node.kind) {
+      case 'traversal': {
+        if (!locals.has(node.root)) {
+          const names = [node.root];
+          for (const step of node.path) {
+            if (typeof step !== 'string') break;
+            names.push(step);
+          }
+          references.push(names.join('.'));
+        }
+        node.path.forEach(step => typeof step !== 'string' && visit(step, locals));
+        break;
+      }
+      case 'template':
+        node.parts.forEach(part => typeof part !== 'string' && visit(part, locals));
+        break;
+      case 'tuple':
+        node.items.forEach(item => visit(item, locals));
+        break;
+      case 'object':
+        node.entries.forEach(entry => {
+          visit(entry.key, locals);
+          visit(entry.value, locals);
+        });
+        break;
+      case 'call':
+        node.args.forEach(arg => visit(arg, locals));
+        break;
+      case 'operation':
+        node.operands.forEach(operand => visit(operand, locals));
+        break;
+      case 'for': {
+        const [collection, ...rest] = node.operands;
+        visit(collection, locals);
+        const inner = new Set([...locals, ...node.variables]);
+        rest.forEach(operand => visit(operand, inner));
+        break;
+      }
+    }
+  };
+
+  visit(expression, bound);
+  return references;
+}
+
+// Object keys are bare words, strings or parenthesized expressions
+function objectKey(key: HclExpression): string | undefined {
+  if (key.kind === 'traversal' && key.path.length === 0) return key.root;
+  const value = evaluateHcl(key);
+  return typeof value === 'string' || typeof value === 'number' || typeof value === 'boolean' ? String(value) : undefined;
+}
+
+type TokenType = 'ident' | 'number' | 'string' | 'punct' | 'newline' | 'eof';
+
+interface Token {
+  type: TokenType;
+  value: string;
+  // Template strings and heredocs keep their literal and interpolated parts
+  parts?: (string | { source: string; line: number; column: number })[];
+  line: number;
+  column: number;
+}
+
+const PUNCTUATION = ['...', '==', '!=', '<=', '>=', '&&', '||', '=>', '{', '}', '[', ']', '(', ')', '=', ',', '.', ':', '?', '!', '<', '>', '+', '-', '*', '/', '%'];
+
+const BINARY_PRECEDENCE: Record<string, number> = {
+  '||': 1,
+  '&&': 2,
+  '==': 3,
+  '!=': 3,
+  '<': 4,
+  '>': 4,
+  '<=': 4,
+  '>=': 4,
+  '+': 5,
+  '-': 5,
+  '*': 6,
+  '/': 6,
+  '%': 6
+};
+
+function tokenize(source: string, fileName: string, firstLine: number, firstColumn = 1): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+  let line = firstLine;
+  let column = firstColumn;
+
+  const fail = (message: string): never => {
+    throw new Error(`${fileName}:${line}:${column}: ${message}`);
+  };
+  const advance = (count: number) => {
+    for (let n = 0; n < count; n++) {
+      if (source[i] === '\n') {
+        line++;
+        column = 1;
+      } else {
+        column++;
+      }
+      i++;
+    }
+  };
+
+  while (i < source.length) {
+    const char = source[i];
+    const start = { line, column };
+
+    if (char === '\n') {
+      tokens.push({ type: 'newline', value: '\n', ...start });
+      advance(1);
+    } else if (char === ' ' || char === '\t' || char === '\r') {
+      advance(1);
+    } else if (char === '#' || source.startsWith('//', i)) {
+      while (i < source.length && source[i] !== '\n') advance(1);
+    } else if (source.startsWith('/*', i)) {
+      const end = source.indexOf('*/', i + 2);
+      if (end < 0) fail('Unterminated comment');
+      advance(end + 2 - i);
+    } else if (/[A-Za-z_]/.test(char)) {
+      const match = /^[A-Za-z_][A-Za-z0-9_-]*/.exec(source.slice(i)) as RegExpExecArray;
+      tokens.push({ type: 'ident', value: match[0], ...start });
+      advance(match[0].length);
+    } else if (/[0-9]/.test(char)) {
+      const match = /^[0-9]+(\.[0-9]+)?([eE][+-]?[0-9]+)?/.exec(source.slice(i)) as RegExpExecArray;
+      tokens.push({ type: 'number', value: match[0], ...start });
+      advance(match[0].length);
+    } else if (char === '"') {
+      advance(1);
+      const parts = readTemplate(source.length, true);
+      if (source[i] !== '"') fail('Unterminated string');
+      advance(1);
+      tokens.push({ type: 'string', value: '', parts, ...start });
+    } else if (source.startsWith('<<', i) && /^<<-?[A-Za-z_]/.test(source.slice(i, i + 4))) {
+      const match = /^<<(-?)([A-Za-z_][A-Za-z0-9_]*)[^\n]*\n/.exec(source.slice(i));
+      if (!match) fail('Malformed heredoc');
+      const [header, indented, marker] = match as RegExpExecArray;
+      advance(header.length);
+
+      const end = new RegExp(`^[ \\t]*${marker}[ \\t]*$`, 'm');
+      const rest = source.slice(i);
+      const endMatch = end.exec(rest);
+      if (!endMatch) fail(`Heredoc ${marker} is not terminated`);
+      const bodyEnd = i + (endMatch as RegExpExecArray).index;
+
+      const parts = readTemplate(bodyEnd, false);
+      advance(bodyEnd - i + (endMatch as RegExpExecArray)[0].length);
+      tokens.push({ type: 'string', value: '', parts: indented ? dedent(parts) : parts, ...start });
+    } else {
+      const rest = source.slice(i, i + 3);
+      const punct = PUNCTUATION.find(p => rest.startsWith(p));
+      if (!punct) fail(`Unexpected character ${JSON.stringify(char)}`);
+      tokens.push({ type: 'punct', value: punct as string, ...start });
+      advance((punct as string).length);
+    }
+  }
+
+  tokens.push({ type: 'eof', value: '', line, column });
+  return tokens;
+
+  // Literal text and ${...} interpolations up to the closing quote or the heredoc end; %{...} directives are kept as text
+  function readTemplate(end: number, quoted: boolean): NonNullable<Token['parts']> {
+    const parts: NonNullable<Token['parts']> = [];
+    const done = () => i >= end || (quoted && (source[i] === '"' || source[i] === '\n'));
+    let text = '';
+
+    while (!done()) {
+      const c = source[i];
+      if (quoted && c === '\\') {
+        const next = source[i + 1];
+        const escapes: Record<string, string> = { n: '\n', r: '\r', t: '\t', '"': '"', '\\': '\\' };
+        if (next === 'u' || next === 'U') {
+          const length = next === 'u' ? 4 : 8;
+          text += String.fromCodePoint(parseInt(source.slice(i + 2, i + 2 + length), 16));
+          advance(2 + length);
+        } else {
+          text += escapes[next] ?? next;
+          advance(2);
+        }
+      } else if ((c === '$' || c === '%') && source[i + 1] === c && source[i + 2] === '{') {
+        text += `${c}{`;
+        advance(3);
+      } else if (c === '$' && source[i + 1] === '{') {
+        if (text) parts.push(text);
+        text = '';
+        advance(2);
+        const begin = { line, column };
+        const close = findClosingBrace(i);
+        if (close < 0) fail('Unterminated interpolation');
+        parts.push({ source: source.slice(i, close).replace(/^~|~$/g, ''), ...begin });
+        advance(close + 1 - i);
+      } else {
+        text += c;
+        advance(1);
+      }
+    }
+
+    if (text) parts.push(text);
+    return parts;
+  }
+
+  // Index of the brace closing an interpolation, skipping nested braces and strings
+  function findClosingBrace(from: number): number {
+    let depth = 0;
+    for (let j = from; j < source.length; j++) {
+      const c = source[j];
+      if (c === '"') {
+        for (j++; j < source.length && source[j] !== '"'; j++) {
+          if (source[j] === '\\') j++;
+        }
+      } else if (c === '{') {
+        depth++;
+      } else if (c === '}') {
+        if (depth === 0) return j;
+        depth--;
+      }
+    }
+    return -1;
+  }
+}
+
+// <<- heredocs drop the indentation shared by every line
+function dedent(parts: NonNullable<Token['parts']>): NonNullable<Token['parts']> {
+  const text = parts.map(part => (typeof part === 'string' ? part : 'x')).join('');
+  const indents = text.split('\n').filter(line => line.trim()).map(line => (/^[ \t]*/.exec(line) as RegExpExecArray)[0].length);
+  const shared = indents.length > 0 ? Math.min(...indents) : 0;
+  if (shared === 0) return parts;
+
+  const pattern = new RegExp(`(^|\\n)[ \\t]{0,${shared}}`, 'g');
+  return parts.map((part, index) => {
+    if (typeof part !== 'string') return part;
+    const afterInterpolation = index > 0 && typeof parts[index - 1] !== 'string';
+    return part.replace(pattern, (match, newline: string, offset: number) => (afterInterpolation && offset === 0 ? match : newline));
+  });
+}
+
+class HclParser {
+  private position = 0;
+
+  constructor(private tokens: Token[], private fileName: string) {}
+
+  parseFile(): HclBody {
+    const body = this.parseBody();
+    if (this.peek().type !== 'eof') this.fail(`Unexpected ${this.describe(this.peek())}`);
+    return body;
+  }
+
+  parseExpressionOnly(): HclExpression {
+    this.skipNewlines();
+    const expression = this.parseExpression();
+    this.skipNewlines();
+    if (this.peek().type !== 'eof') this.fail(`Unexpected ${this.describe(this.peek())} in interpolation`);
+    return expression;
+  }
+
+  private parseBody(): HclBody {
+    const body: HclBody = { attributes: {}, blocks: [] };
+
+    for (;;) {
+      this.skipNewlines();
+      const token = this.peek();
+      if (token.type === 'eof' || this.isPunct('}')) return body;
+      if (token.type !== 'ident') this.fail(`Expected an attribute or block name, found ${this.describe(token)}`);
+      this.next();
+
+      if (this.isPunct('=')) {
+        this.next();
+        body.attributes[token.value] = { expression: this.parseExpression(), line: token.line };
+        this.endOfItem();
+        continue;
+      }
+
+      const labels: string[] = [];
+      while (this.peek().type === 'string' || this.peek().type === 'ident') {
+        const label = this.next();
+        labels.push(label.type === 'ident' ? label.value : (label.parts || []).map(part => (typeof part === 'string' ? part : '')).join(''));
+      }
+      this.expectPunct('{');
+      const inner = this.parseBody();
+      this.expectPunct('}');
+      body.blocks.push({ type: token.value, labels, ...inner, line: token.line });
+      this.endOfItem();
+    }
+  }
+
+  private endOfItem(): void {
+    const token = this.peek();
+    if (token.type === 'newline') this.next();
+    else if (token.type !== 'eof' && !this.isPunct('}')) this.fail(`Expected a new line, found ${this.describe(token)}`);
+  }
+
+  private parseExpression(): HclExpression {
+    const condition = this.parseBinary(1);
+    if (!this.isPunct('?')) return condition;
+
+    this.next();
+    this.skipNewlines();
+    const whenTrue = this.parseExpression();
+    this.skipNewlines();
+    this.expectPunct(':');
+    this.skipNewlines();
+    const whenFalse = this.parseExpression();
+    return { kind: 'operation', operands: [condition, whenTrue, whenFalse] };
+  }
+
+  private parseBinary(minPrecedence: number): HclExpression {
+    let left = this.parseUnary();
+    for (;;) {
+      const token = this.peek();
+      const precedence = token.type === 'punct' ? BINARY_PRECEDENCE[token.value] : undefined;
+      if (precedence === undefined || precedence < minPrecedence) return left;
+      this.next();
+      this.skipNewlines();
+      const right = this.parseBinary(precedence + 1);
+      left = { kind: 'operation', operands: [left, right] };
+    }
+  }
+
+  private parseUnary(): HclExpression {
+    if (this.isPunct('-') || this.isPunct('!')) {
+      const operator = this.next().value;
+      const operand = this.parseUnary();
+      if (operator === '-' && operand.kind === 'literal' && typeof operand.value === 'number') {
+        return { kind: 'literal', value: -operand.value };
+      }
+      return { kind: 'operation', operands: [operand] };
+    }
+    return this.parsePostfix(this.parsePrimary());
+  }
+
+  // Attribute access, indexing and splats after a primary expression
+  private parsePostfix(expression: HclExpression): HclExpression {
+    let result = expression;
+    for (;;) {
+      if (this.isPunct('.')) {
+        this.next();
+        const step = this.next();
+        let name = step.value;
+        if (step.type === 'punct' && step.value === '*') name = '*';
+        else if (step.type !== 'ident' && step.type !== 'number') this.fail(`Expected an attribute name, found ${this.describe(step)}`);
+        result = this.extend(result, name);
+      } else if (this.isPunct('[')) {
+        this.next();
+        this.skipNewlines();
+        let index: HclExpression;
+        if (this.isPunct('*')) {
+          this.next();
+          index = { kind: 'literal', value: '*' };
+        } else {
+          index = this.parseExpression();
+        }
+        this.skipNewlines();
+        this.expectPunct(']');
+        result = this.extend(result, index);
+      } else {
+        return result;
+      }
+    }
+  }
+
+  private extend(expression: HclExpression, step: string | HclExpression): HclExpression {
+    if (expression.kind === 'traversal') return { ...expression, path: [...expression.path, step] };
+    return { kind: 'operation', operands: typeof step === 'string' ? [expression] : [expression, step] };
+  }
+
+  private parsePrimary(): HclExpression {
+    const token = this.next();
+
+    switch (token.type) {
+      case 'number':
+        return { kind: 'literal', value: Number(token.value) };
+      case 'string':
+        return this.template(token);
+      case 'ident': {
+        if (token.value === 'true' || token.value === 'false') return { kind: 'literal', value: token.value === 'true' };
+        if (token.value === 'null') return { kind: 'literal', value: null };
+        if (this.isPunct('(')) return this.parseCall(token.value);
+        return { kind: 'traversal', root: token.value, path: [] };
+      }
+      case 'punct':
+        if (token.value === '(') {
+          this.skipNewlines();
+          const inner = this.parseExpression();
+          this.skipNewlines();
+          this.expectPunct(')');
+          return inner;
+        }
+        if (token.value === '[') return this.parseTuple();
+        if (token.value === '{') return this.parseObject();
+        break;
+    }
+
+    return this.fail(`Unexpected ${this.describe(token)}`, token);
+  }
+
+  private parseCall(name: string): HclExpression {
+    this.expectPunct('(');
+    const args: HclExpression[] = [];
+    this.skipNewlines();
+    while (!this.isPunct(')')) {
+      args.push(this.parseExpression());
+      this.skipNewlines();
+      if (this.isPunct('...')) this.next();
+      if (!this.isPunct(',')) break;
+      this.next();
+      this.skipNewlines();
+    }
+    this.skipNewlines();
+    this.expectPunct(')');
+    return { kind: 'call', name, args };
+  }
+
+  private parseTuple(): HclExpression {
+    this.skipNewlines();
+    if (this.isIdent('for')) return this.parseFor(']');
+
+    const items: HclExpression[] = [];
+    while (!this.isPunct(']')) {
+      items.push(this.parseExpression());
+      this.skipNewlines();
+      if (!this.isPunct(',')) break;
+      this.next();
+      this.skipNewlines();
+    }
+    this.skipNewlines();
+    this.expectPunct(']');
+    return { kind: 'tuple', items };
+  }
+
+  private parseObject(): HclExpression {
+    this.skipNewlines();
+    if (this.isIdent('for')) return this.parseFor('}');
+
+    const entries: { key: HclExpression; value: HclExpression }[] = [];
+    while (!this.isPunct('}')) {
+      const key = this.parseExpression();
+      if (!this.isPunct('=') && !this.isPunct(':')) this.fail(`Expected = or : after object key, found ${this.describe(this.peek())}`);
+      this.next();
+      this.skipNewlines();
+      entries.push({ key, value: this.parseExpression() });
+      if (this.isPunct(',')) this.next();
+      this.skipNewlines();
+    }
+    this.expectPunct('}');
+    return { kind: 'object', entries };
+  }
+
+  // [for k, v in collection : value if condition] and the {for ... : key => value} form
+  private parseFor(closing: ']' | '}'): HclExpression {
+    this.next();
+    const variables = [this.expectIdent()];
+    if (this.isPunct(',')) {
+      this.next();
+      variables.push(this.expectIdent());
+    }
+    if (!this.isIdent('in')) this.fail(`Expected in, found ${this.describe(this.peek())}`);
+    this.next();
+
+    const operands = [this.parseExpression()];
+    this.skipNewlines();
+    this.expectPunct(':');
+    this.skipNewlines();
+    operands.push(this.parseExpression());
+    this.skipNewlines();
+
+    if (closing === '}' && this.isPunct('=>')) {
+      this.next();
+      this.skipNewlines();
+      operands.push(this.parseExpression());
+      if (this.isPunct('...')) this.next();
+      this.skipNewlines();
+    }
+    if (this.isIdent('if')) {
+      this.next();
+      operands.push(this.parseExpression());
+      this.skipNewlines();
+    }
+    this.expectPunct(closing);
+    return { kind: 'for', variables, operands };
+  }
+
+  private template(token: Token): HclExpression {
+    const parts = (token.parts || []).map(part => {
+      if (typeof part === 'string') return part;
+      const parser = new HclParser(tokenize(part.source, this.fileName, part.line, part.column), this.fileName);
+      return parser.parseExpressionOnly();
+    });
+
+    // "${var.x}" on its own is the expression itself
+    if (parts.length === 1 && typeof parts[0] !== 'string') return parts[0];
+    if (parts.every(part => typeof part === 'string')) return { kind: 'literal', value: parts.join('') };
+    return { kind: 'template', parts };
+  }
+
+  private skipNewlines(): void {
+    while (this.peek().type === 'newline') this.next();
+  }
+
+  private peek(): Token {
+    return this.tokens[this.position];
+  }
+
+  private next(): Token {
+    const token = this.tokens[this.position];
+    if (token.type !== 'eof') this.position++;
+    return token;
+  }
+
+  private isPunct(value: string): boolean {
+    const token = this.peek();
+    return token.type === 'punct' && token.value === value;
+  }
+
+  private isIdent(value: string): boolean {
+    const token = this.peek();
+    return token.type === 'ident' && token.value === value;
+  }
+
+  private expectPunct(value: string): void {
+    if (!this.isPunct(value)) this.fail(`Expected ${value}, found ${this.describe(this.peek())}`);
+    this.next();
+  }
+
+  private expectIdent(): string {
+    const token = this.next();
+    if (token.type !== 'ident') this.fail(`Expected a name, found ${this.describe(token)}`, token);
+    return token.value;
+  }
+
+  private describe(token: Token): string {
+    switch (token.type) {
+      case 'eof':
+        return 'end of file';
+      case 'newline':
+        return 'new line';
+      case 'string':
+        return 'string';
+      default:
+        return `"${token.value}"`;
+    }
+  }
+
+  private fail(message: string, token = this.peek()): never {
+    throw new Error(`${this.fileName}:${token.line}:${token.column}: ${message}`);
+  }
+}
@@ -0,0 +1,40 @@
+import { ComponentRegistry } from '../components/core/component-registry';
+import { buildCanvasFromImport } from './import-model';
+import { importMermaid } from './mermaid-import';
+
+describe('buildCanvasFromImport', () => {
+  beforeAll(async () => {
+    await ComponentRegistry.getInstance().initialize();
+  });
+
+  it('keeps shape ids apart for source ids that only differ in case or punctuation', () => {
+    const canvas = buildCanvasFromImport(importMermaid('flowchart TD\n  A[Web] --> a[(DB)]\n  web_1 --> web-1'));
+
+    expect(canvas.items.map(item => item.id)).toEqual(['shape:A', 'shape:a', 'shape:web-1', 'shape:web-1-2']);
+    expect(canvas.connections.map(connection => [connection.from, connection.to])).toEqual([
+      ['shape:A', 'shape:a'],
+      ['shape:web-1', 'shape:web-1-2']
+    ]);
+  });
+
+  it('points children and connections at the renamed shapes', () => {
+    const canvas = buildCanvasFromImport({
+      name: 'Shop',
+      description: '',
+      resources: [
+        { id: 'net.a', name: 'Network', componentId: 'generic-vpc', properties: {} },
+        { id: 'net_a', name: 'Other network', componentId: 'generic-vpc', properties: {} },
+        { id: 'web', name: 'Web', componentId: 'generic-compute', properties: {}, parentId: 'net_a' }
+      ],
+      links: [{ from: 'web', to: 'net_a' }],
+      parameters: [],
+      warnings: []
+    });
+    const byId = new Map(canvas.items.map(item => [item.id, item]));
+
+    expect(byId.get('shape:web')?.parentId).toBe('shape:net-a-2');
+    expect(byId.get('shape:net-a-2')?.children).toEqual(['shape:web']);
+    expect(byId.get('shape:net-a')?.children).toEqual([]);
+    expect(canvas.connections[0].to).toBe('shape:net-a-2');
+  });
+});
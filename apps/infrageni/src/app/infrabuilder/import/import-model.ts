@@ -0,0 +1,279 @@
+import { ComponentRegistry } from '../components/core/component-registry';
+import {
+  ComponentRelationship,
+  InfrastructurePattern,
+  PatternCategory,
+  PatternComplexity,
+  PatternParameter,
+  PatternStatus,
+  RelationshipType
+} from '../patterns/core/pattern-types';
+import { ExportData } from '../export/export-utils';
+import { PLAN_CHANGE_META_KEY } from '../shapes/base';
+
+// Provider-neutral result of reverse-engineering infrastructure code.
+// Every importer produces this shape, and it becomes either an InfrastructurePattern for the
+// pattern library or canvas items that can be dropped straight onto the diagram.
+
+// Planned change to a resource, when the import comes from a plan
+export type ImportedChange = 'create' | 'update' | 'delete' | 'replace';
+
+export interface ImportedResource {
+  id: string;
+  name: string;
+  componentId: string;
+  properties: Record<string, unknown>;
+  parentId?: string;
+  // Where the resource came from, e.g. aws_instance.web or main.tf:12
+  source?: string;
+  change?: ImportedChange;
+  // Position and size in the source drawing, relative to the parent; others are laid out on a grid
+  bounds?: { x: number; y: number; w: number; h: number };
+}
+
+export interface ImportedLink {
+  from: string;
+  to: string;
+  label?: string;
+  type?: RelationshipType;
+}
+
+export interface ImportedDiagram {
+  name: string;
+  description: string;
+  resources: ImportedResource[];
+  links: ImportedLink[];
+  parameters: PatternParameter[];
+  warnings: string[];
+}
+
+export type ImportedCanvas = Pick<ExportData, 'items' | 'connections'>;
+
+interface LayoutBox {
+  x: number;
+  y: number;
+  w: number;
+  h: number;
+}
+
+const NODE_SIZE = { w: 120, h: 80 };
+const GAP = 40;
+const PADDING = 40;
+// Containers keep room for their label above the first row
+const HEADER = 40;
+
+// Canvas items with tldraw-style coordinates: children are positioned relative to their container
+export function buildCanvasFromImport(diagram: ImportedDiagram): ImportedCanvas {
+  const layout = layoutImport(diagram);
+  const ids = canvasIds(diagram.resources);
+  const canvasId = (id: string) => ids.get(id) || baseCanvasId(id);
+  const items = diagram.resources.map(resource => {
+    const box = layout.get(resource.id) as LayoutBox;
+    const children = diagram.resources.filter(child => child.parentId === resource.id).map(child => canvasId(child.id));
+    const isBoundingBox = isContainer(resource);
+
+    return {
+      id: canvasId(resource.id),
+      label: resource.name,
+      x: box.x,
+      y: box.y,
+      key: `${resource.componentId}-${canvasId(resource.id)}`,
+      parentId: resource.parentId ? canvasId(resource.parentId) : undefined,
+      isBoundingBox,
+      children: isBoundingBox ? children : undefined,
+      properties: {
+        ...resource.properties,
+        componentId: resource.componentId,
+        w: box.w,
+        h: box.h,
+        // Placed shapes keep it in meta, where their border picks it up
+        ...(resource.change ? { [PLAN_CHANGE_META_KEY]: resource.change } : {})
+      }
+    };
+  });
+
+  return {
+    items,
+    connections: diagram.links.map((link, index) => ({
+      id: `connection-${index + 1}`,
+      from: canvasId(link.from),
+      to: canvasId(link.to),
+      label: link.label
+    }))
+  };
+}
+
+// Pattern with containment relationships for nesting and absolute component positions
+export function buildPatternFromImport(
+  diagram: ImportedDiagram,
+  options: { id?: string; category?: PatternCategory; author?: string; tags?: string[] } = {}
+): InfrastructurePattern {
+  const layout = layoutImport(diagram);
+  const byId = new Map(diagram.resources.map(resource => [resource.id, resource]));
+  const absolute = (resource: ImportedResource): { x: number; y: number } => {
+    const box = layout.get(resource.id) as LayoutBox;
+    const parent = resource.parentId ? byId.get(resource.parentId) : undefined;
+    if (!parent) return { x: box.x, y: box.y };
+    const origin = absolute(parent);
+    return { x: origin.x + box.x, y: origin.y + box.y };
+  };
+
+  const relationships: ComponentRelationship[] = [];
+  for (const resource of diagram.resources) {
+    if (resource.parentId) {
+      relationships.push(relationship(`${resource.parentId}-contains-${resource.id}`, resource.parentId, resource.id, RelationshipType.CONTAINMENT));
+    }
+  }
+  diagram.links.forEach((link, index) => {
+    relationships.push(relationship(`link-${index + 1}`, link.from, link.to, link.type || RelationshipType.DEPENDENCY, link.label));
+  });
+
+  const providers = Array.from(new Set(diagram.resources.map(resource => resource.componentId.split('-')[0])))
+    .filter(provider => provider !== 'generic')
+    .sort();
+  const now = new Date().toISOString();
+  const count = diagram.resources.length;
+
+  return {
+    id: options.id || slug(diagram.name) || 'imported-pattern',
+    name: diagram.name,
+    description: diagram.description,
+    version: '1.0.0',
+    category: options.category || PatternCategory.WEB_APPLICATIONS,
+    complexity: count <= 5 ? PatternComplexity.BEGINNER
+      : count <= 15 ? PatternComplexity.INTERMEDIATE
+        : count <= 30 ? PatternComplexity.ADVANCED
+          : PatternComplexity.EXPERT,
+    status: PatternStatus.DRAFT,
+    components: diagram.resources.map(resource => ({
+      componentId: resource.componentId,
+      instanceId: resource.id,
+      displayName: resource.name,
+      position: absolute(resource),
+      configuration: { ...resource.properties },
+      required: true,
+      dependencies: diagram.links.filter(link => link.from === resource.id).map(link => link.to),
+      metadata: { notes: importNotes(resource) }
+    })),
+    relationships,
+    parameters: diagram.parameters,
+    preview: {
+      thumbnail: '',
+      description: diagram.description,
+      features: [],
+      benefits: [],
+      useCases: []
+    },
+    documentation: {
+      overview: diagram.description,
+      architecture: { description: diagram.description, components: [], dataFlow: '', keyDecisions: [] },
+      deployment: { prerequisites: [], steps: [], verification: [], rollback: [] },
+      configuration: { parameters: [], environments: [], secrets: [], customization: [] },
+      security: { overview: '', threats: [], controls: [], compliance: [], bestPractices: [] },
+      monitoring: { overview: '', metrics: [], alerts: [], dashboards: [], logs: [] },
+      troubleshooting: { commonIssues: [], diagnostics: [], support: { contacts: [], resources: [], escalation: [] } },
+      references: []
+    },
+    tags: options.tags || ['imported'],
+    author: options.author || 'Imported',
+    license: 'MIT',
+    createdAt: now,
+    updatedAt: now,
+    providers: providers.length > 0 ? providers : ['generic'],
+    requiredFeatures: [],
+    changelog: [],
+    migrations: []
+  };
+}
+
+function importNotes(resource: ImportedResource): string | undefined {
+  const notes = [
+    resource.source ? `Imported from ${resource.source}` : '',
+    resource.change ? `Planned change: ${resource.change}` : ''
+  ].filter(Boolean);
+  return notes.length > 0 ? notes.join('. ') : undefined;
+}
+
+function relationship(id: string, from: string, to: string, type: RelationshipType, description?: string): ComponentRelationship {
+  return {
+    id,
+    fromInstanceId: from,
+    toInstanceId: to,
+    relationshipType: type,
+    configuration: { bidirectional: false, protocols: [] },
+    metadata: { description }
+  };
+}
+
+// Containers size themselves around a grid of their children; top-level resources form one grid too
+function layoutImport(diagram: ImportedDiagram): Map<string, LayoutBox> {
+  // Drawings keep the geometry they were drawn with
+  if (diagram.resources.length > 0 && diagram.resources.every(resource => resource.bounds)) {
+    return new Map(diagram.resources.map(resource => [resource.id, { ...(resource.bounds as LayoutBox) }]));
+  }
+
+  const boxes = new Map<string, LayoutBox>();
+  const childrenOf = new Map<string | undefined, ImportedResource[]>();
+  for (const resource of diagram.resources) {
+    childrenOf.set(resource.parentId, [...(childrenOf.get(resource.parentId) || []), resource]);
+  }
+
+  const measure = (resource: ImportedResource): LayoutBox => {
+    const children = childrenOf.get(resource.id) || [];
+    if (children.length === 0) {
+      return isContainer(resource) ? { x: 0, y: 0, w: 300, h: 200 } : { x: 0, y: 0, ...NODE_SIZE };
+    }
+    const size = arrange(children, PADDING, PADDING + HEADER);
+    return { x: 0, y: 0, w: size.w + PADDING, h: size.h + PADDING };
+  };
+
+  // Places resources in rows of roughly square proportions; returns the extent used
+  const arrange = (resources: ImportedResource[], left: number, top: number): { w: number; h: number } => {
+    const sized = resources.map(resource => ({ resource, box: measure(resource) }));
+    const columns = Math.max(1, Math.ceil(Math.sqrt(sized.length)));
+    let y = top;
+    let width = left;
+
+    for (let row = 0; row * columns < sized.length; row++) {
+      const cells = sized.slice(row * columns, (row + 1) * columns);
+      let x = left;
+      for (const cell of cells) {
+        boxes.set(cell.resource.id, { ...cell.box, x, y });
+        x += cell.box.w + GAP;
+      }
+      width = Math.max(width, x - GAP);
+      y += Math.max(...cells.map(cell => cell.box.h)) + GAP;
+    }
+
+    return { w: width, h: y - GAP };
+  };
+
+  arrange(childrenOf.get(undefined) || [], 0, 0);
+  return boxes;
+}
+
+function isContainer(resource: ImportedResource): boolean {
+  return !!ComponentRegistry.getInstance().getComponent(resource.componentId)?.config.isContainer;
+}
+
+// Shape ids keep the case of the source id; ids that only differ in punctuation get a numbered suffix
+function canvasIds(resources: ImportedResource[]): Map<string, string> {
+  const ids = new Map<string, string>();
+  const taken = new Set<string>();
+  for (const resource of resources) {
+    const base = baseCanvasId(resource.id);
+    let id = base;
+    for (let suffix = 2; taken.has(id); suffix++) id = `${base}-${suffix}`;
+    taken.add(id);
+    ids.set(resource.id, id);
+  }
+  return ids;
+}
+
+function baseCanvasId(id: string): string {
+  return `shape:${id.replace(/[^A-Za-z0-9]+/g, '-').replace(/^-+|-+$/g, '') || 'resource'}`;
+}
+
+function slug(value: string): string {
+  return value.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '');
+}
@@ -0,0 +1,14 @@
+export * from './hcl';
+export * from './import-model';
+export * from './resource-graph';
+export * from './terraform-graph';
+export * from './terraform-import';
+export * from './terraform-state';
+export * from './cloudformation-import';
+export * from './kubernetes-import';
+export * from './compose-import';
+export * from './drawio-import';
+export * from './mermaid-import';
+export * from './dot-import';
+export * from './plantuml-import';
+export * from './files';
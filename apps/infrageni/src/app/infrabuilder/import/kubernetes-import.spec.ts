@@ -0,0 +1,145 @@
+import { ComponentRegistry } from '../components/core/component-registry';
+import { importKubernetes } from './kubernetes-import';
+
+const manifests = `apiVersion: v1
+kind: Namespace
+metadata:
+  name: shop
+---
+apiVersion: apps/v1
+kind: Deployment
+metadata:
+  name: web
+  namespace: shop
+spec:
+  replicas: 3
+  template:
+    metadata:
+      labels:
+        app: web
+    spec:
+      containers:
+        - name: web
+          image: shop/web:1.2
+          ports:
+            - containerPort: 3000
+          resources:
+            requests:
+              cpu: 250m
+      volumes:
+        - name: uploads
+          persistentVolumeClaim:
+            claimName: uploads
+---
+apiVersion: v1
+kind: Service
+metadata:
+  name: web
+  namespace: shop
+spec:
+  selector:
+    app: web
+  ports:
+    - port: 80
+---
+apiVersion: networking.k8s.io/v1
+kind: Ingress
+metadata:
+  name: public
+  namespace: shop
+spec:
+  tls:
+    - hosts: [shop.example.com]
+  rules:
+    - http:
+        paths:
+          - path: /api
+            backend:
+              service:
+                name: web
+          - path: /admin
+            backend:
+              service:
+                name: admin
+---
+apiVersion: v1
+kind: PersistentVolumeClaim
+metadata:
+  name: uploads
+  namespace: shop
+spec:
+  accessModes: [ReadWriteOnce]
+  resources:
+    requests:
+      storage: 10Gi
+---
+apiVersion: v1
+kind: ConfigMap
+metadata:
+  name: settings
+  namespace: shop
+---
+apiVersion: example.com/v1
+kind: Widget
+metadata:
+  name: spinner
+  namespace: shop
+`;
+
+describe('importKubernetes', () => {
+  beforeAll(async () => {
+    await ComponentRegistry.getInstance().initialize();
+  });
+
+  it('draws workloads, services, ingresses and claims inside their namespace', () => {
+    const diagram = importKubernetes(manifests, { file: 'shop/manifests.yaml' });
+    const components = Object.fromEntries(diagram.resources.map(resource => [resource.id, [resource.componentId, resource.parentId]]));
+
+    expect(diagram.name).toBe('Shop');
+    expect(diagram.description).toBe('Imported from 7 Kubernetes objects in 1 namespace');
+    expect(components).toEqual({
+      'namespace/shop': ['generic-vpc', undefined],
+      'shop/deployment/web': ['generic-compute', 'namespace/shop'],
+      'shop/service/web': ['generic-load-balancer', 'namespace/shop'],
+      'shop/ingress/public': ['generic-load-balancer', 'namespace/shop'],
+      'shop/persistentvolumeclaim/uploads': ['generic-storage', 'namespace/shop']
+    });
+    expect(diagram.resources.find(resource => resource.id === 'shop/deployment/web')).toMatchObject({
+      properties: { containerized: true, kind: 'Deployment', image: 'shop/web:1.2', containerPort: 3000, replicas: 3, cpu: '250m' },
+      source: 'shop/manifests.yaml:6'
+    });
+  });
+
+  it('links services by selector, ingresses by backend and workloads to their claims', () => {
+    const diagram = importKubernetes(manifests);
+
+    expect(diagram.links.map(link => [link.from, link.to, link.label])).toEqual([
+      ['shop/service/web', 'shop/deployment/web', undefined],
+      ['shop/ingress/public', 'shop/service/web', '/api'],
+      ['shop/deployment/web', 'shop/persistentvolumeclaim/uploads', undefined]
+    ]);
+    expect(diagram.warnings).toEqual([
+      'Unsupported kind Widget (spinner) was skipped',
+      'Ingress public routes to Service admin, which is not in the input'
+    ]);
+  });
+
+  it('draws pods owned by a workload in the input as that workload', () => {
+    const diagram = importKubernetes(JSON.stringify({
+      apiVersion: 'v1',
+      kind: 'List',
+      items: [
+        { kind: 'Deployment', metadata: { name: 'api', uid: 'd1' }, spec: { template: { spec: { containers: [{ name: 'api' }] } } } },
+        { kind: 'ReplicaSet', metadata: { name: 'api-7f9', uid: 'r1', ownerReferences: [{ kind: 'Deployment', name: 'api', uid: 'd1' }] } },
+        { kind: 'Pod', metadata: { name: 'api-7f9-x2', ownerReferences: [{ kind: 'ReplicaSet', name: 'api-7f9', uid: 'r1' }] } }
+      ]
+    }));
+
+    expect(diagram.resources.map(resource => resource.id)).toEqual(['deployment/api']);
+  });
+
+  it('rejects Helm templates and inputs without objects', () => {
+    expect(() => importKubernetes('image: {{ .Values.image }}', { file: 'deployment.yaml' })).toThrow(/^deployment\.yaml: Helm templates are not supported/);
+    expect(() => importKubernetes('# nothing here\n')).toThrow('manifest.yaml: No Kubernetes objects found');
+  });
+});
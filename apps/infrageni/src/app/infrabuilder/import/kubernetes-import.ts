@@ -0,0 +1,382 @@
+import { LineCounter, isMap, isSeq, parseAllDocuments } from 'yaml';
+import { RelationshipType } from '../patterns/core/pattern-types';
+import { ImportedDiagram, ImportedLink, ImportedResource } from './import-model';
+import { humanize } from './resource-graph';
+
+// Reverse-engineers a diagram from Kubernetes manifests: multi-document YAML, JSON, or the
+// List that `kubectl get -o yaml` prints. Namespaces become containers, workloads compute
+// nodes, Services and Ingresses load balancers and PersistentVolumeClaims storage. Arrows come
+// from Service label selectors, Ingress backends and the claims a pod template mounts.
+// Pods and ReplicaSets owned by a workload in the same input are drawn as that workload.
+
+export interface KubernetesImportOptions {
+  name?: string;
+  // File name used in error messages and resource sources
+  file?: string;
+}
+
+interface KubernetesObject {
+  kind: string;
+  name: string;
+  namespace?: string;
+  manifest: Record<string, unknown>;
+  source: string;
+}
+
+const WORKLOAD_KINDS = new Set(['Deployment', 'StatefulSet', 'DaemonSet', 'ReplicaSet', 'ReplicationController', 'Job', 'CronJob', 'Pod']);
+
+// Objects that configure, secure or scale the drawn ones and never need a warning
+const SUPPORTING_KINDS = new Set([
+  'ConfigMap', 'Secret', 'ServiceAccount', 'Role', 'RoleBinding', 'ClusterRole', 'ClusterRoleBinding',
+  'HorizontalPodAutoscaler', 'PodDisruptionBudget', 'NetworkPolicy', 'LimitRange', 'ResourceQuota',
+  'Endpoints', 'EndpointSlice', 'ControllerRevision', 'Event', 'PersistentVolume', 'StorageClass',
+  'CustomResourceDefinition', 'PriorityClass', 'IngressClass', 'Lease', 'Node', 'VerticalPodAutoscaler',
+  'MutatingWebhookConfiguration', 'ValidatingWebhookConfiguration', 'APIService'
+]);
+
+// Kinds that exist once per cluster rather than per namespace
+const CLUSTER_KINDS = new Set([
+  'Namespace', 'Node', 'PersistentVolume', 'StorageClass', 'ClusterRole', 'ClusterRoleBinding',
+  'CustomResourceDefinition', 'PriorityClass', 'IngressClass', 'MutatingWebhookConfiguration',
+  'ValidatingWebhookConfiguration', 'APIService'
+]);
+
+// Import one or more manifest files
+export function importKubernetes(source: string, options: KubernetesImportOptions = {}): ImportedDiagram {
+  return new KubernetesImporter(source, options).run();
+}
+
+class KubernetesImporter {
+  private file: string;
+  private objects: KubernetesObject[] = [];
+  private resources = new Map<string, ImportedResource>();
+  private links: ImportedLink[] = [];
+  private warnings: string[] = [];
+
+  constructor(private source: string, private options: KubernetesImportOptions) {
+    this.file = options.file || 'manifest.yaml';
+  }
+
+  run(): ImportedDiagram {
+    this.parse();
+    if (this.objects.length === 0) {
+      throw new Error(`${this.file}: No Kubernetes objects found`);
+    }
+
+    // Namespaced objects without one are applied to the current namespace; call it default
+    // when the input names namespaces elsewhere, otherwise leave everything at the top level
+    if (this.objects.some(object => object.namespace || object.kind === 'Namespace')) {
+      for (const object of this.objects) {
+        if (!object.namespace && !CLUSTER_KINDS.has(object.kind)) object.namespace = 'default';
+        if (object.kind === 'Namespace') this.addNamespace(object.name);
+      }
+    }
+
+    const owned = this.ownedObjects();
+    for (const object of this.objects) {
+      if (owned.has(object)) continue;
+
+      if (WORKLOAD_KINDS.has(object.kind)) {
+        this.addWorkload(object);
+      } else if (object.kind === 'Service') {
+        this.addService(object);
+      } else if (object.kind === 'Ingress') {
+        this.addIngress(object);
+      } else if (object.kind === 'PersistentVolumeClaim') {
+        this.addClaim(object);
+      } else if (object.kind !== 'Namespace' && !SUPPORTING_KINDS.has(object.kind)) {
+        this.warnings.push(`Unsupported kind ${object.kind} (${object.name}) was skipped`);
+      }
+    }
+
+    this.linkServices(owned);
+    this.linkIngresses();
+    this.linkClaims(owned);
+
+    const namespaceCount = Array.from(this.resources.values()).filter(resource => resource.componentId === 'generic-vpc').length;
+    const [base, folder] = this.file.replace(/\.(ya?ml|json)$/i, '').split('/').reverse();
+    return {
+      name: this.options.name || humanize(['manifest', 'manifests', 'all'].includes(base) && folder ? folder : base) || 'Imported Kubernetes',
+      description: `Imported from ${this.objects.length} Kubernetes object${this.objects.length === 1 ? '' : 's'}` +
+        (namespaceCount > 0 ? ` in ${namespaceCount} namespace${namespaceCount === 1 ? '' : 's'}` : ''),
+      resources: Array.from(this.resources.values()),
+      links: this.links,
+      parameters: [],
+      warnings: this.warnings
+    };
+  }
+
+  private parse(): void {
+    if (/\{\{[\s\S]*?\}\}/.test(this.source)) {
+      throw new Error(`${this.file}: Helm templates are not supported; render them first with helm template`);
+    }
+
+    const lineCounter = new LineCounter();
+    const documents = parseAllDocuments(this.source, { lineCounter, uniqueKeys: false });
+    if (!Array.isArray(documents)) return;
+
+    for (const document of documents) {
+      const [error] = document.errors;
+      if (error) {
+        const position = error.linePos?.[0];
+        const message = error.message.split('\n')[0].replace(/ at line \d+, column \d+:?$/, '');
+        throw new Error(`${this.file}${position ? `:${position.line}:${position.col}` : ''}: ${message}`);
+      }
+
+      const value = document.toJS({ maxAliasCount: -1 });
+      const line = (offset?: number) => `${this.file}:${lineCounter.linePos(offset ?? 0).line}`;
+
+      // kubectl prints a List; each item keeps its own position
+      const items = document.get('items', true);
+      if (isObject(value) && typeof value.kind === 'string' && value.kind.endsWith('List') && Array.isArray(value.items)) {
+        value.items.forEach((item, index) => {
+          const node = isSeq(items) ? items.items[index] : undefined;
+          this.addObject(item, line(isMap(node) ? node.range?.[0] : document.range[0]));
+        });
+      } else if (value !== null && value !== undefined) {
+        this.addObject(value, line(document.contents?.range?.[0] ?? document.range[0]));
+      }
+    }
+  }
+
+  private addObject(manifest: unknown, source: string): void {
+    if (!isObject(manifest) || typeof manifest.kind !== 'string' || !isObject(manifest.metadata)) {
+      this.warnings.push(`${source}: Document without kind and metadata was skipped`);
+      return;
+    }
+
+    const { name, generateName, namespace } = manifest.metadata;
+    this.objects.push({
+      kind: manifest.kind,
+      name: String(name ?? generateName ?? manifest.kind.toLowerCase()),
+      namespace: typeof namespace === 'string' ? namespace : undefined,
+      manifest,
+      source
+    });
+  }
+
+  // Objects whose controller (directly or through a ReplicaSet or Job) is also in the input
+  private ownedObjects(): Set<KubernetesObject> {
+    const byUid = new Map<string, KubernetesObject>();
+    const byName = new Map<string, KubernetesObject>();
+    for (const object of this.objects) {
+      const uid = (object.manifest.metadata as Record<string, unknown>).uid;
+      if (typeof uid === 'string') byUid.set(uid, object);
+      byName.set(`${object.namespace}/${object.kind}/${object.name}`, object);
+    }
+
+    const owned = new Set<KubernetesObject>();
+    for (const object of this.objects) {
+      const references = (object.manifest.metadata as Record<string, unknown>).ownerReferences;
+      if (!Array.isArray(references)) continue;
+
+      const hasOwner = references.some(reference =>
+        isObject(reference) &&
+        ((typeof reference.uid === 'string' && byUid.has(reference.uid)) ||
+          byName.has(`${object.namespace}/${reference.kind}/${reference.name}`))
+      );
+      if (hasOwner) owned.add(object);
+    }
+    return owned;
+  }
+
+  private addNamespace(namespace: string): void {
+    if (this.resources.has(namespaceId(namespace))) return;
+    this.resources.set(namespaceId(namespace), {
+      id: namespaceId(namespace),
+      name: namespace,
+      componentId: 'generic-vpc',
+      properties: {},
+      source: this.objects.find(object => object.kind === 'Namespace' && object.name === namespace)?.source
+    });
+  }
+
+  // Namespaces that are only named by their objects appear with the first object drawn in them
+  private addResource(object: KubernetesObject, componentId: string, properties: Record<string, unknown>): void {
+    if (object.namespace) this.addNamespace(object.namespace);
+    this.resources.set(objectId(object), {
+      id: objectId(object),
+      name: object.name,
+      componentId,
+      properties: Object.fromEntries(Object.entries(properties).filter(([, value]) => value !== undefined)),
+      parentId: object.namespace ? namespaceId(object.namespace) : undefined,
+      source: object.source
+    });
+  }
+
+  private addWorkload(object: KubernetesObject): void {
+    const pod = podSpec(object);
+    const containers = Array.isArray(pod?.containers) ? pod.containers.filter(isObject) : [];
+    const [container] = containers;
+    const requests = isObject(container?.resources) && isObject(container.resources.requests) ? container.resources.requests : {};
+    const [port] = Array.isArray(container?.ports) ? container.ports.filter(isObject) : [];
+    const spec = isObject(object.manifest.spec) ? object.manifest.spec : {};
+
+    this.addResource(object, 'generic-compute', {
+      containerized: true,
+      kind: object.kind,
+      image: container?.image,
+      containerPort: port?.containerPort,
+      replicas: spec.replicas,
+      cpu: requests.cpu,
+      memory: requests.memory
+    });
+    if (containers.length > 1) {
+      this.warnings.push(`${object.kind} ${object.name} runs ${containers.length} containers; only ${container.name} is described`);
+    }
+  }
+
+  private addService(object: KubernetesObject): void {
+    const spec = isObject(object.manifest.spec) ? object.manifest.spec : {};
+    if (spec.type === 'ExternalName') {
+      this.addResource(object, 'generic-external-system', { systemName: object.name, apiEndpoint: spec.externalName });
+      return;
+    }
+
+    const [port] = Array.isArray(spec.ports) ? spec.ports.filter(isObject) : [];
+    this.addResource(object, 'generic-load-balancer', {
+      type: 'network',
+      scheme: spec.type === 'LoadBalancer' || spec.type === 'NodePort' ? 'internet-facing' : 'internal',
+      port: port?.port,
+      protocol: typeof port?.protocol === 'string' ? port.protocol.toLowerCase() : port ? 'tcp' : undefined
+    });
+  }
+
+  private addIngress(object: KubernetesObject): void {
+    const spec = isObject(object.manifest.spec) ? object.manifest.spec : {};
+    const tls = Array.isArray(spec.tls) && spec.tls.length > 0;
+    this.addResource(object, 'generic-load-balancer', {
+      type: 'application',
+      scheme: 'internet-facing',
+      port: tls ? 443 : 80,
+      protocol: tls ? 'https' : 'http',
+      sslTermination: tls
+    });
+  }
+
+  private addClaim(object: KubernetesObject): void {
+    const spec = isObject(object.manifest.spec) ? object.manifest.spec : {};
+    const resources = isObject(spec.resources) && isObject(spec.resources.requests) ? spec.resources.requests : {};
+    this.addResource(object, 'generic-storage', {
+      size: resources.storage,
+      accessMode: Array.isArray(spec.accessModes) ? spec.accessModes[0] : undefined,
+      storageClassName: spec.storageClassName
+    });
+  }
+
+  // A Service routes to every workload in its namespace whose pod labels carry all of its selector
+  private linkServices(owned: Set<KubernetesObject>): void {
+    const workloads = this.objects.filter(object => WORKLOAD_KINDS.has(object.kind) && !owned.has(object));
+
+    for (const service of this.objects.filter(object => object.kind === 'Service' && !owned.has(object))) {
+      const spec = isObject(service.manifest.spec) ? service.manifest.spec : {};
+      const selector = isObject(spec.selector) ? Object.entries(spec.selector) : [];
+      if (selector.length === 0) continue;
+
+      const targets = workloads.filter(workload => {
+        const labels = podLabels(workload);
+        return workload.namespace === service.namespace && selector.every(([key, value]) => labels[key] === value);
+      });
+      if (targets.length === 0) {
+        this.warnings.push(`Service ${service.name} selects no workload in the input`);
+      }
+      targets.forEach(target => this.addLink(objectId(service), objectId(target)));
+    }
+  }
+
+  // Ingress rules point at Services by name; the path becomes the arrow label
+  private linkIngresses(): void {
+    for (const ingress of this.objects.filter(object => object.kind === 'Ingress')) {
+      const spec = isObject(ingress.manifest.spec) ? ingress.manifest.spec : {};
+      const backends: { service?: string; path?: string }[] = [{ service: backendService(spec.defaultBackend ?? spec.backend) }];
+
+      for (const rule of Array.isArray(spec.rules) ? spec.rules.filter(isObject) : []) {
+        const paths = isObject(rule.http) && Array.isArray(rule.http.paths) ? rule.http.paths.filter(isObject) : [];
+        for (const path of paths) {
+          backends.push({ service: backendService(path.backend), path: typeof path.path === 'string' ? path.path : undefined });
+        }
+      }
+
+      for (const { service, path } of backends) {
+        if (!service) continue;
+        const target = this.objects.find(object => object.kind === 'Service' && object.name === service && object.namespace === ingress.namespace);
+        if (target) {
+          this.addLink(objectId(ingress), objectId(target), path && path !== '/' ? path : undefined);
+        } else {
+          this.warnings.push(`Ingress ${ingress.name} routes to Service ${service}, which is not in the input`);
+        }
+      }
+    }
+  }
+
+  // Workloads use the claims their pods mount; StatefulSets also get one per volume claim template
+  private linkClaims(owned: Set<KubernetesObject>): void {
+    for (const workload of this.objects.filter(object => WORKLOAD_KINDS.has(object.kind) && !owned.has(object))) {
+      const volumes = Array.isArray(podSpec(workload)?.volumes) ? (podSpec(workload)?.volumes as unknown[]).filter(isObject) : [];
+      for (const volume of volumes) {
+        const claim = isObject(volume.persistentVolumeClaim) ? volume.persistentVolumeClaim.claimName : undefined;
+        const target = this.objects.find(object => object.kind === 'PersistentVolumeClaim' && object.name === claim && object.namespace === workload.namespace);
+        if (target) this.addLink(objectId(workload), objectId(target));
+      }
+
+      const spec = isObject(workload.manifest.spec) ? workload.manifest.spec : {};
+      for (const template of Array.isArray(spec.volumeClaimTemplates) ? spec.volumeClaimTemplates.filter(isObject) : []) {
+        const metadata = isObject(template.metadata) ? template.metadata : {};
+        const claim: KubernetesObject = {
+          kind: 'PersistentVolumeClaim',
+          name: `${metadata.name ?? 'data'}-${workload.name}`,
+          namespace: workload.namespace,
+          manifest: template,
+          source: workload.source
+        };
+        this.addClaim(claim);
+        this.addLink(objectId(workload), objectId(claim));
+      }
+    }
+  }
+
+  private addLink(from: string, to: string, label?: string): void {
+    if (!this.resources.has(from) || !this.resources.has(to)) return;
+    if (this.links.some(link => link.from === from && link.to === to)) return;
+    this.links.push({ from, to, label, type: RelationshipType.DEPENDENCY });
+  }
+}
+
+function podSpec(object: KubernetesObject): Record<string, unknown> | undefined {
+  return isObject(podTemplate(object)?.spec) ? (podTemplate(object)?.spec as Record<string, unknown>) : undefined;
+}
+
+function podLabels(object: KubernetesObject): Record<string, unknown> {
+  const metadata = podTemplate(object)?.metadata;
+  return isObject(metadata) && isObject(metadata.labels) ? metadata.labels : {};
+}
+
+// The pod a workload runs: the object itself for a Pod, its template otherwise
+function podTemplate(object: KubernetesObject): Record<string, unknown> | undefined {
+  if (object.kind === 'Pod') return object.manifest;
+  const spec = isObject(object.manifest.spec) ? object.manifest.spec : undefined;
+  if (object.kind === 'CronJob') {
+    const job = isObject(spec?.jobTemplate) ? spec.jobTemplate.spec : undefined;
+    return isObject(job) && isObject(job.template) ? job.template : undefined;
+  }
+  return isObject(spec?.template) ? spec.template : undefined;
+}
+
+// networking.k8s.io/v1 nests the service; extensions/v1beta1 used serviceName
+function backendService(backend: unknown): string | undefined {
+  if (!isObject(backend)) return undefined;
+  if (isObject(backend.service) && typeof backend.service.name === 'string') return backend.service.name;
+  return typeof backend.serviceName === 'string' ? backend.serviceName : undefined;
+}
+
+function namespaceId(namespace: string): string {
+  return `namespace/${namespace}`;
+}
+
+function objectId(object: KubernetesObject): string {
+  return [object.namespace, object.kind.toLowerCase(), object.name].filter(Boolean).join('/');
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
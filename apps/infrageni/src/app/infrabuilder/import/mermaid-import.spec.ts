@@ -0,0 +1,78 @@
+import { ComponentRegistry } from '../components/core/component-registry';
+import { ExportData, generateMermaidArchitecture, generateMermaidFlowchart } from '../export/export-utils';
+import { item } from '../export/test-canvas';
+import { importMermaid } from './mermaid-import';
+
+// A load balancer and a function share the server icon, and groups are always drawn as clouds
+const canvas: ExportData = {
+  items: [
+    item('vpc', 'Shop VPC', 'generic-vpc'),
+    item('subnet', 'App Subnet', 'generic-subnet', 'vpc'),
+    item('lb', 'Load Balancer', 'generic-load-balancer', 'subnet'),
+    item('fn', 'Checkout', 'aws-lambda', 'subnet'),
+    item('db', 'Orders', 'generic-database', 'subnet')
+  ],
+  connections: [
+    { id: 'c1', from: 'lb', to: 'fn', label: 'routes' },
+    { id: 'c2', from: 'fn', to: 'db' }
+  ],
+  metadata: { exportedAt: '', format: 'mermaid', version: '1' }
+};
+
+function components(text: string) {
+  return Object.fromEntries(importMermaid(text).resources.map(resource => [resource.id, [resource.componentId, resource.parentId]]));
+}
+
+describe('importMermaid', () => {
+  beforeAll(async () => {
+    await ComponentRegistry.getInstance().initialize();
+  });
+
+  it('reads back the components and groups of an exported architecture diagram', () => {
+    expect(components(generateMermaidArchitecture(canvas))).toEqual({
+      vpc: ['generic-vpc', undefined],
+      subnet: ['generic-subnet', 'vpc'],
+      lb: ['generic-load-balancer', 'subnet'],
+      fn: ['aws-lambda', 'subnet'],
+      db: ['generic-database', 'subnet']
+    });
+  });
+
+  it('reads back the components, groups and edge labels of an exported flowchart', () => {
+    const text = generateMermaidFlowchart(canvas);
+    const diagram = importMermaid(text);
+
+    expect(components(text)).toEqual(components(generateMermaidArchitecture(canvas)));
+    expect(diagram.links.map(link => [link.from, link.to, link.label])).toEqual([['lb', 'fn', 'routes'], ['fn', 'db', undefined]]);
+  });
+
+  it('picks components from node shapes and container names', () => {
+    const diagram = importMermaid([
+      'flowchart LR',
+      '  subgraph az1["Availability Zone 1"]',
+      '    api("API") -->|queries| db[("Database")]',
+      '    user((User)) --> api',
+      '  end'
+    ].join('\n'));
+    const byId = new Map(diagram.resources.map(resource => [resource.id, resource]));
+
+    expect(byId.get('az1')?.componentId).toBe('generic-availability-zone');
+    expect(byId.get('api')?.componentId).toBe('generic-compute');
+    expect(byId.get('db')?.componentId).toBe('generic-database');
+    expect(byId.get('user')?.componentId).toBe('generic-user');
+    expect(byId.get('db')?.parentId).toBe('az1');
+    expect(diagram.links).toHaveLength(2);
+  });
+
+  it('imports the first supported diagram of a README and keeps file line numbers', () => {
+    const readme = ['# Shop', '', '```mermaid', 'sequenceDiagram', '```', '', '```mermaid', 'graph TD', '  a --> b', '```', ''].join('\n');
+    const diagram = importMermaid(readme, { file: 'README.md' });
+
+    expect(diagram.resources.map(resource => resource.source)).toEqual(['README.md:9', 'README.md:9']);
+    expect(diagram.warnings).toEqual(['Only the first of 2 Mermaid diagrams was imported']);
+  });
+
+  it('rejects diagram types it cannot import', () => {
+    expect(() => importMermaid('sequenceDiagram\n  a->>b: hi', { file: 'flow.mmd' })).toThrow(/flow\.mmd:1: Only flowchart/);
+  });
+});
@@ -0,0 +1,488 @@
+import { RelationshipType } from '../patterns/core/pattern-types';
+import { ImportedDiagram, ImportedLink, ImportedResource } from './import-model';
+import { humanize } from './resource-graph';
+
+// Reads Mermaid flowchart / graph and architecture-beta diagrams, on their own or inside the
+// ```mermaid fences of a README. Subgraphs and groups become containers; node shapes, Font
+// Awesome and architecture icons, and the component classes generateMermaidFlowchart writes (or
+// the %% component comments of generateMermaidArchitecture) pick the component. Edges keep their
+// labels.
+
+export interface MermaidImportOptions {
+  name?: string;
+  // File name used in warnings and resource sources
+  file?: string;
+}
+
+type NodeShape = 'rectangle' | 'rounded' | 'cylinder' | 'circle' | 'hexagon' | 'rhombus' | 'parallelogram';
+
+interface MermaidNode {
+  id: string;
+  label: string;
+  shape: NodeShape;
+  classes: string[];
+  icon?: string;
+  parentId?: string;
+  isContainer: boolean;
+  line: number;
+}
+
+interface MermaidEdge {
+  from: string;
+  to: string;
+  label?: string;
+}
+
+// Shapes generateMermaidFlowchart writes for each kind of component
+const SHAPE_COMPONENTS: Partial<Record<NodeShape, string>> = {
+  cylinder: 'generic-database',
+  circle: 'generic-user',
+  hexagon: 'generic-external-system',
+  rhombus: 'generic-load-balancer',
+  parallelogram: 'generic-storage'
+};
+
+// Opening delimiters, longest first, with the delimiters that close them
+const SHAPE_DELIMITERS: [string, string[], NodeShape][] = [
+  ['(((', [')))'], 'circle'],
+  ['([', ['])'], 'rounded'],
+  ['[(', [')]'], 'cylinder'],
+  ['[[', [']]'], 'rectangle'],
+  ['[/', ['/]', '\\]'], 'parallelogram'],
+  ['[\\', ['\\]', '/]'], 'parallelogram'],
+  ['((', ['))'], 'circle'],
+  ['{{', ['}}'], 'hexagon'],
+  ['(', [')'], 'rounded'],
+  ['[', [']'], 'rectangle'],
+  ['{', ['}'], 'rhombus'],
+  ['>', [']'], 'rectangle']
+];
+
+// Names of the shape property in Mermaid 11 node metadata: A@{ shape: cyl }
+const NAMED_SHAPES: Record<string, NodeShape> = {
+  cyl: 'cylinder', cylinder: 'cylinder', db: 'cylinder', database: 'cylinder', das: 'cylinder', 'lin-cyl': 'cylinder', 'h-cyl': 'cylinder',
+  circle: 'circle', circ: 'circle', 'dbl-circ': 'circle', 'sm-circ': 'circle',
+  hex: 'hexagon', hexagon: 'hexagon', prepare: 'hexagon',
+  diam: 'rhombus', diamond: 'rhombus', decision: 'rhombus', rhombus: 'rhombus', question: 'rhombus',
+  'lean-r': 'parallelogram', 'lean-l': 'parallelogram', 'in-out': 'parallelogram', 'trap-b': 'parallelogram', 'trap-t': 'parallelogram',
+  rounded: 'rounded', stadium: 'rounded', rect: 'rectangle', rectangle: 'rectangle'
+};
+
+// Built-in architecture icons; generateMermaidArchitecture writes internet for users
+const ARCHITECTURE_ICONS: Record<string, string> = {
+  server: 'generic-compute',
+  database: 'generic-database',
+  disk: 'generic-storage',
+  cloud: 'generic-external-system',
+  internet: 'generic-user'
+};
+
+// Icon names (Font Awesome, iconify) by keyword
+const ICON_KEYWORDS: [RegExp, string][] = [
+  [/lambda|function/, 'generic-compute'],
+  [/database|(^|[-_])db($|[-_])|sql|postgres|mysql|mongo|dynamo|redis|table/, 'generic-database'],
+  [/hdd|hard-drive|disk|storage|bucket|s3|blob|archive|folder/, 'generic-storage'],
+  [/user|person|people|users|child|male|female/, 'generic-user'],
+  [/globe|cloud|internet|external/, 'generic-external-system'],
+  [/balanc|random|shuffle|sitemap|network-wired/, 'generic-load-balancer']
+];
+
+// iconify collections that name provider services, e.g. logos:aws-lambda
+const ICON_PROVIDERS: [RegExp, string][] = [
+  [/^aws-/, 'aws-'],
+  [/^(google-cloud|gcp)-/, 'gcp-'],
+  [/^(microsoft-)?azure-/, 'azure-']
+];
+
+const CONTAINER_KEYWORDS: [RegExp, string][] = [
+  [/subnet/, 'generic-subnet'],
+  [/availability[\s_-]*zone|(^|[\s_-])az($|[\s_-])|zone/, 'generic-availability-zone']
+];
+
+const NODE_ID = /^[\wÀ-￿]+(?:-(?![-.>=])[\wÀ-￿]+)*/;
+const TEXT_LINK = /^([<ox]?)(--|==|-\.)(?![->=.]|[ox](?:\s|$))\s*(.*?)\s*(-{2,}|={2,}|\.+-)([>ox]?)(?=\s|[\w"]|$)/;
+const PLAIN_LINK = /^([<ox]?)(-{2,}|={2,}|-\.+-|~{3,})([>ox]?)(?:\s*\|([^|]*)\|)?/;
+// %% component <id> <componentId>, written by generateMermaidArchitecture
+const COMPONENT_COMMENT = /^\s*%%\s*component\s+([\w-]+)\s+((?:aws|azure|gcp|generic)-[a-z0-9-]+)\s*$/;
+const IGNORED_STATEMENTS = /^(direction|classDef|style|linkStyle|click|accTitle|accDescr|title)\b/;
+
+// Import the first flowchart or architecture diagram in the text
+export function importMermaid(source: string, options: MermaidImportOptions = {}): ImportedDiagram {
+  return new MermaidImporter(source, options).run();
+}
+
+class MermaidImporter {
+  private file: string;
+  private nodes = new Map<string, MermaidNode>();
+  private edges: MermaidEdge[] = [];
+  private junctions = new Set<string>();
+  private warnings: string[] = [];
+  private title = '';
+  private commentComponents = new Map<string, string>();
+
+  constructor(private source: string, private options: MermaidImportOptions) {
+    this.file = options.file || 'diagram.mmd';
+  }
+
+  run(): ImportedDiagram {
+    const { text, offset } = this.diagramText();
+    const lines = text.split('\n');
+    const start = this.skipFrontMatter(lines);
+    const header = start >= 0 ? statementText(lines[start]) : '';
+    const kind = header.split(/\s+/)[0];
+    for (const line of lines) {
+      const comment = line.match(COMPONENT_COMMENT);
+      if (comment) this.commentComponents.set(comment[1], comment[2]);
+    }
+
+    if (kind === 'flowchart' || kind === 'graph') {
+      this.readFlowchart(lines, start, offset);
+    } else if (kind === 'architecture-beta') {
+      this.readArchitecture(lines, start, offset);
+    } else {
+      throw new Error(`${this.file}:${offset + start + 1}: Only flowchart, graph and architecture-beta diagrams can be imported${kind ? ` (found ${kind})` : ''}`);
+    }
+
+    const resources: ImportedResource[] = Array.from(this.nodes.values()).map(node => ({
+      id: node.id,
+      name: node.label || node.id,
+      componentId: node.isContainer ? this.containerComponent(node) : this.component(node),
+      properties: {},
+      parentId: node.parentId,
+      source: `${this.file}:${node.line}`
+    }));
+
+    const links: ImportedLink[] = [];
+    for (const edge of this.collapseJunctions()) {
+      if (edge.from === edge.to || links.some(link => link.from === edge.from && link.to === edge.to && link.label === edge.label)) continue;
+      links.push({ from: edge.from, to: edge.to, label: edge.label || undefined, type: RelationshipType.DEPENDENCY });
+    }
+
+    const base = this.file.split('/').pop()?.replace(/\.(mmd|mermaid|md|markdown|txt)$/i, '') ?? '';
+    return {
+      name: this.options.name || this.title || (['readme', 'diagram'].includes(base.toLowerCase()) ? '' : humanize(base)) || 'Imported Mermaid Diagram',
+      description: `Imported from a Mermaid ${kind} diagram with ${resources.length} node${resources.length === 1 ? '' : 's'} and ` +
+        `${links.length} edge${links.length === 1 ? '' : 's'}`,
+      resources,
+      links,
+      parameters: [],
+      warnings: this.warnings
+    };
+  }
+
+  // Markdown keeps diagrams in fenced blocks; line numbers stay relative to the whole file
+  private diagramText(): { text: string; offset: number } {
+    const source = this.source.replace(/\r\n?/g, '\n');
+    const fences = Array.from(source.matchAll(/^(```|~~~)\s*mermaid[^\n]*\n([\s\S]*?)^\1/gm));
+    if (fences.length === 0) return { text: source, offset: 0 };
+
+    const supported = fences.filter(fence => /^\s*(%%.*\n\s*)*(---[\s\S]*?---\s*)?(flowchart|graph|architecture-beta)\b/.test(fence[2]));
+    const [fence] = supported.length > 0 ? supported : fences;
+    if (fences.length > 1) {
+      this.warnings.push(`Only the first of ${fences.length} Mermaid diagrams was imported`);
+    }
+    const offset = source.slice(0, (fence.index ?? 0)).split('\n').length;
+    return { text: fence[2], offset };
+  }
+
+  // Index of the diagram header, after any --- front matter (which may hold the title) and comments
+  private skipFrontMatter(lines: string[]): number {
+    let index = lines.findIndex(line => statementText(line) !== '');
+    if (index >= 0 && lines[index].trim() === '---') {
+      const close = lines.findIndex((line, i) => i > index && line.trim() === '---');
+      for (const line of lines.slice(index + 1, close < 0 ? undefined : close)) {
+        const title = line.match(/^\s*title:\s*(.+)$/);
+        if (title) this.title = clean(title[1].replace(/^'(.*)'$/, '$1'));
+      }
+      index = close < 0 ? -1 : lines.findIndex((line, i) => i > close && statementText(line) !== '');
+    }
+    return index;
+  }
+
+  private readFlowchart(lines: string[], start: number, offset: number): void {
+    const subgraphs: string[] = [];
+
+    lines.forEach((raw, index) => {
+      const line = offset + index + 1;
+      if (index <= start) return;
+
+      for (const statement of splitStatements(statementText(raw))) {
+        if (!statement || IGNORED_STATEMENTS.test(statement)) continue;
+
+        const subgraph = statement.match(/^subgraph\b\s*(.*)$/);
+        if (subgraph) {
+          const { id, label } = this.subgraphTitle(subgraph[1], line);
+          const node = this.node(id, line, subgraphs[subgraphs.length - 1]);
+          node.isContainer = true;
+          node.label = label;
+          subgraphs.push(id);
+          continue;
+        }
+        if (statement === 'end') {
+          if (!subgraphs.pop()) this.warnings.push(`${this.file}:${line}: end without a subgraph`);
+          continue;
+        }
+
+        const classes = statement.match(/^class\s+([^\s]+)\s+([\w-]+)$/);
+        if (classes) {
+          classes[1].split(',').forEach(id => this.node(id.trim(), line).classes.push(classes[2]));
+          continue;
+        }
+
+        if (!this.readChain(statement, line, subgraphs[subgraphs.length - 1])) {
+          this.warnings.push(`${this.file}:${line}: Could not read "${statement}"`);
+        }
+      }
+    });
+
+    if (subgraphs.length > 0) {
+      this.warnings.push(`${subgraphs.length} subgraph${subgraphs.length === 1 ? ' is' : 's are'} missing end`);
+    }
+  }
+
+  // subgraph id [Title], subgraph id["Title"], or a title that doubles as the id
+  private subgraphTitle(text: string, line: number): { id: string; label: string } {
+    const withId = text.match(/^([\w-]+)\s*\[\s*(.*?)\s*\]$/);
+    if (withId) return { id: withId[1], label: clean(withId[2]) };
+    const label = clean(text);
+    if (!label) return { id: `subgraph-${line}`, label: 'Group' };
+    return { id: /^[\w-]+$/.test(text.trim()) ? text.trim() : label, label };
+  }
+
+  // A & B -->|label| C --> D: node groups separated by links; every pair across a link is an edge
+  private readChain(statement: string, line: number, parentId?: string): boolean {
+    let rest = statement;
+    let previous: string[] | undefined;
+    let link: { label?: string; invisible: boolean; reversed: boolean } | undefined;
+
+    while (rest) {
+      const group: string[] = [];
+      for (;;) {
+        const parsed = this.readNode(rest, line, parentId);
+        if (!parsed) return false;
+        group.push(parsed.id);
+        rest = parsed.rest.trimStart();
+        if (!rest.startsWith('&')) break;
+        rest = rest.slice(1).trimStart();
+      }
+
+      if (previous && link && !link.invisible) {
+        for (const from of previous) {
+          for (const to of group) {
+            this.edges.push(link.reversed ? { from: to, to: from, label: link.label } : { from, to, label: link.label });
+          }
+        }
+      }
+      previous = group;
+      if (!rest) break;
+
+      const text = rest.match(TEXT_LINK);
+      const plain = text ? undefined : rest.match(PLAIN_LINK);
+      if (!text && !plain) return false;
+      const match = (text ?? plain) as RegExpMatchArray;
+      const opening = match[1];
+      const closing = text ? text[5] : (plain as RegExpMatchArray)[3];
+      link = {
+        label: clean(text ? text[3] : (plain as RegExpMatchArray)[4] ?? '') || undefined,
+        invisible: !text && (plain as RegExpMatchArray)[2].startsWith('~'),
+        reversed: opening === '<' && closing !== '>'
+      };
+      rest = rest.slice(match[0].length).trimStart();
+      if (!rest) return false;
+    }
+    return true;
+  }
+
+  // id, id[Text], id(("Text")), id@{ shape: cyl, label: "Text" }, each with an optional :::class
+  private readNode(text: string, line: number, parentId?: string): { id: string; rest: string } | undefined {
+    const id = text.match(NODE_ID)?.[0];
+    if (!id) return undefined;
+    let rest = text.slice(id.length);
+    const node = this.node(id, line, parentId);
+
+    if (rest.startsWith('@{')) {
+      const close = rest.indexOf('}');
+      if (close < 0) return undefined;
+      for (const [, key, value] of rest.slice(2, close).matchAll(/(\w+)\s*:\s*("[^"]*"|'[^']*'|[^,]+)/g)) {
+        const unquoted = value.trim().replace(/^["']|["']$/g, '');
+        if (key === 'shape') node.shape = NAMED_SHAPES[unquoted] ?? node.shape;
+        if (key === 'label') node.label = clean(unquoted);
+        if (key === 'icon') node.icon = unquoted;
+      }
+      rest = rest.slice(close + 1);
+    } else {
+      const delimiter = SHAPE_DELIMITERS.find(([opening]) => rest.startsWith(opening));
+      if (delimiter) {
+        const [opening, closings, shape] = delimiter;
+        const body = rest.slice(opening.length);
+        const quoted = body.match(/^\s*"([^"]*)"\s*/);
+        const searchFrom = quoted ? quoted[0].length : 0;
+        const ends = closings
+          .map(closing => ({ closing, end: body.indexOf(closing, searchFrom) }))
+          .filter(({ end }) => end >= 0)
+          .sort((x, y) => x.end - y.end);
+        if (ends.length === 0) return undefined;
+        const [{ closing, end }] = ends;
+        const label = quoted ? quoted[1] : body.slice(0, end);
+
+        const icon = label.match(/\bfa[bsr]?:fa-([\w-]+)/);
+        if (icon) node.icon = icon[1];
+        node.label = clean(label.replace(/\bfa[bsr]?:fa-[\w-]+/g, ''));
+        node.shape = shape;
+        node.line = line;
+        rest = body.slice(end + closing.length);
+      }
+    }
+
+    const classMatch = rest.match(/^:::([\w-]+)/);
+    if (classMatch) {
+      node.classes.push(classMatch[1]);
+      rest = rest.slice(classMatch[0].length);
+    }
+    return { id, rest };
+  }
+
+  private readArchitecture(lines: string[], start: number, offset: number): void {
+    lines.forEach((raw, index) => {
+      const line = offset + index + 1;
+      const statement = statementText(raw);
+      if (index <= start || !statement) return;
+
+      const declaration = statement.match(/^(group|service)\s+([\w-]+)\s*(?:\(([^)]*)\))?\s*(?:\[(.*?)\])?\s*(?:in\s+([\w-]+))?$/);
+      if (declaration) {
+        const [, type, id, icon, label, parentId] = declaration;
+        const node = this.node(id, line, parentId);
+        node.isContainer = type === 'group';
+        node.icon = icon;
+        node.label = clean(label ?? id);
+        return;
+      }
+
+      const junction = statement.match(/^junction\s+([\w-]+)(?:\s+in\s+[\w-]+)?$/);
+      if (junction) {
+        this.junctions.add(junction[1]);
+        return;
+      }
+
+      // a:R --> L:b, a{group}:B <-- T:b, a -- b
+      const edge = statement.match(/^([\w-]+)(?:\{group\})?\s*(?::\s*[LRTB])?\s*(<)?--(>)?\s*(?:[LRTB]\s*:)?\s*([\w-]+)(?:\{group\})?$/);
+      if (edge) {
+        const [, from, reverse, forward, to] = edge;
+        this.edges.push(reverse && !forward ? { from: to, to: from } : { from, to });
+        return;
+      }
+
+      if (!IGNORED_STATEMENTS.test(statement)) {
+        this.warnings.push(`${this.file}:${line}: Could not read "${statement}"`);
+      }
+    });
+
+    for (const edge of this.edges) {
+      for (const id of [edge.from, edge.to]) {
+        if (!this.nodes.has(id) && !this.junctions.has(id)) {
+          this.warnings.push(`Edge refers to ${id}, which is not declared`);
+        }
+      }
+    }
+    this.edges = this.edges.filter(edge =>
+      (this.nodes.has(edge.from) || this.junctions.has(edge.from)) && (this.nodes.has(edge.to) || this.junctions.has(edge.to))
+    );
+  }
+
+  // Junctions only route edges; connect everything that flows into one with everything out of it
+  private collapseJunctions(): MermaidEdge[] {
+    let edges = this.edges;
+    for (const junction of this.junctions) {
+      const incoming = edges.filter(edge => edge.to === junction);
+      const outgoing = edges.filter(edge => edge.from === junction);
+      edges = [
+        ...edges.filter(edge => edge.from !== junction && edge.to !== junction),
+        ...incoming.flatMap(into => outgoing.map(out => ({ from: into.from, to: out.to, label: into.label || out.label })))
+      ];
+    }
+    return edges;
+  }
+
+  private node(id: string, line: number, parentId?: string): MermaidNode {
+    let node = this.nodes.get(id);
+    if (!node) {
+      node = { id, label: '', shape: 'rounded', classes: [], parentId, isContainer: false, line };
+      this.nodes.set(id, node);
+    }
+    return node;
+  }
+
+  private component(node: MermaidNode): string {
+    return this.classComponent(node) ?? iconComponent(node.icon) ?? SHAPE_COMPONENTS[node.shape] ?? 'generic-compute';
+  }
+
+  private containerComponent(node: MermaidNode): string {
+    const classComponent = this.classComponent(node);
+    if (classComponent) return classComponent;
+    const names = `${node.id} ${node.label}`.toLowerCase();
+    return CONTAINER_KEYWORDS.find(([pattern]) => pattern.test(names))?.[1] ?? 'generic-vpc';
+  }
+
+  // Classes named after a component, e.g. aws_lambda or generic-database, or a component comment
+  private classComponent(node: MermaidNode): string | undefined {
+    return node.classes
+      .map(name => name.replace(/_/g, '-'))
+      .find(name => /^(aws|azure|gcp|generic)-[a-z0-9-]+$/.test(name)) ?? this.commentComponents.get(node.id);
+  }
+}
+
+function iconComponent(icon?: string): string | undefined {
+  if (!icon) return undefined;
+  const name = icon.toLowerCase().split(':').pop() ?? '';
+  if (ARCHITECTURE_ICONS[name]) return ARCHITECTURE_ICONS[name];
+
+  for (const [pattern, prefix] of ICON_PROVIDERS) {
+    if (pattern.test(name)) {
+      const service = name.replace(pattern, '');
+      if (/^[a-z0-9-]+$/.test(service)) return `${prefix}${service}`;
+    }
+  }
+  return ICON_KEYWORDS.find(([pattern]) => pattern.test(name))?.[1];
+}
+
+// A line without its %% comment
+function statementText(line: string): string {
+  const comment = line.indexOf('%%');
+  return (comment >= 0 ? line.slice(0, comment) : line).trim();
+}
+
+// Statements on one line are separated by semicolons outside quoted text and #entity; codes
+function splitStatements(text: string): string[] {
+  const statements: string[] = [];
+  let current = '';
+  let quoted = false;
+  for (const char of text) {
+    if (char === '"') quoted = !quoted;
+    if (char === ';' && !quoted && !/#\w+$/.test(current)) {
+      statements.push(current.trim());
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+  statements.push(current.trim());
+  return statements.filter(Boolean);
+}
+
+// Labels may be quoted, use markdown strings, <br> breaks and Mermaid's #entity; codes
+function clean(text: string): string {
+  return text
+    .trim()
+    .replace(/^"(.*)"$/s, '$1')
+    .replace(/^`(.*)`$/s, '$1')
+    .replace(/<br\s*\/?>/gi, ' ')
+    .replace(/<[^>]*>/g, '')
+    .replace(/\*\*|__/g, '')
+    .replace(/#quot;/g, '"')
+    .replace(/#amp;/g, '&')
+    .replace(/#lt;/g, '<')
+    .replace(/#gt;/g, '>')
+    .replace(/#(\d+);/g, (_, code: string) => String.fromCharCode(Number(code)))
+    .replace(/\s+/g, ' ')
+    .trim();
+}
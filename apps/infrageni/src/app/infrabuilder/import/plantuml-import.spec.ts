@@ -0,0 +1,86 @@
+import { ComponentRegistry } from '../components/core/component-registry';
+import { importPlantUml } from './plantuml-import';
+
+const c4 = `@startuml
+!include <C4/C4_Container>
+title Shop
+LAYOUT_LEFT_RIGHT()
+
+Person(customer, "Customer", "Buys things")
+System_Boundary(shop, "Shop") {
+  Container(web, "Storefront", "t3.small", "Serves pages")
+  ContainerDb(db, "Orders", "PostgreSQL")
+}
+System_Ext(payments, "Payments", "Card processing")
+
+Rel(customer, web, "Browses", "HTTPS")
+Rel(web, db, "Uses")
+Rel_Back(payments, web, "Charges")
+Rel(web, mail, "Sends")
+@enduml
+`;
+
+describe('importPlantUml', () => {
+  beforeAll(async () => {
+    await ComponentRegistry.getInstance().initialize();
+  });
+
+  it('turns C4 elements into components inside their boundaries', () => {
+    const diagram = importPlantUml(c4, { file: 'shop.puml' });
+    const components = Object.fromEntries(diagram.resources.map(resource => [resource.id, [resource.componentId, resource.parentId]]));
+
+    expect(diagram.name).toBe('Shop');
+    expect(components).toEqual({
+      customer: ['generic-user', undefined],
+      shop: ['generic-vpc', undefined],
+      web: ['generic-compute', 'shop'],
+      db: ['generic-database', 'shop'],
+      payments: ['generic-external-system', undefined]
+    });
+    expect(diagram.resources.find(resource => resource.id === 'web')).toMatchObject({
+      properties: { technology: 't3.small', description: 'Serves pages', instanceType: 't3.small' },
+      source: 'shop.puml:8'
+    });
+  });
+
+  it('labels relations with their text and technology and warns about undeclared ends', () => {
+    const diagram = importPlantUml(c4, { file: 'shop.puml' });
+
+    expect(diagram.links.map(link => [link.from, link.to, link.label])).toEqual([
+      ['customer', 'web', 'Browses [HTTPS]'],
+      ['web', 'db', undefined],
+      ['web', 'payments', 'Charges']
+    ]);
+    expect(diagram.warnings).toEqual(['shop.puml:16: Rel refers to mail, which is not declared']);
+  });
+
+  it('reads plain deployment diagrams, creating components for new arrow ends', () => {
+    const diagram = importPlantUml([
+      '@startuml',
+      'cloud "Shop VPC" as vpc {',
+      '  rectangle "Public Subnet" as public {',
+      '    node "Web" as web',
+      '  }',
+      '}',
+      'database Orders',
+      'web --> Orders : SQL',
+      'Orders <-- worker',
+      '@enduml'
+    ].join('\n'));
+    const components = Object.fromEntries(diagram.resources.map(resource => [resource.id, [resource.componentId, resource.parentId]]));
+
+    expect(components).toEqual({
+      vpc: ['generic-vpc', undefined],
+      public: ['generic-subnet', 'vpc'],
+      web: ['generic-compute', 'public'],
+      Orders: ['generic-database', undefined],
+      worker: ['generic-compute', undefined]
+    });
+    expect(diagram.links.map(link => [link.from, link.to, link.label])).toEqual([['web', 'Orders', 'SQL'], ['worker', 'Orders', undefined]]);
+  });
+
+  it('rejects other diagram types and unbalanced braces', () => {
+    expect(() => importPlantUml('@startmindmap\n* Shop\n@endmindmap')).toThrow('diagram.puml: Only @startuml diagrams can be imported (found @startmindmap)');
+    expect(() => importPlantUml('@startuml\nnode web {\n@enduml', { file: 'web.puml' })).toThrow('web.puml:2: Expected }');
+  });
+});
@@ -0,0 +1,407 @@
+import { RelationshipType } from '../patterns/core/pattern-types';
+import { ImportedDiagram, ImportedLink, ImportedResource } from './import-model';
+import { humanize } from './resource-graph';
+
+// Reads C4-PlantUML and plain PlantUML deployment diagrams into a diagram. C4 boundaries
+// (Boundary, System_Boundary, Container_Boundary, Enterprise_Boundary, Deployment_Node)
+// become containers around the elements declared inside their braces; Person, System,
+// Container and Component elements become components picked by their kind and technology,
+// and Rel arrows become links labelled with their label and technology. Plain PlantUML
+// elements (node, database, cloud { ... }) and arrows (a --> b : label) are read the same way,
+// the form PlantUMLExportTool writes for network diagrams.
+
+export interface PlantUmlImportOptions {
+  name?: string;
+  // File name used in error messages and resource sources
+  file?: string;
+}
+
+interface PendingArrow {
+  line: number;
+  from: string;
+  to: string;
+  label?: string;
+  // The C4 relation macro; undefined for plain arrows
+  macro?: string;
+}
+
+interface Macro {
+  name: string;
+  args: string[];
+  named: Record<string, string>;
+  opensScope: boolean;
+}
+
+// Arguments after alias and label, in the order each kind of C4 macro takes them
+const ELEMENT_ARGUMENTS: Record<string, string[]> = {
+  Person: ['descr'],
+  System: ['descr'],
+  Container: ['techn', 'descr'],
+  Component: ['techn', 'descr']
+};
+
+const BOUNDARY_MACROS = /^(Boundary|Enterprise_Boundary|System_Boundary|Container_Boundary|Deployment_Node(_L|_R)?|Node(_L|_R)?)$/;
+const ELEMENT_MACRO = /^(Person|System|Container|Component)(Db|Queue)?(_Ext)?$/;
+const RELATION_MACRO = /^(Bi)?Rel(_Back)?(_(U|D|L|R|Up|Down|Left|Right|Neighbor))?$/;
+
+// Layout, styling and legend macros with nothing to import
+const IGNORED_MACROS = /^(LAYOUT_|SHOW_|HIDE_|Lay_|Add[A-Z]|Update[A-Z]|Set[A-Z]|Without|increment|setIndex|RelIndex|Legend)/;
+const IGNORED_STATEMENTS = /^(skinparam|hide|show|left to right direction|top to bottom direction|scale|caption|header|footer|autonumber|allowmixing|together|@startuml|@enduml|!)/;
+
+// Boundary and deployment node types PlantUMLExportTool writes, and the usual words for them
+const CONTAINER_KEYWORDS: [RegExp, string][] = [
+  [/subnet|network segment/, 'generic-subnet'],
+  [/availability[\s_-]*zone|(^|\s)az(\s|\d|$)/, 'generic-availability-zone']
+];
+
+// Technology and description words that name a kind of component
+const TECHNOLOGY_KEYWORDS: [RegExp, string][] = [
+  [/database|(^|\W)db(\W|$)|sql|postgres|mysql|mariadb|oracle|mongo|dynamo|cosmos|cassandra/, 'generic-database'],
+  [/storage|bucket|(^|\W)s3(\W|$)|blob|volume|disk|file share/, 'generic-storage'],
+  [/^load$|load[\s-]*balanc|(^|\W)(alb|nlb|elb)(\W|$)|nginx|haproxy|ingress|api gateway/, 'generic-load-balancer'],
+  [/^user$|person|people/, 'generic-user'],
+  [/external/, 'generic-external-system']
+];
+
+// Plain PlantUML element keywords
+const PLAIN_ELEMENTS: Record<string, string> = {
+  node: 'generic-compute',
+  database: 'generic-database',
+  storage: 'generic-storage',
+  folder: 'generic-storage',
+  file: 'generic-storage',
+  actor: 'generic-user',
+  person: 'generic-user',
+  cloud: 'generic-external-system'
+};
+
+// Plain PlantUML elements drawn as containers when they have a body; rectangle is a subnet
+// and cloud a VPC in PlantUMLExportTool's network diagrams
+const PLAIN_CONTAINERS: Record<string, string> = {
+  rectangle: 'generic-subnet',
+  cloud: 'generic-vpc'
+};
+
+const PLAIN_ELEMENT = /^(node|database|storage|folder|file|actor|person|cloud|rectangle|package|frame|component|queue|agent|artifact|card|collections|hexagon|stack|boundary|control|entity|interface)\s+(.*?)\s*(\{)?$/;
+const PLAIN_ARROW = /^(\[[^\]]+\]|"[^"]+"|[\w.]+)\s*(<?[-.=]+(?:\[[^\]]*\]|up|down|left|right|u|d|l|r)?[-.=]*>?)\s*(\[[^\]]+\]|"[^"]+"|[\w.]+)\s*(?::\s*(.*))?$/;
+
+// The label C4-PlantUML arrows get when none is given
+const DEFAULT_RELATION_LABEL = 'Uses';
+
+// Import the first @startuml ... @enduml diagram in the text
+export function importPlantUml(source: string, options: PlantUmlImportOptions = {}): ImportedDiagram {
+  return new PlantUmlImporter(source, options).run();
+}
+
+class PlantUmlImporter {
+  private file: string;
+  private title = '';
+  private resources = new Map<string, ImportedResource>();
+  private links: ImportedLink[] = [];
+  private warnings: string[] = [];
+  // Boundaries open at the current line; null for braces that are not boundaries
+  private scopes: (string | null)[] = [];
+  // Arrows are linked once every element is declared
+  private arrows: PendingArrow[] = [];
+
+  constructor(private source: string, private options: PlantUmlImportOptions) {
+    this.file = options.file || 'diagram.puml';
+  }
+
+  run(): ImportedDiagram {
+    const lines = this.diagramLines();
+    for (let index = 0; index < lines.length; index++) {
+      const { text, line } = lines[index];
+
+      // Multi-line notes and legends
+      const block = text.match(/^(note\b(?!.*:)|legend\b|skinparam\b.*\{$)/);
+      if (block) {
+        const end = block[1].startsWith('note') ? /^end\s*note$/ : block[1] === 'legend' ? /^end\s*legend$/ : /^\}$/;
+        while (index + 1 < lines.length && !end.test(lines[index + 1].text)) index++;
+        index++;
+        continue;
+      }
+
+      if (text === '}') {
+        if (this.scopes.length === 0) this.fail(line, 'Unmatched }');
+        this.scopes.pop();
+        continue;
+      }
+
+      if (/^title\s/.test(text)) {
+        this.title = cleanLabel(text.replace(/^title\s+/, ''));
+        continue;
+      }
+      if (IGNORED_STATEMENTS.test(text) || /^note\b/.test(text)) continue;
+
+      const macro = parseMacro(text);
+      if (macro) {
+        this.readMacro(macro, line);
+        continue;
+      }
+
+      const element = text.match(PLAIN_ELEMENT);
+      if (element) {
+        this.readPlainElement(element[1], element[2], !!element[3], line);
+        continue;
+      }
+
+      const arrow = text.match(PLAIN_ARROW);
+      if (arrow) {
+        // <-- points back at the left side; arrows with a head on both ends read left to right
+        const reversed = arrow[2].startsWith('<') && !arrow[2].endsWith('>');
+        const [from, to] = reversed ? [arrow[3], arrow[1]] : [arrow[1], arrow[3]];
+        this.arrows.push({ line, from, to, label: arrow[4] ? cleanLabel(arrow[4]) : undefined });
+        continue;
+      }
+
+      this.warnings.push(`${this.file}:${line}: Skipped ${text.length > 40 ? `${text.slice(0, 40)}...` : text}`);
+    }
+
+    if (this.scopes.length > 0) this.fail(lines[lines.length - 1]?.line ?? 1, 'Expected }');
+
+    for (const arrow of this.arrows) {
+      // C4 relations name declared aliases; plain arrows may name new elements, drawn as components
+      if (arrow.macro) {
+        const missing = [arrow.from, arrow.to].find(id => !this.resources.has(id));
+        if (missing) {
+          this.warnings.push(`${this.file}:${arrow.line}: ${arrow.macro} refers to ${missing}, which is not declared`);
+          continue;
+        }
+        this.addLink(arrow.from, arrow.to, arrow.label);
+      } else {
+        this.addLink(this.elementId(arrow.from, arrow.line), this.elementId(arrow.to, arrow.line), arrow.label);
+      }
+    }
+
+    if (this.resources.size === 0) {
+      throw new Error(`${this.file}: No elements found; is this a C4-PlantUML or PlantUML deployment diagram?`);
+    }
+
+    const base = this.file.split('/').pop()?.replace(/\.(puml|plantuml|iuml|pu|wsd|txt|md)$/i, '') ?? '';
+    return {
+      name: this.options.name || this.title || humanize(base) || 'Imported PlantUML Diagram',
+      description: `Imported from a PlantUML diagram with ${this.resources.size} element${this.resources.size === 1 ? '' : 's'}`,
+      resources: Array.from(this.resources.values()),
+      links: this.links,
+      parameters: [],
+      warnings: this.warnings
+    };
+  }
+
+  private readMacro(macro: Macro, line: number): void {
+    const { name, args, named } = macro;
+    const [alias, label] = args;
+
+    if (BOUNDARY_MACROS.test(name)) {
+      this.requireAlias(name, alias, line);
+      const type = named.type ?? args[2] ?? '';
+      const descr = named.descr ?? (/^(Deployment_)?Node/.test(name) ? args[3] : undefined);
+      this.addResource(alias, label, containerComponent(`${type} ${label ?? ''}`), {
+        type: type || undefined,
+        description: descr
+      }, line);
+      if (macro.opensScope) this.scopes.push(alias);
+      return;
+    }
+
+    const element = name.match(ELEMENT_MACRO);
+    if (element) {
+      this.requireAlias(name, alias, line);
+      const [, kind, variant, external] = element;
+      const values: Record<string, string | undefined> = {};
+      ELEMENT_ARGUMENTS[kind].forEach((argument, index) => {
+        values[argument] = named[argument] ?? args[index + 2];
+      });
+
+      const technology = values.techn ? cleanLabel(values.techn) : undefined;
+      const description = values.descr ? cleanLabel(values.descr) : undefined;
+      this.addResource(alias, label, elementComponent(kind, variant, !!external, `${technology ?? ''} ${kind === 'Container' || kind === 'Component' ? '' : description ?? ''}`), {
+        technology,
+        description,
+        // PlantUMLExportTool writes the instance type as the technology or description
+        instanceType: [technology, description].find(value => value && /^[a-z][a-z0-9-]*\d[a-z0-9-]*\.[a-z0-9]+$/.test(value))
+      }, line);
+      if (macro.opensScope) this.scopes.push(null);
+      return;
+    }
+
+    const relation = name.match(RELATION_MACRO);
+    if (relation) {
+      if (args.length < 2) this.fail(line, `${name} needs a source and a target`);
+      const [from, to] = relation[2] ? [args[1], args[0]] : [args[0], args[1]];
+      const text = args[2] ?? named.label;
+      const technology = args[3] ?? named.techn;
+      const label = [text && text !== DEFAULT_RELATION_LABEL ? cleanLabel(text) : '', technology ? `[${cleanLabel(technology)}]` : '']
+        .filter(Boolean).join(' ') || undefined;
+
+      this.arrows.push({ line, from, to, label, macro: name });
+      if (relation[1]) this.arrows.push({ line, from: to, to: from, label, macro: name });
+      return;
+    }
+
+    if (!IGNORED_MACROS.test(name)) {
+      this.warnings.push(`${this.file}:${line}: Skipped unknown macro ${name}`);
+    }
+    if (macro.opensScope) this.scopes.push(null);
+  }
+
+  // node "Label" as id, node id as "Label", node "Label", node id, each with an optional { body }
+  private readPlainElement(keyword: string, rest: string, opensScope: boolean, line: number): void {
+    const declaration = rest.replace(/\s*<<[^>]*>>/g, '').replace(/\s+#[\w#]+$/, '').trim();
+    const match = declaration.match(/^(?:"([^"]*)"|\[([^\]]*)\]|([\w.]+))(?:\s+as\s+(?:"([^"]*)"|([\w.]+)))?$/);
+    if (!match) this.fail(line, `Expected a name after ${keyword}`);
+
+    const [, quoted, bracketed, word, aliasLabel, alias] = match;
+    const id = alias ?? (aliasLabel !== undefined ? word : undefined) ?? word ?? quoted ?? bracketed;
+    const label = aliasLabel ?? quoted ?? bracketed ?? word;
+    const componentId = opensScope
+      ? PLAIN_CONTAINERS[keyword] ?? 'generic-vpc'
+      : PLAIN_ELEMENTS[keyword] ?? 'generic-compute';
+
+    this.addResource(id, label, componentId, {}, line);
+    if (opensScope) this.scopes.push(id);
+  }
+
+  // An arrow end: an alias, a label in quotes or [brackets], or a new component
+  private elementId(reference: string, line: number): string {
+    const name = reference.replace(/^["[]|["\]]$/g, '');
+    if (this.resources.has(name)) return name;
+    const byLabel = Array.from(this.resources.values()).find(resource => resource.name === cleanLabel(name));
+    if (byLabel) return byLabel.id;
+
+    this.addResource(name, name, 'generic-compute', {}, line);
+    return name;
+  }
+
+  private addResource(id: string, label: string | undefined, componentId: string, properties: Record<string, unknown>, line: number): void {
+    if (this.resources.has(id)) {
+      this.warnings.push(`${this.file}:${line}: ${id} is declared twice; the first declaration was kept`);
+      return;
+    }
+    const parentId = [...this.scopes].reverse().find((scope): scope is string => !!scope);
+    this.resources.set(id, {
+      id,
+      name: cleanLabel(label ?? '') || id,
+      componentId,
+      properties: Object.fromEntries(Object.entries(properties).filter(([, value]) => value !== undefined && value !== '')),
+      parentId,
+      source: `${this.file}:${line}`
+    });
+  }
+
+  private addLink(from: string, to: string, label?: string): void {
+    if (!this.resources.has(from) || !this.resources.has(to) || from === to) return;
+    if (this.links.some(link => link.from === from && link.to === to && link.label === label)) return;
+    this.links.push({ from, to, label, type: RelationshipType.DEPENDENCY });
+  }
+
+  private requireAlias(name: string, alias: string | undefined, line: number): asserts alias is string {
+    if (!alias || !/^[\w.]+$/.test(alias)) this.fail(line, `${name} needs an alias as its first argument`);
+  }
+
+  // Lines of the first diagram without comments, with their line numbers
+  private diagramLines(): { text: string; line: number }[] {
+    const lines = this.source.split(/\r?\n/);
+    const start = lines.findIndex(text => /^\s*@startuml\b/.test(text));
+    if (start < 0 && lines.some(text => /^\s*@start(?!uml)\w+/.test(text))) {
+      const found = lines.find(text => /^\s*@start\w+/.test(text))?.trim().split(/\s/)[0];
+      throw new Error(`${this.file}: Only @startuml diagrams can be imported (found ${found})`);
+    }
+
+    const end = lines.findIndex((text, index) => index > start && /^\s*@enduml\b/.test(text));
+    if (end >= 0 && lines.slice(end + 1).some(text => /^\s*@startuml\b/.test(text))) {
+      this.warnings.push('Only the first PlantUML diagram in the file was imported');
+    }
+
+    const result: { text: string; line: number }[] = [];
+    let inComment = false;
+    for (let index = start + 1; index < (end < 0 ? lines.length : end); index++) {
+      let text = lines[index];
+      if (inComment) {
+        const close = text.indexOf("'/");
+        if (close < 0) continue;
+        text = text.slice(close + 2);
+        inComment = false;
+      }
+      text = text.replace(/\/'.*?'\//g, '');
+      const open = text.indexOf("/'");
+      if (open >= 0) {
+        text = text.slice(0, open);
+        inComment = true;
+      }
+      text = text.trim();
+      if (!text || text.startsWith("'")) continue;
+      result.push({ text, line: index + 1 });
+    }
+    return result;
+  }
+
+  private fail(line: number, message: string): never {
+    throw new Error(`${this.file}:${line}: ${message}`);
+  }
+}
+
+// Name(arg, "arg", $named="arg") with an optional { opening a body
+function parseMacro(text: string): Macro | undefined {
+  const match = text.match(/^([A-Za-z_]\w*)\s*\((.*)\)\s*(\{)?$/);
+  if (!match) return undefined;
+
+  const args: string[] = [];
+  const named: Record<string, string> = {};
+  for (const part of splitArguments(match[2])) {
+    const assignment = part.match(/^\$(\w+)\s*=\s*(.*)$/);
+    if (assignment) {
+      named[assignment[1]] = unquote(assignment[2]);
+    } else {
+      args.push(unquote(part));
+    }
+  }
+  return { name: match[1], args, named, opensScope: !!match[3] };
+}
+
+// Commas outside quotes and nested parentheses separate arguments
+function splitArguments(text: string): string[] {
+  const parts: string[] = [];
+  let current = '';
+  let quoted = false;
+  let depth = 0;
+  for (const char of text) {
+    if (char === '"') quoted = !quoted;
+    if (!quoted && char === '(') depth++;
+    if (!quoted && char === ')') depth--;
+    if (char === ',' && !quoted && depth === 0) {
+      parts.push(current.trim());
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+  if (current.trim()) parts.push(current.trim());
+  return parts;
+}
+
+function unquote(value: string): string {
+  return value.replace(/^"(.*)"$/, '$1');
+}
+
+function elementComponent(kind: string, variant: string | undefined, external: boolean, technology: string): string {
+  if (kind === 'Person') return 'generic-user';
+  if (external) return 'generic-external-system';
+  if (variant === 'Db') return 'generic-database';
+  return TECHNOLOGY_KEYWORDS.find(([pattern]) => pattern.test(technology.trim().toLowerCase()))?.[1] ?? 'generic-compute';
+}
+
+function containerComponent(text: string): string {
+  return CONTAINER_KEYWORDS.find(([pattern]) => pattern.test(text.toLowerCase()))?.[1] ?? 'generic-vpc';
+}
+
+// Plain text of a label: \n line breaks, creole emphasis and HTML tags removed
+function cleanLabel(label: string): string {
+  return label
+    .replace(/\\n/g, ' ')
+    .replace(/<[^>]+>/g, '')
+    .replace(/\*\*|__|~~|""/g, '')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
@@ -0,0 +1,343 @@
+import { ComponentRegistry } from '../components/core/component-registry';
+import { RelationshipType } from '../patterns/core/pattern-types';
+import { ImportedChange, ImportedLink, ImportedResource } from './import-model';
+
+// Turns infrastructure-as-code resources into diagram resources and arrows. Each format brings
+// its own rules (which resource types become which components); the graph logic is shared.
+// Resources with a registry counterpart become components; supporting resources such as
+// security groups, IAM roles or subnet associations are folded into the component that owns
+// them, so a reference through them (instance -> NIC -> subnet) still yields containment or an
+// arrow. Unknown resource types become warnings.
+
+// One resource or data source, however it was read
+export interface GraphEntity {
+  address: string;
+  mode: 'resource' | 'data';
+  type: string;
+  name: string;
+  // Where it came from, e.g. main.tf:12 or terraform.tfstate
+  source: string;
+  // Known value at a dotted path such as tags.Name or vpc_config.subnet_ids
+  read: (path: string) => unknown;
+  // Addresses each attribute refers to; attributes of nested blocks use their own name
+  references: Map<string, Set<string>>;
+  all: Set<string>;
+  // Declared with count or for_each, so one entity stands for several instances
+  repeated?: boolean;
+  change?: ImportedChange;
+}
+
+export interface ResourceGraph {
+  resources: ImportedResource[];
+  links: ImportedLink[];
+  warnings: string[];
+  provider?: string;
+}
+
+export type PropertyReader = (path: string) => unknown;
+export type PropertyRule = string | ((read: PropertyReader) => unknown);
+
+export interface ResourceMapping {
+  componentId: string;
+  properties?: Record<string, PropertyRule>;
+}
+
+export interface GraphRules {
+  mappings: Record<string, ResourceMapping>;
+  // Resource types that are expected around the mapped ones and never need a warning
+  isSupporting: (type: string) => boolean;
+  // Supporting resources that stand for an arrow between two components: [from attribute, to attribute]
+  edges: Record<string, [string, string]>;
+  // Cloud a resource type belongs to (aws, azure or gcp)
+  provider: (type: string) => string | undefined;
+  // The name a resource is tagged with, if any
+  label: (read: PropertyReader) => unknown;
+  // Region and availability zone a resource was deployed to, when the source records them
+  region?: (read: PropertyReader) => unknown;
+  zone?: (read: PropertyReader) => unknown;
+}
+
+// How a supporting resource was attached to its owner; only owners found by following the
+// supporting resource's own references stand in for it in arrows
+type Ownership = 'referenced' | 'references' | 'inherited';
+
+export const NETWORK = 'generic-vpc';
+export const SUBNET = 'generic-subnet';
+export const ZONE = 'generic-availability-zone';
+
+export function analyzeResources(entities: GraphEntity[], rules: GraphRules): ResourceGraph {
+  return new ResourceAnalysis(entities, rules).run();
+}
+
+class ResourceAnalysis {
+  private entities = new Map<string, GraphEntity>();
+  private mapped = new Map<string, ResourceMapping>();
+  private owners = new Map<string, { owner: string; ownership: Ownership }>();
+  private warnings: string[] = [];
+
+  constructor(entities: GraphEntity[], private rules: GraphRules) {
+    entities.forEach(entity => this.entities.set(entity.address, entity));
+  }
+
+  run(): ResourceGraph {
+    this.classify();
+    this.assignOwners();
+
+    const providers = countBy(Array.from(this.mapped.keys()).map(address => this.rules.provider(this.entities.get(address)?.type || '')));
+    return {
+      resources: this.buildResources(),
+      links: this.buildLinks(),
+      warnings: this.warnings,
+      provider: Object.keys(providers).sort((a, b) => providers[b] - providers[a])[0]
+    };
+  }
+
+  // Decide which resources become components
+  private classify(): void {
+    for (const entity of this.entities.values()) {
+      if (entity.mode === 'data') continue;
+      const mapping = this.rules.mappings[entity.type];
+
+      if (mapping) {
+        this.mapped.set(entity.address, mapping);
+        if (entity.repeated) {
+          this.warnings.push(`${entity.address} creates several instances (count/for_each); it is shown once`);
+        }
+      } else if (!this.rules.isSupporting(entity.type)) {
+        this.warnings.push(`Unsupported resource type ${entity.type} (${entity.address}) was skipped`);
+      }
+    }
+  }
+
+  // Supporting resources belong to the component that uses them, or failing that the one they use
+  private assignOwners(): void {
+    const isSupporting = (address: string) => !this.mapped.has(address) && this.entities.get(address)?.mode === 'resource';
+    const assign = (address: string, owner: string, ownership: Ownership) => {
+      if (!this.owners.has(address)) this.owners.set(address, { owner, ownership });
+    };
+
+    for (const address of this.mapped.keys()) {
+      const entity = this.entities.get(address) as GraphEntity;
+      entity.all.forEach(target => isSupporting(target) && assign(target, address, 'referenced'));
+    }
+
+    for (const entity of this.entities.values()) {
+      if (!isSupporting(entity.address)) continue;
+      const target = Array.from(entity.all).find(address => this.mapped.has(address) && !this.isContainer(address));
+      if (target) assign(entity.address, target, 'references');
+    }
+
+    let changed = true;
+    while (changed) {
+      changed = false;
+      for (const entity of this.entities.values()) {
+        if (!isSupporting(entity.address)) continue;
+        const owned = this.owners.get(entity.address);
+
+        if (owned) {
+          // Anything an owned supporting resource uses belongs to the same component
+          for (const target of entity.all) {
+            if (isSupporting(target) && !this.owners.has(target)) {
+              assign(target, owned.owner, 'inherited');
+              changed = true;
+            }
+          }
+        } else {
+          const target = Array.from(entity.all).find(address => this.owners.has(address));
+          if (target) {
+            assign(entity.address, (this.owners.get(target) as { owner: string }).owner, 'inherited');
+            changed = true;
+          }
+        }
+      }
+    }
+  }
+
+  private buildResources(): ImportedResource[] {
+    const resources: ImportedResource[] = [];
+    const zones = new Map<string, ImportedResource>();
+
+    for (const [address, mapping] of this.mapped) {
+      const entity = this.entities.get(address) as GraphEntity;
+      const region = this.known(this.rules.region?.(entity.read));
+      const resource: ImportedResource = {
+        id: address,
+        name: this.label(entity),
+        componentId: mapping.componentId,
+        properties: { ...this.properties(entity, mapping), ...(region ? { region } : {}) },
+        parentId: this.parentOf(entity),
+        source: entity.source,
+        change: entity.change
+      };
+
+      // Subnets sit in an availability zone container inside their network, one per zone
+      const zone = mapping.componentId === SUBNET ? this.known(this.rules.zone?.(entity.read)) : undefined;
+      if (zone && resource.parentId) {
+        const zoneId = `${resource.parentId}#${zone}`;
+        if (!zones.has(zoneId)) {
+          zones.set(zoneId, {
+            id: zoneId,
+            name: zone,
+            componentId: ZONE,
+            properties: { zoneName: zone, ...(region ? { region } : {}) },
+            parentId: resource.parentId,
+            source: entity.source
+          });
+        }
+        resource.parentId = zoneId;
+      }
+
+      resources.push(resource);
+    }
+
+    return [...zones.values(), ...resources];
+  }
+
+  // A literal value; unresolved interpolations from configuration files are left out
+  private known(value: unknown): string | undefined {
+    return typeof value === 'string' && value.trim() && !value.includes('${') ? value : undefined;
+  }
+
+  private label(entity: GraphEntity): string {
+    return this.known(this.rules.label(entity.read)) || humanize(entity.name);
+  }
+
+  private properties(entity: GraphEntity, mapping: ResourceMapping): Record<string, unknown> {
+    const known = ComponentRegistry.getInstance().getComponent(mapping.componentId)?.config.customProperties.map(property => property.id);
+    const properties: Record<string, unknown> = {};
+
+    for (const [propertyId, rule] of Object.entries(mapping.properties || {})) {
+      if (known && known.length > 0 && !known.includes(propertyId)) continue;
+      const value = typeof rule === 'string' ? entity.read(rule) : rule(entity.read);
+      if (value !== undefined && value !== null) properties[propertyId] = value;
+    }
+
+    return properties;
+  }
+
+  // Subnets hold what is attached to them; networks hold their subnets and anything spread over several
+  private parentOf(entity: GraphEntity): string | undefined {
+    const componentId = this.mapped.get(entity.address)?.componentId;
+    if (componentId === NETWORK) return undefined;
+
+    const sources = [entity, ...this.ownedBy(entity.address)];
+    const referenced = new Set(sources.flatMap(source => Array.from(source.all)));
+    const networks = (addresses: Iterable<string>) =>
+      Array.from(addresses).filter(address => this.mapped.get(address)?.componentId === NETWORK);
+
+    if (componentId === SUBNET) {
+      return networks(referenced)[0];
+    }
+
+    const subnets = Array.from(referenced).filter(address => this.mapped.get(address)?.componentId === SUBNET);
+    if (subnets.length === 1) return subnets[0];
+
+    const subnetNetworks = new Set(subnets.map(subnet => this.parentOf(this.entities.get(subnet) as GraphEntity)));
+    if (subnets.length > 1) {
+      const [network] = Array.from(subnetNetworks);
+      return subnetNetworks.size === 1 ? network : undefined;
+    }
+
+    // No subnet: a network the component or its security group sits in
+    const direct = networks(referenced);
+    const indirect = networks(Array.from(referenced).flatMap(address => Array.from(this.entities.get(address)?.all || [])));
+    const candidates = new Set(direct.length > 0 ? direct : indirect);
+    return candidates.size === 1 ? Array.from(candidates)[0] : undefined;
+  }
+
+  private ownedBy(owner: string): GraphEntity[] {
+    return Array.from(this.owners.entries())
+      .filter(([, owned]) => owned.owner === owner)
+      .map(([address]) => this.entities.get(address) as GraphEntity);
+  }
+
+  private buildLinks(): ImportedLink[] {
+    const links: ImportedLink[] = [];
+    const seen = new Set<string>();
+    const add = (from: string | undefined, to: string | undefined, label?: string) => {
+      if (!from || !to || from === to || this.isContainer(from) || this.isContainer(to)) return;
+      const key = [from, to].sort().join('|');
+      if (seen.has(key)) return;
+      seen.add(key);
+      links.push({ from, to, label, type: RelationshipType.DEPENDENCY });
+    };
+
+    for (const address of this.mapped.keys()) {
+      const entity = this.entities.get(address) as GraphEntity;
+      for (const target of entity.all) {
+        if (this.mapped.has(target)) {
+          add(address, target);
+        } else {
+          const owned = this.owners.get(target);
+          if (owned?.ownership === 'references') add(address, owned.owner);
+        }
+      }
+    }
+
+    for (const [address, { owner }] of this.owners) {
+      const entity = this.entities.get(address) as GraphEntity;
+      if (this.rules.edges[entity.type]) continue;
+      for (const target of entity.all) {
+        // A listener belongs to its load balancer and forwards to a target group that belongs to the instances
+        const owned = this.owners.get(target);
+        if (this.mapped.has(target)) add(owner, target);
+        else if (owned?.ownership === 'references') add(owner, owned.owner);
+      }
+    }
+
+    for (const entity of this.entities.values()) {
+      const rule = this.rules.edges[entity.type];
+      if (!rule || entity.mode !== 'resource') continue;
+
+      const [from, to] = rule.map(attribute => {
+        const [target] = Array.from(entity.references.get(attribute) || []);
+        return target ? this.representative(target) : undefined;
+      });
+      add(from, to);
+    }
+
+    return links;
+  }
+
+  // The component a resource appears as on the diagram
+  private representative(address: string): string | undefined {
+    return this.mapped.has(address) ? address : this.owners.get(address)?.owner;
+  }
+
+  private isContainer(address: string): boolean {
+    const componentId = this.mapped.get(address)?.componentId;
+    return componentId === NETWORK || componentId === SUBNET;
+  }
+}
+
+export function databaseEngine(engine: unknown): string | undefined {
+  if (typeof engine !== 'string') return undefined;
+  const value = engine.toLowerCase();
+  if (value.includes('postgres')) return 'postgresql';
+  if (value.includes('mysql') || value === 'aurora') return 'mysql';
+  if (value.includes('mariadb')) return 'mariadb';
+  if (value.includes('oracle')) return 'oracle';
+  if (value.includes('sqlserver')) return 'sqlserver';
+  return value;
+}
+
+export function optional<T>(value: unknown, convert: (value: unknown) => T): T | undefined {
+  return value === undefined || value === null ? undefined : convert(value);
+}
+
+export function humanize(name: string): string {
+  return name
+    .split(/[_\-\s]+/)
+    .filter(Boolean)
+    .map(word => word.charAt(0).toUpperCase() + word.slice(1))
+    .join(' ');
+}
+
+function countBy(values: (string | undefined)[]): Record<string, number> {
+  const counts: Record<string, number> = {};
+  values.forEach(value => {
+    if (value) counts[value] = (counts[value] || 0) + 1;
+  });
+  return counts;
+}
+
@@ -0,0 +1,235 @@
+import {
+  GraphEntity,
+  GraphRules,
+  NETWORK,
+  PropertyReader,
+  ResourceGraph,
+  ResourceMapping,
+  SUBNET,
+  analyzeResources,
+  databaseEngine,
+  optional
+} from './resource-graph';
+import { kebabCase } from '../export/naming';
+
+// Terraform resource types and how they appear on the diagram, whether they were read from
+// .tf files, a state file or a plan.
+
+const RESOURCE_MAPPINGS: Record<string, ResourceMapping> = {
+  // AWS
+  aws_vpc: { componentId: NETWORK, properties: { cidrBlock: 'cidr_block', enableDnsHostnames: 'enable_dns_hostnames' } },
+  aws_default_vpc: { componentId: NETWORK, properties: { enableDnsHostnames: 'enable_dns_hostnames' } },
+  aws_subnet: { componentId: SUBNET, properties: { cidrBlock: 'cidr_block', isPublic: 'map_public_ip_on_launch' } },
+  aws_default_subnet: { componentId: SUBNET, properties: { isPublic: 'map_public_ip_on_launch' } },
+  aws_instance: { componentId: 'generic-compute', properties: { instanceType: 'instance_type' } },
+  aws_db_instance: {
+    componentId: 'generic-database',
+    properties: {
+      engine: read => databaseEngine(read('engine')),
+      version: 'engine_version',
+      instanceClass: 'instance_class',
+      multiAz: 'multi_az'
+    }
+  },
+  aws_rds_cluster: {
+    componentId: 'generic-database',
+    properties: { engine: read => databaseEngine(read('engine')), version: 'engine_version' }
+  },
+  aws_s3_bucket: { componentId: 'generic-storage', properties: { bucketName: 'bucket' } },
+  aws_lambda_function: { componentId: 'aws-lambda', properties: { runtime: 'runtime', memorySize: 'memory_size', timeout: 'timeout' } },
+  aws_ecs_service: { componentId: 'aws-ecs', properties: { launchType: 'launch_type', desiredCount: 'desired_count' } },
+  aws_ecr_repository: {
+    componentId: 'aws-ecr',
+    properties: { repositoryName: 'name', imageTagMutability: 'image_tag_mutability', scanOnPush: 'image_scanning_configuration.scan_on_push' }
+  },
+  aws_dynamodb_table: {
+    componentId: 'aws-dynamodb',
+    properties: { tableName: 'name', partitionKey: 'hash_key', sortKey: 'range_key', billingMode: 'billing_mode' }
+  },
+  aws_elasticache_cluster: {
+    componentId: 'aws-elasticache',
+    properties: { engine: 'engine', nodeType: 'node_type', numCacheNodes: 'num_cache_nodes', port: 'port' }
+  },
+  aws_elasticache_replication_group: {
+    componentId: 'aws-elasticache',
+    properties: { engine: 'engine', nodeType: 'node_type', numCacheNodes: 'num_cache_clusters', port: 'port' }
+  },
+  aws_lb: {
+    componentId: 'aws-alb',
+    properties: {
+      name: 'name',
+      scheme: read => optional(read('internal'), internal => (internal === true ? 'internal' : 'internet-facing')),
+      ipAddressType: 'ip_address_type',
+      enableDeletionProtection: 'enable_deletion_protection'
+    }
+  },
+  aws_alb: { componentId: 'aws-alb', properties: { name: 'name' } },
+  aws_cloudfront_distribution: { componentId: 'aws-cloudfront', properties: { priceClass: 'price_class', enabled: 'enabled' } },
+  aws_api_gateway_rest_api: { componentId: 'aws-api-gateway', properties: { name: 'name', apiType: () => 'REST' } },
+  aws_apigatewayv2_api: { componentId: 'aws-api-gateway', properties: { name: 'name', apiType: 'protocol_type' } },
+  aws_ebs_volume: { componentId: 'aws-ebs', properties: { size: 'size', volumeType: 'type', encrypted: 'encrypted', iops: 'iops' } },
+  aws_efs_file_system: {
+    componentId: 'aws-efs',
+    properties: { performanceMode: 'performance_mode', throughputMode: 'throughput_mode', encrypted: 'encrypted' }
+  },
+  aws_elastic_beanstalk_environment: { componentId: 'aws-elastic-beanstalk' },
+
+  // Azure
+  azurerm_virtual_network: { componentId: NETWORK, properties: { cidrBlock: 'address_space.0' } },
+  azurerm_subnet: { componentId: SUBNET, properties: { cidrBlock: 'address_prefixes.0' } },
+  azurerm_linux_virtual_machine: { componentId: 'generic-compute', properties: { instanceType: 'size', operatingSystem: () => 'linux' } },
+  azurerm_windows_virtual_machine: { componentId: 'generic-compute', properties: { instanceType: 'size', operatingSystem: () => 'windows' } },
+  azurerm_virtual_machine: { componentId: 'generic-compute', properties: { instanceType: 'vm_size' } },
+  azurerm_postgresql_flexible_server: {
+    componentId: 'generic-database',
+    properties: { engine: () => 'postgresql', version: 'version', instanceClass: 'sku_name' }
+  },
+  azurerm_postgresql_server: { componentId: 'generic-database', properties: { engine: () => 'postgresql', version: 'version', instanceClass: 'sku_name' } },
+  azurerm_mysql_flexible_server: { componentId: 'generic-database', properties: { engine: () => 'mysql', version: 'version', instanceClass: 'sku_name' } },
+  azurerm_mysql_server: { componentId: 'generic-database', properties: { engine: () => 'mysql', version: 'version', instanceClass: 'sku_name' } },
+  azurerm_mssql_server: { componentId: 'generic-database', properties: { engine: () => 'sqlserver', version: 'version' } },
+  azurerm_storage_account: {
+    componentId: 'azure-storage-account',
+    properties: { accountName: 'name', kind: 'account_kind', replication: 'account_replication_type', accessTier: 'access_tier' }
+  },
+  azurerm_linux_function_app: { componentId: 'azure-functions' },
+  azurerm_windows_function_app: { componentId: 'azure-functions' },
+  azurerm_function_app: { componentId: 'azure-functions' },
+  azurerm_linux_web_app: { componentId: 'azure-app-service', properties: { appName: 'name' } },
+  azurerm_windows_web_app: { componentId: 'azure-app-service', properties: { appName: 'name' } },
+  azurerm_app_service: { componentId: 'azure-app-service', properties: { appName: 'name' } },
+  azurerm_container_group: {
+    componentId: 'azure-container-instances',
+    properties: { image: 'container.image', cpu: 'container.cpu', memory: 'container.memory', restartPolicy: 'restart_policy' }
+  },
+  azurerm_cosmosdb_account: {
+    componentId: 'azure-cosmos-db',
+    properties: { consistencyLevel: read => optional(read('consistency_policy.consistency_level'), value => kebabCase(String(value))) }
+  },
+  azurerm_redis_cache: {
+    componentId: 'azure-cache-redis',
+    properties: { tier: read => optional(read('sku_name'), value => String(value).toLowerCase()), capacity: 'capacity' }
+  },
+  azurerm_application_gateway: { componentId: 'azure-application-gateway' },
+  azurerm_cdn_profile: { componentId: 'azure-cdn' },
+  azurerm_cdn_frontdoor_profile: { componentId: 'azure-cdn' },
+  azurerm_key_vault: {
+    componentId: 'azure-key-vault',
+    properties: { vaultName: 'name', tier: 'sku_name', purgeProtection: 'purge_protection_enabled' }
+  },
+  azurerm_log_analytics_workspace: { componentId: 'azure-monitor', properties: { workspaceName: 'name', retentionDays: 'retention_in_days' } },
+
+  // Google Cloud
+  google_compute_network: { componentId: NETWORK },
+  google_compute_subnetwork: { componentId: SUBNET, properties: { cidrBlock: 'ip_cidr_range' } },
+  google_compute_instance: { componentId: 'generic-compute', properties: { instanceType: 'machine_type' } },
+  google_sql_database_instance: {
+    componentId: 'generic-database',
+    properties: {
+      engine: read => optional(read('database_version'), value => databaseEngine(String(value).split('_')[0])),
+      instanceClass: 'settings.tier'
+    }
+  },
+  google_storage_bucket: {
+    componentId: 'gcp-cloud-storage',
+    properties: {
+      bucketName: 'name',
+      storageClass: read => optional(read('storage_class'), value => String(value).toLowerCase()),
+      location: 'location'
+    }
+  },
+  google_cloudfunctions_function: { componentId: 'gcp-cloud-functions', properties: { runtime: 'runtime', memory: 'available_memory_mb', timeout: 'timeout' } },
+  google_cloudfunctions2_function: {
+    componentId: 'gcp-cloud-functions',
+    properties: { runtime: 'build_config.runtime', memory: 'service_config.available_memory', timeout: 'service_config.timeout_seconds' }
+  },
+  google_cloud_run_service: { componentId: 'gcp-cloud-run', properties: { image: 'template.spec.containers.image' } },
+  google_cloud_run_v2_service: { componentId: 'gcp-cloud-run', properties: { image: 'template.containers.image' } },
+  google_app_engine_application: { componentId: 'gcp-app-engine' },
+  google_redis_instance: {
+    componentId: 'gcp-memorystore',
+    properties: { tier: read => optional(read('tier'), value => String(value).toLowerCase()), memorySizeGb: 'memory_size_gb', version: 'redis_version' }
+  },
+  google_firestore_database: { componentId: 'gcp-cloud-firestore', properties: { databaseId: 'name', location: 'location_id' } },
+  google_spanner_instance: {
+    componentId: 'gcp-cloud-spanner',
+    properties: { instanceId: 'name', nodes: 'num_nodes', config: 'config', processingUnits: 'processing_units' }
+  },
+  google_pubsub_topic: { componentId: 'gcp-pub-sub', properties: { topicName: 'name', messageRetentionDuration: 'message_retention_duration' } },
+  google_secret_manager_secret: { componentId: 'gcp-secret-manager', properties: { secretName: 'secret_id' } },
+  google_compute_url_map: { componentId: 'gcp-cloud-load-balancing' }
+};
+
+// Supporting resources that are expected around the mapped ones and never need a warning
+const SUPPORTING_TYPES = new Set([
+  'aws_internet_gateway', 'aws_nat_gateway', 'aws_eip', 'aws_route_table', 'aws_route', 'aws_security_group',
+  'aws_db_subnet_group', 'aws_elasticache_subnet_group', 'aws_lb_target_group', 'aws_lb_listener', 'aws_lb_listener_rule',
+  'aws_alb_target_group', 'aws_alb_listener', 'aws_ecs_cluster', 'aws_ecs_task_definition', 'aws_iam_role',
+  'aws_iam_instance_profile', 'aws_cloudfront_origin_access_control', 'aws_cloudfront_origin_access_identity',
+  'aws_apigatewayv2_stage', 'aws_apigatewayv2_route', 'aws_api_gateway_deployment', 'aws_api_gateway_stage',
+  'aws_api_gateway_resource', 'aws_api_gateway_method', 'aws_api_gateway_integration', 'aws_efs_mount_target',
+  'aws_cloudwatch_log_group', 'aws_key_pair', 'aws_kms_key', 'aws_kms_alias',
+  'azurerm_resource_group', 'azurerm_network_interface', 'azurerm_network_security_group', 'azurerm_public_ip',
+  'azurerm_service_plan', 'azurerm_app_service_plan', 'azurerm_cdn_endpoint', 'azurerm_cdn_frontdoor_endpoint',
+  'azurerm_cosmosdb_sql_database', 'azurerm_cosmosdb_sql_container', 'azurerm_mssql_database',
+  'azurerm_postgresql_flexible_server_database', 'azurerm_mysql_flexible_database', 'azurerm_storage_container',
+  'azurerm_private_dns_zone', 'azurerm_private_endpoint',
+  'google_compute_firewall', 'google_compute_router', 'google_compute_router_nat', 'google_compute_address',
+  'google_compute_global_address', 'google_compute_backend_service', 'google_compute_backend_bucket',
+  'google_compute_target_http_proxy', 'google_compute_target_https_proxy', 'google_compute_global_forwarding_rule',
+  'google_compute_health_check', 'google_compute_instance_group', 'google_storage_bucket_object',
+  'google_pubsub_subscription', 'google_secret_manager_secret_version', 'google_sql_database', 'google_sql_user',
+  'google_service_account', 'google_project_service', 'google_vpc_access_connector'
+]);
+
+// Associations, attachments, rules and policies only glue other resources together
+const SUPPORTING_SUFFIX = /_(association|attachment|rule|policy|permission|mapping|integration|binding|member|version|versioning|configuration|block)$/;
+const SUPPORTING_PROVIDERS = new Set(['random', 'null', 'time', 'tls', 'local', 'archive', 'terraform']);
+
+// Supporting resources that stand for an arrow between two components: [from attribute, to attribute]
+const EDGE_RULES: Record<string, [string, string]> = {
+  aws_lb_target_group_attachment: ['target_group_arn', 'target_id'],
+  aws_volume_attachment: ['instance_id', 'volume_id'],
+  aws_vpc_security_group_ingress_rule: ['referenced_security_group_id', 'security_group_id'],
+  aws_security_group_rule: ['source_security_group_id', 'security_group_id'],
+  aws_lambda_permission: ['source_arn', 'function_name'],
+  aws_apigatewayv2_integration: ['api_id', 'integration_uri'],
+  aws_lambda_event_source_mapping: ['event_source_arn', 'function_name']
+};
+
+const PROVIDER_PREFIXES: Record<string, string> = {
+  aws: 'aws',
+  azurerm: 'azure',
+  google: 'gcp'
+};
+
+const TERRAFORM_RULES: GraphRules = {
+  mappings: RESOURCE_MAPPINGS,
+  isSupporting: type => SUPPORTING_TYPES.has(type) || SUPPORTING_SUFFIX.test(type) || SUPPORTING_PROVIDERS.has(type.split('_')[0]),
+  edges: EDGE_RULES,
+  provider: type => PROVIDER_PREFIXES[type.split('_')[0]],
+  label: read => read('tags.Name'),
+  region: terraformRegion,
+  zone: read => read('availability_zone')
+};
+
+// Google Cloud and Azure resources name their region; AWS keeps it in the ARN or the zone name
+function terraformRegion(read: PropertyReader): unknown {
+  const region = read('region') ?? read('location');
+  if (region !== undefined) return region;
+
+  const arn = read('arn');
+  if (typeof arn === 'string' && arn.startsWith('arn:')) return arn.split(':')[3] || undefined;
+
+  const zone = read('availability_zone');
+  return typeof zone === 'string' && /^[a-z]{2}(-[a-z]+)+-\d[a-z]$/.test(zone) ? zone.slice(0, -1) : undefined;
+}
+
+// Whether resources of a type become components of their own
+export function isComponentType(type: string): boolean {
+  return type in RESOURCE_MAPPINGS;
+}
+
+export function analyzeTerraform(entities: GraphEntity[]): ResourceGraph {
+  return analyzeResources(entities, TERRAFORM_RULES);
+}
@@ -0,0 +1,125 @@
+import { ComponentRegistry } from '../components/core/component-registry';
+import { importTerraform } from './terraform-import';
+
+const files: Record<string, string> = {
+  'shop/main.tf': `
+variable "instance_type" {
+  type    = string
+  default = "t3.small"
+  description = "Web server size"
+
+  validation {
+    condition     = contains(["t3.small", "t3.large"], var.instance_type)
+    error_message = "Unsupported size"
+  }
+}
+
+module "network" {
+  source = "./modules/network"
+  cidr   = "10.0.0.0/16"
+}
+
+resource "aws_security_group" "web" {
+  vpc_id = module.network.vpc_id
+}
+
+resource "aws_security_group" "db" {
+  vpc_id = module.network.vpc_id
+}
+
+resource "aws_security_group_rule" "web_to_db" {
+  type                     = "ingress"
+  source_security_group_id = aws_security_group.web.id
+  security_group_id        = aws_security_group.db.id
+}
+
+resource "aws_instance" "web" {
+  instance_type          = var.instance_type
+  subnet_id              = module.network.subnet_id
+  vpc_security_group_ids = [aws_security_group.web.id]
+  tags = {
+    Name = "Storefront"
+  }
+}
+
+resource "aws_db_instance" "orders" {
+  engine                 = "postgres"
+  vpc_security_group_ids = [aws_security_group.db.id]
+}
+
+resource "aws_budgets_budget" "monthly" {
+  limit_amount = "100"
+}
+`,
+  'shop/modules/network/main.tf': `
+variable "cidr" {}
+
+resource "aws_vpc" "this" {
+  cidr_block = var.cidr
+}
+
+resource "aws_subnet" "app" {
+  vpc_id            = aws_vpc.this.id
+  cidr_block        = cidrsubnet(var.cidr, 8, 1)
+  availability_zone = "us-east-1a"
+}
+
+output "vpc_id" {
+  value = aws_vpc.this.id
+}
+
+output "subnet_id" {
+  value = aws_subnet.app.id
+}
+`,
+  'shop/README.md': '# Shop'
+};
+
+describe('importTerraform', () => {
+  beforeAll(async () => {
+    await ComponentRegistry.getInstance().initialize();
+  });
+
+  it('expands local modules and follows references through their outputs', () => {
+    const diagram = importTerraform(files);
+    const byId = new Map(diagram.resources.map(resource => [resource.id, resource]));
+
+    expect(diagram.name).toBe('Shop');
+    expect(diagram.description).toBe('Imported from 2 Terraform files (AWS)');
+    expect(byId.get('module.network.aws_vpc.this')?.properties.cidrBlock).toBe('10.0.0.0/16');
+    expect(byId.get('module.network.aws_subnet.app')?.parentId).toBe('module.network.aws_vpc.this#us-east-1a');
+    expect(byId.get('aws_instance.web')).toMatchObject({ name: 'Storefront', parentId: 'module.network.aws_subnet.app', source: 'shop/main.tf:32' });
+  });
+
+  it('draws security group rules as arrows between the components that own the groups', () => {
+    const diagram = importTerraform(files);
+
+    expect(diagram.links.map(link => [link.from, link.to])).toEqual([['aws_instance.web', 'aws_db_instance.orders']]);
+    expect(diagram.resources.find(resource => resource.id === 'aws_db_instance.orders')?.parentId).toBe('module.network.aws_vpc.this');
+    expect(diagram.warnings).toEqual(['Unsupported resource type aws_budgets_budget (aws_budgets_budget.monthly) was skipped']);
+  });
+
+  it('turns root variables into parameters of the resources that use them', () => {
+    const { parameters, resources } = importTerraform(files);
+
+    expect(resources.find(resource => resource.id === 'aws_instance.web')?.properties.instanceType).toBe(`\${instance_type}`);
+    expect(parameters).toEqual([{
+      id: 'instance_type',
+      name: 'Instance Type',
+      description: 'Web server size',
+      type: 'select',
+      required: false,
+      defaultValue: 't3.small',
+      options: [{ value: 't3.small', label: 't3.small' }, { value: 't3.large', label: 't3.large' }],
+      affects: ['aws_instance.web']
+    }]);
+  });
+
+  it('warns about modules it cannot expand and rejects uploads without .tf files', () => {
+    const diagram = importTerraform({ 'main.tf': 'module "eks" {\n  source = "terraform-aws-modules/eks/aws"\n}\n' }, { name: 'Cluster' });
+
+    expect(diagram.name).toBe('Cluster');
+    expect(diagram.warnings).toEqual(['Module eks uses terraform-aws-modules/eks/aws, which is not part of the upload; its resources are not shown']);
+    expect(() => importTerraform({ 'README.md': '# Shop' })).toThrow('No Terraform (.tf) files found');
+  });
+});
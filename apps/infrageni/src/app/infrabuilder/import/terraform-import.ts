@@ -0,0 +1,338 @@
+import { PatternParameter } from '../patterns/core/pattern-types';
+import { HclAttribute, HclBlock, HclBody, HclExpression, evaluateHcl, getHclReferences, parseHcl } from './hcl';
+import { ImportedDiagram, ImportedResource } from './import-model';
+import { GraphEntity, humanize } from './resource-graph';
+import { analyzeTerraform } from './terraform-graph';
+
+// Reverse-engineers a diagram from Terraform configuration files.
+// Local modules are expanded in place (their resources are addressed module.<name>.<type>.<name>)
+// and references are followed through variables, locals and module outputs, so a subnet created
+// in a network module still contains the instance that uses its id in the root module. Root
+// variables become pattern parameters.
+
+export interface TerraformImportOptions {
+  name?: string;
+}
+
+interface TerraformModule {
+  prefix: string;
+  directory: string;
+  parent?: TerraformModule;
+  call?: HclBlock;
+  variables: Map<string, HclBlock>;
+  outputs: Map<string, HclBlock>;
+  locals: Map<string, HclAttribute>;
+}
+
+interface DeclaredEntity extends GraphEntity {
+  block: HclBlock;
+  module: TerraformModule;
+}
+
+// Import every .tf file in a directory tree (paths relative to the tree, as from a folder upload)
+export function importTerraform(files: Record<string, string>, options: TerraformImportOptions = {}): ImportedDiagram {
+  return new TerraformImporter(files, options).run();
+}
+
+class TerraformImporter {
+  private directories = new Map<string, { file: string; body: HclBody }[]>();
+  private modules = new Map<string, TerraformModule>();
+  private entities = new Map<string, DeclaredEntity>();
+  private warnings: string[] = [];
+
+  constructor(private files: Record<string, string>, private options: TerraformImportOptions) {}
+
+  run(): ImportedDiagram {
+    for (const [path, source] of Object.entries(this.files).sort(([a], [b]) => a.localeCompare(b))) {
+      const file = normalizePath(path);
+      if (!file.endsWith('.tf')) continue;
+
+      const directory = file.includes('/') ? file.slice(0, file.lastIndexOf('/')) : '';
+      this.directories.set(directory, [...(this.directories.get(directory) || []), { file, body: parseHcl(source, file) }]);
+    }
+
+    if (this.directories.size === 0) {
+      throw new Error('No Terraform (.tf) files found');
+    }
+
+    const root = this.findRoot();
+    this.loadModule(root, '');
+    for (const entity of this.entities.values()) {
+      this.collectReferences(entity, entity.block);
+    }
+
+    const graph = analyzeTerraform(Array.from(this.entities.values()));
+    const fileCount = Array.from(this.directories.values()).reduce((total, files) => total + files.length, 0);
+
+    return {
+      name: this.options.name || humanize(root.split('/').pop() || '') || 'Imported Terraform',
+      description: `Imported from ${fileCount} Terraform file${fileCount === 1 ? '' : 's'}${graph.provider ? ` (${graph.provider.toUpperCase()})` : ''}`,
+      resources: graph.resources,
+      links: graph.links,
+      parameters: this.buildParameters(graph.resources),
+      warnings: [...this.warnings, ...graph.warnings]
+    };
+  }
+
+  // The root module is the shallowest directory that no other directory uses as a module
+  private findRoot(): string {
+    const called = new Set<string>();
+    for (const [directory, files] of this.directories) {
+      for (const { body } of files) {
+        for (const block of body.blocks.filter(b => b.type === 'module')) {
+          const source = literal(block.attributes.source);
+          if (typeof source === 'string' && isLocalSource(source)) called.add(joinPath(directory, source));
+        }
+      }
+    }
+
+    const candidates = Array.from(this.directories.keys())
+      .filter(directory => !called.has(directory))
+      .sort((a, b) => depth(a) - depth(b) || a.localeCompare(b));
+    const roots = candidates.length > 0 ? candidates : Array.from(this.directories.keys()).sort();
+    const others = roots.slice(1).filter(directory => depth(directory) === depth(roots[0]));
+
+    if (others.length > 0) {
+      this.warnings.push(`Several root configurations found; imported ${roots[0] || 'the top-level directory'} and ignored ${others.join(', ')}`);
+    }
+    return roots[0];
+  }
+
+  private loadModule(directory: string, prefix: string, parent?: TerraformModule, call?: HclBlock): void {
+    const module: TerraformModule = {
+      prefix,
+      directory,
+      parent,
+      call,
+      variables: new Map(),
+      outputs: new Map(),
+      locals: new Map()
+    };
+    this.modules.set(prefix, module);
+
+    for (const { file, body } of this.directories.get(directory) || []) {
+      for (const block of body.blocks) {
+        const [first, second] = block.labels;
+
+        switch (block.type) {
+          case 'resource':
+          case 'data': {
+            if (!first || !second) break;
+            const address = `${prefix}${block.type === 'data' ? 'data.' : ''}${first}.${second}`;
+            const entity: DeclaredEntity = {
+              address,
+              mode: block.type,
+              type: first,
+              name: second,
+              source: `${file}:${block.line}`,
+              read: path => this.read(entity, path),
+              references: new Map(),
+              all: new Set(),
+              repeated: !!(block.attributes.count || block.attributes.for_each),
+              block,
+              module
+            };
+            this.entities.set(address, entity);
+            break;
+          }
+          case 'variable':
+            if (first) module.variables.set(first, block);
+            break;
+          case 'output':
+            if (first) module.outputs.set(first, block);
+            break;
+          case 'locals':
+            for (const [name, attribute] of Object.entries(block.attributes)) module.locals.set(name, attribute);
+            break;
+          case 'module': {
+            if (!first) break;
+            const source = literal(block.attributes.source);
+            const childDirectory = typeof source === 'string' && isLocalSource(source) ? joinPath(directory, source) : undefined;
+
+            if (childDirectory === undefined) {
+              this.warnings.push(`Module ${first} uses ${typeof source === 'string' ? source : 'a computed source'}, which is not part of the upload; its resources are not shown`);
+            } else if (!this.directories.has(childDirectory)) {
+              this.warnings.push(`Module ${first} points at ${childDirectory || '.'}, which has no .tf files in the upload`);
+            } else if (prefix.split('module.').length > 8 || prefix.includes(`module.${first}.`)) {
+              this.warnings.push(`Module ${first} is nested too deeply and was not expanded`);
+            } else {
+              this.loadModule(childDirectory, `${prefix}module.${first}.`, module, block);
+            }
+            break;
+          }
+        }
+      }
+    }
+  }
+
+  // Everything a resource refers to, resolved to resource and data source addresses
+  private collectReferences(entity: DeclaredEntity, body: HclBody): void {
+    for (const [name, attribute] of Object.entries(body.attributes)) {
+      const targets = this.resolveExpression(attribute.expression, entity.module).filter(address => address !== entity.address);
+      if (targets.length === 0) continue;
+
+      const set = entity.references.get(name) || new Set<string>();
+      targets.forEach(address => {
+        set.add(address);
+        entity.all.add(address);
+      });
+      entity.references.set(name, set);
+    }
+
+    for (const block of body.blocks) {
+      if (block.type !== 'lifecycle') this.collectReferences(entity, block);
+    }
+  }
+
+  private resolveExpression(expression: HclExpression, module: TerraformModule, level = 0): string[] {
+    return getHclReferences(expression).flatMap(reference => this.resolve(reference, module, level));
+  }
+
+  // Resource addresses a reference ends up at, following variables, locals and module outputs
+  private resolve(reference: string, module: TerraformModule, level: number): string[] {
+    if (level > 20) return [];
+    const [root, first, second] = reference.split('.');
+    if (!first) return [];
+
+    switch (root) {
+      case 'var': {
+        const input = module.call?.attributes[first];
+        return module.parent && input ? this.resolveExpression(input.expression, module.parent, level + 1) : [];
+      }
+      case 'local': {
+        const local = module.locals.get(first);
+        return local ? this.resolveExpression(local.expression, module, level + 1) : [];
+      }
+      case 'module': {
+        const child = this.modules.get(`${module.prefix}module.${first}.`);
+        const output = second ? child?.outputs.get(second)?.attributes.value : undefined;
+        return child && output ? this.resolveExpression(output.expression, child, level + 1) : [];
+      }
+      case 'data': {
+        const address = `${module.prefix}data.${first}.${second}`;
+        return this.entities.has(address) ? [address] : [];
+      }
+      default: {
+        const address = `${module.prefix}${root}.${first}`;
+        return this.entities.has(address) ? [address] : [];
+      }
+    }
+  }
+
+  // Value at a dotted path through attributes, nested blocks, lists and objects
+  private read(entity: DeclaredEntity, path: string): unknown {
+    const steps = path.split('.');
+    let body: HclBody = entity.block;
+
+    while (steps.length > 1 && !body.attributes[steps[0]]) {
+      const block = body.blocks.find(b => b.type === steps[0]);
+      if (!block) return undefined;
+      body = block;
+      steps.shift();
+    }
+
+    const attribute = body.attributes[steps.shift() as string];
+    let value = attribute ? this.evaluate(attribute.expression, entity.module, 0) : undefined;
+    for (const step of steps) {
+      if (value === undefined || value === null || typeof value !== 'object') return undefined;
+      value = (value as Record<string, unknown>)[step];
+    }
+    return value;
+  }
+
+  // Literal values, with root variables kept as ${name} placeholders for pattern parameters
+  private evaluate(expression: HclExpression, module: TerraformModule, level: number): unknown {
+    if (level > 20) return undefined;
+
+    if (expression.kind === 'traversal' && expression.path.length === 1 && typeof expression.path[0] === 'string') {
+      const name = expression.path[0];
+
+      if (expression.root === 'var') {
+        const input = module.call?.attributes[name];
+        if (module.parent && input) return this.evaluate(input.expression, module.parent, level + 1);
+        const variable = module.variables.get(name);
+        if (!module.parent && variable) return `\${${name}}`;
+        return literal(variable?.attributes.default);
+      }
+      if (expression.root === 'local') {
+        const local = module.locals.get(name);
+        return local ? this.evaluate(local.expression, module, level + 1) : undefined;
+      }
+    }
+
+    return evaluateHcl(expression);
+  }
+
+  private buildParameters(resources: ImportedResource[]): PatternParameter[] {
+    const root = this.modules.get('') as TerraformModule;
+    const parameters: PatternParameter[] = [];
+
+    for (const [name, block] of root.variables) {
+      const defaultValue = literal(block.attributes.default);
+      const description = literal(block.attributes.description);
+      const options = this.allowedValues(block, name);
+      const placeholder = `\${${name}}`;
+
+      parameters.push({
+        id: name,
+        name: humanize(name),
+        description: typeof description === 'string' ? description : '',
+        type: options ? 'select' : parameterType(block.attributes.type?.expression),
+        required: !block.attributes.default,
+        defaultValue: defaultValue === null ? undefined : defaultValue,
+        options: options?.map(value => ({ value, label: String(value) })),
+        affects: resources
+          .filter(resource => Object.values(resource.properties).includes(placeholder))
+          .map(resource => resource.id)
+      });
+    }
+
+    return parameters;
+  }
+
+  // `condition = contains([...], var.x)` is how Terraform spells an enumeration
+  private allowedValues(block: HclBlock, name: string): unknown[] | undefined {
+    for (const validation of block.blocks.filter(b => b.type === 'validation')) {
+      const condition = validation.attributes.condition?.expression;
+      if (condition?.kind !== 'call' || condition.name !== 'contains') continue;
+
+      const [list, value] = condition.args;
+      const values = list ? evaluateHcl(list) : undefined;
+      if (Array.isArray(values) && value && getHclReferences(value).includes(`var.${name}`)) return values;
+    }
+    return undefined;
+  }
+}
+
+function literal(attribute?: HclAttribute): unknown {
+  return attribute ? evaluateHcl(attribute.expression) : undefined;
+}
+
+function parameterType(expression?: HclExpression): PatternParameter['type'] {
+  if (expression?.kind !== 'traversal') return 'string';
+  if (expression.root === 'number') return 'number';
+  if (expression.root === 'bool') return 'boolean';
+  return 'string';
+}
+
+function isLocalSource(source: string): boolean {
+  return source.startsWith('./') || source.startsWith('../');
+}
+
+function normalizePath(path: string): string {
+  return joinPath('', path.replace(/\\/g, '/'));
+}
+
+function joinPath(directory: string, relative: string): string {
+  const parts: string[] = [];
+  for (const part of [...directory.split('/'), ...relative.split('/')]) {
+    if (!part || part === '.') continue;
+    if (part === '..') parts.pop();
+    else parts.push(part);
+  }
+  return parts.join('/');
+}
+
+function depth(path: string): number {
+  return path ? path.split(/[/.]/).length : 0;
+}
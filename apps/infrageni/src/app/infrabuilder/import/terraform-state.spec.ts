@@ -0,0 +1,179 @@
+import { ComponentRegistry } from '../components/core/component-registry';
+import { importTerraformState } from './terraform-state';
+
+const ARN = 'arn:aws:ec2:us-east-1:123456789012';
+
+const state = {
+  version: 4,
+  terraform_version: '1.7.5',
+  resources: [
+    {
+      mode: 'managed',
+      type: 'aws_vpc',
+      name: 'main',
+      instances: [{ attributes: { id: 'vpc-0a1', arn: `${ARN}:vpc/vpc-0a1`, cidr_block: '10.20.0.0/16', tags: { Name: 'prod' } } }]
+    },
+    {
+      mode: 'managed',
+      type: 'aws_subnet',
+      name: 'public',
+      instances: [
+        {
+          index_key: 0,
+          attributes: {
+            id: 'subnet-0p0', arn: `${ARN}:subnet/subnet-0p0`, vpc_id: 'vpc-0a1', cidr_block: '10.20.0.0/24',
+            availability_zone: 'us-east-1a', map_public_ip_on_launch: true
+          }
+        },
+        {
+          index_key: 1,
+          attributes: {
+            id: 'subnet-0p1', arn: `${ARN}:subnet/subnet-0p1`, vpc_id: 'vpc-0a1', cidr_block: '10.20.1.0/24',
+            availability_zone: 'us-east-1b', map_public_ip_on_launch: true
+          }
+        }
+      ]
+    },
+    {
+      mode: 'managed',
+      type: 'aws_subnet',
+      name: 'private',
+      instances: [{
+        attributes: { id: 'subnet-0q0', arn: `${ARN}:subnet/subnet-0q0`, vpc_id: 'vpc-0a1', cidr_block: '10.20.10.0/24', availability_zone: 'us-east-1a' }
+      }]
+    },
+    {
+      mode: 'managed',
+      type: 'aws_instance',
+      name: 'web',
+      instances: [{
+        attributes: { id: 'i-0w', arn: `${ARN}:instance/i-0w`, instance_type: 't3.large', subnet_id: 'subnet-0p0', tags: { Name: 'web-1' } }
+      }]
+    },
+    {
+      mode: 'managed',
+      type: 'aws_s3_bucket',
+      name: 'assets',
+      instances: [{ attributes: { id: 'shop-assets', arn: 'arn:aws:s3:::shop-assets', bucket: 'shop-assets' } }]
+    },
+    {
+      mode: 'managed',
+      type: 'aws_sagemaker_domain',
+      name: 'ml',
+      instances: [{ attributes: { id: 'd-1' } }]
+    }
+  ]
+};
+
+const plan = {
+  format_version: '1.2',
+  resource_changes: [
+    {
+      address: 'aws_vpc.main', mode: 'managed', type: 'aws_vpc', name: 'main',
+      change: { actions: ['no-op'], before: { id: 'vpc-0a1', cidr_block: '10.0.0.0/16' }, after: { id: 'vpc-0a1', cidr_block: '10.0.0.0/16' } }
+    },
+    {
+      address: 'aws_subnet.app', mode: 'managed', type: 'aws_subnet', name: 'app',
+      change: { actions: ['create'], before: null, after: { cidr_block: '10.0.1.0/24', availability_zone: 'eu-west-1c' } }
+    },
+    {
+      address: 'aws_instance.api', mode: 'managed', type: 'aws_instance', name: 'api',
+      change: { actions: ['update'], before: { id: 'i-1', instance_type: 't3.small' }, after: { id: 'i-1', instance_type: 't3.medium' } }
+    },
+    {
+      address: 'aws_db_instance.legacy', mode: 'managed', type: 'aws_db_instance', name: 'legacy',
+      change: { actions: ['delete'], before: { id: 'legacy', engine: 'mysql' }, after: null }
+    },
+    {
+      address: 'aws_lambda_function.worker', mode: 'managed', type: 'aws_lambda_function', name: 'worker',
+      change: { actions: ['delete', 'create'], before: { function_name: 'worker', runtime: 'nodejs18.x' }, after: { function_name: 'worker', runtime: 'nodejs20.x' } }
+    }
+  ],
+  configuration: {
+    provider_config: { aws: { name: 'aws', expressions: { region: { constant_value: 'eu-west-1' } } } },
+    root_module: {
+      resources: [
+        { address: 'aws_subnet.app', expressions: { vpc_id: { references: ['aws_vpc.main.id', 'aws_vpc.main'] } } },
+        { address: 'aws_instance.api', expressions: { subnet_id: { references: ['aws_subnet.app.id', 'aws_subnet.app'] } } }
+      ]
+    }
+  }
+};
+
+describe('importTerraformState', () => {
+  beforeAll(async () => {
+    await ComponentRegistry.getInstance().initialize();
+  });
+
+  it('rebuilds containment from resolved ids and keeps real sizes and CIDRs', () => {
+    const diagram = importTerraformState(JSON.stringify(state));
+    const byId = new Map(diagram.resources.map(resource => [resource.id, resource]));
+
+    expect(byId.get('aws_vpc.main')?.name).toBe('prod');
+    expect(byId.get('aws_vpc.main')?.properties.cidrBlock).toBe('10.20.0.0/16');
+    expect(byId.get('aws_instance.web')?.parentId).toBe('aws_subnet.public[0]');
+    expect(byId.get('aws_instance.web')?.properties.instanceType).toBe('t3.large');
+    expect(byId.get('aws_subnet.public[0]')?.properties.isPublic).toBe(true);
+  });
+
+  it('groups subnets into availability zone containers inside their VPC', () => {
+    const diagram = importTerraformState(JSON.stringify(state));
+    const zones = diagram.resources.filter(resource => resource.componentId === 'generic-availability-zone');
+    const parentOf = (id: string) => diagram.resources.find(resource => resource.id === id)?.parentId;
+
+    expect(zones.map(zone => [zone.name, zone.parentId, zone.properties.zoneName])).toEqual([
+      ['us-east-1a', 'aws_vpc.main', 'us-east-1a'],
+      ['us-east-1b', 'aws_vpc.main', 'us-east-1b']
+    ]);
+    expect(parentOf('aws_subnet.public[0]')).toBe(zones[0].id);
+    expect(parentOf('aws_subnet.private')).toBe(zones[0].id);
+    expect(parentOf('aws_subnet.public[1]')).toBe(zones[1].id);
+  });
+
+  it('keeps the region each resource was deployed to', () => {
+    const diagram = importTerraformState(JSON.stringify(state));
+    const region = (id: string) => diagram.resources.find(resource => resource.id === id)?.properties.region;
+
+    expect(region('aws_vpc.main')).toBe('us-east-1');
+    expect(region('aws_instance.web')).toBe('us-east-1');
+    // S3 ARNs are global and carry no region
+    expect(region('aws_s3_bucket.assets')).toBeUndefined();
+    expect(diagram.description).toBe('Deployed resources from Terraform state (AWS, us-east-1)');
+  });
+
+  it('warns about resource types it cannot draw', () => {
+    const diagram = importTerraformState(JSON.stringify(state));
+
+    expect(diagram.warnings).toEqual([expect.stringContaining('aws_sagemaker_domain')]);
+  });
+
+  it('marks each planned resource with its action and follows configuration references', () => {
+    const diagram = importTerraformState(JSON.stringify(plan));
+    const byId = new Map(diagram.resources.map(resource => [resource.id, resource]));
+
+    expect(byId.get('aws_vpc.main')?.change).toBeUndefined();
+    expect(byId.get('aws_subnet.app')?.change).toBe('create');
+    expect(byId.get('aws_instance.api')?.change).toBe('update');
+    expect(byId.get('aws_instance.api')?.properties.instanceType).toBe('t3.medium');
+    expect(byId.get('aws_db_instance.legacy')?.change).toBe('delete');
+    expect(byId.get('aws_lambda_function.worker')?.change).toBe('replace');
+    expect(byId.get('aws_instance.api')?.parentId).toBe('aws_subnet.app');
+    expect(diagram.description).toBe('Planned changes from Terraform (AWS, eu-west-1): 1 to create, 1 to update, 1 to replace, 1 to destroy');
+  });
+
+  it('uses the configured provider region for planned resources that do not record one', () => {
+    const diagram = importTerraformState(JSON.stringify(plan));
+    const subnet = diagram.resources.find(resource => resource.id === 'aws_subnet.app');
+    const zone = diagram.resources.find(resource => resource.id === subnet?.parentId);
+
+    expect(zone?.componentId).toBe('generic-availability-zone');
+    expect(zone?.properties.zoneName).toBe('eu-west-1c');
+    expect(diagram.resources.every(resource => resource.properties.region === 'eu-west-1')).toBe(true);
+  });
+
+  it('rejects JSON that is neither a state nor a plan', () => {
+    expect(() => importTerraformState('{"foo": 1}')).toThrow(/Not a Terraform state or plan/);
+    expect(() => importTerraformState('not json')).toThrow(/Not valid JSON/);
+    expect(() => importTerraformState(JSON.stringify({ version: 3, resources: [] }))).toThrow(/version 3/);
+  });
+});
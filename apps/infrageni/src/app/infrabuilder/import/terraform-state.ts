@@ -0,0 +1,367 @@
+import { ImportedChange, ImportedDiagram, ImportedResource } from './import-model';
+import { GraphEntity } from './resource-graph';
+import { analyzeTerraform, isComponentType } from './terraform-graph';
+
+// Draws what Terraform actually manages, from terraform.tfstate or the JSON written by
+// `terraform show -json` for a state or a plan. State files only keep resolved values, so
+// references are recovered by matching attribute values against other resources' ids, ARNs,
+// names and endpoints. Plans also carry the configuration's references, which still connect
+// resources whose ids are not known until apply, and every resource gets its planned action.
+// Subnets are grouped into the availability zones they were created in, and resources keep
+// the region they were deployed to.
+
+export interface TerraformStateImportOptions {
+  name?: string;
+}
+
+// Raw JSON as written by Terraform; only the fields read here are typed
+interface StateResource {
+  module?: string;
+  mode: 'managed' | 'data';
+  type: string;
+  name: string;
+  instances: { index_key?: number | string; attributes?: Record<string, unknown> }[];
+}
+
+interface ModuleValues {
+  resources?: { address: string; mode: 'managed' | 'data'; type: string; name: string; index?: number | string; values?: Record<string, unknown> }[];
+  child_modules?: ModuleValues[];
+}
+
+interface ResourceChange {
+  address: string;
+  mode: 'managed' | 'data';
+  type: string;
+  name: string;
+  index?: number | string;
+  change: { actions: string[]; before?: Record<string, unknown> | null; after?: Record<string, unknown> | null };
+}
+
+interface ConfigExpression {
+  references?: string[];
+  constant_value?: unknown;
+}
+
+interface ProviderConfig {
+  name?: string;
+  expressions?: Record<string, ConfigExpression>;
+}
+
+interface ConfigModule {
+  resources?: { address: string; expressions?: Record<string, unknown> }[];
+  outputs?: Record<string, { expression?: ConfigExpression }>;
+  module_calls?: Record<string, { expressions?: Record<string, ConfigExpression>; module?: ConfigModule }>;
+}
+
+interface ConfigScope {
+  prefix: string;
+  config: ConfigModule;
+  parent?: ConfigScope;
+  inputs?: Record<string, ConfigExpression>;
+}
+
+interface StateEntity extends GraphEntity {
+  values: Record<string, unknown>;
+}
+
+// Attributes that identify a resource when another resource stores them
+const IDENTITY_KEYS = [
+  'id', 'arn', 'self_link', 'name', 'address', 'endpoint', 'dns_name', 'fqdn', 'fully_qualified_domain_name',
+  'default_hostname', 'domain_name', 'hostname', 'host', 'bucket', 'function_name', 'invoke_arn', 'execution_arn',
+  'qualified_arn', 'repository_url', 'uri', 'url', 'connection_name', 'secret_id', 'vault_uri', 'api_endpoint',
+  'private_ip', 'private_ip_address'
+];
+
+// Attributes describing the resource itself rather than pointing at another one
+const OWN_KEYS = new Set(['id', 'arn', 'name', 'self_link', 'tags', 'tags_all', 'labels', 'description', 'timeouts']);
+
+// Parse a state or plan; throws when the JSON is neither
+export function importTerraformState(source: string, options: TerraformStateImportOptions = {}): ImportedDiagram {
+  let json: Record<string, unknown>;
+  try {
+    json = JSON.parse(source);
+  } catch (error) {
+    throw new Error(`Not valid JSON: ${error instanceof Error ? error.message : String(error)}`);
+  }
+
+  if (Array.isArray(json.resource_changes)) {
+    return importPlan(json, options);
+  }
+
+  let entities: StateEntity[];
+  if (json.values && typeof json.values === 'object') {
+    entities = fromModuleValues((json.values as { root_module?: ModuleValues }).root_module);
+  } else if (Array.isArray(json.resources)) {
+    if (Number(json.version) < 4) {
+      throw new Error(`State format version ${json.version} is not supported; refresh it with Terraform 0.12 or later`);
+    }
+    entities = fromStateResources(json.resources as StateResource[]);
+  } else {
+    throw new Error('Not a Terraform state or plan: expected "resources", "values" or "resource_changes"');
+  }
+
+  linkByValue(entities);
+  const graph = analyzeTerraform(entities);
+
+  return {
+    name: options.name || 'Terraform state',
+    description: `Deployed resources from Terraform state${describeLocation(graph.provider, graph.resources)}`,
+    resources: graph.resources,
+    links: graph.links,
+    parameters: [],
+    warnings: graph.warnings
+  };
+}
+
+function importPlan(json: Record<string, unknown>, options: TerraformStateImportOptions): ImportedDiagram {
+  const changes = json.resource_changes as ResourceChange[];
+  const entities = changes.map(change => {
+    const action = planAction(change.change.actions);
+    const values = (action === 'delete' ? change.change.before : change.change.after ?? change.change.before) || {};
+    const entity = createEntity(change.address, change.mode, change.type, change.name, change.index, values, 'plan');
+    if (change.mode === 'managed') entity.change = action;
+    return entity;
+  });
+
+  linkByValue(entities);
+  const configuration = json.configuration as { root_module?: ConfigModule; provider_config?: Record<string, ProviderConfig> } | undefined;
+  if (configuration?.root_module) {
+    linkByConfiguration(entities, { prefix: '', config: configuration.root_module });
+  }
+
+  const graph = analyzeTerraform(entities);
+  applyProviderRegion(graph.resources, configuration?.provider_config);
+  const counts = { create: 0, update: 0, replace: 0, delete: 0 };
+  entities.forEach(entity => entity.change && counts[entity.change]++);
+  const summary = [
+    `${counts.create} to create`,
+    `${counts.update} to update`,
+    counts.replace > 0 ? `${counts.replace} to replace` : '',
+    `${counts.delete} to destroy`
+  ].filter(Boolean).join(', ');
+
+  return {
+    name: options.name || 'Terraform plan',
+    description: `Planned changes from Terraform${describeLocation(graph.provider, graph.resources)}: ${summary}`,
+    resources: graph.resources,
+    links: graph.links,
+    parameters: [],
+    warnings: graph.warnings
+  };
+}
+
+// Terraform lists replacements as delete+create (or create+delete for create_before_destroy)
+function planAction(actions: string[]): ImportedChange | undefined {
+  if (actions.includes('delete') && actions.includes('create')) return 'replace';
+  if (actions.includes('create')) return 'create';
+  if (actions.includes('delete')) return 'delete';
+  if (actions.includes('update')) return 'update';
+  return undefined;
+}
+
+// Resources whose attributes do not name a region are deployed to the provider's configured one
+function applyProviderRegion(resources: ImportedResource[], providers: Record<string, ProviderConfig> = {}): void {
+  const regions = Object.values(providers)
+    .map(provider => provider.expressions?.region?.constant_value)
+    .filter((region): region is string => typeof region === 'string');
+  // With several clouds or aliased regions there is no telling which one a resource used
+  if (new Set(regions).size !== 1) return;
+
+  for (const resource of resources) {
+    if (resource.properties.region === undefined) resource.properties.region = regions[0];
+  }
+}
+
+function describeLocation(provider: string | undefined, resources: ImportedResource[]): string {
+  const regions = Array.from(new Set(resources.map(resource => resource.properties.region).filter(region => typeof region === 'string')));
+  const parts = [provider?.toUpperCase(), ...regions].filter(Boolean);
+  return parts.length > 0 ? ` (${parts.join(', ')})` : '';
+}
+
+function fromStateResources(resources: StateResource[]): StateEntity[] {
+  return resources.flatMap(resource =>
+    (resource.instances || []).map(instance => {
+      const base = `${resource.module ? `${resource.module}.` : ''}${resource.mode === 'data' ? 'data.' : ''}${resource.type}.${resource.name}`;
+      return createEntity(`${base}${indexSuffix(instance.index_key)}`, resource.mode, resource.type, resource.name, instance.index_key, instance.attributes || {}, 'terraform.tfstate');
+    })
+  );
+}
+
+function fromModuleValues(module?: ModuleValues): StateEntity[] {
+  if (!module) return [];
+  return [
+    ...(module.resources || []).map(resource =>
+      createEntity(resource.address, resource.mode, resource.type, resource.name, resource.index, resource.values || {}, 'state')
+    ),
+    ...(module.child_modules || []).flatMap(fromModuleValues)
+  ];
+}
+
+function createEntity(
+  address: string,
+  mode: 'managed' | 'data',
+  type: string,
+  name: string,
+  index: number | string | undefined,
+  values: Record<string, unknown>,
+  source: string
+): StateEntity {
+  return {
+    address,
+    mode: mode === 'data' ? 'data' : 'resource',
+    type,
+    name: index === undefined ? name : `${name}_${index}`,
+    source: `${source} ${address}`,
+    read: path => readValue(values, path),
+    references: new Map(),
+    all: new Set(),
+    values
+  };
+}
+
+function indexSuffix(key?: number | string): string {
+  if (key === undefined) return '';
+  return typeof key === 'number' ? `[${key}]` : `[${JSON.stringify(key)}]`;
+}
+
+// Nested blocks are stored as lists of objects; a named step into a list reads its first element
+function readValue(values: Record<string, unknown>, path: string): unknown {
+  let value: unknown = values;
+  for (const step of path.split('.')) {
+    if (Array.isArray(value) && !/^\d+$/.test(step)) value = value[0];
+    if (value === undefined || value === null || typeof value !== 'object') return undefined;
+    value = (value as Record<string, unknown>)[step];
+  }
+  return value;
+}
+
+// Connect resources that store another resource's id, ARN, self link, name or endpoint
+function linkByValue(entities: StateEntity[]): void {
+  const index = new Map<string, StateEntity[]>();
+  const names = new Map<string, number>();
+
+  for (const entity of entities) {
+    const name = entity.values.name;
+    if (typeof name === 'string') names.set(normalizeValue(name), (names.get(normalizeValue(name)) || 0) + 1);
+  }
+
+  for (const entity of entities) {
+    for (const key of IDENTITY_KEYS) {
+      const value = entity.values[key];
+      if (typeof value !== 'string' || value.length < 4) continue;
+
+      const normalized = normalizeValue(value);
+      // Names are only trusted when a single resource has them
+      if (key === 'name' && names.get(normalized) !== 1) continue;
+      const list = index.get(normalized) || [];
+      if (!list.includes(entity)) list.push(entity);
+      index.set(normalized, list);
+    }
+  }
+
+  const visit = (entity: StateEntity, key: string, value: unknown) => {
+    if (typeof value === 'string') {
+      const candidates = (index.get(normalizeValue(value)) || []).filter(candidate => candidate !== entity);
+      // Several resources share an id when supporting resources are keyed by their parent (S3 bucket settings)
+      const components = candidates.filter(candidate => isComponentType(candidate.type));
+      for (const target of components.length > 0 ? components : candidates) {
+        addReference(entity, key, target.address);
+      }
+    } else if (Array.isArray(value)) {
+      value.forEach(item => visit(entity, key, item));
+    } else if (value && typeof value === 'object') {
+      Object.entries(value as Record<string, unknown>).forEach(([nestedKey, nested]) => visit(entity, nestedKey, nested));
+    }
+  };
+
+  for (const entity of entities) {
+    for (const [key, value] of Object.entries(entity.values)) {
+      if (!OWN_KEYS.has(key)) visit(entity, key, value);
+    }
+  }
+}
+
+// Provider APIs mix full and relative resource URLs and Azure ids are case-insensitive
+function normalizeValue(value: string): string {
+  return value
+    .replace(/^https:\/\/www\.googleapis\.com\/compute\/(v1|beta)\//, '')
+    .replace(/^(arn:aws:execute-api:[^/]+)\/.*$/, '$1')
+    .toLowerCase();
+}
+
+// Follow the plan's configuration references, resolving variables and module outputs
+function linkByConfiguration(entities: StateEntity[], root: ConfigScope): void {
+  const instances = new Map<string, StateEntity[]>();
+  for (const entity of entities) {
+    const base = entity.address.replace(/\[[^\]]*\]/g, '');
+    instances.set(base, [...(instances.get(base) || []), entity]);
+  }
+
+  const resolve = (reference: string, scope: ConfigScope, level: number): string[] => {
+    if (level > 20) return [];
+    const [head, first, second] = reference.split('.');
+    if (!first) return [];
+
+    switch (head) {
+      case 'var': {
+        const input = scope.inputs?.[first];
+        return scope.parent && input ? resolveAll(input.references, scope.parent, level + 1) : [];
+      }
+      case 'module': {
+        const call = scope.config.module_calls?.[first];
+        const output = second ? call?.module?.outputs?.[second]?.expression : undefined;
+        if (!call?.module || !output) return [];
+        const child: ConfigScope = { prefix: `${scope.prefix}module.${first}.`, config: call.module, parent: scope, inputs: call.expressions };
+        return resolveAll(output.references, child, level + 1);
+      }
+      case 'data':
+        return second ? [`${scope.prefix}data.${first}.${second}`] : [];
+      case 'local':
+      case 'each':
+      case 'count':
+      case 'path':
+      case 'self':
+      case 'terraform':
+        return [];
+      default:
+        return [`${scope.prefix}${head}.${first}`];
+    }
+  };
+  const resolveAll = (references: string[] | undefined, scope: ConfigScope, level: number): string[] =>
+    (references || []).flatMap(reference => resolve(reference, scope, level));
+
+  const walk = (expressions: Record<string, unknown>, scope: ConfigScope, targets: StateEntity[]) => {
+    for (const [key, value] of Object.entries(expressions)) {
+      const expression = value as ConfigExpression;
+      if (expression && Array.isArray(expression.references)) {
+        const addresses = resolveAll(expression.references, scope, 0).flatMap(address => instances.get(address) || []);
+        targets.forEach(entity => addresses.forEach(target => target !== entity && addReference(entity, key, target.address)));
+      } else if (Array.isArray(value)) {
+        value.forEach(item => item && typeof item === 'object' && walk(item as Record<string, unknown>, scope, targets));
+      } else if (value && typeof value === 'object' && !('constant_value' in value)) {
+        walk(value as Record<string, unknown>, scope, targets);
+      }
+    }
+  };
+
+  const visitScope = (scope: ConfigScope) => {
+    for (const resource of scope.config.resources || []) {
+      const targets = instances.get(`${scope.prefix}${resource.address}`) || [];
+      if (targets.length > 0 && resource.expressions) walk(resource.expressions, scope, targets);
+    }
+    for (const [name, call] of Object.entries(scope.config.module_calls || {})) {
+      if (call.module) {
+        visitScope({ prefix: `${scope.prefix}module.${name}.`, config: call.module, parent: scope, inputs: call.expressions });
+      }
+    }
+  };
+
+  visitScope(root);
+}
+
+function addReference(entity: GraphEntity, key: string, address: string): void {
+  const set = entity.references.get(key) || new Set<string>();
+  set.add(address);
+  entity.references.set(key, set);
+  entity.all.add(address);
+}
@@ -0,0 +1,147 @@
+import { Box, Editor, TLShapeId, createShapeId } from 'tldraw';
+import { DragDropManager } from './drag-drop-manager';
+import { LayerNode, buildLayerTree, flattenLayerTree, moveLayers, setLayersLocked } from './layer-tree';
+import { createEditor } from './test-editor';
+
+function addShape(
+  editor: Editor,
+  type: string,
+  label: string,
+  bounds: { x: number; y: number; w: number; h: number },
+  parentId?: TLShapeId
+): TLShapeId {
+  const id = createShapeId(label.replace(/\W/g, '-'));
+  editor.createShape({
+    id,
+    type,
+    x: bounds.x,
+    y: bounds.y,
+    parentId,
+    props: { w: bounds.w, h: bounds.h, label, componentId: type, isBoundingBox: type !== 'compute' }
+  });
+  return id;
+}
+
+function labels(nodes: LayerNode[]): unknown[] {
+  return nodes.map(node => (node.children.length > 0 ? [node.label, labels(node.children)] : node.label));
+}
+
+function pageBounds(editor: Editor, id: TLShapeId): Box {
+  return editor.getShapePageBounds(id) as Box;
+}
+
+describe('moveLayers', () => {
+  let editor: Editor;
+  let manager: DragDropManager;
+
+  beforeEach(() => {
+    editor = createEditor();
+    manager = new DragDropManager(editor);
+  });
+
+  it('puts layers in front of or behind a sibling', () => {
+    const a = addShape(editor, 'compute', 'A', { x: 0, y: 0, w: 100, h: 80 });
+    const b = addShape(editor, 'compute', 'B', { x: 200, y: 0, w: 100, h: 80 });
+    const c = addShape(editor, 'compute', 'C', { x: 400, y: 0, w: 100, h: 80 });
+    expect(labels(buildLayerTree(editor))).toEqual(['C', 'B', 'A']);
+
+    expect(moveLayers(editor, manager, [a], c, 'after')).toBe(true);
+    expect(labels(buildLayerTree(editor))).toEqual(['C', 'A', 'B']);
+
+    expect(moveLayers(editor, manager, [b], c, 'before')).toBe(true);
+    expect(labels(buildLayerTree(editor))).toEqual(['B', 'C', 'A']);
+
+    // After the bottom row there is no sibling left to insert above
+    expect(moveLayers(editor, manager, [b], a, 'after')).toBe(true);
+    expect(labels(buildLayerTree(editor))).toEqual(['C', 'A', 'B']);
+  });
+
+  it('nests a layer in a container, clear of what is already inside', () => {
+    const vpc = addShape(editor, 'vpc', 'VPC', { x: 0, y: 0, w: 400, h: 300 });
+    const api = addShape(editor, 'compute', 'Api', { x: 20, y: 20, w: 100, h: 80 }, vpc);
+    const web = addShape(editor, 'compute', 'Web', { x: 600, y: 20, w: 100, h: 80 });
+
+    expect(moveLayers(editor, manager, [web], vpc, 'inside')).toBe(true);
+
+    const bounds = pageBounds(editor, web);
+    expect(editor.getShape(web)?.parentId).toBe(vpc);
+    expect(labels(buildLayerTree(editor))).toEqual([['VPC', ['Web', 'Api']]]);
+    expect(pageBounds(editor, vpc).contains(bounds)).toBe(true);
+    expect(bounds.collides(pageBounds(editor, api))).toBe(false);
+  });
+
+  it('un-nests a layer to the page beside the outermost container it sat in', () => {
+    const vpc = addShape(editor, 'vpc', 'VPC', { x: 0, y: 0, w: 600, h: 400 });
+    const subnet = addShape(editor, 'subnet', 'Subnet', { x: 20, y: 40, w: 300, h: 200 }, vpc);
+    const web = addShape(editor, 'compute', 'Web', { x: 20, y: 40, w: 100, h: 80 }, subnet);
+
+    expect(moveLayers(editor, manager, [web], null, 'before')).toBe(true);
+
+    expect(editor.getShape(web)?.parentId).toBe(editor.getCurrentPageId());
+    expect(pageBounds(editor, web).x).toBeGreaterThan(pageBounds(editor, vpc).maxX);
+    expect(pageBounds(editor, web).y).toBe(80);
+  });
+
+  it('refuses to move a container into its own contents', () => {
+    const vpc = addShape(editor, 'vpc', 'VPC', { x: 0, y: 0, w: 600, h: 400 });
+    const subnet = addShape(editor, 'subnet', 'Subnet', { x: 20, y: 40, w: 300, h: 200 }, vpc);
+
+    expect(moveLayers(editor, manager, [vpc], subnet, 'inside')).toBe(false);
+    expect(editor.getShape(vpc)?.parentId).toBe(editor.getCurrentPageId());
+    expect(editor.getShape(subnet)?.parentId).toBe(vpc);
+  });
+});
+
+describe('setLayersLocked', () => {
+  it('locks and unlocks a container together with everything inside it', () => {
+    const editor = createEditor();
+    const manager = new DragDropManager(editor);
+    const vpc = addShape(editor, 'vpc', 'VPC', { x: 0, y: 0, w: 600, h: 400 });
+    const subnet = addShape(editor, 'subnet', 'Subnet', { x: 20, y: 40, w: 300, h: 200 }, vpc);
+    const web = addShape(editor, 'compute', 'Web', { x: 20, y: 40, w: 100, h: 80 }, subnet);
+    const other = addShape(editor, 'compute', 'Other', { x: 800, y: 0, w: 100, h: 80 });
+    editor.select(web, other);
+
+    setLayersLocked(editor, [vpc], true);
+
+    expect([vpc, subnet, web].map(id => editor.getShape(id)?.isLocked)).toEqual([true, true, true]);
+    expect(editor.getShape(other)?.isLocked).toBe(false);
+    expect(editor.getSelectedShapeIds()).toEqual([other]);
+    // Locked layers stay where they are
+    expect(moveLayers(editor, manager, [web], null, 'before')).toBe(false);
+
+    setLayersLocked(editor, [vpc], false);
+
+    expect([vpc, subnet, web].map(id => editor.getShape(id)?.isLocked)).toEqual([false, false, false]);
+  });
+});
+
+describe('flattenLayerTree', () => {
+  const node = (id: string, hidden: boolean, children: LayerNode[] = []): LayerNode => ({
+    id: createShapeId(id),
+    label: id,
+    isContainer: children.length > 0,
+    canRename: true,
+    hidden,
+    locked: false,
+    children
+  });
+  const tree = [node('vpc', true, [node('subnet', false, [node('web', false)])]), node('user', false)];
+
+  it('lists rows depth first with their depth, parent and hidden ancestors', () => {
+    const rows = flattenLayerTree(tree, new Set(), 'page:page');
+
+    expect(rows.map(row => [row.node.label, row.depth, row.parentId, row.hiddenByAncestor])).toEqual([
+      ['vpc', 0, 'page:page', false],
+      ['subnet', 1, 'shape:vpc', true],
+      ['web', 2, 'shape:subnet', true],
+      ['user', 0, 'page:page', false]
+    ]);
+  });
+
+  it('skips the contents of collapsed layers', () => {
+    const rows = flattenLayerTree(tree, new Set(['shape:subnet']), 'page:page');
+
+    expect(rows.map(row => row.node.label)).toEqual(['vpc', 'subnet', 'user']);
+  });
+});
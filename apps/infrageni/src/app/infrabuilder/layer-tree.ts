@@ -0,0 +1,293 @@
+import { Editor, IndexKey, TLParentId, TLShape, TLShapeId, getIndexBelow } from 'tldraw';
+import { BaseInfraShapeProps } from './shapes/base';
+import { DragDropManager } from './drag-drop-manager';
+import { rerouteArrows } from './tools/layout/edge-routing';
+import { SWIMLANE_META_KEY } from './tools/layout/swimlane-layout';
+
+// Outline of the current page for the layers panel (see LAYER_MANAGEMENT_DESIGN.md).
+// It follows the tldraw parent chain kept up to date by the reparenting handler, and lists
+// siblings front to back, so the last child in tldraw's order is the first row.
+
+export const LAYER_DRAG_TYPE = 'application/x-infrageni-layer';
+
+// Shapes with this meta flag are hidden, together with everything inside them
+export const HIDDEN_META_KEY = 'hidden';
+
+export interface LayerNode {
+    id: TLShapeId;
+    label: string;
+    isContainer: boolean;
+    canRename: boolean;
+    hidden: boolean;
+    locked: boolean;
+    children: LayerNode[];
+}
+
+export interface LayerRow {
+    node: LayerNode;
+    parentId: TLParentId;
+    depth: number;
+    hiddenByAncestor: boolean;
+}
+
+// 'before' and 'after' follow the list, so 'before' puts the layers in front of the target
+export type LayerDropPosition = 'before' | 'after' | 'inside';
+
+export function isLayerHidden(shape: TLShape): boolean {
+    return shape.meta?.[HIDDEN_META_KEY] === true;
+}
+
+// Passed to <Tldraw getShapeVisibility>; children inherit, so hiding a container hides its contents
+export function getLayerVisibility(shape: TLShape): 'hidden' | 'inherit' {
+    return isLayerHidden(shape) ? 'hidden' : 'inherit';
+}
+
+// Arrows and swimlane bands are not layers of the architecture
+function isLayerShape(shape: TLShape): boolean {
+    return shape.type !== 'arrow' && !shape.meta?.[SWIMLANE_META_KEY];
+}
+
+function getLayerLabel(shape: TLShape): string {
+    const props = shape.props as Partial<BaseInfraShapeProps> & { name?: string };
+    return props.label || props.name || props.componentId || shape.type;
+}
+
+export function buildLayerTree(editor: Editor, parentId: TLParentId = editor.getCurrentPageId()): LayerNode[] {
+    return editor.getSortedChildIdsForParent(parentId)
+        .map(id => editor.getShape(id))
+        .filter((shape): shape is TLShape => !!shape && isLayerShape(shape))
+        .reverse()
+        .map(shape => ({
+            id: shape.id,
+            label: getLayerLabel(shape),
+            isContainer: !!(shape.props as Partial<BaseInfraShapeProps>).isBoundingBox,
+            canRename: typeof (shape.props as Partial<BaseInfraShapeProps>).label === 'string',
+            hidden: isLayerHidden(shape),
+            locked: shape.isLocked,
+            children: buildLayerTree(editor, shape.id)
+        }));
+}
+
+// Rows in display order, skipping the contents of collapsed layers
+export function flattenLayerTree(
+    nodes: LayerNode[],
+    collapsed: Set<string>,
+    parentId: TLParentId,
+    depth = 0,
+    hiddenByAncestor = false
+): LayerRow[] {
+    const rows: LayerRow[] = [];
+    for (const node of nodes) {
+        rows.push({ node, parentId, depth, hiddenByAncestor });
+        if (node.children.length > 0 && !collapsed.has(node.id)) {
+            rows.push(...flattenLayerTree(node.children, collapsed, node.id, depth + 1, hiddenByAncestor || node.hidden));
+        }
+    }
+    return rows;
+}
+
+export function setLayersHidden(editor: Editor, ids: TLShapeId[], hidden: boolean): void {
+    const shapes = ids.map(id => editor.getShape(id)).filter((shape): shape is TLShape => !!shape);
+    editor.markHistoryStoppingPoint('toggle-layer-visibility');
+    editor.run(() => {
+        editor.updateShapes(shapes.map(shape => ({
+            id: shape.id,
+            type: shape.type,
+            meta: { ...shape.meta, [HIDDEN_META_KEY]: hidden }
+        })));
+        if (hidden) editor.deselect(...Array.from(editor.getShapeAndDescendantIds(ids)));
+    }, { ignoreShapeLock: true });
+}
+
+// Locking is not inherited by tldraw, so the whole subtree is locked or unlocked
+export function setLayersLocked(editor: Editor, ids: TLShapeId[], locked: boolean): void {
+    const subtree = Array.from(editor.getShapeAndDescendantIds(ids))
+        .map(id => editor.getShape(id))
+        .filter((shape): shape is TLShape => !!shape);
+    editor.markHistoryStoppingPoint('toggle-layer-lock');
+    editor.run(() => {
+        editor.updateShapes(subtree.map(shape => ({ id: shape.id, type: shape.type, isLocked: locked })));
+        if (locked) editor.deselect(...subtree.map(shape => shape.id));
+    }, { ignoreShapeLock: true });
+}
+
+export function renameLayer(editor: Editor, id: TLShapeId, label: string): void {
+    const shape = editor.getShape(id);
+    const current = shape && (shape.props as Partial<BaseInfraShapeProps>).label;
+    if (!shape || typeof current !== 'string' || current === label) return;
+    editor.markHistoryStoppingPoint('rename-layer');
+    editor.updateShape({ id: shape.id, type: shape.type, props: { label } });
+}
+
+// Resolve a drop on a row (or on the empty list below the rows when targetId is null) to a parent
+export function getDropParent(editor: Editor, targetId: TLShapeId | null, position: LayerDropPosition): TLParentId | null {
+    if (!targetId) return editor.getCurrentPageId();
+    if (position === 'inside') return targetId;
+    return editor.getShape(targetId)?.parentId ?? null;
+}
+
+// Only the outermost selected layers move; their contents come along with them
+function getMovableRoots(editor: Editor, ids: TLShapeId[]): TLShapeId[] {
+    return ids.filter(id => {
+        const shape = editor.getShape(id);
+        return !!shape && !shape.isLocked && !ids.some(other => other !== id && editor.hasAncestor(shape, other));
+    });
+}
+
+export function canMoveLayers(
+    editor: Editor,
+    manager: DragDropManager,
+    ids: TLShapeId[],
+    targetId: TLShapeId | null,
+    position: LayerDropPosition
+): boolean {
+    const parentId = getDropParent(editor, targetId, position);
+    const roots = getMovableRoots(editor, ids);
+    if (!parentId || roots.length === 0 || (targetId && roots.includes(targetId))) return false;
+    return roots.every(id => manager.canReparent(id, parentId));
+}
+
+// Nest, un-nest or reorder layers following a drop in the layers panel. Dropping inside a
+// container puts the layers in front of its children, as a drop on the canvas does.
+export function moveLayers(
+    editor: Editor,
+    manager: DragDropManager,
+    ids: TLShapeId[],
+    targetId: TLShapeId | null,
+    position: LayerDropPosition
+): boolean {
+    if (!canMoveLayers(editor, manager, ids, targetId, position)) return false;
+
+    const parentId = getDropParent(editor, targetId, position) as TLParentId;
+    const roots = getMovableRoots(editor, ids);
+    const insertIndex = targetId && position !== 'inside'
+        ? getInsertIndex(editor, parentId, targetId, position, roots)
+        : undefined;
+
+    editor.markHistoryStoppingPoint('move-layers');
+    editor.run(() => {
+        const moving = roots.filter(id => editor.getShape(id)?.parentId !== parentId);
+        for (const id of moving) {
+            placeForParent(editor, manager, id, parentId, moving);
+        }
+        editor.reparentShapes(roots, parentId, insertIndex);
+        if (moving.length > 0) rerouteArrows(editor);
+    });
+    return true;
+}
+
+function getInsertIndex(
+    editor: Editor,
+    parentId: TLParentId,
+    targetId: TLShapeId,
+    position: 'before' | 'after',
+    moving: TLShapeId[]
+): IndexKey | undefined {
+    const target = editor.getShape(targetId);
+    if (!target) return undefined;
+    // In front of the target: reparentShapes inserts just above the given index
+    if (position === 'before') return target.index;
+
+    const siblings = editor.getSortedChildIdsForParent(parentId).filter(id => !moving.includes(id));
+    const below = siblings[siblings.indexOf(targetId) - 1];
+    const belowShape = below ? editor.getShape(below) : undefined;
+    return belowShape ? belowShape.index : getIndexBelow(target.index);
+}
+
+// The reparenting handler re-checks containment from page geometry after every move, so a
+// layer moved in the panel is also moved to where findBestContainer agrees with its new parent
+function placeForParent(
+    editor: Editor,
+    manager: DragDropManager,
+    id: TLShapeId,
+    parentId: TLParentId,
+    moving: TLShapeId[]
+): void {
+    const shape = editor.getShape(id);
+    const bounds = editor.getShapePageBounds(id);
+    if (!shape || !bounds) return;
+
+    const pageId = editor.getCurrentPageId();
+    const resolvesTo = (x: number, y: number) =>
+        (manager.findBestContainer({ x: x + bounds.w / 2, y: y + bounds.h / 2 }, id) ?? pageId) === parentId;
+    if (resolvesTo(bounds.x, bounds.y)) return;
+
+    // Layers placed earlier in the same move count as occupied; the ones still to come do not
+    const occupied = editor.getSortedChildIdsForParent(parentId)
+        .concat(moving.slice(0, moving.indexOf(id)))
+        .filter(other => other !== id)
+        .map(other => editor.getShapePageBounds(other))
+        .filter((b): b is NonNullable<typeof b> => !!b);
+    const isClear = (x: number, y: number) => occupied.every(b =>
+        x >= b.x + b.w || x + bounds.w <= b.x || y >= b.y + b.h || y + bounds.h <= b.y
+    );
+
+    const target = parentId === pageId
+        ? findSpotOnPage(editor, id, bounds, (x, y) => resolvesTo(x, y) && isClear(x, y))
+        : findSpotInContainer(editor, parentId as TLShapeId, bounds, resolvesTo, isClear);
+    if (!target) return;
+
+    editor.updateShape({
+        id: shape.id,
+        type: shape.type,
+        x: shape.x + target.x - bounds.x,
+        y: shape.y + target.y - bounds.y
+    });
+}
+
+const PLACEMENT_PADDING = 10;
+const PLACEMENT_STEP = 20;
+
+// Closest position inside the container that is not taken by its other contents, falling back
+// to any position the container rules resolve to it
+function findSpotInContainer(
+    editor: Editor,
+    containerId: TLShapeId,
+    bounds: { x: number; y: number; w: number; h: number },
+    resolvesTo: (x: number, y: number) => boolean,
+    isClear: (x: number, y: number) => boolean
+): { x: number; y: number } | null {
+    const container = editor.getShapePageBounds(containerId);
+    if (!container) return null;
+
+    const minX = container.x + PLACEMENT_PADDING;
+    const minY = container.y + PLACEMENT_PADDING;
+    const maxX = Math.max(minX, container.x + container.w - bounds.w - PLACEMENT_PADDING);
+    const maxY = Math.max(minY, container.y + container.h - bounds.h - PLACEMENT_PADDING);
+
+    const candidates: { x: number; y: number }[] = [];
+    for (let x = minX; x <= maxX; x += PLACEMENT_STEP) {
+        for (let y = minY; y <= maxY; y += PLACEMENT_STEP) {
+            candidates.push({ x, y });
+        }
+    }
+    candidates.sort((a, b) =>
+        Math.hypot(a.x - bounds.x, a.y - bounds.y) - Math.hypot(b.x - bounds.x, b.y - bounds.y)
+    );
+
+    const fallback = {
+        x: Math.min(maxX, Math.max(minX, bounds.x)),
+        y: Math.min(maxY, Math.max(minY, bounds.y))
+    };
+    return candidates.find(c => resolvesTo(c.x, c.y) && isClear(c.x, c.y))
+        ?? candidates.find(c => resolvesTo(c.x, c.y))
+        ?? fallback;
+}
+
+// Un-nesting to the page: move the layer out beside the outermost container it sat in
+function findSpotOnPage(
+    editor: Editor,
+    id: TLShapeId,
+    bounds: { x: number; y: number; w: number; h: number },
+    resolvesTo: (x: number, y: number) => boolean
+): { x: number; y: number } | null {
+    const ancestors = editor.getShapeAncestors(id);
+    const outermost = ancestors.length > 0 ? editor.getShapePageBounds(ancestors[0].id) : undefined;
+    const startX = (outermost ? outermost.x + outermost.w : bounds.x + bounds.w) + PLACEMENT_STEP * 2;
+
+    for (let step = 0; step < 100; step++) {
+        const x = startX + step * PLACEMENT_STEP * 2;
+        if (resolvesTo(x, bounds.y)) return { x, y: bounds.y };
+    }
+    return null;
+}
@@ -0,0 +1,419 @@
+import React from 'react';
+import { TLShapeId, useEditor, useValue } from 'tldraw';
+import { ChevronDown, ChevronRight, Eye, EyeOff, Lock, PanelLeft, PanelRight, Unlock, X } from 'lucide-react';
+import { DragDropManager } from './drag-drop-manager';
+import {
+    LAYER_DRAG_TYPE,
+    LayerDropPosition,
+    LayerRow,
+    buildLayerTree,
+    canMoveLayers,
+    flattenLayerTree,
+    moveLayers,
+    renameLayer,
+    setLayersHidden,
+    setLayersLocked
+} from './layer-tree';
+
+interface LayersPanelProps {
+    isVisible: boolean;
+    onClose: () => void;
+}
+
+interface DropTarget {
+    targetId: TLShapeId | null; // null: the empty space below the rows, i.e. the page itself
+    position: LayerDropPosition;
+}
+
+const rowDomId = (id: TLShapeId) => `layers-row-${id}`;
+
+// Outline of the canvas: VPC → availability zone → subnet → resource. Rows can be dragged to
+// nest, un-nest or reorder layers, using the same container rules as dragging on the canvas.
+export function LayersPanel({ isVisible, onClose }: LayersPanelProps) {
+    const editor = useEditor();
+    const dragDropManager = React.useMemo(() => new DragDropManager(editor), [editor]);
+
+    const tree = useValue('layer tree', () => buildLayerTree(editor), [editor]);
+    const pageId = useValue('current page', () => editor.getCurrentPageId(), [editor]);
+    const selectedIds = useValue('selected shapes', () => editor.getSelectedShapeIds(), [editor]);
+
+    const [dock, setDock] = React.useState<'left' | 'right'>('left');
+    const [collapsed, setCollapsed] = React.useState<Set<string>>(() => new Set());
+    const [focusedId, setFocusedId] = React.useState<TLShapeId | null>(null);
+    const [anchorId, setAnchorId] = React.useState<TLShapeId | null>(null);
+    const [editing, setEditing] = React.useState<{ id: TLShapeId; draft: string } | null>(null);
+    const [dropTarget, setDropTarget] = React.useState<DropTarget | null>(null);
+    const dragIdsRef = React.useRef<TLShapeId[]>([]);
+    const treeRef = React.useRef<HTMLDivElement>(null);
+
+    const rows = React.useMemo(() => flattenLayerTree(tree, collapsed, pageId), [tree, collapsed, pageId]);
+    const selected = React.useMemo(() => new Set<string>(selectedIds), [selectedIds]);
+    const focusedRow = rows.find(row => row.node.id === focusedId) ?? null;
+
+    React.useEffect(() => {
+        if (focusedId) document.getElementById(rowDomId(focusedId))?.scrollIntoView({ block: 'nearest' });
+    }, [focusedId]);
+
+    if (!isVisible) return null;
+
+    // Toggles on a selected row apply to the whole selection
+    const targetsFor = (row: LayerRow): TLShapeId[] =>
+        selected.has(row.node.id) ? rows.filter(r => selected.has(r.node.id)).map(r => r.node.id) : [row.node.id];
+
+    const selectRange = (fromId: TLShapeId | null, toId: TLShapeId) => {
+        const from = rows.findIndex(row => row.node.id === fromId);
+        const to = rows.findIndex(row => row.node.id === toId);
+        if (from < 0) {
+            editor.setSelectedShapes([toId]);
+            return;
+        }
+        const [start, end] = from < to ? [from, to] : [to, from];
+        editor.setSelectedShapes(rows.slice(start, end + 1).map(row => row.node.id));
+    };
+
+    const toggleSelected = (id: TLShapeId) => {
+        const next = selected.has(id) ? selectedIds.filter(s => s !== id) : [...selectedIds, id];
+        editor.setSelectedShapes(next);
+    };
+
+    const handleRowClick = (row: LayerRow, e: React.MouseEvent) => {
+        const id = row.node.id;
+        if (e.shiftKey) {
+            selectRange(anchorId, id);
+        } else if (e.metaKey || e.ctrlKey) {
+            toggleSelected(id);
+            setAnchorId(id);
+        } else {
+            editor.setSelectedShapes([id]);
+            setAnchorId(id);
+        }
+        setFocusedId(id);
+        treeRef.current?.focus();
+    };
+
+    const toggleCollapsed = (id: TLShapeId) => {
+        setCollapsed(prev => {
+            const next = new Set(prev);
+            if (next.has(id)) {
+                next.delete(id);
+            } else {
+                next.add(id);
+            }
+            return next;
+        });
+    };
+
+    const startRename = (row: LayerRow) => {
+        if (row.node.canRename && !row.node.locked) {
+            setEditing({ id: row.node.id, draft: row.node.label });
+        }
+    };
+
+    const commitRename = () => {
+        if (editing && editing.draft.trim()) {
+            renameLayer(editor, editing.id, editing.draft.trim());
+        }
+        setEditing(null);
+        treeRef.current?.focus();
+    };
+
+    // Keyboard equivalent of dragging a row just above or below a sibling, or out of its parent
+    const moveWithKeyboard = (row: LayerRow, direction: 'up' | 'down' | 'out') => {
+        const ids = targetsFor(row);
+        if (direction === 'out') {
+            const parentRow = rows.find(r => r.node.id === row.parentId);
+            if (parentRow) moveLayers(editor, dragDropManager, ids, parentRow.node.id, 'after');
+            return;
+        }
+        const siblings = rows.filter(r => r.parentId === row.parentId);
+        const index = siblings.indexOf(row);
+        const neighbour = siblings[direction === 'up' ? index - 1 : index + 1];
+        if (neighbour) {
+            moveLayers(editor, dragDropManager, ids, neighbour.node.id, direction === 'up' ? 'before' : 'after');
+        }
+    };
+
+    const focusRow = (row: LayerRow | undefined, extend: boolean) => {
+        if (!row) return;
+        setFocusedId(row.node.id);
+        if (extend) {
+            selectRange(anchorId ?? focusedId, row.node.id);
+        } else {
+            editor.setSelectedShapes([row.node.id]);
+            setAnchorId(row.node.id);
+        }
+    };
+
+    const handleKeyDown = (e: React.KeyboardEvent) => {
+        if (editing) return;
+        const index = focusedRow ? rows.indexOf(focusedRow) : -1;
+        let handled = true;
+
+        if (e.altKey && focusedRow && (e.key === 'ArrowUp' || e.key === 'ArrowDown' || e.key === 'ArrowLeft')) {
+            moveWithKeyboard(focusedRow, e.key === 'ArrowUp' ? 'up' : e.key === 'ArrowDown' ? 'down' : 'out');
+        } else if (e.key === 'ArrowDown') {
+            focusRow(rows[Math.min(rows.length - 1, index + 1)], e.shiftKey);
+        } else if (e.key === 'ArrowUp') {
+            focusRow(rows[Math.max(0, index - 1)], e.shiftKey);
+        } else if (e.key === 'Home') {
+            focusRow(rows[0], e.shiftKey);
+        } else if (e.key === 'End') {
+            focusRow(rows[rows.length - 1], e.shiftKey);
+        } else if (e.key === 'ArrowRight' && focusedRow) {
+            if (collapsed.has(focusedRow.node.id)) {
+                toggleCollapsed(focusedRow.node.id);
+            } else if (focusedRow.node.children.length > 0) {
+                focusRow(rows[index + 1], false);
+            }
+        } else if (e.key === 'ArrowLeft' && focusedRow) {
+            if (focusedRow.node.children.length > 0 && !collapsed.has(focusedRow.node.id)) {
+                toggleCollapsed(focusedRow.node.id);
+            } else {
+                focusRow(rows.find(row => row.node.id === focusedRow.parentId), false);
+            }
+        } else if ((e.key === 'Enter' || e.key === 'F2') && focusedRow) {
+            startRename(focusedRow);
+        } else if (e.key === ' ' && focusedRow) {
+            toggleSelected(focusedRow.node.id);
+            setAnchorId(focusedRow.node.id);
+        } else if ((e.key === 'h' || e.key === 'H') && focusedRow) {
+            setLayersHidden(editor, targetsFor(focusedRow), !focusedRow.node.hidden);
+        } else if ((e.key === 'l' || e.key === 'L') && focusedRow) {
+            setLayersLocked(editor, targetsFor(focusedRow), !focusedRow.node.locked);
+        } else if (e.key === 'Escape') {
+            editor.selectNone();
+        } else {
+            handled = false;
+        }
+
+        // Keep the canvas shortcuts (h for the hand tool, arrows to nudge) out of the panel
+        if (handled) {
+            e.preventDefault();
+            e.stopPropagation();
+        }
+    };
+
+    const handleDragStart = (row: LayerRow, e: React.DragEvent) => {
+        if (row.node.locked) {
+            e.preventDefault();
+            return;
+        }
+        if (!selected.has(row.node.id)) {
+            editor.setSelectedShapes([row.node.id]);
+        }
+        dragIdsRef.current = targetsFor(row);
+        e.dataTransfer.setData(LAYER_DRAG_TYPE, JSON.stringify(dragIdsRef.current));
+        e.dataTransfer.effectAllowed = 'move';
+    };
+
+    // Top and bottom quarters of a row drop beside it; the middle of a container drops inside
+    const getDropPosition = (row: LayerRow, e: React.DragEvent): LayerDropPosition => {
+        const rect = e.currentTarget.getBoundingClientRect();
+        const offset = (e.clientY - rect.top) / (rect.height || 1);
+        if (row.node.isContainer && offset > 0.25 && offset < 0.75) return 'inside';
+        return offset < 0.5 ? 'before' : 'after';
+    };
+
+    const handleDragOver = (target: DropTarget, e: React.DragEvent) => {
+        if (!e.dataTransfer.types.includes(LAYER_DRAG_TYPE)) return;
+        e.stopPropagation();
+        if (canMoveLayers(editor, dragDropManager, dragIdsRef.current, target.targetId, target.position)) {
+            e.preventDefault();
+            e.dataTransfer.dropEffect = 'move';
+            if (dropTarget?.targetId !== target.targetId || dropTarget?.position !== target.position) {
+                setDropTarget(target);
+            }
+        } else {
+            // Invalid drops (into itself, a descendant, or a container that does not accept it)
+            e.dataTransfer.dropEffect = 'none';
+            setDropTarget(null);
+        }
+    };
+
+    const handleDrop = (e: React.DragEvent) => {
+        if (!e.dataTransfer.types.includes(LAYER_DRAG_TYPE)) return;
+        e.preventDefault();
+        e.stopPropagation();
+        if (dropTarget) {
+            moveLayers(editor, dragDropManager, dragIdsRef.current, dropTarget.targetId, dropTarget.position);
+        }
+        handleDragEnd();
+    };
+
+    const handleDragEnd = () => {
+        dragIdsRef.current = [];
+        setDropTarget(null);
+    };
+
+    const renderRow = (row: LayerRow) => {
+        const { node } = row;
+        const isSelected = selected.has(node.id);
+        const isDropTarget = dropTarget?.targetId === node.id;
+        const dropClass = !isDropTarget ? 'border-transparent'
+            : dropTarget.position === 'inside' ? 'border-transparent bg-blue-500/20 ring-1 ring-inset ring-blue-500'
+                : dropTarget.position === 'before' ? 'border-t-blue-500 border-b-transparent'
+                    : 'border-b-blue-500 border-t-transparent';
+
+        return (
+            <div
+                key={node.id}
+                id={rowDomId(node.id)}
+                role="treeitem"
+                aria-level={row.depth + 1}
+                aria-selected={isSelected}
+                aria-expanded={node.children.length > 0 ? !collapsed.has(node.id) : undefined}
+                draggable={!node.locked && !editing}
+                onDragStart={e => handleDragStart(row, e)}
+                onDragOver={e => handleDragOver({ targetId: node.id, position: getDropPosition(row, e) }, e)}
+                onDrop={handleDrop}
+                onDragEnd={handleDragEnd}
+                onClick={e => handleRowClick(row, e)}
+                onDoubleClick={() => startRename(row)}
+                className={`group flex items-center gap-1 pr-2 h-7 text-sm cursor-default select-none border-y-2 ${dropClass} ${isSelected
+                        ? 'bg-primary/20 text-primary dark:text-primary-foreground'
+                        : 'hover:bg-white/10 dark:hover:bg-white/5'
+                    } ${focusedId === node.id ? 'outline outline-1 -outline-offset-1 outline-primary/60' : ''}`}
+                style={{ paddingLeft: 8 + row.depth * 14 }}
+            >
+                {node.children.length > 0 ? (
+                    <button
+                        type="button"
+                        tabIndex={-1}
+                        className="p-0.5 rounded hover:bg-white/20"
+                        aria-label={collapsed.has(node.id) ? 'Expand' : 'Collapse'}
+                        onClick={e => {
+                            e.stopPropagation();
+                            toggleCollapsed(node.id);
+                        }}
+                    >
+                        {collapsed.has(node.id) ? <ChevronRight className="h-3.5 w-3.5" /> : <ChevronDown className="h-3.5 w-3.5" />}
+                    </button>
+                ) : (
+                    <span className="w-[18px] shrink-0" />
+                )}
+
+                {editing?.id === node.id ? (
+                    <input
+                        autoFocus
+                        className="flex-1 min-w-0 px-1 py-0 border rounded-sm bg-background text-foreground text-sm"
+                        value={editing.draft}
+                        onChange={e => setEditing({ id: node.id, draft: e.target.value })}
+                        onBlur={commitRename}
+                        onClick={e => e.stopPropagation()}
+                        onKeyDown={e => {
+                            e.stopPropagation();
+                            if (e.key === 'Enter') commitRename();
+                            if (e.key === 'Escape') {
+                                setEditing(null);
+                                treeRef.current?.focus();
+                            }
+                        }}
+                    />
+                ) : (
+                    <span
+                        className={`flex-1 truncate ${node.isContainer ? 'font-medium' : ''} ${node.hidden || row.hiddenByAncestor ? 'opacity-50' : ''}`}
+                        title={node.label}
+                    >
+                        {node.label}
+                    </span>
+                )}
+
+                <button
+                    type="button"
+                    tabIndex={-1}
+                    className={`p-0.5 rounded hover:bg-white/20 ${node.hidden ? '' : 'opacity-0 group-hover:opacity-100'}`}
+                    aria-label={node.hidden ? 'Show layer' : 'Hide layer'}
+                    title={node.hidden ? 'Show (H)' : 'Hide (H)'}
+                    onClick={e => {
+                        e.stopPropagation();
+                        setLayersHidden(editor, targetsFor(row), !node.hidden);
+                    }}
+                >
+                    {node.hidden ? <EyeOff className="h-3.5 w-3.5" /> : <Eye className="h-3.5 w-3.5" />}
+                </button>
+                <button
+                    type="button"
+                    tabIndex={-1}
+                    className={`p-0.5 rounded hover:bg-white/20 ${node.locked ? '' : 'opacity-0 group-hover:opacity-100'}`}
+                    aria-label={node.locked ? 'Unlock layer' : 'Lock layer'}
+                    title={node.locked ? 'Unlock (L)' : 'Lock (L)'}
+                    onClick={e => {
+                        e.stopPropagation();
+                        setLayersLocked(editor, targetsFor(row), !node.locked);
+                    }}
+                >
+                    {node.locked ? <Lock className="h-3.5 w-3.5" /> : <Unlock className="h-3.5 w-3.5" />}
+                </button>
+            </div>
+        );
+    };
+
+    const pageDropActive = dropTarget?.targetId === null;
+
+    return (
+        <aside
+            className={`absolute top-16 bottom-4 ${dock === 'left' ? 'left-4' : 'right-4'} z-20 w-64 flex flex-col glass-panel rounded-lg border border-white/10 dark:border-white/5 backdrop-blur-lg shadow-lg`}
+            aria-label="Layers panel"
+            onWheel={e => e.stopPropagation()}
+        >
+            <div className="flex items-center justify-between px-3 py-2 border-b border-white/10 dark:border-white/5">
+                <h2 className="text-sm font-semibold">Layers</h2>
+                <div className="flex items-center gap-1">
+                    <button
+                        type="button"
+                        className="p-1 rounded hover:bg-white/20"
+                        aria-label={dock === 'left' ? 'Dock to the right' : 'Dock to the left'}
+                        title={dock === 'left' ? 'Dock to the right' : 'Dock to the left'}
+                        onClick={() => setDock(dock === 'left' ? 'right' : 'left')}
+                    >
+                        {dock === 'left' ? <PanelRight className="h-4 w-4" /> : <PanelLeft className="h-4 w-4" />}
+                    </button>
+                    <button
+                        type="button"
+                        className="p-1 rounded hover:bg-white/20"
+                        aria-label="Close layers panel"
+                        onClick={onClose}
+                    >
+                        <X className="h-4 w-4" />
+                    </button>
+                </div>
+            </div>
+
+            <div
+                ref={treeRef}
+                role="tree"
+                aria-label="Layers"
+                aria-multiselectable
+                aria-activedescendant={focusedId ? rowDomId(focusedId) : undefined}
+                tabIndex={0}
+                className="flex-1 overflow-y-auto py-1 focus:outline-none"
+                onKeyDown={handleKeyDown}
+                onFocus={() => {
+                    if (!focusedId && rows.length > 0) setFocusedId(rows[0].node.id);
+                }}
+            >
+                {rows.length === 0 ? (
+                    <p className="px-3 py-4 text-xs text-muted-foreground">
+                        Drop components on the canvas to see them here.
+                    </p>
+                ) : rows.map(renderRow)}
+
+                {/* Dropping below the rows moves the layers out to the page */}
+                <div
+                    className={`mx-2 mt-1 min-h-8 rounded border border-dashed text-xs text-muted-foreground flex items-center justify-center ${pageDropActive
+                            ? 'border-blue-500 bg-blue-500/10'
+                            : 'border-transparent'
+                        }`}
+                    onDragOver={e => handleDragOver({ targetId: null, position: 'inside' }, e)}
+                    onDrop={handleDrop}
+                >
+                    {pageDropActive ? 'Move to page' : null}
+                </div>
+            </div>
+
+            <p className="px-3 py-1.5 border-t border-white/10 dark:border-white/5 text-[11px] text-muted-foreground">
+                Alt+↑/↓ reorder · Alt+← un-nest · F2 rename
+            </p>
+        </aside>
+    );
+}
@@ -0,0 +1,16 @@
+import { costFormulaEngine } from './cost-formula';
+
+describe('costFormulaEngine.evaluate', () => {
+  it('evaluates arithmetic, functions and scope variables', () => {
+    expect(costFormulaEngine.evaluate('round(hours * rate, 1) + max(1, 2)', { hours: 730, rate: 0.0416 })).toEqual({ value: 32.4 });
+  });
+
+  it('only evaluates the branch of if that is taken', () => {
+    expect(costFormulaEngine.evaluate('if(x > 0, 10 / x, 0)', { x: 0 })).toEqual({ value: 0 });
+  });
+
+  it('rejects names inherited from Object as unknown functions', () => {
+    expect(costFormulaEngine.evaluate('toString(1)', {}).error).toMatch(/Unknown function "toString"/);
+    expect(costFormulaEngine.evaluate('constructor(1)', {}).error).toMatch(/Unknown function "constructor"/);
+  });
+});
@@ -0,0 +1,525 @@
+/**
+ * Cost Formula Engine - Evaluates CostCalculation and ScalingFactor formulas
+ * Parses arithmetic expressions without eval and binds cost variables and pattern parameters
+ */
+
+import { CostModel, PatternParameter } from './pattern-types';
+
+export type FormulaScope = Record<string, number>;
+
+export interface FormulaResult {
+  value?: number;
+  error?: string;
+}
+
+export interface CalculationResult extends FormulaResult {
+  id: string;
+  description: string;
+  formula: string;
+}
+
+export interface ScalingFactorResult extends FormulaResult {
+  componentInstanceId: string;
+  parameter: string;
+  formula: string;
+  description: string;
+}
+
+export interface CostFormulaError {
+  source: 'calculation' | 'scaling-factor';
+  id: string;
+  componentInstanceId?: string;
+  message: string;
+}
+
+export interface CostModelEvaluation {
+  scope: FormulaScope;
+  calculations: CalculationResult[];
+  scalingFactors: ScalingFactorResult[];
+  errors: CostFormulaError[];
+  costModel: CostModel;
+}
+
+// Expression AST
+type FormulaNode =
+  | { type: 'number'; value: number }
+  | { type: 'identifier'; name: string; position: number }
+  | { type: 'unary'; operator: string; operand: FormulaNode }
+  | { type: 'binary'; operator: string; left: FormulaNode; right: FormulaNode }
+  | { type: 'conditional'; test: FormulaNode; consequent: FormulaNode; alternate: FormulaNode }
+  | { type: 'call'; name: string; args: FormulaNode[]; position: number };
+
+interface Token {
+  type: 'number' | 'identifier' | 'operator' | 'paren' | 'comma' | 'end';
+  value: string;
+  position: number;
+}
+
+const FUNCTIONS: Record<string, { arity: [number, number]; apply: (...args: number[]) => number }> = {
+  min: { arity: [1, Infinity], apply: (...args) => Math.min(...args) },
+  max: { arity: [1, Infinity], apply: (...args) => Math.max(...args) },
+  abs: { arity: [1, 1], apply: x => Math.abs(x) },
+  ceil: { arity: [1, 1], apply: x => Math.ceil(x) },
+  floor: { arity: [1, 1], apply: x => Math.floor(x) },
+  sqrt: { arity: [1, 1], apply: x => Math.sqrt(x) },
+  pow: { arity: [2, 2], apply: (x, y) => Math.pow(x, y) },
+  round: {
+    arity: [1, 2],
+    apply: (x, digits = 0) => {
+      const factor = Math.pow(10, digits);
+      return Math.round(x * factor) / factor;
+    }
+  },
+  if: { arity: [3, 3], apply: (test, a, b) => (test !== 0 ? a : b) }
+};
+
+// Binding power for each binary operator; ^ is right associative
+const PRECEDENCE: Record<string, number> = {
+  '||': 1,
+  '&&': 2,
+  '==': 3, '!=': 3,
+  '<': 4, '<=': 4, '>': 4, '>=': 4,
+  '+': 5, '-': 5,
+  '*': 6, '/': 6, '%': 6,
+  '^': 8
+};
+
+const OPERATORS = ['**', '==', '!=', '<=', '>=', '&&', '||', '+', '-', '*', '/', '%', '^', '<', '>', '!', '?', ':'];
+
+const HOURS_PER_MONTH = 730;
+
+export class CostFormulaEngine {
+  private cache = new Map<string, FormulaNode>();
+
+  /**
+   * Parse a formula, returning an error message with the character position when it is malformed
+   */
+  compile(formula: string): { node?: FormulaNode; error?: string } {
+    const cached = this.cache.get(formula);
+    if (cached) return { node: cached };
+
+    try {
+      const node = new FormulaParser(formula).parse();
+      this.cache.set(formula, node);
+      return { node };
+    } catch (error) {
+      return { error: error instanceof Error ? error.message : 'Invalid formula' };
+    }
+  }
+
+  /**
+   * Names referenced by a formula, excluding function names
+   */
+  getReferences(formula: string): string[] {
+    const { node } = this.compile(formula);
+    const references = new Set<string>();
+    const visit = (current?: FormulaNode) => {
+      if (!current) return;
+      switch (current.type) {
+        case 'identifier': references.add(current.name); break;
+        case 'unary': visit(current.operand); break;
+        case 'binary': visit(current.left); visit(current.right); break;
+        case 'conditional': visit(current.test); visit(current.consequent); visit(current.alternate); break;
+        case 'call': current.args.forEach(visit); break;
+      }
+    };
+    visit(node);
+    return Array.from(references);
+  }
+
+  /**
+   * Evaluate a formula against a scope of named numbers
+   */
+  evaluate(formula: string, scope: FormulaScope, resolve?: (name: string) => number | undefined): FormulaResult {
+    const { node, error } = this.compile(formula);
+    if (!node) return { error };
+
+    try {
+      const value = this.evaluateNode(node, name => {
+        if (Object.prototype.hasOwnProperty.call(scope, name)) return scope[name];
+        return resolve?.(name);
+      });
+      if (!Number.isFinite(value)) {
+        return { error: 'Formula does not produce a finite number (division by zero?)' };
+      }
+      return { value };
+    } catch (evaluationError) {
+      return { error: evaluationError instanceof Error ? evaluationError.message : 'Formula evaluation failed' };
+    }
+  }
+
+  /**
+   * Build the evaluation scope from cost variable defaults and pattern parameter values.
+   * Values in `overrides` (keyed by variable or parameter ID) win over both.
+   */
+  buildScope(
+    costModel: CostModel,
+    parameters: PatternParameter[] = [],
+    overrides: Record<string, unknown> = {}
+  ): FormulaScope {
+    const scope: FormulaScope = { hoursPerMonth: HOURS_PER_MONTH };
+
+    for (const variable of costModel.variables) {
+      setScopeValue(scope, variable.id, variable.defaultValue);
+    }
+    for (const parameter of parameters) {
+      setScopeValue(scope, parameter.id, parameter.defaultValue);
+    }
+    for (const [id, value] of Object.entries(overrides)) {
+      setScopeValue(scope, id, value);
+    }
+
+    return scope;
+  }
+
+  /**
+   * Compute every calculation and scaling factor of a cost model.
+   * Calculations may reference each other by ID (non-word characters read as underscores).
+   */
+  evaluateCostModel(
+    costModel: CostModel,
+    parameters: PatternParameter[] = [],
+    overrides: Record<string, unknown> = {}
+  ): CostModelEvaluation {
+    const scope = this.buildScope(costModel, parameters, overrides);
+    const calculationsByName = new Map(costModel.calculations.map(c => [toIdentifier(c.id), c]));
+    const computed = new Map<string, FormulaResult>();
+    const inProgress = new Set<string>();
+
+    const computeCalculation = (name: string): FormulaResult => {
+      const done = computed.get(name);
+      if (done) return done;
+
+      const calculation = calculationsByName.get(name);
+      if (!calculation) return { error: `Unknown calculation "${name}"` };
+      if (inProgress.has(name)) return { error: `Circular reference through "${calculation.id}"` };
+
+      inProgress.add(name);
+      const result = this.evaluate(calculation.formula, scope, reference => {
+        if (!calculationsByName.has(reference)) return undefined;
+        const dependency = computeCalculation(reference);
+        if (dependency.error) {
+          throw new Error(`Depends on "${calculationsByName.get(reference)?.id}" which failed: ${dependency.error}`);
+        }
+        return dependency.value;
+      });
+      inProgress.delete(name);
+
+      computed.set(name, result);
+      return result;
+    };
+
+    const calculations: CalculationResult[] = costModel.calculations.map(calculation => ({
+      id: calculation.id,
+      description: calculation.description,
+      formula: calculation.formula,
+      ...computeCalculation(toIdentifier(calculation.id))
+    }));
+
+    const scalingFactors: ScalingFactorResult[] = [];
+    for (const component of costModel.components) {
+      const componentScope = { ...scope, baseAmount: component.estimatedCost.baseAmount };
+      for (const factor of component.estimatedCost.scalingFactors) {
+        scalingFactors.push({
+          componentInstanceId: component.componentInstanceId,
+          parameter: factor.parameter,
+          formula: factor.formula,
+          description: factor.description,
+          ...this.evaluate(factor.formula, componentScope)
+        });
+      }
+    }
+
+    const errors: CostFormulaError[] = [
+      ...calculations
+        .filter(c => c.error)
+        .map(c => ({ source: 'calculation' as const, id: c.id, message: c.error as string })),
+      ...scalingFactors
+        .filter(f => f.error)
+        .map(f => ({
+          source: 'scaling-factor' as const,
+          id: f.parameter,
+          componentInstanceId: f.componentInstanceId,
+          message: f.error as string
+        }))
+    ];
+
+    return {
+      scope,
+      calculations,
+      scalingFactors,
+      errors,
+      costModel: {
+        ...costModel,
+        calculations: costModel.calculations.map((calculation, index) => ({
+          ...calculation,
+          result: calculations[index].value === undefined
+            ? calculation.result
+            : formatResult(calculations[index].value as number)
+        }))
+      }
+    };
+  }
+
+  private evaluateNode(node: FormulaNode, lookup: (name: string) => number | undefined): number {
+    switch (node.type) {
+      case 'number':
+        return node.value;
+
+      case 'identifier': {
+        const value = lookup(node.name);
+        if (value === undefined) {
+          throw new Error(`Unknown variable "${node.name}" at position ${node.position + 1}`);
+        }
+        return value;
+      }
+
+      case 'unary': {
+        const operand = this.evaluateNode(node.operand, lookup);
+        return node.operator === '!' ? Number(operand === 0) : -operand;
+      }
+
+      case 'conditional':
+        return this.evaluateNode(node.test, lookup) !== 0
+          ? this.evaluateNode(node.consequent, lookup)
+          : this.evaluateNode(node.alternate, lookup);
+
+      case 'call': {
+        const fn = Object.prototype.hasOwnProperty.call(FUNCTIONS, node.name) ? FUNCTIONS[node.name] : undefined;
+        if (!fn) {
+          throw new Error(`Unknown function "${node.name}" at position ${node.position + 1}`);
+        }
+        const [minArgs, maxArgs] = fn.arity;
+        if (node.args.length < minArgs || node.args.length > maxArgs) {
+          throw new Error(`Function "${node.name}" called with ${node.args.length} argument(s) at position ${node.position + 1}`);
+        }
+        // Only evaluate the branch that is taken so if(x > 0, y / x, 0) is safe
+        if (node.name === 'if') {
+          return this.evaluateNode(node.args[0], lookup) !== 0
+            ? this.evaluateNode(node.args[1], lookup)
+            : this.evaluateNode(node.args[2], lookup);
+        }
+        return fn.apply(...node.args.map(arg => this.evaluateNode(arg, lookup)));
+      }
+
+      case 'binary': {
+        if (node.operator === '&&') {
+          return Number(this.evaluateNode(node.left, lookup) !== 0 && this.evaluateNode(node.right, lookup) !== 0);
+        }
+        if (node.operator === '||') {
+          return Number(this.evaluateNode(node.left, lookup) !== 0 || this.evaluateNode(node.right, lookup) !== 0);
+        }
+
+        const left = this.evaluateNode(node.left, lookup);
+        const right = this.evaluateNode(node.right, lookup);
+        switch (node.operator) {
+          case '+': return left + right;
+          case '-': return left - right;
+          case '*': return left * right;
+          case '/': return left / right;
+          case '%': return left % right;
+          case '^': return Math.pow(left, right);
+          case '<': return Number(left < right);
+          case '<=': return Number(left <= right);
+          case '>': return Number(left > right);
+          case '>=': return Number(left >= right);
+          case '==': return Number(left === right);
+          case '!=': return Number(left !== right);
+          default: throw new Error(`Unsupported operator "${node.operator}"`);
+        }
+      }
+    }
+  }
+}
+
+// Recursive descent parser; binary operators are handled by precedence climbing
+class FormulaParser {
+  private tokens: Token[];
+  private index = 0;
+
+  constructor(source: string) {
+    this.tokens = tokenize(source);
+  }
+
+  parse(): FormulaNode {
+    if (this.peek().type === 'end') {
+      throw new Error('Formula is empty');
+    }
+    const node = this.parseConditional();
+    const trailing = this.peek();
+    if (trailing.type !== 'end') {
+      throw new Error(`Unexpected "${trailing.value}" at position ${trailing.position + 1}`);
+    }
+    return node;
+  }
+
+  private parseConditional(): FormulaNode {
+    const test = this.parseBinary(0);
+    if (this.peek().value !== '?') return test;
+
+    this.next();
+    const consequent = this.parseConditional();
+    this.expect(':');
+    const alternate = this.parseConditional();
+    return { type: 'conditional', test, consequent, alternate };
+  }
+
+  private parseBinary(minPrecedence: number): FormulaNode {
+    let left = this.parseUnary();
+
+    for (;;) {
+      const token = this.peek();
+      const precedence = token.type === 'operator' ? PRECEDENCE[token.value] : undefined;
+      if (precedence === undefined || precedence <= minPrecedence) break;
+
+      this.next();
+      // Right associative exponent: parse the right side at one level lower
+      const right = this.parseBinary(token.value === '^' ? precedence - 1 : precedence);
+      left = { type: 'binary', operator: token.value, left, right };
+    }
+
+    return left;
+  }
+
+  private parseUnary(): FormulaNode {
+    const token = this.peek();
+    if (token.type === 'operator' && (token.value === '-' || token.value === '+' || token.value === '!')) {
+      this.next();
+      // Unary minus binds looser than ^ so -2^2 is -(2^2)
+      const operand = this.parseBinary(PRECEDENCE['*']);
+      return token.value === '+' ? operand : { type: 'unary', operator: token.value, operand };
+    }
+    return this.parsePrimary();
+  }
+
+  private parsePrimary(): FormulaNode {
+    const token = this.next();
+
+    if (token.type === 'number') {
+      return { type: 'number', value: parseFloat(token.value) };
+    }
+
+    if (token.type === 'identifier') {
+      if (this.peek().value === '(') {
+        this.next();
+        const args: FormulaNode[] = [];
+        if (this.peek().value !== ')') {
+          args.push(this.parseConditional());
+          while (this.peek().type === 'comma') {
+            this.next();
+            args.push(this.parseConditional());
+          }
+        }
+        this.expect(')');
+        return { type: 'call', name: token.value, args, position: token.position };
+      }
+      return { type: 'identifier', name: token.value, position: token.position };
+    }
+
+    if (token.value === '(') {
+      const node = this.parseConditional();
+      this.expect(')');
+      return node;
+    }
+
+    if (token.type === 'end') {
+      throw new Error('Unexpected end of formula');
+    }
+    throw new Error(`Unexpected "${token.value}" at position ${token.position + 1}`);
+  }
+
+  private peek(): Token {
+    return this.tokens[this.index];
+  }
+
+  private next(): Token {
+    const token = this.tokens[this.index];
+    if (token.type !== 'end') this.index++;
+    return token;
+  }
+
+  private expect(value: string): void {
+    const token = this.next();
+    if (token.value !== value) {
+      const found = token.type === 'end' ? 'end of formula' : `"${token.value}" at position ${token.position + 1}`;
+      throw new Error(`Expected "${value}" but found ${found}`);
+    }
+  }
+}
+
+function tokenize(source: string): Token[] {
+  const tokens: Token[] = [];
+  let position = 0;
+
+  while (position < source.length) {
+    const rest = source.slice(position);
+
+    const whitespace = rest.match(/^\s+/);
+    if (whitespace) {
+      position += whitespace[0].length;
+      continue;
+    }
+
+    // Numbers allow digit separators (1_000_000) and exponents (2e6)
+    const number = rest.match(/^(\d[\d_]*(\.\d+)?|\.\d+)([eE][+-]?\d+)?/);
+    if (number) {
+      tokens.push({ type: 'number', value: number[0].replace(/_/g, ''), position });
+      position += number[0].length;
+      continue;
+    }
+
+    const identifier = rest.match(/^[A-Za-z_$][\w$]*(\.[A-Za-z_$][\w$]*)*/);
+    if (identifier) {
+      tokens.push({ type: 'identifier', value: identifier[0], position });
+      position += identifier[0].length;
+      continue;
+    }
+
+    const operator = OPERATORS.find(op => rest.startsWith(op));
+    if (operator) {
+      tokens.push({ type: 'operator', value: operator === '**' ? '^' : operator, position });
+      position += operator.length;
+      continue;
+    }
+
+    if (rest[0] === '(' || rest[0] === ')') {
+      tokens.push({ type: 'paren', value: rest[0], position });
+      position++;
+      continue;
+    }
+
+    if (rest[0] === ',') {
+      tokens.push({ type: 'comma', value: ',', position });
+      position++;
+      continue;
+    }
+
+    throw new Error(`Unexpected character "${rest[0]}" at position ${position + 1}`);
+  }
+
+  tokens.push({ type: 'end', value: '', position });
+  return tokens;
+}
+
+// Booleans become 1/0 and numeric strings are parsed; anything else is left unbound
+function setScopeValue(scope: FormulaScope, id: string, value: unknown): void {
+  let numeric: number | undefined;
+  if (typeof value === 'number') numeric = value;
+  else if (typeof value === 'boolean') numeric = value ? 1 : 0;
+  else if (typeof value === 'string' && value.trim() !== '' && !isNaN(Number(value))) numeric = Number(value);
+
+  if (numeric !== undefined && Number.isFinite(numeric)) {
+    scope[id] = numeric;
+    scope[toIdentifier(id)] = numeric;
+  }
+}
+
+function toIdentifier(id: string): string {
+  return id.replace(/[^\w$.]/g, '_');
+}
+
+function formatResult(value: number): string {
+  return (Math.round(value * 100) / 100).toFixed(2);
+}
+
+export const costFormulaEngine = new CostFormulaEngine();
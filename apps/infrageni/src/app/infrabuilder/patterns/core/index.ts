@@ -9,6 +9,8 @@ export * from './pattern-types';
 export { PatternRegistry } from './pattern-registry';
 export { PatternValidator, patternValidator } from './pattern-validator';
 export { TemplateEngine, templateEngine } from './template-engine';
+export { CostFormulaEngine, costFormulaEngine } from './cost-formula';
+export { parsePatternYaml, stringifyPatternYaml } from './pattern-yaml';
 
 // Re-export commonly used interfaces
 export type {
@@ -40,4 +42,13 @@ export type {
   RelationshipTemplate,
   ParameterReference,
   ConditionalExpression
-} from './template-engine';
\ No newline at end of file
+} from './template-engine';
+
+export type {
+  FormulaScope,
+  FormulaResult,
+  CalculationResult,
+  ScalingFactorResult,
+  CostFormulaError,
+  CostModelEvaluation
+} from './cost-formula';
@@ -0,0 +1,85 @@
+// @vitest-environment node
+// fflate tells files from folders with instanceof Uint8Array, which fails across the jsdom realm
+import { unzipSync } from 'fflate';
+import { ComponentRegistry } from '../../components/core/component-registry';
+import { createSimple3TierWebAppPattern } from '../library/web-app-patterns';
+import { patternImportExport } from './pattern-import-export';
+
+// Paths inside a zip, without the project folder they are packed under
+function zippedFiles(archive: Uint8Array | undefined): string[] {
+  return Object.keys(unzipSync(archive ?? new Uint8Array())).map(path => path.slice(path.indexOf('/') + 1));
+}
+
+describe('patternImportExport.exportPattern', () => {
+  beforeAll(async () => {
+    await ComponentRegistry.getInstance().initialize();
+  });
+
+  it('exports a Terraform project as a zip with a text preview', async () => {
+    const result = await patternImportExport.exportPattern(createSimple3TierWebAppPattern(), { type: 'terraform', options: { provider: 'aws' } });
+
+    expect(result.success).toBe(true);
+    expect(result.filename).toMatch(/\.zip$/);
+    expect(zippedFiles(result.archive)).toEqual(expect.arrayContaining(['providers.tf', 'main.tf', 'variables.tf', 'outputs.tf']));
+    expect(result.content).toContain('# ---- main.tf ----');
+  });
+
+  it('exports a Pulumi project with its project, stack and package files', async () => {
+    const result = await patternImportExport.exportPattern(createSimple3TierWebAppPattern(), { type: 'pulumi', options: { provider: 'aws' } });
+
+    expect(result.filename).toMatch(/\.zip$/);
+    expect(zippedFiles(result.archive)).toEqual(
+      expect.arrayContaining(['Pulumi.yaml', 'Pulumi.dev.yaml', 'package.json', 'tsconfig.json', 'index.ts'])
+    );
+    expect(result.content).toContain('# ---- Pulumi.yaml ----');
+  });
+
+  it('exports single-file formats without an archive', async () => {
+    const result = await patternImportExport.exportPattern(createSimple3TierWebAppPattern(), { type: 'cloudformation' });
+
+    expect(result.archive).toBeUndefined();
+    expect(result.filename).toMatch(/\.yaml$/);
+  });
+});
+
+describe('patternImportExport.importPattern', () => {
+  beforeAll(async () => {
+    await ComponentRegistry.getInstance().initialize();
+  });
+
+  it('imports uploaded text through the parser of its format', async () => {
+    const result = await patternImportExport.importPattern({
+      type: 'compose',
+      source: 'docker-compose.yml',
+      options: { text: 'services:\n  web:\n    image: nginx\n  db:\n    image: postgres\n', file: 'docker-compose.yml' }
+    });
+
+    expect(result.success).toBe(true);
+    expect(result.pattern?.components.map(component => component.displayName)).toEqual(expect.arrayContaining(['web', 'db']));
+    expect(result.canvas?.items.length).toBeGreaterThan(0);
+  });
+
+  it('tells Terraform state JSON from HCL when no files are given', async () => {
+    const state = JSON.stringify({
+      version: 4,
+      terraform_version: '1.7.5',
+      resources: [{ mode: 'managed', type: 'aws_vpc', name: 'main', instances: [{ attributes: { id: 'vpc-1', cidr_block: '10.0.0.0/16' } }] }]
+    });
+    const fromState = await patternImportExport.importPattern({ type: 'terraform', source: 'terraform.tfstate', options: { text: state } });
+    const fromHcl = await patternImportExport.importPattern({
+      type: 'terraform',
+      source: 'resource "aws_vpc" "main" {\n  cidr_block = "10.0.0.0/16"\n}\n'
+    });
+
+    expect(fromState.pattern?.description).toMatch(/Terraform state/);
+    expect(fromHcl.success).toBe(true);
+    expect(fromHcl.pattern?.components).toHaveLength(1);
+  });
+
+  it('reports parse errors as a failed import', async () => {
+    const result = await patternImportExport.importPattern({ type: 'terraform', source: '{"foo": 1}' });
+
+    expect(result.success).toBe(false);
+    expect(result.errors).toEqual([expect.stringMatching(/Not a Terraform state or plan/)]);
+  });
+});
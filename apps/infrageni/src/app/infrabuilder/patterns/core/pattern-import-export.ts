@@ -15,16 +15,61 @@ import {
 import { PatternRegistry } from './pattern-registry';
 import { patternValidator } from './pattern-validator';
 import { templateEngine } from './template-engine';
+import { generateCloudFormation } from '../../export/cloudformation';
+import { generateArmTemplate, generateBicep } from '../../export/azure-templates';
+import { TerraformProject, generateTerraformProject, serializeTerraformProject, zipTerraformProject } from '../../export/terraform';
+import { PulumiProject, generatePulumiProject, serializePulumiProject, zipPulumiProject } from '../../export/pulumi';
+import { generateHelmChart, generateKubernetesManifests } from '../../export/kubernetes';
+import { generateComposeFile } from '../../export/compose';
+import { generateStructurizrWorkspace } from '../../export/structurizr';
+import { serializeFiles } from '../../export/archive';
+import { buildModelFromPattern } from '../../export/resource-model';
+import { ImportedCanvas, ImportedDiagram, buildCanvasFromImport, buildPatternFromImport } from '../../import/import-model';
+import { importTerraform } from '../../import/terraform-import';
+import { importTerraformState } from '../../import/terraform-state';
+import { importCloudFormation } from '../../import/cloudformation-import';
+import { importKubernetes } from '../../import/kubernetes-import';
+import { importCompose } from '../../import/compose-import';
+import { importDrawio } from '../../import/drawio-import';
+import { importMermaid } from '../../import/mermaid-import';
+import { importDot } from '../../import/dot-import';
+import { importPlantUml } from '../../import/plantuml-import';
+import { parsePatternYaml, stringifyPatternYaml } from './pattern-yaml';
+import { Provider } from '../../../lib/provider-atom';
+
+// Infrastructure code and diagram formats, imported through DIAGRAM_IMPORTERS
+export type DiagramSourceType = 'terraform' | 'cloudformation' | 'kubernetes' | 'compose' | 'drawio' | 'mermaid' | 'graphviz' | 'plantuml';
 
 export interface ImportSource {
-  type: 'file' | 'url' | 'git' | 'registry' | 'terraform' | 'cloudformation' | 'kubernetes';
+  type: 'file' | 'url' | 'git' | 'registry' | DiagramSourceType;
   source: string;
-  options?: Record<string, any>;
+  options?: ImportOptions;
+}
+
+// Which options apply depends on the source type
+export interface ImportOptions {
+  upload?: Blob; // file: the pattern file picked by the user
+  branch?: string; // git
+  path?: string; // git
+  text?: string; // Uploaded or pasted code or diagram; the source itself otherwise
+  file?: string; // Path of that text, for error messages and resource sources
+  files?: Record<string, string>; // terraform: every file of a folder or zip, by path
+  name?: string;
+  category?: PatternCategory;
 }
 
 export interface ExportFormat {
-  type: 'json' | 'yaml' | 'terraform' | 'cloudformation' | 'kubernetes' | 'arm' | 'pulumi';
-  options?: Record<string, any>;
+  type: 'json' | 'yaml' | 'terraform' | 'cloudformation' | 'kubernetes' | 'docker-compose' | 'structurizr' | 'arm' | 'pulumi';
+  options?: ExportOptions;
+}
+
+// Which options apply depends on the export format
+export interface ExportOptions {
+  provider?: Provider; // terraform, pulumi
+  format?: 'json' | 'yaml' | 'helm' | 'bicep'; // cloudformation json, kubernetes helm, arm bicep
+  namespace?: string; // kubernetes
+  environment?: string; // structurizr deployment environment
+  source?: string; // yaml: text of the YAML file to update
 }
 
 export interface ImportResult {
@@ -33,12 +78,16 @@ export interface ImportResult {
   errors: string[];
   warnings: string[];
   validationResult?: PatternValidationResult;
+  // Canvas items for imports reverse-engineered from infrastructure code
+  canvas?: ImportedCanvas;
 }
 
 export interface ExportResult {
   success: boolean;
   content?: string;
   filename?: string;
+  // Zip of every file for multi-file projects, whose content is then a text preview
+  archive?: Uint8Array;
   errors: string[];
 }
 
@@ -60,11 +109,35 @@ export interface BatchImportResult {
   };
 }
 
+interface DiagramImporter {
+  label: string;
+  parse: (text: string, options: ImportOptions) => ImportedDiagram;
+}
+
+// A folder or zip upload passes every file; otherwise the text is state or plan JSON or a single main.tf
+function parseTerraform(text: string, { files, name }: ImportOptions): ImportedDiagram {
+  if (files) return importTerraform(files, { name });
+  return text.trim().startsWith('{') ? importTerraformState(text, { name }) : importTerraform({ 'main.tf': text }, { name });
+}
+
+const DIAGRAM_IMPORTERS: Record<DiagramSourceType, DiagramImporter> = {
+  terraform: { label: 'Terraform', parse: parseTerraform },
+  cloudformation: { label: 'CloudFormation', parse: importCloudFormation },
+  kubernetes: { label: 'Kubernetes', parse: importKubernetes },
+  compose: { label: 'docker-compose', parse: importCompose },
+  drawio: { label: 'Draw.io', parse: importDrawio },
+  mermaid: { label: 'Mermaid', parse: importMermaid },
+  graphviz: { label: 'Graphviz', parse: importDot },
+  plantuml: { label: 'PlantUML', parse: importPlantUml }
+};
+
 class PatternImportExport {
   private registry: PatternRegistry;
   private supportedFormats = new Set([
     'json', 'yaml', 'terraform', 'cloudformation', 'kubernetes', 'arm', 'pulumi'
   ]);
+  // YAML text of imported patterns by id, so re-exports keep the author's comments and anchors
+  private yamlSources = new Map<string, string>();
 
   constructor() {
     this.registry = PatternRegistry.getInstance();
@@ -84,7 +157,7 @@ class PatternImportExport {
       
       switch (source.type) {
         case 'file':
-          rawData = await this.readFile(source.source);
+          rawData = await this.readFile(source.source, source.options);
           break;
         case 'url':
           rawData = await this.fetchFromUrl(source.source);
@@ -93,20 +166,23 @@ class PatternImportExport {
           rawData = await this.fetchFromGit(source.source, source.options);
           break;
         case 'registry':
-          return await this.importFromRegistry(source.source, source.options);
+          return await this.importFromRegistry(source.source);
         case 'terraform':
-          return await this.importFromTerraform(source.source, source.options);
         case 'cloudformation':
-          return await this.importFromCloudFormation(source.source, source.options);
         case 'kubernetes':
-          return await this.importFromKubernetes(source.source, source.options);
+        case 'compose':
+        case 'drawio':
+        case 'mermaid':
+        case 'graphviz':
+        case 'plantuml':
+          return await this.importDiagram(source, DIAGRAM_IMPORTERS[source.type]);
         default:
           throw new Error(`Unsupported import source type: ${source.type}`);
       }
 
       onProgress?.({ stage: 'parsing', progress: 25, message: 'Parsing pattern data...' });
       
-      const pattern = await this.parsePatternData(rawData, source.type);
+      const pattern = await this.parsePatternData(rawData, source.type, source.source);
       
       onProgress?.({ stage: 'validating', progress: 50, message: 'Validating pattern...' });
       
@@ -115,6 +191,9 @@ class PatternImportExport {
       onProgress?.({ stage: 'converting', progress: 75, message: 'Converting to internal format...' });
       
       const convertedPattern = await this.convertToInternalFormat(pattern);
+      if (!rawData.trimStart().startsWith('{')) {
+        this.yamlSources.set(convertedPattern.id, rawData);
+      }
       
       onProgress?.({ stage: 'complete', progress: 100, message: 'Import complete!' });
 
@@ -198,6 +277,7 @@ class PatternImportExport {
     try {
       let content: string;
       let filename: string;
+      let archive: Uint8Array | undefined;
 
       switch (format.type) {
         case 'json':
@@ -205,29 +285,43 @@ class PatternImportExport {
           filename = `${pattern.name.toLowerCase().replace(/\s+/g, '-')}.json`;
           break;
         case 'yaml':
-          content = this.convertToYaml(pattern);
+          content = this.convertToYaml(pattern, format.options);
           filename = `${pattern.name.toLowerCase().replace(/\s+/g, '-')}.yaml`;
           break;
-        case 'terraform':
-          content = await this.convertToTerraform(pattern, format.options);
-          filename = `${pattern.name.toLowerCase().replace(/\s+/g, '-')}.tf`;
+        case 'terraform': {
+          const project = this.convertToTerraform(pattern, format.options);
+          content = serializeTerraformProject(project);
+          archive = zipTerraformProject(project);
+          filename = `${pattern.name.toLowerCase().replace(/\s+/g, '-')}.zip`;
           break;
+        }
         case 'cloudformation':
           content = await this.convertToCloudFormation(pattern, format.options);
-          filename = `${pattern.name.toLowerCase().replace(/\s+/g, '-')}.yaml`;
+          filename = `${pattern.name.toLowerCase().replace(/\s+/g, '-')}.${format.options?.format === 'json' ? 'json' : 'yaml'}`;
           break;
         case 'kubernetes':
           content = await this.convertToKubernetes(pattern, format.options);
           filename = `${pattern.name.toLowerCase().replace(/\s+/g, '-')}.yaml`;
           break;
+        case 'docker-compose':
+          content = await this.convertToCompose(pattern);
+          filename = 'docker-compose.yml';
+          break;
+        case 'structurizr':
+          content = await this.convertToStructurizr(pattern, format.options);
+          filename = 'workspace.dsl';
+          break;
         case 'arm':
           content = await this.convertToARM(pattern, format.options);
-          filename = `${pattern.name.toLowerCase().replace(/\s+/g, '-')}.json`;
+          filename = `${pattern.name.toLowerCase().replace(/\s+/g, '-')}.${format.options?.format === 'bicep' ? 'bicep' : 'json'}`;
           break;
-        case 'pulumi':
-          content = await this.convertToPulumi(pattern, format.options);
-          filename = `${pattern.name.toLowerCase().replace(/\s+/g, '-')}.ts`;
+        case 'pulumi': {
+          const project = this.convertToPulumi(pattern, format.options);
+          content = serializePulumiProject(project);
+          archive = zipPulumiProject(project);
+          filename = `${pattern.name.toLowerCase().replace(/\s+/g, '-')}.zip`;
           break;
+        }
         default:
           throw new Error(`Unsupported export format: ${format.type}`);
       }
@@ -236,6 +330,7 @@ class PatternImportExport {
         success: true,
         content,
         filename,
+        archive,
         errors: []
       };
 
@@ -344,10 +439,11 @@ class PatternImportExport {
 
   // Private helper methods
 
-  private async readFile(filePath: string): Promise<string> {
-    // Implementation would depend on the runtime environment
-    // For browser: FileReader API
-    // For Node.js: fs.readFile
+  private async readFile(filePath: string, options?: ImportOptions): Promise<string> {
+    // The import workflow passes the selected File; reading by path would depend on the runtime
+    if (options?.upload) {
+      return options.upload.text();
+    }
     throw new Error('File reading not implemented for this environment');
   }
 
@@ -359,12 +455,12 @@ class PatternImportExport {
     return response.text();
   }
 
-  private async fetchFromGit(repository: string, options?: any): Promise<string> {
+  private async fetchFromGit(repository: string, options?: ImportOptions): Promise<string> {
     // Implementation would use Git API or clone repository
     throw new Error('Git import not implemented');
   }
 
-  private async importFromRegistry(registryId: string, options?: any): Promise<ImportResult> {
+  private async importFromRegistry(registryId: string): Promise<ImportResult> {
     try {
       const pattern = this.registry.getPattern(registryId);
       if (!pattern) {
@@ -386,22 +482,31 @@ class PatternImportExport {
     }
   }
 
-  private async importFromTerraform(source: string, options?: any): Promise<ImportResult> {
-    // Parse Terraform configuration and convert to pattern
-    throw new Error('Terraform import not implemented');
-  }
-
-  private async importFromCloudFormation(source: string, options?: any): Promise<ImportResult> {
-    // Parse CloudFormation template and convert to pattern
-    throw new Error('CloudFormation import not implemented');
-  }
+  private async importDiagram(source: ImportSource, importer: DiagramImporter): Promise<ImportResult> {
+    const options = source.options ?? {};
+    try {
+      const diagram = importer.parse(options.text ?? source.source, options);
+      const pattern = buildPatternFromImport(diagram, { category: options.category });
+      const validationResult = await patternValidator.validatePattern(pattern);
 
-  private async importFromKubernetes(source: string, options?: any): Promise<ImportResult> {
-    // Parse Kubernetes manifests and convert to pattern
-    throw new Error('Kubernetes import not implemented');
+      return {
+        success: true,
+        pattern,
+        canvas: buildCanvasFromImport(diagram),
+        errors: [],
+        warnings: [...diagram.warnings, ...validationResult.warnings.map(w => w.message)],
+        validationResult
+      };
+    } catch (error) {
+      return {
+        success: false,
+        errors: [error instanceof Error ? error.message : `${importer.label} import failed`],
+        warnings: []
+      };
+    }
   }
 
-  private async parsePatternData(data: string, sourceType: string): Promise<InfrastructurePattern> {
+  private async parsePatternData(data: string, sourceType: string, file?: string): Promise<InfrastructurePattern> {
     try {
       if (sourceType === 'file' || sourceType === 'url') {
         // Try JSON first
@@ -409,7 +514,7 @@ class PatternImportExport {
           return JSON.parse(data) as InfrastructurePattern;
         } catch {
           // Try YAML
-          return this.parseYaml(data) as InfrastructurePattern;
+          return this.parseYaml(data, file);
         }
       }
       
@@ -456,142 +561,54 @@ class PatternImportExport {
     return name.toLowerCase().replace(/[^a-z0-9]/g, '-').replace(/-+/g, '-').replace(/^-|-$/g, '');
   }
 
-  private convertToYaml(pattern: InfrastructurePattern): string {
-    // Simple YAML conversion - in a real implementation, use a YAML library
-    return JSON.stringify(pattern, null, 2).replace(/"/g, '').replace(/,$/gm, '');
+  private convertToYaml(pattern: InfrastructurePattern, options?: ExportOptions): string {
+    // Update the YAML the pattern was imported from (or options.source) when there is one
+    return stringifyPatternYaml(pattern, options?.source ?? this.yamlSources.get(pattern.id));
   }
 
-  private parseYaml(yamlString: string): any {
-    // Simple YAML parsing - in a real implementation, use a YAML library
-    throw new Error('YAML parsing not implemented');
+  private parseYaml(yamlString: string, file?: string): InfrastructurePattern {
+    // Errors carry file:line:column for the validation step
+    return parsePatternYaml(yamlString, file);
   }
 
-  private async convertToTerraform(pattern: InfrastructurePattern, options?: any): Promise<string> {
-    // Convert pattern to Terraform configuration
-    const terraformConfig = {
-      terraform: {
-        required_version: '>= 1.0'
-      },
-      variable: this.generateTerraformVariables(pattern),
-      resource: this.generateTerraformResources(pattern),
-      output: this.generateTerraformOutputs(pattern)
-    };
-
-    return this.formatTerraformConfig(terraformConfig);
-  }
-
-  private async convertToCloudFormation(pattern: InfrastructurePattern, options?: any): Promise<string> {
-    // Convert pattern to CloudFormation template
-    throw new Error('CloudFormation conversion not implemented');
-  }
-
-  private async convertToKubernetes(pattern: InfrastructurePattern, options?: any): Promise<string> {
-    // Convert pattern to Kubernetes manifests
-    throw new Error('Kubernetes conversion not implemented');
-  }
-
-  private async convertToARM(pattern: InfrastructurePattern, options?: any): Promise<string> {
-    // Convert pattern to Azure Resource Manager template
-    throw new Error('ARM template conversion not implemented');
-  }
-
-  private async convertToPulumi(pattern: InfrastructurePattern, options?: any): Promise<string> {
-    // Convert pattern to Pulumi TypeScript code
-    throw new Error('Pulumi conversion not implemented');
-  }
-
-  private generateTerraformVariables(pattern: InfrastructurePattern): Record<string, any> {
-    const variables: Record<string, any> = {};
-    
-    pattern.parameters?.forEach(param => {
-      variables[param.name] = {
-        description: param.description,
-        type: this.mapToTerraformType(param.type),
-        default: param.defaultValue
-      };
-    });
-
-    return variables;
-  }
-
-  private generateTerraformResources(pattern: InfrastructurePattern): Record<string, any> {
-    const resources: Record<string, any> = {};
-    
-    pattern.components.forEach(component => {
-      const resourceType = this.mapToTerraformResourceType(component.type);
-      const resourceName = this.sanitizeTerraformName(component.name);
-      
-      resources[resourceType] = resources[resourceType] || {};
-      resources[resourceType][resourceName] = component.configuration || {};
-    });
-
-    return resources;
+  private convertToTerraform(pattern: InfrastructurePattern, options?: ExportOptions): TerraformProject {
+    // Convert pattern to every file of the Terraform project for options.provider
+    return generateTerraformProject(buildModelFromPattern(pattern), options?.provider ?? 'generic');
   }
 
-  private generateTerraformOutputs(pattern: InfrastructurePattern): Record<string, any> {
-    // Generate outputs based on component relationships and common output patterns
-    return {};
+  private async convertToCloudFormation(pattern: InfrastructurePattern, options?: ExportOptions): Promise<string> {
+    // Convert pattern to CloudFormation template (YAML unless options.format is 'json')
+    return generateCloudFormation(buildModelFromPattern(pattern), options?.format === 'json' ? 'json' : 'yaml');
   }
 
-  private formatTerraformConfig(config: any): string {
-    // Format Terraform HCL - simplified implementation
-    let hcl = '';
-    
-    Object.entries(config).forEach(([blockType, blocks]) => {
-      if (typeof blocks === 'object' && blocks !== null) {
-        Object.entries(blocks).forEach(([blockName, blockConfig]) => {
-          hcl += `${blockType} "${blockName}" {\n`;
-          hcl += this.formatTerraformBlock(blockConfig as any, 2);
-          hcl += '}\n\n';
-        });
-      }
-    });
-
-    return hcl;
+  private async convertToKubernetes(pattern: InfrastructurePattern, options?: ExportOptions): Promise<string> {
+    // Convert pattern to Kubernetes manifests, or every file of a Helm chart when options.format is 'helm'
+    const model = buildModelFromPattern(pattern);
+    if (options?.format === 'helm') {
+      return serializeFiles(generateHelmChart(model).files);
+    }
+    return generateKubernetesManifests(model, { namespace: options?.namespace });
   }
 
-  private formatTerraformBlock(obj: any, indent: number): string {
-    let result = '';
-    const spaces = ' '.repeat(indent);
-    
-    Object.entries(obj).forEach(([key, value]) => {
-      if (typeof value === 'object' && value !== null) {
-        result += `${spaces}${key} = {\n`;
-        result += this.formatTerraformBlock(value, indent + 2);
-        result += `${spaces}}\n`;
-      } else {
-        result += `${spaces}${key} = ${JSON.stringify(value)}\n`;
-      }
-    });
-
-    return result;
+  private async convertToCompose(pattern: InfrastructurePattern): Promise<string> {
+    // Convert the pattern's container workloads to a docker-compose file for local runs
+    return generateComposeFile(buildModelFromPattern(pattern));
   }
 
-  private mapToTerraformType(type: string): string {
-    const typeMap: Record<string, string> = {
-      'string': 'string',
-      'number': 'number',
-      'boolean': 'bool',
-      'array': 'list(string)',
-      'object': 'object({})'
-    };
-    return typeMap[type] || 'string';
+  private async convertToStructurizr(pattern: InfrastructurePattern, options?: ExportOptions): Promise<string> {
+    // Convert pattern to a Structurizr workspace with context, container and deployment views
+    return generateStructurizrWorkspace(buildModelFromPattern(pattern), { environment: options?.environment });
   }
 
-  private mapToTerraformResourceType(componentType: string): string {
-    // Map component types to Terraform resource types
-    const resourceMap: Record<string, string> = {
-      'compute': 'aws_instance',
-      'storage': 'aws_s3_bucket',
-      'database': 'aws_rds_instance',
-      'network': 'aws_vpc',
-      'security': 'aws_security_group'
-    };
-    return resourceMap[componentType] || 'null_resource';
+  private async convertToARM(pattern: InfrastructurePattern, options?: ExportOptions): Promise<string> {
+    // Convert pattern to Azure Resource Manager template (ARM JSON unless options.format is 'bicep')
+    const model = buildModelFromPattern(pattern);
+    return options?.format === 'bicep' ? generateBicep(model) : generateArmTemplate(model);
   }
 
-  private sanitizeTerraformName(name: string): string {
-    return name.toLowerCase().replace(/[^a-z0-9_]/g, '_').replace(/_{2,}/g, '_');
+  private convertToPulumi(pattern: InfrastructurePattern, options?: ExportOptions): PulumiProject {
+    // Convert pattern to the Pulumi TypeScript project (program, Pulumi.yaml, stack config, package.json) for options.provider
+    return generatePulumiProject(buildModelFromPattern(pattern), options?.provider ?? 'generic');
   }
 
   private applyParameterOverrides(pattern: InfrastructurePattern, overrides: Record<string, any>): InfrastructurePattern {
@@ -17,6 +17,7 @@ import {
 } from './pattern-types';
 import { ComponentRegistry } from '../../components/core/component-registry';
 import { ComponentMetadata, ComponentCategory } from '../../components/core/component-types';
+import { costFormulaEngine } from './cost-formula';
 
 export interface ValidationConfig {
   strictMode: boolean;
@@ -65,6 +66,9 @@ export class PatternValidator {
     // Relationship validation
     this.validateRelationships(pattern, errors, warnings);
 
+    // Cost model formula validation
+    this.validateCostModel(pattern, errors);
+
     // Architecture validation
     if (config.architectureValidation) {
       this.validateArchitecture(pattern, errors, warnings, suggestions);
@@ -349,6 +353,37 @@ export class PatternValidator {
     this.checkCircularDependencies(pattern, errors);
   }
 
+  /**
+   * Validate cost model formulas by evaluating them with default values
+   */
+  private validateCostModel(
+    pattern: InfrastructurePattern,
+    errors: ValidationError[]
+  ): void {
+    if (!pattern.costModel) return;
+
+    const evaluation = costFormulaEngine.evaluateCostModel(pattern.costModel, pattern.parameters);
+
+    for (const error of evaluation.errors) {
+      if (error.source === 'calculation') {
+        errors.push({
+          code: 'INVALID_COST_FORMULA',
+          message: `Cost calculation '${error.id}': ${error.message}`,
+          field: `costModel.calculations.${error.id}`,
+          severity: 'error'
+        });
+      } else {
+        errors.push({
+          code: 'INVALID_SCALING_FORMULA',
+          message: `Scaling factor '${error.id}' of ${error.componentInstanceId}: ${error.message}`,
+          component: error.componentInstanceId,
+          field: `costModel.components.${error.componentInstanceId}.scalingFactors.${error.id}`,
+          severity: 'error'
+        });
+      }
+    }
+  }
+
   /**
    * Validate architecture patterns
    */
@@ -0,0 +1,60 @@
+import { parsePatternYaml, stringifyPatternYaml } from './pattern-yaml';
+
+const source = `# Shop pattern, kept by the platform team
+id: shop
+name: Shop
+defaults: &small
+  instanceType: t3.small
+  encrypted: true
+components:
+  - instanceId: web
+    configuration:
+      <<: *small
+      replicas: 2
+  - instanceId: worker
+    configuration: *small
+description: |
+  Web shop with
+  a worker
+`;
+
+describe('parsePatternYaml', () => {
+  it('resolves anchors, aliases and merge keys', () => {
+    const pattern = parsePatternYaml(source);
+    const [web, worker] = pattern.components;
+
+    expect(web.configuration).toEqual({ instanceType: 't3.small', encrypted: true, replicas: 2 });
+    expect(worker.configuration).toEqual({ instanceType: 't3.small', encrypted: true });
+    expect(pattern.description).toBe('Web shop with\na worker\n');
+  });
+
+  it('reports errors with the file, line and column', () => {
+    expect(() => parsePatternYaml('id: shop\nname: [Shop', 'shop.yaml')).toThrow(/^shop\.yaml:2:\d+: /);
+    expect(() => parsePatternYaml('- shop\n', 'list.yaml')).toThrow('list.yaml:1:1: A pattern must be a YAML mapping');
+  });
+});
+
+describe('stringifyPatternYaml', () => {
+  it('updates the original document in place, keeping comments, anchors and block strings', () => {
+    const pattern = parsePatternYaml(source);
+    pattern.name = 'Shop v2';
+    pattern.components[0].configuration.replicas = 3;
+
+    const text = stringifyPatternYaml(pattern, source);
+
+    expect(text).toContain('# Shop pattern, kept by the platform team');
+    expect(text).toContain('name: Shop v2');
+    expect(text).toContain('<<: *small');
+    expect(text).toContain('replicas: 3');
+    expect(text).toContain('configuration: *small');
+    expect(text).toContain('description: |');
+    expect(parsePatternYaml(text)).toEqual(pattern);
+  });
+
+  it('writes a new document without the original or when it no longer parses', () => {
+    const pattern = parsePatternYaml(source);
+
+    expect(stringifyPatternYaml(pattern)).not.toContain('#');
+    expect(parsePatternYaml(stringifyPatternYaml(pattern, 'name: [broken'))).toEqual(pattern);
+  });
+});
@@ -0,0 +1,130 @@
+/**
+ * Pattern YAML - Reads and writes InfrastructurePattern documents as YAML
+ * Anchors, aliases and merge keys resolve on import; re-exporting over the original text
+ * updates it in place so comments, anchors and block strings survive where the values still match
+ */
+
+import { Document, LineCounter, Node, Pair, isAlias, isMap, isScalar, isSeq, parseDocument, stringify } from 'yaml';
+import { InfrastructurePattern } from './pattern-types';
+
+const STRINGIFY_OPTIONS = { lineWidth: 0, aliasDuplicateObjects: false };
+
+/**
+ * Parse a pattern document; errors read file:line:column: message
+ */
+export function parsePatternYaml(text: string, file = 'pattern.yaml'): InfrastructurePattern {
+  const lineCounter = new LineCounter();
+  const document = parseDocument(text, { lineCounter, merge: true });
+
+  const [error] = document.errors;
+  if (error) {
+    const position = error.linePos?.[0];
+    const message = error.message.split('\n')[0].replace(/ at line \d+, column \d+:?$/, '');
+    throw new Error(`${file}${position ? `:${position.line}:${position.col}` : ''}: ${message}`);
+  }
+  if (!isMap(document.contents)) {
+    const position = lineCounter.linePos(document.contents?.range?.[0] ?? 0);
+    throw new Error(`${file}:${position.line}:${position.col}: A pattern must be a YAML mapping`);
+  }
+
+  return document.toJS({ maxAliasCount: -1 }) as InfrastructurePattern;
+}
+
+/**
+ * Write a pattern as YAML; with the text it was imported from, that document is updated instead
+ * of written from scratch so its comments and layout are kept
+ */
+export function stringifyPatternYaml(pattern: InfrastructurePattern, original?: string): string {
+  const plain = JSON.parse(JSON.stringify(pattern)) as unknown;
+  if (!original) return stringify(plain, STRINGIFY_OPTIONS);
+
+  const document = parseDocument(original, { merge: true });
+  if (document.errors.length > 0 || !isMap(document.contents)) return stringify(plain, STRINGIFY_OPTIONS);
+
+  document.contents = update(document, document.contents, plain) as typeof document.contents;
+  return document.toString({ lineWidth: 0 });
+}
+
+// Returns the node to keep for value: the original node updated in place where its shape
+// still fits, otherwise a new one
+function update(document: Document, node: unknown, value: unknown): unknown {
+  if (isAlias(node)) {
+    return equal(node.toJS(document, { maxAliasCount: -1 }), value) ? node : create(document, value);
+  }
+
+  if (Array.isArray(value) && isSeq(node)) {
+    node.items = value.map((item, index) =>
+      index < node.items.length ? update(document, node.items[index], item) : create(document, item)
+    );
+    return node;
+  }
+
+  if (isRecord(value) && isMap(node)) {
+    const inherited = mergedValues(document, node.items);
+    const keys = new Set(Object.keys(value));
+
+    // Keys no longer in the pattern go; merge keys stay as long as the map does
+    node.items = node.items.filter(pair => {
+      const key = keyOf(pair);
+      return key === '<<' || (key !== undefined && keys.has(key));
+    });
+
+    for (const [key, item] of Object.entries(value)) {
+      const pair = node.items.find(candidate => keyOf(candidate) === key);
+      if (pair) {
+        pair.value = update(document, pair.value, item) as Node;
+      } else if (!(key in inherited) || !equal(inherited[key], item)) {
+        node.items.push(document.createPair(key, item, STRINGIFY_OPTIONS) as Pair<unknown, unknown>);
+      }
+    }
+    return node;
+  }
+
+  if (isScalar(node) && (value === null || typeof value !== 'object')) {
+    if (node.value !== value) node.value = value;
+    return node;
+  }
+
+  return create(document, value);
+}
+
+function create(document: Document, value: unknown): Node {
+  return document.createNode(value, STRINGIFY_OPTIONS);
+}
+
+// Values a map takes from its merge keys; the first source wins, as in YAML 1.1
+function mergedValues(document: Document, pairs: Pair<unknown, unknown>[]): Record<string, unknown> {
+  const merged: Record<string, unknown> = {};
+  for (const pair of pairs.filter(candidate => keyOf(candidate) === '<<')) {
+    const sources = isSeq(pair.value) ? pair.value.items : [pair.value];
+    for (const source of sources.slice().reverse()) {
+      const resolved = isAlias(source) || isMap(source) ? source.toJS(document, { maxAliasCount: -1 }) : undefined;
+      if (isRecord(resolved)) Object.assign(merged, resolved);
+    }
+  }
+  return merged;
+}
+
+// Merge keys parse to a symbol; they read as << like any other key
+function keyOf(pair: Pair<unknown, unknown>): string | undefined {
+  const key = isScalar(pair.key) ? pair.key.value : pair.key;
+  if (typeof key === 'symbol') return key.description;
+  return key === null || key === undefined || typeof key === 'object' ? undefined : String(key);
+}
+
+// Structural equality that ignores key order, which YAML and the pattern object need not share
+function equal(left: unknown, right: unknown): boolean {
+  if (Array.isArray(left) && Array.isArray(right)) {
+    return left.length === right.length && left.every((item, index) => equal(item, right[index]));
+  }
+  if (isRecord(left) && isRecord(right)) {
+    const keys = Object.keys(left).filter(key => left[key] !== undefined);
+    return keys.length === Object.keys(right).filter(key => right[key] !== undefined).length &&
+      keys.every(key => equal(left[key], right[key]));
+  }
+  return left === right;
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
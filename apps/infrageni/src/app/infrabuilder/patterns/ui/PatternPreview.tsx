@@ -36,6 +36,7 @@ import {
 } from '../core/pattern-types';
 import { patternValidator } from '../core/pattern-validator';
 import { templateEngine } from '../core/template-engine';
+import { costFormulaEngine } from '../core/cost-formula';
 
 export interface PatternPreviewProps {
   pattern: InfrastructurePattern;
@@ -54,6 +55,7 @@ const TABS: TabType[] = [
   { id: 'architecture', label: 'Architecture', icon: Layers },
   { id: 'components', label: 'Components', icon: Settings },
   { id: 'configuration', label: 'Configuration', icon: Code },
+  { id: 'cost', label: 'Cost', icon: DollarSign },
   { id: 'validation', label: 'Validation', icon: Shield },
   { id: 'documentation', label: 'Documentation', icon: FileText }
 ];
@@ -90,12 +92,29 @@ export const PatternPreview: React.FC<PatternPreviewProps> = ({
   const [validationResult, setValidationResult] = useState<PatternValidationResult | null>(null);
   const [isValidating, setIsValidating] = useState(false);
   const [showConfigPreview, setShowConfigPreview] = useState(false);
+  const [scenarioValues, setScenarioValues] = useState<Record<string, unknown>>({});
 
   // Run validation when component mounts
   React.useEffect(() => {
     validatePattern();
+    setScenarioValues({});
   }, [pattern]);
 
+  // Baseline uses defaults only; the scenario recomputes whenever an input changes
+  const baselineCost = useMemo(() => (
+    pattern.costModel ? costFormulaEngine.evaluateCostModel(pattern.costModel, pattern.parameters) : null
+  ), [pattern]);
+
+  const scenarioCost = useMemo(() => (
+    pattern.costModel
+      ? costFormulaEngine.evaluateCostModel(pattern.costModel, pattern.parameters, scenarioValues)
+      : null
+  ), [pattern, scenarioValues]);
+
+  const updateScenarioValue = (id: string, value: unknown) => {
+    setScenarioValues(prev => ({ ...prev, [id]: value }));
+  };
+
   const validatePattern = async () => {
     setIsValidating(true);
     try {
@@ -461,6 +480,169 @@ export const PatternPreview: React.FC<PatternPreviewProps> = ({
     </div>
   );
 
+  const formatCostValue = (value?: number) => (
+    value === undefined ? '—' : value.toLocaleString('en-US', { maximumFractionDigits: 2 })
+  );
+
+  const renderCostTab = () => {
+    if (!pattern.costModel || !baselineCost || !scenarioCost) {
+      return (
+        <div className="text-center py-8">
+          <DollarSign className="h-12 w-12 text-gray-400 mx-auto mb-4" />
+          <p className="text-gray-600">This pattern does not define a cost model</p>
+        </div>
+      );
+    }
+
+    const scenarioInputs = [
+      ...(pattern.parameters || [])
+        .filter(param => param.type === 'number' || param.type === 'boolean')
+        .map(param => ({ id: param.id, label: param.name, type: param.type, defaultValue: param.defaultValue, unit: '' })),
+      ...pattern.costModel.variables
+        .filter(variable => !pattern.parameters?.some(param => param.id === variable.id))
+        .map(variable => ({ id: variable.id, label: variable.name, type: 'number', defaultValue: variable.defaultValue, unit: variable.unit }))
+    ];
+
+    return (
+      <div className="space-y-6">
+        <div className="flex items-center justify-between">
+          <h3 className="text-lg font-semibold text-gray-900">Cost Model</h3>
+          <button
+            onClick={() => setScenarioValues({})}
+            disabled={Object.keys(scenarioValues).length === 0}
+            className="px-3 py-2 text-sm text-gray-700 border border-gray-300 rounded-lg hover:bg-gray-50 disabled:opacity-50"
+          >
+            Reset to defaults
+          </button>
+        </div>
+
+        {/* Scenario inputs */}
+        {scenarioInputs.length > 0 && (
+          <div className="bg-gray-50 rounded-lg p-4">
+            <h4 className="text-md font-semibold text-gray-900 mb-3">Scenario</h4>
+            <div className="grid grid-cols-2 gap-4">
+              {scenarioInputs.map(input => (
+                <label key={input.id} className="block">
+                  <span className="block text-sm font-medium text-gray-700 mb-1">
+                    {input.label}{input.unit && <span className="text-gray-500 font-normal"> ({input.unit})</span>}
+                  </span>
+                  {input.type === 'boolean' ? (
+                    <input
+                      type="checkbox"
+                      checked={Boolean(scenarioValues[input.id] ?? input.defaultValue)}
+                      onChange={e => updateScenarioValue(input.id, e.target.checked)}
+                      className="h-4 w-4"
+                    />
+                  ) : (
+                    <input
+                      type="number"
+                      value={String(scenarioValues[input.id] ?? input.defaultValue ?? '')}
+                      onChange={e => updateScenarioValue(input.id, e.target.value)}
+                      className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm"
+                    />
+                  )}
+                </label>
+              ))}
+            </div>
+          </div>
+        )}
+
+        {/* Calculations */}
+        <div>
+          <h4 className="text-md font-semibold text-gray-900 mb-3">Calculations</h4>
+          <table className="w-full text-sm border border-gray-200 rounded-lg">
+            <thead className="bg-gray-50 text-gray-700">
+              <tr>
+                <th className="text-left px-3 py-2">Calculation</th>
+                <th className="text-left px-3 py-2">Formula</th>
+                <th className="text-right px-3 py-2">Default</th>
+                <th className="text-right px-3 py-2">Scenario</th>
+              </tr>
+            </thead>
+            <tbody>
+              {scenarioCost.calculations.map((calculation, index) => (
+                <tr key={calculation.id} className="border-t border-gray-200">
+                  <td className="px-3 py-2">
+                    <div className="font-medium text-gray-900">{calculation.id}</div>
+                    <div className="text-gray-600">{calculation.description}</div>
+                  </td>
+                  <td className="px-3 py-2">
+                    <code className="text-xs bg-gray-100 px-1 rounded">{calculation.formula}</code>
+                    {calculation.error && (
+                      <div className="flex items-center space-x-1 text-red-600 mt-1">
+                        <AlertTriangle className="h-3 w-3" />
+                        <span>{calculation.error}</span>
+                      </div>
+                    )}
+                  </td>
+                  <td className="px-3 py-2 text-right text-gray-600">
+                    {formatCostValue(baselineCost.calculations[index]?.value)}
+                  </td>
+                  <td className="px-3 py-2 text-right font-medium text-gray-900">
+                    {formatCostValue(calculation.value)}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+
+        {/* Scaling factors */}
+        {scenarioCost.scalingFactors.length > 0 && (
+          <div>
+            <h4 className="text-md font-semibold text-gray-900 mb-3">Scaling Factors</h4>
+            <table className="w-full text-sm border border-gray-200 rounded-lg">
+              <thead className="bg-gray-50 text-gray-700">
+                <tr>
+                  <th className="text-left px-3 py-2">Component</th>
+                  <th className="text-left px-3 py-2">Parameter</th>
+                  <th className="text-left px-3 py-2">Formula</th>
+                  <th className="text-right px-3 py-2">Default</th>
+                  <th className="text-right px-3 py-2">Scenario</th>
+                </tr>
+              </thead>
+              <tbody>
+                {scenarioCost.scalingFactors.map((factor, index) => (
+                  <tr key={`${factor.componentInstanceId}-${factor.parameter}-${index}`} className="border-t border-gray-200">
+                    <td className="px-3 py-2 text-gray-900">{factor.componentInstanceId}</td>
+                    <td className="px-3 py-2 text-gray-700">{factor.parameter}</td>
+                    <td className="px-3 py-2">
+                      <code className="text-xs bg-gray-100 px-1 rounded">{factor.formula}</code>
+                      {factor.error && (
+                        <div className="flex items-center space-x-1 text-red-600 mt-1">
+                          <AlertTriangle className="h-3 w-3" />
+                          <span>{factor.error}</span>
+                        </div>
+                      )}
+                    </td>
+                    <td className="px-3 py-2 text-right text-gray-600">
+                      {formatCostValue(baselineCost.scalingFactors[index]?.value)}
+                    </td>
+                    <td className="px-3 py-2 text-right font-medium text-gray-900">
+                      {formatCostValue(factor.value)}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+
+        {/* Assumptions */}
+        {pattern.costModel.assumptions.length > 0 && (
+          <div>
+            <h4 className="text-md font-semibold text-gray-900 mb-3">Assumptions</h4>
+            <ul className="list-disc list-inside text-sm text-gray-700 space-y-1">
+              {pattern.costModel.assumptions.map((assumption, index) => (
+                <li key={index}>{assumption}</li>
+              ))}
+            </ul>
+          </div>
+        )}
+      </div>
+    );
+  };
+
   const renderValidationTab = () => (
     <div className="space-y-6">
       <div className="flex items-center justify-between">
@@ -620,6 +802,7 @@ export const PatternPreview: React.FC<PatternPreviewProps> = ({
       case 'architecture': return renderArchitectureTab();
       case 'components': return renderComponentsTab();
       case 'configuration': return renderConfigurationTab();
+      case 'cost': return renderCostTab();
       case 'validation': return renderValidationTab();
       case 'documentation': return renderDocumentationTab();
       default: return renderOverviewTab();
@@ -81,7 +81,7 @@ export class AvailabilityZoneShapeUtil extends BaseInfraShapeUtil<AvailabilityZo
                     alignItems: 'flex-start',
                     justifyContent: 'flex-start',
                     flexDirection: 'column',
-                    border: `2px dashed ${this.getBorderColor()}`,
+                    border: `2px dashed ${this.getShapeBorderColor(shape)}`,
                     borderRadius: '10px',
                     backgroundColor: `rgba(139, 92, 246, ${shape.props.opacity || 0.1})`,
                     backdropFilter: 'blur(10px)',
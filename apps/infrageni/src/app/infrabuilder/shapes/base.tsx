@@ -24,6 +24,18 @@ export interface BaseInfraShapeProps {
     opacity?: number; // For bounding box transparency
 }
 
+// Planned action of an imported Terraform plan ('create', 'update', 'delete' or 'replace'),
+// kept in shape meta so it never collides with the component colors in props.color
+export const PLAN_CHANGE_META_KEY = 'planChange';
+
+// Border colors that replace a shape's own border while it shows a planned change
+export const PLAN_CHANGE_BORDER_COLORS = new Map<string, string>([
+    ['create', '#16a34a'],
+    ['update', '#ea580c'],
+    ['delete', '#dc2626'],
+    ['replace', '#7c3aed'],
+]);
+
 // Helper function to get provider-specific label
 export function getProviderSpecificLabel(componentId: string, provider: string): string {
     // Try to get from enhanced component registry first
@@ -177,9 +189,14 @@ export abstract class BaseInfraShapeUtil<T extends TLBaseShape<string, BaseInfra
     abstract getBorderColor(): string;
     abstract getTextColor(): string;
 
+    // Border for a specific shape: its planned change color if it has one, otherwise the shape type's color
+    protected getShapeBorderColor(shape: T): string {
+        return PLAN_CHANGE_BORDER_COLORS.get(String(shape.meta?.[PLAN_CHANGE_META_KEY])) || this.getBorderColor();
+    }
+
     override component(shape: T) {
         const icon = this.getIcon();
-        const borderColor = this.getBorderColor();
+        const borderColor = this.getShapeBorderColor(shape);
         const textColor = this.getTextColor();
 
         return (
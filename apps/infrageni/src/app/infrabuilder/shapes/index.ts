@@ -15,6 +15,7 @@ import { UserShapeUtil } from './user-shape';
 import { VPCShapeUtil } from './vpc-shape';
 import { SubnetShapeUtil } from './subnet-shape';
 import { AvailabilityZoneShapeUtil } from './availability-zone-shape';
+import { RoutedArrowShapeUtil } from './routed-arrow-shape';
 
 // Export all shape types and utilities
 export type { ComputeShape } from './compute-shape';
@@ -33,14 +34,17 @@ export type { SubnetShape } from './subnet-shape';
 export { SubnetShapeUtil } from './subnet-shape';
 export type { AvailabilityZoneShape } from './availability-zone-shape';
 export { AvailabilityZoneShapeUtil } from './availability-zone-shape';
+export { RoutedArrowShapeUtil } from './routed-arrow-shape';
 export type { BaseInfraShapeProps } from './base';
 export {
   BaseInfraShapeUtil,
   ShapeContent,
   getProviderSpecificLabel,
+  PLAN_CHANGE_META_KEY,
+  PLAN_CHANGE_BORDER_COLORS,
 } from './base';
 
-// Export all shape utils for tldraw
+// Export all shape utils for tldraw; RoutedArrowShapeUtil replaces tldraw's default arrow util
 export const customShapeUtils = [
   ComputeShapeUtil,
   DatabaseShapeUtil,
@@ -50,6 +54,7 @@ export const customShapeUtils = [
   VPCShapeUtil,
   SubnetShapeUtil,
   AvailabilityZoneShapeUtil,
+  RoutedArrowShapeUtil,
 ];
 
 // Helper function to create a shape based on component type
@@ -0,0 +1,250 @@
+import { ReactNode } from 'react';
+import {
+    ARROW_LABEL_FONT_SIZES,
+    ArrowShapeUtil,
+    Box,
+    FONT_FAMILIES,
+    Group2d,
+    PlainTextLabel,
+    Polyline2d,
+    Rectangle2d,
+    STROKE_SIZES,
+    SVGContainer,
+    SvgExportContext,
+    TEXT_PROPS,
+    TLArrowShape,
+    TLHandle,
+    TLHandleDragInfo,
+    TLShapePartial,
+    Vec,
+    getArrowBindings,
+    getDefaultColorTheme,
+    useDefaultColorTheme,
+} from 'tldraw';
+
+// How far, in page units, the ends of a stored route may sit from the sides of their shapes
+const ROUTE_END_TOLERANCE = 1;
+
+// Padding tldraw keeps between an arrow label and its box
+const ARROW_LABEL_PADDING = 4.25;
+
+// Arrow util that draws arrows along the route the edge-routing tool stored in meta.route.
+// tldraw's elbow arrows only take a middle-segment position and can cut through shapes, so an
+// arrow whose stored route still starts and ends on the sides of its bound shapes is drawn along
+// that route instead. Until re-routing catches up with a moved shape, or once the user drags a
+// handle, the arrow falls back to tldraw's own elbow.
+export class RoutedArrowShapeUtil extends ArrowShapeUtil {
+    // Stored route in arrow space, or null when the arrow has none that still fits its shapes
+    getRoute(shape: TLArrowShape): Vec[] | null {
+        const route = shape.meta?.route;
+        if (shape.props.kind !== 'elbow' || !Array.isArray(route) || route.length < 2) return null;
+
+        const points: Vec[] = [];
+        for (const value of route) {
+            const point = value as { x?: unknown; y?: unknown } | null;
+            if (typeof point?.x !== 'number' || typeof point?.y !== 'number') return null;
+            points.push(new Vec(point.x, point.y));
+        }
+
+        const bindings = getArrowBindings(this.editor, shape);
+        const startBounds = bindings.start && this.editor.getShapePageBounds(bindings.start.toId);
+        const endBounds = bindings.end && this.editor.getShapePageBounds(bindings.end.toId);
+        if (!startBounds || !endBounds) return null;
+        if (!isOnSide(points[0], startBounds) || !isOnSide(points[points.length - 1], endBounds)) return null;
+
+        return points.map(point => this.editor.getPointInShapeSpace(shape, point));
+    }
+
+    override getGeometry(shape: TLArrowShape): Group2d {
+        const geometry = super.getGeometry(shape);
+        const route = this.getRoute(shape);
+        if (!route) return geometry;
+
+        // Keep tldraw's label size but move the label onto the route
+        const body = new Polyline2d({ points: route });
+        const label = geometry.children.find(child => child.isLabel);
+        if (!label) return new Group2d({ children: [body] });
+
+        const center = body.interpolateAlongEdge(shape.props.labelPosition);
+        const { w, h } = label.bounds;
+        return new Group2d({
+            children: [
+                body,
+                new Rectangle2d({ x: center.x - w / 2, y: center.y - h / 2, width: w, height: h, isFilled: true, isLabel: true }),
+            ],
+        });
+    }
+
+    // The middle handle would sit on tldraw's elbow rather than on the drawn route
+    override getHandles(shape: TLArrowShape): TLHandle[] {
+        const handles = super.getHandles(shape);
+        return this.getRoute(shape) ? handles.filter(handle => handle.id !== 'middle') : handles;
+    }
+
+    override component(shape: TLArrowShape) {
+        const route = this.getRoute(shape);
+        if (!route) return <Delegate render={() => super.component(shape)} />;
+
+        return (
+            <RoutedArrow
+                shape={shape}
+                route={route}
+                label={this.getLabelBox(shape)}
+                isSelected={shape.id === this.editor.getOnlySelectedShapeId()}
+            />
+        );
+    }
+
+    override indicator(shape: TLArrowShape) {
+        const route = this.getRoute(shape);
+        if (!route) return <Delegate render={() => super.indicator(shape)} />;
+
+        const label = this.getLabelBox(shape);
+        return (
+            <g>
+                <path d={toPathData(route)} />
+                {label && <rect x={label.x} y={label.y} width={label.w} height={label.h} rx={3.5} ry={3.5} />}
+            </g>
+        );
+    }
+
+    override toSvg(shape: TLArrowShape, ctx: SvgExportContext) {
+        const route = this.getRoute(shape);
+        if (!route) return super.toSvg(shape, ctx);
+
+        const theme = getDefaultColorTheme(ctx);
+        const label = this.getLabelBox(shape);
+        const fontSize = ARROW_LABEL_FONT_SIZES[shape.props.size] * shape.props.scale;
+        const lines = shape.props.text.split('\n');
+        const lineHeight = fontSize * TEXT_PROPS.lineHeight;
+
+        return (
+            <g>
+                <RouteSvg shape={shape} route={route} label={label} color={theme[shape.props.color].solid} />
+                {label && (
+                    <text
+                        x={label.center.x}
+                        y={label.center.y}
+                        textAnchor="middle"
+                        dominantBaseline="middle"
+                        fontFamily={FONT_FAMILIES[shape.props.font]}
+                        fontSize={fontSize}
+                        fill={theme[shape.props.labelColor].solid}
+                    >
+                        {lines.map((line, k) => (
+                            <tspan key={k} x={label.center.x} dy={k === 0 ? (-(lines.length - 1) / 2) * lineHeight : lineHeight}>
+                                {line}
+                            </tspan>
+                        ))}
+                    </text>
+                )}
+            </g>
+        );
+    }
+
+    // A handle the user drags takes the arrow out of routing: drop the stored route so tldraw
+    // draws it again and re-routing leaves it alone
+    override onHandleDrag(shape: TLArrowShape, info: TLHandleDragInfo<TLArrowShape>): TLShapePartial<TLArrowShape> | undefined {
+        const update = super.onHandleDrag(shape, info);
+        if (!Array.isArray(shape.meta?.route)) return update;
+
+        return { ...update, id: shape.id, type: shape.type, meta: { ...shape.meta, route: null } };
+    }
+
+    private getLabelBox(shape: TLArrowShape): Box | undefined {
+        return this.editor.getShapeGeometry<Group2d>(shape).children.find(child => child.isLabel)?.bounds;
+    }
+}
+
+// Renders what a parent util method returns inside its own component, so hooks it calls keep a
+// stable order when an arrow switches between the routed and the default drawing
+function Delegate({ render }: { render: () => ReactNode }) {
+    return <>{render()}</>;
+}
+
+function RoutedArrow({ shape, route, label, isSelected }: { shape: TLArrowShape; route: Vec[]; label?: Box; isSelected: boolean }) {
+    const theme = useDefaultColorTheme();
+
+    return (
+        <>
+            <SVGContainer style={{ minWidth: 50, minHeight: 50 }}>
+                <RouteSvg shape={shape} route={route} label={label} color={theme[shape.props.color].solid} />
+            </SVGContainer>
+            {label && (
+                <PlainTextLabel
+                    shapeId={shape.id}
+                    classNamePrefix="tl-arrow"
+                    type="arrow"
+                    font={shape.props.font}
+                    fontSize={ARROW_LABEL_FONT_SIZES[shape.props.size] * shape.props.scale}
+                    lineHeight={TEXT_PROPS.lineHeight}
+                    align="middle"
+                    verticalAlign="middle"
+                    text={shape.props.text}
+                    labelColor={theme[shape.props.labelColor].solid}
+                    textWidth={label.w - ARROW_LABEL_PADDING * 2 * shape.props.scale}
+                    isSelected={isSelected}
+                    padding={0}
+                    style={{ transform: `translate(${label.center.x}px, ${label.center.y}px)` }}
+                />
+            )}
+        </>
+    );
+}
+
+function RouteSvg({ shape, route, label, color }: { shape: TLArrowShape; route: Vec[]; label?: Box; color: string }) {
+    const strokeWidth = STROKE_SIZES[shape.props.size] * shape.props.scale;
+    const bounds = Box.FromPoints(route);
+    const maskId = `${shape.id.replace(/\W/g, '_')}_route_mask`;
+
+    return (
+        <g fill="none" stroke={color} strokeWidth={strokeWidth} strokeLinejoin="round" strokeLinecap="round" pointerEvents="none">
+            {label && (
+                <defs>
+                    {/* Leave a gap in the line where the label sits */}
+                    <mask id={maskId}>
+                        <rect x={bounds.minX - 100} y={bounds.minY - 100} width={bounds.w + 200} height={bounds.h + 200} fill="white" stroke="none" />
+                        <rect x={label.x} y={label.y} width={label.w} height={label.h} fill="black" stroke="none" />
+                    </mask>
+                </defs>
+            )}
+            <path d={toPathData(route)} strokeDasharray={getDashArray(shape, strokeWidth)} mask={label ? `url(#${maskId})` : undefined} />
+            {shape.props.arrowheadStart !== 'none' && <path d={getArrowheadPath(route[1], route[0], strokeWidth)} />}
+            {shape.props.arrowheadEnd !== 'none' && (
+                <path d={getArrowheadPath(route[route.length - 2], route[route.length - 1], strokeWidth)} />
+            )}
+        </g>
+    );
+}
+
+function isOnSide(point: Vec, box: Box): boolean {
+    const outside = Math.max(box.minX - point.x, point.x - box.maxX, box.minY - point.y, point.y - box.maxY);
+    if (outside > ROUTE_END_TOLERANCE) return false;
+
+    const nearestSide = Math.min(
+        Math.abs(point.x - box.minX),
+        Math.abs(point.x - box.maxX),
+        Math.abs(point.y - box.minY),
+        Math.abs(point.y - box.maxY)
+    );
+    return nearestSide <= ROUTE_END_TOLERANCE;
+}
+
+function toPathData(points: Vec[]): string {
+    return points.map((p, k) => `${k === 0 ? 'M' : 'L'}${p.x},${p.y}`).join(' ');
+}
+
+function getDashArray(shape: TLArrowShape, strokeWidth: number): string | undefined {
+    if (shape.props.dash === 'dashed') return `${strokeWidth * 2} ${strokeWidth * 2}`;
+    if (shape.props.dash === 'dotted') return `0 ${strokeWidth * 2}`;
+    return undefined;
+}
+
+// Every arrowhead style is drawn as an open arrow along the last segment of the route
+function getArrowheadPath(from: Vec, tip: Vec, strokeWidth: number): string {
+    const length = Math.min(strokeWidth * 5, Vec.Dist(from, tip) / 2);
+    const back = Vec.Sub(from, tip).uni().mul(length);
+    const left = Vec.Add(tip, Vec.Rot(back, Math.PI / 6));
+    const right = Vec.Add(tip, Vec.Rot(back, -Math.PI / 6));
+    return `M${left.x},${left.y} L${tip.x},${tip.y} L${right.x},${right.y}`;
+}
@@ -81,7 +81,7 @@ export class SubnetShapeUtil extends BaseInfraShapeUtil<SubnetShape> {
                     alignItems: 'flex-start',
                     justifyContent: 'flex-start',
                     flexDirection: 'column',
-                    border: `2px dashed ${this.getBorderColor()}`,
+                    border: `2px dashed ${this.getShapeBorderColor(shape)}`,
                     borderRadius: '8px',
                     backgroundColor: `rgba(16, 185, 129, ${shape.props.opacity || 0.1})`,
                     backdropFilter: 'blur(10px)',
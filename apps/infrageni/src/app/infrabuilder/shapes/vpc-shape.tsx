@@ -81,7 +81,7 @@ export class VPCShapeUtil extends BaseInfraShapeUtil<VPCShape> {
                     alignItems: 'flex-start',
                     justifyContent: 'flex-start',
                     flexDirection: 'column',
-                    border: `2px dashed ${this.getBorderColor()}`,
+                    border: `2px dashed ${this.getShapeBorderColor(shape)}`,
                     borderRadius: '12px',
                     backgroundColor: `rgba(59, 130, 246, ${shape.props.opacity || 0.1})`,
                     backdropFilter: 'blur(10px)',
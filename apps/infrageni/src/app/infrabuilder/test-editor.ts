@@ -0,0 +1,16 @@
+import { Editor, createTLStore, defaultBindingUtils, defaultShapeUtils, tipTapDefaultExtensions } from 'tldraw';
+import { customShapeUtils } from './shapes';
+
+// Headless editor for specs, set up the way <Tldraw> sets up the canvas: our shape utils replace
+// the defaults of the same type (the arrow util), and rich text labels get the default extensions
+export function createEditor(): Editor {
+  const shapeUtils = [...defaultShapeUtils.filter(util => !customShapeUtils.some(custom => custom.type === util.type)), ...customShapeUtils];
+  return new Editor({
+    store: createTLStore({ shapeUtils, bindingUtils: defaultBindingUtils }),
+    shapeUtils,
+    bindingUtils: defaultBindingUtils,
+    tools: [],
+    getContainer: () => document.body,
+    textOptions: { tipTapConfig: { extensions: tipTapDefaultExtensions } }
+  });
+}
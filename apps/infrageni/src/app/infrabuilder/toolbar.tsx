@@ -4,7 +4,10 @@ export interface ToolbarProps {
     labelMode: boolean;
     setLabelMode: (v: boolean) => void;
     onExport?: () => void;
+    onImport?: () => void;
     onShowConnectionGuide?: () => void;
+    layersPanelOpen?: boolean;
+    onToggleLayersPanel?: () => void;
     // boxMode?: boolean;
     // setBoxMode?: (v: boolean) => void;
 }
@@ -13,7 +16,10 @@ export const Toolbar: React.FC<ToolbarProps> = ({
     labelMode,
     setLabelMode,
     onExport,
-    onShowConnectionGuide
+    onImport,
+    onShowConnectionGuide,
+    layersPanelOpen = false,
+    onToggleLayersPanel
 }) => {
     const toolbarButton = (active: boolean, onClick: () => void, label: string) => (
         <button
@@ -50,12 +56,14 @@ export const Toolbar: React.FC<ToolbarProps> = ({
                 {/* Left section - Mode toggles */}
                 <div className="flex items-center gap-3">
                     {toolbarButton(labelMode, () => setLabelMode(!labelMode), 'Label')}
+                    {onToggleLayersPanel && toolbarButton(layersPanelOpen, onToggleLayersPanel, 'Layers')}
                     {/* Add more mode buttons here as needed */}
                 </div>
 
                 {/* Center section - Main actions */}
                 <div className="flex items-center gap-3">
                     {onShowConnectionGuide && actionButton(onShowConnectionGuide, 'How to Connect', 'secondary')}
+                    {onImport && actionButton(onImport, 'Import', 'secondary')}
                     {onExport && actionButton(onExport, 'Export')}
                 </div>
 
@@ -0,0 +1,83 @@
+import { Editor, TLShapeId, createShapeId } from 'tldraw';
+import { ComponentRegistry } from '../../components/core/component-registry';
+import { createEditor } from '../../test-editor';
+import { buildCanvasGraph, getAncestors } from './canvas-graph';
+
+function addShape(
+  editor: Editor,
+  type: string,
+  label: string,
+  bounds: { x: number; y: number; w: number; h: number },
+  parentId?: TLShapeId,
+  meta: Record<string, unknown> = {}
+): TLShapeId {
+  const id = createShapeId(label.replace(/\W/g, '-'));
+  editor.createShape({
+    id,
+    type,
+    x: bounds.x,
+    y: bounds.y,
+    parentId,
+    meta,
+    props: { w: bounds.w, h: bounds.h, label, componentId: type, isBoundingBox: type === 'vpc' || type === 'subnet' }
+  });
+  return id;
+}
+
+describe('buildCanvasGraph', () => {
+  let editor: Editor;
+  let vpc: TLShapeId;
+  let subnet: TLShapeId;
+
+  beforeAll(async () => {
+    await ComponentRegistry.getInstance().initialize();
+  });
+
+  beforeEach(() => {
+    editor = createEditor();
+    vpc = addShape(editor, 'vpc', 'VPC', { x: 100, y: 100, w: 800, h: 600 });
+    subnet = addShape(editor, 'subnet', 'Subnet', { x: 40, y: 60, w: 400, h: 300 }, vpc);
+  });
+
+  const graphOf = () => buildCanvasGraph(editor, editor.getCurrentPageShapes());
+
+  it('follows the tldraw parent chain and adds up page positions', () => {
+    const web = addShape(editor, 'compute', 'Web', { x: 20, y: 30, w: 100, h: 80 }, subnet);
+
+    const graph = graphOf();
+
+    expect(graph.nodes.get(web)?.parentId).toBe(subnet);
+    expect(graph.nodes.get(web)?.bounds).toEqual({ x: 160, y: 190, w: 100, h: 80 });
+    expect(getAncestors(graph, web).map(node => node.id)).toEqual([subnet, vpc]);
+    expect(graph.roots).toEqual([vpc]);
+  });
+
+  it('puts shapes left on the page into the smallest container holding their center', () => {
+    const inSubnet = addShape(editor, 'compute', 'Api', { x: 200, y: 200, w: 100, h: 80 });
+    const inVpc = addShape(editor, 'database', 'Orders', { x: 700, y: 600, w: 100, h: 80 });
+    const outside = addShape(editor, 'user', 'User', { x: 1000, y: 100, w: 100, h: 80 });
+
+    const graph = graphOf();
+
+    expect(graph.nodes.get(inSubnet)?.parentId).toBe(subnet);
+    expect(graph.nodes.get(inVpc)?.parentId).toBe(vpc);
+    expect(graph.nodes.get(outside)?.parentId).toBeNull();
+    expect(graph.nodes.get(subnet)?.children).toEqual([inSubnet]);
+  });
+
+  it('skips containers smaller than the container being placed', () => {
+    // Its center falls inside the subnet as well as the VPC
+    const zone = addShape(editor, 'subnet', 'Zone', { x: 0, y: 0, w: 600, h: 500 });
+
+    expect(graphOf().nodes.get(zone)?.parentId).toBe(vpc);
+  });
+
+  it('resolves legacy component ids and reads property values from shape meta', () => {
+    const web = addShape(editor, 'compute', 'Web', { x: 20, y: 30, w: 100, h: 80 }, subnet, { instanceType: 'm5.large' });
+
+    const node = graphOf().nodes.get(web);
+
+    expect(node?.metadata?.id).toBe('generic-compute');
+    expect(node?.properties.instanceType).toBe('m5.large');
+  });
+});
@@ -0,0 +1,252 @@
+import { TLShape, TLShapeId } from 'tldraw';
+import { BaseInfraShapeProps } from '../../shapes/base';
+import { ComponentRegistry } from '../../components/core/component-registry';
+import { ComponentCategory, ComponentMetadata } from '../../components/core/component-types';
+import { extractConnectionsFromArrows } from '../../export/export-utils';
+import { Connection } from '../../types';
+import { ToolContext } from './plugin-system';
+
+// Graph view of the live canvas shared by the analysis and layout tools.
+// Containment follows the tldraw parent chain first and falls back to page geometry
+// for shapes that were dropped on the page but sit inside a container.
+
+export interface CanvasBounds {
+  x: number;
+  y: number;
+  w: number;
+  h: number;
+}
+
+export interface CanvasNode {
+  id: string;
+  shape: TLShape;
+  type: string;
+  label: string;
+  componentId: string;
+  metadata?: ComponentMetadata;
+  category?: ComponentCategory;
+  isContainer: boolean;
+  parentId: string | null;
+  children: string[];
+  bounds: CanvasBounds;
+  properties: Record<string, unknown>;
+}
+
+export interface CanvasGraph {
+  nodes: Map<string, CanvasNode>;
+  connections: Connection[];
+  roots: string[];
+}
+
+// Legacy component IDs used by the original component palette
+const LEGACY_COMPONENT_IDS: Record<string, string> = {
+  'vpc': 'generic-vpc',
+  'subnet': 'generic-subnet',
+  'availability-zone': 'generic-availability-zone',
+  'compute': 'generic-compute',
+  'database': 'generic-database',
+  'storage': 'generic-storage',
+  'external-system': 'generic-external-system',
+  'user': 'generic-user'
+};
+
+// Check whether a shape is one of our infrastructure shapes
+export function isInfraShape(shape: TLShape): boolean {
+  if (shape.type === 'arrow') return false;
+  const props = shape.props as Partial<BaseInfraShapeProps>;
+  return typeof props?.componentId === 'string';
+}
+
+// Prefer the editor's current page so tools always see what the user sees
+export function getLiveShapes(context: ToolContext): TLShape[] {
+  const { canvas, shapes } = context;
+  if (canvas && typeof canvas.getCurrentPageShapes === 'function') {
+    return canvas.getCurrentPageShapes() as TLShape[];
+  }
+  return shapes;
+}
+
+// Resolve registry metadata for a shape's component ID, including legacy IDs
+export function resolveComponentMetadata(componentId: string, shapeType?: string): ComponentMetadata | undefined {
+  const registry = ComponentRegistry.getInstance();
+  return registry.getComponent(componentId) ||
+    registry.getComponent(LEGACY_COMPONENT_IDS[componentId] || '') ||
+    (shapeType ? registry.getComponent(LEGACY_COMPONENT_IDS[shapeType] || '') : undefined);
+}
+
+// Component property values are kept in shape meta; registry defaults fill the gaps
+export function getComponentProperties(shape: TLShape, metadata?: ComponentMetadata): Record<string, unknown> {
+  const properties: Record<string, unknown> = {};
+
+  for (const property of metadata?.config.customProperties || []) {
+    if (property.defaultValue !== undefined) {
+      properties[property.id] = property.defaultValue;
+    }
+  }
+
+  const meta = (shape.meta || {}) as Record<string, unknown>;
+  for (const [key, value] of Object.entries(meta)) {
+    properties[key] = value;
+  }
+
+  return properties;
+}
+
+// Build the canvas graph from a set of shapes and the arrows bound between them
+export function buildCanvasGraph(
+  editor: ToolContext['canvas'] | undefined,
+  shapes: TLShape[]
+): CanvasGraph {
+  const shapeMap = new Map<string, TLShape>();
+  for (const shape of shapes) {
+    shapeMap.set(shape.id, shape);
+  }
+
+  const infraShapes = shapes.filter(isInfraShape);
+  const nodes = new Map<string, CanvasNode>();
+
+  for (const shape of infraShapes) {
+    const props = shape.props as BaseInfraShapeProps;
+    const metadata = resolveComponentMetadata(props.componentId, shape.type);
+    nodes.set(shape.id, {
+      id: shape.id,
+      shape,
+      type: shape.type,
+      label: props.label || metadata?.name || shape.type,
+      componentId: props.componentId,
+      metadata,
+      category: metadata?.category,
+      isContainer: !!props.isBoundingBox,
+      parentId: null,
+      children: [],
+      bounds: {
+        ...getPagePosition(shape, shapeMap),
+        w: props.w || 0,
+        h: props.h || 0
+      },
+      properties: getComponentProperties(shape, metadata)
+    });
+  }
+
+  // Resolve containment
+  for (const node of nodes.values()) {
+    node.parentId = findContainer(node, nodes);
+  }
+
+  const roots: string[] = [];
+  for (const node of nodes.values()) {
+    const parent = node.parentId ? nodes.get(node.parentId) : undefined;
+    if (parent) {
+      parent.children.push(node.id);
+    } else {
+      roots.push(node.id);
+    }
+  }
+
+  const connections = editor
+    ? extractConnectionsFromArrows(editor, shapes).filter(c => nodes.has(c.from) && nodes.has(c.to))
+    : [];
+
+  return { nodes, connections, roots };
+}
+
+// Walk up from a node through its containers
+export function getAncestors(graph: CanvasGraph, nodeId: string): CanvasNode[] {
+  const ancestors: CanvasNode[] = [];
+  const seen = new Set<string>([nodeId]);
+  let current = graph.nodes.get(nodeId)?.parentId;
+
+  while (current && !seen.has(current)) {
+    const node = graph.nodes.get(current);
+    if (!node) break;
+    ancestors.push(node);
+    seen.add(current);
+    current = node.parentId;
+  }
+
+  return ancestors;
+}
+
+// Connections touching a node, in either direction
+export function getNodeConnections(graph: CanvasGraph, nodeId: string): Connection[] {
+  return graph.connections.filter(c => c.from === nodeId || c.to === nodeId);
+}
+
+// Node IDs directly connected to a node; arrows are treated as undirected unless `directed`
+export function getNeighbors(graph: CanvasGraph, nodeId: string, directed = false): string[] {
+  const neighbors = new Set<string>();
+  for (const connection of graph.connections) {
+    if (connection.from === nodeId) neighbors.add(connection.to);
+    if (!directed && connection.to === nodeId) neighbors.add(connection.from);
+  }
+  return Array.from(neighbors);
+}
+
+// Layouts compute page-space positions, but tldraw stores nested shapes relative to their parent.
+// `placed` gives the new page position of shapes moved by the same layout, so children follow
+// their container; parents outside the graph keep their current page position.
+export function toParentSpace(
+  editor: ToolContext['canvas'],
+  graph: CanvasGraph,
+  node: CanvasNode,
+  position: { x: number; y: number },
+  placed: (id: string) => { x: number; y: number } | undefined
+): { x: number; y: number } {
+  const parentId = node.shape.parentId;
+  let origin = { x: 0, y: 0 };
+  if (graph.nodes.has(parentId)) {
+    origin = placed(parentId) || graph.nodes.get(parentId)?.bounds || origin;
+  } else if (parentId.startsWith('shape:')) {
+    origin = editor.getShapePageBounds(parentId as TLShapeId) || origin;
+  }
+  return { x: position.x - origin.x, y: position.y - origin.y };
+}
+
+function getPagePosition(shape: TLShape, shapeMap: Map<string, TLShape>): { x: number; y: number } {
+  let x = shape.x;
+  let y = shape.y;
+  let parent = shapeMap.get(shape.parentId);
+  const seen = new Set<string>([shape.id]);
+
+  while (parent && !seen.has(parent.id)) {
+    x += parent.x;
+    y += parent.y;
+    seen.add(parent.id);
+    parent = shapeMap.get(parent.parentId);
+  }
+
+  return { x, y };
+}
+
+function findContainer(node: CanvasNode, nodes: Map<string, CanvasNode>): string | null {
+  // An explicit tldraw parent always wins
+  const explicitParent = nodes.get(node.shape.parentId);
+  if (explicitParent?.isContainer) {
+    return explicitParent.id;
+  }
+
+  // Otherwise use the smallest container whose page bounds hold the node's center
+  const centerX = node.bounds.x + node.bounds.w / 2;
+  const centerY = node.bounds.y + node.bounds.h / 2;
+  const area = node.bounds.w * node.bounds.h;
+  let best: CanvasNode | null = null;
+
+  for (const candidate of nodes.values()) {
+    if (candidate.id === node.id || !candidate.isContainer) continue;
+
+    const candidateArea = candidate.bounds.w * candidate.bounds.h;
+    if (node.isContainer && candidateArea <= area) continue;
+
+    const contains =
+      centerX >= candidate.bounds.x &&
+      centerX <= candidate.bounds.x + candidate.bounds.w &&
+      centerY >= candidate.bounds.y &&
+      centerY <= candidate.bounds.y + candidate.bounds.h;
+
+    if (contains && (!best || candidateArea < best.bounds.w * best.bounds.h)) {
+      best = candidate;
+    }
+  }
+
+  return best ? best.id : null;
+}
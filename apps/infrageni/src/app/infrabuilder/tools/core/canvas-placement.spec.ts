@@ -0,0 +1,71 @@
+import { Editor, TLShape } from 'tldraw';
+import { ComponentRegistry } from '../../components/core/component-registry';
+import { ImportedDiagram, buildCanvasFromImport } from '../../import/import-model';
+import { PLAN_CHANGE_BORDER_COLORS, PLAN_CHANGE_META_KEY } from '../../shapes';
+import { createEditor } from '../../test-editor';
+import { placeImportedCanvas } from './canvas-placement';
+
+// Border the shape util draws for a shape; getShapeBorderColor is protected
+function borderColor(editor: Editor, shape: TLShape): string {
+  const util = editor.getShapeUtil(shape) as unknown as { getShapeBorderColor(shape: TLShape): string };
+  return util.getShapeBorderColor(shape);
+}
+
+const plan: ImportedDiagram = {
+  name: 'Plan',
+  description: '',
+  parameters: [],
+  warnings: [],
+  resources: [
+    { id: 'vpc', name: 'main', componentId: 'generic-vpc', properties: {} },
+    { id: 'subnet', name: 'public', componentId: 'generic-subnet', properties: {}, parentId: 'vpc', change: 'create' },
+    { id: 'db', name: 'orders', componentId: 'generic-database', properties: {}, parentId: 'subnet' },
+    { id: 'bucket', name: 'assets', componentId: 'generic-storage', properties: {}, change: 'update' },
+    { id: 'api', name: 'partner', componentId: 'generic-external-system', properties: {}, change: 'delete' }
+  ],
+  links: [{ from: 'db', to: 'bucket', label: 'backups' }]
+};
+
+describe('placeImportedCanvas', () => {
+  beforeAll(async () => {
+    await ComponentRegistry.getInstance().initialize();
+  });
+
+  it('nests imported containers and binds arrows to both ends', () => {
+    const editor = createEditor();
+    const { shapeIds, arrowIds } = placeImportedCanvas(editor, buildCanvasFromImport(plan));
+    const byLabel = new Map(shapeIds.map(id => editor.getShape(id) as TLShape).map(shape => [(shape.props as { label: string }).label, shape]));
+
+    expect(shapeIds).toHaveLength(5);
+    expect(byLabel.get('public')?.parentId).toBe(byLabel.get('main')?.id);
+    expect(byLabel.get('orders')?.parentId).toBe(byLabel.get('public')?.id);
+    expect(arrowIds).toHaveLength(1);
+    expect(editor.getBindingsFromShape(arrowIds[0], 'arrow').map(binding => binding.toId).sort())
+      .toEqual([byLabel.get('assets')?.id, byLabel.get('orders')?.id].sort());
+  });
+
+  it('keeps planned changes in meta and leaves the component colors alone', () => {
+    const editor = createEditor();
+    const { shapeIds } = placeImportedCanvas(editor, buildCanvasFromImport(plan));
+    const shapes = shapeIds.map(id => editor.getShape(id) as TLShape);
+    const byLabel = new Map(shapes.map(shape => [(shape.props as { label: string }).label, shape]));
+
+    expect(byLabel.get('public')?.meta[PLAN_CHANGE_META_KEY]).toBe('create');
+    expect(byLabel.get('assets')?.meta[PLAN_CHANGE_META_KEY]).toBe('update');
+    expect(byLabel.get('orders')?.meta[PLAN_CHANGE_META_KEY]).toBeUndefined();
+    expect(borderColor(editor, byLabel.get('public') as TLShape)).toBe(PLAN_CHANGE_BORDER_COLORS.get('create'));
+    expect(borderColor(editor, byLabel.get('assets') as TLShape)).toBe(PLAN_CHANGE_BORDER_COLORS.get('update'));
+    expect(borderColor(editor, byLabel.get('partner') as TLShape)).toBe(PLAN_CHANGE_BORDER_COLORS.get('delete'));
+  });
+
+  it('draws unchanged shapes with their own border even when their color matches a plan color', () => {
+    const editor = createEditor();
+    const { shapeIds } = placeImportedCanvas(editor, buildCanvasFromImport(plan));
+    const database = shapeIds.map(id => editor.getShape(id) as TLShape)
+      .find(shape => (shape.props as { label: string }).label === 'orders') as TLShape;
+    const ownBorder = (editor.getShapeUtil(database) as unknown as { getBorderColor(): string }).getBorderColor();
+
+    expect((database.props as { color: string }).color).toBe('green');
+    expect(borderColor(editor, database)).toBe(ownBorder);
+  });
+});
@@ -0,0 +1,102 @@
+import { Editor, JsonObject, TLArrowBinding, TLShapeId, createShapeId } from 'tldraw';
+import { GenericComponent } from '../../components';
+import { ComponentRegistry } from '../../components/core/component-registry';
+import { ImportedCanvas } from '../../import/import-model';
+import { createComponentShape } from '../../shapes';
+
+// Puts imported canvas items on the live canvas for the import tools.
+// Containers are created before their children so children can be parented to them (tldraw
+// positions are relative to the parent, as in ImportedCanvas), and connections become arrows
+// bound to both shapes so they follow them when the diagram is rearranged.
+
+const PLACEMENT_GAP = 200;
+
+export interface PlacementResult {
+  shapeIds: TLShapeId[];
+  arrowIds: TLShapeId[];
+}
+
+export function placeImportedCanvas(editor: Editor, canvas: ImportedCanvas, provider = 'generic'): PlacementResult {
+  const registry = ComponentRegistry.getInstance();
+  const byId = new Map(canvas.items.map(item => [item.id, item]));
+  const depth = (id: string | undefined): number => {
+    const parentId = id ? byId.get(id)?.parentId : undefined;
+    return parentId && byId.has(parentId) ? 1 + depth(parentId) : 0;
+  };
+  const ordered = [...canvas.items].sort((a, b) => depth(a.id) - depth(b.id));
+
+  // Imports land to the right of whatever is already drawn
+  const existing = editor.getCurrentPageBounds();
+  const origin = existing ? { x: existing.maxX + PLACEMENT_GAP, y: existing.minY } : { x: 0, y: 0 };
+
+  const shapeIds = new Map<string, TLShapeId>();
+  const arrowIds: TLShapeId[] = [];
+
+  editor.markHistoryStoppingPoint('import-canvas');
+  editor.batch(() => {
+    for (const item of ordered) {
+      const { componentId, w, h, color, ...values } = item.properties as Record<string, unknown>;
+      const metadata = registry.getComponent(String(componentId));
+      const component: GenericComponent = metadata
+        ? {
+          id: metadata.id,
+          label: metadata.name,
+          providerNames: Object.fromEntries(Object.entries(metadata.providerMappings).map(([key, mapping]) => [key, mapping.name])),
+          isBoundingBox: metadata.config.isContainer
+        }
+        : { id: String(componentId), label: item.label, providerNames: {}, isBoundingBox: item.isBoundingBox };
+
+      const parentId = item.parentId ? shapeIds.get(item.parentId) : undefined;
+      const x = parentId ? item.x : origin.x + item.x;
+      const y = parentId ? item.y : origin.y + item.y;
+      const shape = createComponentShape(component, x, y, provider, parentId);
+
+      editor.createShape({
+        ...shape,
+        props: {
+          ...shape.props,
+          label: item.label,
+          isBoundingBox: item.isBoundingBox ?? component.isBoundingBox,
+          ...(typeof w === 'number' ? { w } : {}),
+          ...(typeof h === 'number' ? { h } : {}),
+          ...(typeof color === 'string' ? { color } : {})
+        },
+        // Component property values live in shape meta, as convertShapesToCanvasItems reads them
+        meta: JSON.parse(JSON.stringify(values)) as JsonObject
+      });
+      shapeIds.set(item.id, shape.id);
+    }
+
+    for (const connection of canvas.connections) {
+      const from = shapeIds.get(connection.from);
+      const to = shapeIds.get(connection.to);
+      const start = from ? editor.getShapePageBounds(from)?.center : undefined;
+      const end = to ? editor.getShapePageBounds(to)?.center : undefined;
+      if (!from || !to || !start || !end) continue;
+
+      const arrowId = createShapeId();
+      editor.createShape({
+        id: arrowId,
+        type: 'arrow',
+        x: start.x,
+        y: start.y,
+        props: {
+          start: { x: 0, y: 0 },
+          end: { x: end.x - start.x, y: end.y - start.y },
+          text: connection.label || ''
+        }
+      });
+      editor.createBindings<TLArrowBinding>([
+        { type: 'arrow', fromId: arrowId, toId: from, props: arrowBinding('start') },
+        { type: 'arrow', fromId: arrowId, toId: to, props: arrowBinding('end') }
+      ]);
+      arrowIds.push(arrowId);
+    }
+  });
+
+  return { shapeIds: Array.from(shapeIds.values()), arrowIds };
+}
+
+function arrowBinding(terminal: 'start' | 'end'): TLArrowBinding['props'] {
+  return { terminal, normalizedAnchor: { x: 0.5, y: 0.5 }, isExact: false, isPrecise: false, snap: 'none' };
+}
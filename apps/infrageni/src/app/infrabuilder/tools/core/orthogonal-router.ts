@@ -0,0 +1,692 @@
+import { CanvasBounds } from './canvas-graph';
+import { Connection } from '../../types';
+
+// Orthogonal edge router shared by the edge-routing tool and the automatic re-route after moves.
+// Routes run on a sparse grid built from the padded bounds of every shape: A* over
+// (grid point, heading) states charges for length, bends and crossing earlier routes, a
+// rip-up-and-reroute pass lets early routes react to later ones, and a final nudging pass
+// spreads segments that share a channel so they stay readable.
+
+export type RouteSide = 'top' | 'right' | 'bottom' | 'left';
+
+export interface RoutePoint {
+  x: number;
+  y: number;
+}
+
+export interface RouterNode {
+  id: string;
+  bounds: CanvasBounds;
+  parentId: string | null;
+}
+
+export interface RouterEdge {
+  id: string;
+  from: string;
+  to: string;
+}
+
+export interface RouterOptions {
+  padding?: number; // Clearance kept between routes and shapes
+  spacing?: number; // Gap between parallel segments sharing a channel
+  bendPenalty?: number;
+  crossingPenalty?: number;
+  iterations?: number; // Routing passes; passes after the first rip up and re-route each edge
+}
+
+export interface EdgeRoute {
+  id: string;
+  points: RoutePoint[];
+  sourceSide: RouteSide;
+  targetSide: RouteSide;
+}
+
+export interface RoutingResult {
+  routes: Map<string, EdgeRoute>;
+  unrouted: string[];
+  bends: number;
+  crossings: number;
+}
+
+export const DEFAULT_ROUTER_OPTIONS: Required<RouterOptions> = {
+  padding: 16,
+  spacing: 8,
+  bendPenalty: 40,
+  crossingPenalty: 120,
+  iterations: 2
+};
+
+// Headings, in clockwise order so that (h + 2) % 4 is the reverse
+const EAST = 0;
+const SOUTH = 1;
+const WEST = 2;
+const NORTH = 3;
+
+const SIDE_HEADINGS: Record<RouteSide, number> = { right: EAST, bottom: SOUTH, left: WEST, top: NORTH };
+
+// Cost per unit length for running along a segment another route already uses
+const SHARED_SEGMENT_COST = 0.5;
+
+interface GridRect {
+  i0: number;
+  i1: number;
+  j0: number;
+  j1: number;
+}
+
+interface Port {
+  point: number;
+  side: RouteSide;
+}
+
+interface PathResult {
+  steps: number[];
+  source: Port;
+  target: Port;
+}
+
+// Route every edge between the given nodes; nodes double as obstacles for the edges they don't
+// belong to, and containers are only crossed by edges that start or end inside them
+export function routeOrthogonalEdges(
+  nodes: RouterNode[],
+  edges: RouterEdge[],
+  options: RouterOptions = {}
+): RoutingResult {
+  const settings = { ...DEFAULT_ROUTER_OPTIONS, ...options };
+  const router = new OrthogonalRouter(nodes, settings);
+  return router.route(edges);
+}
+
+// Route points recorded on a connection by the edge-routing tool, if any
+export function getConnectionRoute(connection: Connection): RoutePoint[] | undefined {
+  const route = connection.properties?.route;
+  if (!Array.isArray(route) || route.length < 2) return undefined;
+
+  const points = route.filter(
+    (p): p is RoutePoint => !!p && typeof p.x === 'number' && typeof p.y === 'number'
+  );
+  return points.length === route.length ? points : undefined;
+}
+
+class OrthogonalRouter {
+  private readonly nodes = new Map<string, RouterNode>();
+  private readonly rects = new Map<string, GridRect>();
+  private readonly xs: number[];
+  private readonly ys: number[];
+  private readonly nx: number;
+  private readonly ny: number;
+
+  // Obstacle coverage of grid points and of the unit segments leaving each point east/south
+  private readonly pointCover: Int32Array;
+  private readonly hCover: Int32Array;
+  private readonly vCover: Int32Array;
+
+  // How many routes use each unit segment, for crossing and overlap costs
+  private readonly hUse: Int32Array;
+  private readonly vUse: Int32Array;
+
+  constructor(nodeList: RouterNode[], private readonly settings: Required<RouterOptions>) {
+    const { padding } = settings;
+    const xs: number[] = [];
+    const ys: number[] = [];
+
+    for (const node of nodeList) {
+      this.nodes.set(node.id, node);
+      const { x, y, w, h } = node.bounds;
+      xs.push(x - padding, x + w / 2, x + w + padding);
+      ys.push(y - padding, y + h / 2, y + h + padding);
+    }
+
+    // An outer ring so routes can always go around everything
+    if (xs.length > 0) {
+      const minX = Math.min(...xs);
+      const maxX = Math.max(...xs);
+      const minY = Math.min(...ys);
+      const maxY = Math.max(...ys);
+      xs.push(minX - padding, maxX + padding);
+      ys.push(minY - padding, maxY + padding);
+    }
+
+    this.xs = uniqueSorted(xs);
+    this.ys = uniqueSorted(ys);
+    this.nx = this.xs.length;
+    this.ny = this.ys.length;
+
+    const size = this.nx * this.ny;
+    this.pointCover = new Int32Array(size);
+    this.hCover = new Int32Array(size);
+    this.vCover = new Int32Array(size);
+    this.hUse = new Int32Array(size);
+    this.vUse = new Int32Array(size);
+
+    const xIndex = indexOf(this.xs);
+    const yIndex = indexOf(this.ys);
+    for (const node of nodeList) {
+      const { x, y, w, h } = node.bounds;
+      const rect: GridRect = {
+        i0: xIndex(x - padding),
+        i1: xIndex(x + w + padding),
+        j0: yIndex(y - padding),
+        j1: yIndex(y + h + padding)
+      };
+      this.rects.set(node.id, rect);
+      this.cover(rect, 1);
+    }
+  }
+
+  route(edges: RouterEdge[]): RoutingResult {
+    const routable = edges.filter(edge => this.isRoutable(edge));
+    const unrouted = edges.filter(edge => !routable.includes(edge)).map(edge => edge.id);
+
+    // Short edges first so they get the direct channels
+    routable.sort((a, b) => this.centerDistance(a) - this.centerDistance(b));
+
+    const paths = new Map<string, PathResult>();
+    for (let pass = 0; pass < Math.max(1, this.settings.iterations); pass++) {
+      for (const edge of routable) {
+        const previous = paths.get(edge.id);
+        if (previous) this.markUsage(previous.steps, -1);
+
+        const path = this.findPath(edge);
+        if (path) {
+          paths.set(edge.id, path);
+          this.markUsage(path.steps, 1);
+        } else if (previous) {
+          this.markUsage(previous.steps, 1);
+        }
+      }
+    }
+
+    const routes = new Map<string, EdgeRoute>();
+    for (const edge of routable) {
+      const path = paths.get(edge.id);
+      if (!path) {
+        unrouted.push(edge.id);
+        continue;
+      }
+      routes.set(edge.id, this.toRoute(edge, path));
+    }
+
+    nudgeSharedSegments(Array.from(routes.values()), this.settings);
+
+    let bends = 0;
+    for (const route of routes.values()) {
+      bends += route.points.length - 2;
+    }
+
+    return { routes, unrouted, bends, crossings: countCrossings(Array.from(routes.values())) };
+  }
+
+  // Self-loops and arrows between a container and something inside it keep their default path
+  private isRoutable(edge: RouterEdge): boolean {
+    if (edge.from === edge.to) return false;
+    if (!this.nodes.has(edge.from) || !this.nodes.has(edge.to)) return false;
+    return !this.ancestors(edge.from).includes(edge.to) && !this.ancestors(edge.to).includes(edge.from);
+  }
+
+  private ancestors(nodeId: string): string[] {
+    const result: string[] = [];
+    let current = this.nodes.get(nodeId)?.parentId;
+    while (current && !result.includes(current)) {
+      result.push(current);
+      current = this.nodes.get(current)?.parentId;
+    }
+    return result;
+  }
+
+  private centerDistance(edge: RouterEdge): number {
+    const a = this.bounds(edge.from);
+    const b = this.bounds(edge.to);
+    return Math.abs(a.x + a.w / 2 - b.x - b.w / 2) + Math.abs(a.y + a.h / 2 - b.y - b.h / 2);
+  }
+
+  private findPath(edge: RouterEdge): PathResult | null {
+    // Containers around either end are open for this edge
+    const opened = new Set([...this.ancestors(edge.from), ...this.ancestors(edge.to)]);
+    for (const id of opened) this.cover(this.rect(id), -1);
+
+    try {
+      const sources = this.ports(edge.from);
+      const targets = this.ports(edge.to);
+      if (sources.length === 0 || targets.length === 0) return null;
+      return this.search(sources, targets);
+    } finally {
+      for (const id of opened) this.cover(this.rect(id), 1);
+    }
+  }
+
+  // Side midpoints on the padded bounds that aren't buried in another shape
+  private ports(nodeId: string): Port[] {
+    const rect = this.rect(nodeId);
+    const { x, y, w, h } = this.bounds(nodeId);
+    const ci = this.xs.indexOf(roundCoordinate(x + w / 2));
+    const cj = this.ys.indexOf(roundCoordinate(y + h / 2));
+
+    const candidates: Port[] = [
+      { point: this.point(ci, rect.j0), side: 'top' },
+      { point: this.point(rect.i1, cj), side: 'right' },
+      { point: this.point(ci, rect.j1), side: 'bottom' },
+      { point: this.point(rect.i0, cj), side: 'left' }
+    ];
+    return candidates.filter(port => this.pointCover[port.point] === 0);
+  }
+
+  // A* over (point, heading); the extra state index past the grid is the goal
+  private search(sources: Port[], targets: Port[]): PathResult | null {
+    const { bendPenalty, crossingPenalty } = this.settings;
+    const stateCount = this.nx * this.ny * 4;
+    const goal = stateCount;
+    const cost = new Float64Array(stateCount + 1).fill(Infinity);
+    const parent = new Int32Array(stateCount + 1).fill(-1);
+    const closed = new Uint8Array(stateCount + 1);
+    const heap = new MinHeap();
+
+    const targetByPoint = new Map<number, Port>();
+    for (const target of targets) targetByPoint.set(target.point, target);
+    const sourceByPoint = new Map<number, Port>();
+    for (const source of sources) sourceByPoint.set(source.point, source);
+
+    const heuristic = (point: number) => {
+      const px = this.xs[point % this.nx];
+      const py = this.ys[Math.floor(point / this.nx)];
+      let best = Infinity;
+      for (const target of targets) {
+        const tx = this.xs[target.point % this.nx];
+        const ty = this.ys[Math.floor(target.point / this.nx)];
+        best = Math.min(best, Math.abs(px - tx) + Math.abs(py - ty));
+      }
+      return best;
+    };
+
+    for (const source of sources) {
+      const state = source.point * 4 + SIDE_HEADINGS[source.side];
+      cost[state] = 0;
+      heap.push(state, heuristic(source.point));
+    }
+
+    while (heap.size > 0) {
+      const state = heap.pop();
+      if (closed[state]) continue;
+      closed[state] = 1;
+      if (state === goal) break;
+
+      const point = Math.floor(state / 4);
+      const heading = state % 4;
+      const i = point % this.nx;
+      const j = Math.floor(point / this.nx);
+
+      // Arriving at a target side; turning into the shape costs a bend unless already heading in
+      const target = targetByPoint.get(point);
+      if (target) {
+        const inward = (SIDE_HEADINGS[target.side] + 2) % 4;
+        const total = cost[state] + (heading === inward ? 0 : bendPenalty);
+        if (total < cost[goal]) {
+          cost[goal] = total;
+          parent[goal] = state;
+          heap.push(goal, total);
+        }
+      }
+
+      for (let next = 0; next < 4; next++) {
+        if (next === (heading + 2) % 4) continue;
+
+        const step = this.step(i, j, next);
+        if (!step) continue;
+
+        const nextState = step.point * 4 + next;
+        if (closed[nextState]) continue;
+
+        let moveCost = step.length * (1 + SHARED_SEGMENT_COST * step.shared);
+        if (next !== heading) moveCost += bendPenalty;
+        moveCost += crossingPenalty * this.crossingsAt(step.point, next);
+
+        const total = cost[state] + moveCost;
+        if (total < cost[nextState]) {
+          cost[nextState] = total;
+          parent[nextState] = state;
+          heap.push(nextState, total + heuristic(step.point));
+        }
+      }
+    }
+
+    if (parent[goal] < 0) return null;
+
+    const steps: number[] = [];
+    for (let state = parent[goal]; state >= 0; state = parent[state]) {
+      steps.unshift(state);
+    }
+
+    const first = Math.floor(steps[0] / 4);
+    const last = Math.floor(steps[steps.length - 1] / 4);
+    const source = sourceByPoint.get(first);
+    const target = targetByPoint.get(last);
+    return source && target ? { steps, source, target } : null;
+  }
+
+  private step(i: number, j: number, heading: number): { point: number; length: number; shared: number } | null {
+    let ni = i;
+    let nj = j;
+    let segment: number;
+    let horizontal: boolean;
+
+    switch (heading) {
+      case EAST:
+        ni = i + 1;
+        segment = this.point(i, j);
+        horizontal = true;
+        break;
+      case WEST:
+        ni = i - 1;
+        segment = this.point(ni, j);
+        horizontal = true;
+        break;
+      case SOUTH:
+        nj = j + 1;
+        segment = this.point(i, j);
+        horizontal = false;
+        break;
+      default:
+        nj = j - 1;
+        segment = this.point(i, nj);
+        horizontal = false;
+    }
+
+    if (ni < 0 || nj < 0 || ni >= this.nx || nj >= this.ny) return null;
+
+    const point = this.point(ni, nj);
+    const blocked = horizontal ? this.hCover[segment] : this.vCover[segment];
+    if (blocked > 0 || this.pointCover[point] > 0) return null;
+
+    return {
+      point,
+      length: horizontal ? Math.abs(this.xs[ni] - this.xs[i]) : Math.abs(this.ys[nj] - this.ys[j]),
+      shared: horizontal ? this.hUse[segment] : this.vUse[segment]
+    };
+  }
+
+  // Routes passing straight through a point across the direction we're moving in
+  private crossingsAt(point: number, heading: number): number {
+    const i = point % this.nx;
+    const j = Math.floor(point / this.nx);
+
+    if (heading === EAST || heading === WEST) {
+      if (j === 0 || j === this.ny - 1) return 0;
+      return Math.min(this.vUse[this.point(i, j - 1)], this.vUse[point]);
+    }
+    if (i === 0 || i === this.nx - 1) return 0;
+    return Math.min(this.hUse[this.point(i - 1, j)], this.hUse[point]);
+  }
+
+  private markUsage(steps: number[], delta: number): void {
+    for (let k = 1; k < steps.length; k++) {
+      const from = Math.floor(steps[k - 1] / 4);
+      const to = Math.floor(steps[k] / 4);
+      const heading = steps[k] % 4;
+      if (heading === EAST) this.hUse[from] += delta;
+      else if (heading === WEST) this.hUse[to] += delta;
+      else if (heading === SOUTH) this.vUse[from] += delta;
+      else this.vUse[to] += delta;
+    }
+  }
+
+  // Points strictly inside the padded rectangle, and unit segments running through its interior
+  private cover(rect: GridRect, delta: number): void {
+    for (let j = rect.j0; j <= rect.j1; j++) {
+      for (let i = rect.i0; i <= rect.i1; i++) {
+        const index = this.point(i, j);
+        const insideX = i > rect.i0 && i < rect.i1;
+        const insideY = j > rect.j0 && j < rect.j1;
+        if (insideX && insideY) this.pointCover[index] += delta;
+        if (insideY && i < rect.i1) this.hCover[index] += delta;
+        if (insideX && j < rect.j1) this.vCover[index] += delta;
+      }
+    }
+  }
+
+  private bounds(nodeId: string): CanvasBounds {
+    const node = this.nodes.get(nodeId);
+    if (!node) throw new Error(`Unknown node ${nodeId}`);
+    return node.bounds;
+  }
+
+  private rect(nodeId: string): GridRect {
+    const rect = this.rects.get(nodeId);
+    if (!rect) throw new Error(`Unknown node ${nodeId}`);
+    return rect;
+  }
+
+  private point(i: number, j: number): number {
+    return j * this.nx + i;
+  }
+
+  // Grid path to page points, with short stubs from the padded ports back onto the shapes
+  private toRoute(edge: RouterEdge, path: PathResult): EdgeRoute {
+    const points: RoutePoint[] = [attachPoint(this.bounds(edge.from), path.source.side)];
+    for (const state of path.steps) {
+      const point = Math.floor(state / 4);
+      points.push({ x: this.xs[point % this.nx], y: this.ys[Math.floor(point / this.nx)] });
+    }
+    points.push(attachPoint(this.bounds(edge.to), path.target.side));
+
+    return {
+      id: edge.id,
+      points: simplify(points),
+      sourceSide: path.source.side,
+      targetSide: path.target.side
+    };
+  }
+}
+
+class MinHeap {
+  private readonly items: number[] = [];
+  private readonly priorities: number[] = [];
+
+  get size(): number {
+    return this.items.length;
+  }
+
+  push(item: number, priority: number): void {
+    let index = this.items.length;
+    this.items.push(item);
+    this.priorities.push(priority);
+
+    while (index > 0) {
+      const up = (index - 1) >> 1;
+      if (this.priorities[up] <= priority) break;
+      this.items[index] = this.items[up];
+      this.priorities[index] = this.priorities[up];
+      index = up;
+    }
+    this.items[index] = item;
+    this.priorities[index] = priority;
+  }
+
+  pop(): number {
+    const top = this.items[0];
+    const length = this.items.length - 1;
+    const item = this.items[length];
+    const priority = this.priorities[length];
+    this.items.length = length;
+    this.priorities.length = length;
+    if (length === 0) return top;
+
+    let index = 0;
+    while (true) {
+      const left = index * 2 + 1;
+      if (left >= length) break;
+      const right = left + 1;
+      const child = right < length && this.priorities[right] < this.priorities[left] ? right : left;
+      if (this.priorities[child] >= priority) break;
+      this.items[index] = this.items[child];
+      this.priorities[index] = this.priorities[child];
+      index = child;
+    }
+    this.items[index] = item;
+    this.priorities[index] = priority;
+    return top;
+  }
+}
+
+// Spread collinear, overlapping segments of different routes across their channel
+function nudgeSharedSegments(routes: EdgeRoute[], settings: Required<RouterOptions>): void {
+  interface SegmentRef {
+    route: EdgeRoute;
+    index: number;
+    from: number;
+    to: number;
+    order: number;
+  }
+
+  const groups = new Map<string, SegmentRef[]>();
+  for (const route of routes) {
+    const { points } = route;
+    for (let index = 0; index < points.length - 1; index++) {
+      const a = points[index];
+      const b = points[index + 1];
+      const horizontal = a.y === b.y;
+      const key = horizontal ? `h:${a.y}` : `v:${a.x}`;
+
+      // Order by where the neighbouring segments lead, so nudged routes don't swap sides
+      const before = points[index - 1] ?? a;
+      const after = points[index + 2] ?? b;
+      const order = horizontal ? before.y + after.y : before.x + after.x;
+
+      const segment: SegmentRef = {
+        route,
+        index,
+        from: horizontal ? Math.min(a.x, b.x) : Math.min(a.y, b.y),
+        to: horizontal ? Math.max(a.x, b.x) : Math.max(a.y, b.y),
+        order
+      };
+      groups.set(key, [...(groups.get(key) || []), segment]);
+    }
+  }
+
+  const shifts: { route: EdgeRoute; index: number; horizontal: boolean; offset: number }[] = [];
+  for (const [key, segments] of groups) {
+    const horizontal = key.startsWith('h:');
+    segments.sort((a, b) => a.from - b.from);
+
+    // Sweep into clusters of overlapping segments
+    let cluster: SegmentRef[] = [];
+    let clusterEnd = -Infinity;
+    const flush = () => {
+      const members = Array.from(new Map(cluster.map(s => [s.route.id, s])).values());
+      if (members.length > 1) {
+        members.sort((a, b) => a.order - b.order);
+        const step = Math.min(settings.spacing, (settings.padding * 1.5) / (members.length - 1));
+        members.forEach((member, position) => {
+          const offset = (position - (members.length - 1) / 2) * step;
+          for (const segment of cluster.filter(s => s.route === member.route)) {
+            shifts.push({ route: segment.route, index: segment.index, horizontal, offset });
+          }
+        });
+      }
+      cluster = [];
+    };
+
+    for (const segment of segments) {
+      if (segment.from >= clusterEnd) flush();
+      cluster.push(segment);
+      clusterEnd = Math.max(clusterEnd, segment.to);
+    }
+    flush();
+  }
+
+  for (const shift of shifts) {
+    const a = shift.route.points[shift.index];
+    const b = shift.route.points[shift.index + 1];
+    if (shift.horizontal) {
+      a.y += shift.offset;
+      b.y += shift.offset;
+    } else {
+      a.x += shift.offset;
+      b.x += shift.offset;
+    }
+  }
+}
+
+// Proper crossings between horizontal and vertical segments of different routes
+function countCrossings(routes: EdgeRoute[]): number {
+  let crossings = 0;
+
+  for (let r = 0; r < routes.length; r++) {
+    for (let s = r + 1; s < routes.length; s++) {
+      for (const [a, b] of segments(routes[r].points)) {
+        for (const [c, d] of segments(routes[s].points)) {
+          if (segmentsCross(a, b, c, d) || segmentsCross(c, d, a, b)) crossings++;
+        }
+      }
+    }
+  }
+
+  return crossings;
+}
+
+function segmentsCross(a: RoutePoint, b: RoutePoint, c: RoutePoint, d: RoutePoint): boolean {
+  // a-b horizontal, c-d vertical
+  if (a.y !== b.y || c.x !== d.x) return false;
+  return (
+    c.x > Math.min(a.x, b.x) && c.x < Math.max(a.x, b.x) &&
+    a.y > Math.min(c.y, d.y) && a.y < Math.max(c.y, d.y)
+  );
+}
+
+function segments(points: RoutePoint[]): [RoutePoint, RoutePoint][] {
+  const result: [RoutePoint, RoutePoint][] = [];
+  for (let k = 0; k < points.length - 1; k++) {
+    result.push([points[k], points[k + 1]]);
+  }
+  return result;
+}
+
+function attachPoint(bounds: CanvasBounds, side: RouteSide): RoutePoint {
+  const { x, y, w, h } = bounds;
+  switch (side) {
+    case 'top':
+      return { x: roundCoordinate(x + w / 2), y };
+    case 'right':
+      return { x: x + w, y: roundCoordinate(y + h / 2) };
+    case 'bottom':
+      return { x: roundCoordinate(x + w / 2), y: y + h };
+    default:
+      return { x, y: roundCoordinate(y + h / 2) };
+  }
+}
+
+// Drop repeated and collinear points
+function simplify(points: RoutePoint[]): RoutePoint[] {
+  const result: RoutePoint[] = [];
+  for (const point of points) {
+    const last = result[result.length - 1];
+    if (last && last.x === point.x && last.y === point.y) continue;
+
+    const beforeLast = result[result.length - 2];
+    if (
+      beforeLast && last &&
+      ((beforeLast.x === last.x && last.x === point.x) || (beforeLast.y === last.y && last.y === point.y))
+    ) {
+      result[result.length - 1] = point;
+      continue;
+    }
+    result.push(point);
+  }
+  return result;
+}
+
+function roundCoordinate(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+function uniqueSorted(values: number[]): number[] {
+  return Array.from(new Set(values.map(roundCoordinate))).sort((a, b) => a - b);
+}
+
+function indexOf(values: number[]): (value: number) => number {
+  const index = new Map(values.map((value, i) => [value, i]));
+  return (value: number) => {
+    const i = index.get(roundCoordinate(value));
+    if (i === undefined) throw new Error(`No grid line at ${value}`);
+    return i;
+  };
+}
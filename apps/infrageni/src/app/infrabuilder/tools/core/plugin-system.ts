@@ -16,6 +16,7 @@ export interface InfraToolPlugin {
 // Tool categories
 export enum ToolCategory {
   EXPORT = 'export',
+  IMPORT = 'import',
   LAYOUT = 'layout',
   VALIDATION = 'validation',
   VISUALIZATION = 'visualization',
@@ -2,9 +2,12 @@ import { pluginSystem, ToolCategory, InfraToolPlugin } from './plugin-system';
 import { PlantUMLExportTool } from '../export/plantuml-tool';
 import { DrawIOExportTool } from '../export/drawio-tool';
 import { GraphvizExportTool } from '../export/graphviz-tool';
+import { DIAGRAM_IMPORT_TOOLS, createDiagramImportTool } from '../import/diagram-import-tool';
 import { HierarchicalLayoutTool } from '../layout/hierarchical-layout';
 import { ForceDirectedLayoutTool } from '../layout/force-directed-layout';
 import { NetworkTopologyLayoutTool } from '../layout/network-topology-layout';
+import { EdgeRoutingTool } from '../layout/edge-routing';
+import { SwimlaneLayoutTool } from '../layout/swimlane-layout';
 import { ArchitectureValidatorTool } from '../validation/architecture-validator';
 import { SecurityAnalyzerTool } from '../validation/security-analyzer';
 import { CostEstimatorTool } from '../validation/cost-estimator';
@@ -34,10 +37,17 @@ export class ToolRegistry {
     await this.registerTool(new DrawIOExportTool());
     await this.registerTool(new GraphvizExportTool());
 
+    // Import tools
+    for (const config of DIAGRAM_IMPORT_TOOLS) {
+      await this.registerTool(createDiagramImportTool(config));
+    }
+
     // Layout tools
     await this.registerTool(new HierarchicalLayoutTool());
     await this.registerTool(new ForceDirectedLayoutTool());
     await this.registerTool(new NetworkTopologyLayoutTool());
+    await this.registerTool(new EdgeRoutingTool());
+    await this.registerTool(new SwimlaneLayoutTool());
 
     // Validation tools
     await this.registerTool(new ArchitectureValidatorTool());
@@ -100,6 +110,7 @@ export class ToolRegistry {
   getToolCategoryStats(): Record<ToolCategory, number> {
     const stats: Record<ToolCategory, number> = {
       [ToolCategory.EXPORT]: 0,
+      [ToolCategory.IMPORT]: 0,
       [ToolCategory.LAYOUT]: 0,
       [ToolCategory.VALIDATION]: 0,
       [ToolCategory.VISUALIZATION]: 0,
@@ -148,6 +159,11 @@ export class ToolRegistry {
       recommendations.push(...this.getToolsByCategory(ToolCategory.EXPORT));
     }
 
+    // Recommend import tools for bringing existing diagrams in
+    if (context.operation === 'import') {
+      recommendations.push(...this.getToolsByCategory(ToolCategory.IMPORT));
+    }
+
     // Recommend templates for new projects
     if (context.shapes < 3) {
       recommendations.push(...this.getToolsByCategory(ToolCategory.TEMPLATE));
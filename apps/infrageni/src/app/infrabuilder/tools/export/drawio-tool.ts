@@ -1,6 +1,7 @@
 import { InfraToolPlugin, ToolCategory, ToolContext, ToolParams, ToolResult } from '../core/plugin-system';
 import { ExportData } from '../../export/export-utils';
 import { CanvasItem, Connection } from '../../types';
+import { getConnectionRoute } from '../core/orthogonal-router';
 
 export class DrawIOExportTool implements InfraToolPlugin {
   id = 'drawio-export';
@@ -160,6 +161,15 @@ export class DrawIOExportTool implements InfraToolPlugin {
   private generateDrawioEdge(connection: Connection, edgeId: string, sourceId: string, targetId: string): string {
     const label = connection.label || '';
     const style = 'edgeStyle=orthogonalEdgeStyle;rounded=0;orthogonalLoop=1;jettySize=auto;html=1;strokeColor=#232F3E;strokeWidth=2;';
+
+    // Routed arrows keep their bends as waypoints; the end points sit on the shapes themselves
+    const route = getConnectionRoute(connection);
+    if (route && route.length > 2) {
+      const points = route.slice(1, -1).map(p => `<mxPoint x="${p.x}" y="${p.y}"/>`).join('');
+      return `<mxCell id="${edgeId}" value="${this.escapeXML(label)}" style="${style}" edge="1" parent="1" source="${sourceId}" target="${targetId}">
+          <mxGeometry relative="1" as="geometry"><Array as="points">${points}</Array></mxGeometry>
+        </mxCell>`;
+    }
     
     return `<mxCell id="${edgeId}" value="${this.escapeXML(label)}" style="${style}" edge="1" parent="1" source="${sourceId}" target="${targetId}">
           <mxGeometry relative="1" as="geometry"/>
@@ -1,6 +1,7 @@
 import { InfraToolPlugin, ToolCategory, ToolContext, ToolParams, ToolResult } from '../core/plugin-system';
 import { ExportData } from '../../export/export-utils';
 import { CanvasItem, Connection } from '../../types';
+import { getConnectionRoute } from '../core/orthogonal-router';
 
 export class GraphvizExportTool implements InfraToolPlugin {
   id = 'graphviz-export';
@@ -83,7 +84,7 @@ export class GraphvizExportTool implements InfraToolPlugin {
 
     let dot = `digraph Infrastructure {
     // Graph settings
-    rankdir="${direction}";
+    rankdir="${direction}";${this.hasRoutes(connections) ? '\n    splines="ortho";' : ''}
     bgcolor="white";
     fontname="Arial";
     fontsize="12";
@@ -146,7 +147,7 @@ export class GraphvizExportTool implements InfraToolPlugin {
     fontname="Arial";
     fontsize="12";
     overlap="false";
-    splines="true";
+    splines="${this.hasRoutes(connections) ? 'ortho' : 'true'}";
     
     // Node defaults
     node [
@@ -198,7 +199,7 @@ export class GraphvizExportTool implements InfraToolPlugin {
     fontname="Arial";
     fontsize="12";
     overlap="scale";
-    splines="true";
+    splines="${this.hasRoutes(connections) ? 'ortho' : 'true'}";
     K="2.0";
     
     // Node defaults
@@ -451,9 +452,11 @@ export class GraphvizExportTool implements InfraToolPlugin {
     const fromId = this.sanitizeId(connection.from);
     const toId = this.sanitizeId(connection.to);
     const label = connection.label || '';
+    // Orthogonal splines can only place external labels
+    const labelAttribute = getConnectionRoute(connection) ? 'xlabel' : 'label';
     
     if (label) {
-      return `    "${fromId}" -> "${toId}" [label="${label}"];\n`;
+      return `    "${fromId}" -> "${toId}" [${labelAttribute}="${label}"];\n`;
     } else {
       return `    "${fromId}" -> "${toId}";\n`;
     }
@@ -463,14 +466,21 @@ export class GraphvizExportTool implements InfraToolPlugin {
     const fromId = this.sanitizeId(connection.from);
     const toId = this.sanitizeId(connection.to);
     const label = connection.label || '';
+    // Orthogonal splines can only place external labels
+    const labelAttribute = getConnectionRoute(connection) ? 'xlabel' : 'label';
     
     if (label) {
-      return `    "${fromId}" -- "${toId}" [label="${label}"];\n`;
+      return `    "${fromId}" -- "${toId}" [${labelAttribute}="${label}"];\n`;
     } else {
       return `    "${fromId}" -- "${toId}";\n`;
     }
   }
 
+  // Arrows routed on the canvas ask Graphviz for orthogonal edges too
+  private hasRoutes(connections?: Connection[]): boolean {
+    return !!connections?.some(connection => getConnectionRoute(connection));
+  }
+
   private generateSimpleConnection(connection: Connection): string {
     const fromId = this.sanitizeId(connection.from);
     const toId = this.sanitizeId(connection.to);
@@ -0,0 +1,127 @@
+import { InfraToolPlugin, ToolCategory, ToolContext, ToolParams, ToolResult } from '../core/plugin-system';
+import { ComponentRegistry } from '../../components/core/component-registry';
+import { ImportedDiagram, buildCanvasFromImport } from '../../import/import-model';
+import { importDrawio } from '../../import/drawio-import';
+import { importMermaid } from '../../import/mermaid-import';
+import { importDot } from '../../import/dot-import';
+import { importPlantUml } from '../../import/plantuml-import';
+import { placeImportedCanvas } from '../core/canvas-placement';
+
+export interface DiagramImportToolConfig {
+  id: string;
+  name: string;
+  description: string;
+  format: string; // Format name for log and error messages
+  missing: string; // Error when no document is given
+  parse: (content: string, options: { file?: string }) => ImportedDiagram;
+}
+
+export const DIAGRAM_IMPORT_TOOLS: DiagramImportToolConfig[] = [
+  {
+    id: 'drawio-import',
+    name: 'Draw.io Import',
+    description: 'Import draw.io / diagrams.net files onto the canvas, mapping AWS/Azure/GCP stencils to infrastructure shapes',
+    format: 'Draw.io',
+    missing: 'No draw.io document provided',
+    parse: importDrawio
+  },
+  {
+    id: 'mermaid-import',
+    name: 'Mermaid Import',
+    description: 'Import Mermaid flowchart and architecture-beta diagrams, pasted or from a README, onto the canvas',
+    format: 'Mermaid',
+    missing: 'No Mermaid diagram provided',
+    parse: importMermaid
+  },
+  {
+    id: 'graphviz-import',
+    name: 'Graphviz Import',
+    description: 'Import Graphviz DOT graphs onto the canvas, with clusters as containers',
+    format: 'Graphviz',
+    missing: 'No DOT graph provided',
+    parse: importDot
+  },
+  {
+    id: 'plantuml-import',
+    name: 'PlantUML Import',
+    description: 'Import C4-PlantUML and PlantUML deployment diagrams onto the canvas',
+    format: 'PlantUML',
+    missing: 'No PlantUML diagram provided',
+    parse: importPlantUml
+  }
+];
+
+// Import tool that parses a diagram document and places it on the canvas
+export function createDiagramImportTool(config: DiagramImportToolConfig): InfraToolPlugin {
+  return new DiagramImportTool(config);
+}
+
+class DiagramImportTool implements InfraToolPlugin {
+  id: string;
+  name: string;
+  description: string;
+  category = ToolCategory.IMPORT;
+  version = '1.0.0';
+
+  private context?: ToolContext;
+
+  constructor(private config: DiagramImportToolConfig) {
+    this.id = config.id;
+    this.name = config.name;
+    this.description = config.description;
+  }
+
+  async initialize(context: ToolContext): Promise<void> {
+    this.context = context;
+    await ComponentRegistry.getInstance().initialize();
+    console.log(`📥 ${this.config.format} Import Tool initialized`);
+  }
+
+  async execute(params: ToolParams): Promise<ToolResult> {
+    const { content, fileName } = params;
+
+    if (!this.context) {
+      return {
+        success: false,
+        error: 'Tool not initialized'
+      };
+    }
+
+    if (typeof content !== 'string' || !content.trim()) {
+      return {
+        success: false,
+        error: this.config.missing
+      };
+    }
+
+    try {
+      const startTime = Date.now();
+      const diagram = this.config.parse(content, { file: fileName });
+      const placement = placeImportedCanvas(this.context.canvas, buildCanvasFromImport(diagram), this.context.provider);
+      const executionTime = Date.now() - startTime;
+
+      return {
+        success: true,
+        data: {
+          name: diagram.name,
+          shapeIds: placement.shapeIds,
+          arrowIds: placement.arrowIds,
+          warnings: diagram.warnings
+        },
+        metadata: {
+          executionTime,
+          processingStats: {
+            shapesCreated: placement.shapeIds.length,
+            arrowsCreated: placement.arrowIds.length,
+            warnings: diagram.warnings.length
+          }
+        }
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : `Unknown error during ${this.config.format} import`
+      };
+    }
+  }
+}
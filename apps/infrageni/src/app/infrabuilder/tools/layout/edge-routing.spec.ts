@@ -0,0 +1,138 @@
+import {
+  Box,
+  Editor,
+  Group2d,
+  TLArrowBinding,
+  TLArrowShape,
+  TLShapeId,
+  VecLike,
+  createShapeId
+} from 'tldraw';
+import { RoutedArrowShapeUtil } from '../../shapes';
+import { createEditor } from '../../test-editor';
+import { getAttachedArrowIds, getCrossingArrowIds, rerouteArrows, routeCanvasArrows } from './edge-routing';
+
+function addCompute(editor: Editor, label: string, x: number, y: number): TLShapeId {
+  const id = createShapeId(label);
+  editor.createShape({ id, type: 'compute', x, y, props: { w: 120, h: 80, label, componentId: 'generic-compute' } });
+  return id;
+}
+
+function addArrow(editor: Editor, from: TLShapeId, to: TLShapeId, text = ''): TLShapeId {
+  const id = createShapeId(`${from}-${to}`);
+  editor.createShape({ id, type: 'arrow', props: { start: { x: 60, y: 40 }, end: { x: 580, y: 40 }, text } });
+  const binding = (terminal: 'start' | 'end'): TLArrowBinding['props'] =>
+    ({ terminal, normalizedAnchor: { x: 0.5, y: 0.5 }, isExact: false, isPrecise: false, snap: 'none' });
+  editor.createBindings<TLArrowBinding>([
+    { type: 'arrow', fromId: id, toId: from, props: binding('start') },
+    { type: 'arrow', fromId: id, toId: to, props: binding('end') }
+  ]);
+  return id;
+}
+
+// Page-space points of the line an arrow is drawn along
+function drawnPoints(editor: Editor, arrowId: TLShapeId): VecLike[] {
+  const body = editor.getShapeGeometry<Group2d>(arrowId).children[0];
+  const transform = editor.getShapePageTransform(arrowId);
+  return body.vertices.map(point => transform.applyToPoint(point));
+}
+
+// Whether an axis-aligned segment runs through the inside of a box
+function crosses(box: Box, a: VecLike, b: VecLike): boolean {
+  return Math.min(a.x, b.x) < box.maxX && Math.max(a.x, b.x) > box.minX
+    && Math.min(a.y, b.y) < box.maxY && Math.max(a.y, b.y) > box.minY;
+}
+
+// Web and api share a row with a cache between them, so a straight elbow would cut through it
+function setUp(text = '') {
+  const editor = createEditor();
+  const web = addCompute(editor, 'web', 0, 0);
+  const cache = addCompute(editor, 'cache', 260, 0);
+  const api = addCompute(editor, 'api', 520, 0);
+  const arrow = addArrow(editor, web, api, text);
+  routeCanvasArrows(editor, editor.getCurrentPageShapes());
+  return { editor, cache, api, arrow };
+}
+
+describe('routed arrows', () => {
+  it('draws an arrow along its stored route around the shapes in between', () => {
+    const { editor, cache, arrow } = setUp();
+    const route = (editor.getShape(arrow) as TLArrowShape).meta.route as VecLike[];
+    const points = drawnPoints(editor, arrow);
+    const obstacle = editor.getShapePageBounds(cache) as Box;
+
+    expect(route.length).toBeGreaterThan(2);
+    expect(points.map(p => [Math.round(p.x), Math.round(p.y)])).toEqual(route.map(p => [Math.round(p.x), Math.round(p.y)]));
+    expect(points.slice(1).some((point, k) => crosses(obstacle, points[k], point))).toBe(false);
+  });
+
+  it('puts the label on the route', () => {
+    const { editor, arrow } = setUp('calls');
+    const geometry = editor.getShapeGeometry<Group2d>(arrow);
+    const label = geometry.children.find(child => child.isLabel);
+
+    expect(label).toBeDefined();
+    expect(geometry.children[0].distanceToPoint(label?.bounds.center ?? { x: NaN, y: NaN })).toBeLessThan(0.01);
+  });
+
+  it('falls back to the tldraw elbow once a shape has moved off the route', () => {
+    const { editor, api, arrow } = setUp();
+    const util = editor.getShapeUtil('arrow') as RoutedArrowShapeUtil;
+
+    editor.updateShape({ id: api, type: 'compute', y: 400 });
+
+    expect(util.getRoute(editor.getShape(arrow) as TLArrowShape)).toBeNull();
+    expect(drawnPoints(editor, arrow).at(-1)?.y).toBeGreaterThan(400);
+  });
+
+  it('drops the stored route when the user drags a handle', () => {
+    const { editor, arrow } = setUp();
+    const util = editor.getShapeUtil('arrow') as RoutedArrowShapeUtil;
+    const shape = editor.getShape(arrow) as TLArrowShape;
+    const handles = util.getHandles(shape);
+    const end = handles.find(handle => handle.id === 'end');
+    if (!end) throw new Error('no end handle');
+
+    const update = util.onHandleDrag(shape, { handle: { ...end, y: end.y + 200 }, isPrecise: false, initial: shape });
+
+    // The middle handle belongs to tldraw's elbow, which is not what is drawn
+    expect(handles.map(handle => handle.id)).toEqual(['start', 'end']);
+    expect(update?.meta?.route).toBeNull();
+  });
+
+  it('re-routes only the routed arrows attached to the shapes that moved', () => {
+    const { editor, cache, api, arrow } = setUp();
+    const db = addCompute(editor, 'db', 260, 300);
+    const other = addArrow(editor, cache, db);
+    routeCanvasArrows(editor, editor.getCurrentPageShapes());
+    const routeOf = (id: TLShapeId) => (editor.getShape(id) as TLArrowShape).meta.route;
+    const before = routeOf(other);
+
+    editor.updateShapes([{ id: api, type: 'compute', y: 400 }, { id: db, type: 'compute', x: 600 }]);
+    rerouteArrows(editor, { arrowIds: getAttachedArrowIds(editor, [api]) });
+
+    expect(getAttachedArrowIds(editor, [api])).toEqual([arrow]);
+    expect((editor.getShapeUtil('arrow') as RoutedArrowShapeUtil).getRoute(editor.getShape(arrow) as TLArrowShape)).not.toBeNull();
+    expect(routeOf(other)).toEqual(before);
+  });
+
+  it('re-routes arrows that a moved shape now sits on', () => {
+    const { editor, arrow } = setUp();
+    const queue = addCompute(editor, 'queue', 0, 600);
+    const route = (editor.getShape(arrow) as TLArrowShape).meta.route as VecLike[];
+    // Drop the queue on the middle segment of the route
+    const k = Math.floor((route.length - 2) / 2);
+    const [a, b] = [route[k], route[k + 1]];
+    editor.updateShape({ id: queue, type: 'compute', x: (a.x + b.x) / 2 - 60, y: (a.y + b.y) / 2 - 40 });
+
+    expect(getAttachedArrowIds(editor, [queue])).toEqual([]);
+    expect(getCrossingArrowIds(editor, [queue])).toEqual([arrow]);
+
+    rerouteArrows(editor, { arrowIds: getCrossingArrowIds(editor, [queue]) });
+    const points = drawnPoints(editor, arrow);
+    const obstacle = editor.getShapePageBounds(queue) as Box;
+
+    expect(getCrossingArrowIds(editor, [queue])).toEqual([]);
+    expect(points.slice(1).some((point, k) => crosses(obstacle, points[k], point))).toBe(false);
+  });
+});
@@ -0,0 +1,258 @@
+import { Box, Editor, TLArrowBinding, TLArrowShape, TLShape, TLShapeId, VecLike } from 'tldraw';
+import { InfraToolPlugin, ToolCategory, ToolContext, ToolParams, ToolResult } from '../core/plugin-system';
+import { CanvasBounds, buildCanvasGraph, getLiveShapes } from '../core/canvas-graph';
+import { EdgeRoute, RouterOptions, routeOrthogonalEdges } from '../core/orthogonal-router';
+
+export class EdgeRoutingTool implements InfraToolPlugin {
+  id = 'edge-routing';
+  name = 'Orthogonal Edge Routing';
+  description = 'Route arrows with right angles around components and containers, keeping bends and crossings to a minimum';
+  category = ToolCategory.LAYOUT;
+  version = '1.0.0';
+
+  private context?: ToolContext;
+
+  async initialize(context: ToolContext): Promise<void> {
+    this.context = context;
+    console.log('📐 Edge Routing Tool initialized');
+  }
+
+  async execute(params: ToolParams): Promise<ToolResult> {
+    const { padding, spacing, bendPenalty, crossingPenalty, iterations, selectedOnly = false } = params;
+
+    if (!this.context) {
+      return {
+        success: false,
+        error: 'Tool not initialized'
+      };
+    }
+
+    try {
+      const startTime = Date.now();
+      const { canvas } = this.context;
+      const shapes = getLiveShapes(this.context);
+
+      const arrowIds = selectedOnly
+        ? canvas.getSelectedShapeIds().filter((id: TLShapeId) => canvas.getShape(id)?.type === 'arrow')
+        : undefined;
+
+      // One history entry so a single undo restores the previous arrows
+      canvas.markHistoryStoppingPoint('edge-routing');
+      const summary = routeCanvasArrows(canvas, shapes, {
+        padding,
+        spacing,
+        bendPenalty,
+        crossingPenalty,
+        iterations,
+        arrowIds
+      });
+
+      if (summary.routed === 0 && summary.unrouted === 0) {
+        return {
+          success: false,
+          error: 'No arrows between infrastructure shapes found to route'
+        };
+      }
+
+      const executionTime = Date.now() - startTime;
+
+      return {
+        success: true,
+        data: {
+          arrowsRouted: summary.routed,
+          arrowsSkipped: summary.unrouted,
+          layout: 'orthogonal-routing'
+        },
+        metadata: {
+          executionTime,
+          processingStats: {
+            arrowsRouted: summary.routed,
+            arrowsSkipped: summary.unrouted,
+            bends: summary.bends,
+            crossings: summary.crossings,
+            algorithm: 'orthogonal-visibility-astar'
+          }
+        }
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error during edge routing'
+      };
+    }
+  }
+}
+
+export interface CanvasRoutingOptions extends RouterOptions {
+  arrowIds?: TLShapeId[]; // Only write routes back to these arrows; all bound arrows otherwise
+}
+
+export interface CanvasRoutingSummary {
+  routed: number;
+  unrouted: number;
+  bends: number;
+  crossings: number;
+}
+
+// Route arrows bound between infra shapes and write the result back to the canvas.
+// The full page-space route is kept in the arrow meta, where RoutedArrowShapeUtil draws it and
+// the exporters read it. Each arrow also gets the sides and middle-segment position of its route,
+// so tldraw's own elbow stays close to it whenever the route no longer fits the shapes.
+export function routeCanvasArrows(
+  editor: Editor,
+  shapes: TLShape[],
+  options: CanvasRoutingOptions = {}
+): CanvasRoutingSummary {
+  const graph = buildCanvasGraph(editor, shapes);
+  const nodes = Array.from(graph.nodes.values()).map(node => ({
+    id: node.id,
+    bounds: node.bounds,
+    parentId: node.parentId
+  }));
+
+  const edges = graph.connections.map(connection => ({
+    id: connection.id,
+    from: connection.from,
+    to: connection.to
+  }));
+
+  const routerOptions = Object.fromEntries(
+    Object.entries(options).filter(([key, value]) => key !== 'arrowIds' && value !== undefined)
+  ) as RouterOptions;
+  const result = routeOrthogonalEdges(nodes, edges, routerOptions);
+
+  // Every arrow is routed so the crossing costs see all of them; only the requested ones are written back
+  const wanted = options.arrowIds ? new Set<string>(options.arrowIds) : undefined;
+  const routes = Array.from(result.routes.values()).filter(route => !wanted || wanted.has(route.id));
+
+  editor.batch(() => {
+    for (const route of routes) {
+      const edge = edges.find(e => e.id === route.id);
+      const source = edge && graph.nodes.get(edge.from);
+      const target = edge && graph.nodes.get(edge.to);
+      if (source && target) applyRoute(editor, route, source.bounds, target.bounds);
+    }
+  });
+
+  return {
+    routed: routes.length,
+    unrouted: result.unrouted.filter(id => !wanted || wanted.has(id)).length,
+    bends: routes.reduce((sum, route) => sum + route.points.length - 2, 0),
+    crossings: result.crossings
+  };
+}
+
+// Refresh the routes of arrows that were routed before, after shapes have moved; arrowIds
+// narrows this to the given arrows. Arrows the user never routed are left alone.
+export function rerouteArrows(editor: Editor, options: CanvasRoutingOptions = {}): CanvasRoutingSummary | null {
+  const shapes = editor.getCurrentPageShapes() as TLShape[];
+  const wanted = options.arrowIds ? new Set<string>(options.arrowIds) : undefined;
+  const arrowIds = shapes
+    .filter(shape => shape.type === 'arrow' && Array.isArray(shape.meta?.route) && (!wanted || wanted.has(shape.id)))
+    .map(shape => shape.id);
+
+  if (arrowIds.length === 0) return null;
+  return routeCanvasArrows(editor, shapes, { ...options, arrowIds });
+}
+
+// Arrows bound at either end to one of the given shapes
+export function getAttachedArrowIds(editor: Editor, shapeIds: Iterable<TLShapeId>): TLShapeId[] {
+  const arrowIds = new Set<TLShapeId>();
+  for (const shapeId of shapeIds) {
+    for (const binding of editor.getBindingsToShape<TLArrowBinding>(shapeId, 'arrow')) {
+      arrowIds.add(binding.fromId);
+    }
+  }
+  return Array.from(arrowIds);
+}
+
+// Routed arrows whose stored route runs through the page bounds of one of the given shapes,
+// such as an arrow a shape was just dropped onto
+export function getCrossingArrowIds(editor: Editor, shapeIds: Iterable<TLShapeId>): TLShapeId[] {
+  const boxes = Array.from(shapeIds)
+    .map(id => editor.getShapePageBounds(id))
+    .filter((box): box is Box => !!box);
+  if (boxes.length === 0) return [];
+
+  return editor.getCurrentPageShapes()
+    .filter(shape => {
+      if (shape.type !== 'arrow' || !Array.isArray(shape.meta?.route)) return false;
+      const route = shape.meta.route as unknown as VecLike[];
+      return route.slice(1).some((point, k) => boxes.some(box => segmentCrosses(box, route[k], point)));
+    })
+    .map(shape => shape.id);
+}
+
+// Routes are orthogonal, so a segment crosses a box when their extents overlap on both axes
+function segmentCrosses(box: Box, a: VecLike, b: VecLike): boolean {
+  return Math.min(a.x, b.x) < box.maxX && Math.max(a.x, b.x) > box.minX
+    && Math.min(a.y, b.y) < box.maxY && Math.max(a.y, b.y) > box.minY;
+}
+
+function applyRoute(editor: Editor, route: EdgeRoute, source: CanvasBounds, target: CanvasBounds): void {
+  const arrow = editor.getShape<TLArrowShape>(route.id as TLShapeId);
+  if (!arrow) return;
+
+  const points = route.points.map(p => ({ x: round(p.x), y: round(p.y) }));
+  if (JSON.stringify(arrow.meta?.route) === JSON.stringify(points) && arrow.props.kind === 'elbow') {
+    return;
+  }
+
+  editor.updateShapes([{
+    id: arrow.id,
+    type: 'arrow',
+    props: { kind: 'elbow', elbowMidPoint: getElbowMidPoint(route, source, target) },
+    meta: { ...arrow.meta, route: points }
+  }]);
+
+  const bindings = editor.getBindingsFromShape<TLArrowBinding>(arrow.id, 'arrow');
+  editor.updateBindings(bindings.map(binding => {
+    const start = binding.props.terminal === 'start';
+    const bounds = start ? source : target;
+    const point = start ? points[0] : points[points.length - 1];
+    return {
+      ...binding,
+      props: {
+        ...binding.props,
+        normalizedAnchor: {
+          x: clamp((point.x - bounds.x) / (bounds.w || 1)),
+          y: clamp((point.y - bounds.y) / (bounds.h || 1))
+        },
+        // Precise anchors on an edge make tldraw's elbow arrow leave from that side
+        isPrecise: true,
+        isExact: false,
+        snap: 'edge-point'
+      }
+    };
+  }));
+}
+
+// tldraw places the middle segment of an elbow arrow between the facing sides of its two
+// shapes; use the position of our route's middle segment along that gap
+function getElbowMidPoint(route: EdgeRoute, source: CanvasBounds, target: CanvasBounds): number {
+  const horizontal = (side: string) => side === 'left' || side === 'right';
+  const inner = route.points.slice(1, -1);
+  if (horizontal(route.sourceSide) !== horizontal(route.targetSide) || inner.length < 2) {
+    return 0.5;
+  }
+
+  if (horizontal(route.sourceSide)) {
+    const from = route.sourceSide === 'right' ? source.x + source.w : source.x;
+    const to = route.targetSide === 'left' ? target.x : target.x + target.w;
+    const middle = inner.find((p, k) => k > 0 && inner[k - 1].x === p.x) ?? inner[0];
+    return from === to ? 0.5 : clamp((middle.x - from) / (to - from));
+  }
+
+  const from = route.sourceSide === 'bottom' ? source.y + source.h : source.y;
+  const to = route.targetSide === 'top' ? target.y : target.y + target.h;
+  const middle = inner.find((p, k) => k > 0 && inner[k - 1].y === p.y) ?? inner[0];
+  return from === to ? 0.5 : clamp((middle.y - from) / (to - from));
+}
+
+function clamp(value: number): number {
+  return Math.min(1, Math.max(0, value));
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
@@ -1,6 +1,9 @@
 import { InfraToolPlugin, ToolCategory, ToolContext, ToolParams, ToolResult } from '../core/plugin-system';
-import { TLShape } from 'tldraw';
+import { Editor, TLShape, TLShapeId } from 'tldraw';
 import { BaseInfraShapeProps } from '../../shapes/base';
+import { buildCanvasGraph, getLiveShapes, toParentSpace } from '../core/canvas-graph';
+import { rerouteArrows } from './edge-routing';
+import { IncrementalLayoutOptions, computeIncrementalLayout } from './incremental-layout-engine';
 
 export class ForceDirectedLayoutTool implements InfraToolPlugin {
   id = 'force-directed-layout';
@@ -22,6 +25,11 @@ export class ForceDirectedLayoutTool implements InfraToolPlugin {
       repulsionStrength = 1000, 
       attractionStrength = 0.1,
       containerConstraints = true,
+      incremental = false,
+      newShapeIds = [],
+      spacing,
+      edgeLength,
+      anchorStrength,
       options = {} 
     } = params;
     
@@ -35,6 +43,48 @@ export class ForceDirectedLayoutTool implements InfraToolPlugin {
     try {
       const startTime = Date.now();
       const { canvas, shapes } = this.context;
+
+      if (incremental) {
+        // One history entry so a single undo puts everything back where it was
+        canvas.markHistoryStoppingPoint('force-directed-layout');
+        const summary = placeShapesIncrementally(canvas, getLiveShapes(this.context), {
+          newShapeIds,
+          iterations,
+          repulsionStrength,
+          attractionStrength,
+          spacing,
+          edgeLength,
+          anchorStrength
+        });
+
+        if (summary.shapes === 0) {
+          return {
+            success: false,
+            error: 'No infrastructure shapes found to layout'
+          };
+        }
+
+        return {
+          success: true,
+          data: {
+            shapesProcessed: summary.moved,
+            layout: 'force-directed-incremental',
+            iterations
+          },
+          metadata: {
+            executionTime: Date.now() - startTime,
+            processingStats: {
+              shapesProcessed: summary.moved,
+              shapesPlaced: summary.placed,
+              shapesPinned: summary.pinned,
+              iterations: summary.iterations,
+              remainingOverlaps: summary.overlaps,
+              maxDisplacement: summary.maxDisplacement,
+              algorithm: 'incremental-force-directed'
+            }
+          }
+        };
+      }
       
       // Filter out non-infrastructure shapes
       const infraShapes = shapes.filter(shape => shape.type.startsWith('infra-'));
@@ -60,6 +110,7 @@ export class ForceDirectedLayoutTool implements InfraToolPlugin {
       for (const update of layoutResult.updates) {
         canvas.updateShape(update);
       }
+      rerouteArrows(canvas);
 
       const executionTime = Date.now() - startTime;
 
@@ -160,7 +211,7 @@ export class ForceDirectedLayoutTool implements InfraToolPlugin {
         height: props.h || 80,
         isContainer: props.isBoundingBox || false,
         shape: shape,
-        fixed: false
+        fixed: isPinned(shape)
       };
     });
   }
@@ -310,7 +361,7 @@ export class ForceDirectedLayoutTool implements InfraToolPlugin {
     
     for (const shape of shapes) {
       const node = nodeMap.get(shape.id);
-      if (node) {
+      if (node && !node.fixed) {
         const props = shape.props as BaseInfraShapeProps;
         
         updates.push({
@@ -327,6 +378,86 @@ export class ForceDirectedLayoutTool implements InfraToolPlugin {
   }
 }
 
+// Shapes with this meta flag are never moved by the force-directed layout
+export const PINNED_META_KEY = 'pinned';
+
+// Locked shapes count as pinned; tldraw would refuse to move them anyway
+export function isPinned(shape: TLShape): boolean {
+  return shape.meta?.[PINNED_META_KEY] === true || !!shape.isLocked;
+}
+
+export interface IncrementalPlacementOptions extends Partial<IncrementalLayoutOptions> {
+  newShapeIds?: string[]; // Shapes to place; everything else is kept as close as possible to where it is
+}
+
+export interface IncrementalPlacementSummary {
+  shapes: number;
+  moved: number;
+  placed: number;
+  pinned: number;
+  iterations: number;
+  overlaps: number;
+  maxDisplacement: number;
+}
+
+// Place new shapes around the existing diagram without reshuffling it. Pinned shapes and
+// containers with content stay put; other existing shapes only move to make room.
+export function placeShapesIncrementally(
+  editor: Editor,
+  shapes: TLShape[],
+  options: IncrementalPlacementOptions = {}
+): IncrementalPlacementSummary {
+  const { newShapeIds = [], ...layoutOptions } = options;
+  const fresh = new Set<string>(newShapeIds);
+  const graph = buildCanvasGraph(editor, shapes);
+
+  const result = computeIncrementalLayout({
+    nodes: Array.from(graph.nodes.values()).map(node => ({
+      id: node.id,
+      x: node.bounds.x,
+      y: node.bounds.y,
+      width: node.bounds.w || 120,
+      height: node.bounds.h || 80,
+      parentId: node.parentId,
+      isContainer: node.isContainer,
+      pinned: isPinned(node.shape),
+      isNew: fresh.has(node.id)
+    })),
+    edges: graph.connections.map(connection => ({ from: connection.from, to: connection.to })),
+    options: Object.fromEntries(
+      Object.entries(layoutOptions).filter(([, value]) => value !== undefined)
+    ) as Partial<IncrementalLayoutOptions>
+  });
+
+  const updates: { id: TLShapeId; type: string; x: number; y: number }[] = [];
+  for (const node of graph.nodes.values()) {
+    const position = result.positions[node.id];
+    if (!position) continue;
+
+    const { x, y } = toParentSpace(editor, graph, node, position, parentId => result.positions[parentId]);
+    if (Math.abs(x - node.shape.x) < 0.5 && Math.abs(y - node.shape.y) < 0.5) continue;
+    updates.push({ id: node.shape.id, type: node.shape.type, x, y });
+  }
+
+  if (updates.length > 0) {
+    editor.batch(() => {
+      editor.updateShapes(updates);
+      rerouteArrows(editor);
+    });
+  }
+
+  const nodes = Array.from(graph.nodes.values());
+  return {
+    shapes: nodes.length,
+    moved: updates.length,
+    placed: nodes.filter(node => fresh.has(node.id) && !isPinned(node.shape)).length,
+    pinned: nodes.filter(node => isPinned(node.shape)).length,
+    iterations: result.iterations,
+    overlaps: result.overlaps,
+    maxDisplacement: result.maxDisplacement
+  };
+}
+
 // Force simulation implementation
 class ForceSimulation {
   private nodes: SimulationNode[];
@@ -1,11 +1,18 @@
 import { InfraToolPlugin, ToolCategory, ToolContext, ToolParams, ToolResult } from '../core/plugin-system';
-import { TLShape } from 'tldraw';
-import { BaseInfraShapeProps } from '../../shapes/base';
+import { TLShapeId } from 'tldraw';
+import { CanvasGraph, CanvasNode, buildCanvasGraph, getLiveShapes, toParentSpace } from '../core/canvas-graph';
+import { rerouteArrows } from './edge-routing';
+import {
+  LayeredDirection,
+  LayeredLayoutInput,
+  LayeredLayoutResult,
+  computeLayeredLayout
+} from './layered-layout-engine';
 
 export class HierarchicalLayoutTool implements InfraToolPlugin {
   id = 'hierarchical-layout';
   name = 'Hierarchical Layout';
-  description = 'Automatically arrange infrastructure components in a hierarchical tree structure';
+  description = 'Arrange components in layers along their connections, laying out each container\'s contents on its own';
   category = ToolCategory.LAYOUT;
   version = '1.0.0';
 
@@ -17,8 +24,8 @@ export class HierarchicalLayoutTool implements InfraToolPlugin {
   }
 
   async execute(params: ToolParams): Promise<ToolResult> {
-    const { direction = 'top-down', spacing = 100, options = {} } = params;
-    
+    const { direction = 'TB', spacing = 100, options = {} } = params;
+
     if (!this.context) {
       return {
         success: false,
@@ -28,26 +35,34 @@ export class HierarchicalLayoutTool implements InfraToolPlugin {
 
     try {
       const startTime = Date.now();
-      const { canvas, shapes } = this.context;
-      
-      // Filter out non-infrastructure shapes
-      const infraShapes = shapes.filter(shape => shape.type.startsWith('infra-'));
-      
-      if (infraShapes.length === 0) {
+      const { canvas } = this.context;
+      const graph = buildCanvasGraph(canvas, getLiveShapes(this.context));
+
+      if (graph.nodes.size === 0) {
         return {
           success: false,
           error: 'No infrastructure shapes found to layout'
         };
       }
 
-      // Apply hierarchical layout
-      const layoutResult = await this.applyHierarchicalLayout(infraShapes, direction, spacing, options);
-      
-      // Update shapes on canvas
-      for (const update of layoutResult.updates) {
-        canvas.updateShape(update);
+      const flow = normalizeDirection(direction);
+      if (!flow) {
+        return {
+          success: false,
+          error: `Unsupported layout direction: ${direction}`
+        };
       }
 
+      // Apply hierarchical layout
+      const layoutResult = await this.applyHierarchicalLayout(graph, flow, spacing, options);
+
+      // One history entry so a single undo restores the previous arrangement
+      canvas.markHistoryStoppingPoint('hierarchical-layout');
+      canvas.batch(() => {
+        canvas.updateShapes(layoutResult.updates);
+        rerouteArrows(canvas);
+      });
+
       const executionTime = Date.now() - startTime;
 
       return {
@@ -55,7 +70,7 @@ export class HierarchicalLayoutTool implements InfraToolPlugin {
         data: {
           shapesProcessed: layoutResult.updates.length,
           layout: 'hierarchical',
-          direction,
+          direction: flow,
           spacing
         },
         metadata: {
@@ -64,7 +79,8 @@ export class HierarchicalLayoutTool implements InfraToolPlugin {
             shapesProcessed: layoutResult.updates.length,
             containersProcessed: layoutResult.containers.length,
             levels: layoutResult.levels,
-            algorithm: 'hierarchical'
+            crossings: layoutResult.crossings,
+            algorithm: 'compound-sugiyama'
           }
         }
       };
@@ -77,362 +93,126 @@ export class HierarchicalLayoutTool implements InfraToolPlugin {
   }
 
   private async applyHierarchicalLayout(
-    shapes: TLShape[],
-    direction: string,
+    graph: CanvasGraph,
+    direction: LayeredDirection,
     spacing: number,
     options: any
   ): Promise<LayoutResult> {
-    const { canvas } = this.context!;
-    
-    // Build hierarchy tree
-    const hierarchy = this.buildHierarchy(shapes);
-    
-    // Calculate positions for each level
-    const levelPositions = this.calculateLevelPositions(hierarchy, direction, spacing, options);
-    
-    // Generate shape updates
-    const updates: any[] = [];
-    const processedContainers: string[] = [];
-    
-    for (const level of levelPositions) {
-      for (const node of level.nodes) {
-        const shape = shapes.find(s => s.id === node.id);
-        if (shape) {
-          const currentProps = shape.props as BaseInfraShapeProps;
-          
-          // Update position
-          updates.push({
-            id: shape.id,
-            type: shape.type,
-            x: node.x,
-            y: node.y,
-            props: currentProps
-          });
-          
-          if (currentProps.isBoundingBox) {
-            processedContainers.push(shape.id);
-          }
-        }
-      }
-    }
-    
-    return {
-      updates,
-      containers: processedContainers,
-      levels: levelPositions.length
+    const { containerPadding = 40, headerHeight = 30, nodeSpacing = spacing / 2 } = options;
+
+    // Current reading order seeds the ordering inside each layer
+    const nodes = sortByPosition(Array.from(graph.nodes.values()));
+    const input: LayeredLayoutInput = {
+      nodes: nodes.map(node => ({
+        id: node.id,
+        width: node.bounds.w || DEFAULT_SIZE.w,
+        height: node.bounds.h || DEFAULT_SIZE.h,
+        parentId: node.parentId,
+        isContainer: node.isContainer
+      })),
+      edges: graph.connections.map(connection => ({ from: connection.from, to: connection.to })),
+      options: { direction, nodeSpacing, layerSpacing: spacing, containerPadding, headerHeight }
     };
-  }
 
-  private buildHierarchy(shapes: TLShape[]): HierarchyNode[] {
-    const nodeMap = new Map<string, HierarchyNode>();
-    const roots: HierarchyNode[] = [];
-    
-    // Create nodes for all shapes
-    for (const shape of shapes) {
-      const props = shape.props as BaseInfraShapeProps;
-      const node: HierarchyNode = {
-        id: shape.id,
-        shape,
-        isContainer: props.isBoundingBox || false,
-        children: [],
-        parent: null,
-        level: 0,
-        x: shape.x,
-        y: shape.y,
-        width: props.w || 120,
-        height: props.h || 80
-      };
-      nodeMap.set(shape.id, node);
-    }
-    
-    // Build parent-child relationships
-    for (const shape of shapes) {
-      const props = shape.props as BaseInfraShapeProps;
-      const node = nodeMap.get(shape.id)!;
-      
-      // Find parent based on spatial containment for bounding boxes
-      if (props.isBoundingBox) {
-        // This is a container, find its parent container
-        const parentContainer = this.findParentContainer(shape, shapes);
-        if (parentContainer) {
-          const parentNode = nodeMap.get(parentContainer.id);
-          if (parentNode) {
-            node.parent = parentNode;
-            parentNode.children.push(node);
-          }
-        } else {
-          roots.push(node);
-        }
-      } else {
-        // This is a regular shape, find containing bounding box
-        const parentContainer = this.findContainingContainer(shape, shapes);
-        if (parentContainer) {
-          const parentNode = nodeMap.get(parentContainer.id);
-          if (parentNode) {
-            node.parent = parentNode;
-            parentNode.children.push(node);
-          }
-        } else {
-          roots.push(node);
-        }
-      }
-    }
-    
-    // Calculate levels
-    this.calculateLevels(roots, 0);
-    
-    return roots;
-  }
+    const result = await runLayeredLayout(input);
 
-  private findParentContainer(shape: TLShape, shapes: TLShape[]): TLShape | null {
-    const currentProps = shape.props as BaseInfraShapeProps;
-    const shapeCenterX = shape.x + currentProps.w / 2;
-    const shapeCenterY = shape.y + currentProps.h / 2;
-    
-    for (const otherShape of shapes) {
-      if (otherShape.id === shape.id) continue;
-      
-      const otherProps = otherShape.props as BaseInfraShapeProps;
-      if (!otherProps.isBoundingBox) continue;
-      
-      // Check if this shape is contained within the other shape
-      const isContained = 
-        shapeCenterX >= otherShape.x &&
-        shapeCenterX <= otherShape.x + otherProps.w &&
-        shapeCenterY >= otherShape.y &&
-        shapeCenterY <= otherShape.y + otherProps.h;
-      
-      if (isContained) {
-        return otherShape;
-      }
-    }
-    
-    return null;
-  }
-
-  private findContainingContainer(shape: TLShape, shapes: TLShape[]): TLShape | null {
-    const currentProps = shape.props as BaseInfraShapeProps;
-    const shapeCenterX = shape.x + currentProps.w / 2;
-    const shapeCenterY = shape.y + currentProps.h / 2;
-    
-    for (const otherShape of shapes) {
-      if (otherShape.id === shape.id) continue;
-      
-      const otherProps = otherShape.props as BaseInfraShapeProps;
-      if (!otherProps.isBoundingBox) continue;
-      
-      // Check if this shape is contained within the other shape
-      const isContained = 
-        shapeCenterX >= otherShape.x &&
-        shapeCenterX <= otherShape.x + otherProps.w &&
-        shapeCenterY >= otherShape.y &&
-        shapeCenterY <= otherShape.y + otherProps.h;
-      
-      if (isContained) {
-        return otherShape;
-      }
-    }
-    
-    return null;
-  }
+    // Keep the diagram where it is: the layout starts at the current top-left of the top-level shapes
+    const roots = graph.roots.map(id => graph.nodes.get(id)).filter((n): n is CanvasNode => !!n);
+    const {
+      startX = Math.min(...roots.map(n => n.bounds.x)),
+      startY = Math.min(...roots.map(n => n.bounds.y))
+    } = options;
 
-  private calculateLevels(nodes: HierarchyNode[], level: number): void {
-    for (const node of nodes) {
-      node.level = level;
-      this.calculateLevels(node.children, level + 1);
-    }
+    return {
+      updates: this.buildUpdates(graph, result, startX, startY),
+      containers: nodes.filter(n => n.isContainer && n.children.length > 0).map(n => n.id),
+      levels: result.layers,
+      crossings: result.crossings
+    };
   }
 
-  private calculateLevelPositions(
-    hierarchy: HierarchyNode[],
-    direction: string,
-    spacing: number,
-    options: any
-  ): LevelPosition[] {
-    const levels: LevelPosition[] = [];
-    const { startX = 50, startY = 50, containerPadding = 50 } = options;
-    
-    // Flatten hierarchy into levels
-    const levelNodes = this.flattenToLevels(hierarchy);
-    
-    // Calculate positions for each level
-    for (let levelIndex = 0; levelIndex < levelNodes.length; levelIndex++) {
-      const nodes = levelNodes[levelIndex];
-      const levelPosition: LevelPosition = {
-        level: levelIndex,
-        nodes: []
-      };
-      
-      // Calculate positions based on direction
-      if (direction === 'top-down') {
-        const y = startY + levelIndex * (spacing + 100);
-        let x = startX;
-        
-        for (const node of nodes) {
-          levelPosition.nodes.push({
-            id: node.id,
-            x: x,
-            y: y,
-            width: node.width,
-            height: node.height
-          });
-          
-          x += node.width + spacing;
-        }
-      } else if (direction === 'left-right') {
-        const x = startX + levelIndex * (spacing + 150);
-        let y = startY;
-        
-        for (const node of nodes) {
-          levelPosition.nodes.push({
-            id: node.id,
-            x: x,
-            y: y,
-            width: node.width,
-            height: node.height
-          });
-          
-          y += node.height + spacing;
-        }
-      }
-      
-      levels.push(levelPosition);
-    }
-    
-    // Adjust container positions to accommodate children
-    this.adjustContainerPositions(levels, hierarchy, containerPadding);
-    
-    return levels;
-  }
+  private buildUpdates(graph: CanvasGraph, result: LayeredLayoutResult, startX: number, startY: number) {
+    const { canvas } = this.context as ToolContext;
+    const updates: { id: TLShapeId; type: string; x: number; y: number; props?: { w: number; h: number } }[] = [];
 
-  private flattenToLevels(nodes: HierarchyNode[]): HierarchyNode[][] {
-    const levels: HierarchyNode[][] = [];
-    
-    const addToLevel = (node: HierarchyNode, level: number) => {
-      if (!levels[level]) {
-        levels[level] = [];
-      }
-      levels[level].push(node);
-      
-      for (const child of node.children) {
-        addToLevel(child, level + 1);
-      }
+    const pagePosition = (id: string) => {
+      const box = result.boxes[id];
+      return box ? { x: startX + box.x, y: startY + box.y } : undefined;
     };
-    
-    for (const node of nodes) {
-      addToLevel(node, 0);
-    }
-    
-    return levels;
-  }
 
-  private adjustContainerPositions(
-    levels: LevelPosition[],
-    hierarchy: HierarchyNode[],
-    containerPadding: number
-  ): void {
-    // For containers, adjust size to accommodate children
-    for (const level of levels) {
-      for (const nodePos of level.nodes) {
-        const hierarchyNode = this.findHierarchyNode(hierarchy, nodePos.id);
-        if (hierarchyNode && hierarchyNode.isContainer && hierarchyNode.children.length > 0) {
-          // Calculate bounding box of children
-          const childBounds = this.calculateChildrenBounds(hierarchyNode, levels);
-          
-          // Adjust container position and size
-          nodePos.x = childBounds.minX - containerPadding;
-          nodePos.y = childBounds.minY - containerPadding;
-          nodePos.width = childBounds.maxX - childBounds.minX + 2 * containerPadding;
-          nodePos.height = childBounds.maxY - childBounds.minY + 2 * containerPadding;
-        }
-      }
+    for (const node of graph.nodes.values()) {
+      const position = pagePosition(node.id);
+      if (!position) continue;
+
+      const box = result.boxes[node.id];
+      updates.push({
+        id: node.shape.id,
+        type: node.shape.type,
+        ...toParentSpace(canvas, graph, node, position, pagePosition),
+        ...(node.isContainer && node.children.length > 0 ? { props: { w: box.width, h: box.height } } : {})
+      });
     }
+
+    return updates;
   }
+}
 
-  private findHierarchyNode(hierarchy: HierarchyNode[], id: string): HierarchyNode | null {
-    for (const node of hierarchy) {
-      if (node.id === id) return node;
-      
-      const found = this.findHierarchyNodeRecursive(node.children, id);
-      if (found) return found;
-    }
-    return null;
+const DEFAULT_SIZE = { w: 120, h: 80 };
+
+// Below this many shapes the worker's start-up costs more than the layout itself
+const WORKER_THRESHOLD = 50;
+
+// Run the layout in a Web Worker where one is available, inline otherwise (tests, old browsers)
+function runLayeredLayout(input: LayeredLayoutInput): Promise<LayeredLayoutResult> {
+  if (typeof Worker === 'undefined' || input.nodes.length < WORKER_THRESHOLD) {
+    return Promise.resolve(computeLayeredLayout(input));
   }
 
-  private findHierarchyNodeRecursive(nodes: HierarchyNode[], id: string): HierarchyNode | null {
-    for (const node of nodes) {
-      if (node.id === id) return node;
-      
-      const found = this.findHierarchyNodeRecursive(node.children, id);
-      if (found) return found;
-    }
-    return null;
+  let worker: Worker;
+  try {
+    worker = new Worker(new URL('./layered-layout.worker.ts', import.meta.url), { type: 'module' });
+  } catch {
+    return Promise.resolve(computeLayeredLayout(input));
   }
 
-  private calculateChildrenBounds(node: HierarchyNode, levels: LevelPosition[]): ChildBounds {
-    let minX = Infinity;
-    let minY = Infinity;
-    let maxX = -Infinity;
-    let maxY = -Infinity;
-    
-    const processChildren = (children: HierarchyNode[]) => {
-      for (const child of children) {
-        // Find child position in levels
-        for (const level of levels) {
-          const childPos = level.nodes.find(n => n.id === child.id);
-          if (childPos) {
-            minX = Math.min(minX, childPos.x);
-            minY = Math.min(minY, childPos.y);
-            maxX = Math.max(maxX, childPos.x + childPos.width);
-            maxY = Math.max(maxY, childPos.y + childPos.height);
-          }
-        }
-        
-        // Process grandchildren
-        processChildren(child.children);
+  return new Promise((resolve, reject) => {
+    worker.onmessage = (event: MessageEvent<{ result?: LayeredLayoutResult; error?: string }>) => {
+      worker.terminate();
+      if (event.data.result) {
+        resolve(event.data.result);
+      } else {
+        reject(new Error(event.data.error || 'Layered layout failed'));
       }
     };
-    
-    processChildren(node.children);
-    
-    return { minX, minY, maxX, maxY };
-  }
-}
-
-// Helper interfaces
-interface HierarchyNode {
-  id: string;
-  shape: TLShape;
-  isContainer: boolean;
-  children: HierarchyNode[];
-  parent: HierarchyNode | null;
-  level: number;
-  x: number;
-  y: number;
-  width: number;
-  height: number;
+    worker.onerror = (event) => {
+      worker.terminate();
+      reject(new Error(event.message || 'Layered layout worker failed'));
+    };
+    worker.postMessage(input);
+  });
 }
 
-interface LevelPosition {
-  level: number;
-  nodes: {
-    id: string;
-    x: number;
-    y: number;
-    width: number;
-    height: number;
-  }[];
+// Accept the short flow names and the older long-form directions
+function normalizeDirection(direction: string): LayeredDirection | null {
+  const aliases: Record<string, LayeredDirection> = {
+    'top-down': 'TB',
+    'bottom-up': 'BT',
+    'left-right': 'LR',
+    'right-left': 'RL'
+  };
+  const upper = direction.toUpperCase();
+  if (upper === 'TB' || upper === 'BT' || upper === 'LR' || upper === 'RL') return upper;
+  return aliases[direction] || null;
 }
 
-interface ChildBounds {
-  minX: number;
-  minY: number;
-  maxX: number;
-  maxY: number;
+function sortByPosition(nodes: CanvasNode[]): CanvasNode[] {
+  return [...nodes].sort((a, b) => a.bounds.y - b.bounds.y || a.bounds.x - b.bounds.x);
 }
 
+// Helper interfaces
 interface LayoutResult {
-  updates: any[];
+  updates: { id: TLShapeId; type: string; x: number; y: number; props?: { w: number; h: number } }[];
   containers: string[];
   levels: number;
-}
\ No newline at end of file
+  crossings: number;
+}
@@ -0,0 +1,72 @@
+import { IncrementalLayoutNode, computeIncrementalLayout } from './incremental-layout-engine';
+
+function node(id: string, x: number, y: number, extra: Partial<IncrementalLayoutNode> = {}): IncrementalLayoutNode {
+  return { id, x, y, width: 100, height: 60, parentId: null, isContainer: false, pinned: false, isNew: false, ...extra };
+}
+
+function overlaps(a: { x: number; y: number }, b: { x: number; y: number }, width = 100, height = 60): boolean {
+  return Math.abs(a.x - b.x) < width && Math.abs(a.y - b.y) < height;
+}
+
+describe('computeIncrementalLayout', () => {
+  it('leaves a diagram without new shapes where it is', () => {
+    const result = computeIncrementalLayout({
+      nodes: [node('a', 0, 0), node('b', 300, 0), node('c', 0, 300)],
+      edges: [{ from: 'a', to: 'b' }]
+    });
+
+    expect(result.maxDisplacement).toBe(0);
+    expect(result.positions).toEqual({ a: { x: 0, y: 0 }, b: { x: 300, y: 0 }, c: { x: 0, y: 300 } });
+    expect(result.mobility).toEqual({ a: 'anchored', b: 'anchored', c: 'loose' });
+  });
+
+  it('never moves pinned shapes or containers with content', () => {
+    const result = computeIncrementalLayout({
+      nodes: [
+        node('vpc', 0, 0, { width: 400, height: 300, isContainer: true }),
+        node('web', 40, 40, { parentId: 'vpc' }),
+        node('pin', 500, 0, { pinned: true }),
+        node('fresh', 500, 0, { isNew: true })
+      ],
+      edges: [{ from: 'fresh', to: 'pin' }]
+    });
+
+    expect(result.mobility).toMatchObject({ vpc: 'fixed', pin: 'fixed', fresh: 'new' });
+    expect(result.positions.vpc).toEqual({ x: 0, y: 0 });
+    expect(result.positions.pin).toEqual({ x: 500, y: 0 });
+    expect(overlaps(result.positions.fresh, result.positions.pin)).toBe(false);
+  });
+
+  it('drops new shapes next to what they connect to without covering existing ones', () => {
+    const result = computeIncrementalLayout({
+      nodes: [node('a', 0, 0), node('b', 200, 0), node('c', 0, 0, { isNew: true }), node('d', 150, 0, { isNew: true })],
+      edges: [{ from: 'a', to: 'b' }, { from: 'c', to: 'd' }, { from: 'd', to: 'a' }]
+    });
+    const { a, b, c, d } = result.positions;
+
+    expect(result.overlaps).toBe(0);
+    expect([a, b].some(existing => overlaps(existing, c) || overlaps(existing, d))).toBe(false);
+    expect(Math.hypot(d.x - a.x, d.y - a.y)).toBeLessThan(600);
+    expect(result.maxDisplacement).toBeLessThan(100);
+  });
+
+  it('keeps new shapes inside their container and tolerates overlaps that were already there', () => {
+    const result = computeIncrementalLayout({
+      nodes: [
+        node('subnet', 0, 0, { width: 500, height: 300, isContainer: true }),
+        node('web', 20, 40, { parentId: 'subnet' }),
+        node('web2', 60, 60, { parentId: 'subnet' }),
+        node('worker', 20, 40, { parentId: 'subnet', isNew: true })
+      ],
+      edges: [{ from: 'worker', to: 'web' }]
+    });
+    const { worker, web, web2 } = result.positions;
+
+    expect(worker.x).toBeGreaterThanOrEqual(0);
+    expect(worker.y).toBeGreaterThanOrEqual(0);
+    expect(worker.x + 100).toBeLessThanOrEqual(500);
+    expect(worker.y + 60).toBeLessThanOrEqual(300);
+    expect(overlaps(worker, web) || overlaps(worker, web2)).toBe(false);
+    expect(overlaps(web, web2)).toBe(true);
+  });
+});
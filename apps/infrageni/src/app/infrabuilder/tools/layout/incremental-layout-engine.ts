@@ -0,0 +1,464 @@
+// Incremental force layout that keeps the user's mental map. Pinned shapes and containers with
+// content stay put, existing shapes are held where they are and only give way to clear an
+// overlap, and new shapes are dropped in as a group at the nearest free spot before settling
+// against their neighbours. Positions are page-space top-left corners.
+
+export interface IncrementalLayoutNode {
+  id: string;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  parentId: string | null;
+  isContainer: boolean;
+  pinned: boolean;
+  isNew: boolean;
+}
+
+export interface IncrementalLayoutEdge {
+  from: string;
+  to: string;
+}
+
+export interface IncrementalLayoutOptions {
+  iterations: number;
+  spacing: number; // Gap kept between a moved shape and its neighbours
+  edgeLength: number; // Rest length of the connection springs on new shapes
+  attractionStrength: number;
+  repulsionStrength: number;
+  anchorStrength: number; // Share of its drift an existing shape recovers each iteration (0-1)
+  containerPadding: number;
+}
+
+export interface IncrementalLayoutInput {
+  nodes: IncrementalLayoutNode[];
+  edges: IncrementalLayoutEdge[];
+  options?: Partial<IncrementalLayoutOptions>;
+}
+
+// fixed: never moves; anchored: existing and connected; loose: existing without connections; new: being placed
+export type NodeMobility = 'fixed' | 'anchored' | 'loose' | 'new';
+
+export interface IncrementalLayoutResult {
+  positions: Record<string, { x: number; y: number }>;
+  mobility: Record<string, NodeMobility>;
+  iterations: number;
+  overlaps: number; // Pairs that still overlap after the final pass
+  maxDisplacement: number; // Furthest any existing shape moved
+}
+
+export const DEFAULT_INCREMENTAL_OPTIONS: IncrementalLayoutOptions = {
+  iterations: 300,
+  spacing: 40,
+  edgeLength: 180,
+  attractionStrength: 0.1,
+  repulsionStrength: 1000,
+  anchorStrength: 0.3,
+  containerPadding: 20
+};
+
+interface SimNode extends IncrementalLayoutNode {
+  mobility: NodeMobility;
+  startX: number;
+  startY: number;
+  homeX: number; // Where an anchored shape is pulled back to
+  homeY: number;
+  ancestors: Set<string>;
+  contained: boolean; // Kept inside its container while it moves
+}
+
+interface Rect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+// How far each kind of shape gives way when two shapes are pushed apart
+const GIVE: Record<NodeMobility, number> = {
+  fixed: 0,
+  anchored: 0.25,
+  loose: 1,
+  new: 1
+};
+
+const MAX_SEARCH_RINGS = 100;
+
+export function computeIncrementalLayout(input: IncrementalLayoutInput): IncrementalLayoutResult {
+  const settings = { ...DEFAULT_INCREMENTAL_OPTIONS, ...input.options };
+  return new IncrementalLayout(input.nodes, input.edges, settings).run();
+}
+
+class IncrementalLayout {
+  private nodes = new Map<string, SimNode>();
+  private order: SimNode[] = [];
+  private neighbours = new Map<string, string[]>();
+  private tolerated = new Set<string>(); // Pairs that already overlapped before the layout
+
+  constructor(nodes: IncrementalLayoutNode[], edges: IncrementalLayoutEdge[], private options: IncrementalLayoutOptions) {
+    for (const node of nodes) {
+      const sim: SimNode = {
+        ...node,
+        mobility: 'anchored',
+        startX: node.x,
+        startY: node.y,
+        homeX: node.x,
+        homeY: node.y,
+        ancestors: new Set(),
+        contained: false
+      };
+      this.nodes.set(node.id, sim);
+      this.order.push(sim);
+      this.neighbours.set(node.id, []);
+    }
+
+    for (const edge of edges) {
+      if (edge.from === edge.to || !this.nodes.has(edge.from) || !this.nodes.has(edge.to)) continue;
+      this.neighbours.get(edge.from)?.push(edge.to);
+      this.neighbours.get(edge.to)?.push(edge.from);
+    }
+
+    const parents = new Set<string>();
+    for (const node of this.order) {
+      let parentId = node.parentId;
+      while (parentId && this.nodes.has(parentId) && !node.ancestors.has(parentId)) {
+        node.ancestors.add(parentId);
+        parentId = this.nodes.get(parentId)?.parentId ?? null;
+      }
+      if (node.parentId) parents.add(node.parentId);
+    }
+
+    for (const node of this.order) {
+      node.mobility = this.classify(node, parents.has(node.id));
+      const parent = node.parentId ? this.nodes.get(node.parentId) : undefined;
+      node.contained = !!parent && (node.isNew || this.isInside(node, parent));
+    }
+
+    for (let i = 0; i < this.order.length; i++) {
+      for (let j = i + 1; j < this.order.length; j++) {
+        const a = this.order[i];
+        const b = this.order[j];
+        if (!a.isNew && !b.isNew && this.overlap(a, b)) this.tolerated.add(pairKey(a, b));
+      }
+    }
+  }
+
+  run(): IncrementalLayoutResult {
+    this.placeNewGroups();
+
+    const { iterations } = this.options;
+    let performed = 0;
+    for (let i = 0; i < iterations; i++) {
+      // Cool down so new shapes settle instead of oscillating around their neighbours
+      const temperature = (this.options.edgeLength / 2) * (1 - i / iterations) + 1;
+      const moved = this.step(temperature);
+      performed++;
+      if (moved < 0.5) break;
+    }
+
+    // Anchors may pull shapes back into each other on the last steps; finish with overlaps cleared
+    let overlaps = 0;
+    for (let pass = 0; pass < 20; pass++) {
+      overlaps = this.separate();
+      this.constrainToContainers();
+      if (overlaps === 0) break;
+    }
+    overlaps = this.countOverlaps();
+
+    const positions: Record<string, { x: number; y: number }> = {};
+    const mobility: Record<string, NodeMobility> = {};
+    let maxDisplacement = 0;
+    for (const node of this.order) {
+      positions[node.id] = { x: Math.round(node.x), y: Math.round(node.y) };
+      mobility[node.id] = node.mobility;
+      if (!node.isNew) {
+        maxDisplacement = Math.max(maxDisplacement, Math.hypot(node.x - node.startX, node.y - node.startY));
+      }
+    }
+
+    return { positions, mobility, iterations: performed, overlaps, maxDisplacement: Math.round(maxDisplacement) };
+  }
+
+  private classify(node: SimNode, hasChildren: boolean): NodeMobility {
+    // Moving a container with content would drag everything inside it along
+    if (node.pinned || (node.isContainer && hasChildren)) return 'fixed';
+    if (node.isNew) return 'new';
+    return (this.neighbours.get(node.id) || []).length === 0 ? 'loose' : 'anchored';
+  }
+
+  // New shapes that belong together (connected, or nested in each other) are moved as one
+  // piece, so a dropped pattern keeps its own arrangement and lands next to what it connects to
+  private placeNewGroups(): void {
+    const placed = new Set<string>();
+    const settled = (node: SimNode) => !node.isNew || node.pinned || placed.has(node.id);
+
+    for (const group of this.newGroups()) {
+      const members = new Set(group.map(node => node.id));
+      const box = boundingRect(group);
+
+      let offsetX = 0;
+      let offsetY = 0;
+      const attached = group.filter(node => (this.neighbours.get(node.id) || []).some(id => !members.has(id)));
+      if (attached.length > 0) {
+        const external = attached.flatMap(node =>
+          (this.neighbours.get(node.id) || [])
+            .filter(id => !members.has(id))
+            .map(id => this.nodes.get(id))
+            .filter((n): n is SimNode => !!n && settled(n))
+        );
+        if (external.length > 0) {
+          const from = centroid(attached);
+          const to = centroid(external);
+          offsetX = to.x - from.x;
+          offsetY = to.y - from.y;
+        }
+      }
+
+      const ancestors = new Set(group.flatMap(node => Array.from(node.ancestors)));
+      const obstacles = this.order.filter(node =>
+        !members.has(node.id) && !ancestors.has(node.id) && settled(node)
+      );
+
+      const offset = this.findFreeOffset(box, offsetX, offsetY, obstacles);
+      for (const node of group) {
+        node.x += offset.x;
+        node.y += offset.y;
+        placed.add(node.id);
+      }
+    }
+  }
+
+  private newGroups(): SimNode[][] {
+    const fresh = this.order.filter(node => node.isNew && !node.pinned);
+    const ids = new Set(fresh.map(node => node.id));
+    const root = new Map<string, string>(fresh.map(node => [node.id, node.id]));
+
+    const find = (id: string): string => {
+      let current = id;
+      while (root.get(current) !== current) current = root.get(current) ?? current;
+      root.set(id, current);
+      return current;
+    };
+    const join = (a: string, b: string) => root.set(find(a), find(b));
+
+    for (const node of fresh) {
+      if (node.parentId && ids.has(node.parentId)) join(node.id, node.parentId);
+      for (const other of this.neighbours.get(node.id) || []) {
+        if (ids.has(other)) join(node.id, other);
+      }
+    }
+
+    const groups = new Map<string, SimNode[]>();
+    for (const node of fresh) {
+      const key = find(node.id);
+      const group = groups.get(key) || [];
+      group.push(node);
+      groups.set(key, group);
+    }
+    return Array.from(groups.values());
+  }
+
+  // Nearest translation of the box, searched outwards ring by ring, that clears every obstacle
+  private findFreeOffset(box: Rect, startX: number, startY: number, obstacles: SimNode[]): { x: number; y: number } {
+    const step = Math.max(this.options.spacing, 10);
+    const { spacing } = this.options;
+
+    const isFree = (dx: number, dy: number) => obstacles.every(obstacle => !rectsOverlap(
+      { x: box.x + dx - spacing, y: box.y + dy - spacing, width: box.width + spacing * 2, height: box.height + spacing * 2 },
+      obstacle
+    ));
+
+    for (let ring = 0; ring <= MAX_SEARCH_RINGS; ring++) {
+      const candidates: [number, number][] = [];
+      for (let i = -ring; i <= ring; i++) {
+        candidates.push([i, -ring], [i, ring]);
+        if (Math.abs(i) !== ring) candidates.push([-ring, i], [ring, i]);
+      }
+      candidates.sort((a, b) => a[0] * a[0] + a[1] * a[1] - (b[0] * b[0] + b[1] * b[1]));
+
+      for (const [i, j] of candidates) {
+        const dx = startX + i * step;
+        const dy = startY + j * step;
+        if (isFree(dx, dy)) return { x: dx, y: dy };
+      }
+    }
+
+    return { x: startX, y: startY };
+  }
+
+  private step(temperature: number): number {
+    const { attractionStrength, repulsionStrength, edgeLength, anchorStrength } = this.options;
+    const before = new Map(this.order.map(node => [node.id, { x: node.x, y: node.y }]));
+
+    for (const node of this.order) {
+      if (node.mobility === 'anchored') {
+        node.x += (node.homeX - node.x) * anchorStrength;
+        node.y += (node.homeY - node.y) * anchorStrength;
+        continue;
+      }
+      if (node.mobility !== 'new') continue;
+
+      let fx = 0;
+      let fy = 0;
+      const center = centerOf(node);
+
+      for (const id of this.neighbours.get(node.id) || []) {
+        const other = this.nodes.get(id);
+        if (!other) continue;
+        const target = centerOf(other);
+        const dx = target.x - center.x;
+        const dy = target.y - center.y;
+        const distance = Math.hypot(dx, dy);
+        if (distance === 0) continue;
+        const force = attractionStrength * (distance - edgeLength);
+        fx += (dx / distance) * force;
+        fy += (dy / distance) * force;
+      }
+
+      // New shapes only push each other apart; the rest of the diagram is kept clear by the
+      // overlap pass, so its combined push cannot drive new shapes away from their neighbours
+      for (const other of this.order) {
+        if (other === node || other.mobility !== 'new' || this.related(node, other)) continue;
+        const target = centerOf(other);
+        const dx = center.x - target.x;
+        const dy = center.y - target.y;
+        const distance = Math.hypot(dx, dy);
+        if (distance === 0 || distance > edgeLength * 3) continue;
+        const force = repulsionStrength / distance;
+        fx += (dx / distance) * force;
+        fy += (dy / distance) * force;
+      }
+
+      const length = Math.hypot(fx, fy);
+      const scale = length > temperature ? temperature / length : 1;
+      node.x += fx * scale;
+      node.y += fy * scale;
+    }
+
+    this.separate();
+    this.constrainToContainers();
+
+    let moved = 0;
+    for (const node of this.order) {
+      const previous = before.get(node.id);
+      if (previous) moved = Math.max(moved, Math.hypot(node.x - previous.x, node.y - previous.y));
+    }
+    return moved;
+  }
+
+  // Push overlapping pairs apart along the shallower axis, split by how much each may give
+  private separate(): number {
+    const { spacing } = this.options;
+    // Sweep along x so only pairs that can touch are compared
+    const sorted = [...this.order].sort((a, b) => a.x - b.x);
+    let count = 0;
+    for (let i = 0; i < sorted.length; i++) {
+      for (let j = i + 1; j < sorted.length; j++) {
+        const a = sorted[i];
+        const b = sorted[j];
+        if (b.x >= a.x + a.width + spacing) break;
+        const giveA = GIVE[a.mobility];
+        const giveB = GIVE[b.mobility];
+        if (giveA + giveB === 0) continue;
+
+        const depth = this.overlap(a, b);
+        if (!depth || this.related(a, b) || this.tolerated.has(pairKey(a, b))) continue;
+        count++;
+
+        const shareA = giveA / (giveA + giveB);
+        const shareB = giveB / (giveA + giveB);
+        const ca = centerOf(a);
+        const cb = centerOf(b);
+        if (depth.x < depth.y) {
+          const direction = ca.x <= cb.x ? -1 : 1;
+          a.x += direction * depth.x * shareA;
+          b.x -= direction * depth.x * shareB;
+        } else {
+          const direction = ca.y <= cb.y ? -1 : 1;
+          a.y += direction * depth.y * shareA;
+          b.y -= direction * depth.y * shareB;
+        }
+      }
+    }
+    return count;
+  }
+
+  private countOverlaps(): number {
+    let count = 0;
+    for (let i = 0; i < this.order.length; i++) {
+      for (let j = i + 1; j < this.order.length; j++) {
+        const a = this.order[i];
+        const b = this.order[j];
+        if (rectsOverlap(a, b) && !this.related(a, b) && !this.tolerated.has(pairKey(a, b))) count++;
+      }
+    }
+    return count;
+  }
+
+  private constrainToContainers(): void {
+    const padding = this.options.containerPadding;
+    for (const node of this.order) {
+      if (!node.contained || node.mobility === 'fixed' || !node.parentId) continue;
+      const parent = this.nodes.get(node.parentId);
+      if (!parent) continue;
+      node.x = clampInto(node.x, parent.x + padding, parent.x + parent.width - padding - node.width);
+      node.y = clampInto(node.y, parent.y + padding, parent.y + parent.height - padding - node.height);
+    }
+  }
+
+  // Overlap depth on each axis, counting the spacing gap, or null when the pair is clear
+  private overlap(a: SimNode, b: SimNode): { x: number; y: number } | null {
+    const { spacing } = this.options;
+    const x = Math.min(a.x + a.width, b.x + b.width) - Math.max(a.x, b.x) + spacing;
+    const y = Math.min(a.y + a.height, b.y + b.height) - Math.max(a.y, b.y) + spacing;
+    return x > 0 && y > 0 ? { x, y } : null;
+  }
+
+  private isInside(node: SimNode, parent: SimNode): boolean {
+    return node.x >= parent.x && node.y >= parent.y &&
+      node.x + node.width <= parent.x + parent.width &&
+      node.y + node.height <= parent.y + parent.height;
+  }
+
+  // A container and the shapes inside it are meant to overlap
+  private related(a: SimNode, b: SimNode): boolean {
+    return a.ancestors.has(b.id) || b.ancestors.has(a.id);
+  }
+}
+
+function pairKey(a: SimNode, b: SimNode): string {
+  return a.id < b.id ? `${a.id}|${b.id}` : `${b.id}|${a.id}`;
+}
+
+function centerOf(rect: Rect): { x: number; y: number } {
+  return { x: rect.x + rect.width / 2, y: rect.y + rect.height / 2 };
+}
+
+function centroid(rects: Rect[]): { x: number; y: number } {
+  const centers = rects.map(centerOf);
+  return {
+    x: centers.reduce((sum, c) => sum + c.x, 0) / centers.length,
+    y: centers.reduce((sum, c) => sum + c.y, 0) / centers.length
+  };
+}
+
+function boundingRect(rects: Rect[]): Rect {
+  const x = Math.min(...rects.map(r => r.x));
+  const y = Math.min(...rects.map(r => r.y));
+  return {
+    x,
+    y,
+    width: Math.max(...rects.map(r => r.x + r.width)) - x,
+    height: Math.max(...rects.map(r => r.y + r.height)) - y
+  };
+}
+
+function rectsOverlap(a: Rect, b: Rect): boolean {
+  return a.x < b.x + b.width && b.x < a.x + a.width && a.y < b.y + b.height && b.y < a.y + a.height;
+}
+
+// Centre the shape when its container is too small to hold it
+function clampInto(value: number, min: number, max: number): number {
+  if (max < min) return (min + max) / 2;
+  return Math.min(max, Math.max(min, value));
+}
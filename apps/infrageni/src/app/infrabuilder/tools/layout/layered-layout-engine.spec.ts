@@ -0,0 +1,66 @@
+import { LayeredBox, LayeredLayoutNode, computeLayeredLayout } from './layered-layout-engine';
+
+function node(id: string, parentId: string | null = null, isContainer = false): LayeredLayoutNode {
+  return { id, width: 100, height: 60, parentId, isContainer };
+}
+
+function inside(inner: LayeredBox, outer: LayeredBox): boolean {
+  return inner.x >= outer.x && inner.y >= outer.y &&
+    inner.x + inner.width <= outer.x + outer.width && inner.y + inner.height <= outer.y + outer.height;
+}
+
+function overlap(a: LayeredBox, b: LayeredBox): boolean {
+  return a.x < b.x + b.width && b.x < a.x + a.width && a.y < b.y + b.height && b.y < a.y + a.height;
+}
+
+describe('computeLayeredLayout', () => {
+  it('puts each node of a chain on its own layer along the direction', () => {
+    const edges = [{ from: 'a', to: 'b' }, { from: 'b', to: 'c' }];
+    const down = computeLayeredLayout({ nodes: [node('c'), node('b'), node('a')], edges });
+    const right = computeLayeredLayout({ nodes: [node('c'), node('b'), node('a')], edges, options: { direction: 'LR' } });
+
+    expect(down.layers).toBe(3);
+    expect(down.boxes.a.y).toBeLessThan(down.boxes.b.y);
+    expect(down.boxes.b.y).toBeLessThan(down.boxes.c.y);
+    expect(down.boxes.b.y - down.boxes.a.y).toBe(60 + 100);
+    expect(right.boxes.a.x).toBeLessThan(right.boxes.b.x);
+    expect(right.boxes.b.x).toBeLessThan(right.boxes.c.x);
+  });
+
+  it('untangles crossings between two layers', () => {
+    const result = computeLayeredLayout({
+      nodes: ['a', 'b', 'c', 'x', 'y', 'z'].map(id => node(id)),
+      edges: [{ from: 'a', to: 'z' }, { from: 'b', to: 'y' }, { from: 'c', to: 'x' }]
+    });
+
+    expect(result.crossings).toBe(0);
+    expect(result.layers).toBe(2);
+  });
+
+  it('sizes containers around their children and keeps siblings apart', () => {
+    const result = computeLayeredLayout({
+      nodes: [node('vpc', null, true), node('subnet', 'vpc', true), node('web', 'subnet'), node('db', 'subnet'), node('user')],
+      edges: [{ from: 'user', to: 'web' }, { from: 'web', to: 'db' }]
+    });
+    const { vpc, subnet, web, db, user } = result.boxes;
+
+    expect(inside(subnet, vpc)).toBe(true);
+    expect(inside(web, subnet)).toBe(true);
+    expect(inside(db, subnet)).toBe(true);
+    expect(web.y - subnet.y).toBeGreaterThanOrEqual(40 + 30);
+    expect(overlap(web, db)).toBe(false);
+    expect(overlap(user, vpc)).toBe(false);
+    // The arrow into the subnet is lifted to the VPC, which goes below the user
+    expect(vpc.y).toBeGreaterThan(user.y + user.height);
+  });
+
+  it('lays out cycles', () => {
+    const result = computeLayeredLayout({
+      nodes: [node('a'), node('b'), node('c')],
+      edges: [{ from: 'a', to: 'b' }, { from: 'b', to: 'c' }, { from: 'c', to: 'a' }]
+    });
+
+    expect(Object.keys(result.boxes).sort()).toEqual(['a', 'b', 'c']);
+    expect(new Set(Object.values(result.boxes).map(box => box.y)).size).toBe(3);
+  });
+});
@@ -0,0 +1,542 @@
+// Compound layered (Sugiyama) layout. Every container is laid out on its own, innermost first,
+// so it can be sized before its parent places it; arrows that cross container boundaries are
+// lifted to the children of the container being laid out. Plain data in and out, so it can
+// run inside a Web Worker.
+
+export type LayeredDirection = 'TB' | 'BT' | 'LR' | 'RL';
+
+export interface LayeredLayoutNode {
+  id: string;
+  width: number;
+  height: number;
+  parentId: string | null;
+  isContainer: boolean;
+}
+
+export interface LayeredLayoutEdge {
+  from: string;
+  to: string;
+}
+
+export interface LayeredLayoutOptions {
+  direction: LayeredDirection;
+  nodeSpacing: number; // Gap between neighbours in a layer
+  layerSpacing: number; // Gap between layers
+  containerPadding: number;
+  headerHeight: number; // Extra room for the container label above its content
+  sweeps: number; // Crossing-reduction sweeps per container
+}
+
+export interface LayeredLayoutInput {
+  nodes: LayeredLayoutNode[];
+  edges: LayeredLayoutEdge[];
+  options?: Partial<LayeredLayoutOptions>;
+}
+
+export interface LayeredBox {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface LayeredLayoutResult {
+  boxes: Record<string, LayeredBox>; // Page-space boxes relative to the top-left of the layout
+  layers: number; // Layers at the top level
+  crossings: number; // Remaining crossings summed over all containers
+}
+
+export const DEFAULT_LAYERED_OPTIONS: LayeredLayoutOptions = {
+  direction: 'TB',
+  nodeSpacing: 50,
+  layerSpacing: 100,
+  containerPadding: 40,
+  headerHeight: 30,
+  sweeps: 12
+};
+
+interface Size {
+  width: number;
+  height: number;
+}
+
+interface LayerNode {
+  id: string;
+  breadth: number; // Extent across the layer
+  depth: number; // Extent along the flow
+  dummy: boolean;
+}
+
+interface ScopeLayout {
+  size: Size;
+  positions: Map<string, { x: number; y: number }>;
+  layers: number;
+  crossings: number;
+}
+
+export function computeLayeredLayout(input: LayeredLayoutInput): LayeredLayoutResult {
+  const settings = { ...DEFAULT_LAYERED_OPTIONS, ...input.options };
+  return new CompoundLayout(input.nodes, input.edges, settings).run();
+}
+
+class CompoundLayout {
+  private readonly nodes = new Map<string, LayeredLayoutNode>();
+  private readonly children = new Map<string | null, string[]>();
+  private readonly paths = new Map<string, string[]>();
+  private readonly sizes = new Map<string, Size>();
+  private readonly local = new Map<string, { x: number; y: number }>();
+  private crossings = 0;
+
+  constructor(
+    nodeList: LayeredLayoutNode[],
+    private readonly edges: LayeredLayoutEdge[],
+    private readonly settings: LayeredLayoutOptions
+  ) {
+    for (const node of nodeList) {
+      this.nodes.set(node.id, node);
+    }
+    for (const node of nodeList) {
+      const parent = node.parentId && this.nodes.has(node.parentId) ? node.parentId : null;
+      this.children.set(parent, [...(this.children.get(parent) || []), node.id]);
+    }
+  }
+
+  run(): LayeredLayoutResult {
+    const root = this.layoutScope(null);
+
+    // Local positions are relative to the content area of the parent; resolve them top-down
+    const boxes: Record<string, LayeredBox> = {};
+    const place = (scopeId: string | null, originX: number, originY: number) => {
+      for (const id of this.children.get(scopeId) || []) {
+        const position = this.local.get(id) || { x: 0, y: 0 };
+        const size = this.sizes.get(id) || { width: 0, height: 0 };
+        const box = { x: originX + position.x, y: originY + position.y, ...size };
+        boxes[id] = box;
+        place(
+          id,
+          box.x + this.settings.containerPadding,
+          box.y + this.settings.containerPadding + this.settings.headerHeight
+        );
+      }
+    };
+    place(null, 0, 0);
+
+    return { boxes, layers: root.layers, crossings: this.crossings };
+  }
+
+  // Lay out the direct children of a scope, sizing nested containers first
+  private layoutScope(scopeId: string | null): ScopeLayout {
+    const members = this.children.get(scopeId) || [];
+    const { containerPadding, headerHeight } = this.settings;
+
+    for (const id of members) {
+      const node = this.nodes.get(id);
+      if (!node) continue;
+
+      if (node.isContainer && (this.children.get(id) || []).length > 0) {
+        const content = this.layoutScope(id).size;
+        this.sizes.set(id, {
+          width: content.width + containerPadding * 2,
+          height: content.height + containerPadding * 2 + headerHeight
+        });
+      } else {
+        this.sizes.set(id, { width: node.width, height: node.height });
+      }
+    }
+
+    const layout = this.layoutLayers(members, this.liftEdges(scopeId, members));
+    for (const [id, position] of layout.positions) {
+      this.local.set(id, position);
+    }
+    this.crossings += layout.crossings;
+    return layout;
+  }
+
+  // Edges between descendants of two different members become edges between those members
+  private liftEdges(scopeId: string | null, members: string[]): [string, string][] {
+    const memberSet = new Set(members);
+    const depth = scopeId ? this.pathOf(scopeId).length : 0;
+    const lifted = new Map<string, [string, string]>();
+
+    for (const edge of this.edges) {
+      const from = this.pathOf(edge.from)[depth];
+      const to = this.pathOf(edge.to)[depth];
+      if (!from || !to || from === to || !memberSet.has(from) || !memberSet.has(to)) continue;
+      lifted.set(`${from}->${to}`, [from, to]);
+    }
+
+    return Array.from(lifted.values());
+  }
+
+  // Ancestor chain from the top level down to the node itself
+  private pathOf(id: string): string[] {
+    const cached = this.paths.get(id);
+    if (cached) return cached;
+
+    const path: string[] = [];
+    const seen = new Set<string>();
+    let current: string | null = id;
+    while (current && this.nodes.has(current) && !seen.has(current)) {
+      path.unshift(current);
+      seen.add(current);
+      current = this.nodes.get(current)?.parentId ?? null;
+    }
+
+    this.paths.set(id, path);
+    return path;
+  }
+
+  private layoutLayers(members: string[], edges: [string, string][]): ScopeLayout {
+    const horizontal = this.settings.direction === 'LR' || this.settings.direction === 'RL';
+    const layerNodes = new Map<string, LayerNode>();
+    for (const id of members) {
+      const size = this.sizes.get(id) || { width: 0, height: 0 };
+      layerNodes.set(id, {
+        id,
+        breadth: horizontal ? size.height : size.width,
+        depth: horizontal ? size.width : size.height,
+        dummy: false
+      });
+    }
+
+    const acyclic = removeCycles(members, edges);
+    const connected = new Set(acyclic.flat());
+    const layers = assignLayers(members.filter(id => connected.has(id)), acyclic);
+    const links = insertDummies(layers, acyclic, layerNodes);
+    appendIsolated(layers, members.filter(id => !connected.has(id)));
+
+    const crossings = orderLayers(layers, links, this.settings.sweeps);
+    const centers = assignBreadth(layers, links, layerNodes, this.settings.nodeSpacing);
+    return this.toPositions(layers, layerNodes, centers, crossings);
+  }
+
+  // Map (breadth, depth) onto the page for the requested direction
+  private toPositions(
+    layers: string[][],
+    layerNodes: Map<string, LayerNode>,
+    centers: Map<string, number>,
+    crossings: number
+  ): ScopeLayout {
+    const { direction, layerSpacing } = this.settings;
+    const positions = new Map<string, { x: number; y: number }>();
+
+    const thickness = layers.map(layer =>
+      Math.max(0, ...layer.map(id => layerNodes.get(id)?.depth || 0))
+    );
+    const totalDepth = thickness.reduce((sum, t) => sum + t, 0) + layerSpacing * Math.max(0, layers.length - 1);
+
+    let totalBreadth = 0;
+    for (const [id, center] of centers) {
+      const node = layerNodes.get(id);
+      if (node && !node.dummy) totalBreadth = Math.max(totalBreadth, center + node.breadth / 2);
+    }
+
+    let layerStart = 0;
+    layers.forEach((layer, index) => {
+      for (const id of layer) {
+        const node = layerNodes.get(id);
+        if (!node || node.dummy) continue;
+
+        const depth = layerStart + (thickness[index] - node.depth) / 2;
+        const breadth = (centers.get(id) || 0) - node.breadth / 2;
+
+        switch (direction) {
+          case 'BT':
+            positions.set(id, { x: breadth, y: totalDepth - depth - node.depth });
+            break;
+          case 'LR':
+            positions.set(id, { x: depth, y: breadth });
+            break;
+          case 'RL':
+            positions.set(id, { x: totalDepth - depth - node.depth, y: breadth });
+            break;
+          default:
+            positions.set(id, { x: breadth, y: depth });
+        }
+      }
+      layerStart += thickness[index] + layerSpacing;
+    });
+
+    const size = direction === 'LR' || direction === 'RL'
+      ? { width: totalDepth, height: totalBreadth }
+      : { width: totalBreadth, height: totalDepth };
+
+    return { size, positions, layers: layers.length, crossings };
+  }
+}
+
+// Reverse the edges that close a cycle, found by depth-first search in member order
+function removeCycles(members: string[], edges: [string, string][]): [string, string][] {
+  const outgoing = new Map<string, string[]>();
+  for (const [from, to] of edges) {
+    outgoing.set(from, [...(outgoing.get(from) || []), to]);
+  }
+
+  const state = new Map<string, 'active' | 'done'>();
+  const reversed = new Set<string>();
+
+  for (const start of members) {
+    if (state.has(start)) continue;
+
+    // Iterative DFS so deep chains can't overflow the stack
+    const stack: { id: string; next: number }[] = [{ id: start, next: 0 }];
+    state.set(start, 'active');
+    while (stack.length > 0) {
+      const frame = stack[stack.length - 1];
+      const targets = outgoing.get(frame.id) || [];
+      if (frame.next >= targets.length) {
+        state.set(frame.id, 'done');
+        stack.pop();
+        continue;
+      }
+
+      const target = targets[frame.next++];
+      const targetState = state.get(target);
+      if (targetState === 'active') {
+        reversed.add(`${frame.id}->${target}`);
+      } else if (!targetState) {
+        state.set(target, 'active');
+        stack.push({ id: target, next: 0 });
+      }
+    }
+  }
+
+  const result = new Map<string, [string, string]>();
+  for (const [from, to] of edges) {
+    const edge: [string, string] = reversed.has(`${from}->${to}`) ? [to, from] : [from, to];
+    result.set(`${edge[0]}->${edge[1]}`, edge);
+  }
+  return Array.from(result.values());
+}
+
+// Longest-path layering, then sources are pulled down next to their first successor
+function assignLayers(ids: string[], edges: [string, string][]): string[][] {
+  const incoming = new Map<string, string[]>(ids.map(id => [id, []]));
+  const outgoing = new Map<string, string[]>(ids.map(id => [id, []]));
+  for (const [from, to] of edges) {
+    outgoing.get(from)?.push(to);
+    incoming.get(to)?.push(from);
+  }
+
+  const layer = new Map<string, number>();
+  const pending = new Map(ids.map(id => [id, incoming.get(id)?.length || 0]));
+  const queue = ids.filter(id => pending.get(id) === 0);
+
+  while (queue.length > 0) {
+    const id = queue.shift() as string;
+    const current = Math.max(0, ...(incoming.get(id) || []).map(from => (layer.get(from) ?? 0) + 1));
+    layer.set(id, current);
+
+    for (const to of outgoing.get(id) || []) {
+      const remaining = (pending.get(to) || 0) - 1;
+      pending.set(to, remaining);
+      if (remaining === 0) queue.push(to);
+    }
+  }
+
+  for (const id of ids) {
+    const successors = outgoing.get(id) || [];
+    if ((incoming.get(id) || []).length === 0 && successors.length > 0) {
+      layer.set(id, Math.min(...successors.map(to => layer.get(to) ?? 1)) - 1);
+    }
+  }
+
+  const layers: string[][] = [];
+  for (const id of ids) {
+    const index = layer.get(id) ?? 0;
+    while (layers.length <= index) layers.push([]);
+    layers[index].push(id);
+  }
+  return layers;
+}
+
+// Split edges spanning several layers with zero-size dummy nodes; returns links between adjacent layers
+function insertDummies(
+  layers: string[][],
+  edges: [string, string][],
+  layerNodes: Map<string, LayerNode>
+): [string, string][] {
+  const layerOf = new Map<string, number>();
+  layers.forEach((layer, index) => layer.forEach(id => layerOf.set(id, index)));
+
+  const links: [string, string][] = [];
+  let dummyCount = 0;
+
+  for (const [from, to] of edges) {
+    const start = layerOf.get(from) ?? 0;
+    const end = layerOf.get(to) ?? 0;
+
+    let previous = from;
+    for (let index = start + 1; index < end; index++) {
+      const dummy = `~dummy-${dummyCount++}`;
+      layerNodes.set(dummy, { id: dummy, breadth: 0, depth: 0, dummy: true });
+      layers[index].push(dummy);
+      links.push([previous, dummy]);
+      previous = dummy;
+    }
+    links.push([previous, to]);
+  }
+
+  return links;
+}
+
+// Unconnected members fill rows after the layered part, no wider than its widest layer
+function appendIsolated(layers: string[][], isolated: string[]): void {
+  if (isolated.length === 0) return;
+
+  const widest = Math.max(0, ...layers.map(layer => layer.length));
+  const perRow = Math.max(widest, Math.ceil(Math.sqrt(isolated.length)));
+  for (let index = 0; index < isolated.length; index += perRow) {
+    layers.push(isolated.slice(index, index + perRow));
+  }
+}
+
+// Barycenter sweeps down and up the layers, keeping the ordering with the fewest crossings
+function orderLayers(layers: string[][], links: [string, string][], sweeps: number): number {
+  const up = new Map<string, string[]>();
+  const down = new Map<string, string[]>();
+  for (const [from, to] of links) {
+    down.set(from, [...(down.get(from) || []), to]);
+    up.set(to, [...(up.get(to) || []), from]);
+  }
+
+  let best = layers.map(layer => [...layer]);
+  let bestCrossings = countAllCrossings(layers, down);
+
+  for (let sweep = 0; sweep < sweeps && bestCrossings > 0; sweep++) {
+    const downward = sweep % 2 === 0;
+    const indices = layers.map((_, index) => index);
+    if (!downward) indices.reverse();
+
+    for (const index of indices.slice(1)) {
+      const fixed = layers[downward ? index - 1 : index + 1];
+      const neighbours = downward ? up : down;
+      const position = new Map(fixed.map((id, i) => [id, i]));
+      const current = new Map(layers[index].map((id, i) => [id, i]));
+
+      const barycenter = (id: string) => {
+        const placed = (neighbours.get(id) || []).filter(n => position.has(n));
+        if (placed.length === 0) return current.get(id) ?? 0;
+        return placed.reduce((sum, n) => sum + (position.get(n) ?? 0), 0) / placed.length;
+      };
+
+      const keys = new Map(layers[index].map(id => [id, barycenter(id)]));
+      layers[index].sort((a, b) => (keys.get(a) ?? 0) - (keys.get(b) ?? 0) || (current.get(a) ?? 0) - (current.get(b) ?? 0));
+    }
+
+    const crossings = countAllCrossings(layers, down);
+    if (crossings < bestCrossings) {
+      bestCrossings = crossings;
+      best = layers.map(layer => [...layer]);
+    }
+  }
+
+  best.forEach((layer, index) => {
+    layers[index] = layer;
+  });
+  return bestCrossings;
+}
+
+function countAllCrossings(layers: string[][], down: Map<string, string[]>): number {
+  let total = 0;
+
+  for (let index = 0; index < layers.length - 1; index++) {
+    const lower = new Map(layers[index + 1].map((id, i) => [id, i]));
+    const pairs: [number, number][] = [];
+    layers[index].forEach((id, i) => {
+      for (const to of down.get(id) || []) {
+        const j = lower.get(to);
+        if (j !== undefined) pairs.push([i, j]);
+      }
+    });
+
+    for (let a = 0; a < pairs.length; a++) {
+      for (let b = a + 1; b < pairs.length; b++) {
+        if ((pairs[a][0] - pairs[b][0]) * (pairs[a][1] - pairs[b][1]) < 0) total++;
+      }
+    }
+  }
+
+  return total;
+}
+
+// Place nodes across each layer as close as possible to the mean of their neighbours while
+// keeping the layer order and spacing: isotonic regression over the gap-adjusted targets
+function assignBreadth(
+  layers: string[][],
+  links: [string, string][],
+  layerNodes: Map<string, LayerNode>,
+  spacing: number
+): Map<string, number> {
+  const neighbours = new Map<string, string[]>();
+  for (const [from, to] of links) {
+    neighbours.set(from, [...(neighbours.get(from) || []), to]);
+    neighbours.set(to, [...(neighbours.get(to) || []), from]);
+  }
+
+  const centers = new Map<string, number>();
+  const gap = (a: LayerNode, b: LayerNode) =>
+    a.breadth / 2 + b.breadth / 2 + (a.dummy || b.dummy ? spacing / 2 : spacing);
+
+  const placeLayer = (layer: string[], desired: (id: string) => number) => {
+    const nodes = layer.map(id => layerNodes.get(id) as LayerNode);
+    const offsets: number[] = [];
+    nodes.forEach((node, i) => {
+      offsets.push(i === 0 ? 0 : offsets[i - 1] + gap(nodes[i - 1], node));
+    });
+
+    const fitted = isotonic(nodes.map((node, i) => desired(node.id) - offsets[i]));
+    nodes.forEach((node, i) => centers.set(node.id, fitted[i] + offsets[i]));
+  };
+
+  // Start packed, then relax towards neighbours a few times in both directions
+  for (const layer of layers) {
+    placeLayer(layer, () => 0);
+  }
+  for (let round = 0; round < 8; round++) {
+    const order = round % 2 === 0 ? layers : [...layers].reverse();
+    for (const layer of order) {
+      placeLayer(layer, id => {
+        const placed = (neighbours.get(id) || []).filter(n => centers.has(n));
+        if (placed.length === 0) return centers.get(id) ?? 0;
+        return placed.reduce((sum, n) => sum + (centers.get(n) ?? 0), 0) / placed.length;
+      });
+    }
+  }
+
+  // Shift so the layout starts at zero
+  let min = Infinity;
+  for (const [id, center] of centers) {
+    const node = layerNodes.get(id);
+    if (node && !node.dummy) min = Math.min(min, center - node.breadth / 2);
+  }
+  if (isFinite(min)) {
+    for (const [id, center] of centers) {
+      centers.set(id, center - min);
+    }
+  }
+
+  return centers;
+}
+
+// Pool-adjacent-violators: the non-decreasing sequence closest to the values in least squares
+function isotonic(values: number[]): number[] {
+  const blocks: { sum: number; count: number }[] = [];
+  for (const value of values) {
+    blocks.push({ sum: value, count: 1 });
+    while (blocks.length > 1) {
+      const last = blocks[blocks.length - 1];
+      const previous = blocks[blocks.length - 2];
+      if (previous.sum / previous.count <= last.sum / last.count) break;
+      previous.sum += last.sum;
+      previous.count += last.count;
+      blocks.pop();
+    }
+  }
+
+  const result: number[] = [];
+  for (const block of blocks) {
+    for (let i = 0; i < block.count; i++) result.push(block.sum / block.count);
+  }
+  return result;
+}
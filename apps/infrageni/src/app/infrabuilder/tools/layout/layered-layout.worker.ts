@@ -0,0 +1,10 @@
+import { computeLayeredLayout, LayeredLayoutInput } from './layered-layout-engine';
+
+// Runs the compound layered layout off the main thread so large canvases stay responsive
+globalThis.onmessage = (event: MessageEvent<LayeredLayoutInput>) => {
+  try {
+    globalThis.postMessage({ result: computeLayeredLayout(event.data) });
+  } catch (error) {
+    globalThis.postMessage({ error: error instanceof Error ? error.message : 'Layered layout failed' });
+  }
+};
@@ -0,0 +1,69 @@
+import { Editor, TLShapeId, createShapeId } from 'tldraw';
+import { createEditor } from '../../test-editor';
+import { ToolContext } from '../core/plugin-system';
+import { NetworkTopologyLayoutTool } from './network-topology-layout';
+
+function addShape(
+  editor: Editor,
+  type: string,
+  label: string,
+  bounds: { x: number; y: number; w: number; h: number },
+  parentId?: TLShapeId,
+  meta: Record<string, boolean> = {}
+): TLShapeId {
+  const id = createShapeId(label.replace(/\W/g, '-'));
+  editor.createShape({
+    id,
+    type,
+    x: bounds.x,
+    y: bounds.y,
+    parentId,
+    meta,
+    props: { w: bounds.w, h: bounds.h, label, componentId: type, isBoundingBox: type !== 'compute' }
+  });
+  return id;
+}
+
+async function runLayout(editor: Editor) {
+  const tool = new NetworkTopologyLayoutTool();
+  await tool.initialize({ canvas: editor, shapes: [] } as unknown as ToolContext);
+  return tool.execute({});
+}
+
+describe('NetworkTopologyLayoutTool', () => {
+  it('puts a subnet named public above the private ones when isPublic is left at its default', async () => {
+    const editor = createEditor();
+    const vpc = addShape(editor, 'vpc', 'Main VPC', { x: 0, y: 0, w: 800, h: 700 });
+    const privateSubnet = addShape(editor, 'subnet', 'App Subnet', { x: 30, y: 60, w: 300, h: 200 }, vpc);
+    const publicSubnet = addShape(editor, 'subnet', 'Public Subnet', { x: 30, y: 350, w: 300, h: 200 }, vpc);
+
+    const result = await runLayout(editor);
+
+    expect(result.success).toBe(true);
+    const publicY = editor.getShapePageBounds(publicSubnet)?.y ?? NaN;
+    const privateY = editor.getShapePageBounds(privateSubnet)?.y ?? NaN;
+    expect(publicY).toBeLessThan(privateY);
+  });
+
+  it('follows an explicit isPublic flag whatever the subnet is called', async () => {
+    const editor = createEditor();
+    const vpc = addShape(editor, 'vpc', 'Main VPC', { x: 0, y: 0, w: 800, h: 700 });
+    const privateSubnet = addShape(editor, 'subnet', 'Data', { x: 30, y: 60, w: 300, h: 200 }, vpc);
+    const publicSubnet = addShape(editor, 'subnet', 'Edge', { x: 30, y: 350, w: 300, h: 200 }, vpc, { isPublic: true });
+
+    await runLayout(editor);
+
+    expect(editor.getShapePageBounds(publicSubnet)?.y ?? NaN).toBeLessThan(editor.getShapePageBounds(privateSubnet)?.y ?? NaN);
+  });
+
+  it('grows a VPC when public and private subnets no longer fit side by side', async () => {
+    const editor = createEditor();
+    const vpc = addShape(editor, 'vpc', 'Main VPC', { x: 0, y: 0, w: 400, h: 260 });
+    addShape(editor, 'subnet', 'Public Subnet', { x: 20, y: 45, w: 150, h: 100 }, vpc);
+    addShape(editor, 'subnet', 'App Subnet', { x: 200, y: 45, w: 150, h: 100 }, vpc);
+
+    await runLayout(editor);
+
+    expect(editor.getShapePageBounds(vpc)?.h).toBeGreaterThan(260);
+  });
+});
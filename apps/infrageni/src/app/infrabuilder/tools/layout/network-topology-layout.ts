@@ -0,0 +1,309 @@
+import { InfraToolPlugin, ToolCategory, ToolContext, ToolParams, ToolResult } from '../core/plugin-system';
+import { TLShapeId } from 'tldraw';
+import { ComponentRegistry } from '../../components/core/component-registry';
+import { ComponentCategory, ComponentSubcategory } from '../../components/core/component-types';
+import { CanvasGraph, CanvasNode, buildCanvasGraph, getLiveShapes, toParentSpace } from '../core/canvas-graph';
+import { isPublicSubnet } from '../../export/resource-model';
+import { rerouteArrows } from './edge-routing';
+
+export class NetworkTopologyLayoutTool implements InfraToolPlugin {
+  id = 'network-topology-layout';
+  name = 'Network Topology Layout';
+  description = 'Pack subnets inside availability zones inside VPCs, with public subnets on top and internet-facing components at the edge';
+  category = ToolCategory.LAYOUT;
+  version = '1.0.0';
+
+  private context?: ToolContext;
+
+  async initialize(context: ToolContext): Promise<void> {
+    this.context = context;
+    await ComponentRegistry.getInstance().initialize();
+    console.log('🌐 Network Topology Layout Tool initialized');
+  }
+
+  async execute(params: ToolParams): Promise<ToolResult> {
+    const { spacing = 40, padding = 30, headerHeight = 40, shrinkContainers = false } = params;
+
+    if (!this.context) {
+      return {
+        success: false,
+        error: 'Tool not initialized'
+      };
+    }
+
+    try {
+      const startTime = Date.now();
+      const { canvas } = this.context;
+      const graph = buildCanvasGraph(canvas, getLiveShapes(this.context));
+
+      if (graph.nodes.size === 0) {
+        return {
+          success: false,
+          error: 'No infrastructure shapes found to layout'
+        };
+      }
+
+      const settings: LayoutSettings = { spacing, padding, headerHeight, shrinkContainers };
+      const layout = this.computeLayout(graph, settings);
+      const updates = this.buildUpdates(graph, layout);
+
+      // One history entry so a single undo restores the previous arrangement
+      canvas.markHistoryStoppingPoint('network-topology-layout');
+      canvas.batch(() => {
+        canvas.updateShapes(updates);
+        rerouteArrows(canvas);
+      });
+
+      const executionTime = Date.now() - startTime;
+
+      return {
+        success: true,
+        data: {
+          shapesProcessed: updates.length,
+          containersResized: layout.resized.length,
+          layout: 'network-topology',
+          spacing
+        },
+        metadata: {
+          executionTime,
+          processingStats: {
+            shapesProcessed: updates.length,
+            containersResized: layout.resized.length,
+            vpcs: Array.from(graph.nodes.values()).filter(n => getNetworkKind(n) === 'vpc').length,
+            edgeNodes: Array.from(graph.nodes.values()).filter(n => getNetworkKind(n) === 'edge').length,
+            algorithm: 'network-topology'
+          }
+        }
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error during layout'
+      };
+    }
+  }
+
+  // Measure bottom-up, then place top-down starting where the diagram currently begins
+  private computeLayout(graph: CanvasGraph, settings: LayoutSettings): ComputedLayout {
+    const layout: ComputedLayout = { positions: new Map(), sizes: new Map(), resized: [] };
+
+    const roots = graph.roots.map(id => graph.nodes.get(id)).filter((n): n is CanvasNode => !!n);
+    const rootBoxes = sortByPosition(roots).map(node => this.measure(node, graph, settings));
+    const rows = this.groupIntoRows(rootBoxes, 'page', settings);
+
+    const origin = {
+      x: Math.min(...roots.map(n => n.bounds.x)),
+      y: Math.min(...roots.map(n => n.bounds.y))
+    };
+    const width = Math.max(...rows.map(row => row.w));
+
+    let y = origin.y;
+    for (const row of rows) {
+      this.placeRow(row, origin.x + (width - row.w) / 2, y, settings, layout);
+      y += row.h + settings.spacing * 2;
+    }
+
+    return layout;
+  }
+
+  private measure(node: CanvasNode, graph: CanvasGraph, settings: LayoutSettings): LayoutBox {
+    const kind = getNetworkKind(node);
+    const current = { w: node.bounds.w || DEFAULT_SIZE.w, h: node.bounds.h || DEFAULT_SIZE.h };
+
+    if (!node.isContainer || node.children.length === 0) {
+      return { node, kind, w: current.w, h: current.h, rows: [] };
+    }
+
+    const children = sortByPosition(
+      node.children.map(id => graph.nodes.get(id)).filter((n): n is CanvasNode => !!n)
+    );
+    const childBoxes = children.map(child => this.measure(child, graph, settings));
+    const rows = this.groupIntoRows(childBoxes, kind, settings);
+
+    const contentWidth = Math.max(...rows.map(row => row.w));
+    const contentHeight = rows.reduce((sum, row) => sum + row.h, 0) + settings.spacing * (rows.length - 1);
+    const required = {
+      w: contentWidth + settings.padding * 2,
+      h: contentHeight + settings.headerHeight + settings.padding
+    };
+
+    return {
+      node,
+      kind,
+      w: settings.shrinkContainers ? required.w : Math.max(required.w, current.w),
+      h: settings.shrinkContainers ? required.h : Math.max(required.h, current.h),
+      rows
+    };
+  }
+
+  // Edge nodes first, then AZs side by side, public subnets above private ones, then everything else
+  private groupIntoRows(boxes: LayoutBox[], parentKind: NetworkKind | 'page', settings: LayoutSettings): LayoutRow[] {
+    const edge = boxes.filter(b => b.kind === 'edge').sort((a, b) => edgeRank(a.node) - edgeRank(b.node));
+    const zones = boxes.filter(b => b.kind === 'availability-zone');
+    const vpcs = boxes.filter(b => b.kind === 'vpc');
+    const subnets = boxes.filter(b => b.kind === 'subnet');
+    const isPublic = (box: LayoutBox) => isPublicSubnet({ name: box.node.label, properties: box.node.properties });
+    const publicSubnets = subnets.filter(isPublic);
+    const privateSubnets = subnets.filter(b => !isPublic(b));
+    const containers = boxes.filter(b => b.kind === 'container');
+    const resources = boxes.filter(b => b.kind === 'resource');
+
+    // Zones in the same VPC share a height so their subnets line up
+    stretch(zones, 'h');
+
+    const rows: LayoutRow[] = [];
+    const addRow = (items: LayoutBox[]) => {
+      if (items.length > 0) rows.push(makeRow(items, settings.spacing));
+    };
+
+    addRow(edge);
+    addRow(vpcs);
+    addRow(zones);
+
+    if (parentKind === 'availability-zone') {
+      // Inside a zone subnets stack vertically at a common width
+      stretch(subnets, 'w');
+      [...publicSubnets, ...privateSubnets].forEach(subnet => addRow([subnet]));
+    } else {
+      addRow(publicSubnets);
+      addRow(privateSubnets);
+    }
+
+    addRow(containers);
+
+    const columns = Math.max(1, Math.ceil(Math.sqrt(resources.length)));
+    for (let i = 0; i < resources.length; i += columns) {
+      addRow(resources.slice(i, i + columns));
+    }
+
+    return rows;
+  }
+
+  private placeRow(row: LayoutRow, x: number, y: number, settings: LayoutSettings, layout: ComputedLayout): void {
+    let cursor = x;
+    for (const item of row.items) {
+      this.place(item, cursor, y, settings, layout);
+      cursor += item.w + settings.spacing;
+    }
+  }
+
+  private place(box: LayoutBox, x: number, y: number, settings: LayoutSettings, layout: ComputedLayout): void {
+    layout.positions.set(box.node.id, { x, y });
+    if (box.node.isContainer) {
+      layout.sizes.set(box.node.id, { w: box.w, h: box.h });
+      if (box.w !== box.node.bounds.w || box.h !== box.node.bounds.h) {
+        layout.resized.push(box.node.id);
+      }
+    }
+
+    let rowY = y + settings.headerHeight;
+    for (const row of box.rows) {
+      this.placeRow(row, x + (box.w - row.w) / 2, rowY, settings, layout);
+      rowY += row.h + settings.spacing;
+    }
+  }
+
+  private buildUpdates(graph: CanvasGraph, layout: ComputedLayout) {
+    const { canvas } = this.context as ToolContext;
+    const updates: { id: TLShapeId; type: string; x: number; y: number; props?: { w: number; h: number } }[] = [];
+
+    for (const [id, position] of layout.positions) {
+      const node = graph.nodes.get(id);
+      if (!node) continue;
+
+      const size = layout.sizes.get(id);
+      updates.push({
+        id: node.shape.id,
+        type: node.shape.type,
+        ...toParentSpace(canvas, graph, node, position, parentId => layout.positions.get(parentId)),
+        ...(size ? { props: size } : {})
+      });
+    }
+
+    return updates;
+  }
+}
+
+const DEFAULT_SIZE = { w: 120, h: 80 };
+
+function getNetworkKind(node: CanvasNode): NetworkKind {
+  const id = node.metadata?.id || node.componentId;
+
+  if (node.isContainer) {
+    if (node.type === 'vpc' || id === 'generic-vpc' || id === 'vpc') return 'vpc';
+    if (node.type === 'availability-zone' || id.endsWith('availability-zone')) return 'availability-zone';
+    if (node.type === 'subnet' || id === 'generic-subnet' || id === 'subnet') return 'subnet';
+    return 'container';
+  }
+
+  return edgeRank(node) < EDGE_RANKS.none ? 'edge' : 'resource';
+}
+
+const EDGE_RANKS = { user: 0, cdn: 1, loadBalancer: 2, none: 3 };
+
+// Outermost first: users and external systems, then CDNs, then load balancers
+function edgeRank(node: CanvasNode): number {
+  const id = node.metadata?.id || node.componentId;
+  const subcategory = node.metadata?.subcategory;
+
+  if (node.type === 'user' || node.type === 'external-system' || node.category === ComponentCategory.EXTERNAL) {
+    return EDGE_RANKS.user;
+  }
+  if (subcategory === ComponentSubcategory.CDN || /cdn|cloudfront/.test(id)) {
+    return EDGE_RANKS.cdn;
+  }
+  if (subcategory === ComponentSubcategory.LOAD_BALANCER || /load-balanc|alb|application-gateway/.test(id)) {
+    return EDGE_RANKS.loadBalancer;
+  }
+  return EDGE_RANKS.none;
+}
+
+// Keep the user's reading order (top to bottom, left to right) among equals
+function sortByPosition(nodes: CanvasNode[]): CanvasNode[] {
+  return [...nodes].sort((a, b) => a.bounds.y - b.bounds.y || a.bounds.x - b.bounds.x);
+}
+
+function stretch(boxes: LayoutBox[], dimension: 'w' | 'h'): void {
+  const max = Math.max(0, ...boxes.map(b => b[dimension]));
+  for (const box of boxes) {
+    box[dimension] = max;
+  }
+}
+
+function makeRow(items: LayoutBox[], spacing: number): LayoutRow {
+  return {
+    items,
+    w: items.reduce((sum, item) => sum + item.w, 0) + spacing * (items.length - 1),
+    h: Math.max(...items.map(item => item.h))
+  };
+}
+
+// Helper types
+type NetworkKind = 'vpc' | 'availability-zone' | 'subnet' | 'container' | 'edge' | 'resource';
+
+interface LayoutSettings {
+  spacing: number;
+  padding: number;
+  headerHeight: number;
+  shrinkContainers: boolean;
+}
+
+interface LayoutBox {
+  node: CanvasNode;
+  kind: NetworkKind;
+  w: number;
+  h: number;
+  rows: LayoutRow[];
+}
+
+interface LayoutRow {
+  items: LayoutBox[];
+  w: number;
+  h: number;
+}
+
+interface ComputedLayout {
+  positions: Map<string, { x: number; y: number }>;
+  sizes: Map<string, { w: number; h: number }>;
+  resized: string[];
+}
@@ -0,0 +1,114 @@
+import { Editor, TLShapeId, createShapeId } from 'tldraw';
+import { createEditor } from '../../test-editor';
+import { ToolContext, ToolParams } from '../core/plugin-system';
+import { DEFAULT_TIER_RULES, SWIMLANE_META_KEY, SwimlaneLayoutTool, validateTierRules } from './swimlane-layout';
+
+function addShape(
+  editor: Editor,
+  type: string,
+  componentId: string,
+  label: string,
+  x: number,
+  parentId?: TLShapeId,
+  meta: Record<string, string> = {}
+): TLShapeId {
+  const id = createShapeId(label.replace(/\W/g, '-'));
+  const isBoundingBox = type === 'vpc' || type === 'subnet';
+  editor.createShape({
+    id,
+    type,
+    x,
+    y: 0,
+    parentId,
+    meta,
+    props: { w: isBoundingBox ? 300 : 100, h: isBoundingBox ? 200 : 80, label, componentId, isBoundingBox }
+  });
+  return id;
+}
+
+async function runLayout(editor: Editor, params: ToolParams = {}) {
+  const tool = new SwimlaneLayoutTool();
+  await tool.initialize({ canvas: editor, shapes: [] } as unknown as ToolContext);
+  return tool.execute(params);
+}
+
+function laneShapes(editor: Editor): string[] {
+  return editor.getCurrentPageShapes()
+    .filter(shape => shape.meta?.[SWIMLANE_META_KEY])
+    .map(shape => String(shape.meta[SWIMLANE_META_KEY]));
+}
+
+describe('SwimlaneLayoutTool', () => {
+  function drawShop(editor: Editor, webMeta: Record<string, string> = {}) {
+    return {
+      db: addShape(editor, 'database', 'generic-database', 'Orders', 0),
+      web: addShape(editor, 'compute', 'generic-compute', 'Web', 150, undefined, webMeta),
+      lb: addShape(editor, 'compute', 'generic-load-balancer', 'LB', 300),
+      user: addShape(editor, 'user', 'generic-user', 'Customer', 450),
+      bucket: addShape(editor, 'storage', 'generic-storage', 'Assets', 600)
+    };
+  }
+
+  it('stacks shapes in lanes by tier and draws a locked background per lane', async () => {
+    const editor = createEditor();
+    const { db, web, lb, user, bucket } = drawShop(editor);
+
+    const result = await runLayout(editor);
+    const y = (id: TLShapeId) => editor.getShapePageBounds(id)?.y ?? NaN;
+
+    expect(result.success).toBe(true);
+    expect(result.data.lanes).toEqual({ edge: 1, presentation: 1, application: 1, data: 1, 'storage-analytics': 1 });
+    expect(y(user)).toBeLessThan(y(lb));
+    expect(y(lb)).toBeLessThan(y(web));
+    expect(y(web)).toBeLessThan(y(db));
+    expect(y(db)).toBeLessThan(y(bucket));
+    expect(laneShapes(editor)).toEqual(['edge', 'presentation', 'application', 'data', 'storage-analytics']);
+    expect(editor.getCurrentPageShapes().filter(shape => shape.meta?.[SWIMLANE_META_KEY]).every(shape => shape.isLocked)).toBe(true);
+  });
+
+  it('replaces the lane backgrounds of an earlier run and can lay lanes out as columns', async () => {
+    const editor = createEditor();
+    const { user, lb } = drawShop(editor);
+
+    await runLayout(editor);
+    await runLayout(editor, { orientation: 'columns' });
+
+    expect(laneShapes(editor)).toHaveLength(5);
+    expect(editor.getShapePageBounds(user)?.x ?? NaN).toBeLessThan(editor.getShapePageBounds(lb)?.x ?? NaN);
+  });
+
+  it('follows a tier override on the shape, by lane id or label', async () => {
+    const editor = createEditor();
+    const { db, web } = drawShop(editor, { tier: 'Data' });
+
+    const result = await runLayout(editor, { drawLanes: false });
+
+    expect(result.data.lanes).toEqual({ edge: 1, presentation: 1, data: 2, 'storage-analytics': 1 });
+    expect(editor.getShapePageBounds(web)?.y).toBe(editor.getShapePageBounds(db)?.y);
+    expect(laneShapes(editor)).toEqual([]);
+  });
+
+  it('moves a container to the lane most of its contents belong to and reports mixed ones', async () => {
+    const editor = createEditor();
+    const user = addShape(editor, 'user', 'generic-user', 'Customer', 0);
+    const subnet = addShape(editor, 'subnet', 'generic-subnet', 'App Subnet', 400);
+    addShape(editor, 'compute', 'generic-compute', 'Web', 20, subnet);
+    addShape(editor, 'compute', 'generic-compute', 'Worker', 140, subnet);
+    addShape(editor, 'database', 'generic-database', 'Cache', 20, subnet);
+
+    const result = await runLayout(editor, { drawLanes: false });
+
+    expect(result.data.lanes).toEqual({ edge: 1, application: 1 });
+    expect(result.data.mixedContainers).toEqual([subnet]);
+    expect(editor.getShapePageBounds(user)?.y ?? NaN).toBeLessThan(editor.getShapePageBounds(subnet)?.y ?? NaN);
+  });
+
+  it('rejects unknown orientations and rules that name missing lanes', async () => {
+    const editor = createEditor();
+    drawShop(editor);
+
+    expect(await runLayout(editor, { orientation: 'diagonal' })).toEqual({ success: false, error: 'Unsupported lane orientation: diagonal' });
+    expect((await runLayout(editor, { rules: { ...DEFAULT_TIER_RULES, fallbackLane: 'misc' } })).error).toBe('Tier rules fallback lane is not a lane: misc');
+    expect(() => validateTierRules({ ...DEFAULT_TIER_RULES, rules: [{ lane: 'cache' }] })).toThrow('Tier rule refers to unknown lane: cache');
+  });
+});
@@ -0,0 +1,458 @@
+import { InfraToolPlugin, ToolCategory, ToolContext, ToolParams, ToolResult } from '../core/plugin-system';
+import { TLDefaultColorStyle, TLShapeId, createShapeId, toRichText } from 'tldraw';
+import { ComponentRegistry } from '../../components/core/component-registry';
+import { CanvasGraph, CanvasNode, buildCanvasGraph, getLiveShapes } from '../core/canvas-graph';
+import { rerouteArrows } from './edge-routing';
+
+// A lane in the tiered layout, in flow order
+export interface TierLane {
+  id: string;
+  label: string;
+  color: TLDefaultColorStyle;
+}
+
+// Shapes matching any of the listed categories, subcategories or component IDs go to `lane`.
+// Component IDs may end in `*` to match a prefix. Rules are tried in order; the first match wins.
+export interface TierRule {
+  lane: string;
+  categories?: string[];
+  subcategories?: string[];
+  componentIds?: string[];
+}
+
+export interface TierRules {
+  lanes: TierLane[];
+  rules: TierRule[];
+  fallbackLane: string;
+}
+
+// Shape property that pins a shape (or a whole container) to a lane in this diagram
+export const TIER_OVERRIDE_PROPERTY = 'tier';
+
+// Meta key marking the lane background shapes drawn by the layout
+export const SWIMLANE_META_KEY = 'swimlane';
+
+export const DEFAULT_TIER_RULES: TierRules = {
+  lanes: [
+    { id: 'edge', label: 'Edge & Users', color: 'violet' },
+    { id: 'presentation', label: 'Presentation', color: 'light-blue' },
+    { id: 'application', label: 'Application', color: 'green' },
+    { id: 'data', label: 'Data', color: 'orange' },
+    { id: 'storage-analytics', label: 'Storage & Analytics', color: 'yellow' }
+  ],
+  rules: [
+    {
+      lane: 'edge',
+      categories: ['external', 'edge', 'iot'],
+      subcategories: ['cdn', 'dns'],
+      componentIds: ['generic-user', 'generic-external-system']
+    },
+    { lane: 'presentation', categories: ['api-gateway'], subcategories: ['load-balancer'] },
+    {
+      lane: 'storage-analytics',
+      categories: ['storage', 'analytics', 'data-processing', 'streaming', 'ai-ml'],
+      subcategories: ['data-warehouse', 'object-storage', 'block-storage', 'file-storage', 'backup']
+    },
+    { lane: 'data', categories: ['database'] },
+    {
+      lane: 'application',
+      categories: ['compute', 'serverless', 'containers', 'messaging', 'integration']
+    }
+  ],
+  fallbackLane: 'application'
+};
+
+export class SwimlaneLayoutTool implements InfraToolPlugin {
+  id = 'swimlane-layout';
+  name = 'Tiered Swimlane Layout';
+  description = 'Arrange components into lanes by architectural tier: edge, presentation, application, data, storage and analytics';
+  category = ToolCategory.LAYOUT;
+  version = '1.0.0';
+
+  private context?: ToolContext;
+
+  async initialize(context: ToolContext): Promise<void> {
+    this.context = context;
+    await ComponentRegistry.getInstance().initialize();
+    console.log('🏊 Swimlane Layout Tool initialized');
+  }
+
+  async execute(params: ToolParams): Promise<ToolResult> {
+    const {
+      orientation = 'rows',
+      spacing = 40,
+      lanePadding = 30,
+      laneGap = 10,
+      labelSpace = orientation === 'rows' ? 160 : 50,
+      drawLanes = true,
+      showEmptyLanes = false
+    } = params;
+
+    if (!this.context) {
+      return {
+        success: false,
+        error: 'Tool not initialized'
+      };
+    }
+
+    if (orientation !== 'rows' && orientation !== 'columns') {
+      return {
+        success: false,
+        error: `Unsupported lane orientation: ${orientation}`
+      };
+    }
+
+    try {
+      const startTime = Date.now();
+      const { canvas } = this.context;
+
+      // Team rules come from the call, then the tool settings, then the defaults
+      const rules: TierRules = params.rules || this.context.settings?.customSettings?.tierRules || DEFAULT_TIER_RULES;
+      validateTierRules(rules);
+
+      const graph = buildCanvasGraph(canvas, getLiveShapes(this.context));
+      if (graph.nodes.size === 0) {
+        return {
+          success: false,
+          error: 'No infrastructure shapes found to layout'
+        };
+      }
+
+      const settings: LaneSettings = { orientation, spacing, lanePadding, laneGap, labelSpace, showEmptyLanes };
+      const assignment = assignLanes(graph, rules);
+      const layout = this.computeLayout(graph, rules, assignment.lanes, settings);
+
+      // One history entry so a single undo restores the previous arrangement
+      canvas.markHistoryStoppingPoint('swimlane-layout');
+      canvas.batch(() => {
+        canvas.updateShapes(this.buildUpdates(graph, layout.moves));
+        if (drawLanes) {
+          this.drawLanes(layout.bands, settings);
+        }
+        rerouteArrows(canvas);
+      });
+
+      const executionTime = Date.now() - startTime;
+      const perLane = Object.fromEntries(layout.bands.map(band => [band.lane.id, band.items]));
+
+      return {
+        success: true,
+        data: {
+          shapesProcessed: layout.moves.size,
+          lanes: perLane,
+          mixedContainers: assignment.mixed,
+          layout: 'swimlane',
+          orientation
+        },
+        metadata: {
+          executionTime,
+          processingStats: {
+            shapesProcessed: layout.moves.size,
+            lanesDrawn: drawLanes ? layout.bands.length : 0,
+            overrides: assignment.overrides,
+            mixedContainers: assignment.mixed.length,
+            algorithm: 'tiered-swimlane'
+          }
+        }
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error during layout'
+      };
+    }
+  }
+
+  // Lanes stack across the flow; inside a lane, shapes follow the barycenter of what they
+  // connect to in earlier lanes so arrows between tiers run as straight as possible
+  private computeLayout(
+    graph: CanvasGraph,
+    rules: TierRules,
+    lanes: Map<string, string>,
+    settings: LaneSettings
+  ): LaneLayout {
+    const rows = settings.orientation === 'rows';
+    const mainOf = (node: CanvasNode) => (rows ? node.bounds.w : node.bounds.h) || DEFAULT_SIZE.w;
+    const crossOf = (node: CanvasNode) => (rows ? node.bounds.h : node.bounds.w) || DEFAULT_SIZE.h;
+    const currentMain = (node: CanvasNode) => (rows ? node.bounds.x : node.bounds.y) + mainOf(node) / 2;
+
+    const roots = graph.roots.map(id => graph.nodes.get(id)).filter((n): n is CanvasNode => !!n);
+    const neighbours = liftConnections(graph);
+    const origin = {
+      x: Math.min(...roots.map(n => n.bounds.x)),
+      y: Math.min(...roots.map(n => n.bounds.y))
+    };
+    const originMain = rows ? origin.x : origin.y;
+
+    // Order and pack each lane along the main axis
+    const placedCenter = new Map<string, number>();
+    const packed: { lane: TierLane; nodes: CanvasNode[]; starts: number[]; length: number }[] = [];
+    for (const lane of rules.lanes) {
+      const members = roots.filter(node => lanes.get(node.id) === lane.id);
+      if (members.length === 0 && !settings.showEmptyLanes) continue;
+
+      const key = new Map(members.map(node => {
+        const placed = (neighbours.get(node.id) || []).filter(id => placedCenter.has(id));
+        const barycenter = placed.length > 0
+          ? placed.reduce((sum, id) => sum + (placedCenter.get(id) || 0), 0) / placed.length
+          : currentMain(node) - originMain;
+        return [node.id, barycenter];
+      }));
+      members.sort((a, b) => (key.get(a.id) || 0) - (key.get(b.id) || 0));
+
+      const starts: number[] = [];
+      let cursor = 0;
+      for (const node of members) {
+        starts.push(cursor);
+        placedCenter.set(node.id, cursor + mainOf(node) / 2);
+        cursor += mainOf(node) + settings.spacing;
+      }
+      packed.push({ lane, nodes: members, starts, length: Math.max(0, cursor - settings.spacing) });
+    }
+
+    // Lanes share one length and center their contents
+    const contentLength = Math.max(DEFAULT_SIZE.w, ...packed.map(p => p.length));
+    const bandLength = settings.labelSpace + contentLength + settings.lanePadding * 2;
+
+    const moves = new Map<string, { x: number; y: number }>();
+    const bands: LaneBand[] = [];
+    let laneStart = rows ? origin.y : origin.x;
+
+    for (const { lane, nodes, starts, length } of packed) {
+      const thickness = Math.max(DEFAULT_SIZE.h, ...nodes.map(crossOf)) + settings.lanePadding * 2;
+      const offset = originMain + settings.labelSpace + settings.lanePadding + (contentLength - length) / 2;
+
+      for (let index = 0; index < nodes.length; index++) {
+        const main = offset + starts[index];
+        const cross = laneStart + (thickness - crossOf(nodes[index])) / 2;
+        moves.set(nodes[index].id, rows ? { x: main, y: cross } : { x: cross, y: main });
+      }
+
+      bands.push({
+        lane,
+        items: nodes.length,
+        x: rows ? origin.x : laneStart,
+        y: rows ? laneStart : origin.y,
+        w: rows ? bandLength : thickness,
+        h: rows ? thickness : bandLength
+      });
+      laneStart += thickness + settings.laneGap;
+    }
+
+    return { moves, bands };
+  }
+
+  // Top-level shapes move as a whole; descendants that aren't tldraw children of a moved
+  // shape are shifted by the same amount so containers stay intact
+  private buildUpdates(graph: CanvasGraph, moves: Map<string, { x: number; y: number }>) {
+    const updates: { id: TLShapeId; type: string; x: number; y: number }[] = [];
+
+    const shift = (node: CanvasNode, dx: number, dy: number) => {
+      updates.push({ id: node.shape.id, type: node.shape.type, x: node.shape.x + dx, y: node.shape.y + dy });
+    };
+
+    for (const [id, target] of moves) {
+      const root = graph.nodes.get(id);
+      if (!root) continue;
+
+      const dx = target.x - root.bounds.x;
+      const dy = target.y - root.bounds.y;
+      if (dx === 0 && dy === 0) continue;
+      shift(root, dx, dy);
+
+      const pending = [...root.children];
+      while (pending.length > 0) {
+        const node = graph.nodes.get(pending.pop() as string);
+        if (!node) continue;
+        if (!graph.nodes.has(node.shape.parentId)) shift(node, dx, dy);
+        pending.push(...node.children);
+      }
+    }
+
+    return updates;
+  }
+
+  // Replace the lane backgrounds from a previous run and keep them locked behind the diagram
+  private drawLanes(bands: LaneBand[], settings: LaneSettings): void {
+    const { canvas } = this.context as ToolContext;
+
+    const previous = canvas.getCurrentPageShapes()
+      .filter((shape: { meta?: Record<string, unknown> }) => shape.meta?.[SWIMLANE_META_KEY])
+      .map((shape: { id: TLShapeId }) => shape.id);
+    canvas.run(() => canvas.deleteShapes(previous), { ignoreShapeLock: true });
+
+    const ids = bands.map(() => createShapeId());
+    canvas.createShapes(bands.map((band, index) => ({
+      id: ids[index],
+      type: 'geo',
+      x: band.x,
+      y: band.y,
+      isLocked: true,
+      props: {
+        geo: 'rectangle',
+        w: band.w,
+        h: band.h,
+        color: band.lane.color,
+        fill: 'semi',
+        dash: 'dashed',
+        size: 's',
+        align: 'start',
+        verticalAlign: settings.orientation === 'rows' ? 'middle' : 'start',
+        richText: toRichText(band.lane.label)
+      },
+      meta: { [SWIMLANE_META_KEY]: band.lane.id }
+    })));
+    canvas.run(() => canvas.sendToBack(ids), { ignoreShapeLock: true });
+  }
+}
+
+// Throw on rules that can't be applied, naming the offending entry
+export function validateTierRules(rules: TierRules): void {
+  if (!rules || !Array.isArray(rules.lanes) || rules.lanes.length === 0) {
+    throw new Error('Tier rules need at least one lane');
+  }
+
+  const laneIds = new Set<string>();
+  for (const lane of rules.lanes) {
+    if (!lane.id || laneIds.has(lane.id)) {
+      throw new Error(`Tier rules have a missing or duplicate lane id: ${lane.id}`);
+    }
+    laneIds.add(lane.id);
+  }
+
+  for (const rule of rules.rules || []) {
+    if (!laneIds.has(rule.lane)) {
+      throw new Error(`Tier rule refers to unknown lane: ${rule.lane}`);
+    }
+  }
+  if (!laneIds.has(rules.fallbackLane)) {
+    throw new Error(`Tier rules fallback lane is not a lane: ${rules.fallbackLane}`);
+  }
+}
+
+// Lane for a single shape: its override, else the first matching rule, else the fallback
+export function getTierLane(node: CanvasNode, rules: TierRules): string {
+  const override = getOverride(node, rules);
+  if (override) return override;
+
+  const componentId = node.metadata?.id || node.componentId;
+  const rule = rules.rules.find(r =>
+    (node.category && r.categories?.includes(node.category)) ||
+    (node.metadata?.subcategory && r.subcategories?.includes(node.metadata.subcategory)) ||
+    r.componentIds?.some(pattern =>
+      pattern.endsWith('*') ? componentId.startsWith(pattern.slice(0, -1)) : componentId === pattern
+    )
+  );
+  return rule ? rule.lane : rules.fallbackLane;
+}
+
+// Overrides may name a lane by id or by label
+function getOverride(node: CanvasNode, rules: TierRules): string | undefined {
+  const value = node.properties[TIER_OVERRIDE_PROPERTY];
+  if (typeof value !== 'string' || !value.trim()) return undefined;
+
+  const wanted = value.trim().toLowerCase();
+  return rules.lanes.find(lane => lane.id.toLowerCase() === wanted || lane.label.toLowerCase() === wanted)?.id;
+}
+
+// Top-level shapes get a lane each. A container goes where most of its contents belong,
+// unless it is pinned itself; containers whose contents span several lanes are reported.
+function assignLanes(graph: CanvasGraph, rules: TierRules): LaneAssignment {
+  const lanes = new Map<string, string>();
+  const mixed: string[] = [];
+  let overrides = 0;
+
+  for (const node of graph.nodes.values()) {
+    if (getOverride(node, rules)) overrides++;
+  }
+
+  const laneOrder = new Map(rules.lanes.map((lane, index) => [lane.id, index]));
+  const vote = (node: CanvasNode, inherited: string | undefined, votes: Map<string, number>) => {
+    const pinned = getOverride(node, rules) || inherited;
+    if (node.children.length === 0) {
+      const lane = pinned || getTierLane(node, rules);
+      votes.set(lane, (votes.get(lane) || 0) + 1);
+      return;
+    }
+    for (const childId of node.children) {
+      const child = graph.nodes.get(childId);
+      if (child) vote(child, pinned, votes);
+    }
+  };
+
+  for (const id of graph.roots) {
+    const root = graph.nodes.get(id);
+    if (!root) continue;
+
+    const override = getOverride(root, rules);
+    if (override || root.children.length === 0) {
+      lanes.set(id, override || getTierLane(root, rules));
+      continue;
+    }
+
+    const votes = new Map<string, number>();
+    vote(root, undefined, votes);
+    const ranked = Array.from(votes.entries()).sort(
+      (a, b) => b[1] - a[1] || (laneOrder.get(a[0]) || 0) - (laneOrder.get(b[0]) || 0)
+    );
+    lanes.set(id, ranked[0][0]);
+    if (ranked.length > 1) mixed.push(id);
+  }
+
+  return { lanes, mixed, overrides };
+}
+
+// Connections between top-level shapes, from arrows anywhere inside them
+function liftConnections(graph: CanvasGraph): Map<string, string[]> {
+  const rootOf = (id: string) => {
+    let current = graph.nodes.get(id);
+    const seen = new Set<string>();
+    while (current?.parentId && !seen.has(current.id)) {
+      seen.add(current.id);
+      current = graph.nodes.get(current.parentId);
+    }
+    return current?.id;
+  };
+
+  const neighbours = new Map<string, string[]>();
+  for (const connection of graph.connections) {
+    const from = rootOf(connection.from);
+    const to = rootOf(connection.to);
+    if (!from || !to || from === to) continue;
+    neighbours.set(from, [...(neighbours.get(from) || []), to]);
+    neighbours.set(to, [...(neighbours.get(to) || []), from]);
+  }
+  return neighbours;
+}
+
+const DEFAULT_SIZE = { w: 120, h: 80 };
+
+// Helper interfaces
+interface LaneSettings {
+  orientation: 'rows' | 'columns';
+  spacing: number;
+  lanePadding: number;
+  laneGap: number;
+  labelSpace: number;
+  showEmptyLanes: boolean;
+}
+
+interface LaneAssignment {
+  lanes: Map<string, string>;
+  mixed: string[];
+  overrides: number;
+}
+
+interface LaneBand {
+  lane: TierLane;
+  items: number;
+  x: number;
+  y: number;
+  w: number;
+  h: number;
+}
+
+interface LaneLayout {
+  moves: Map<string, { x: number; y: number }>;
+  bands: LaneBand[];
+}
@@ -0,0 +1,106 @@
+import { Editor, TLArrowBinding, TLShapeId, createShapeId } from 'tldraw';
+import { createEditor } from '../../test-editor';
+import { ToolContext } from '../core/plugin-system';
+import { ArchitectureFinding, ArchitectureRule, ArchitectureValidatorTool } from './architecture-validator';
+
+function addShape(
+  editor: Editor,
+  type: string,
+  componentId: string,
+  label: string,
+  bounds: { x: number; y: number; w: number; h: number },
+  parentId?: TLShapeId
+): TLShapeId {
+  const id = createShapeId(label.replace(/\W/g, '-'));
+  editor.createShape({
+    id,
+    type,
+    x: bounds.x,
+    y: bounds.y,
+    parentId,
+    props: { w: bounds.w, h: bounds.h, label, componentId, isBoundingBox: type === 'vpc' || type === 'subnet' }
+  });
+  return id;
+}
+
+function addArrow(editor: Editor, from: TLShapeId, to: TLShapeId): TLShapeId {
+  const id = createShapeId(`${from}-${to}`);
+  editor.createShape({ id, type: 'arrow', props: { start: { x: 0, y: 0 }, end: { x: 100, y: 0 } } });
+  const binding = (terminal: 'start' | 'end'): TLArrowBinding['props'] =>
+    ({ terminal, normalizedAnchor: { x: 0.5, y: 0.5 }, isExact: false, isPrecise: false, snap: 'none' });
+  editor.createBindings<TLArrowBinding>([
+    { type: 'arrow', fromId: id, toId: from, props: binding('start') },
+    { type: 'arrow', fromId: id, toId: to, props: binding('end') }
+  ]);
+  return id;
+}
+
+async function validate(editor: Editor, rules: ArchitectureRule[]): Promise<ArchitectureFinding[]> {
+  const tool = new ArchitectureValidatorTool();
+  await tool.initialize({ canvas: editor, shapes: [] } as unknown as ToolContext);
+  const result = await tool.execute({ rules });
+  return (result.data as { findings: ArchitectureFinding[] }).findings;
+}
+
+describe('ArchitectureValidatorTool', () => {
+  let editor: Editor;
+  let vpc: TLShapeId;
+  let subnet: TLShapeId;
+
+  beforeEach(() => {
+    editor = createEditor();
+    vpc = addShape(editor, 'vpc', 'generic-vpc', 'VPC', { x: 0, y: 0, w: 800, h: 600 });
+    subnet = addShape(editor, 'subnet', 'generic-subnet', 'Subnet', { x: 40, y: 60, w: 500, h: 400 }, vpc);
+  });
+
+  it('warns about resources no arrow reaches', async () => {
+    const web = addShape(editor, 'compute', 'generic-compute', 'Web', { x: 20, y: 40, w: 100, h: 80 }, subnet);
+    const db = addShape(editor, 'database', 'generic-database', 'Orders', { x: 200, y: 40, w: 100, h: 80 }, subnet);
+    addShape(editor, 'storage', 'generic-storage', 'Assets', { x: 20, y: 200, w: 100, h: 80 }, subnet);
+    addArrow(editor, web, db);
+
+    const findings = await validate(editor, ['orphaned-resource']);
+
+    expect(findings.map(f => [f.severity, f.message])).toEqual([['warning', 'Assets is not connected to any other component']]);
+  });
+
+  it('warns about network resources drawn outside a VPC or subnet', async () => {
+    addShape(editor, 'compute', 'generic-compute', 'Web', { x: 20, y: 40, w: 100, h: 80 }, subnet);
+    const stray = addShape(editor, 'compute', 'generic-compute', 'Stray', { x: 1000, y: 0, w: 100, h: 80 });
+    addShape(editor, 'user', 'generic-user', 'User', { x: 1200, y: 0, w: 100, h: 80 });
+
+    const findings = await validate(editor, ['outside-network']);
+
+    expect(findings.map(f => [f.message, f.shapeIds])).toEqual([['Stray is not placed inside a VPC or subnet', [stray]]]);
+  });
+
+  it('rejects arrows between components neither of which allows the other', async () => {
+    const web = addShape(editor, 'compute', 'generic-compute', 'Web', { x: 20, y: 40, w: 100, h: 80 }, subnet);
+    const db = addShape(editor, 'database', 'generic-database', 'Orders', { x: 200, y: 40, w: 100, h: 80 }, subnet);
+    const partner = addShape(editor, 'external-system', 'generic-external-system', 'Partner', { x: 1000, y: 0, w: 100, h: 80 });
+    addArrow(editor, web, db);
+    const arrow = addArrow(editor, partner, db);
+
+    const findings = await validate(editor, ['forbidden-connection']);
+
+    expect(findings).toMatchObject([
+      {
+        severity: 'error',
+        message: 'Partner (external) cannot connect to Orders (database)',
+        shapeIds: [partner, db],
+        arrowId: arrow
+      }
+    ]);
+  });
+
+  it('rejects components placed in a container their category does not allow', async () => {
+    addShape(editor, 'compute', 'generic-compute', 'Web', { x: 20, y: 40, w: 100, h: 80 }, subnet);
+    const user = addShape(editor, 'user', 'generic-user', 'User', { x: 600, y: 60, w: 100, h: 80 }, vpc);
+
+    const findings = await validate(editor, ['invalid-containment']);
+
+    expect(findings.map(f => [f.message, f.shapeIds])).toEqual([
+      ['User cannot be placed inside VPC (expected no container)', [user, vpc]]
+    ]);
+  });
+});
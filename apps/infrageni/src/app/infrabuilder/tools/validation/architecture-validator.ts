@@ -0,0 +1,218 @@
+import { InfraToolPlugin, ToolCategory, ToolContext, ToolParams, ToolResult } from '../core/plugin-system';
+import { ComponentRegistry } from '../../components/core/component-registry';
+import { ComponentCategory } from '../../components/core/component-types';
+import {
+  CanvasGraph,
+  CanvasNode,
+  buildCanvasGraph,
+  getAncestors,
+  getLiveShapes,
+  getNodeConnections
+} from '../core/canvas-graph';
+
+export class ArchitectureValidatorTool implements InfraToolPlugin {
+  id = 'architecture-validator';
+  name = 'Architecture Validator';
+  description = 'Check the canvas for orphaned resources, missing network placement, forbidden connections and invalid containment';
+  category = ToolCategory.VALIDATION;
+  version = '1.0.0';
+
+  private context?: ToolContext;
+
+  async initialize(context: ToolContext): Promise<void> {
+    this.context = context;
+    await ComponentRegistry.getInstance().initialize();
+    console.log('🧭 Architecture Validator Tool initialized');
+  }
+
+  async execute(params: ToolParams): Promise<ToolResult> {
+    const { rules = ALL_ARCHITECTURE_RULES } = params;
+
+    if (!this.context) {
+      return {
+        success: false,
+        error: 'Tool not initialized'
+      };
+    }
+
+    try {
+      const startTime = Date.now();
+      const graph = buildCanvasGraph(this.context.canvas, getLiveShapes(this.context));
+      const enabledRules = new Set<ArchitectureRule>(rules);
+      const findings: ArchitectureFinding[] = [];
+
+      if (enabledRules.has('orphaned-resource')) {
+        findings.push(...this.checkOrphanedResources(graph));
+      }
+      if (enabledRules.has('outside-network')) {
+        findings.push(...this.checkNetworkPlacement(graph));
+      }
+      if (enabledRules.has('forbidden-connection')) {
+        findings.push(...this.checkConnections(graph));
+      }
+      if (enabledRules.has('invalid-containment')) {
+        findings.push(...this.checkContainment(graph));
+      }
+
+      const errors = findings.filter(f => f.severity === 'error').length;
+      const warnings = findings.filter(f => f.severity === 'warning').length;
+
+      return {
+        success: true,
+        data: {
+          valid: errors === 0,
+          findings,
+          summary: {
+            errors,
+            warnings,
+            shapesChecked: graph.nodes.size,
+            connectionsChecked: graph.connections.length
+          }
+        },
+        metadata: {
+          executionTime: Date.now() - startTime,
+          processingStats: {
+            shapesChecked: graph.nodes.size,
+            connectionsChecked: graph.connections.length,
+            rules: Array.from(enabledRules)
+          }
+        }
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error during architecture validation'
+      };
+    }
+  }
+
+  // Resources that no arrow reaches are usually leftovers or missing wiring
+  private checkOrphanedResources(graph: CanvasGraph): ArchitectureFinding[] {
+    const findings: ArchitectureFinding[] = [];
+    const resources = Array.from(graph.nodes.values()).filter(node => !node.isContainer);
+
+    if (resources.length < 2) return findings;
+
+    for (const node of resources) {
+      if (getNodeConnections(graph, node.id).length === 0) {
+        findings.push({
+          rule: 'orphaned-resource',
+          severity: 'warning',
+          message: `${node.label} is not connected to any other component`,
+          shapeIds: [node.id],
+          suggestion: 'Connect it with an arrow or remove it from the diagram'
+        });
+      }
+    }
+
+    return findings;
+  }
+
+  // Components that belong in a network must sit inside a VPC or subnet
+  private checkNetworkPlacement(graph: CanvasGraph): ArchitectureFinding[] {
+    const findings: ArchitectureFinding[] = [];
+
+    for (const node of graph.nodes.values()) {
+      if (node.isContainer || !node.metadata) continue;
+
+      const allowedParents = node.metadata.config.canBeContainedBy;
+      if (!allowedParents.includes(ComponentCategory.NETWORK)) continue;
+
+      const inNetwork = getAncestors(graph, node.id).some(isNetworkContainer);
+      if (!inNetwork) {
+        findings.push({
+          rule: 'outside-network',
+          severity: 'warning',
+          message: `${node.label} is not placed inside a VPC or subnet`,
+          shapeIds: [node.id],
+          suggestion: 'Move it into the VPC or subnet it runs in'
+        });
+      }
+    }
+
+    return findings;
+  }
+
+  // Arrows are accepted when either end lists the other's category in allowedConnections
+  private checkConnections(graph: CanvasGraph): ArchitectureFinding[] {
+    const findings: ArchitectureFinding[] = [];
+
+    for (const connection of graph.connections) {
+      const from = graph.nodes.get(connection.from);
+      const to = graph.nodes.get(connection.to);
+      if (!from?.metadata || !to?.metadata || !from.category || !to.category) continue;
+
+      const allowed =
+        from.metadata.config.allowedConnections.includes(to.category) ||
+        to.metadata.config.allowedConnections.includes(from.category);
+
+      if (!allowed) {
+        findings.push({
+          rule: 'forbidden-connection',
+          severity: 'error',
+          message: `${from.label} (${from.category}) cannot connect to ${to.label} (${to.category})`,
+          shapeIds: [from.id, to.id],
+          arrowId: connection.id,
+          suggestion: 'Route the connection through a component both sides may talk to'
+        });
+      }
+    }
+
+    return findings;
+  }
+
+  // The direct container must be one of the categories listed in canBeContainedBy
+  private checkContainment(graph: CanvasGraph): ArchitectureFinding[] {
+    const findings: ArchitectureFinding[] = [];
+
+    for (const node of graph.nodes.values()) {
+      if (!node.parentId || !node.metadata) continue;
+
+      const parent = graph.nodes.get(node.parentId);
+      if (!parent?.category) continue;
+
+      const allowedParents = node.metadata.config.canBeContainedBy;
+      if (!allowedParents.includes(parent.category)) {
+        const expected = allowedParents.length > 0 ? allowedParents.join(', ') : 'no container';
+        findings.push({
+          rule: 'invalid-containment',
+          severity: 'error',
+          message: `${node.label} cannot be placed inside ${parent.label} (expected ${expected})`,
+          shapeIds: [node.id, parent.id],
+          suggestion: allowedParents.length > 0
+            ? `Move it into a ${allowedParents.join(' or ')} container`
+            : 'Move it out of the container'
+        });
+      }
+    }
+
+    return findings;
+  }
+}
+
+function isNetworkContainer(node: CanvasNode): boolean {
+  return node.isContainer && (node.type === 'vpc' || node.type === 'subnet' || node.category === ComponentCategory.NETWORK);
+}
+
+// Helper types
+export type ArchitectureRule =
+  | 'orphaned-resource'
+  | 'outside-network'
+  | 'forbidden-connection'
+  | 'invalid-containment';
+
+export const ALL_ARCHITECTURE_RULES: ArchitectureRule[] = [
+  'orphaned-resource',
+  'outside-network',
+  'forbidden-connection',
+  'invalid-containment'
+];
+
+export interface ArchitectureFinding {
+  rule: ArchitectureRule;
+  severity: 'error' | 'warning' | 'info';
+  message: string;
+  shapeIds: string[];
+  arrowId?: string;
+  suggestion?: string;
+}
@@ -0,0 +1,76 @@
+import { TLShape } from 'tldraw';
+import { ToolContext, ToolParams } from '../core/plugin-system';
+import { ComponentCostEstimate, CostEstimatorTool, UnpricedComponent } from './cost-estimator';
+
+// Shapes as the tool reads them when it has no editor to ask
+function shape(name: string, type: string, componentId: string, meta: Record<string, unknown> = {}, parentId = 'page:page'): TLShape {
+  return {
+    id: `shape:${name}`,
+    type,
+    x: 0,
+    y: 0,
+    parentId,
+    meta,
+    props: { w: 100, h: 80, label: name, componentId, isBoundingBox: type === 'vpc' }
+  } as unknown as TLShape;
+}
+
+interface Estimate {
+  monthlyTotal: number;
+  components: ComponentCostEstimate[];
+  unpriced: UnpricedComponent[];
+  warnings: string[];
+}
+
+async function estimate(shapes: TLShape[], params: ToolParams = {}): Promise<Estimate> {
+  const tool = new CostEstimatorTool();
+  await tool.initialize({ shapes, provider: 'aws' } as unknown as ToolContext);
+  const result = await tool.execute({ compare: false, ...params });
+  return result.data as Estimate;
+}
+
+describe('CostEstimatorTool', () => {
+  const stack = [
+    shape('vpc', 'vpc', 'generic-vpc'),
+    shape('web', 'compute', 'generic-compute', { instanceType: 't3.small' }, 'shape:vpc'),
+    shape('lb', 'compute', 'generic-load-balancer', {}, 'shape:vpc')
+  ];
+  const costOf = (data: Estimate, label: string) => data.components.find(c => c.label === label)?.monthlyCost;
+
+  it('prices a stack from the catalog, load balancer included', async () => {
+    const data = await estimate(stack);
+
+    expect(data.components.map(c => [c.label, c.service])).toEqual([
+      ['web', 'Amazon EC2'],
+      ['lb', 'Elastic Load Balancing']
+    ]);
+    // 730 hours of a t3.small, and 730 hours plus one capacity unit of a load balancer
+    expect(costOf(data, 'web')).toBeCloseTo(15.18, 2);
+    expect(costOf(data, 'lb')).toBeCloseTo(22.27, 1);
+    expect(data.monthlyTotal).toBeCloseTo(37.45, 1);
+    expect(data.unpriced).toEqual([]);
+    expect(data.warnings).toEqual([]);
+  });
+
+  it('applies the multiplier of the selected region', async () => {
+    const data = await estimate(stack, { region: 'eu-central-1' });
+
+    expect(costOf(data, 'web')).toBeCloseTo(15.184 * 1.15, 2);
+    expect(data.warnings).toEqual([]);
+  });
+
+  it('warns when the region is not in the catalog and prices it at the default region', async () => {
+    const data = await estimate(stack, { region: 'mars-1' });
+
+    expect(costOf(data, 'web')).toBeCloseTo(15.18, 2);
+    expect(data.warnings).toEqual(['Region "mars-1" is not in the AWS price table; priced at us-east-1 rates']);
+  });
+
+  it('lists components without a price mapping instead of pricing them at zero', async () => {
+    const data = await estimate([...stack, shape('queue', 'queue', 'aws-sqs')]);
+
+    expect(data.unpriced).toEqual([
+      { shapeId: 'shape:queue', label: 'queue', componentId: 'aws-sqs', reason: 'No price mapping for component "aws-sqs"' }
+    ]);
+  });
+});
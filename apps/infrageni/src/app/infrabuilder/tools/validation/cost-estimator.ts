@@ -0,0 +1,635 @@
+import { InfraToolPlugin, ToolCategory, ToolContext, ToolParams, ToolResult } from '../core/plugin-system';
+import { ComponentRegistry } from '../../components/core/component-registry';
+import { CostModel } from '../../patterns/core/pattern-types';
+import { CanvasGraph, CanvasNode, buildCanvasGraph, getLiveShapes } from '../core/canvas-graph';
+import {
+  COMPONENT_SERVICE_KINDS,
+  InstancePrice,
+  PRICE_CATALOG,
+  PricedProvider,
+  ProviderPriceTable,
+  ServiceKind,
+  UNBILLED_COMPONENTS,
+  USAGE_DEFAULTS
+} from './price-catalog';
+
+export class CostEstimatorTool implements InfraToolPlugin {
+  id = 'cost-estimator';
+  name = 'Cost Estimator';
+  description = 'Estimate the monthly cost of the drawn architecture from a bundled price catalog and compare AWS, Azure and GCP';
+  category = ToolCategory.VALIDATION;
+  version = '1.0.0';
+
+  private context?: ToolContext;
+
+  async initialize(context: ToolContext): Promise<void> {
+    this.context = context;
+    await ComponentRegistry.getInstance().initialize();
+    console.log('💰 Cost Estimator Tool initialized');
+  }
+
+  async execute(params: ToolParams): Promise<ToolResult> {
+    const { region, regions = {}, usage = {}, compare = true } = params;
+
+    if (!this.context) {
+      return {
+        success: false,
+        error: 'Tool not initialized'
+      };
+    }
+
+    try {
+      const startTime = Date.now();
+      const graph = buildCanvasGraph(this.context.canvas, getLiveShapes(this.context));
+      const provider = resolveProvider(params.provider || this.context.provider, graph);
+      const regionFor = (target: PricedProvider): string =>
+        regions[target] || (target === provider && region) || PRICE_CATALOG.providers[target].defaultRegion;
+
+      const usedDefaults = new Set<string>();
+      const estimator = new PriceEstimator(usage, usedDefaults);
+
+      // Priced as drawn: provider-specific components keep their provider, generic ones use the selected one
+      const components: ComponentCostEstimate[] = [];
+      const unpriced: UnpricedComponent[] = [];
+      for (const node of graph.nodes.values()) {
+        const nodeProvider = getComponentProvider(node.componentId) || provider;
+        const result = estimator.estimate(node, nodeProvider, regionFor(nodeProvider));
+        if ('reason' in result) {
+          if (result.reason) unpriced.push(result);
+        } else {
+          components.push(result);
+        }
+      }
+
+      const monthlyTotal = roundCurrency(components.reduce((sum, c) => sum + c.monthlyCost, 0));
+      const containers = this.summarizeContainers(graph, components);
+
+      const comparison: ProviderComparison[] = compare
+        ? PRICED_PROVIDERS.map(target => this.estimateForProvider(graph, estimator, target, regionFor(target)))
+        : [];
+
+      // Regions missing from the catalog are priced at the base rate, which the user should know about
+      const pricedIn = new Set<PricedProvider>([...components.map(c => c.provider), ...comparison.map(c => c.provider)]);
+      const warnings = PRICED_PROVIDERS
+        .filter(target => pricedIn.has(target) && PRICE_CATALOG.providers[target].regions[regionFor(target)] === undefined)
+        .map(target => {
+          const table = PRICE_CATALOG.providers[target];
+          return `Region "${regionFor(target)}" is not in the ${table.name} price table; priced at ${table.defaultRegion} rates`;
+        });
+
+      const assumptions = [
+        `Prices from catalog ${PRICE_CATALOG.version} (${PRICE_CATALOG.effectiveDate}), on-demand list prices in ${PRICE_CATALOG.currency}`,
+        `${PRICE_CATALOG.hoursPerMonth} hours per month for always-on resources`,
+        ...Array.from(usedDefaults).map(key => `${key} = ${getUsageDefault(key, usage)} where not set on the component`)
+      ];
+
+      return {
+        success: true,
+        data: {
+          catalogVersion: PRICE_CATALOG.version,
+          effectiveDate: PRICE_CATALOG.effectiveDate,
+          currency: PRICE_CATALOG.currency,
+          provider,
+          region: regionFor(provider),
+          monthlyTotal,
+          components,
+          containers,
+          unpriced,
+          comparison,
+          assumptions,
+          warnings,
+          costModel: this.buildCostModel(components, usage, usedDefaults, assumptions)
+        },
+        metadata: {
+          executionTime: Date.now() - startTime,
+          processingStats: {
+            componentsPriced: components.length,
+            componentsUnpriced: unpriced.length,
+            containers: containers.length
+          }
+        }
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error during cost estimation'
+      };
+    }
+  }
+
+  // Roll component costs up into every container that holds them, directly or nested
+  private summarizeContainers(graph: CanvasGraph, components: ComponentCostEstimate[]): ContainerCostEstimate[] {
+    const costs = new Map(components.map(c => [c.shapeId, c.monthlyCost]));
+    const containers: ContainerCostEstimate[] = [];
+
+    for (const node of graph.nodes.values()) {
+      if (!node.isContainer) continue;
+
+      let monthlyCost = 0;
+      let componentCount = 0;
+      const stack = [...node.children];
+      const seen = new Set<string>([node.id]);
+
+      while (stack.length > 0) {
+        const id = stack.pop() as string;
+        if (seen.has(id)) continue;
+        seen.add(id);
+
+        const cost = costs.get(id);
+        if (cost !== undefined) {
+          monthlyCost += cost;
+          componentCount++;
+        }
+        stack.push(...(graph.nodes.get(id)?.children || []));
+      }
+
+      containers.push({
+        shapeId: node.id,
+        label: node.label,
+        monthlyCost: roundCurrency(monthlyCost),
+        componentCount
+      });
+    }
+
+    return containers;
+  }
+
+  // Price every component as if the whole diagram ran on one provider
+  private estimateForProvider(
+    graph: CanvasGraph,
+    estimator: PriceEstimator,
+    provider: PricedProvider,
+    region: string
+  ): ProviderComparison {
+    const components: ProviderComparison['components'] = [];
+    let unpricedCount = 0;
+
+    for (const node of graph.nodes.values()) {
+      const result = estimator.estimate(node, provider, region);
+      if ('reason' in result) {
+        if (result.reason) unpricedCount++;
+        continue;
+      }
+      components.push({ shapeId: node.id, service: result.service, monthlyCost: result.monthlyCost });
+    }
+
+    return {
+      provider,
+      region,
+      monthlyCost: roundCurrency(components.reduce((sum, c) => sum + c.monthlyCost, 0)),
+      components,
+      unpricedCount
+    };
+  }
+
+  // Express the estimate with the pattern CostModel types so it can be stored on a pattern
+  private buildCostModel(
+    components: ComponentCostEstimate[],
+    usage: Record<string, number>,
+    usedDefaults: Set<string>,
+    assumptions: string[]
+  ): CostModel {
+    const total = components.reduce((sum, c) => sum + c.monthlyCost, 0);
+
+    return {
+      estimationType: 'monthly',
+      components: components.map(component => ({
+        componentInstanceId: component.shapeId,
+        provider: component.provider,
+        service: component.service,
+        estimatedCost: {
+          baseAmount: component.monthlyCost,
+          currency: PRICE_CATALOG.currency,
+          unit: 'month',
+          scalingFactors: component.lineItems
+            .filter(item => item.usageKey)
+            .map(item => {
+              const usageValue = item.usageValue || 1;
+              return {
+                parameter: item.usageKey as string,
+                formula: `${item.usageKey} * ${item.monthlyCost / usageValue}`,
+                description: item.description
+              };
+            })
+        }
+      })),
+      variables: Array.from(usedDefaults).map(key => ({
+        id: key,
+        name: key,
+        description: `Usage assumption for ${key}`,
+        defaultValue: getUsageDefault(key, usage),
+        unit: USAGE_UNITS[key] || 'count'
+      })),
+      calculations: [
+        {
+          id: 'monthly-total',
+          formula: components.length > 0 ? components.map(c => c.monthlyCost).join(' + ') : '0',
+          description: 'Sum of component monthly costs',
+          result: roundCurrency(total).toFixed(2)
+        }
+      ],
+      assumptions
+    };
+  }
+}
+
+// Prices a single canvas node against one provider's price table
+class PriceEstimator {
+  constructor(
+    private usage: Record<string, number>,
+    private usedDefaults: Set<string>
+  ) {}
+
+  estimate(
+    node: CanvasNode,
+    provider: PricedProvider,
+    region: string
+  ): ComponentCostEstimate | UnpricedComponent {
+    const unpriced = (reason: string): UnpricedComponent => ({
+      shapeId: node.id,
+      label: node.label,
+      componentId: node.componentId,
+      reason
+    });
+
+    // Networks, zones and actors are free; an empty reason keeps them out of the unpriced list
+    if (UNBILLED_COMPONENTS.has(node.componentId) || UNBILLED_COMPONENTS.has(node.metadata?.id || '')) {
+      return unpriced('');
+    }
+
+    const kind = COMPONENT_SERVICE_KINDS[node.componentId] || COMPONENT_SERVICE_KINDS[node.metadata?.id || ''];
+    if (!kind) {
+      return unpriced(`No price mapping for component "${node.componentId}"`);
+    }
+
+    const table = PRICE_CATALOG.providers[provider];
+    const multiplier = table.regions[region] ?? 1;
+    const lineItems = this.price(kind, table, node.properties).map(item => ({
+      ...item,
+      unitPrice: item.unitPrice * multiplier,
+      monthlyCost: roundCurrency(item.monthlyCost * multiplier)
+    }));
+
+    return {
+      shapeId: node.id,
+      label: node.label,
+      componentId: node.componentId,
+      provider,
+      region,
+      kind,
+      service: table.services[kind].service,
+      monthlyCost: roundCurrency(lineItems.reduce((sum, item) => sum + item.monthlyCost, 0)),
+      lineItems,
+      containerId: node.parentId
+    };
+  }
+
+  private price(kind: ServiceKind, table: ProviderPriceTable, props: Record<string, unknown>): CostLineItem[] {
+    const rates = table.services[kind].rates;
+    const hours = PRICE_CATALOG.hoursPerMonth;
+
+    switch (kind) {
+      case 'virtual-machine':
+      case 'app-platform': {
+        const instance = resolveInstance(
+          t => t.instances,
+          table,
+          [props.instanceType, props.pricingTier, props.instanceClass],
+          explicitSpec(props) || { vCpus: 2, memoryGb: 1 }
+        );
+        const count = toNumber(props.instanceCount ?? props.desiredCount ?? props.minInstances, 1);
+        return [lineItem(`${instance.name} instance`, count * hours, 'instance-hour', instance.hourly)];
+      }
+
+      case 'function': {
+        const memoryGb = toGigabytes(props.memorySize ?? props.memory, 128 / 1024, true);
+        const requests = this.usageValue('monthlyRequests', props);
+        const durationMs = this.usageValue('avgDurationMs', props);
+        const gbSeconds = requests * (durationMs / 1000) * memoryGb;
+        return [
+          lineItem('Requests', requests / 1_000_000, 'million requests', rates.requestsPerMillion, 'monthlyRequests', requests),
+          lineItem(`Compute at ${Math.round(memoryGb * 1024)} MB`, gbSeconds, 'GB-second', rates.gbSecond, 'monthlyRequests', requests)
+        ];
+      }
+
+      case 'container': {
+        const vCpus = toCpu(props.cpu, 0.25);
+        const memoryGb = toGigabytes(props.memory, 0.5);
+        const count = toNumber(props.desiredCount ?? props.instanceCount, 1);
+        return [
+          lineItem(`${vCpus} vCPU x ${count}`, vCpus * count * hours, 'vCPU-hour', rates.vCpuHour),
+          lineItem(`${memoryGb} GB memory x ${count}`, memoryGb * count * hours, 'GB-hour', rates.gbHour)
+        ];
+      }
+
+      case 'relational-database': {
+        const instance = resolveInstance(
+          t => t.databaseInstances,
+          table,
+          [props.instanceClass, props.instanceType],
+          explicitSpec(props) || { vCpus: 2, memoryGb: 1 }
+        );
+        const count = props.multiAz === true ? 2 : toNumber(props.nodes, 1);
+        const storageGb = this.usageValue('storageGb', props);
+        return [
+          lineItem(`${instance.name} instance`, count * hours, 'instance-hour', instance.hourly),
+          lineItem('Storage', storageGb * count, 'GB-month', rates.storageGbMonth, 'storageGb', storageGb)
+        ];
+      }
+
+      case 'nosql-database': {
+        const reads = this.usageValue('monthlyReads', props);
+        const writes = this.usageValue('monthlyWrites', props);
+        const storageGb = this.usageValue('storageGb', props);
+        return [
+          lineItem('Reads', reads / 1_000_000, 'million reads', rates.readsPerMillion, 'monthlyReads', reads),
+          lineItem('Writes', writes / 1_000_000, 'million writes', rates.writesPerMillion, 'monthlyWrites', writes),
+          lineItem('Storage', storageGb, 'GB-month', rates.storageGbMonth, 'storageGb', storageGb)
+        ];
+      }
+
+      case 'cache': {
+        const names = [
+          props.nodeType,
+          props.capacity !== undefined ? `C${props.capacity}` : undefined,
+          props.memorySizeGb !== undefined ? `${props.tier || 'standard'}-${props.memorySizeGb}gb` : undefined
+        ];
+        const fallback = props.memorySizeGb !== undefined
+          ? { vCpus: 1, memoryGb: toNumber(props.memorySizeGb, 1) }
+          : { vCpus: 1, memoryGb: 1 };
+        const node = resolveInstance(t => t.cacheNodes, table, names, fallback);
+        const count = toNumber(props.numCacheNodes, 1);
+        return [lineItem(`${node.name} node`, count * hours, 'node-hour', node.hourly)];
+      }
+
+      case 'load-balancer': {
+        const capacityUnits = toNumber(props.capacity, 1);
+        return [
+          lineItem('Load balancer', hours, 'hour', rates.hourly),
+          lineItem('Capacity units', capacityUnits * hours, 'capacity-unit-hour', rates.capacityUnitHour)
+        ];
+      }
+
+      case 'cdn': {
+        const transferGb = this.usageValue('dataTransferGb', props);
+        const requests = this.usageValue('monthlyRequests', props);
+        return [
+          lineItem('Data transfer out', transferGb, 'GB', rates.transferGb, 'dataTransferGb', transferGb),
+          lineItem('Requests', requests / 1_000_000, 'million requests', rates.requestsPerMillion, 'monthlyRequests', requests)
+        ];
+      }
+
+      case 'api-gateway': {
+        const requests = this.usageValue('monthlyRequests', props);
+        return [lineItem('API calls', requests / 1_000_000, 'million requests', rates.requestsPerMillion, 'monthlyRequests', requests)];
+      }
+
+      case 'block-storage':
+      case 'file-storage': {
+        const storageGb = props.size !== undefined ? toNumber(props.size, 0) : this.usageValue('storageGb', props);
+        return [lineItem('Storage', storageGb, 'GB-month', rates.storageGbMonth, 'storageGb', storageGb)];
+      }
+
+      case 'object-storage': {
+        const storageGb = this.usageValue('storageGb', props);
+        const requests = this.usageValue('monthlyRequests', props);
+        return [
+          lineItem('Storage', storageGb, 'GB-month', rates.storageGbMonth, 'storageGb', storageGb),
+          lineItem('Requests', requests / 1_000_000, 'million requests', rates.requestsPerMillion, 'monthlyRequests', requests)
+        ];
+      }
+
+      case 'container-registry': {
+        const storageGb = this.usageValue('storageGb', props);
+        const items = [lineItem('Image storage', storageGb, 'GB-month', rates.storageGbMonth, 'storageGb', storageGb)];
+        if (rates.registryMonth) {
+          items.push(lineItem('Registry', 1, 'month', rates.registryMonth));
+        }
+        return items;
+      }
+
+      case 'messaging': {
+        const messages = this.usageValue('monthlyMessages', props);
+        return [lineItem('Messages', messages / 1_000_000, 'million messages', rates.messagesPerMillion, 'monthlyMessages', messages)];
+      }
+
+      case 'secrets': {
+        const secrets = this.usageValue('secretCount', props);
+        const requests = this.usageValue('monthlyRequests', props);
+        return [
+          lineItem('Stored secrets', secrets, 'secret-month', rates.secretMonth, 'secretCount', secrets),
+          lineItem('API calls', requests / 1_000_000, 'million requests', rates.requestsPerMillion, 'monthlyRequests', requests)
+        ];
+      }
+
+      case 'monitoring': {
+        const ingestedGb = this.usageValue('logIngestionGb', props);
+        const retentionMonths = toNumber(props.retentionDays, 30) / 30;
+        return [
+          lineItem('Log ingestion', ingestedGb, 'GB', rates.ingestedGb, 'logIngestionGb', ingestedGb),
+          lineItem('Log retention', ingestedGb * retentionMonths, 'GB-month', rates.retainedGbMonth)
+        ];
+      }
+    }
+  }
+
+  // Shape property first, then the caller's usage overrides, then the bundled default
+  private usageValue(key: string, props: Record<string, unknown>): number {
+    if (props[key] !== undefined && props[key] !== '') {
+      return toNumber(props[key], 0);
+    }
+    this.usedDefaults.add(key);
+    return getUsageDefault(key, this.usage);
+  }
+}
+
+const PRICED_PROVIDERS: PricedProvider[] = ['aws', 'azure', 'gcp'];
+
+const USAGE_UNITS: Record<string, string> = {
+  monthlyRequests: 'requests/month',
+  avgDurationMs: 'ms',
+  storageGb: 'GB',
+  dataTransferGb: 'GB/month',
+  monthlyReads: 'reads/month',
+  monthlyWrites: 'writes/month',
+  monthlyMessages: 'messages/month',
+  logIngestionGb: 'GB/month',
+  secretCount: 'secrets'
+};
+
+function isPricedProvider(value: unknown): value is PricedProvider {
+  return value === 'aws' || value === 'azure' || value === 'gcp';
+}
+
+function getComponentProvider(componentId: string): PricedProvider | undefined {
+  const prefix = componentId.split('-')[0];
+  return isPricedProvider(prefix) ? prefix : undefined;
+}
+
+// Use the selected provider, or the one most components on the canvas belong to
+function resolveProvider(selected: unknown, graph: CanvasGraph): PricedProvider {
+  if (isPricedProvider(selected)) return selected;
+
+  const counts = new Map<PricedProvider, number>();
+  for (const node of graph.nodes.values()) {
+    const provider = getComponentProvider(node.componentId);
+    if (provider) counts.set(provider, (counts.get(provider) || 0) + 1);
+  }
+
+  let best: PricedProvider = 'aws';
+  for (const [provider, count] of counts) {
+    if (count > (counts.get(best) || 0)) best = provider;
+  }
+  return best;
+}
+
+function getUsageDefault(key: string, usage: Record<string, number>): number {
+  return usage[key] ?? USAGE_DEFAULTS[key] ?? 0;
+}
+
+// Find a named size in the provider's table; otherwise match the closest size by vCPU and memory.
+// Sizes named for another provider (t3.micro priced on Azure) are translated through their specs.
+function resolveInstance(
+  pick: (table: ProviderPriceTable) => Record<string, InstancePrice>,
+  table: ProviderPriceTable,
+  names: unknown[],
+  fallback: InstanceSpec
+): InstancePrice & { name: string } {
+  const sizes = pick(table);
+  const candidates = names.filter((name): name is string => typeof name === 'string' && name !== '');
+
+  for (const name of candidates) {
+    if (sizes[name]) return { name, ...sizes[name] };
+  }
+
+  let spec = fallback;
+  for (const name of candidates) {
+    const match = PRICED_PROVIDERS.map(p => pick(PRICE_CATALOG.providers[p])[name]).find(Boolean);
+    if (match) {
+      spec = match;
+      break;
+    }
+  }
+
+  let best: (InstancePrice & { name: string }) | null = null;
+  let bestDistance = Infinity;
+  for (const [name, size] of Object.entries(sizes)) {
+    const distance =
+      Math.abs(Math.log(size.vCpus / spec.vCpus)) + Math.abs(Math.log(size.memoryGb / spec.memoryGb));
+    if (distance < bestDistance || (distance === bestDistance && best && size.hourly < best.hourly)) {
+      best = { name, ...size };
+      bestDistance = distance;
+    }
+  }
+
+  if (!best) {
+    throw new Error(`No ${table.name} sizes in price catalog ${PRICE_CATALOG.version}`);
+  }
+  return best;
+}
+
+function explicitSpec(props: Record<string, unknown>): InstanceSpec | undefined {
+  if (props.vCpus === undefined && props.memoryGb === undefined) return undefined;
+  return {
+    vCpus: toNumber(props.vCpus, 1),
+    memoryGb: toNumber(props.memoryGb, 1)
+  };
+}
+
+function lineItem(
+  description: string,
+  quantity: number,
+  unit: string,
+  unitPrice = 0,
+  usageKey?: string,
+  usageValue?: number
+): CostLineItem {
+  return {
+    description,
+    quantity,
+    unit,
+    unitPrice,
+    monthlyCost: quantity * unitPrice,
+    ...(usageKey ? { usageKey, usageValue } : {})
+  };
+}
+
+function toNumber(value: unknown, fallback: number): number {
+  const parsed = typeof value === 'number' ? value : parseFloat(String(value ?? ''));
+  return Number.isFinite(parsed) ? parsed : fallback;
+}
+
+// ECS expresses CPU in 1024ths of a vCPU, the other providers in whole vCPUs
+function toCpu(value: unknown, fallback: number): number {
+  const cpu = toNumber(value, fallback);
+  return cpu > 16 ? cpu / 1024 : cpu;
+}
+
+// Accepts "512Mi", "1Gi", "2GB", megabyte numbers (512) and gigabyte numbers (1)
+function toGigabytes(value: unknown, fallback: number, plainNumbersAreMegabytes = false): number {
+  if (value === undefined || value === null || value === '') return fallback;
+
+  const match = String(value).trim().match(/^([\d.]+)\s*(mi|mb|m|gi|gb|g)?$/i);
+  if (!match) return fallback;
+
+  const amount = parseFloat(match[1]);
+  const unit = (match[2] || '').toLowerCase();
+  if (unit.startsWith('g')) return amount;
+  if (unit.startsWith('m') || plainNumbersAreMegabytes || amount >= 64) return amount / 1024;
+  return amount;
+}
+
+function roundCurrency(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+// Helper types
+interface InstanceSpec {
+  vCpus: number;
+  memoryGb: number;
+}
+
+export interface CostLineItem {
+  description: string;
+  quantity: number;
+  unit: string;
+  unitPrice: number;
+  monthlyCost: number;
+  usageKey?: string;
+  usageValue?: number;
+}
+
+export interface ComponentCostEstimate {
+  shapeId: string;
+  label: string;
+  componentId: string;
+  provider: PricedProvider;
+  region: string;
+  kind: ServiceKind;
+  service: string;
+  monthlyCost: number;
+  lineItems: CostLineItem[];
+  containerId: string | null;
+}
+
+export interface ContainerCostEstimate {
+  shapeId: string;
+  label: string;
+  monthlyCost: number;
+  componentCount: number;
+}
+
+export interface UnpricedComponent {
+  shapeId: string;
+  label: string;
+  componentId: string;
+  reason: string;
+}
+
+export interface ProviderComparison {
+  provider: PricedProvider;
+  region: string;
+  monthlyCost: number;
+  components: { shapeId: string; service: string; monthlyCost: number }[];
+  unpricedCount: number;
+}
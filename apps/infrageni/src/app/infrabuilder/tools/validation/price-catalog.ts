@@ -0,0 +1,320 @@
+// Bundled on-demand list prices used by the cost estimator.
+// Prices are USD for Linux / pay-as-you-go in the provider's default region; other regions
+// apply a multiplier. Bump `version` whenever figures change so saved estimates can be traced.
+
+export type PricedProvider = 'aws' | 'azure' | 'gcp';
+
+export type ServiceKind =
+  | 'virtual-machine'
+  | 'app-platform'
+  | 'function'
+  | 'container'
+  | 'relational-database'
+  | 'nosql-database'
+  | 'cache'
+  | 'load-balancer'
+  | 'cdn'
+  | 'api-gateway'
+  | 'block-storage'
+  | 'file-storage'
+  | 'object-storage'
+  | 'container-registry'
+  | 'messaging'
+  | 'secrets'
+  | 'monitoring';
+
+export interface InstancePrice {
+  vCpus: number;
+  memoryGb: number;
+  hourly: number;
+}
+
+export interface ServicePrice {
+  service: string;
+  rates: Record<string, number>;
+}
+
+export interface ProviderPriceTable {
+  name: string;
+  defaultRegion: string;
+  regions: Record<string, number>;
+  instances: Record<string, InstancePrice>;
+  databaseInstances: Record<string, InstancePrice>;
+  cacheNodes: Record<string, InstancePrice>;
+  services: Record<ServiceKind, ServicePrice>;
+}
+
+export interface PriceCatalog {
+  version: string;
+  effectiveDate: string;
+  currency: string;
+  hoursPerMonth: number;
+  providers: Record<PricedProvider, ProviderPriceTable>;
+}
+
+export const PRICE_CATALOG: PriceCatalog = {
+  version: '2024.06.1',
+  effectiveDate: '2024-06-01',
+  currency: 'USD',
+  hoursPerMonth: 730,
+  providers: {
+    aws: {
+      name: 'AWS',
+      defaultRegion: 'us-east-1',
+      regions: {
+        'us-east-1': 1,
+        'us-east-2': 1,
+        'us-west-2': 1,
+        'eu-west-1': 1.08,
+        'eu-central-1': 1.15,
+        'ap-southeast-1': 1.2,
+        'ap-northeast-1': 1.25
+      },
+      instances: {
+        't3.micro': { vCpus: 2, memoryGb: 1, hourly: 0.0104 },
+        't3.small': { vCpus: 2, memoryGb: 2, hourly: 0.0208 },
+        't3.medium': { vCpus: 2, memoryGb: 4, hourly: 0.0416 },
+        't3.large': { vCpus: 2, memoryGb: 8, hourly: 0.0832 },
+        'm5.large': { vCpus: 2, memoryGb: 8, hourly: 0.096 },
+        'm5.xlarge': { vCpus: 4, memoryGb: 16, hourly: 0.192 },
+        'm5.2xlarge': { vCpus: 8, memoryGb: 32, hourly: 0.384 },
+        'c5.large': { vCpus: 2, memoryGb: 4, hourly: 0.085 },
+        'c5.xlarge': { vCpus: 4, memoryGb: 8, hourly: 0.17 },
+        'r5.large': { vCpus: 2, memoryGb: 16, hourly: 0.126 }
+      },
+      databaseInstances: {
+        'db.t3.micro': { vCpus: 2, memoryGb: 1, hourly: 0.017 },
+        'db.t3.small': { vCpus: 2, memoryGb: 2, hourly: 0.034 },
+        'db.t3.medium': { vCpus: 2, memoryGb: 4, hourly: 0.068 },
+        'db.m5.large': { vCpus: 2, memoryGb: 8, hourly: 0.171 },
+        'db.m5.xlarge': { vCpus: 4, memoryGb: 16, hourly: 0.342 },
+        'db.r5.large': { vCpus: 2, memoryGb: 16, hourly: 0.24 }
+      },
+      cacheNodes: {
+        'cache.t3.micro': { vCpus: 2, memoryGb: 0.5, hourly: 0.017 },
+        'cache.t3.small': { vCpus: 2, memoryGb: 1.37, hourly: 0.034 },
+        'cache.t3.medium': { vCpus: 2, memoryGb: 3.09, hourly: 0.068 },
+        'cache.m5.large': { vCpus: 2, memoryGb: 6.38, hourly: 0.156 },
+        'cache.r5.large': { vCpus: 2, memoryGb: 13.07, hourly: 0.216 }
+      },
+      services: {
+        'virtual-machine': { service: 'Amazon EC2', rates: {} },
+        'app-platform': { service: 'AWS Elastic Beanstalk', rates: {} },
+        'function': { service: 'AWS Lambda', rates: { requestsPerMillion: 0.2, gbSecond: 0.0000166667 } },
+        'container': { service: 'AWS Fargate', rates: { vCpuHour: 0.04048, gbHour: 0.004445 } },
+        'relational-database': { service: 'Amazon RDS', rates: { storageGbMonth: 0.115 } },
+        'nosql-database': { service: 'Amazon DynamoDB', rates: { readsPerMillion: 0.25, writesPerMillion: 1.25, storageGbMonth: 0.25 } },
+        'cache': { service: 'Amazon ElastiCache', rates: {} },
+        'load-balancer': { service: 'Elastic Load Balancing', rates: { hourly: 0.0225, capacityUnitHour: 0.008 } },
+        'cdn': { service: 'Amazon CloudFront', rates: { transferGb: 0.085, requestsPerMillion: 0.75 } },
+        'api-gateway': { service: 'Amazon API Gateway', rates: { requestsPerMillion: 3.5 } },
+        'block-storage': { service: 'Amazon EBS', rates: { storageGbMonth: 0.08 } },
+        'file-storage': { service: 'Amazon EFS', rates: { storageGbMonth: 0.3 } },
+        'object-storage': { service: 'Amazon S3', rates: { storageGbMonth: 0.023, requestsPerMillion: 5 } },
+        'container-registry': { service: 'Amazon ECR', rates: { storageGbMonth: 0.1 } },
+        'messaging': { service: 'Amazon SNS/SQS', rates: { messagesPerMillion: 0.4 } },
+        'secrets': { service: 'AWS Secrets Manager', rates: { secretMonth: 0.4, requestsPerMillion: 50 } },
+        'monitoring': { service: 'Amazon CloudWatch', rates: { ingestedGb: 0.5, retainedGbMonth: 0.03 } }
+      }
+    },
+    azure: {
+      name: 'Azure',
+      defaultRegion: 'eastus',
+      regions: {
+        'eastus': 1,
+        'eastus2': 1,
+        'westus2': 1,
+        'northeurope': 1.06,
+        'westeurope': 1.1,
+        'southeastasia': 1.15,
+        'japaneast': 1.22
+      },
+      instances: {
+        'B1s': { vCpus: 1, memoryGb: 1, hourly: 0.0104 },
+        'B1ms': { vCpus: 1, memoryGb: 2, hourly: 0.0207 },
+        'B2s': { vCpus: 2, memoryGb: 4, hourly: 0.0416 },
+        'B2ms': { vCpus: 2, memoryGb: 8, hourly: 0.0832 },
+        'D2s_v5': { vCpus: 2, memoryGb: 8, hourly: 0.096 },
+        'D4s_v5': { vCpus: 4, memoryGb: 16, hourly: 0.192 },
+        'D8s_v5': { vCpus: 8, memoryGb: 32, hourly: 0.384 },
+        'F2s_v2': { vCpus: 2, memoryGb: 4, hourly: 0.085 },
+        'F4s_v2': { vCpus: 4, memoryGb: 8, hourly: 0.169 },
+        'E2s_v5': { vCpus: 2, memoryGb: 16, hourly: 0.126 },
+        // App Service plans
+        'B1': { vCpus: 1, memoryGb: 1.75, hourly: 0.075 },
+        'B2': { vCpus: 2, memoryGb: 3.5, hourly: 0.15 },
+        'S1': { vCpus: 1, memoryGb: 1.75, hourly: 0.1 },
+        'P1v3': { vCpus: 2, memoryGb: 8, hourly: 0.169 }
+      },
+      databaseInstances: {
+        'B_Standard_B1s': { vCpus: 1, memoryGb: 1, hourly: 0.017 },
+        'B_Standard_B1ms': { vCpus: 1, memoryGb: 2, hourly: 0.034 },
+        'B_Standard_B2s': { vCpus: 2, memoryGb: 4, hourly: 0.068 },
+        'GP_Standard_D2ds_v4': { vCpus: 2, memoryGb: 8, hourly: 0.178 },
+        'GP_Standard_D4ds_v4': { vCpus: 4, memoryGb: 16, hourly: 0.356 },
+        'MO_Standard_E2ds_v4': { vCpus: 2, memoryGb: 16, hourly: 0.25 }
+      },
+      cacheNodes: {
+        'C0': { vCpus: 1, memoryGb: 0.25, hourly: 0.022 },
+        'C1': { vCpus: 1, memoryGb: 1, hourly: 0.055 },
+        'C2': { vCpus: 2, memoryGb: 2.5, hourly: 0.09 },
+        'C3': { vCpus: 4, memoryGb: 6, hourly: 0.18 },
+        'C4': { vCpus: 2, memoryGb: 13, hourly: 0.21 }
+      },
+      services: {
+        'virtual-machine': { service: 'Azure Virtual Machines', rates: {} },
+        'app-platform': { service: 'Azure App Service', rates: {} },
+        'function': { service: 'Azure Functions', rates: { requestsPerMillion: 0.2, gbSecond: 0.000016 } },
+        'container': { service: 'Azure Container Instances', rates: { vCpuHour: 0.0405, gbHour: 0.00445 } },
+        'relational-database': { service: 'Azure Database', rates: { storageGbMonth: 0.115 } },
+        'nosql-database': { service: 'Azure Cosmos DB', rates: { readsPerMillion: 0.25, writesPerMillion: 1.25, storageGbMonth: 0.25 } },
+        'cache': { service: 'Azure Cache for Redis', rates: {} },
+        'load-balancer': { service: 'Azure Application Gateway', rates: { hourly: 0.246, capacityUnitHour: 0.008 } },
+        'cdn': { service: 'Azure CDN', rates: { transferGb: 0.081, requestsPerMillion: 0 } },
+        'api-gateway': { service: 'Azure API Management', rates: { requestsPerMillion: 3.5 } },
+        'block-storage': { service: 'Azure Managed Disks', rates: { storageGbMonth: 0.075 } },
+        'file-storage': { service: 'Azure Files', rates: { storageGbMonth: 0.06 } },
+        'object-storage': { service: 'Azure Blob Storage', rates: { storageGbMonth: 0.0184, requestsPerMillion: 5.5 } },
+        'container-registry': { service: 'Azure Container Registry', rates: { storageGbMonth: 0.1, registryMonth: 5 } },
+        'messaging': { service: 'Azure Service Bus', rates: { messagesPerMillion: 0.05 } },
+        'secrets': { service: 'Azure Key Vault', rates: { secretMonth: 0, requestsPerMillion: 30 } },
+        'monitoring': { service: 'Azure Monitor', rates: { ingestedGb: 2.3, retainedGbMonth: 0.1 } }
+      }
+    },
+    gcp: {
+      name: 'Google Cloud',
+      defaultRegion: 'us-central1',
+      regions: {
+        'us-central1': 1,
+        'us-east1': 1,
+        'us-west1': 1,
+        'europe-west1': 1.1,
+        'europe-west3': 1.2,
+        'asia-southeast1': 1.23,
+        'asia-northeast1': 1.28
+      },
+      instances: {
+        'e2-micro': { vCpus: 2, memoryGb: 1, hourly: 0.0084 },
+        'e2-small': { vCpus: 2, memoryGb: 2, hourly: 0.0168 },
+        'e2-medium': { vCpus: 2, memoryGb: 4, hourly: 0.0335 },
+        'e2-standard-2': { vCpus: 2, memoryGb: 8, hourly: 0.067 },
+        'n2-standard-2': { vCpus: 2, memoryGb: 8, hourly: 0.0971 },
+        'n2-standard-4': { vCpus: 4, memoryGb: 16, hourly: 0.1942 },
+        'n2-standard-8': { vCpus: 8, memoryGb: 32, hourly: 0.3885 },
+        'c2d-highcpu-2': { vCpus: 2, memoryGb: 4, hourly: 0.0742 },
+        'n2-highmem-2': { vCpus: 2, memoryGb: 16, hourly: 0.131 },
+        // App Engine standard instance classes
+        'F1': { vCpus: 1, memoryGb: 0.375, hourly: 0.05 },
+        'F2': { vCpus: 1, memoryGb: 0.75, hourly: 0.1 },
+        'F4': { vCpus: 2, memoryGb: 1.5, hourly: 0.2 }
+      },
+      databaseInstances: {
+        'db-f1-micro': { vCpus: 1, memoryGb: 0.6, hourly: 0.015 },
+        'db-g1-small': { vCpus: 1, memoryGb: 1.7, hourly: 0.05 },
+        'db-custom-1-3840': { vCpus: 1, memoryGb: 3.75, hourly: 0.0515 },
+        'db-custom-2-7680': { vCpus: 2, memoryGb: 7.5, hourly: 0.103 },
+        'db-custom-4-15360': { vCpus: 4, memoryGb: 15, hourly: 0.206 },
+        'db-custom-2-13312': { vCpus: 2, memoryGb: 13, hourly: 0.14 }
+      },
+      cacheNodes: {
+        'basic-1gb': { vCpus: 1, memoryGb: 1, hourly: 0.049 },
+        'basic-5gb': { vCpus: 1, memoryGb: 5, hourly: 0.135 },
+        'standard-1gb': { vCpus: 1, memoryGb: 1, hourly: 0.064 },
+        'standard-5gb': { vCpus: 2, memoryGb: 5, hourly: 0.18 },
+        'standard-13gb': { vCpus: 2, memoryGb: 13, hourly: 0.299 }
+      },
+      services: {
+        'virtual-machine': { service: 'Compute Engine', rates: {} },
+        'app-platform': { service: 'App Engine', rates: {} },
+        'function': { service: 'Cloud Functions', rates: { requestsPerMillion: 0.4, gbSecond: 0.0000025 } },
+        'container': { service: 'Cloud Run', rates: { vCpuHour: 0.0864, gbHour: 0.009 } },
+        'relational-database': { service: 'Cloud SQL', rates: { storageGbMonth: 0.17 } },
+        'nosql-database': { service: 'Cloud Firestore', rates: { readsPerMillion: 0.6, writesPerMillion: 1.8, storageGbMonth: 0.18 } },
+        'cache': { service: 'Memorystore', rates: {} },
+        'load-balancer': { service: 'Cloud Load Balancing', rates: { hourly: 0.025, capacityUnitHour: 0.008 } },
+        'cdn': { service: 'Cloud CDN', rates: { transferGb: 0.08, requestsPerMillion: 0.75 } },
+        'api-gateway': { service: 'API Gateway', rates: { requestsPerMillion: 3 } },
+        'block-storage': { service: 'Persistent Disk', rates: { storageGbMonth: 0.08 } },
+        'file-storage': { service: 'Filestore', rates: { storageGbMonth: 0.2 } },
+        'object-storage': { service: 'Cloud Storage', rates: { storageGbMonth: 0.02, requestsPerMillion: 5 } },
+        'container-registry': { service: 'Artifact Registry', rates: { storageGbMonth: 0.1 } },
+        'messaging': { service: 'Pub/Sub', rates: { messagesPerMillion: 0.04 } },
+        'secrets': { service: 'Secret Manager', rates: { secretMonth: 0.06, requestsPerMillion: 3 } },
+        'monitoring': { service: 'Cloud Monitoring', rates: { ingestedGb: 0.5, retainedGbMonth: 0.01 } }
+      }
+    }
+  }
+};
+
+// Map registry component IDs (and legacy shape component IDs) to the service they bill as
+export const COMPONENT_SERVICE_KINDS: Record<string, ServiceKind> = {
+  'generic-compute': 'virtual-machine',
+  'generic-database': 'relational-database',
+  'generic-storage': 'object-storage',
+  'generic-load-balancer': 'load-balancer',
+  'compute': 'virtual-machine',
+  'database': 'relational-database',
+  'storage': 'object-storage',
+
+  'aws-lambda': 'function',
+  'aws-elastic-beanstalk': 'app-platform',
+  'aws-ecs': 'container',
+  'aws-ecr': 'container-registry',
+  'aws-dynamodb': 'nosql-database',
+  'aws-elasticache': 'cache',
+  'aws-alb': 'load-balancer',
+  'aws-cloudfront': 'cdn',
+  'aws-api-gateway': 'api-gateway',
+  'aws-ebs': 'block-storage',
+  'aws-efs': 'file-storage',
+
+  'azure-functions': 'function',
+  'azure-app-service': 'app-platform',
+  'azure-container-instances': 'container',
+  'azure-cosmos-db': 'nosql-database',
+  'azure-cache-redis': 'cache',
+  'azure-application-gateway': 'load-balancer',
+  'azure-cdn': 'cdn',
+  'azure-storage-account': 'object-storage',
+  'azure-key-vault': 'secrets',
+  'azure-monitor': 'monitoring',
+
+  'gcp-cloud-functions': 'function',
+  'gcp-app-engine': 'app-platform',
+  'gcp-cloud-run': 'container',
+  'gcp-cloud-firestore': 'nosql-database',
+  'gcp-cloud-spanner': 'relational-database',
+  'gcp-memorystore': 'cache',
+  'gcp-cloud-load-balancing': 'load-balancer',
+  'gcp-cloud-cdn': 'cdn',
+  'gcp-cloud-storage': 'object-storage',
+  'gcp-pub-sub': 'messaging',
+  'gcp-secret-manager': 'secrets'
+};
+
+// Components that carry no charge of their own (networks, zones, actors)
+export const UNBILLED_COMPONENTS = new Set<string>([
+  'generic-vpc',
+  'generic-subnet',
+  'generic-availability-zone',
+  'generic-external-system',
+  'generic-user',
+  'vpc',
+  'subnet',
+  'availability-zone',
+  'external-system',
+  'user'
+]);
+
+// Usage assumptions applied when a shape does not specify its own value
+export const USAGE_DEFAULTS: Record<string, number> = {
+  monthlyRequests: 1_000_000,
+  avgDurationMs: 200,
+  storageGb: 20,
+  dataTransferGb: 100,
+  monthlyReads: 5_000_000,
+  monthlyWrites: 1_000_000,
+  monthlyMessages: 1_000_000,
+  logIngestionGb: 5,
+  secretCount: 5
+};
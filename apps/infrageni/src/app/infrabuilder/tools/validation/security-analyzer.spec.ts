@@ -0,0 +1,88 @@
+import { ComponentRegistry } from '../../components/core/component-registry';
+import { CanvasItem, Connection } from '../../types';
+import { SecurityAnalyzerTool, SecurityFinding } from './security-analyzer';
+
+function item(name: string, label: string, type: string, componentId: string, parentId?: string): CanvasItem {
+  return {
+    id: `shape:${name}`,
+    label,
+    x: 0,
+    y: 0,
+    key: `${type}-shape:${name}`,
+    parentId: parentId && `shape:${parentId}`,
+    isBoundingBox: type === 'vpc' || type === 'subnet',
+    properties: { componentId }
+  };
+}
+
+function link(from: string, to: string): Connection {
+  return { id: `${from}-${to}`, from: `shape:${from}`, to: `shape:${to}` };
+}
+
+async function analyze(items: CanvasItem[], connections: Connection[]): Promise<SecurityFinding[]> {
+  const result = await new SecurityAnalyzerTool().execute({ data: { items, connections } });
+  return (result.data as { findings: SecurityFinding[] }).findings;
+}
+
+describe('SecurityAnalyzerTool', () => {
+  beforeAll(async () => {
+    await ComponentRegistry.getInstance().initialize();
+  });
+
+  const items = [
+    item('user', 'User', 'user', 'generic-user'),
+    item('web', 'Web', 'compute', 'generic-compute'),
+    item('worker', 'Worker', 'compute', 'generic-compute'),
+    item('db', 'Orders', 'database', 'generic-database')
+  ];
+
+  it('flags compute and databases that an entry point reaches through other services', async () => {
+    const findings = await analyze(items, [link('user', 'web'), link('web', 'worker'), link('worker', 'db')]);
+
+    expect(findings.map(finding => [finding.rule, finding.shapeIds])).toEqual([
+      ['exposed-database', ['shape:user', 'shape:web', 'shape:worker', 'shape:db']],
+      ['public-compute-outside-subnet', ['shape:web']],
+      ['public-compute-outside-subnet', ['shape:worker']]
+    ]);
+  });
+
+  it('stops at guards and leaves compute in a subnet alone', async () => {
+    const findings = await analyze(
+      [
+        ...items,
+        item('lb', 'Load Balancer', 'compute', 'generic-load-balancer'),
+        item('vpc', 'VPC', 'vpc', 'generic-vpc'),
+        item('subnet', 'Public', 'subnet', 'generic-subnet', 'vpc'),
+        item('api', 'Api', 'compute', 'generic-compute', 'subnet')
+      ],
+      [link('user', 'lb'), link('lb', 'web'), link('web', 'db'), link('user', 'api')]
+    );
+
+    expect(findings).toEqual([]);
+  });
+
+  it('does not treat outbound calls to external systems as an exposure', async () => {
+    const findings = await analyze(
+      [
+        ...items,
+        item('lb', 'Load Balancer', 'compute', 'generic-load-balancer'),
+        item('stripe', 'Stripe', 'external-system', 'generic-external-system')
+      ],
+      [link('user', 'lb'), link('lb', 'web'), link('web', 'db'), link('web', 'stripe')]
+    );
+
+    expect(findings).toEqual([]);
+  });
+
+  it('reports a database once with every entry point that reaches it', async () => {
+    const findings = await analyze(
+      [...items, item('partner', 'Partner', 'external-system', 'generic-external-system')],
+      [link('user', 'web'), link('partner', 'web'), link('web', 'db')]
+    );
+    const exposed = findings.filter(finding => finding.rule === 'exposed-database');
+
+    expect(exposed).toHaveLength(1);
+    expect(exposed[0].message).toBe('Orders is reachable from User, Partner without a gateway, firewall or load balancer');
+    expect(exposed[0].shapeIds).toEqual(['shape:user', 'shape:web', 'shape:db', 'shape:partner']);
+  });
+});
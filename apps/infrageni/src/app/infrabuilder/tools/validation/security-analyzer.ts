@@ -0,0 +1,331 @@
+import { InfraToolPlugin, ToolCategory, ToolContext, ToolParams, ToolResult } from '../core/plugin-system';
+import { ComponentRegistry } from '../../components/core/component-registry';
+import { ComponentCategory, ComponentMetadata, ComponentSubcategory } from '../../components/core/component-types';
+import { convertShapesToCanvasItems, extractConnectionsFromArrows } from '../../export/export-utils';
+import { CanvasItem, Connection } from '../../types';
+import { getLiveShapes, resolveComponentMetadata } from '../core/canvas-graph';
+
+export class SecurityAnalyzerTool implements InfraToolPlugin {
+  id = 'security-analyzer';
+  name = 'Security Analyzer';
+  description = 'Analyze the drawn architecture for exposed databases, unencrypted storage and public compute outside subnets';
+  category = ToolCategory.VALIDATION;
+  version = '1.0.0';
+
+  private context?: ToolContext;
+
+  async initialize(context: ToolContext): Promise<void> {
+    this.context = context;
+    await ComponentRegistry.getInstance().initialize();
+    console.log('🛡️ Security Analyzer Tool initialized');
+  }
+
+  async execute(params: ToolParams): Promise<ToolResult> {
+    const { data, directed = true } = params;
+    const context = this.context;
+
+    if (!data?.items && !context) {
+      return {
+        success: false,
+        error: 'Tool not initialized'
+      };
+    }
+
+    try {
+      const startTime = Date.now();
+
+      let items: CanvasItem[];
+      let connections: Connection[];
+      if (data?.items || !context) {
+        items = data.items;
+        connections = data.connections || [];
+      } else {
+        const shapes = getLiveShapes(context);
+        items = convertShapesToCanvasItems(shapes);
+        connections = extractConnectionsFromArrows(context.canvas, shapes);
+      }
+
+      const graph = this.buildSecurityGraph(items, connections, directed);
+      const reach = this.reachFromEntryPoints(graph);
+      const findings: SecurityFinding[] = [
+        ...this.findExposedDatabases(graph, reach),
+        ...this.findUnencryptedStorage(graph),
+        ...this.findPublicComputeOutsideSubnet(graph, reach)
+      ];
+
+      findings.sort((a, b) => SEVERITY_ORDER[a.severity] - SEVERITY_ORDER[b.severity]);
+
+      return {
+        success: true,
+        data: {
+          findings,
+          summary: {
+            critical: findings.filter(f => f.severity === 'critical').length,
+            high: findings.filter(f => f.severity === 'high').length,
+            medium: findings.filter(f => f.severity === 'medium').length,
+            low: findings.filter(f => f.severity === 'low').length
+          }
+        },
+        metadata: {
+          executionTime: Date.now() - startTime,
+          processingStats: {
+            nodesAnalyzed: graph.nodes.size,
+            connectionsAnalyzed: connections.length,
+            entryPoints: Array.from(graph.nodes.values()).filter(n => n.role === 'entry').length
+          }
+        }
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error during security analysis'
+      };
+    }
+  }
+
+  private buildSecurityGraph(items: CanvasItem[], connections: Connection[], directed: boolean): SecurityGraph {
+    const nodes = new Map<string, SecurityNode>();
+
+    for (const item of items) {
+      const type = getItemType(item);
+      const componentId = typeof item.properties?.componentId === 'string' ? item.properties.componentId : type;
+      const metadata = resolveComponentMetadata(componentId, type);
+
+      nodes.set(item.id, {
+        item,
+        type,
+        metadata,
+        role: classifyNode(item, type, metadata)
+      });
+    }
+
+    const adjacency = new Map<string, string[]>();
+    const link = (from: string, to: string) => {
+      if (!adjacency.has(from)) adjacency.set(from, []);
+      adjacency.get(from)?.push(to);
+    };
+
+    for (const connection of connections) {
+      if (!nodes.has(connection.from) || !nodes.has(connection.to)) continue;
+      link(connection.from, connection.to);
+      if (!directed) link(connection.to, connection.from);
+    }
+
+    return { nodes, adjacency };
+  }
+
+  // Breadth-first search from every entry point that stops at guard components. Each entry
+  // maps the nodes it reaches to the node they were reached from.
+  private reachFromEntryPoints(graph: SecurityGraph): Map<string, Map<string, string | null>> {
+    const reach = new Map<string, Map<string, string | null>>();
+
+    for (const [entryId, entry] of graph.nodes) {
+      if (entry.role !== 'entry') continue;
+
+      const previous = new Map<string, string | null>([[entryId, null]]);
+      const queue = [entryId];
+
+      while (queue.length > 0) {
+        const current = queue.shift() as string;
+
+        for (const next of graph.adjacency.get(current) || []) {
+          if (previous.has(next)) continue;
+
+          const node = graph.nodes.get(next);
+          if (!node || node.role === 'guard') continue;
+          previous.set(next, current);
+
+          if (node.role !== 'entry') {
+            queue.push(next);
+          }
+        }
+      }
+
+      reach.set(entryId, previous);
+    }
+
+    return reach;
+  }
+
+  // One finding per database, naming every entry point that reaches it and highlighting their paths
+  private findExposedDatabases(graph: SecurityGraph, reach: Map<string, Map<string, string | null>>): SecurityFinding[] {
+    const exposures = new Map<string, { entries: string[]; shapeIds: Set<string> }>();
+
+    for (const [entryId, previous] of reach) {
+      const entry = graph.nodes.get(entryId) as SecurityNode;
+
+      for (const id of previous.keys()) {
+        if (graph.nodes.get(id)?.role !== 'database') continue;
+
+        const exposure = exposures.get(id) || { entries: [], shapeIds: new Set<string>() };
+        exposure.entries.push(entry.item.label);
+        buildPath(previous, id).forEach(shapeId => exposure.shapeIds.add(shapeId));
+        exposures.set(id, exposure);
+      }
+    }
+
+    return Array.from(exposures, ([id, exposure]): SecurityFinding => ({
+      rule: 'exposed-database',
+      severity: 'critical',
+      message: `${graph.nodes.get(id)?.item.label} is reachable from ${exposure.entries.join(', ')} without a gateway, firewall or load balancer`,
+      shapeIds: Array.from(exposure.shapeIds),
+      remediation: 'Put an API gateway, load balancer or firewall in front of the services that reach this database'
+    }));
+  }
+
+  private findUnencryptedStorage(graph: SecurityGraph): SecurityFinding[] {
+    const findings: SecurityFinding[] = [];
+
+    for (const node of graph.nodes.values()) {
+      if (node.role !== 'storage') continue;
+
+      if (!isEncrypted(node)) {
+        findings.push({
+          rule: 'unencrypted-storage',
+          severity: 'high',
+          message: `${node.item.label} is not marked as encrypted`,
+          shapeIds: [node.item.id],
+          remediation: 'Enable encryption at rest (set the encryption property) or document why it is not needed'
+        });
+      }
+    }
+
+    return findings;
+  }
+
+  // Compute counts as public when an entry point reaches it without passing a guard
+  private findPublicComputeOutsideSubnet(graph: SecurityGraph, reach: Map<string, Map<string, string | null>>): SecurityFinding[] {
+    const findings: SecurityFinding[] = [];
+    const reachable = new Set<string>();
+    for (const previous of reach.values()) {
+      for (const id of previous.keys()) reachable.add(id);
+    }
+
+    for (const node of graph.nodes.values()) {
+      if (node.role !== 'compute' || !reachable.has(node.item.id)) continue;
+
+      if (!isInsideSubnet(graph, node)) {
+        findings.push({
+          rule: 'public-compute-outside-subnet',
+          severity: 'medium',
+          message: `${node.item.label} receives public traffic but is not placed in a subnet`,
+          shapeIds: [node.item.id],
+          remediation: 'Place the workload in a public subnet behind a load balancer, or in a private subnet'
+        });
+      }
+    }
+
+    return findings;
+  }
+}
+
+const SEVERITY_ORDER: Record<SecuritySeverity, number> = {
+  critical: 0,
+  high: 1,
+  medium: 2,
+  low: 3
+};
+
+const GUARD_KEYWORDS = ['gateway', 'firewall', 'waf', 'load-balancer', 'load balancer', 'front-door'];
+const ENCRYPTION_KEYS = ['encryption', 'encrypted', 'encryptionEnabled', 'encryptionAtRest'];
+
+// CanvasItem keys are "<shape type>-<shape id>"
+function getItemType(item: CanvasItem): string {
+  const suffix = `-${item.id}`;
+  return item.key.endsWith(suffix) ? item.key.slice(0, -suffix.length) : item.key.split('-')[0];
+}
+
+function classifyNode(item: CanvasItem, type: string, metadata?: ComponentMetadata): SecurityRole {
+  if (item.isBoundingBox) return 'container';
+
+  if (type === 'user' || type === 'external-system' || metadata?.category === ComponentCategory.EXTERNAL) {
+    return 'entry';
+  }
+
+  const searchText = `${metadata?.id || ''} ${metadata?.name || ''} ${item.label}`.toLowerCase();
+  if (
+    metadata?.category === ComponentCategory.API_GATEWAY ||
+    metadata?.subcategory === ComponentSubcategory.LOAD_BALANCER ||
+    metadata?.subcategory === ComponentSubcategory.FIREWALL ||
+    GUARD_KEYWORDS.some(keyword => searchText.includes(keyword))
+  ) {
+    return 'guard';
+  }
+
+  if (type === 'database' || metadata?.category === ComponentCategory.DATABASE) return 'database';
+  if (type === 'storage' || metadata?.category === ComponentCategory.STORAGE) return 'storage';
+
+  if (
+    type === 'compute' ||
+    metadata?.category === ComponentCategory.COMPUTE ||
+    metadata?.category === ComponentCategory.SERVERLESS ||
+    metadata?.category === ComponentCategory.CONTAINERS
+  ) {
+    return 'compute';
+  }
+
+  return 'other';
+}
+
+// Explicit shape properties win over the registry default for the component
+function isEncrypted(node: SecurityNode): boolean {
+  const properties = node.item.properties || {};
+  for (const key of ENCRYPTION_KEYS) {
+    if (properties[key] !== undefined) {
+      return properties[key] === true || properties[key] === 'true';
+    }
+  }
+
+  const defaults = node.metadata?.config.customProperties || [];
+  return defaults.some(p => ENCRYPTION_KEYS.includes(p.id) && p.defaultValue === true);
+}
+
+function isInsideSubnet(graph: SecurityGraph, node: SecurityNode): boolean {
+  const seen = new Set<string>();
+  let parentId = node.item.parentId;
+
+  while (parentId && !seen.has(parentId)) {
+    seen.add(parentId);
+    const parent = graph.nodes.get(parentId);
+    if (!parent) return false;
+    if (parent.type === 'subnet' || parent.metadata?.id === 'generic-subnet') return true;
+    parentId = parent.item.parentId;
+  }
+
+  return false;
+}
+
+function buildPath(previous: Map<string, string | null>, target: string): string[] {
+  const path: string[] = [];
+  let current: string | null | undefined = target;
+  while (current) {
+    path.unshift(current);
+    current = previous.get(current);
+  }
+  return path;
+}
+
+// Helper types
+type SecurityRole = 'entry' | 'guard' | 'database' | 'storage' | 'compute' | 'container' | 'other';
+
+export type SecuritySeverity = 'critical' | 'high' | 'medium' | 'low';
+
+export interface SecurityFinding {
+  rule: 'exposed-database' | 'unencrypted-storage' | 'public-compute-outside-subnet';
+  severity: SecuritySeverity;
+  message: string;
+  shapeIds: string[];
+  remediation: string;
+}
+
+interface SecurityNode {
+  item: CanvasItem;
+  type: string;
+  metadata?: ComponentMetadata;
+  role: SecurityRole;
+}
+
+interface SecurityGraph {
+  nodes: Map<string, SecurityNode>;
+  adjacency: Map<string, string[]>;
+}
@@ -20,16 +20,26 @@ import {
   Play,
   Eye,
   Settings,
-  Zap
+  Zap,
+  FolderOpen,
+  Layers,
+  PenTool,
+  GitFork,
+  Boxes,
+  Share2,
+  FileCode
 } from 'lucide-react';
-import { 
-  InfrastructurePattern,
+import { InfrastructurePattern } from '../patterns/core/pattern-types';
+import {
+  DiagramSourceType,
   ImportSource,
   ImportResult,
   ImportProgress,
-  BatchImportResult 
-} from '../patterns/core/pattern-types';
-import { patternImportExport } from '../patterns/core/pattern-import-export';
+  BatchImportResult,
+  patternImportExport
+} from '../patterns/core/pattern-import-export';
+import { ImportedCanvas } from '../import/import-model';
+import { readImportFiles } from '../import/files';
 import { PatternPreview } from '../patterns/ui/PatternPreview';
 
 export interface PatternImportWorkflowProps {
@@ -37,9 +47,125 @@ export interface PatternImportWorkflowProps {
   onClose: () => void;
   onImportComplete: (patterns: InfrastructurePattern[]) => void;
   onPatternPreview?: (pattern: InfrastructurePattern) => void;
+  onCanvasImport?: (canvas: ImportedCanvas) => void;
 }
 
-type ImportSourceType = 'file' | 'url' | 'git' | 'registry' | 'terraform' | 'cloudformation' | 'kubernetes';
+type ImportSourceType = ImportSource['type'];
+
+// Infrastructure code and diagram formats picked as files (or pasted); Terraform has its own
+// folder and state handling
+interface CodeImportFormat {
+  type: Exclude<DiagramSourceType, 'terraform'>;
+  icon: React.ComponentType<{ className?: string }>;
+  title: string;
+  description: string;
+  label: string;
+  extensions: string[];
+  detect: RegExp; // Files without a match are skipped, so zips and folders can hold other files
+  selectText: string;
+  hint: string;
+  notFound: string;
+  paste?: { placeholder: string; name: string };
+}
+
+const CODE_IMPORT_FORMATS: CodeImportFormat[] = [
+  {
+    type: 'cloudformation',
+    icon: Cloud,
+    title: 'CloudFormation',
+    description: 'Convert CloudFormation templates to patterns',
+    label: 'CloudFormation Templates',
+    extensions: ['.yaml', '.yml', '.json', '.template'],
+    detect: /\bResources\b/,
+    selectText: 'Select templates or a zip',
+    hint: 'YAML or JSON, including SAM templates',
+    notFound: 'No CloudFormation templates found in the selection'
+  },
+  {
+    type: 'kubernetes',
+    icon: Settings,
+    title: 'Kubernetes',
+    description: 'Convert Kubernetes manifests to patterns',
+    label: 'Kubernetes Manifests',
+    extensions: ['.yaml', '.yml', '.json'],
+    detect: /(^|\s)kind\s*:|"kind"\s*:/m,
+    selectText: 'Select manifests or a zip',
+    hint: 'Multi-document YAML, JSON or kubectl get -o yaml output',
+    notFound: 'No Kubernetes manifests found in the selection'
+  },
+  {
+    type: 'compose',
+    icon: Boxes,
+    title: 'Docker Compose',
+    description: 'Convert docker-compose files to patterns',
+    label: 'Docker Compose Files',
+    extensions: ['.yaml', '.yml'],
+    detect: /^services\s*:/m,
+    selectText: 'Select compose files or a zip',
+    hint: 'docker-compose.yml or compose.yaml; services, networks and volumes',
+    notFound: 'No docker-compose files found in the selection'
+  },
+  {
+    type: 'drawio',
+    icon: PenTool,
+    title: 'Draw.io',
+    description: 'Convert draw.io / diagrams.net diagrams to patterns',
+    label: 'Draw.io Diagrams',
+    extensions: ['.drawio', '.xml', '.svg'],
+    detect: /<mxfile|<mxGraphModel|content="&lt;mxfile/,
+    selectText: 'Select diagrams or a zip',
+    hint: '.drawio, compressed mxfile XML or .drawio.svg',
+    notFound: 'No draw.io diagrams found in the selection'
+  },
+  {
+    type: 'mermaid',
+    icon: GitFork,
+    title: 'Mermaid',
+    description: 'Convert Mermaid flowcharts and architecture diagrams to patterns',
+    label: 'Mermaid Diagram',
+    extensions: ['.mmd', '.mermaid', '.md', '.markdown'],
+    detect: /^\s*(flowchart|graph|architecture-beta)\b|```\s*mermaid/m,
+    selectText: 'Select .mmd files or READMEs',
+    hint: 'flowchart / graph and architecture-beta diagrams; the first ```mermaid block of a README is used',
+    notFound: 'No Mermaid diagrams found in the selection',
+    paste: {
+      placeholder: 'flowchart LR\n  subgraph vpc["VPC"]\n    api("API") -->|queries| db[("Database")]\n  end',
+      name: 'Pasted Mermaid diagram'
+    }
+  },
+  {
+    type: 'graphviz',
+    icon: Share2,
+    title: 'Graphviz',
+    description: 'Convert Graphviz DOT graphs to patterns',
+    label: 'Graphviz Graph',
+    extensions: ['.dot', '.gv'],
+    detect: /^\s*(strict\s+)?(di)?graph\b/im,
+    selectText: 'Select .dot files',
+    hint: 'subgraph cluster_* blocks become containers; node shapes pick the component and other node attributes become properties',
+    notFound: 'No DOT graphs found in the selection',
+    paste: {
+      placeholder: 'digraph G {\n  subgraph cluster_vpc {\n    label="VPC";\n    api [shape=box];\n    db [shape=cylinder];\n  }\n  api -> db [label="queries"];\n}',
+      name: 'Pasted Graphviz graph'
+    }
+  },
+  {
+    type: 'plantuml',
+    icon: FileCode,
+    title: 'PlantUML',
+    description: 'Convert C4-PlantUML and PlantUML deployment diagrams to patterns',
+    label: 'PlantUML Diagram',
+    extensions: ['.puml', '.plantuml', '.iuml', '.pu', '.wsd'],
+    detect: /^\s*@startuml\b/m,
+    selectText: 'Select .puml files',
+    hint: 'C4 boundaries, elements and Rel arrows, or plain PlantUML nodes and arrows; the first @startuml block is used',
+    notFound: 'No @startuml diagrams found in the selection',
+    paste: {
+      placeholder: '@startuml\n!include <C4/C4_Container>\nSystem_Boundary(shop, "Shop") {\n  Container(api, "API", "Node.js")\n  ContainerDb(db, "Database", "PostgreSQL")\n}\nRel(api, db, "Reads from")\n@enduml',
+      name: 'Pasted PlantUML diagram'
+    }
+  }
+];
 
 interface ImportStep {
   id: string;
@@ -62,7 +188,8 @@ export const PatternImportWorkflow: React.FC<PatternImportWorkflowProps> = ({
   isVisible,
   onClose,
   onImportComplete,
-  onPatternPreview
+  onPatternPreview,
+  onCanvasImport
 }) => {
   const [currentStep, setCurrentStep] = useState(0);
   const [sourceType, setSourceType] = useState<ImportSourceType>('file');
@@ -79,8 +206,12 @@ export const PatternImportWorkflow: React.FC<PatternImportWorkflowProps> = ({
   const [urlInput, setUrlInput] = useState('');
   const [gitInput, setGitInput] = useState({ repo: '', branch: 'main', path: '' });
   const [registryInput, setRegistryInput] = useState('');
+  const [selectErrors, setSelectErrors] = useState<Partial<Record<ImportSourceType, string>>>({});
+  const [pastedInputs, setPastedInputs] = useState<Partial<Record<ImportSourceType, string>>>({});
   
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const terraformFolderRef = useRef<HTMLInputElement>(null);
+  const terraformFilesRef = useRef<HTMLInputElement>(null);
 
   const steps: ImportStep[] = [
     {
@@ -144,20 +275,18 @@ export const PatternImportWorkflow: React.FC<PatternImportWorkflowProps> = ({
       title: 'Terraform', 
       description: 'Convert Terraform configurations to patterns' 
     },
-    { 
-      type: 'cloudformation' as ImportSourceType, 
-      icon: Cloud, 
-      title: 'CloudFormation', 
-      description: 'Convert CloudFormation templates to patterns' 
-    },
-    { 
-      type: 'kubernetes' as ImportSourceType, 
-      icon: Settings, 
-      title: 'Kubernetes', 
-      description: 'Convert Kubernetes manifests to patterns' 
-    }
+    ...CODE_IMPORT_FORMATS.map(({ type, icon, title, description }) => ({ type: type as ImportSourceType, icon, title, description }))
   ];
 
+  const addSources = (sources: ImportSource[]) => {
+    // Reading files is async, so add to the latest sources rather than the ones this render saw
+    setImportSources(prev => [...prev, ...sources]);
+  };
+
+  const setSelectError = (type: ImportSourceType, error: string | null) => {
+    setSelectErrors(prev => ({ ...prev, [type]: error ?? undefined }));
+  };
+
   const handleFileSelect = (files: FileList | null) => {
     if (!files) return;
     
@@ -167,7 +296,7 @@ export const PatternImportWorkflow: React.FC<PatternImportWorkflowProps> = ({
     const sources: ImportSource[] = fileArray.map(file => ({
       type: 'file',
       source: file.name,
-      options: { file }
+      options: { upload: file }
     }));
     
     setImportSources(sources);
@@ -181,7 +310,7 @@ export const PatternImportWorkflow: React.FC<PatternImportWorkflowProps> = ({
       source: urlInput.trim()
     };
     
-    setImportSources([...importSources, source]);
+    addSources([source]);
     setUrlInput('');
   };
 
@@ -197,7 +326,7 @@ export const PatternImportWorkflow: React.FC<PatternImportWorkflowProps> = ({
       }
     };
     
-    setImportSources([...importSources, source]);
+    addSources([source]);
     setGitInput({ repo: '', branch: 'main', path: '' });
   };
 
@@ -209,12 +338,76 @@ export const PatternImportWorkflow: React.FC<PatternImportWorkflowProps> = ({
       source: registryInput.trim()
     };
     
-    setImportSources([...importSources, source]);
+    addSources([source]);
     setRegistryInput('');
   };
 
+  // A picked folder or a set of .tf/.zip files becomes one source, so modules can be resolved.
+  // State files and `terraform show -json` output each become a source of their own.
+  const handleTerraformSelect = async (files: FileList | null) => {
+    if (!files || files.length === 0) return;
+
+    try {
+      const fileArray = Array.from(files);
+      const tfFiles = await readImportFiles(fileArray, ['.tf']);
+      // Both state and plan JSON carry terraform_version, which tells them apart from other JSON files
+      const stateFiles = Object.entries(await readImportFiles(fileArray, ['.tfstate', '.json']))
+        .filter(([, text]) => text.includes('"terraform_version"'));
+      if (Object.keys(tfFiles).length === 0 && stateFiles.length === 0) {
+        setSelectError('terraform', 'No .tf files, state files or plan JSON found in the selection');
+        return;
+      }
+
+      const first = fileArray[0];
+      const name = first.webkitRelativePath
+        ? first.webkitRelativePath.split('/')[0]
+        : fileArray.length === 1 ? first.name.replace(/\.(zip|tf)$/i, '') : 'Terraform configuration';
+
+      const sources: ImportSource[] = stateFiles.map(([path, text]) => ({
+        type: 'terraform',
+        source: path,
+        options: { text, name: fileArray.length === 1 ? undefined : name }
+      }));
+      if (Object.keys(tfFiles).length > 0) {
+        sources.unshift({ type: 'terraform', source: name, options: { files: tfFiles, name } });
+      }
+
+      setSelectError('terraform', null);
+      addSources(sources);
+    } catch (error) {
+      setSelectError('terraform', error instanceof Error ? error.message : 'Failed to read Terraform files');
+    }
+  };
+
+  // Each matching file becomes a source of its own; zips are searched for matching files
+  const handleCodeFilesSelect = async (format: CodeImportFormat, files: FileList | null) => {
+    if (!files || files.length === 0) return;
+
+    try {
+      const matches = Object.entries(await readImportFiles(Array.from(files), format.extensions))
+        .filter(([, text]) => format.detect.test(text));
+      if (matches.length === 0) {
+        setSelectError(format.type, format.notFound);
+        return;
+      }
+
+      setSelectError(format.type, null);
+      addSources(matches.map(([path, text]) => ({ type: format.type, source: path, options: { text, file: path } })));
+    } catch (error) {
+      setSelectError(format.type, error instanceof Error ? error.message : `Failed to read ${format.title} files`);
+    }
+  };
+
+  const addPastedSource = (format: CodeImportFormat) => {
+    const text = pastedInputs[format.type];
+    if (!format.paste || !text?.trim()) return;
+
+    addSources([{ type: format.type, source: format.paste.name, options: { text } }]);
+    setPastedInputs(prev => ({ ...prev, [format.type]: '' }));
+  };
+
   const removeSource = (index: number) => {
-    setImportSources(importSources.filter((_, i) => i !== index));
+    setImportSources(prev => prev.filter((_, i) => i !== index));
   };
 
   const validatePatterns = async () => {
@@ -470,6 +663,79 @@ export const PatternImportWorkflow: React.FC<PatternImportWorkflowProps> = ({
           </div>
         )}
 
+        {sourceType === 'terraform' && (
+          <div>
+            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+              Terraform Configuration
+            </label>
+            <input
+              ref={terraformFolderRef}
+              type="file"
+              multiple
+              {...({ webkitdirectory: '' } as React.InputHTMLAttributes<HTMLInputElement>)}
+              onChange={(e) => {
+                handleTerraformSelect(e.target.files);
+                e.target.value = '';
+              }}
+              className="hidden"
+            />
+            <input
+              ref={terraformFilesRef}
+              type="file"
+              multiple
+              accept=".tf,.zip,.tfstate,.json"
+              onChange={(e) => {
+                handleTerraformSelect(e.target.files);
+                e.target.value = '';
+              }}
+              className="hidden"
+            />
+            <div className="grid grid-cols-2 gap-4">
+              <button
+                onClick={() => terraformFolderRef.current?.click()}
+                className="border-2 border-dashed border-gray-300 dark:border-gray-600 rounded-lg p-6 text-center hover:border-gray-400 dark:hover:border-gray-500 transition-colors"
+              >
+                <FolderOpen className="h-8 w-8 text-gray-400 mx-auto mb-2" />
+                <div className="text-gray-600 dark:text-gray-400">
+                  Select a folder
+                </div>
+                <div className="text-sm text-gray-500 dark:text-gray-500 mt-1">
+                  Local modules are included
+                </div>
+              </button>
+              <button
+                onClick={() => terraformFilesRef.current?.click()}
+                className="border-2 border-dashed border-gray-300 dark:border-gray-600 rounded-lg p-6 text-center hover:border-gray-400 dark:hover:border-gray-500 transition-colors"
+              >
+                <Upload className="h-8 w-8 text-gray-400 mx-auto mb-2" />
+                <div className="text-gray-600 dark:text-gray-400">
+                  Select .tf files, a zip, state or plan JSON
+                </div>
+                <div className="text-sm text-gray-500 dark:text-gray-500 mt-1">
+                  Plans are colored by create, update and destroy
+                </div>
+              </button>
+            </div>
+            {selectErrors.terraform && (
+              <div className="mt-2 text-sm text-red-600 dark:text-red-400">
+                {selectErrors.terraform}
+              </div>
+            )}
+          </div>
+        )}
+
+        {CODE_IMPORT_FORMATS.filter(format => format.type === sourceType).map(format => (
+          <CodeFilesInput
+            key={format.type}
+            format={format}
+            error={selectErrors[format.type]}
+            pasted={pastedInputs[format.type] ?? ''}
+            onPastedChange={text => setPastedInputs(prev => ({ ...prev, [format.type]: text }))}
+            onAddPasted={() => addPastedSource(format)}
+            onSelect={files => handleCodeFilesSelect(format, files)}
+          />
+        ))}
+
         {sourceType === 'registry' && (
           <div>
             <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
@@ -605,6 +871,15 @@ export const PatternImportWorkflow: React.FC<PatternImportWorkflowProps> = ({
                 <Eye className="h-4 w-4" />
               </button>
             )}
+            {result.success && result.canvas && onCanvasImport && (
+              <button
+                onClick={() => onCanvasImport(result.canvas)}
+                className="p-2 text-gray-400 hover:text-blue-600 dark:hover:text-blue-400 rounded"
+                title="Open on canvas"
+              >
+                <Layers className="h-4 w-4" />
+              </button>
+            )}
           </div>
         </div>
       ))}
@@ -808,4 +1083,91 @@ export const PatternImportWorkflow: React.FC<PatternImportWorkflowProps> = ({
       )}
     </div>
   );
-};
\ No newline at end of file
+};
+
+interface CodeFilesInputProps {
+  format: CodeImportFormat;
+  error?: string;
+  pasted: string;
+  onPastedChange: (text: string) => void;
+  onAddPasted: () => void;
+  onSelect: (files: FileList | null) => void;
+}
+
+// File picker for one code or diagram format, with a text box for formats that can be pasted
+const CodeFilesInput: React.FC<CodeFilesInputProps> = ({ format, error, pasted, onPastedChange, onAddPasted, onSelect }) => {
+  const filesRef = useRef<HTMLInputElement>(null);
+
+  const fileInput = (
+    <input
+      ref={filesRef}
+      type="file"
+      multiple
+      accept={[...format.extensions, '.zip'].join(',')}
+      onChange={(e) => {
+        onSelect(e.target.files);
+        e.target.value = '';
+      }}
+      className="hidden"
+    />
+  );
+
+  return (
+    <div className={format.paste ? 'space-y-3' : undefined}>
+      <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+        {format.label}
+      </label>
+      {format.paste ? (
+        <>
+          <textarea
+            value={pasted}
+            onChange={(e) => onPastedChange(e.target.value)}
+            placeholder={format.paste.placeholder}
+            rows={8}
+            className="w-full px-3 py-2 font-mono text-sm border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-800 text-gray-900 dark:text-white"
+          />
+          <div className="flex space-x-2">
+            <button
+              onClick={onAddPasted}
+              disabled={!pasted.trim()}
+              className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50"
+            >
+              Add
+            </button>
+            {fileInput}
+            <button
+              onClick={() => filesRef.current?.click()}
+              className="px-4 py-2 border border-gray-300 dark:border-gray-600 rounded-lg text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-700"
+            >
+              {format.selectText}
+            </button>
+          </div>
+          <div className="text-sm text-gray-500 dark:text-gray-500">
+            {format.hint}
+          </div>
+        </>
+      ) : (
+        <>
+          {fileInput}
+          <button
+            onClick={() => filesRef.current?.click()}
+            className="w-full border-2 border-dashed border-gray-300 dark:border-gray-600 rounded-lg p-6 text-center hover:border-gray-400 dark:hover:border-gray-500 transition-colors"
+          >
+            <Upload className="h-8 w-8 text-gray-400 mx-auto mb-2" />
+            <div className="text-gray-600 dark:text-gray-400">
+              {format.selectText}
+            </div>
+            <div className="text-sm text-gray-500 dark:text-gray-500 mt-1">
+              {format.hint}
+            </div>
+          </button>
+        </>
+      )}
+      {error && (
+        <div className="mt-2 text-sm text-red-600 dark:text-red-400">
+          {error}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,14 @@
+// jsdom has no matchMedia, which the tldraw editor reads for the user's colour scheme; specs
+// that run in the node environment have no window at all
+if (typeof window !== 'undefined' && !window.matchMedia) {
+  window.matchMedia = (query: string) => ({
+    matches: false,
+    media: query,
+    onchange: null,
+    addListener: () => undefined,
+    removeListener: () => undefined,
+    addEventListener: () => undefined,
+    removeEventListener: () => undefined,
+    dispatchEvent: () => false
+  });
+}